@@ -0,0 +1,51 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         jest.config.js
+           ---
+           Jest configuration for WORLDEDIT unit tests.
+
+           runs the tests under tests/ against the main
+           process sources with ts-jest in a node
+           environment.
+
+*/
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+
+  /* test file patterns */
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+
+  /* TypeScript configuration */
+  transform: {
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          target: 'ES2020',
+          module: 'CommonJS',
+          moduleResolution: 'node',
+          strict: true,
+          esModuleInterop: true,
+          skipLibCheck: true,
+          types: ['jest', 'node']
+        }
+      }
+    ]
+  },
+
+  /* module resolution */
+  moduleFileExtensions: ['ts', 'js', 'json'],
+
+  /* test environment */
+  clearMocks: true,
+  restoreMocks: true
+};
@@ -43,6 +43,7 @@ import { spawn, ChildProcess } from 'child_process'; /* PROCESS SPAWNING */
 import { shell } from 'electron'; /* ELECTRON SHELL OPERATIONS */
 import { logger } from './logger'; /* LOGGING SYSTEM */
 import { WCCompilerIntegration } from './engine/WCCompilerIntegration'; /* WORLDC COMPILER */
+import { BuildBudgets, BudgetViolation } from '../shared/types'; /* SIZE BUDGET TYPES */
 
 /*
 	====================================================================
@@ -78,6 +79,7 @@ interface BuildConfiguration {
   compressionLevel: number /* ASSET COMPRESSION (0-9) */;
   bundleAnalysis: boolean /* GENERATE BUNDLE ANALYSIS */;
   targetPlatforms: string[] /* SPECIFIC PLATFORM TARGETS */;
+  budgets?: BuildBudgets /* SIZE BUDGETS OVER THE PROJECT'S */;
 }
 
 /*
@@ -136,6 +138,7 @@ interface BuildResult {
   installerPath?: string /* INSTALLER PACKAGE PATH */;
   webPath?: string /* WEB DEPLOYMENT PATH */;
   desktopPath?: string /* DESKTOP APPLICATION PATH */;
+  budgetViolations?: BudgetViolation[] /* EXCEEDED SIZE BUDGETS */;
 }
 
 /*
@@ -560,6 +563,27 @@ class BuildManager {
       /* CALCULATE OUTPUT SIZE */
       result.outputSize = await this.calculateOutputSize(finalConfig.outputDirectory);
 
+      /* CHECK SIZE BUDGETS */
+      const violations = await this.checkSizeBudgets(finalConfig, onProgress);
+
+      if (violations.length > 0) {
+        result.budgetViolations = violations;
+        result.errors.push(...violations.map((violation) => violation.message));
+        result.outputPath = path.resolve(finalConfig.outputDirectory);
+        result.buildTime = Date.now() - startTime;
+
+        logger.error('BUILD', 'Build exceeds its size budgets', { violations });
+
+        onProgress?.({
+          stage: 'Error',
+          progress: 0,
+          message: 'Build exceeds its size budgets',
+          error: violations[0].message
+        });
+
+        return result;
+      }
+
       /* GENERATE BUNDLE ANALYSIS */
       if (finalConfig.bundleAnalysis) {
         await this.generateBundleAnalysis(finalConfig, onProgress);
@@ -1558,6 +1582,101 @@ echo "Installation complete!"
     return totalSize;
   }
 
+  /*
+
+           checkSizeBudgets()
+	         ---
+	         checks the build output against its size budgets.
+
+	         budgets come from the build settings of the project
+	         file, overridden by those of the build configuration,
+	         and apply per build target. returns the budgets the
+	         output exceeds with their largest files.
+
+  */
+
+  private async checkSizeBudgets(
+    config: BuildConfiguration,
+    onProgress?: BuildCallback
+  ): Promise<BudgetViolation[]> {
+    const budgets = await this.loadBudgets(config);
+
+    if (!budgets) {
+      return [];
+    }
+
+    onProgress?.({
+      stage: 'Checking Budgets',
+      progress: 96,
+      message: 'Checking size budgets...'
+    });
+
+    const { resolveBudget, checkBudgets, formatBudgetViolation } = await import(
+      '@worldenv/worldc/dist/deployment/size-budget'
+    );
+
+    const files: Array<{ path: string; size: number }> = [];
+
+    /* LIST OUTPUT FILES */
+    const listDirectory = async (dirPath: string, basePath: string = ''): Promise<void> => {
+      const items = await fs.promises.readdir(dirPath);
+
+      for (const item of items) {
+        const itemPath = path.join(dirPath, item);
+        const relativePath = basePath ? `${basePath}/${item}` : item;
+        const stats = await fs.promises.stat(itemPath);
+
+        if (stats.isDirectory()) {
+          await listDirectory(itemPath, relativePath);
+        } else {
+          files.push({ path: relativePath, size: stats.size });
+        }
+      }
+    };
+
+    await listDirectory(config.outputDirectory);
+
+    return checkBudgets(files, resolveBudget(budgets, config.buildTarget)).map((violation) => ({
+      ...violation,
+      message: formatBudgetViolation(violation)
+    }));
+  }
+
+  /*
+
+           loadBudgets()
+	         ---
+	         merges the size budgets of the project file with
+	         those of the build configuration. returns undefined
+	         when neither sets any.
+
+  */
+
+  private async loadBudgets(config: BuildConfiguration): Promise<BuildBudgets | undefined> {
+    let projectBudgets: BuildBudgets | undefined;
+
+    if (this.projectPath) {
+      const projectFile = path.join(this.projectPath, 'project.worldenv');
+
+      try {
+        const project = JSON.parse(await fs.promises.readFile(projectFile, 'utf8'));
+        projectBudgets = project.settings?.build?.budgets;
+      } catch (error) {
+        logger.warn('BUILD', 'Failed to read project size budgets', { projectFile, error });
+      }
+    }
+
+    if (!projectBudgets && !config.budgets) {
+      return undefined;
+    }
+
+    return {
+      ...projectBudgets,
+      ...config.budgets,
+      platforms: { ...projectBudgets?.platforms, ...config.budgets?.platforms }
+    };
+  }
+
   /*
 
            generateBundleAnalysis()
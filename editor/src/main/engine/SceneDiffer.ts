@@ -0,0 +1,812 @@
+/*
+   ===============================================================
+   WORLDEDIT SCENE DIFFER
+   ELASTIC SOFTWORKS 2025
+   ===============================================================
+*/
+
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	===============================================================
+             --- SETUP ---
+	===============================================================
+*/
+
+import {
+  SceneData,
+  SceneDiff,
+  SceneMergeConflict,
+  SceneMergeResult,
+  SceneNodeAddition,
+  ScenePropertyChange,
+  SceneSettings,
+  NodeData,
+  ComponentData,
+  AssetReference,
+  Transform
+} from '../../shared/types/SceneTypes'; /* SCENE TYPE DEFINITIONS */
+
+/*
+	===============================================================
+             --- TYPES ---
+	===============================================================
+*/
+
+/*
+
+         NodeEntry
+	       ---
+	       a node of a scene with its place under its parent.
+	       the root has no parent.
+
+*/
+
+interface NodeEntry {
+  node: NodeData;
+  parentId: string | null;
+  after: string | null;
+}
+
+/*
+
+         NodePlacement
+	       ---
+	       value of a 'parent' change: the parent a node moves
+	       to and the sibling it follows, null for the first
+	       child. siblings rather than indices place nodes, so
+	       nodes the other side of a merge added before them
+	       do not shift them.
+
+*/
+
+interface NodePlacement {
+  id: string;
+  after: string | null;
+}
+
+/*
+	===============================================================
+             --- CONSTANTS ---
+	===============================================================
+*/
+
+const NODE_PROPERTIES = [
+  'name',
+  'type',
+  'enabled',
+  'tags',
+  'layer',
+  'prefab',
+  'overrides'
+] as const;
+
+const TRANSFORM_PROPERTY = /^transform\.(position|rotation|scale)\.([xyz])$/;
+
+const COMPONENT_PROPERTY = /^components\.(.+?)\.(type|enabled|properties\.(.+))$/;
+
+/*
+	===============================================================
+             --- CLASS ---
+	===============================================================
+*/
+
+/*
+
+         SceneDiffer
+	       ---
+	       compares, patches and merges scenes node by node.
+
+	       nodes and components are matched by id, so a node
+	       keeps its changes when it is renamed or moved, and
+	       two edits of one scene only conflict when they
+	       change the same property. scenes are compared the
+	       way their files hold them: prefab instances are
+	       compared by their overrides.
+
+	       components are compared by id; their order is not.
+
+*/
+
+export class SceneDiffer {
+  /*
+
+           diff()
+  	       ---
+  	       returns the changes that turn one scene into
+  	       another. both scenes must share their root node.
+
+  */
+  static diff(from: SceneData, to: SceneData): SceneDiff {
+    if (from.rootNode.id !== to.rootNode.id) {
+      throw new Error(`Scenes have different root nodes: ${from.rootNode.id}, ${to.rootNode.id}`);
+    }
+
+    const fromNodes = this.indexNodes(from.rootNode);
+    const toNodes = this.indexNodes(to.rootNode);
+    const moved = this.movedNodes(fromNodes, toNodes);
+    const diff: SceneDiff = {
+      added: [],
+      removed: [],
+      modified: [],
+      scene: this.diffScene(from, to)
+    };
+
+    fromNodes.forEach((_entry, id) => {
+      if (!toNodes.has(id)) {
+        diff.removed.push(id);
+      }
+    });
+
+    toNodes.forEach((entry, id) => {
+      const original = fromNodes.get(id);
+
+      if (!original) {
+        /* NODES ADDED BELOW AN ADDED NODE ARE PART OF ITS ADDITION */
+        if (entry.parentId !== null && fromNodes.has(entry.parentId)) {
+          diff.added.push({
+            parentId: entry.parentId,
+            after: entry.after,
+            node: this.withoutNodes(entry.node, fromNodes)
+          });
+        }
+        return;
+      }
+
+      const changes = this.diffNode(original.node, entry.node);
+      if (moved.has(id)) {
+        const placement: NodePlacement = { id: entry.parentId as string, after: entry.after };
+        changes.unshift({ property: 'parent', value: placement });
+      }
+
+      if (changes.length > 0) {
+        diff.modified.push({ nodeId: id, changes });
+      }
+    });
+
+    return diff;
+  }
+
+  /*
+
+           apply()
+  	       ---
+  	       returns a copy of a scene with the changes of a
+  	       diff made to it. changes to nodes the scene does
+  	       not have are skipped, as are nodes placed under
+  	       them.
+
+  */
+  static apply(scene: SceneData, diff: SceneDiff): SceneData {
+    const result = this.clone(scene);
+    const nodes = this.indexNodes(result.rootNode);
+    let pending: SceneNodeAddition[] = [];
+
+    /* DETACH MOVED NODES FIRST, SO A NODE MOVED OUT OF A REMOVED NODE STAYS */
+    for (const { nodeId, changes } of diff.modified) {
+      const move = changes.find((change) => change.property === 'parent');
+      const entry = nodes.get(nodeId);
+
+      if (move && entry) {
+        const placement = move.value as NodePlacement;
+        this.detach(nodes, nodeId);
+        pending.push({ parentId: placement.id, after: placement.after, node: entry.node });
+      }
+    }
+
+    for (const id of diff.removed) {
+      this.detach(nodes, id);
+    }
+
+    pending.push(
+      ...diff.added.map((addition) => ({ ...addition, node: this.clone(addition.node) }))
+    );
+
+    /* PLACE NODES ONCE THEIR PARENT AND THE SIBLING THEY FOLLOW ARE PLACED */
+    const lastPlaced = new Map<string, string>();
+    while (pending.length > 0) {
+      const present = this.indexNodes(result.rootNode);
+      const waiting = new Set(pending.map((placement) => placement.node.id));
+      const ready = pending.find(
+        (placement) =>
+          present.has(placement.parentId) &&
+          (placement.after === null || !waiting.has(placement.after))
+      );
+
+      if (!ready) {
+        break;
+      }
+
+      pending = pending.filter((placement) => placement !== ready);
+      if (!present.has(ready.node.id)) {
+        /* NODES AFTER ONE SIBLING KEEP THEIR ORDER; A GONE SIBLING PUTS THE NODE LAST */
+        const key = `${ready.parentId}/${ready.after ?? ''}`;
+        const previous = lastPlaced.get(key) ?? ready.after;
+        const children = present.get(ready.parentId)!.node.children;
+        const after = children.findIndex((child) => child.id === previous);
+        const index = previous === null ? 0 : after >= 0 ? after + 1 : children.length;
+
+        children.splice(index, 0, ready.node);
+        lastPlaced.set(key, ready.node.id);
+      }
+    }
+
+    const placed = this.indexNodes(result.rootNode);
+    for (const { nodeId, changes } of diff.modified) {
+      const node = placed.get(nodeId)?.node;
+      if (node) {
+        changes.forEach((change) => this.applyNodeChange(node, change));
+      }
+    }
+
+    diff.scene.forEach((change) => this.applySceneChange(result, change));
+    return result;
+  }
+
+  /*
+
+           merge()
+  	       ---
+  	       merges the changes two scenes made to the scene
+  	       they share. changes made by one side are taken;
+  	       changes both sides made differently are conflicts,
+  	       for which the merged scene keeps our side. a node
+  	       one side removed and the other changed is a
+  	       conflict too.
+
+  */
+  static merge(base: SceneData, ours: SceneData, theirs: SceneData): SceneMergeResult {
+    const oursDiff = this.diff(base, ours);
+    const theirsDiff = this.diff(base, theirs);
+    const baseNodes = this.indexNodes(base.rootNode);
+    const oursChanges = new Map(oursDiff.modified.map((entry) => [entry.nodeId, entry.changes]));
+    const theirsChanges = new Map(
+      theirsDiff.modified.map((entry) => [entry.nodeId, entry.changes])
+    );
+    const oursTouched = this.touchedNodes(oursDiff);
+    const theirsTouched = this.touchedNodes(theirsDiff);
+    const conflicts: SceneMergeConflict[] = [];
+
+    /* REMOVALS */
+    const kept = new Set<string>();
+    const movedByUs = (id: string): boolean =>
+      !!oursChanges.get(id)?.some((change) => change.property === 'parent');
+
+    for (const id of theirsDiff.removed) {
+      if (!oursDiff.removed.includes(id) && oursTouched.has(id)) {
+        conflicts.push({ message: 'Node removed by them and changed by us', nodeId: id });
+
+        /* A KEPT NODE KEEPS THE NODES ABOVE IT, UNLESS WE MOVED IT AWAY */
+        let child = id;
+        kept.add(child);
+        while (!movedByUs(child) && baseNodes.get(child)?.parentId) {
+          child = baseNodes.get(child)!.parentId as string;
+          kept.add(child);
+        }
+      }
+    }
+
+    for (const id of oursDiff.removed) {
+      if (!theirsDiff.removed.includes(id) && theirsTouched.has(id)) {
+        conflicts.push({ message: 'Node removed by us and changed by them', nodeId: id });
+      }
+    }
+
+    const removed = new Set(
+      [...oursDiff.removed, ...theirsDiff.removed].filter((id) => !kept.has(id))
+    );
+
+    /* ADDITIONS */
+    const added = [...oursDiff.added];
+    for (const addition of theirsDiff.added) {
+      const ourAddition = added.find((candidate) => candidate.node.id === addition.node.id);
+
+      if (!ourAddition) {
+        added.push(addition);
+      } else if (!this.isEqual(ourAddition, addition)) {
+        conflicts.push({
+          message: 'Node added differently by us and by them',
+          nodeId: addition.node.id,
+          ours: ourAddition.node,
+          theirs: addition.node
+        });
+      }
+    }
+
+    /* PROPERTY CHANGES; MOVES INTO REMOVED NODES ARE DROPPED */
+    const modified: SceneDiff['modified'] = [];
+    const nodeIds = new Set([...oursChanges.keys(), ...theirsChanges.keys()]);
+
+    nodeIds.forEach((nodeId) => {
+      const changes = this.mergeChanges(
+        oursChanges.get(nodeId) ?? [],
+        theirsChanges.get(nodeId) ?? [],
+        conflicts,
+        nodeId
+      ).filter(
+        (change) => change.property !== 'parent' || !removed.has((change.value as NodePlacement).id)
+      );
+
+      if (changes.length > 0) {
+        modified.push({ nodeId, changes });
+      }
+    });
+
+    const scene = this.apply(base, {
+      added,
+      removed: Array.from(removed),
+      modified,
+      scene: this.mergeChanges(oursDiff.scene, theirsDiff.scene, conflicts)
+    });
+
+    return {
+      scene: { ...scene, id: ours.id, metadata: this.clone(ours.metadata) },
+      conflicts
+    };
+  }
+
+  /*
+
+           describeConflict()
+  	       ---
+  	       formats a merge conflict as one line of text.
+
+  */
+  static describeConflict(conflict: SceneMergeConflict): string {
+    const target = [
+      conflict.nodeId ? `node ${conflict.nodeId}` : 'scene',
+      conflict.componentId ? `component ${conflict.componentId}` : null,
+      conflict.property && !conflict.componentId ? conflict.property : null
+    ].filter(Boolean);
+
+    return `${target.join(', ')}: ${conflict.message}`;
+  }
+
+  /*
+
+           indexNodes()
+  	       ---
+  	       maps the id of every node of a tree to its entry,
+  	       in tree order.
+
+  */
+  private static indexNodes(root: NodeData): Map<string, NodeEntry> {
+    const nodes = new Map<string, NodeEntry>();
+
+    const visit = (node: NodeData, parentId: string | null, after: string | null): void => {
+      nodes.set(node.id, { node, parentId, after });
+      node.children.forEach((child, index) =>
+        visit(child, node.id, index > 0 ? node.children[index - 1].id : null)
+      );
+    };
+
+    visit(root, null, null);
+    return nodes;
+  }
+
+  /*
+
+           movedNodes()
+  	       ---
+  	       finds the nodes that moved to another parent, and
+  	       the fewest nodes that moved among their siblings to
+  	       put the siblings in their new order.
+
+  */
+  private static movedNodes(
+    fromNodes: Map<string, NodeEntry>,
+    toNodes: Map<string, NodeEntry>
+  ): Set<string> {
+    const moved = new Set<string>();
+
+    toNodes.forEach((entry, id) => {
+      const original = fromNodes.get(id);
+
+      if (!original) {
+        return;
+      }
+
+      if (original.parentId !== entry.parentId) {
+        moved.add(id);
+      }
+
+      const keptChildren = (node: NodeData, other: NodeData): string[] =>
+        node.children
+          .map((child) => child.id)
+          .filter((childId) => other.children.some((child) => child.id === childId));
+
+      const before = keptChildren(original.node, entry.node);
+      const after = keptChildren(entry.node, original.node);
+      const inOrder = this.commonSequence(before, after);
+
+      after.filter((childId) => !inOrder.has(childId)).forEach((childId) => moved.add(childId));
+    });
+
+    return moved;
+  }
+
+  /*
+
+           commonSequence()
+  	       ---
+  	       returns the longest common subsequence of two lists
+  	       of ids.
+
+  */
+  private static commonSequence(a: string[], b: string[]): Set<string> {
+    const lengths = Array.from({ length: a.length + 1 }, () =>
+      new Array<number>(b.length + 1).fill(0)
+    );
+
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[i] === b[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const sequence = new Set<string>();
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        sequence.add(a[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return sequence;
+  }
+
+  /*
+
+           withoutNodes()
+  	       ---
+  	       copies an added node without the nodes below it that
+  	       exist in the original scene; those are moves.
+
+  */
+  private static withoutNodes(node: NodeData, existing: Map<string, NodeEntry>): NodeData {
+    const copy = this.clone<NodeData>({ ...node, children: [] });
+
+    copy.children = node.children
+      .filter((child) => !existing.has(child.id))
+      .map((child) => this.withoutNodes(child, existing));
+
+    return copy;
+  }
+
+  /*
+
+           diffNode()
+  	       ---
+  	       compares the properties and components of a node in
+  	       two scenes. its children are compared as nodes of
+  	       their own.
+
+  */
+  private static diffNode(from: NodeData, to: NodeData): ScenePropertyChange[] {
+    const changes: ScenePropertyChange[] = [];
+    const compare = (property: string, before: unknown, after: unknown): void =>
+      this.compareProperty(changes, property, before, after);
+
+    for (const key of NODE_PROPERTIES) {
+      compare(key, from[key], to[key]);
+    }
+
+    for (const key of ['position', 'rotation', 'scale'] as const) {
+      for (const axis of ['x', 'y', 'z'] as const) {
+        compare(
+          `transform.${key}.${axis}`,
+          from.transform?.[key]?.[axis],
+          to.transform?.[key]?.[axis]
+        );
+      }
+    }
+
+    /* COMPARE COMPONENTS */
+    for (const component of from.components) {
+      const target = to.components.find((c) => c.id === component.id);
+      const prefix = `components.${component.id}`;
+
+      if (!target) {
+        changes.push({ property: prefix, removed: true });
+        continue;
+      }
+
+      compare(`${prefix}.type`, component.type, target.type);
+      compare(`${prefix}.enabled`, component.enabled, target.enabled);
+
+      const before = (component.properties ?? {}) as Record<string, unknown>;
+      const after = (target.properties ?? {}) as Record<string, unknown>;
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      keys.forEach((key) => compare(`${prefix}.properties.${key}`, before[key], after[key]));
+    }
+
+    for (const component of to.components) {
+      if (!from.components.some((c) => c.id === component.id)) {
+        changes.push({ property: `components.${component.id}`, value: this.clone(component) });
+      }
+    }
+
+    return changes;
+  }
+
+  /*
+
+           diffScene()
+  	       ---
+  	       compares the name, settings and assets of two
+  	       scenes. metadata is not compared.
+
+  */
+  private static diffScene(from: SceneData, to: SceneData): ScenePropertyChange[] {
+    const changes: ScenePropertyChange[] = [];
+    const fromSettings = (from.settings ?? {}) as unknown as Record<string, unknown>;
+    const toSettings = (to.settings ?? {}) as unknown as Record<string, unknown>;
+    const fromAssets = from.assets ?? [];
+    const toAssets = to.assets ?? [];
+
+    this.compareProperty(changes, 'name', from.name, to.name);
+
+    new Set([...Object.keys(fromSettings), ...Object.keys(toSettings)]).forEach((key) =>
+      this.compareProperty(changes, `settings.${key}`, fromSettings[key], toSettings[key])
+    );
+
+    new Set([...fromAssets, ...toAssets].map((asset) => asset.id)).forEach((id) =>
+      this.compareProperty(
+        changes,
+        `assets.${id}`,
+        fromAssets.find((asset) => asset.id === id),
+        toAssets.find((asset) => asset.id === id)
+      )
+    );
+
+    return changes;
+  }
+
+  private static compareProperty(
+    changes: ScenePropertyChange[],
+    property: string,
+    before: unknown,
+    after: unknown
+  ): void {
+    if (this.isEqual(before, after)) {
+      return;
+    }
+
+    changes.push(
+      after === undefined ? { property, removed: true } : { property, value: this.clone(after) }
+    );
+  }
+
+  /*
+
+           touchedNodes()
+  	       ---
+  	       returns the nodes a diff changes, places nodes under
+  	       or moves nodes into.
+
+  */
+  private static touchedNodes(diff: SceneDiff): Set<string> {
+    const touched = new Set<string>();
+
+    diff.added.forEach((addition) => touched.add(addition.parentId));
+    diff.modified.forEach(({ nodeId, changes }) => {
+      touched.add(nodeId);
+      changes
+        .filter((change) => change.property === 'parent')
+        .forEach((change) => touched.add((change.value as NodePlacement).id));
+    });
+
+    return touched;
+  }
+
+  /*
+
+           mergeChanges()
+  	       ---
+  	       merges the property changes both sides made to one
+  	       node, or to the scene without a node id. a component
+  	       one side added or removed conflicts with any change
+  	       the other side made inside it.
+
+  */
+  private static mergeChanges(
+    ours: ScenePropertyChange[],
+    theirs: ScenePropertyChange[],
+    conflicts: SceneMergeConflict[],
+    nodeId?: string
+  ): ScenePropertyChange[] {
+    const merged = [...ours];
+    const valueOf = (change: ScenePropertyChange): unknown =>
+      change.removed ? undefined : change.value;
+
+    for (const change of theirs) {
+      const { property } = change;
+      const ourChange = ours.find((candidate) => candidate.property === property);
+      const ourComponent = ours.find(
+        (candidate) =>
+          /^components\.[^.]+$/.test(candidate.property) &&
+          property.startsWith(`${candidate.property}.`)
+      );
+      const insideComponent =
+        /^components\.[^.]+$/.test(property) &&
+        ours.some((candidate) => candidate.property.startsWith(`${property}.`));
+
+      if (ourChange) {
+        const sameParent =
+          property === 'parent' &&
+          (ourChange.value as NodePlacement).id === (change.value as NodePlacement).id;
+
+        if (!sameParent && !this.isEqual(ourChange, change)) {
+          conflicts.push({
+            message:
+              property === 'parent'
+                ? 'Node moved differently by us and by them'
+                : 'Property changed differently by us and by them',
+            nodeId,
+            property,
+            ours: valueOf(ourChange),
+            theirs: valueOf(change)
+          });
+        }
+      } else if (ourComponent || insideComponent) {
+        const componentProperty = ourComponent ? ourComponent.property : property;
+
+        conflicts.push({
+          message: ourComponent
+            ? `Component ${ourComponent.removed ? 'removed' : 'replaced'} by us and changed by them`
+            : `Component ${change.removed ? 'removed' : 'replaced'} by them and changed by us`,
+          nodeId,
+          componentId: componentProperty.slice('components.'.length),
+          property
+        });
+      } else {
+        merged.push(change);
+      }
+    }
+
+    return merged;
+  }
+
+  /*
+
+           detach()
+  	       ---
+  	       takes a node out of its parent.
+
+  */
+  private static detach(nodes: Map<string, NodeEntry>, id: string): void {
+    const parentId = nodes.get(id)?.parentId;
+    const parent = parentId ? nodes.get(parentId)?.node : null;
+
+    if (parent) {
+      parent.children = parent.children.filter((child) => child.id !== id);
+    }
+  }
+
+  /*
+
+           applyNodeChange()
+  	       ---
+  	       makes one property change to a node. moves are made
+  	       by apply().
+
+  */
+  private static applyNodeChange(node: NodeData, change: ScenePropertyChange): void {
+    const { property } = change;
+    const value = this.clone(change.value);
+    const componentProperty = COMPONENT_PROPERTY.exec(property);
+    const transformProperty = TRANSFORM_PROPERTY.exec(property);
+
+    if (componentProperty) {
+      const component = node.components.find((c) => c.id === componentProperty[1]);
+
+      if (component && componentProperty[3] !== undefined) {
+        const properties = component.properties as Record<string, unknown>;
+
+        if (change.removed) {
+          delete properties[componentProperty[3]];
+        } else {
+          properties[componentProperty[3]] = value;
+        }
+      } else if (component) {
+        (component as unknown as Record<string, unknown>)[componentProperty[2]] = value;
+      }
+    } else if (property.startsWith('components.')) {
+      const id = property.slice('components.'.length);
+      const index = node.components.findIndex((c) => c.id === id);
+
+      if (change.removed) {
+        node.components = node.components.filter((c) => c.id !== id);
+      } else if (index >= 0) {
+        node.components[index] = value as ComponentData;
+      } else {
+        node.components.push(value as ComponentData);
+      }
+    } else if (transformProperty) {
+      const vector = node.transform?.[transformProperty[1] as keyof Transform] as unknown as
+        | Record<string, unknown>
+        | undefined;
+      if (vector) {
+        vector[transformProperty[2]] = value;
+      }
+    } else if ((NODE_PROPERTIES as readonly string[]).includes(property)) {
+      const target = node as unknown as Record<string, unknown>;
+
+      if (change.removed) {
+        delete target[property];
+      } else {
+        target[property] = value;
+      }
+    }
+  }
+
+  /*
+
+           applySceneChange()
+  	       ---
+  	       makes one change to the name, settings or assets of
+  	       a scene.
+
+  */
+  private static applySceneChange(scene: SceneData, change: ScenePropertyChange): void {
+    const { property } = change;
+    const value = this.clone(change.value);
+
+    if (property === 'name') {
+      scene.name = value as string;
+    } else if (property.startsWith('settings.')) {
+      const settings = (scene.settings ?? {}) as unknown as Record<string, unknown>;
+      const key = property.slice('settings.'.length);
+
+      if (change.removed) {
+        delete settings[key];
+      } else {
+        settings[key] = value;
+      }
+
+      scene.settings = settings as unknown as SceneSettings;
+    } else if (property.startsWith('assets.')) {
+      const id = property.slice('assets.'.length);
+      const assets = scene.assets ?? [];
+      const index = assets.findIndex((asset) => asset.id === id);
+
+      if (change.removed) {
+        scene.assets = assets.filter((asset) => asset.id !== id);
+      } else if (index >= 0) {
+        assets[index] = value as AssetReference;
+        scene.assets = assets;
+      } else {
+        scene.assets = [...assets, value as AssetReference];
+      }
+    }
+  }
+
+  private static clone<T>(value: T): T {
+    return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+  }
+
+  private static isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
+
+/*
+	===============================================================
+             --- EOF ---
+	===============================================================
+*/
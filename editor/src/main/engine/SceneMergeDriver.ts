@@ -0,0 +1,178 @@
+/*
+   ===============================================================
+   WORLDEDIT SCENE MERGE DRIVER
+   ELASTIC SOFTWORKS 2025
+   ===============================================================
+*/
+
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	===============================================================
+             --- SETUP ---
+	===============================================================
+*/
+
+import * as fs from 'fs'; /* FILESYSTEM OPERATIONS */
+import { SceneDiffer } from './SceneDiffer'; /* SCENE DIFF AND MERGE */
+import type {
+  SceneData,
+  SceneDiff,
+  SceneFileData,
+  SceneMergeConflict
+} from '../../shared/types/SceneTypes';
+
+/*
+	===============================================================
+             --- CONSTANTS ---
+	===============================================================
+*/
+
+const SCENE_FORMAT = 'worldenv-scene';
+
+const SCENE_FORMAT_VERSION = '1.0.0';
+
+/* EXIT CODES GIT EXPECTS OF A MERGE DRIVER */
+const EXIT_MERGED = 0;
+const EXIT_CONFLICTS = 1;
+const EXIT_FAILED = 2;
+
+/*
+	===============================================================
+             --- FUNCS ---
+	===============================================================
+*/
+
+/*
+
+         readSceneFile()
+	       ---
+	       reads the scene of a .scene.json file. an empty file
+	       has no scene, as git passes for the base of a file
+	       both sides added.
+
+*/
+
+function readSceneFile(filePath: string): SceneData | null {
+  const content = fs.readFileSync(filePath, 'utf8');
+  if (!content.trim()) {
+    return null;
+  }
+
+  const fileData = JSON.parse(content) as SceneFileData;
+  if (fileData.format !== SCENE_FORMAT || !fileData.scene) {
+    throw new Error(`Invalid scene format: ${filePath}`);
+  }
+
+  return fileData.scene;
+}
+
+/*
+
+         diffSceneFiles()
+	       ---
+	       returns the changes that turn the scene of one file
+	       into the scene of another.
+
+*/
+
+export function diffSceneFiles(fromPath: string, toPath: string): SceneDiff {
+  const from = readSceneFile(fromPath);
+  const to = readSceneFile(toPath);
+
+  if (!from || !to) {
+    throw new Error(`Scene file is empty: ${!from ? fromPath : toPath}`);
+  }
+
+  return SceneDiffer.diff(from, to);
+}
+
+/*
+
+         mergeSceneFiles()
+	       ---
+	       merges the scenes of our file and their file and
+	       writes the result, to our file unless told otherwise.
+	       conflicts keep our side and are listed in the file
+	       until the scene is saved again.
+
+	       without a base both sides are merged against an
+	       empty scene with our root node.
+
+*/
+
+export function mergeSceneFiles(
+  basePath: string,
+  oursPath: string,
+  theirsPath: string,
+  outputPath: string = oursPath
+): SceneMergeConflict[] {
+  const ours = readSceneFile(oursPath);
+  const theirs = readSceneFile(theirsPath);
+
+  if (!ours || !theirs) {
+    throw new Error(`Scene file is empty: ${!ours ? oursPath : theirsPath}`);
+  }
+
+  const base = readSceneFile(basePath) ?? {
+    ...ours,
+    rootNode: { ...ours.rootNode, components: [], children: [] }
+  };
+  const { scene, conflicts } = SceneDiffer.merge(base, ours, theirs);
+
+  const fileData: SceneFileData = {
+    format: SCENE_FORMAT,
+    formatVersion: SCENE_FORMAT_VERSION,
+    scene
+  };
+  if (conflicts.length > 0) {
+    fileData.mergeConflicts = conflicts;
+  }
+
+  fs.writeFileSync(outputPath, JSON.stringify(fileData, null, 2), 'utf8');
+  return conflicts;
+}
+
+/*
+
+         command entry
+	       ---
+	       git merge driver: scene-merge %O %A %B [%P]. the
+	       merged scene replaces %A; conflicts are printed
+	       and make the merge stop for review.
+
+*/
+
+if (require.main === module) {
+  const [basePath, oursPath, theirsPath, displayPath] = process.argv.slice(2);
+
+  if (!basePath || !oursPath || !theirsPath) {
+    process.stderr.write('Usage: scene-merge <base> <ours> <theirs> [path]\n');
+    process.exit(EXIT_FAILED);
+  }
+
+  try {
+    const conflicts = mergeSceneFiles(basePath, oursPath, theirsPath);
+    const name = displayPath || oursPath;
+
+    conflicts.forEach((conflict) => {
+      process.stderr.write(`${name}: ${SceneDiffer.describeConflict(conflict)}\n`);
+    });
+    process.exit(conflicts.length > 0 ? EXIT_CONFLICTS : EXIT_MERGED);
+  } catch (error) {
+    process.stderr.write(
+      `scene-merge: ${error instanceof Error ? error.message : String(error)}\n`
+    );
+    process.exit(EXIT_FAILED);
+  }
+}
+
+/*
+	===============================================================
+             --- EOF ---
+	===============================================================
+*/
@@ -27,7 +27,9 @@ import {
   Transform,
   Vector3,
   AssetReference,
-  SceneSettings
+  SceneSettings,
+  PrefabData,
+  PrefabOverride
 } from '../../shared/types/SceneTypes'; /* SCENE TYPE DEFINITIONS */
 import { Node, NodeType } from '../../renderer/core/hierarchy/Node'; /* HIERARCHY NODE SYSTEM */
 import { Scene } from '../../renderer/core/hierarchy/Scene'; /* SCENE CONTAINER */
@@ -74,6 +76,24 @@ export interface SerializationContext {
   warnings: SceneValidationError[] /* non-critical validation warnings */;
 }
 
+/*
+
+         PrefabResolver
+	       ---
+	       reads a prefab by the project-relative path its
+	       instances refer to it by, returning null when the
+	       prefab cannot be read.
+
+*/
+
+export type PrefabResolver = (prefabPath: string) => PrefabData | null;
+
+/* maps the ids of a prefab's nodes and components to those of an instance */
+interface InstanceIds {
+  node: (id: string) => string;
+  component: (id: string) => string;
+}
+
 /*
 	===============================================================
              --- FUNCS ---
@@ -699,6 +719,509 @@ export class SceneSerializer {
         return 'unknown';
     }
   }
+
+  /*
+
+           instantiatePrefab()
+  	       ---
+  	       creates an instance of a prefab without overrides, or
+  	       returns null when the prefab cannot be read.
+
+  	       the instance root takes the given id and every other
+  	       node and component of the prefab gets it as a prefix,
+  	       so an instance has the same ids each time it is
+  	       restored and its overrides find their targets.
+
+  */
+  static instantiatePrefab(
+    prefabPath: string,
+    instanceId: string,
+    resolve: PrefabResolver
+  ): NodeData | null {
+    const source = this.loadPrefabSource(prefabPath, resolve, []);
+    return source ? this.remapInstance(source, instanceId, prefabPath) : null;
+  }
+
+  /*
+
+           restorePrefabInstances()
+  	       ---
+  	       rebuilds each prefab instance of a stored node tree
+  	       from its prefab and its overrides. an instance whose
+  	       prefab cannot be read is kept as it was stored.
+
+  */
+  static restorePrefabInstances(node: NodeData, resolve: PrefabResolver): NodeData {
+    return this.restoreNode(node, resolve, []);
+  }
+
+  /*
+
+           storePrefabInstances()
+  	       ---
+  	       reduces each prefab instance of a node tree to its
+  	       root and the properties that differ from its prefab.
+  	       scenes store only these overrides, so an edit to a
+  	       prefab reaches every instance the next time a scene
+  	       is restored.
+
+  	       the root keeps its resolved name and transform so a
+  	       reader that does not know the prefab still finds it.
+
+  */
+  static storePrefabInstances(node: NodeData, resolve: PrefabResolver): NodeData {
+    return this.storeNode(node, resolve, []);
+  }
+
+  /*
+
+           getPrefabOverrides()
+  	       ---
+  	       returns the properties of a restored prefab instance
+  	       that differ from its prefab.
+
+  */
+  static getPrefabOverrides(instance: NodeData, resolve: PrefabResolver): PrefabOverride[] {
+    if (!instance.prefab) {
+      return [];
+    }
+
+    const source = this.loadPrefabSource(instance.prefab.path, resolve, []);
+    return source ? this.diffInstance(instance, source, resolve, []) : (instance.overrides ?? []);
+  }
+
+  /*
+
+           applyOverridesToPrefab()
+  	       ---
+  	       writes the overrides of an instance into its prefab
+  	       and returns the new root node of the prefab, stored
+  	       the way its file holds it. the position and rotation
+  	       of the instance root place the instance in its scene
+  	       and are left out.
+
+  */
+  static applyOverridesToPrefab(
+    prefab: PrefabData,
+    prefabPath: string,
+    overrides: PrefabOverride[],
+    resolve: PrefabResolver
+  ): NodeData {
+    const root = this.restoreNode(prefab.rootNode, resolve, [prefabPath]);
+    const ids: InstanceIds = { node: (id) => id, component: (id) => id };
+
+    for (const override of overrides) {
+      const placement =
+        override.target === root.id && /^transform\.(position|rotation)\./.test(override.property);
+      const target = this.findNode(root, override.target);
+
+      if (target && !placement) {
+        this.setOverride(target, override, ids, resolve, [prefabPath]);
+      }
+    }
+
+    return this.storeNode(root, resolve, [prefabPath]);
+  }
+
+  /*
+
+           usesPrefab()
+  	       ---
+  	       checks whether a stored node tree has instances of a
+  	       prefab, directly or through the prefabs it instances.
+
+  */
+  static usesPrefab(node: NodeData, prefabPath: string, resolve: PrefabResolver): boolean {
+    const visit = (current: NodeData, seen: string[]): boolean => {
+      if (current.prefab) {
+        if (current.prefab.path === prefabPath) {
+          return true;
+        }
+
+        if (!seen.includes(current.prefab.path)) {
+          const prefab = resolve(current.prefab.path);
+          if (prefab?.rootNode && visit(prefab.rootNode, [...seen, current.prefab.path])) {
+            return true;
+          }
+        }
+
+        for (const override of current.overrides ?? []) {
+          if (
+            override.property === 'children' &&
+            (override.value as NodeData[]).some((child) => visit(child, seen))
+          ) {
+            return true;
+          }
+        }
+      }
+
+      return current.children.some((child) => visit(child, seen));
+    };
+
+    return visit(node, []);
+  }
+
+  /*
+
+           loadPrefabSource()
+  	       ---
+  	       reads a prefab and restores the instances it holds.
+  	       the stack lists the prefabs being restored around
+  	       it, so a prefab that instances itself is refused.
+
+  */
+  private static loadPrefabSource(
+    prefabPath: string,
+    resolve: PrefabResolver,
+    stack: string[]
+  ): NodeData | null {
+    if (stack.includes(prefabPath)) {
+      throw new Error(`Prefab includes itself: ${[...stack, prefabPath].join(' -> ')}`);
+    }
+
+    const prefab = resolve(prefabPath);
+    return prefab?.rootNode
+      ? this.restoreNode(prefab.rootNode, resolve, [...stack, prefabPath])
+      : null;
+  }
+
+  /*
+
+           restoreNode()
+  	       ---
+  	       restores the instances of a node tree, see
+  	       restorePrefabInstances().
+
+  */
+  private static restoreNode(node: NodeData, resolve: PrefabResolver, stack: string[]): NodeData {
+    const source = node.prefab ? this.loadPrefabSource(node.prefab.path, resolve, stack) : null;
+
+    if (!node.prefab || !source) {
+      return {
+        ...node,
+        children: node.children.map((child) => this.restoreNode(child, resolve, stack))
+      };
+    }
+
+    const instance = this.remapInstance(source, node.id, node.prefab.path);
+    const ids = this.instanceIds(source.id, node.id);
+
+    for (const override of node.overrides ?? []) {
+      const target = this.findNode(instance, ids.node(override.target));
+      if (target) {
+        this.setOverride(target, override, ids, resolve, stack);
+      }
+    }
+
+    instance.overrides = node.overrides ?? [];
+    return instance;
+  }
+
+  /*
+
+           storeNode()
+  	       ---
+  	       stores the instances of a node tree, see
+  	       storePrefabInstances().
+
+  */
+  private static storeNode(node: NodeData, resolve: PrefabResolver, stack: string[]): NodeData {
+    const source = node.prefab ? this.loadPrefabSource(node.prefab.path, resolve, stack) : null;
+
+    if (!node.prefab || !source) {
+      return {
+        ...node,
+        children: node.children.map((child) => this.storeNode(child, resolve, stack))
+      };
+    }
+
+    return {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      enabled: node.enabled,
+      transform: this.clone(node.transform),
+      components: [],
+      children: [],
+      ...(node.tags !== undefined && { tags: node.tags }),
+      ...(node.layer !== undefined && { layer: node.layer }),
+      prefab: { path: node.prefab.path },
+      overrides: this.diffInstance(node, source, resolve, stack)
+    };
+  }
+
+  /*
+
+           diffInstance()
+  	       ---
+  	       compares a restored instance with the prefab it was
+  	       made from, node by node and component by component.
+  	       only the component properties the prefab defines are
+  	       compared; the others hold the defaults the editor
+  	       gives every component. nodes and components deleted
+  	       from the instance are recorded by their prefab ids.
+
+  */
+  private static diffInstance(
+    instance: NodeData,
+    source: NodeData,
+    resolve: PrefabResolver,
+    stack: string[]
+  ): PrefabOverride[] {
+    const ids = this.instanceIds(source.id, instance.id);
+    const overrides: PrefabOverride[] = [];
+
+    const visit = (sourceNode: NodeData, node: NodeData): void => {
+      const compare = (property: string, value: unknown, prefabValue: unknown): void => {
+        if (value !== undefined && !this.isEqual(value, prefabValue)) {
+          overrides.push({ target: sourceNode.id, property, value: this.clone(value) });
+        }
+      };
+
+      compare('name', node.name, sourceNode.name);
+      compare('enabled', node.enabled, sourceNode.enabled);
+      compare('tags', node.tags ?? [], sourceNode.tags ?? []);
+      compare('layer', node.layer ?? 0, sourceNode.layer ?? 0);
+
+      for (const key of ['position', 'rotation', 'scale'] as const) {
+        for (const axis of ['x', 'y', 'z'] as const) {
+          compare(
+            `transform.${key}.${axis}`,
+            node.transform?.[key]?.[axis],
+            sourceNode.transform?.[key]?.[axis]
+          );
+        }
+      }
+
+      /* COMPARE COMPONENTS */
+      const matchedComponents = new Set<string>();
+
+      for (const sourceComponent of sourceNode.components) {
+        const component = node.components.find((c) => c.id === ids.component(sourceComponent.id));
+        if (!component) {
+          continue;
+        }
+
+        matchedComponents.add(component.id);
+        const prefix = `components.${sourceComponent.id}`;
+        compare(`${prefix}.enabled`, component.enabled, sourceComponent.enabled);
+
+        const sourceProperties = sourceComponent.properties as Record<string, unknown>;
+
+        for (const [key, value] of Object.entries(component.properties)) {
+          if (Object.prototype.hasOwnProperty.call(sourceProperties, key)) {
+            compare(`${prefix}.properties.${key}`, value, sourceProperties[key]);
+          }
+        }
+      }
+
+      const removedComponents = sourceNode.components
+        .filter((c) => !node.components.some((component) => component.id === ids.component(c.id)))
+        .map((c) => c.id);
+      if (removedComponents.length > 0) {
+        overrides.push({
+          target: sourceNode.id,
+          property: 'removedComponents',
+          value: removedComponents
+        });
+      }
+
+      const addedComponents = node.components.filter((c) => !matchedComponents.has(c.id));
+      if (addedComponents.length > 0) {
+        overrides.push({
+          target: sourceNode.id,
+          property: 'components',
+          value: this.clone(addedComponents)
+        });
+      }
+
+      /* COMPARE CHILDREN */
+      const matchedChildren = new Set<string>();
+
+      const removedChildren: string[] = [];
+
+      for (const sourceChild of sourceNode.children) {
+        const child = node.children.find((c) => c.id === ids.node(sourceChild.id));
+        if (child) {
+          matchedChildren.add(child.id);
+          visit(sourceChild, child);
+        } else {
+          removedChildren.push(sourceChild.id);
+        }
+      }
+
+      if (removedChildren.length > 0) {
+        overrides.push({
+          target: sourceNode.id,
+          property: 'removedChildren',
+          value: removedChildren
+        });
+      }
+
+      const addedChildren = node.children.filter((c) => !matchedChildren.has(c.id));
+      if (addedChildren.length > 0) {
+        overrides.push({
+          target: sourceNode.id,
+          property: 'children',
+          value: addedChildren.map((child) => this.storeNode(child, resolve, stack))
+        });
+      }
+    };
+
+    visit(source, instance);
+    return overrides;
+  }
+
+  /*
+
+           setOverride()
+  	       ---
+  	       sets one overridden property on a node. ids maps the
+  	       ids of prefab nodes and components to their ids on
+  	       the node.
+
+  */
+  private static setOverride(
+    node: NodeData,
+    override: PrefabOverride,
+    ids: InstanceIds,
+    resolve: PrefabResolver,
+    stack: string[]
+  ): void {
+    const { property, value } = override;
+    const path = property.split('.');
+
+    if (property === 'removedChildren') {
+      const removed = (value as string[]).map(ids.node);
+      node.children = node.children.filter((child) => !removed.includes(child.id));
+    } else if (property === 'removedComponents') {
+      const removed = (value as string[]).map(ids.component);
+      node.components = node.components.filter((component) => !removed.includes(component.id));
+    } else if (property === 'children') {
+      node.children.push(
+        ...(value as NodeData[]).map((child) => this.restoreNode(child, resolve, stack))
+      );
+    } else if (property === 'components') {
+      node.components.push(...this.clone(value as ComponentData[]));
+    } else if (path[0] === 'transform' && path.length === 3) {
+      const vector = node.transform[path[1] as keyof Transform] as unknown as
+        | Record<string, unknown>
+        | undefined;
+      if (vector) {
+        vector[path[2]] = value;
+      }
+    } else if (path[0] === 'components') {
+      const match = /^components\.(.+?)\.(enabled|properties\.(.+))$/.exec(property);
+      const component = match && node.components.find((c) => c.id === ids.component(match[1]));
+
+      if (component && match[3] !== undefined) {
+        (component.properties as Record<string, unknown>)[match[3]] = this.clone(value);
+      } else if (component) {
+        component.enabled = value as boolean;
+      }
+    } else if (['name', 'enabled', 'tags', 'layer'].includes(property)) {
+      (node as unknown as Record<string, unknown>)[property] = this.clone(value);
+    }
+  }
+
+  /*
+
+           remapInstance()
+  	       ---
+  	       copies a restored prefab under the ids of an instance.
+
+  */
+  private static remapInstance(source: NodeData, instanceId: string, prefabPath: string): NodeData {
+    const ids = this.instanceIds(source.id, instanceId);
+
+    const remap = (node: NodeData): NodeData => ({
+      ...node,
+      id: ids.node(node.id),
+      components: node.components.map((component) => ({
+        ...component,
+        id: ids.component(component.id)
+      })),
+      children: node.children.map(remap)
+    });
+
+    const instance = remap(this.clone(source));
+    instance.prefab = { path: prefabPath };
+    instance.overrides = [];
+
+    return instance;
+  }
+
+  /*
+
+           instanceIds()
+  	       ---
+  	       maps the ids of a prefab's nodes and components to
+  	       the ids they have in one of its instances.
+
+  */
+  private static instanceIds(prefabRootId: string, instanceId: string): InstanceIds {
+    return {
+      node: (id) => (id === prefabRootId ? instanceId : `${instanceId}:${id}`),
+      component: (id) => `${instanceId}:${id}`
+    };
+  }
+
+  private static findNode(node: NodeData, id: string): NodeData | null {
+    if (node.id === id) {
+      return node;
+    }
+
+    for (const child of node.children) {
+      const found = this.findNode(child, id);
+      if (found) {
+        return found;
+      }
+    }
+
+    return null;
+  }
+
+  private static clone<T>(value: T): T {
+    return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+  }
+
+  /*
+
+           isEqual()
+  	       ---
+  	       compares two JSON values structurally. the order of
+  	       object keys does not matter; the order of array
+  	       elements does.
+
+  */
+  private static isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+      return true;
+    }
+
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+      return false;
+    }
+
+    if (Array.isArray(a) || Array.isArray(b)) {
+      return (
+        Array.isArray(a) &&
+        Array.isArray(b) &&
+        a.length === b.length &&
+        a.every((item, index) => this.isEqual(item, b[index]))
+      );
+    }
+
+    const objectA = a as Record<string, unknown>;
+    const objectB = b as Record<string, unknown>;
+    const keysA = Object.keys(objectA).filter((key) => objectA[key] !== undefined);
+    const keysB = Object.keys(objectB).filter((key) => objectB[key] !== undefined);
+
+    return (
+      keysA.length === keysB.length &&
+      keysA.every((key) => this.isEqual(objectA[key], objectB[key]))
+    );
+  }
 }
 
 /*
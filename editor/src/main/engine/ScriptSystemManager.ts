@@ -21,7 +21,7 @@ import { EventEmitter } from 'events'; /* NODE EVENT SYSTEM */
 import * as path from 'path'; /* PATH MANIPULATION */
 import * as fs from 'fs/promises'; /* ASYNC FILE SYSTEM */
 import { ScriptComponent, ScriptLifecyclePhase, ScriptEvent, ScriptState } from './ScriptComponent';
-import { WCCompilerIntegration } from './WCCompilerIntegration';
+import { WCCompilerIntegration, CompilerMode } from './WCCompilerIntegration';
 import { WCHotReloadManager } from './WCHotReloadManager';
 
 /*
@@ -45,6 +45,7 @@ export interface ScriptSystemConfig {
   enableHotReload: boolean /* enable hot-reload for all scripts */;
   executionFrameLimit: number /* max scripts to execute per frame */;
   compilationTimeout: number /* max time for script compilation */;
+  compilerMode: CompilerMode /* in-process, worker or external compiler */;
   debugMode: boolean /* enable debug logging and profiling */;
   scriptsDirectory: string /* default scripts directory path */;
 }
@@ -152,7 +153,10 @@ export class ScriptSystemManager extends EventEmitter {
       ...config
     };
 
-    this.compiler = new WCCompilerIntegration();
+    this.compiler = new WCCompilerIntegration(undefined, undefined, {
+      mode: this.config.compilerMode,
+      compilationTimeout: this.config.compilationTimeout
+    });
     this.hotReloadManager = new WCHotReloadManager(this.compiler);
     this.frameExecutionLimit = this.config.executionFrameLimit;
 
@@ -462,6 +466,7 @@ export class ScriptSystemManager extends EventEmitter {
       enableHotReload: true,
       executionFrameLimit: 50,
       compilationTimeout: 30000,
+      compilerMode: CompilerMode.IN_PROCESS,
       debugMode: false,
       scriptsDirectory: './scripts'
     };
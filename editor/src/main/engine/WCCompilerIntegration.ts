@@ -19,13 +19,14 @@
 
 import { EventEmitter } from 'events'; /* NODE EVENT SYSTEM */
 import * as path from 'path'; /* PATH MANIPULATION */
+import * as os from 'os'; /* TEMP DIRECTORY LOCATION */
 import * as fs from 'fs/promises'; /* ASYNC FILE SYSTEM */
 import * as fsSync from 'fs'; /* SYNC FILE SYSTEM ACCESS */
 import { exec } from 'child_process'; /* PROCESS EXECUTION */
 import { promisify } from 'util'; /* PROMISE UTILITIES */
-
-/* WORLDC COMPILER MODULES - Use direct require for now */
-// We'll use direct require since the module structure is complex
+import { Worker } from 'worker_threads'; /* COMPILER WORKER THREAD */
+import type { WCInProcessCompiler, ValidationResult } from './WCInProcessCompiler';
+import type { CompilerWorkerRequest, CompilerWorkerResponse } from './WCCompilerWorker';
 
 const execAsync = promisify(exec);
 
@@ -73,6 +74,7 @@ export interface CompilationResult {
   timing: {
     lexingTime: number /* lexical analysis duration */;
     parsingTime: number /* parsing phase duration */;
+    semanticAnalysisTime: number /* semantic analysis duration */;
     codeGenerationTime: number /* code generation duration */;
     totalTime: number /* total compilation time */;
   };
@@ -111,9 +113,9 @@ export interface CompilationDiagnostic {
 
 export interface CompilationOptions {
   optimizationLevel: OptimizationLevel /* code optimization level */;
-  outputFormat: 'esm' | 'cjs' | 'iife' /* JavaScript module format */;
+  outputFormat: 'esm' /* JavaScript module format, worldc emits ES modules only */;
   minify: boolean /* enable code minification */;
-  sourceMaps: boolean /* generate source map files */;
+  sourceMaps: boolean /* generate source map files, unless minifying */;
   typeDeclarations: boolean /* generate TypeScript declarations */;
   strictMode: boolean /* enforce strict compilation rules */;
 }
@@ -150,6 +152,37 @@ export enum OptimizationLevel {
   AGGRESSIVE = 'aggressive' /* maximum optimization level */
 }
 
+/*
+
+         CompilerMode
+	       ---
+	       how compilation requests are executed. in-process and
+	       worker modes call the WorldC pipeline API directly;
+	       external mode shells out to the worldc CLI and is kept
+	       as a fallback.
+
+*/
+
+export enum CompilerMode {
+  IN_PROCESS = 'inProcess' /* run the pipeline in the main process */,
+  WORKER = 'worker' /* run the pipeline in a worker thread */,
+  EXTERNAL = 'external' /* spawn the worldc command line compiler */
+}
+
+/*
+
+         CompilerIntegrationConfig
+	       ---
+	       configuration for the compiler integration selecting
+	       the execution mode and request timeout.
+
+*/
+
+export interface CompilerIntegrationConfig {
+  mode: CompilerMode /* compilation execution mode */;
+  compilationTimeout: number /* max milliseconds per request */;
+}
+
 /*
 
          CompilerEvent
@@ -191,16 +224,33 @@ export enum CompilerEvent {
 */
 export class WCCompilerIntegration extends EventEmitter {
   private isInitialized: boolean = false;
-  private compilerPath: string;
+  private config: CompilerIntegrationConfig;
+  private compilerPath: string /* worldc executable or worldc.js script */;
   private workingDirectory: string;
   private currentRequest: CompilationRequest | null = null;
   private lastResult: CompilationResult | null = null;
   private compilationQueue: CompilationRequest[] = [];
   private isCompiling: boolean = false;
-
-  constructor(compilerPath?: string, workingDirectory?: string) {
+  private inProcessCompiler: WCInProcessCompiler | null = null;
+  private worker: Worker | null = null;
+  private nextWorkerRequestId: number = 1;
+  private pendingWorkerRequests: Map<
+    number,
+    { resolve: (result: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }
+  > = new Map();
+
+  constructor(
+    compilerPath?: string,
+    workingDirectory?: string,
+    config?: Partial<CompilerIntegrationConfig>
+  ) {
     super();
 
+    this.config = {
+      mode: CompilerMode.IN_PROCESS,
+      compilationTimeout: 30000,
+      ...config
+    };
     this.compilerPath = compilerPath || this.findWCCompiler();
     this.workingDirectory = workingDirectory || process.cwd();
   }
@@ -224,11 +274,23 @@ export class WCCompilerIntegration extends EventEmitter {
       /* SET UP WORKING DIRECTORY */
       await this.setupWorkingDirectory();
 
-      /* VERIFY COMPILER EXISTS */
-      await this.verifyCompiler();
+      /* PREPARE THE CONFIGURED COMPILER BACKEND */
+      switch (this.config.mode) {
+        case CompilerMode.IN_PROCESS: {
+          const { WCInProcessCompiler } = await import('./WCInProcessCompiler');
+          this.inProcessCompiler = new WCInProcessCompiler();
+          break;
+        }
+        case CompilerMode.WORKER:
+          await this.startWorker();
+          break;
+        default:
+          await this.verifyCompiler();
+          break;
+      }
 
       this.isInitialized = true;
-      console.log('[WC] Compiler integration initialized');
+      console.log(`[WC] Compiler integration initialized (${this.config.mode})`);
     } catch (error) {
       console.error('[WC] Failed to initialize compiler:', error);
       throw error;
@@ -369,33 +431,18 @@ export class WCCompilerIntegration extends EventEmitter {
     warnings: CompilationDiagnostic[];
   }> {
     try {
-      /* WRITE SOURCE TO TEMP FILE */
-      const tempFile = path.join(this.workingDirectory, `temp_${Date.now()}.wc`);
-      await fs.writeFile(tempFile, sourceCode, 'utf8');
-
-      try {
-        /* RUN VALIDATION COMMAND */
-        const cmd = `"${this.compilerPath}" validate "${tempFile}"`;
-        const { stdout, stderr } = await execAsync(cmd, {
-          cwd: this.workingDirectory,
-          timeout: 10000
-        });
-
-        /* PARSE VALIDATION OUTPUT */
-        const result = this.parseValidationOutput(stdout, stderr);
-
-        return {
-          valid: result.diagnostics.filter((d) => d.severity === 'error').length === 0,
-          diagnostics: result.diagnostics,
-          warnings: result.warnings
-        };
-      } finally {
-        /* CLEAN UP TEMP FILE */
-        try {
-          await fs.unlink(tempFile);
-        } catch (error) {
-          /* IGNORE CLEANUP ERRORS */
-        }
+      switch (this.config.mode) {
+        case CompilerMode.IN_PROCESS:
+          return await this.requireInProcessCompiler().validate(sourceCode, filename);
+        case CompilerMode.WORKER:
+          return await this.runInWorker<ValidationResult>({
+            id: this.nextWorkerRequestId++,
+            kind: 'validate',
+            sourceCode,
+            filename
+          });
+        default:
+          return await this.validateExternal(sourceCode, filename);
       }
     } catch (error) {
       return {
@@ -488,6 +535,12 @@ export class WCCompilerIntegration extends EventEmitter {
 
   */
   dispose(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+
+    this.inProcessCompiler = null;
     this.isInitialized = false;
     this.currentRequest = null;
     this.lastResult = null;
@@ -518,9 +571,9 @@ export class WCCompilerIntegration extends EventEmitter {
   private findWCCompiler(): string {
     /* LOOK FOR WC IN STANDARD LOCATIONS */
     const possiblePaths = [
-      path.join(__dirname, '../../../worldc/dist/src/index.js'),
-      path.join(process.cwd(), 'worldc/dist/src/index.js'),
-      path.join(__dirname, '../../../../worldc/dist/src/index.js'),
+      path.join(__dirname, '../../../worldc/dist/cli/worldc.js'),
+      path.join(process.cwd(), 'worldc/dist/cli/worldc.js'),
+      path.join(__dirname, '../../../../worldc/dist/cli/worldc.js'),
       'worldc' /* ASSUME IN PATH */
     ];
 
@@ -529,7 +582,7 @@ export class WCCompilerIntegration extends EventEmitter {
         /* FOR NODE.JS FILES, CHECK IF THEY EXIST */
         if (compilerPath.endsWith('.js')) {
           if (fsSync.existsSync(compilerPath)) {
-            return `node "${compilerPath}"`;
+            return compilerPath;
           }
         }
       } catch (error) {
@@ -541,6 +594,17 @@ export class WCCompilerIntegration extends EventEmitter {
     return 'worldc';
   }
 
+  /**
+   * compilerCommand()
+   *
+   * Shell command that runs the compiler, quoted so paths with
+   * spaces survive. Scripts run through node.
+   */
+  private compilerCommand(): string {
+    const quoted = `"${this.compilerPath}"`;
+    return this.compilerPath.endsWith('.js') ? `node ${quoted}` : quoted;
+  }
+
   /**
    * verifyCompiler()
    *
@@ -548,7 +612,7 @@ export class WCCompilerIntegration extends EventEmitter {
    */
   private async verifyCompiler(): Promise<void> {
     try {
-      const cmd = `${this.compilerPath} --version`;
+      const cmd = `${this.compilerCommand()} --version`;
       const { stdout } = await execAsync(cmd, { timeout: 5000 });
       console.log('[WC] Compiler version:', stdout.trim());
     } catch (error) {
@@ -582,38 +646,29 @@ export class WCCompilerIntegration extends EventEmitter {
     this.emit(CompilerEvent.COMPILATION_STARTED, request);
 
     try {
-      /* WRITE SOURCE TO TEMP FILE */
-      const tempFile = path.join(
-        this.workingDirectory,
-        `compile_${Date.now()}_${request.filename}`
-      );
-      await fs.writeFile(tempFile, request.sourceCode, 'utf8');
-
-      try {
-        /* BUILD COMPILATION COMMAND */
-        const cmd = this.buildCompilationCommand(tempFile, request);
-
-        /* EXECUTE COMPILATION */
-        const { stdout, stderr } = await execAsync(cmd, {
-          cwd: this.workingDirectory,
-          timeout: 30000
-        });
-
-        /* PARSE COMPILATION RESULT */
-        const result = await this.parseCompilationResult(request, stdout, stderr, startTime);
+      let result: CompilationResult;
+
+      /* DISPATCH TO THE CONFIGURED BACKEND */
+      switch (this.config.mode) {
+        case CompilerMode.IN_PROCESS:
+          result = await this.requireInProcessCompiler().compile(request);
+          break;
+        case CompilerMode.WORKER:
+          result = await this.runInWorker<CompilationResult>({
+            id: this.nextWorkerRequestId++,
+            kind: 'compile',
+            request
+          });
+          break;
+        default:
+          result = await this.compileExternal(request, startTime);
+          break;
+      }
 
-        this.lastResult = result;
-        this.emit(CompilerEvent.COMPILATION_COMPLETE, result);
+      this.lastResult = result;
+      this.emit(CompilerEvent.COMPILATION_COMPLETE, result);
 
-        return result;
-      } finally {
-        /* CLEAN UP TEMP FILE */
-        try {
-          await fs.unlink(tempFile);
-        } catch (error) {
-          /* IGNORE CLEANUP ERRORS */
-        }
-      }
+      return result;
     } catch (error) {
       const result: CompilationResult = {
         success: false,
@@ -629,6 +684,7 @@ export class WCCompilerIntegration extends EventEmitter {
         timing: {
           lexingTime: 0,
           parsingTime: 0,
+          semanticAnalysisTime: 0,
           codeGenerationTime: 0,
           totalTime: Date.now() - startTime
         }
@@ -648,12 +704,222 @@ export class WCCompilerIntegration extends EventEmitter {
     }
   }
 
+  /**
+   * requireInProcessCompiler()
+   *
+   * Get the in-process compiler, failing if it was not loaded.
+   */
+  private requireInProcessCompiler(): WCInProcessCompiler {
+    if (!this.inProcessCompiler) {
+      throw new Error('In-process compiler not loaded');
+    }
+    return this.inProcessCompiler;
+  }
+
+  /*
+
+           startWorker()
+  	       ---
+  	       spawns the compiler worker thread and wires up its
+  	       responses. a crashed worker fails every pending
+  	       request and is respawned on the next request.
+
+  */
+  private async startWorker(): Promise<void> {
+    /* BUNDLED NEXT TO MAIN.JS BY WEBPACK.MAIN.CONFIG.JS */
+    const worker = new Worker(path.join(__dirname, 'wc-compiler-worker.js'));
+
+    worker.on('message', (response: CompilerWorkerResponse) => {
+      const pending = this.pendingWorkerRequests.get(response.id);
+      if (!pending) return;
+
+      clearTimeout(pending.timer);
+      this.pendingWorkerRequests.delete(response.id);
+
+      if (response.error !== undefined) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+    });
+
+    const failPending = (error: Error) => {
+      for (const pending of this.pendingWorkerRequests.values()) {
+        clearTimeout(pending.timer);
+        pending.reject(error);
+      }
+      this.pendingWorkerRequests.clear();
+
+      if (this.worker === worker) {
+        this.worker = null;
+      }
+    };
+
+    worker.on('error', (error) => {
+      console.error('[WC] Compiler worker failed:', error);
+      failPending(error);
+    });
+
+    worker.on('exit', (code) => {
+      failPending(new Error(`Compiler worker exited with code ${code}`));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      worker.once('online', () => resolve());
+      worker.once('error', reject);
+    });
+
+    this.worker = worker;
+  }
+
+  /**
+   * runInWorker()
+   *
+   * Send a request to the compiler worker and await its response.
+   */
+  private async runInWorker<T>(message: CompilerWorkerRequest): Promise<T> {
+    if (!this.worker) {
+      await this.startWorker();
+    }
+
+    const worker = this.worker!;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingWorkerRequests.delete(message.id);
+        reject(new Error(`Compilation timed out after ${this.config.compilationTimeout}ms`));
+      }, this.config.compilationTimeout);
+
+      this.pendingWorkerRequests.set(message.id, { resolve, reject, timer });
+      worker.postMessage(message);
+    });
+  }
+
+  /*
+
+           compileExternal()
+  	       ---
+  	       fallback path that writes the source to a temp directory
+  	       and runs the worldc command line compiler on it, reading
+  	       its JSON report from stdout. the compiler writes its
+  	       output files into the same directory, which is removed
+  	       afterwards.
+
+  */
+  private async compileExternal(
+    request: CompilationRequest,
+    startTime: number
+  ): Promise<CompilationResult> {
+    /* WRITE SOURCE TO TEMP DIRECTORY */
+    const tempDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'worldc-compile-'));
+    const tempFile = path.join(tempDirectory, path.basename(request.filename));
+    await fs.writeFile(tempFile, request.sourceCode, 'utf8');
+
+    try {
+      /* EXECUTE COMPILATION */
+      const cmd = this.buildCompilationCommand(tempFile, request, tempDirectory);
+      const { stdout, stderr } = await this.runCompilerCommand(cmd, this.config.compilationTimeout);
+
+      /* PARSE COMPILATION RESULT */
+      const result = await this.parseCompilationResult(request, stdout, stderr, startTime);
+
+      /* NAME OUTPUTS AND DIAGNOSTICS WITHOUT THE TEMP DIRECTORY */
+      result.outputFiles = result.outputFiles?.map((file) => path.relative(tempDirectory, file));
+      for (const diagnostic of [...result.diagnostics, ...result.warnings]) {
+        if (diagnostic.filename === tempFile) {
+          diagnostic.filename = request.filename;
+        }
+      }
+
+      return result;
+    } finally {
+      /* CLEAN UP TEMP DIRECTORY */
+      try {
+        await fs.rm(tempDirectory, { recursive: true, force: true });
+      } catch (error) {
+        /* IGNORE CLEANUP ERRORS */
+      }
+    }
+  }
+
+  /**
+   * validateExternal()
+   *
+   * Validate source by running the worldc command line compiler.
+   */
+  private async validateExternal(sourceCode: string, filename: string): Promise<ValidationResult> {
+    /* WRITE SOURCE TO TEMP DIRECTORY */
+    const tempDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'worldc-validate-'));
+    const tempFile = path.join(tempDirectory, path.basename(filename));
+    await fs.writeFile(tempFile, sourceCode, 'utf8');
+
+    try {
+      /* RUN VALIDATION COMMAND */
+      const cmd = `${this.compilerCommand()} validate "${tempFile}" --json`;
+      const { stdout, stderr } = await this.runCompilerCommand(cmd, 10000);
+
+      /* PREFER THE JSON REPORT, FALL BACK TO SCRAPING OUTPUT */
+      let result: { diagnostics: CompilationDiagnostic[]; warnings: CompilationDiagnostic[] };
+      try {
+        const report = JSON.parse(stdout);
+        result = { diagnostics: report.diagnostics || [], warnings: report.warnings || [] };
+      } catch (error) {
+        result = this.parseValidationOutput(stdout, stderr);
+      }
+
+      /* REPORT AGAINST THE EDITOR FILENAME, NOT THE TEMP FILE */
+      for (const diagnostic of [...result.diagnostics, ...result.warnings]) {
+        if (diagnostic.filename === tempFile) {
+          diagnostic.filename = filename;
+        }
+      }
+
+      return {
+        valid: result.diagnostics.filter((d) => d.severity === 'error').length === 0,
+        diagnostics: result.diagnostics,
+        warnings: result.warnings
+      };
+    } finally {
+      /* CLEAN UP TEMP DIRECTORY */
+      try {
+        await fs.rm(tempDirectory, { recursive: true, force: true });
+      } catch (error) {
+        /* IGNORE CLEANUP ERRORS */
+      }
+    }
+  }
+
+  /**
+   * runCompilerCommand()
+   *
+   * Run a compiler command. worldc exits non-zero when the source
+   * has errors, so output is still returned in that case.
+   */
+  private async runCompilerCommand(
+    cmd: string,
+    timeout: number
+  ): Promise<{ stdout: string; stderr: string }> {
+    try {
+      return await execAsync(cmd, { cwd: this.workingDirectory, timeout });
+    } catch (error) {
+      const failed = error as { code?: unknown; stdout?: string; stderr?: string };
+      if (typeof failed.code === 'number' && failed.stdout !== undefined) {
+        return { stdout: failed.stdout, stderr: failed.stderr || '' };
+      }
+      throw error;
+    }
+  }
+
   /**
    * buildCompilationCommand()
    *
    * Build WorldC compiler command with options.
    */
-  private buildCompilationCommand(inputFile: string, request: CompilationRequest): string {
+  private buildCompilationCommand(
+    inputFile: string,
+    request: CompilationRequest,
+    outputDirectory: string
+  ): string {
     const options = request.options || {
       optimizationLevel: OptimizationLevel.BASIC,
       outputFormat: 'esm',
@@ -663,13 +929,15 @@ export class WCCompilerIntegration extends EventEmitter {
       strictMode: true
     };
 
-    let cmd = `${this.compilerPath} compile "${inputFile}"`;
+    let cmd = `${this.compilerCommand()} compile "${inputFile}" --json`;
+    cmd += ` --output "${outputDirectory}"`;
     cmd += ` --target ${request.target}`;
     cmd += ` --optimization ${options.optimizationLevel}`;
     cmd += ` --format ${options.outputFormat}`;
 
+    /* THE MINIFIER DOES NOT REWRITE SOURCE MAPS, SO WORLDC TAKES ONE OR THE OTHER */
     if (options.minify) cmd += ' --minify';
-    if (options.sourceMaps) cmd += ' --source-maps';
+    else if (options.sourceMaps) cmd += ' --source-maps';
     if (options.typeDeclarations) cmd += ' --declarations';
     if (options.strictMode) cmd += ' --strict';
 
@@ -695,12 +963,14 @@ export class WCCompilerIntegration extends EventEmitter {
       timing: {
         lexingTime: 0,
         parsingTime: 0,
+        semanticAnalysisTime: 0,
         codeGenerationTime: 0,
         totalTime: Date.now() - startTime
       }
     };
 
     /* PARSE STDOUT FOR OUTPUT CODE */
+    let hasStructuredDiagnostics = false;
     if (stdout.trim()) {
       try {
         const output = JSON.parse(stdout);
@@ -713,6 +983,12 @@ export class WCCompilerIntegration extends EventEmitter {
         if (output.timing) {
           result.timing = { ...result.timing, ...output.timing };
         }
+        if (Array.isArray(output.diagnostics)) {
+          hasStructuredDiagnostics = true;
+          result.diagnostics = output.diagnostics;
+          result.warnings = output.warnings || [];
+          result.success = output.success === true;
+        }
       } catch (error) {
         /* FALLBACK: TREAT STDOUT AS DIRECT OUTPUT */
         result.outputCode = stdout;
@@ -720,7 +996,7 @@ export class WCCompilerIntegration extends EventEmitter {
     }
 
     /* PARSE STDERR FOR DIAGNOSTICS */
-    if (stderr.trim()) {
+    if (stderr.trim() && !hasStructuredDiagnostics) {
       const diagnostics = this.parseDiagnostics(stderr, request.filename);
       result.diagnostics = diagnostics.filter((d) => d.severity === 'error');
       result.warnings = diagnostics.filter((d) => d.severity === 'warning');
@@ -824,9 +1100,10 @@ export class WCCompilerFactory {
    */
   public static createWithOptions(
     compilerPath?: string,
-    workingDirectory?: string
+    workingDirectory?: string,
+    config?: Partial<CompilerIntegrationConfig>
   ): WCCompilerIntegration {
-    return new WCCompilerIntegration(compilerPath, workingDirectory);
+    return new WCCompilerIntegration(compilerPath, workingDirectory, config);
   }
 
   /**
@@ -0,0 +1,97 @@
+/*
+   ===============================================================
+   WORLDEDIT WC COMPILER WORKER
+   ELASTIC SOFTWORKS 2025
+   ===============================================================
+*/
+
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	===============================================================
+             --- SETUP ---
+	===============================================================
+*/
+
+import { parentPort } from 'worker_threads'; /* WORKER MESSAGING */
+import { WCInProcessCompiler, ValidationResult } from './WCInProcessCompiler';
+import type { CompilationRequest, CompilationResult } from './WCCompilerIntegration';
+
+/*
+	===============================================================
+             --- TYPES ---
+	===============================================================
+*/
+
+/*
+
+         CompilerWorkerRequest
+	       ---
+	       message sent from the editor main thread to the
+	       compiler worker. 'id' correlates the response.
+
+*/
+
+export type CompilerWorkerRequest =
+  | { id: number; kind: 'compile'; request: CompilationRequest }
+  | { id: number; kind: 'validate'; sourceCode: string; filename: string };
+
+/*
+
+         CompilerWorkerResponse
+	       ---
+	       message posted back by the worker. carries either the
+	       structured result or the error message of a failed call.
+
+*/
+
+export interface CompilerWorkerResponse {
+  id: number;
+  result?: CompilationResult | ValidationResult;
+  error?: string;
+}
+
+/*
+	===============================================================
+             --- FUNCS ---
+	===============================================================
+*/
+
+/*
+
+         worker entry
+	       ---
+	       compiles requests off the main thread so long
+	       compilations do not stall editor IPC handling.
+
+*/
+
+if (parentPort) {
+  const port = parentPort;
+  const compiler = new WCInProcessCompiler();
+
+  port.on('message', async (message: CompilerWorkerRequest) => {
+    const response: CompilerWorkerResponse = { id: message.id };
+
+    try {
+      response.result =
+        message.kind === 'compile'
+          ? await compiler.compile(message.request)
+          : await compiler.validate(message.sourceCode, message.filename);
+    } catch (error) {
+      response.error = error instanceof Error ? error.message : String(error);
+    }
+
+    port.postMessage(response);
+  });
+}
+
+/*
+	===============================================================
+             --- EOF ---
+	===============================================================
+*/
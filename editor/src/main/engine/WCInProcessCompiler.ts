@@ -0,0 +1,274 @@
+/*
+   ===============================================================
+   WORLDEDIT WC IN-PROCESS COMPILER
+   ELASTIC SOFTWORKS 2025
+   ===============================================================
+*/
+
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	===============================================================
+             --- SETUP ---
+	===============================================================
+*/
+
+/* WORLDC CODE GENERATION API (worldc/src/codegen/index.ts) */
+import {
+  CompilationPipeline,
+  CompilationTarget as WorldCTarget,
+  OptimizationLevel as WorldCOptimizationLevel
+} from '@worldenv/worldc/dist/codegen';
+import type {
+  CodegenDiagnostic,
+  CompilationRequest as WorldCRequest,
+  CompilationResult as WorldCResult
+} from '@worldenv/worldc/dist/codegen';
+import { globalErrorHandler } from '@worldenv/worldc/dist/error/error-handler';
+
+import {
+  CompilationRequest,
+  CompilationResult,
+  CompilationDiagnostic,
+  CompilationOptions,
+  CompilationTarget,
+  OptimizationLevel
+} from './WCCompilerIntegration'; /* WC COMPILER INTEGRATION */
+
+/*
+	===============================================================
+             --- TYPES ---
+	===============================================================
+*/
+
+/*
+
+         ValidationResult
+	       ---
+	       structured result of a front-end only validation pass
+	       (lexing, parsing and semantic analysis).
+
+*/
+
+export interface ValidationResult {
+  valid: boolean /* no error diagnostics were reported */;
+  diagnostics: CompilationDiagnostic[] /* error messages */;
+  warnings: CompilationDiagnostic[] /* warning messages */;
+}
+
+/*
+	===============================================================
+             --- FUNCS ---
+	===============================================================
+*/
+
+/*
+
+         WCInProcessCompiler
+	       ---
+	       runs the WorldC compilation pipeline inside the calling
+	       process or worker thread. translates editor compilation
+	       requests into pipeline requests and pipeline results
+	       back into structured editor results, so no output has
+	       to be scraped from an external compiler process.
+
+	       the pipeline records diagnostics in worldc's process-wide
+	       error handler, so calls run one at a time and each
+	       starts from an empty handler.
+
+*/
+
+export class WCInProcessCompiler {
+  private queue: Promise<unknown> = Promise.resolve() /* LAST QUEUED CALL */;
+
+  constructor() {
+    /* DIAGNOSTICS ARE RETURNED STRUCTURED, NOT PRINTED OR LOGGED TO DISK */
+    globalErrorHandler.configure({ logToConsole: false, logToFile: false });
+  }
+
+  /*
+
+           compile()
+  	       ---
+  	       compiles the request through the full pipeline and
+  	       returns the generated code with per-stage timings.
+
+  */
+  async compile(request: CompilationRequest): Promise<CompilationResult> {
+    return this.enqueue(async () => {
+      const pipeline = new CompilationPipeline();
+      const result = await pipeline.compile(this.createPipelineRequest(request));
+      return this.convertResult(request, result);
+    });
+  }
+
+  /*
+
+           validate()
+  	       ---
+  	       runs lexing, parsing and semantic analysis only and
+  	       reports the resulting diagnostics.
+
+  */
+  async validate(sourceCode: string, filename: string): Promise<ValidationResult> {
+    return this.enqueue(async () => {
+      const pipeline = new CompilationPipeline();
+      const result = await pipeline.check(
+        this.createPipelineRequest({
+          sourceCode,
+          filename,
+          target: CompilationTarget.TYPESCRIPT
+        })
+      );
+
+      const diagnostics = result.diagnostics.map((d) => this.convertDiagnostic(d, filename));
+
+      return {
+        valid: diagnostics.every((d) => d.severity !== 'error'),
+        diagnostics,
+        warnings: result.warnings.map((d) => this.convertDiagnostic(d, filename))
+      };
+    });
+  }
+
+  /**
+   * enqueue()
+   *
+   * Run a pipeline call once every earlier call has settled, on a
+   * cleared error handler. The handler caps recorded errors and is
+   * shared with every other call.
+   */
+  private enqueue<T>(run: () => Promise<T>): Promise<T> {
+    const call = this.queue.then(() => {
+      globalErrorHandler.clear();
+      return run();
+    });
+
+    /* A FAILED CALL MUST NOT STOP THE CALLS QUEUED AFTER IT */
+    this.queue = call.catch(() => undefined);
+    return call;
+  }
+
+  /**
+   * createPipelineRequest()
+   *
+   * Map an editor compilation request onto a pipeline request.
+   */
+  private createPipelineRequest(request: CompilationRequest): WorldCRequest {
+    const options: CompilationOptions = request.options || {
+      optimizationLevel: OptimizationLevel.BASIC,
+      outputFormat: 'esm',
+      minify: false,
+      sourceMaps: true,
+      typeDeclarations: true,
+      strictMode: true
+    };
+
+    /* GENERATED CODE IS ALWAYS ES MODULES, AS THE CLI ENFORCES */
+    if (options.outputFormat !== 'esm') {
+      throw new Error(
+        `output format '${options.outputFormat}' is not supported; worldc emits ES modules`
+      );
+    }
+
+    const targets = this.mapTargets(request.target);
+
+    return {
+      sourceCode: request.sourceCode,
+      filename: request.filename,
+      target: targets,
+      options: {
+        target: targets[0],
+        optimizationLevel: this.mapOptimizationLevel(options.optimizationLevel),
+        outputFormat: options.outputFormat,
+        minify: options.minify,
+        sourceMaps: options.sourceMaps,
+        typeDeclarations: options.typeDeclarations,
+        indentSize: 2,
+        useTabs: false,
+        insertFinalNewline: true,
+        strictMode: options.strictMode,
+        asyncSupport: true,
+        moduleSystem: 'es6'
+      },
+      includeSourceMaps: options.sourceMaps,
+      includeTypeDeclarations: options.typeDeclarations
+    };
+  }
+
+  /**
+   * convertResult()
+   *
+   * Map a pipeline result onto the editor result shape.
+   */
+  private convertResult(request: CompilationRequest, result: WorldCResult): CompilationResult {
+    const outputFiles: string[] = [];
+    for (const files of result.outputFiles.values()) {
+      outputFiles.push(...files);
+    }
+
+    const diagnostics = result.diagnostics.map((d) => this.convertDiagnostic(d, request.filename));
+
+    return {
+      success: result.success && diagnostics.every((d) => d.severity !== 'error'),
+      target: request.target,
+      outputCode: outputFiles.length > 0 ? result.artifacts.get(outputFiles[0]) : undefined,
+      outputFiles,
+      diagnostics,
+      warnings: result.warnings.map((d) => this.convertDiagnostic(d, request.filename)),
+      timing: {
+        lexingTime: result.timing.lexingTime,
+        parsingTime: result.timing.parsingTime,
+        semanticAnalysisTime: result.timing.semanticAnalysisTime,
+        codeGenerationTime: result.timing.codeGenerationTime,
+        totalTime: result.timing.totalTime
+      }
+    };
+  }
+
+  private convertDiagnostic(
+    diagnostic: CodegenDiagnostic,
+    filename: string
+  ): CompilationDiagnostic {
+    return {
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      filename: diagnostic.location?.filename || filename,
+      line: diagnostic.location?.line,
+      column: diagnostic.location?.column,
+      code: diagnostic.code
+    };
+  }
+
+  private mapTargets(target: CompilationTarget): WorldCTarget[] {
+    switch (target) {
+      case CompilationTarget.ASSEMBLYSCRIPT:
+        return [WorldCTarget.ASSEMBLYSCRIPT];
+      case CompilationTarget.BOTH:
+        return [WorldCTarget.TYPESCRIPT, WorldCTarget.ASSEMBLYSCRIPT];
+      default:
+        return [WorldCTarget.TYPESCRIPT];
+    }
+  }
+
+  private mapOptimizationLevel(level: OptimizationLevel): WorldCOptimizationLevel {
+    switch (level) {
+      case OptimizationLevel.NONE:
+        return WorldCOptimizationLevel.NONE;
+      case OptimizationLevel.AGGRESSIVE:
+        return WorldCOptimizationLevel.AGGRESSIVE;
+      default:
+        return WorldCOptimizationLevel.BASIC;
+    }
+  }
+}
+
+/*
+	===============================================================
+             --- EOF ---
+	===============================================================
+*/
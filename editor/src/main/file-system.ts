@@ -149,10 +149,13 @@ class FileSystem {
       '.ogg' /* OGG AUDIO FILES */,
       '.wav' /* WAV AUDIO FILES */,
       '.glsl' /* OPENGL SHADER FILES */,
+      '.vert' /* VERTEX SHADER FILES */,
+      '.frag' /* FRAGMENT SHADER FILES */,
       '.wgsl' /* WEBGPU SHADER FILES */,
       '.obj' /* 3D MODEL FILES (OBJ) */,
       '.gltf' /* GLTF 3D MODEL FILES */,
-      '.glb' /* BINARY GLTF FILES */
+      '.glb' /* BINARY GLTF FILES */,
+      '.material' /* MATERIAL ASSET FILES */
     ]);
   }
 
@@ -757,6 +760,48 @@ class FileSystem {
   }
 }
 
+/*
+
+         stripComments()
+	       ---
+	       removes block and line comments outside of strings.
+
+	       asset files created from templates, such as prefabs
+	       and materials, are JSON with comments and must be
+	       stripped before parsing.
+
+*/
+
+export function stripComments(content: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (char === '"') {
+      const start = index++;
+
+      while (index < content.length && content[index] !== '"') {
+        index += content[index] === '\\' ? 2 : 1;
+      }
+
+      result += content.slice(start, ++index);
+    } else if (content.startsWith('/*', index)) {
+      const end = content.indexOf('*/', index + 2);
+      index = end === -1 ? content.length : end + 2;
+    } else if (content.startsWith('//', index)) {
+      const end = content.indexOf('\n', index);
+      index = end === -1 ? content.length : end;
+    } else {
+      result += char;
+      index++;
+    }
+  }
+
+  return result;
+}
+
 /* singleton instance for application-wide file system operations */
 export const fileSystem = new FileSystem();
 
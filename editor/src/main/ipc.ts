@@ -31,9 +31,13 @@ import { recentProjectsManager } from './recent-projects'; /* RECENT PROJECTS */
 import { buildManager } from './build-manager'; /* BUILD SYSTEM */
 import { EngineStatusManager } from './engine/EngineStatusManager'; /* ENGINE STATUS */
 import { SceneManager } from './scene-manager'; /* SCENE MANAGEMENT */
+import { diffSceneFiles, mergeSceneFiles } from './engine/SceneMergeDriver'; /* SCENE MERGING */
+import { PrefabManager } from './prefab-manager'; /* PREFAB INSTANCING */
+import { MaterialManager } from './material-manager'; /* MATERIAL ASSETS */
 import { projectBackupManager } from './project-backup'; /* PROJECT BACKUP */
 import { projectValidator } from './project-validator'; /* PROJECT VALIDATION */
 import { fileHistoryManager } from './file-history'; /* FILE HISTORY */
+import type { MaterialData } from '../shared/types/MaterialTypes'; /* MATERIAL ASSETS */
 
 /*
 	===============================================================
@@ -70,6 +74,9 @@ interface AssetSearchOptions {
 
 import { DialogOptions, MessageDialogOptions, AssetMetadata, AssetType } from '../shared/types';
 
+/* FILE EXTENSIONS OF THE SHADERS file:create-shader WRITES */
+const SHADER_EXTENSIONS = ['.vert', '.frag', '.glsl'];
+
 interface WorldCCompilationEvent {
   type: 'start' | 'progress' | 'complete' | 'error';
   file: string;
@@ -112,6 +119,8 @@ class IPCManager {
     this.registerBuildHandlers();
     this.registerWorldCHandlers();
     this.registerSceneHandlers();
+    this.registerPrefabHandlers();
+    this.registerMaterialHandlers();
 
     this.initialized = true;
 
@@ -1022,6 +1031,96 @@ class NewComponent : public Component {
       }
     );
 
+    ipcMain.handle(
+      'script:format-worldc',
+      async (
+        _event,
+        args: {
+          sourceCode: string;
+          filePath: string;
+          range?: { startLine: number; endLine: number };
+          options?: {
+            indentSize?: number;
+            useTabs?: boolean;
+            braceStyle?: 'same-line' | 'next-line';
+            maxLineLength?: number;
+          };
+        }
+      ) => {
+        try {
+          const { format, formatRange, BraceStyle } = await import(
+            '@worldenv/worldc/dist/formatter/formatter'
+          );
+
+          const options = {
+            ...args.options,
+            braceStyle:
+              args.options?.braceStyle === 'next-line' ? BraceStyle.NEXT_LINE : BraceStyle.SAME_LINE
+          };
+
+          const code = args.range
+            ? formatRange(args.sourceCode, args.range, options)
+            : format(args.sourceCode, options);
+
+          logger.info('IPC', 'WorldC formatting complete', {
+            path: args.filePath,
+            changed: code !== args.sourceCode
+          });
+
+          return { success: true, code };
+        } catch (error) {
+          /* source that does not parse is left as it is */
+          logger.warn('IPC', 'WorldC formatting failed', {
+            path: args.filePath,
+            error
+          });
+          return {
+            success: false,
+            code: args.sourceCode,
+            error: error instanceof Error ? error.message : 'Formatting failed'
+          };
+        }
+      }
+    );
+
+    ipcMain.handle('script:semantic-legend-worldc', async () => {
+      const { SEMANTIC_TOKENS_LEGEND } = await import(
+        '@worldenv/worldc/dist/tooling/lsp/semantic-tokens'
+      );
+      return SEMANTIC_TOKENS_LEGEND;
+    });
+
+    ipcMain.handle(
+      'script:semantic-tokens-worldc',
+      async (_event, args: { sourceCode: string; filePath: string }) => {
+        try {
+          const { buildSemanticTokens } = await import(
+            '@worldenv/worldc/dist/tooling/lsp/semantic-tokens'
+          );
+          const { SymbolIndex } = await import('@worldenv/worldc/dist/tooling/lsp/symbol-index');
+          const { SymbolTable } = await import('@worldenv/worldc/dist/semantic/symbol-table');
+
+          /* the path only keys the symbols; imports are not followed */
+          const index = SymbolIndex.build(args.filePath, args.sourceCode);
+
+          return { success: true, data: buildSemanticTokens(index, new SymbolTable()) };
+        } catch (error) {
+          logger.warn('IPC', 'WorldC semantic tokens failed', {
+            path: args.filePath,
+            error
+          });
+          return { success: false, data: [] };
+        }
+      }
+    );
+
+    ipcMain.handle('script:folding-ranges-worldc', async (_event, sourceCode: string) => {
+      const { buildFoldingRanges } = await import(
+        '@worldenv/worldc/dist/tooling/lsp/folding-ranges'
+      );
+      return buildFoldingRanges(sourceCode);
+    });
+
     ipcMain.handle('script:list-scripts', async (_event) => {
       try {
         const project = projectManager.getCurrentProject();
@@ -1310,7 +1409,7 @@ class NewComponent : public Component {
     /* Create new material file */
     ipcMain.handle(
       'file:create-material',
-      async (_event, materialType: 'standard' | 'unlit' | 'transparent') => {
+      async (_event, materialType: 'standard' | 'unlit' | 'transparent' | 'shader') => {
         try {
           const project = projectManager.getCurrentProject();
           if (!project) {
@@ -1346,13 +1445,13 @@ class NewComponent : public Component {
             templateContent = this.getMaterialTemplate(materialType);
           }
 
-          /* replace template variables */
+          /* replace template variables and type defaults */
           const materialName = path.basename(materialPath, '.material');
-          const now = new Date().toISOString();
-          templateContent = templateContent
-            .replace(/\{\{MaterialName\}\}/g, materialName)
-            .replace(/\{\{CreatedDate\}\}/g, now)
-            .replace(/\{\{ModifiedDate\}\}/g, now);
+          templateContent = MaterialManager.getInstance().createMaterialContent(
+            templateContent,
+            materialName,
+            materialType
+          );
 
           await fileSystem.writeFile(materialPath, templateContent, { create_dirs: true });
 
@@ -2046,7 +2145,9 @@ void main() {
    *
    * Returns fallback template content for new materials.
    */
-  private getMaterialTemplate(materialType: 'standard' | 'unlit' | 'transparent'): string {
+  private getMaterialTemplate(
+    materialType: 'standard' | 'unlit' | 'transparent' | 'shader'
+  ): string {
     return `{
   "version": "1.0.0",
   "name": "{{MaterialName}}",
@@ -2060,7 +2161,12 @@ void main() {
       "path": null,
       "enabled": true
     }
-  }
+  },
+  "shaders": {
+    "vertex": null,
+    "fragment": null
+  },
+  "uniforms": {}
 }`;
   }
 
@@ -2074,14 +2180,15 @@ void main() {
   "version": "1.0.0",
   "name": "{{PrefabName}}",
   "type": "prefab",
-  "rootEntity": {
+  "rootNode": {
     "id": "{{EntityId}}",
     "name": "{{PrefabName}}",
+    "type": "entity_2d",
     "enabled": true,
     "transform": {
-      "position": [0.0, 0.0, 0.0],
-      "rotation": [0.0, 0.0, 0.0, 1.0],
-      "scale": [1.0, 1.0, 1.0]
+      "position": { "x": 0, "y": 0, "z": 0 },
+      "rotation": { "x": 0, "y": 0, "z": 0 },
+      "scale": { "x": 1, "y": 1, "z": 1 }
     },
     "components": [],
     "children": []
@@ -2362,6 +2469,7 @@ export class CustomComponent {
    */
   private registerSceneHandlers(): void {
     const sceneManager = SceneManager.getInstance();
+    const prefabManager = PrefabManager.getInstance();
 
     /* CREATE SCENE */
     ipcMain.handle(
@@ -2396,7 +2504,10 @@ export class CustomComponent {
     /* LOAD SCENE */
     ipcMain.handle('scene:load', async (_event, command: { scenePath: string }) => {
       try {
-        const sceneData = await sceneManager.loadScene(command.scenePath);
+        const sceneData = await sceneManager.loadScene(
+          command.scenePath,
+          prefabManager.getSceneResolver(command.scenePath)
+        );
         return { success: true, sceneData };
       } catch (error) {
         logger.error('IPC', 'Scene loading failed', { error });
@@ -2415,7 +2526,11 @@ export class CustomComponent {
         }
       ) => {
         try {
-          await sceneManager.saveScene(command.scenePath, command.sceneData);
+          await sceneManager.saveScene(
+            command.scenePath,
+            command.sceneData,
+            prefabManager.getSceneResolver(command.scenePath)
+          );
           return { success: true };
         } catch (error) {
           logger.error('IPC', 'Scene saving failed', { error });
@@ -2446,8 +2561,206 @@ export class CustomComponent {
       }
     });
 
+    /* DIFF SCENES */
+    ipcMain.handle('scene:diff', async (_event, command: { fromPath: string; toPath: string }) => {
+      try {
+        const diff = diffSceneFiles(command.fromPath, command.toPath);
+        return { success: true, diff };
+      } catch (error) {
+        logger.error('IPC', 'Scene diff failed', { error });
+        throw error;
+      }
+    });
+
+    /* MERGE SCENES */
+    ipcMain.handle(
+      'scene:merge',
+      async (
+        _event,
+        command: {
+          basePath: string;
+          oursPath: string;
+          theirsPath: string;
+          outputPath?: string;
+        }
+      ) => {
+        try {
+          const conflicts = mergeSceneFiles(
+            command.basePath,
+            command.oursPath,
+            command.theirsPath,
+            command.outputPath
+          );
+          return { success: true, conflicts };
+        } catch (error) {
+          logger.error('IPC', 'Scene merge failed', { error });
+          throw error;
+        }
+      }
+    );
+
     logger.info('IPC', 'Scene handlers registered');
   }
+
+  /**
+   * registerPrefabHandlers()
+   *
+   * Registers prefab instancing IPC handlers and propagates
+   * edits of .prefab files to the scenes that use them.
+   */
+  private registerPrefabHandlers(): void {
+    const prefabManager = PrefabManager.getInstance();
+
+    /* INSTANTIATE PREFAB */
+    ipcMain.handle(
+      'prefab:instantiate',
+      async (_event, command: { scenePath: string; prefabPath: string; parentId?: string }) => {
+        try {
+          const node = await prefabManager.instantiate(
+            command.scenePath,
+            command.prefabPath,
+            command.parentId
+          );
+          return { success: true, node };
+        } catch (error) {
+          logger.error('IPC', 'Prefab instantiation failed', { error });
+          throw error;
+        }
+      }
+    );
+
+    /* GET INSTANCE */
+    ipcMain.handle(
+      'prefab:get-instance',
+      async (_event, command: { scenePath: string; nodeId: string }) => {
+        try {
+          const instance = await prefabManager.getInstanceInfo(command.scenePath, command.nodeId);
+          return { success: true, instance };
+        } catch (error) {
+          logger.error('IPC', 'Prefab instance lookup failed', { error });
+          throw error;
+        }
+      }
+    );
+
+    /* APPLY OVERRIDES */
+    ipcMain.handle(
+      'prefab:apply-overrides',
+      async (_event, command: { scenePath: string; nodeId: string }) => {
+        try {
+          const scenes = await prefabManager.applyOverrides(command.scenePath, command.nodeId);
+          this.sendToAllWindows('prefab:changed', { scenes });
+          return { success: true, scenes };
+        } catch (error) {
+          logger.error('IPC', 'Applying prefab overrides failed', { error });
+          throw error;
+        }
+      }
+    );
+
+    /* REVERT TO PREFAB */
+    ipcMain.handle(
+      'prefab:revert',
+      async (_event, command: { scenePath: string; nodeId: string }) => {
+        try {
+          await prefabManager.revertOverrides(command.scenePath, command.nodeId);
+          this.sendToAllWindows('prefab:changed', { scenes: [command.scenePath] });
+          return { success: true };
+        } catch (error) {
+          logger.error('IPC', 'Reverting prefab instance failed', { error });
+          throw error;
+        }
+      }
+    );
+
+    /* PROPAGATE PREFAB EDITS */
+    fileWatcher.addListener((event) => {
+      const project = projectManager.getCurrentProject();
+
+      if (event.type !== 'change' || !project || path.extname(event.path) !== '.prefab') {
+        return;
+      }
+
+      prefabManager
+        .handlePrefabChange(project.path, event.path)
+        .then((scenes) => {
+          if (scenes.length > 0) {
+            this.sendToAllWindows('prefab:changed', { scenes });
+          }
+        })
+        .catch((error) => {
+          logger.error('IPC', 'Prefab propagation failed', { path: event.path, error });
+        });
+    });
+
+    logger.info('IPC', 'Prefab handlers registered');
+  }
+
+  /**
+   * registerMaterialHandlers()
+   *
+   * Registers material asset IPC handlers and reports edits of
+   * .material and shader files so viewports rebuild their materials.
+   */
+  private registerMaterialHandlers(): void {
+    const materialManager = MaterialManager.getInstance();
+
+    /* READ MATERIAL */
+    ipcMain.handle('material:read', async (_event, command: { materialPath: string }) => {
+      try {
+        return materialManager.readMaterial(this.resolveProjectPath(command.materialPath));
+      } catch (error) {
+        logger.error('IPC', 'Material read failed', { error });
+        throw error;
+      }
+    });
+
+    /* SAVE MATERIAL */
+    ipcMain.handle(
+      'material:save',
+      async (_event, command: { materialPath: string; material: MaterialData }) => {
+        try {
+          return materialManager.writeMaterial(
+            this.resolveProjectPath(command.materialPath),
+            command.material
+          );
+        } catch (error) {
+          logger.error('IPC', 'Material save failed', { error });
+          throw error;
+        }
+      }
+    );
+
+    /* REPORT MATERIAL EDITS, INCLUDING SAVES FROM THE INSPECTOR */
+    fileWatcher.addListener((event) => {
+      if (event.type !== 'change' || path.extname(event.path) !== '.material') {
+        return;
+      }
+
+      this.sendToAllWindows('material:changed', { path: event.path });
+    });
+
+    /* REPORT SHADER EDITS SO SHADER MATERIALS RECOMPILE */
+    fileWatcher.addListener((event) => {
+      if (event.type !== 'change' || !SHADER_EXTENSIONS.includes(path.extname(event.path))) {
+        return;
+      }
+
+      this.sendToAllWindows('shader:changed', { path: event.path });
+    });
+
+    logger.info('IPC', 'Material handlers registered');
+  }
+
+  /**
+   * resolveProjectPath()
+   *
+   * Resolves an asset path against the open project.
+   */
+  private resolveProjectPath(assetPath: string): string {
+    const project = projectManager.getCurrentProject();
+    return project ? path.resolve(project.path, assetPath) : path.resolve(assetPath);
+  }
 }
 
 export const ipcManager = new IPCManager();
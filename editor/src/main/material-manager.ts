@@ -0,0 +1,242 @@
+/*
+   ===============================================================
+   WORLDEDIT MATERIAL MANAGER
+   ELASTIC SOFTWORKS 2025
+   ===============================================================
+*/
+
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         material_manager
+           ---
+
+           this module reads and writes .material asset files in
+           the main process. materials are read with every setting
+           the viewport renders filled in, so the renderer and the
+           material inspector never deal with missing or mistyped
+           values.
+
+           the defaults of a material depend on its type: unlit
+           materials ignore lighting and transparent materials
+           blend by their opacity. shader materials render with
+           the vertex and fragment shaders they name, with the
+           values of their uniforms.
+
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  MaterialData,
+  MaterialProperties,
+  MaterialShaders,
+  MaterialType
+} from '../shared/types/MaterialTypes';
+import { stripComments } from './file-system';
+import { logger } from './logger';
+
+/*
+   ================================
+             --- CONSTANTS ---
+   ================================
+*/
+
+const MATERIAL_TYPES: MaterialType[] = ['standard', 'unlit', 'transparent', 'shader'];
+
+const DEFAULT_PROPERTIES: MaterialProperties = {
+  diffuseColor: [1, 1, 1],
+  emissionColor: [0, 0, 0],
+  roughness: 0.5,
+  metallic: 0,
+  opacity: 1,
+  alphaTest: 0,
+  doubleSided: false,
+  transparent: false,
+  unlit: false,
+  depthWrite: true,
+  depthTest: true
+};
+
+const TYPE_PROPERTIES: Record<MaterialType, Partial<MaterialProperties>> = {
+  standard: {},
+  unlit: { unlit: true },
+  transparent: { transparent: true, opacity: 0.5, depthWrite: false },
+  shader: {}
+};
+
+/*
+   ================================
+             --- CLASS ---
+   ================================
+*/
+
+export class MaterialManager {
+  private static _instance: MaterialManager | null = null;
+
+  /*
+
+           getInstance()
+             ---
+
+             singleton pattern implementation for global material manager access.
+
+  */
+
+  static getInstance(): MaterialManager {
+    if (!MaterialManager._instance) {
+      MaterialManager._instance = new MaterialManager();
+    }
+
+    return MaterialManager._instance;
+  }
+
+  /*
+
+           createMaterialContent()
+             ---
+
+           fills in a material template for a new material of
+           the given type. the template keeps its comments; only
+           the values that differ for the type are replaced. new
+           shader materials start without shaders, since the
+           template names shaders that are not in the project.
+
+  */
+
+  createMaterialContent(template: string, name: string, type: MaterialType): string {
+    const now = new Date().toISOString();
+    let content = template
+      .replace(/\{\{MaterialName\}\}/g, name)
+      .replace(/\{\{CreatedDate\}\}/g, now)
+      .replace(/\{\{ModifiedDate\}\}/g, now)
+      .replace(/("type"\s*:\s*)"[^"]*"/, `$1"${type}"`);
+
+    for (const [key, value] of Object.entries(TYPE_PROPERTIES[type])) {
+      content = content.replace(
+        new RegExp(`("${key}"\\s*:\\s*)[^,\\n}]+`),
+        `$1${JSON.stringify(value)}`
+      );
+    }
+
+    if (type === 'shader') {
+      content = content.replace(/("(?:vertex|fragment)"\s*:\s*)"[^"]*"/g, '$1null');
+    }
+
+    return content;
+  }
+
+  /*
+
+           readMaterial()
+             ---
+
+           reads a .material file. material files may hold
+           comments, like the template they are created from.
+
+  */
+
+  readMaterial(materialPath: string): MaterialData {
+    if (!fs.existsSync(materialPath)) {
+      throw new Error(`Material file not found: ${materialPath}`);
+    }
+
+    const data = JSON.parse(
+      stripComments(fs.readFileSync(materialPath, 'utf8'))
+    ) as Partial<MaterialData>;
+
+    return this.normalize(materialPath, data);
+  }
+
+  /*
+
+           writeMaterial()
+             ---
+
+           writes a material to its .material file and returns
+           it as it was written. comments of the file are not
+           kept.
+
+  */
+
+  writeMaterial(materialPath: string, material: MaterialData): MaterialData {
+    const data = this.normalize(materialPath, material);
+
+    data.modified = new Date().toISOString();
+    fs.writeFileSync(materialPath, JSON.stringify(data, null, 2), 'utf8');
+
+    logger.info('MATERIAL_MANAGER', `Saved material: ${materialPath}`);
+    return data;
+  }
+
+  /*
+
+           normalize()
+             ---
+
+           fills in the type, the properties, the textures, the
+           shaders and the uniforms of a material. values of the
+           wrong kind are replaced by the default of their
+           property.
+
+  */
+
+  private normalize(materialPath: string, data: Partial<MaterialData>): MaterialData {
+    let type = data.type as MaterialType;
+
+    if (!MATERIAL_TYPES.includes(type)) {
+      logger.warn('MATERIAL_MANAGER', `Unknown material type, using standard: ${materialPath}`, {
+        type
+      });
+      type = 'standard';
+    }
+
+    const defaults: MaterialProperties = { ...DEFAULT_PROPERTIES, ...TYPE_PROPERTIES[type] };
+    const properties: MaterialProperties = { ...defaults, ...(data.properties || {}) };
+
+    for (const key of Object.keys(defaults)) {
+      const fallback = defaults[key];
+      const value = properties[key];
+      const valid = Array.isArray(fallback)
+        ? Array.isArray(value) &&
+          value.length >= 3 &&
+          value.every((channel) => typeof channel === 'number')
+        : typeof value === typeof fallback;
+
+      if (!valid) {
+        logger.warn('MATERIAL_MANAGER', `Invalid material property ${key}: ${materialPath}`, {
+          value
+        });
+        properties[key] = fallback;
+      }
+    }
+
+    const shaders: MaterialShaders = {
+      ...(data.shaders && typeof data.shaders === 'object' ? data.shaders : {}),
+      vertex: typeof data.shaders?.vertex === 'string' ? data.shaders.vertex : null,
+      fragment: typeof data.shaders?.fragment === 'string' ? data.shaders.fragment : null
+    };
+
+    return {
+      ...data,
+      version: data.version || '1.0.0',
+      name: data.name || path.basename(materialPath, '.material'),
+      type,
+      properties,
+      textures: data.textures && typeof data.textures === 'object' ? data.textures : {},
+      shaders,
+      uniforms: data.uniforms && typeof data.uniforms === 'object' ? data.uniforms : {}
+    };
+  }
+}
+
+/*
+   ================================
+             --- EOF ---
+   ================================
+*/
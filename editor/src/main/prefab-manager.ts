@@ -0,0 +1,512 @@
+/*
+   ===============================================================
+   WORLDEDIT PREFAB MANAGER
+   ELASTIC SOFTWORKS 2025
+   ===============================================================
+*/
+
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         prefab_manager
+           ---
+
+           this module keeps prefab instances in scenes linked to
+           their .prefab files in the main process. it reads and
+           writes prefabs, places instances in scenes, applies or
+           reverts the overrides of an instance, and carries each
+           edit of a prefab into every scene of the project that
+           uses it.
+
+           instances refer to their prefab by its path relative to
+           the project, with forward slashes.
+
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { NodeData, PrefabData, PrefabInstanceInfo, Vector3 } from '../shared/types/SceneTypes';
+import { SceneSerializer, PrefabResolver } from './engine/SceneSerializer';
+import { SceneManager } from './scene-manager';
+import { stripComments } from './file-system';
+import { logger } from './logger';
+
+/*
+   ================================
+             --- TYPES ---
+   ================================
+*/
+
+/* entity of prefabs written before rootNode, see readPrefab() */
+interface LegacyEntity {
+  id?: string;
+  name?: string;
+  enabled?: boolean;
+  transform?: { position?: number[]; rotation?: number[]; scale?: number[] };
+  components?: Array<{ id?: string; type: string; enabled?: boolean; properties?: {} }>;
+  children?: LegacyEntity[];
+}
+
+/*
+   ================================
+             --- CLASS ---
+   ================================
+*/
+
+export class PrefabManager {
+  private static _instance: PrefabManager | null = null;
+  private writtenPrefabs: Set<string> = new Set();
+
+  /*
+
+           getInstance()
+             ---
+
+             singleton pattern implementation for global prefab manager access.
+
+  */
+
+  static getInstance(): PrefabManager {
+    if (!PrefabManager._instance) {
+      PrefabManager._instance = new PrefabManager();
+    }
+
+    return PrefabManager._instance;
+  }
+
+  /*
+
+           findProjectRoot()
+             ---
+
+           returns the directory of the project a file belongs
+           to: the nearest one above it with a project.worldenv.
+
+  */
+
+  findProjectRoot(filePath: string): string {
+    let directory = path.dirname(path.resolve(filePath));
+
+    while (!fs.existsSync(path.join(directory, 'project.worldenv'))) {
+      const parent = path.dirname(directory);
+
+      if (parent === directory) {
+        throw new Error(`File is not inside a project: ${filePath}`);
+      }
+
+      directory = parent;
+    }
+
+    return directory;
+  }
+
+  /*
+
+           getPrefabReference()
+             ---
+
+           returns the path instances use to refer to a prefab.
+
+  */
+
+  getPrefabReference(projectPath: string, prefabPath: string): string {
+    return path
+      .relative(projectPath, path.resolve(projectPath, prefabPath))
+      .split(path.sep)
+      .join('/');
+  }
+
+  /*
+
+           readPrefab()
+             ---
+
+           reads a .prefab file. prefab files may hold comments,
+           like the template they are created from.
+
+           prefabs written before instancing existed describe
+           their nodes as a rootEntity with array transforms and
+           a quaternion rotation; they are read as a rootNode.
+
+  */
+
+  readPrefab(projectPath: string, prefabPath: string): PrefabData {
+    const filePath = path.resolve(projectPath, prefabPath);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Prefab file not found: ${filePath}`);
+    }
+
+    const prefab = JSON.parse(stripComments(fs.readFileSync(filePath, 'utf8'))) as PrefabData;
+
+    if (!prefab.rootNode && prefab.rootEntity) {
+      prefab.rootNode = this.convertLegacyEntity(prefab.rootEntity as LegacyEntity);
+      delete prefab.rootEntity;
+    }
+
+    if (!prefab.rootNode) {
+      throw new Error(`Prefab has no root node: ${filePath}`);
+    }
+
+    return prefab;
+  }
+
+  /*
+
+           writePrefab()
+             ---
+
+           writes a prefab to its .prefab file.
+
+  */
+
+  writePrefab(projectPath: string, prefabPath: string, prefab: PrefabData): void {
+    const filePath = path.resolve(projectPath, prefabPath);
+
+    prefab.modified = new Date().toISOString();
+    fs.writeFileSync(filePath, JSON.stringify(prefab, null, 2), 'utf8');
+
+    /* the watcher reports this write too; it is propagated already */
+    this.writtenPrefabs.add(filePath);
+
+    logger.info('PREFAB_MANAGER', `Saved prefab: ${filePath}`);
+  }
+
+  /*
+
+           createResolver()
+             ---
+
+           returns a resolver for the prefabs of a project. each
+           prefab is read once per resolver; a prefab that cannot
+           be read resolves to null, leaving its instances as
+           they are stored.
+
+  */
+
+  createResolver(projectPath: string): PrefabResolver {
+    const cache = new Map<string, PrefabData | null>();
+
+    return (prefabPath: string) => {
+      if (!cache.has(prefabPath)) {
+        try {
+          cache.set(prefabPath, this.readPrefab(projectPath, prefabPath));
+        } catch (error) {
+          logger.warn('PREFAB_MANAGER', `Failed to read prefab: ${prefabPath}`, error);
+          cache.set(prefabPath, null);
+        }
+      }
+
+      const prefab = cache.get(prefabPath);
+      return prefab ? (JSON.parse(JSON.stringify(prefab)) as PrefabData) : null;
+    };
+  }
+
+  /*
+
+           getSceneResolver()
+             ---
+
+           returns a resolver for the prefabs of the project a
+           scene belongs to, or undefined for a scene outside of
+           any project, which is read and written as it is.
+
+  */
+
+  getSceneResolver(scenePath: string): PrefabResolver | undefined {
+    try {
+      return this.createResolver(this.findProjectRoot(scenePath));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /*
+
+           instantiate()
+             ---
+
+           places an instance of a prefab in a scene, under the
+           given node or the scene root, and saves the scene.
+
+  */
+
+  async instantiate(scenePath: string, prefabPath: string, parentId?: string): Promise<NodeData> {
+    const projectPath = this.findProjectRoot(scenePath);
+    const resolve = this.createResolver(projectPath);
+    const sceneManager = SceneManager.getInstance();
+    const sceneData = await sceneManager.loadScene(scenePath, resolve);
+
+    const parent = parentId ? this.findNode(sceneData.rootNode, parentId) : sceneData.rootNode;
+    if (!parent) {
+      throw new Error(`Node not found: ${parentId}`);
+    }
+
+    const reference = this.getPrefabReference(projectPath, prefabPath);
+    const instance = SceneSerializer.instantiatePrefab(reference, this.generateId(), resolve);
+    if (!instance) {
+      throw new Error(`Prefab cannot be read: ${reference}`);
+    }
+
+    parent.children.push(instance);
+    await sceneManager.saveScene(scenePath, sceneData, resolve);
+
+    logger.info('PREFAB_MANAGER', `Instantiated ${reference} in ${scenePath}`);
+    return instance;
+  }
+
+  /*
+
+           getInstanceInfo()
+             ---
+
+           returns the prefab and overrides of a node, or null
+           when the node is not a prefab instance.
+
+  */
+
+  async getInstanceInfo(scenePath: string, nodeId: string): Promise<PrefabInstanceInfo | null> {
+    const resolve = this.createResolver(this.findProjectRoot(scenePath));
+    const sceneData = await SceneManager.getInstance().loadScene(scenePath, resolve);
+    const node = this.findNode(sceneData.rootNode, nodeId);
+
+    if (!node?.prefab) {
+      return null;
+    }
+
+    return {
+      nodeId,
+      prefabPath: node.prefab.path,
+      overrides: SceneSerializer.getPrefabOverrides(node, resolve)
+    };
+  }
+
+  /*
+
+           applyOverrides()
+             ---
+
+           writes the overrides of an instance into its prefab,
+           then carries the edited prefab into every scene that
+           uses it. returns the scenes that were updated.
+
+  */
+
+  async applyOverrides(scenePath: string, nodeId: string): Promise<string[]> {
+    const projectPath = this.findProjectRoot(scenePath);
+    const resolve = this.createResolver(projectPath);
+    const sceneData = await SceneManager.getInstance().loadScene(scenePath, resolve);
+    const node = this.findNode(sceneData.rootNode, nodeId);
+
+    if (!node?.prefab) {
+      throw new Error(`Node is not a prefab instance: ${nodeId}`);
+    }
+
+    const prefabPath = node.prefab.path;
+    const prefab = this.readPrefab(projectPath, prefabPath);
+
+    prefab.rootNode = SceneSerializer.applyOverridesToPrefab(
+      prefab,
+      prefabPath,
+      SceneSerializer.getPrefabOverrides(node, resolve),
+      resolve
+    );
+    this.writePrefab(projectPath, prefabPath, prefab);
+
+    return this.propagate(projectPath, prefabPath);
+  }
+
+  /*
+
+           revertOverrides()
+             ---
+
+           drops the overrides of an instance, so it matches its
+           prefab again, and saves the scene. the position and
+           rotation of the instance root stay where they are.
+
+  */
+
+  async revertOverrides(scenePath: string, nodeId: string): Promise<void> {
+    const resolve = this.createResolver(this.findProjectRoot(scenePath));
+    const sceneManager = SceneManager.getInstance();
+    const sceneData = await sceneManager.loadScene(scenePath);
+    const node = this.findNode(sceneData.rootNode, nodeId);
+
+    if (!node?.prefab) {
+      throw new Error(`Node is not a prefab instance: ${nodeId}`);
+    }
+
+    /* the stored instance is its overrides */
+    const rootId = resolve(node.prefab.path)?.rootNode.id;
+    node.overrides = (node.overrides ?? []).filter(
+      (override) =>
+        override.target === rootId && /^transform\.(position|rotation)\./.test(override.property)
+    );
+
+    await sceneManager.saveScene(
+      scenePath,
+      {
+        ...sceneData,
+        rootNode: SceneSerializer.restorePrefabInstances(sceneData.rootNode, resolve)
+      },
+      resolve
+    );
+
+    logger.info('PREFAB_MANAGER', `Reverted ${nodeId} in ${scenePath}`);
+  }
+
+  /*
+
+           propagate()
+             ---
+
+           rewrites every scene of the project that uses a prefab,
+           directly or through other prefabs, so the roots its
+           instances store follow the prefab and overrides equal
+           to it again are dropped. returns the scenes rewritten.
+
+  */
+
+  async propagate(projectPath: string, prefabPath: string): Promise<string[]> {
+    const reference = this.getPrefabReference(projectPath, prefabPath);
+    const resolve = this.createResolver(projectPath);
+    const sceneManager = SceneManager.getInstance();
+    const updated: string[] = [];
+
+    for (const scene of await sceneManager.listProjectScenes(projectPath)) {
+      try {
+        const stored = await sceneManager.loadScene(scene.path);
+        if (!SceneSerializer.usesPrefab(stored.rootNode, reference, resolve)) {
+          continue;
+        }
+
+        const sceneData = await sceneManager.loadScene(scene.path, resolve);
+        await sceneManager.saveScene(scene.path, sceneData, resolve);
+        updated.push(scene.path);
+      } catch (error) {
+        logger.warn('PREFAB_MANAGER', `Failed to update scene: ${scene.path}`, error);
+      }
+    }
+
+    logger.info('PREFAB_MANAGER', `Propagated ${reference} to ${updated.length} scene(s)`);
+    return updated;
+  }
+
+  /*
+
+           handlePrefabChange()
+             ---
+
+           propagates a .prefab file changed on disk. returns the
+           scenes rewritten, or an empty list for a write of the
+           prefab manager itself, which propagated already.
+
+  */
+
+  async handlePrefabChange(projectPath: string, filePath: string): Promise<string[]> {
+    const resolved = path.resolve(filePath);
+
+    if (this.writtenPrefabs.delete(resolved)) {
+      return [];
+    }
+
+    return this.propagate(projectPath, resolved);
+  }
+
+  /*
+
+           convertLegacyEntity()
+             ---
+
+           reads a rootEntity of an older prefab as node data.
+           rotations are quaternions there and euler angles in
+           degrees here.
+
+  */
+
+  private convertLegacyEntity(entity: LegacyEntity): NodeData {
+    const id = entity.id ?? this.generateId();
+    const vector = (values: number[] | undefined, fallback: number): Vector3 => ({
+      x: values?.[0] ?? fallback,
+      y: values?.[1] ?? fallback,
+      z: values?.[2] ?? fallback
+    });
+
+    return {
+      id,
+      name: entity.name ?? id,
+      type: 'entity_2d',
+      enabled: entity.enabled !== false,
+      transform: {
+        position: vector(entity.transform?.position, 0),
+        rotation: this.quaternionToEuler(entity.transform?.rotation),
+        scale: vector(entity.transform?.scale, 1)
+      },
+      components: (entity.components ?? []).map((component) => ({
+        id: component.id ?? `${id}-${component.type.toLowerCase()}`,
+        type: component.type,
+        enabled: component.enabled !== false,
+        properties: { ...component.properties }
+      })),
+      children: (entity.children ?? []).map((child) => this.convertLegacyEntity(child))
+    };
+  }
+
+  private quaternionToEuler(rotation: number[] | undefined): Vector3 {
+    if (!rotation || rotation.length < 4) {
+      return { x: rotation?.[0] ?? 0, y: rotation?.[1] ?? 0, z: rotation?.[2] ?? 0 };
+    }
+
+    const [x, y, z, w] = rotation;
+    const degrees = (radians: number): number => (radians * 180) / Math.PI;
+
+    return {
+      x: degrees(Math.atan2(2 * (w * x + y * z), 1 - 2 * (x * x + y * y))),
+      y: degrees(Math.asin(Math.max(-1, Math.min(1, 2 * (w * y - z * x))))),
+      z: degrees(Math.atan2(2 * (w * z + x * y), 1 - 2 * (y * y + z * z)))
+    };
+  }
+
+  private findNode(node: NodeData, id: string): NodeData | null {
+    if (node.id === id) {
+      return node;
+    }
+
+    for (const child of node.children) {
+      const found = this.findNode(child, id);
+      if (found) {
+        return found;
+      }
+    }
+
+    return null;
+  }
+
+  /*
+
+           generateId()
+             ---
+
+           generates unique identifier for prefab instances.
+
+  */
+
+  private generateId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+
+    return `${timestamp}-${random}`;
+  }
+}
+
+/*
+   ================================
+             --- EOF ---
+   ================================
+*/
@@ -280,7 +280,9 @@ const api = {
 
 	         provides comprehensive scene lifecycle management
 	         including creation, loading, saving, and deletion
-	         with proper validation and error handling.
+	         with proper validation and error handling. diff and
+	         merge compare scene files node by node; merge writes
+	         the merged scene and returns its conflicts.
 
   */
 
@@ -307,6 +309,85 @@ const api = {
 
     list: (projectPath: string): Promise<unknown> => {
       return ipcRenderer.invoke('scene:list', { projectPath }) as Promise<unknown>;
+    },
+
+    diff: (fromPath: string, toPath: string): Promise<unknown> => {
+      return ipcRenderer.invoke('scene:diff', { fromPath, toPath }) as Promise<unknown>;
+    },
+
+    merge: (
+      basePath: string,
+      oursPath: string,
+      theirsPath: string,
+      outputPath?: string
+    ): Promise<unknown> => {
+      return ipcRenderer.invoke('scene:merge', {
+        basePath,
+        oursPath,
+        theirsPath,
+        outputPath
+      }) as Promise<unknown>;
+    }
+  },
+
+  /*
+
+           prefab namespace
+	         ---
+	         prefab instancing in scene files.
+
+	         places prefab instances in scenes and applies or
+	         reverts the overrides of an instance. edits to a
+	         prefab reach its instances in every scene, which
+	         the prefab:changed event reports.
+
+  */
+
+  prefab: {
+    instantiate: (scenePath: string, prefabPath: string, parentId?: string): Promise<unknown> => {
+      return ipcRenderer.invoke('prefab:instantiate', {
+        scenePath,
+        prefabPath,
+        parentId
+      }) as Promise<unknown>;
+    },
+
+    getInstance: (scenePath: string, nodeId: string): Promise<unknown> => {
+      return ipcRenderer.invoke('prefab:get-instance', { scenePath, nodeId }) as Promise<unknown>;
+    },
+
+    applyOverrides: (scenePath: string, nodeId: string): Promise<unknown> => {
+      return ipcRenderer.invoke('prefab:apply-overrides', {
+        scenePath,
+        nodeId
+      }) as Promise<unknown>;
+    },
+
+    revert: (scenePath: string, nodeId: string): Promise<unknown> => {
+      return ipcRenderer.invoke('prefab:revert', { scenePath, nodeId }) as Promise<unknown>;
+    }
+  },
+
+  /*
+
+           material namespace
+	         ---
+	         material asset files.
+
+	         reads and saves .material files with every setting
+	         the viewport renders filled in. edits of a material
+	         file are reported by the material:changed event and
+	         edits of shader files by the shader:changed event.
+
+  */
+
+  material: {
+    read: (materialPath: string): Promise<unknown> => {
+      return ipcRenderer.invoke('material:read', { materialPath }) as Promise<unknown>;
+    },
+
+    save: (materialPath: string, material: unknown): Promise<unknown> => {
+      return ipcRenderer.invoke('material:save', { materialPath, material }) as Promise<unknown>;
     }
   },
 
@@ -522,6 +603,50 @@ const api = {
       return ipcRenderer.invoke('script:validate-worldc', { sourceCode, filePath }) as Promise<any>;
     },
 
+    formatWorldC: (
+      sourceCode: string,
+      filePath: string,
+      range?: { startLine: number; endLine: number },
+      options?: {
+        indentSize?: number;
+        useTabs?: boolean;
+        braceStyle?: 'same-line' | 'next-line';
+        maxLineLength?: number;
+      }
+    ): Promise<{ success: boolean; code: string; error?: string }> => {
+      return ipcRenderer.invoke('script:format-worldc', {
+        sourceCode,
+        filePath,
+        range,
+        options
+      }) as Promise<{ success: boolean; code: string; error?: string }>;
+    },
+
+    getWorldCSemanticLegend: (): Promise<{ tokenTypes: string[]; tokenModifiers: string[] }> => {
+      return ipcRenderer.invoke('script:semantic-legend-worldc') as Promise<{
+        tokenTypes: string[];
+        tokenModifiers: string[];
+      }>;
+    },
+
+    getWorldCSemanticTokens: (
+      sourceCode: string,
+      filePath: string
+    ): Promise<{ success: boolean; data: number[] }> => {
+      return ipcRenderer.invoke('script:semantic-tokens-worldc', {
+        sourceCode,
+        filePath
+      }) as Promise<{ success: boolean; data: number[] }>;
+    },
+
+    getWorldCFoldingRanges: (
+      sourceCode: string
+    ): Promise<{ startLine: number; endLine: number; kind?: string }[]> => {
+      return ipcRenderer.invoke('script:folding-ranges-worldc', sourceCode) as Promise<
+        { startLine: number; endLine: number; kind?: string }[]
+      >;
+    },
+
     compileWorldC: (sourceCode: string, filePath: string, target?: string): Promise<any> => {
       return ipcRenderer.invoke('script:compile-worldc', {
         sourceCode,
@@ -30,12 +30,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import {
   SceneData,
+  SceneFileData,
   SceneMetadata,
   SceneSettings,
   NodeData,
   Vector3,
   Color
 } from '../shared/types/SceneTypes';
+import { SceneSerializer, PrefabResolver } from './engine/SceneSerializer';
+import { SceneDiffer } from './engine/SceneDiffer';
 import { logger } from './logger';
 
 /*
@@ -44,12 +47,6 @@ import { logger } from './logger';
    ================================
 */
 
-interface SceneFileData {
-  format: string;
-  formatVersion: string;
-  scene: SceneData;
-}
-
 interface CreateSceneOptions {
   name?: string;
   author?: string;
@@ -162,9 +159,12 @@ export class SceneManager {
            validates file format and structure, returning parsed
            scene data or throwing descriptive errors.
 
+           with a prefab resolver, prefab instances are rebuilt
+           from their prefabs and overrides.
+
   */
 
-  async loadScene(scenePath: string): Promise<SceneData> {
+  async loadScene(scenePath: string, resolve?: PrefabResolver): Promise<SceneData> {
     try {
       /* check if file exists */
 
@@ -193,6 +193,23 @@ export class SceneManager {
 
       logger.info('SCENE_MANAGER', `Loaded scene: ${scenePath}`);
 
+      /* a merge left conflicts for the user to review */
+
+      if (fileData.mergeConflicts && fileData.mergeConflicts.length > 0) {
+        logger.warn('SCENE_MANAGER', `Scene has unresolved merge conflicts: ${scenePath}`, {
+          conflicts: fileData.mergeConflicts.map((conflict) =>
+            SceneDiffer.describeConflict(conflict)
+          )
+        });
+      }
+
+      if (resolve) {
+        return {
+          ...fileData.scene,
+          rootNode: SceneSerializer.restorePrefabInstances(fileData.scene.rootNode, resolve)
+        };
+      }
+
       return fileData.scene;
     } catch (error) {
       logger.error('SCENE_MANAGER', 'Failed to load scene:', error);
@@ -209,9 +226,16 @@ export class SceneManager {
            updates metadata timestamps and ensures proper
            file formatting for cross-platform compatibility.
 
+           with a prefab resolver, prefab instances are saved as
+           their overrides only.
+
   */
 
-  async saveScene(scenePath: string, sceneData: SceneData): Promise<void> {
+  async saveScene(
+    scenePath: string,
+    sceneData: SceneData,
+    resolve?: PrefabResolver
+  ): Promise<void> {
     try {
       /* update scene metadata */
 
@@ -231,7 +255,12 @@ export class SceneManager {
       const fileData: SceneFileData = {
         format: 'worldenv-scene',
         formatVersion: '1.0.0',
-        scene: sceneData
+        scene: resolve
+          ? {
+              ...sceneData,
+              rootNode: SceneSerializer.storePrefabInstances(sceneData.rootNode, resolve)
+            }
+          : sceneData
       };
 
       /* ensure directory exists */
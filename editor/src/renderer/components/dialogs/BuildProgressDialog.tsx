@@ -119,6 +119,27 @@ export const BuildProgressDialog: React.FC<BuildProgressDialogProps> = ({
     return `${remainingSeconds}s`;
   };
 
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 B';
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const budgetNames: { [category: string]: string } = {
+    javascript: 'JavaScript',
+    textures: 'Textures',
+    audio: 'Audio',
+    total: 'Total'
+  };
+
+  /* BUDGET ERRORS ARE LISTED WITH THEIR OFFENDERS INSTEAD */
+  const budgetMessages = new Set(
+    (buildResult?.budgetViolations ?? []).map((violation) => violation.message)
+  );
+  const otherErrors = (buildResult?.errors ?? []).filter((error) => !budgetMessages.has(error));
+
   const getProgressBarClass = (): string => {
     if (progress.error) {
       return 'progress-bar error';
@@ -237,11 +258,38 @@ export const BuildProgressDialog: React.FC<BuildProgressDialogProps> = ({
                 </div>
               )}
 
-              {buildResult?.errors && buildResult.errors.length > 0 && (
+              {buildResult?.budgetViolations && buildResult.budgetViolations.length > 0 && (
+                <div className="budget-list">
+                  <h4>Size Budgets Exceeded:</h4>
+                  <ul>
+                    {buildResult.budgetViolations.map((violation) => (
+                      <li key={violation.category} className="budget-item">
+                        <div className="budget-summary">
+                          <span className="budget-category">{budgetNames[violation.category]}</span>
+                          <span className="budget-size">
+                            {formatFileSize(violation.size)} of {formatFileSize(violation.budget)}{' '}
+                            (+{formatFileSize(violation.size - violation.budget)})
+                          </span>
+                        </div>
+                        <ul className="budget-offenders">
+                          {violation.offenders.map((offender) => (
+                            <li key={offender.path}>
+                              <code>{offender.path}</code>
+                              <span>{formatFileSize(offender.size)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {otherErrors.length > 0 && (
                 <div className="error-list">
                   <h4>Errors:</h4>
                   <ul>
-                    {buildResult.errors.map((error, index) => (
+                    {otherErrors.map((error, index) => (
                       <li key={index} className="error-item">
                         {error}
                       </li>
@@ -0,0 +1,781 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/**
+ * WORLDEDIT - Material Editor Dialog Component
+ *
+ * Inspector for .material asset files. Saved edits reach every
+ * viewport through the material:changed event. Shader materials list
+ * the uniforms their shaders declare and the errors the viewport got
+ * compiling them.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTheme } from '../../context/ThemeContext';
+import { useEditorState } from '../../context/EditorStateContext';
+import { Button } from '../ui/Button';
+import { MaterialLoader } from '../../viewport/MaterialLoader';
+import {
+  ENGINE_UNIFORMS,
+  ShaderStage,
+  ShaderUniformDeclaration,
+  parseUniforms
+} from '../../viewport/ShaderSource';
+import type {
+  MaterialColor,
+  MaterialData,
+  MaterialProperties,
+  MaterialTexture,
+  MaterialTextureSlot,
+  MaterialType,
+  MaterialUniform,
+  ShaderError
+} from '../../../shared/types/MaterialTypes';
+
+/**
+ * Material Editor Dialog props
+ */
+interface MaterialEditorDialogProps {
+  materialPath: string | null;
+  visible: boolean;
+  onClose: () => void;
+}
+
+const MATERIAL_TYPES: MaterialType[] = ['standard', 'unlit', 'transparent', 'shader'];
+
+const TEXTURE_SLOTS: Array<{ slot: MaterialTextureSlot; label: string; lit: boolean }> = [
+  { slot: 'diffuse', label: 'Diffuse', lit: false },
+  { slot: 'normal', label: 'Normal', lit: true },
+  { slot: 'emission', label: 'Emission', lit: true },
+  { slot: 'roughness', label: 'Roughness', lit: true },
+  { slot: 'metallic', label: 'Metallic', lit: true },
+  { slot: 'ao', label: 'Ambient Occlusion', lit: true }
+];
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'];
+
+const SHADER_STAGES: Array<{ stage: ShaderStage; label: string; extensions: string[] }> = [
+  { stage: 'vertex', label: 'Vertex', extensions: ['vert', 'glsl'] },
+  { stage: 'fragment', label: 'Fragment', extensions: ['frag', 'glsl'] }
+];
+
+const VECTOR_SIZES: Partial<Record<MaterialUniform['type'], number>> = {
+  vec2: 2,
+  vec3: 3,
+  vec4: 4
+};
+
+/**
+ * toHexColor()
+ *
+ * Converts a material color to the value of a color input.
+ */
+function toHexColor(color: MaterialColor): string {
+  return (
+    '#' +
+    color
+      .slice(0, 3)
+      .map((channel) =>
+        Math.round(Math.min(Math.max(channel, 0), 1) * 255)
+          .toString(16)
+          .padStart(2, '0')
+      )
+      .join('')
+  );
+}
+
+/**
+ * fromHexColor()
+ *
+ * Converts the value of a color input to a material color.
+ */
+function fromHexColor(hex: string): MaterialColor {
+  const value = parseInt(hex.slice(1), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
+
+/**
+ * MaterialEditorDialog component
+ *
+ * Dialog for editing the type, surface properties and textures of a
+ * material file, or the shaders and uniforms of a shader material.
+ */
+export function MaterialEditorDialog({
+  materialPath,
+  visible,
+  onClose
+}: MaterialEditorDialogProps): JSX.Element {
+  const { theme } = useTheme();
+  const { state } = useEditorState();
+  const [material, setMaterial] = useState<MaterialData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [uniformDeclarations, setUniformDeclarations] = useState<ShaderUniformDeclaration[]>([]);
+  const [shaderErrors, setShaderErrors] = useState<ShaderError[]>([]);
+  const [shaderRevision, setShaderRevision] = useState(0);
+
+  /**
+   * Load the material when the dialog opens
+   */
+  useEffect(() => {
+    if (!visible || !materialPath) {
+      return;
+    }
+
+    let cancelled = false;
+    setMaterial(null);
+    setError(null);
+    setHasChanges(false);
+
+    window.worldedit.material
+      .read(materialPath)
+      .then((data) => {
+        if (!cancelled) {
+          setMaterial(data as MaterialData);
+        }
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : String(loadError));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, materialPath]);
+
+  /**
+   * Follow the shader errors the viewport reports; a rebuilt material
+   * may also declare other uniforms
+   */
+  useEffect(() => {
+    if (!visible || !materialPath) {
+      return;
+    }
+
+    const loader = MaterialLoader.getInstance();
+    const resolvedPath = loader.resolvePath(materialPath);
+    const handleMaterialLoaded = (loadedPath: string): void => {
+      if (loadedPath === resolvedPath) {
+        setShaderErrors(loader.getShaderErrors(materialPath));
+        setShaderRevision((revision) => revision + 1);
+      }
+    };
+
+    setShaderErrors(loader.getShaderErrors(materialPath));
+    loader.addListener(handleMaterialLoaded);
+    return () => loader.removeListener(handleMaterialLoaded);
+  }, [visible, materialPath]);
+
+  /**
+   * Read the uniforms the shaders of a shader material declare
+   */
+  const vertexShader = material?.type === 'shader' ? material.shaders.vertex : null;
+  const fragmentShader = material?.type === 'shader' ? material.shaders.fragment : null;
+
+  useEffect(() => {
+    let cancelled = false;
+    const loader = MaterialLoader.getInstance();
+    const shaderPaths = [vertexShader, fragmentShader].filter((shaderPath): shaderPath is string =>
+      Boolean(shaderPath)
+    );
+
+    Promise.all(
+      shaderPaths.map((shaderPath) =>
+        window.worldedit.fs.readFile(loader.resolvePath(shaderPath)).catch(() => '')
+      )
+    ).then((sources) => {
+      if (cancelled) {
+        return;
+      }
+
+      const declarations = new Map<string, ShaderUniformDeclaration>();
+      sources
+        .flatMap((source) => parseUniforms(source))
+        .filter((declaration) => !ENGINE_UNIFORMS.includes(declaration.name))
+        .forEach((declaration) => {
+          if (!declarations.has(declaration.name)) {
+            declarations.set(declaration.name, declaration);
+          }
+        });
+
+      setUniformDeclarations(Array.from(declarations.values()));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vertexShader, fragmentShader, shaderRevision]);
+
+  /**
+   * Handle material edits
+   */
+  const updateMaterial = useCallback((changes: Partial<MaterialData>) => {
+    setMaterial((prev) => (prev ? { ...prev, ...changes } : prev));
+    setHasChanges(true);
+  }, []);
+
+  const updateProperty = useCallback(
+    <K extends keyof MaterialProperties>(key: K, value: MaterialProperties[K]) => {
+      setMaterial((prev) =>
+        prev ? { ...prev, properties: { ...prev.properties, [key]: value } } : prev
+      );
+      setHasChanges(true);
+    },
+    []
+  );
+
+  const updateTexture = useCallback(
+    (slot: MaterialTextureSlot, changes: Partial<MaterialTexture>) => {
+      setMaterial((prev) => {
+        if (!prev) {
+          return prev;
+        }
+
+        const texture: MaterialTexture = { path: null, enabled: true, ...prev.textures[slot] };
+        return { ...prev, textures: { ...prev.textures, [slot]: { ...texture, ...changes } } };
+      });
+      setHasChanges(true);
+    },
+    []
+  );
+
+  const updateShader = useCallback((stage: ShaderStage, shaderPath: string | null) => {
+    setMaterial((prev) =>
+      prev ? { ...prev, shaders: { ...prev.shaders, [stage]: shaderPath } } : prev
+    );
+    setHasChanges(true);
+  }, []);
+
+  const updateUniform = useCallback((name: string, uniform: MaterialUniform) => {
+    setMaterial((prev) =>
+      prev ? { ...prev, uniforms: { ...prev.uniforms, [name]: uniform } } : prev
+    );
+    setHasChanges(true);
+  }, []);
+
+  /**
+   * Browse for an asset file; files inside the project are stored
+   * relative to it
+   */
+  const browseAsset = useCallback(
+    async (title: string, name: string, extensions: string[]): Promise<string | null> => {
+      try {
+        const filePath = (await window.electronAPI.invoke('dialog:open-file', {
+          title,
+          filters: [{ name, extensions }],
+          properties: ['openFile']
+        })) as string | null;
+
+        if (!filePath) {
+          return null;
+        }
+
+        const projectPath = (state.project.path || '').replace(/\\/g, '/').replace(/\/$/, '');
+        const normalized = filePath.replace(/\\/g, '/');
+        return projectPath && normalized.startsWith(`${projectPath}/`)
+          ? normalized.slice(projectPath.length + 1)
+          : normalized;
+      } catch (browseError) {
+        console.error(`Failed to browse for ${name.toLowerCase()}:`, browseError);
+        return null;
+      }
+    },
+    [state.project.path]
+  );
+
+  const handleBrowseTexture = useCallback(
+    async (slot: MaterialTextureSlot) => {
+      const texturePath = await browseAsset('Select Texture', 'Images', IMAGE_EXTENSIONS);
+      if (texturePath) {
+        updateTexture(slot, { path: texturePath, enabled: true });
+      }
+    },
+    [browseAsset, updateTexture]
+  );
+
+  const handleBrowseShader = useCallback(
+    async (stage: ShaderStage, extensions: string[]) => {
+      const shaderPath = await browseAsset('Select Shader', 'Shaders', extensions);
+      if (shaderPath) {
+        updateShader(stage, shaderPath);
+      }
+    },
+    [browseAsset, updateShader]
+  );
+
+  const handleBrowseUniformTexture = useCallback(
+    async (name: string) => {
+      const texturePath = await browseAsset('Select Texture', 'Images', IMAGE_EXTENSIONS);
+      if (texturePath) {
+        updateUniform(name, { type: 'sampler2D', value: texturePath });
+      }
+    },
+    [browseAsset, updateUniform]
+  );
+
+  /**
+   * Handle save operation
+   */
+  const handleSave = useCallback(async () => {
+    if (!material || !materialPath || !hasChanges) return;
+
+    setSaving(true);
+    try {
+      const saved = (await window.worldedit.material.save(materialPath, material)) as MaterialData;
+      setMaterial(saved);
+      setHasChanges(false);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSaving(false);
+    }
+  }, [material, materialPath, hasChanges]);
+
+  /**
+   * Handle cancel operation
+   */
+  const handleCancel = useCallback(() => {
+    if (hasChanges) {
+      if (confirm('You have unsaved changes. Are you sure you want to close?')) {
+        onClose();
+      }
+    } else {
+      onClose();
+    }
+  }, [hasChanges, onClose]);
+
+  if (!visible || !materialPath) {
+    return <></>;
+  }
+
+  const dialogStyle: React.CSSProperties = {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000
+  };
+
+  const contentStyle: React.CSSProperties = {
+    backgroundColor: theme.colors.background.primary,
+    border: `1px solid ${theme.colors.border.primary}`,
+    borderRadius: theme.borderRadius.md,
+    width: '520px',
+    maxWidth: '90vw',
+    maxHeight: '80vh',
+    overflow: 'hidden',
+    display: 'flex',
+    flexDirection: 'column'
+  };
+
+  const headerStyle: React.CSSProperties = {
+    padding: theme.spacing.md,
+    borderBottom: `1px solid ${theme.colors.border.primary}`,
+    backgroundColor: theme.colors.background.secondary
+  };
+
+  const bodyStyle: React.CSSProperties = {
+    padding: theme.spacing.md,
+    flex: 1,
+    overflow: 'auto'
+  };
+
+  const footerStyle: React.CSSProperties = {
+    padding: theme.spacing.md,
+    borderTop: `1px solid ${theme.colors.border.primary}`,
+    backgroundColor: theme.colors.background.secondary,
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: theme.spacing.lg
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: theme.spacing.xs,
+    fontWeight: 600,
+    color: theme.colors.foreground.primary
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    color: theme.colors.foreground.primary,
+    fontSize: '13px'
+  };
+
+  const rowLabelStyle: React.CSSProperties = {
+    width: '130px',
+    flexShrink: 0,
+    color: theme.colors.foreground.secondary
+  };
+
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    padding: theme.spacing.xs,
+    border: `1px solid ${theme.colors.border.primary}`,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.background.primary,
+    color: theme.colors.foreground.primary,
+    fontSize: '13px'
+  };
+
+  const renderSlider = (key: 'roughness' | 'metallic' | 'opacity' | 'alphaTest', label: string) => (
+    <div style={rowStyle}>
+      <span style={rowLabelStyle}>{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.01}
+        value={material ? material.properties[key] : 0}
+        onChange={(e) => updateProperty(key, parseFloat(e.target.value))}
+        style={{ flex: 1 }}
+      />
+      <span style={{ width: '36px', textAlign: 'right' }}>
+        {material ? material.properties[key].toFixed(2) : ''}
+      </span>
+    </div>
+  );
+
+  const renderUniform = (declaration: ShaderUniformDeclaration) => {
+    const { name, type } = declaration;
+    const stored = material?.uniforms[name];
+    const value = stored && stored.type === type ? stored.value : null;
+    const size = VECTOR_SIZES[type];
+    let editor: JSX.Element;
+
+    if (type === 'float' || type === 'int') {
+      editor = (
+        <input
+          type="number"
+          step={type === 'int' ? 1 : 0.01}
+          value={typeof value === 'number' ? value : 0}
+          onChange={(e) =>
+            updateUniform(name, {
+              type,
+              value:
+                (type === 'int' ? parseInt(e.target.value, 10) : parseFloat(e.target.value)) || 0
+            })
+          }
+          style={inputStyle}
+        />
+      );
+    } else if (type === 'bool') {
+      editor = (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => updateUniform(name, { type, value: e.target.checked })}
+        />
+      );
+    } else if (size) {
+      const components = Array.from({ length: size }, (_, index) =>
+        Array.isArray(value) && typeof value[index] === 'number' ? value[index] : 0
+      );
+
+      editor = (
+        <>
+          {components.map((component, index) => (
+            <input
+              key={index}
+              type="number"
+              step={0.01}
+              value={component}
+              onChange={(e) => {
+                const next = [...components];
+                next[index] = parseFloat(e.target.value) || 0;
+                updateUniform(name, { type, value: next });
+              }}
+              style={{ ...inputStyle, minWidth: 0 }}
+            />
+          ))}
+        </>
+      );
+    } else if (type === 'sampler2D') {
+      editor = (
+        <>
+          <input
+            type="text"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => updateUniform(name, { type, value: e.target.value || null })}
+            placeholder="No texture"
+            style={inputStyle}
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => void handleBrowseUniformTexture(name)}
+          >
+            Browse
+          </Button>
+        </>
+      );
+    } else {
+      editor = (
+        <span style={{ color: theme.colors.foreground.tertiary }}>
+          {type} values are set in the material file
+        </span>
+      );
+    }
+
+    return (
+      <div key={name} style={rowStyle}>
+        <span style={rowLabelStyle} title={type}>
+          {name}
+        </span>
+        {editor}
+      </div>
+    );
+  };
+
+  const isShader = material?.type === 'shader';
+  const lit = material ? material.type !== 'unlit' && !material.properties.unlit : true;
+  const transparent = material
+    ? material.type === 'transparent' || material.properties.transparent
+    : false;
+
+  return (
+    <div style={dialogStyle} onClick={(e) => e.target === e.currentTarget && handleCancel()}>
+      <div style={contentStyle}>
+        {/* Header */}
+        <div style={headerStyle}>
+          <h2 style={{ margin: 0, color: theme.colors.foreground.primary }}>Material</h2>
+          <p
+            style={{
+              margin: '4px 0 0 0',
+              color: theme.colors.foreground.secondary,
+              fontSize: '14px'
+            }}
+          >
+            {material?.name || materialPath.split(/[\\/]/).pop()}
+          </p>
+        </div>
+
+        {/* Body */}
+        <div style={bodyStyle}>
+          {error && <div style={{ ...sectionStyle, color: '#ff6b6b' }}>{error}</div>}
+
+          {!material && !error && (
+            <div style={{ color: theme.colors.foreground.tertiary }}>Loading material...</div>
+          )}
+
+          {material && (
+            <>
+              {/* Type */}
+              <div style={sectionStyle}>
+                <label style={labelStyle}>Type</label>
+                <select
+                  value={material.type}
+                  onChange={(e) => updateMaterial({ type: e.target.value as MaterialType })}
+                  style={{ ...inputStyle, width: '100%' }}
+                >
+                  {MATERIAL_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {isShader && (
+                <>
+                  {/* Shaders */}
+                  <div style={sectionStyle}>
+                    <label style={labelStyle}>Shaders</label>
+                    {SHADER_STAGES.map(({ stage, label, extensions }) => (
+                      <div key={stage} style={rowStyle}>
+                        <span style={rowLabelStyle}>{label}</span>
+                        <input
+                          type="text"
+                          value={material.shaders[stage] || ''}
+                          onChange={(e) => updateShader(stage, e.target.value || null)}
+                          placeholder="No shader"
+                          style={inputStyle}
+                        />
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => void handleBrowseShader(stage, extensions)}
+                        >
+                          Browse
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Uniforms */}
+                  <div style={sectionStyle}>
+                    <label style={labelStyle}>Uniforms</label>
+                    {uniformDeclarations.length > 0 ? (
+                      uniformDeclarations.map(renderUniform)
+                    ) : (
+                      <div style={{ color: theme.colors.foreground.tertiary, fontSize: '13px' }}>
+                        The shaders declare no uniforms
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Shader Errors */}
+                  {shaderErrors.length > 0 && (
+                    <div style={sectionStyle}>
+                      <label style={labelStyle}>Shader Errors</label>
+                      {shaderErrors.map((shaderError, index) => (
+                        <div
+                          key={index}
+                          style={{
+                            color: '#ff6b6b',
+                            fontFamily: 'monospace',
+                            fontSize: '12px',
+                            marginBottom: theme.spacing.xs,
+                            wordBreak: 'break-word'
+                          }}
+                        >
+                          {shaderError.file.split(/[\\/]/).pop()}
+                          {shaderError.line !== null ? `:${shaderError.line}` : ''}:{' '}
+                          {shaderError.message}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+
+              {/* Surface */}
+              <div style={sectionStyle}>
+                <label style={labelStyle}>Surface</label>
+                {isShader && (
+                  <div style={rowStyle}>
+                    <span style={rowLabelStyle}>Transparent</span>
+                    <input
+                      type="checkbox"
+                      checked={material.properties.transparent}
+                      onChange={(e) => updateProperty('transparent', e.target.checked)}
+                    />
+                  </div>
+                )}
+                {!isShader && (
+                  <>
+                    <div style={rowStyle}>
+                      <span style={rowLabelStyle}>Color</span>
+                      <input
+                        type="color"
+                        value={toHexColor(material.properties.diffuseColor)}
+                        onChange={(e) =>
+                          updateProperty('diffuseColor', fromHexColor(e.target.value))
+                        }
+                      />
+                    </div>
+                    {lit && (
+                      <>
+                        <div style={rowStyle}>
+                          <span style={rowLabelStyle}>Emission</span>
+                          <input
+                            type="color"
+                            value={toHexColor(material.properties.emissionColor)}
+                            onChange={(e) =>
+                              updateProperty('emissionColor', fromHexColor(e.target.value))
+                            }
+                          />
+                        </div>
+                        {renderSlider('roughness', 'Roughness')}
+                        {renderSlider('metallic', 'Metallic')}
+                      </>
+                    )}
+                    {transparent && renderSlider('opacity', 'Opacity')}
+                    {renderSlider('alphaTest', 'Alpha Cutoff')}
+                  </>
+                )}
+                <div style={rowStyle}>
+                  <span style={rowLabelStyle}>Double Sided</span>
+                  <input
+                    type="checkbox"
+                    checked={material.properties.doubleSided}
+                    onChange={(e) => updateProperty('doubleSided', e.target.checked)}
+                  />
+                </div>
+                <div style={rowStyle}>
+                  <span style={rowLabelStyle}>Depth Write</span>
+                  <input
+                    type="checkbox"
+                    checked={material.properties.depthWrite}
+                    onChange={(e) => updateProperty('depthWrite', e.target.checked)}
+                  />
+                </div>
+              </div>
+
+              {/* Textures */}
+              {!isShader && (
+                <div style={sectionStyle}>
+                  <label style={labelStyle}>Textures</label>
+                  {TEXTURE_SLOTS.filter(({ lit: litOnly }) => lit || !litOnly).map(
+                    ({ slot, label }) => {
+                      const texture = material.textures[slot];
+
+                      return (
+                        <div key={slot} style={rowStyle}>
+                          <span style={rowLabelStyle}>{label}</span>
+                          <input
+                            type="checkbox"
+                            checked={!!texture?.enabled}
+                            onChange={(e) => updateTexture(slot, { enabled: e.target.checked })}
+                            title="Enabled"
+                          />
+                          <input
+                            type="text"
+                            value={texture?.path || ''}
+                            onChange={(e) => updateTexture(slot, { path: e.target.value || null })}
+                            placeholder="No texture"
+                            style={inputStyle}
+                          />
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={() => void handleBrowseTexture(slot)}
+                          >
+                            Browse
+                          </Button>
+                        </div>
+                      );
+                    }
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={footerStyle}>
+          <Button variant="secondary" size="sm" onClick={handleCancel}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={() => void handleSave()}
+            disabled={!material || !hasChanges || saving}
+          >
+            Save Material
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -17,10 +17,12 @@ import { useTheme } from '../../context/ThemeContext';
 import { DropZone, DropZoneIndicator } from '../ui/DropZone';
 import { ContextMenu, useContextMenu, CommonMenuItems, createSeparator } from '../ui/ContextMenu';
 import { AssetPropertiesDialog } from '../dialogs/AssetPropertiesDialog';
+import { MaterialEditorDialog } from '../dialogs/MaterialEditorDialog';
 import { BatchImportDialog } from '../dialogs/BatchImportDialog';
 import { SceneManager } from '../../core/hierarchy/SceneManager';
 import { NodeType } from '../../core/hierarchy/Node';
 import { componentSystem } from '../../core/components';
+import { importModel } from '../../viewport/ModelImport';
 
 /**
  * Asset browser panel component interfaces
@@ -115,7 +117,7 @@ function getAssetIcon(type: string): string {
  */
 export function AssetBrowserPanel(): JSX.Element {
   console.log('[ASSETS PANEL] Component mounting...');
-  const { state } = useEditorState();
+  const { state, actions } = useEditorState();
   const { theme } = useTheme();
   const [currentPath, setCurrentPath] = useState('assets');
   const [assets, setAssets] = useState<AssetItem[]>([]);
@@ -133,6 +135,7 @@ export function AssetBrowserPanel(): JSX.Element {
   const [selectedAssetForProperties, setSelectedAssetForProperties] = useState<AssetItem | null>(
     null
   );
+  const [editingMaterialPath, setEditingMaterialPath] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { contextMenu, showContextMenu, hideContextMenu } = useContextMenu();
   const [isBatchImportOpen, setIsBatchImportOpen] = useState(false);
@@ -390,6 +393,33 @@ export function AssetBrowserPanel(): JSX.Element {
               label: 'Import to Viewport',
               onClick: () => handleImportToViewport(asset)
             },
+            ...(asset.type === 'model'
+              ? [
+                  {
+                    id: 'import-hierarchy',
+                    label: 'Import to Viewport as Hierarchy',
+                    onClick: () => handleImportToViewport(asset, { expandHierarchy: true })
+                  }
+                ]
+              : []),
+            ...(asset.extension === '.prefab'
+              ? [
+                  {
+                    id: 'place-prefab',
+                    label: 'Place in Scene',
+                    onClick: () => void handlePlacePrefab(asset)
+                  }
+                ]
+              : []),
+            ...(asset.type === 'material'
+              ? [
+                  {
+                    id: 'edit-material',
+                    label: 'Edit Material',
+                    onClick: () => setEditingMaterialPath(asset.path)
+                  }
+                ]
+              : []),
             {
               id: 'properties',
               label: 'Show Properties',
@@ -447,7 +477,10 @@ export function AssetBrowserPanel(): JSX.Element {
     }
   };
 
-  const handleImportToViewport = async (asset: AssetItem) => {
+  const handleImportToViewport = async (
+    asset: AssetItem,
+    options: { expandHierarchy?: boolean } = {}
+  ) => {
     try {
       const scene = SceneManager.getInstance().currentScene;
       if (!scene) {
@@ -476,17 +509,13 @@ export function AssetBrowserPanel(): JSX.Element {
           break;
 
         case 'model':
-          // Create mesh renderer entity for 3D models
-          entity = scene.createNode(entityName, NodeType.MESH);
-          const meshComponent = componentSystem.addComponent(entity.id, 'MeshRenderer');
-          if (meshComponent && meshComponent.success && meshComponent.component) {
-            const assetRef = {
-              id: asset.metadata.id,
-              path: asset.path,
-              type: asset.type
-            };
-            meshComponent.component.setProperty('mesh', assetRef);
-          }
+          // Create mesh renderer entity for 3D models, or one per model node
+          entity = await importModel(
+            scene,
+            entityName,
+            { id: asset.metadata.id, path: asset.path, type: asset.type },
+            options
+          );
           break;
 
         case 'audio':
@@ -530,6 +559,42 @@ export function AssetBrowserPanel(): JSX.Element {
     }
   };
 
+  /**
+   * handlePlacePrefab()
+   *
+   * Places an instance of a prefab in the open scene, under the
+   * selected node or the scene root. The instance is added to the
+   * scene file, so unsaved edits are saved first and the scene is
+   * reloaded after.
+   */
+  const handlePlacePrefab = async (asset: AssetItem): Promise<void> => {
+    const sceneManager = SceneManager.getInstance();
+    const scenePath = sceneManager.currentFilePath;
+
+    if (!scenePath) {
+      console.warn('[ASSETS PANEL] No scene file open to place the prefab in');
+      return;
+    }
+
+    try {
+      if (sceneManager.hasUnsavedChanges() && !(await sceneManager.saveSceneFile())) {
+        throw new Error(`Failed to save scene: ${scenePath}`);
+      }
+
+      const parentId = state.selectedEntities.length === 1 ? state.selectedEntities[0] : undefined;
+      const result = (await window.worldedit.prefab.instantiate(
+        scenePath,
+        asset.path,
+        parentId
+      )) as { node: { id: string } };
+
+      await sceneManager.reloadSceneFile();
+      actions.selectEntities([result.node.id]);
+    } catch (error) {
+      console.error('[ASSETS PANEL] Failed to place prefab:', error);
+    }
+  };
+
   const handleShowProperties = (asset: AssetItem) => {
     setSelectedAssetForProperties(asset);
     setShowPropertiesDialog(true);
@@ -938,6 +1003,8 @@ export function AssetBrowserPanel(): JSX.Element {
     } else if (asset.type === 'script') {
       console.log('[ASSETS] Opening script:', asset.path);
       // TODO: Open script editor
+    } else if (asset.type === 'material') {
+      setEditingMaterialPath(asset.path);
     }
   };
 
@@ -1412,6 +1479,13 @@ export function AssetBrowserPanel(): JSX.Element {
         onSave={handleSaveAssetProperties}
       />
 
+      {/* Material Editor Dialog */}
+      <MaterialEditorDialog
+        materialPath={editingMaterialPath}
+        visible={editingMaterialPath !== null}
+        onClose={() => setEditingMaterialPath(null)}
+      />
+
       {/* batch import dialog */}
       <BatchImportDialog
         isOpen={isBatchImportOpen}
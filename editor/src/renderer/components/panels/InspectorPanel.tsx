@@ -38,6 +38,7 @@ import {
   getComponentTooltip
 } from '../../core/components/ComponentHelp';
 import { AssetItem } from '../../../shared/types';
+import type { PrefabInstanceInfo } from '../../../shared/types/SceneTypes';
 import { ScriptComponentUI } from '../ui/ScriptComponentUI';
 
 /**
@@ -77,6 +78,7 @@ export function InspectorPanel(): JSX.Element {
   const [availableComponents, setAvailableComponents] = useState<string[]>([]);
   const [multiSelectionData, setMultiSelectionData] = useState<MultiSelectionData | null>(null);
   const [undoRedoManager] = useState(() => UndoRedoManager.getInstance());
+  const [prefabInstance, setPrefabInstance] = useState<PrefabInstanceInfo | null>(null);
 
   /**
    * updateComponentData()
@@ -282,6 +284,83 @@ export function InspectorPanel(): JSX.Element {
     [selectedNodes, undoRedoManager, actions, updateComponentData]
   );
 
+  /**
+   * updatePrefabInstance()
+   *
+   * Looks up the prefab the selected entity is an instance of
+   * in the scene file it was loaded from.
+   */
+  const updatePrefabInstance = useCallback(async (): Promise<void> => {
+    const scenePath = SceneManager.getInstance().currentFilePath;
+
+    if (state.selectedEntities.length !== 1 || !scenePath) {
+      setPrefabInstance(null);
+      return;
+    }
+
+    try {
+      const result = (await window.worldedit.prefab.getInstance(
+        scenePath,
+        state.selectedEntities[0]
+      )) as { instance: PrefabInstanceInfo | null };
+      setPrefabInstance(result.instance);
+    } catch (error) {
+      console.error('[INSPECTOR] Failed to look up prefab instance:', error);
+      setPrefabInstance(null);
+    }
+  }, [state.selectedEntities]);
+
+  useEffect(() => {
+    updatePrefabInstance();
+  }, [updatePrefabInstance]);
+
+  // Prefab edits change the overrides of instances in other scenes too
+  useEffect(() => {
+    const handlePrefabChanged = (...args: unknown[]): void => {
+      const { scenes } = args[0] as { scenes: string[] };
+      const scenePath = SceneManager.getInstance().currentFilePath;
+
+      if (scenePath && scenes.includes(scenePath)) {
+        updatePrefabInstance();
+      }
+    };
+
+    window.worldedit.on('prefab:changed', handlePrefabChanged);
+    return () => window.worldedit.off('prefab:changed', handlePrefabChanged);
+  }, [updatePrefabInstance]);
+
+  /**
+   * handlePrefabAction()
+   *
+   * Applies the overrides of the selected instance to its prefab,
+   * or reverts the instance to its prefab. Both work on the scene
+   * file, so unsaved edits are saved first; the rewritten scene is
+   * reloaded on prefab:changed.
+   */
+  const handlePrefabAction = useCallback(
+    async (action: 'apply' | 'revert'): Promise<void> => {
+      const sceneManager = SceneManager.getInstance();
+      const scenePath = sceneManager.currentFilePath;
+      if (!prefabInstance || !scenePath) return;
+
+      try {
+        if (sceneManager.hasUnsavedChanges() && !(await sceneManager.saveSceneFile())) {
+          throw new Error(`Failed to save scene: ${scenePath}`);
+        }
+
+        if (action === 'apply') {
+          await window.worldedit.prefab.applyOverrides(scenePath, prefabInstance.nodeId);
+        } else {
+          await window.worldedit.prefab.revert(scenePath, prefabInstance.nodeId);
+        }
+        await updatePrefabInstance();
+      } catch (error) {
+        console.error(`[INSPECTOR] Failed to ${action} prefab overrides:`, error);
+      }
+    },
+    [prefabInstance, updatePrefabInstance]
+  );
+
   /**
    * handleEntityRename()
    *
@@ -612,18 +691,39 @@ export function InspectorPanel(): JSX.Element {
             </div>
           );
 
-        default:
+        case 'object':
+          /* ONLY LISTS OF ASSETS, SUCH AS MATERIAL SLOTS, ARE EDITABLE */
+          if (!propertyMetadata.assetTypes || !Array.isArray(propertyValue)) {
+            break;
+          }
+
           return (
             <div style={containerStyle}>
-              <div style={labelStyle}>
+              <div style={labelStyle} title={getPropertyTooltip(component.type, propertyKey)}>
                 <span>{propertyMetadata.displayName}</span>
+                {propertyMetadata.required && <span style={{ color: '#ff6b6b' }}>*</span>}
               </div>
-              <div style={{ fontSize: '12px', color: theme.colors.foreground.tertiary }}>
-                Unsupported property type: {propertyMetadata.type}
-              </div>
+              <AssetListPropertyEditor
+                value={propertyValue as (AssetReference | null)[]}
+                onChange={(value) => handlePropertyChange(component.type, propertyKey, value)}
+                assetTypes={propertyMetadata.assetTypes}
+                readonly={propertyMetadata.readonly}
+              />
+              {validationResult?.error && <div style={errorStyle}>{validationResult.error}</div>}
             </div>
           );
       }
+
+      return (
+        <div style={containerStyle}>
+          <div style={labelStyle}>
+            <span>{propertyMetadata.displayName}</span>
+          </div>
+          <div style={{ fontSize: '12px', color: theme.colors.foreground.tertiary }}>
+            Unsupported property type: {propertyMetadata.type}
+          </div>
+        </div>
+      );
     },
     [theme, handlePropertyChange]
   );
@@ -807,6 +907,17 @@ export function InspectorPanel(): JSX.Element {
     transition: 'background-color 0.1s ease'
   };
 
+  const prefabButtonStyle: React.CSSProperties = {
+    flex: 1,
+    padding: `${theme.spacing.xs} ${theme.spacing.sm}`,
+    backgroundColor: theme.colors.background.tertiary,
+    border: `1px solid ${theme.colors.border.primary}`,
+    borderRadius: theme.borderRadius.sm,
+    color: theme.colors.foreground.primary,
+    cursor: 'pointer',
+    fontSize: '12px'
+  };
+
   return (
     <div style={panelStyle}>
       {/* Panel Header */}
@@ -927,6 +1038,64 @@ export function InspectorPanel(): JSX.Element {
               />
             </div>
 
+            {/* Prefab Instance */}
+            {prefabInstance && (
+              <div
+                style={{
+                  marginBottom: theme.spacing.md,
+                  padding: theme.spacing.sm,
+                  backgroundColor: theme.colors.background.secondary,
+                  borderRadius: theme.borderRadius.sm,
+                  borderLeft: `3px solid ${theme.colors.accent.primary}`
+                }}
+              >
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    marginBottom: theme.spacing.xs
+                  }}
+                >
+                  <span style={{ fontSize: '14px', fontWeight: 600 }}>Prefab</span>
+                  <span style={{ fontSize: '11px', color: theme.colors.foreground.tertiary }}>
+                    {prefabInstance.overrides.length === 1
+                      ? '1 override'
+                      : `${prefabInstance.overrides.length} overrides`}
+                  </span>
+                </div>
+                <div
+                  style={{
+                    fontSize: '11px',
+                    fontFamily: 'monospace',
+                    color: theme.colors.foreground.secondary,
+                    marginBottom: theme.spacing.sm,
+                    wordBreak: 'break-all'
+                  }}
+                >
+                  {prefabInstance.prefabPath}
+                </div>
+                <div style={{ display: 'flex', gap: theme.spacing.xs }}>
+                  <button
+                    style={prefabButtonStyle}
+                    disabled={prefabInstance.overrides.length === 0}
+                    onClick={() => handlePrefabAction('apply')}
+                    title="Write the overrides of this instance into the prefab and every instance of it"
+                  >
+                    Apply Overrides to Prefab
+                  </button>
+                  <button
+                    style={prefabButtonStyle}
+                    disabled={prefabInstance.overrides.length === 0}
+                    onClick={() => handlePrefabAction('revert')}
+                    title="Drop the overrides of this instance"
+                  >
+                    Revert to Prefab
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Components */}
             {componentData.map((uiData, index) => renderComponent(uiData, index))}
           </div>
@@ -1139,6 +1308,9 @@ function AssetPropertyEditor({
       if (assetTypes?.includes('script')) {
         filters.push({ name: 'Scripts', extensions: ['ws', 'ts', 'js'] });
       }
+      if (assetTypes?.includes('material')) {
+        filters.push({ name: 'Materials', extensions: ['material'] });
+      }
 
       if (filters.length === 0) {
         filters.push({ name: 'All Files', extensions: ['*'] });
@@ -1272,3 +1444,108 @@ function AssetPropertyEditor({
     </div>
   );
 }
+
+/*
+  =================================
+      --- ASSET LIST PROPERTY ---
+  =================================
+*/
+
+interface AssetListPropertyEditorProps {
+  value: (AssetReference | null)[];
+  onChange: (value: (AssetReference | null)[]) => void;
+  assetTypes?: string[];
+  readonly?: boolean;
+}
+
+function AssetListPropertyEditor({
+  value,
+  onChange,
+  assetTypes,
+  readonly
+}: AssetListPropertyEditorProps): JSX.Element {
+  const { theme } = useTheme();
+
+  /*
+
+           handleSlotChange()
+           ---
+           replaces the asset of one slot
+
+  */
+  const handleSlotChange = useCallback(
+    (index: number, asset: AssetReference | null) => {
+      const slots = [...value];
+      slots[index] = asset;
+      onChange(slots);
+    },
+    [value, onChange]
+  );
+
+  /*
+
+           handleRemoveSlot()
+           ---
+           removes a slot, moving the slots after it up
+
+  */
+  const handleRemoveSlot = useCallback(
+    (index: number) => {
+      onChange(value.filter((_slot, slotIndex) => slotIndex !== index));
+    },
+    [value, onChange]
+  );
+
+  const slotStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.xs
+  };
+
+  const slotLabelStyle: React.CSSProperties = {
+    fontSize: '11px',
+    color: theme.colors.foreground.tertiary,
+    width: '16px',
+    textAlign: 'right'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    border: `1px solid ${theme.colors.border.primary}`,
+    backgroundColor: theme.colors.background.primary,
+    color: theme.colors.foreground.secondary,
+    borderRadius: theme.borderRadius.sm,
+    cursor: 'pointer',
+    fontSize: '11px'
+  };
+
+  return (
+    <div>
+      {value.map((slot, index) => (
+        <div key={index} style={slotStyle}>
+          <span style={slotLabelStyle}>{index}</span>
+          <div style={{ flex: 1 }}>
+            <AssetPropertyEditor
+              value={slot}
+              onChange={(asset) => handleSlotChange(index, asset)}
+              assetTypes={assetTypes}
+              readonly={readonly}
+              placeholder="Drop asset here or click to browse"
+            />
+          </div>
+          {!readonly && (
+            <button style={buttonStyle} onClick={() => handleRemoveSlot(index)} title="Remove slot">
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+      {!readonly && (
+        <button style={buttonStyle} onClick={() => onChange([...value, null])}>
+          Add Slot
+        </button>
+      )}
+    </div>
+  );
+}
@@ -67,7 +67,8 @@ export const ScriptEditorPanel: React.FC<ScriptEditorPanelProps> = ({ theme = 'd
       automaticLayout: true,
       tabSize: 2,
       folding: true,
-      foldingStrategy: 'indentation',
+      foldingStrategy: 'auto',
+      'semanticHighlighting.enabled': true,
       showFoldingControls: 'always',
       matchBrackets: 'always',
       autoIndent: 'full',
@@ -222,6 +223,11 @@ export const ScriptEditorPanel: React.FC<ScriptEditorPanelProps> = ({ theme = 'd
     }
   };
 
+  /* runs the formatting provider registered for WorldC */
+  const formatActiveFile = () => {
+    editorRef.current?.getAction('editor.action.formatDocument')?.run();
+  };
+
   const createNewScript = async (scriptType: 'typescript' | 'assemblyscript' | 'worldc') => {
     try {
       const scriptPath = await window.worldedit.script.createNew(scriptType);
@@ -294,6 +300,14 @@ export const ScriptEditorPanel: React.FC<ScriptEditorPanelProps> = ({ theme = 'd
           >
             + TS
           </button>
+          <button
+            className="action-button"
+            onClick={formatActiveFile}
+            disabled={!activeFile || activeFile.language !== 'worldc'}
+            title="Format (Shift+Alt+F)"
+          >
+            Format
+          </button>
           <button
             className="action-button"
             onClick={saveActiveFile}
@@ -454,6 +468,44 @@ const registerWorldCLanguage = (monaco: Monaco) => {
     }
   });
 
+  monaco.languages.registerDocumentFormattingEditProvider('worldc', {
+    provideDocumentFormattingEdits: (model, options) =>
+      formatWorldCModel(model, options)
+  });
+
+  monaco.languages.registerDocumentRangeFormattingEditProvider('worldc', {
+    provideDocumentRangeFormattingEdits: (model, range, options) =>
+      formatWorldCModel(model, options, range)
+  });
+
+  /* names are classified by the compiler's symbol index */
+  window.worldedit.script.getWorldCSemanticLegend().then((legend) => {
+    monaco.languages.registerDocumentSemanticTokensProvider('worldc', {
+      getLegend: () => legend,
+      provideDocumentSemanticTokens: async (model) => {
+        const result = await window.worldedit.script.getWorldCSemanticTokens(
+          model.getValue(),
+          model.uri.path
+        );
+        return result.success ? { data: new Uint32Array(result.data) } : null;
+      },
+      releaseDocumentSemanticTokens: () => undefined
+    });
+  });
+
+  /* Monaco lines are 1-based, the compiler's 0-based */
+  monaco.languages.registerFoldingRangeProvider('worldc', {
+    provideFoldingRanges: async (model) => {
+      const ranges = await window.worldedit.script.getWorldCFoldingRanges(model.getValue());
+
+      return ranges.map((range) => ({
+        start: range.startLine + 1,
+        end: range.endLine + 1,
+        kind: range.kind ? new monaco.languages.FoldingRangeKind(range.kind) : undefined
+      }));
+    }
+  });
+
   monaco.languages.registerCompletionItemProvider('worldc', {
     provideCompletionItems: (model, position) => {
       const word = model.getWordUntilPosition(position);
@@ -507,3 +559,27 @@ const registerWorldCLanguage = (monaco: Monaco) => {
     }
   });
 };
+
+/* formats with the compiler; Monaco lines are 1-based, the formatter's 0-based */
+const formatWorldCModel = async (
+  model: monaco.editor.ITextModel,
+  options: monaco.languages.FormattingOptions,
+  range?: monaco.IRange
+): Promise<monaco.languages.TextEdit[]> => {
+  const source = model.getValue();
+
+  const result = await window.worldedit.script.formatWorldC(
+    source,
+    model.uri.path,
+    range
+      ? { startLine: range.startLineNumber - 1, endLine: range.endLineNumber - 1 }
+      : undefined,
+    { indentSize: options.tabSize, useTabs: !options.insertSpaces }
+  );
+
+  if (!result.success || result.code === source) {
+    return [];
+  }
+
+  return [{ range: model.getFullModelRange(), text: result.code }];
+};
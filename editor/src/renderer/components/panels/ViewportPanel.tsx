@@ -31,6 +31,8 @@ import {
 import { CameraPreset } from '../../viewport/EditorCamera'; /* CAMERA CONTROLS */
 import { ViewportToolbar } from '../ui/ViewportToolbar'; /* TOOLBAR */
 import { createDemoScene, animateObjects } from '../../viewport/DemoContent'; /* DEMO CONTENT */
+import { ModelLoader } from '../../viewport/ModelLoader'; /* MODEL ASSETS */
+import { MaterialLoader } from '../../viewport/MaterialLoader'; /* MATERIAL ASSETS */
 import { EngineInterface } from '../../engine/EngineInterface'; /* ENGINE INTEGRATION */
 import {
   ManipulatorManager,
@@ -413,6 +415,32 @@ export function ViewportPanel(): JSX.Element {
     return cleanup;
   }, [initializeViewport]);
 
+  /* RESOLVE MODEL AND MATERIAL ASSETS AGAINST THE OPEN PROJECT */
+  useEffect(() => {
+    ModelLoader.getInstance().setBasePath(state.project.path);
+    MaterialLoader.getInstance().setBasePath(state.project.path);
+  }, [state.project.path]);
+
+  /* REBUILD MATERIALS WHEN THEIR FILES OR SHADERS CHANGE */
+  useEffect(() => {
+    const handleMaterialChanged = (...args: unknown[]): void => {
+      const { path } = args[0] as { path: string };
+      void MaterialLoader.getInstance().reload(path);
+    };
+
+    const handleShaderChanged = (...args: unknown[]): void => {
+      const { path } = args[0] as { path: string };
+      void MaterialLoader.getInstance().reloadShader(path);
+    };
+
+    window.worldedit.on('material:changed', handleMaterialChanged);
+    window.worldedit.on('shader:changed', handleShaderChanged);
+    return () => {
+      window.worldedit.off('material:changed', handleMaterialChanged);
+      window.worldedit.off('shader:changed', handleShaderChanged);
+    };
+  }, []);
+
   /* UPDATE VIEWPORT MODE WHEN STATE CHANGES */
   useEffect(() => {
     if (viewportManagerRef.current && isInitialized) {
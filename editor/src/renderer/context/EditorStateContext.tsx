@@ -498,10 +498,25 @@ export function EditorStateProvider({ children }: EditorStateProviderProps): JSX
     window.worldedit?.on('edit:undo', handleUndo);
     window.worldedit?.on('edit:redo', handleRedo);
 
+    // Prefab actions and prefab edits rewrite the scene files that use them
+    const handlePrefabChanged = (...args: unknown[]) => {
+      const { scenes } = args[0] as { scenes: string[] };
+      const scenePath = sceneManager.currentFilePath;
+
+      if (scenePath && scenes.includes(scenePath)) {
+        sceneManager.reloadSceneFile().catch((error) => {
+          console.error('[EDITOR_STATE] Failed to reload scene:', error);
+        });
+      }
+    };
+
+    window.worldedit?.on('prefab:changed', handlePrefabChanged);
+
     return () => {
       sceneManager.removeListener(handleSceneEvent);
       window.worldedit?.off('edit:undo', handleUndo);
       window.worldedit?.off('edit:redo', handleRedo);
+      window.worldedit?.off('prefab:changed', handlePrefabChanged);
     };
   }, [sceneManager]);
 
@@ -601,13 +616,8 @@ export function EditorStateProvider({ children }: EditorStateProviderProps): JSX
 
     loadSceneFromFile: async (scenePath: string) => {
       try {
-        const result = await (window as any).worldedit.scene.load(scenePath);
-        if (result.success && result.sceneData) {
-          // TODO: Convert IPC scene data to local Scene format and load into sceneManager
-          // For now, create a new scene with the loaded name
-          sceneManager.createNewScene(result.sceneData.scene.name);
-          updateSceneState();
-        }
+        await sceneManager.openSceneFile(scenePath);
+        updateSceneState();
       } catch (error) {
         console.error('[EDITOR_STATE] Failed to load scene from file:', error);
         throw error;
@@ -349,14 +349,21 @@ export class ComponentHelpRegistry {
         mesh: {
           name: 'mesh',
           type: 'asset',
-          description: 'The 3D mesh to render',
-          examples: ['cube.obj', 'character.fbx', 'terrain.gltf']
+          description: 'The 3D mesh to render: a primitive or a glTF, GLB or OBJ model',
+          examples: ['cube', 'character.glb', 'terrain.gltf', 'crate.obj']
         },
-        material: {
-          name: 'material',
-          type: 'asset',
-          description: 'The material applied to the mesh',
-          examples: ['metal.mat', 'wood.mat', 'glass.mat']
+        meshNode: {
+          name: 'meshNode',
+          type: 'string',
+          description: 'The node of the model to render; empty renders the whole model',
+          examples: ['Body', 'Body/Wheel']
+        },
+        materials: {
+          name: 'materials',
+          type: 'object',
+          description:
+            'The .material assets applied to the meshes of the model, one slot per mesh; empty slots keep the model material',
+          examples: ['metal.material', 'wood.material', 'glass.material']
         }
       },
       dependencies: ['Transform'],
@@ -134,10 +134,17 @@ export class MeshRendererComponent extends Component {
       fileFilter: 'model/*'
     });
 
+    this.defineProperty<string>('meshNode', '', {
+      type: 'string',
+      displayName: 'Mesh Node',
+      description: 'Node of the model to render, such as Body/Wheel (empty renders the whole model)'
+    });
+
     this.defineProperty<(AssetReference | null)[]>('materials', [], {
       type: 'object',
       displayName: 'Materials',
-      description: 'Array of materials for mesh submeshes'
+      description: 'Array of materials for mesh submeshes',
+      assetTypes: ['material']
     });
 
     this.defineProperty<ShadowCastingMode>('shadowCastingMode', ShadowCastingMode.ON, {
@@ -241,6 +248,34 @@ export class MeshRendererComponent extends Component {
     }
   }
 
+  /*
+
+           getMeshNode()
+	         ---
+	         retrieves the path of the model node this renderer
+	         draws. models expanded into a node hierarchy give
+	         each scene node the path of its model node; an empty
+	         path draws the whole model.
+
+  */
+
+  getMeshNode(): string {
+    return this.getProperty<string>('meshNode') || '';
+  }
+
+  /*
+
+           setMeshNode()
+	         ---
+	         selects the model node this renderer draws by its
+	         path within the model.
+
+  */
+
+  setMeshNode(nodePath: string): void {
+    this.setProperty('meshNode', nodePath);
+  }
+
   /*
 
            getMaterials()
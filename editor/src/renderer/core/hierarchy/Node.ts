@@ -20,6 +20,7 @@
 import { generateId } from '../../utils/IdGenerator'; /* UNIQUE ID GENERATION */
 import { componentSystem, ComponentSerialData } from '../components'; /* COMPONENT SYSTEM */
 import type { IComponent } from '../components/Component'; /* COMPONENT INTERFACE */
+import type { PrefabReference } from '../../../shared/types/SceneTypes'; /* PREFAB INSTANCES */
 
 /*
 	===============================================================
@@ -68,6 +69,7 @@ export interface NodeMetadata {
   version: number;
   tags: string[];
   description?: string;
+  prefab?: PrefabReference /* prefab the node is an instance of */;
 }
 
 /**
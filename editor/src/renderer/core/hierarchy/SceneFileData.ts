@@ -0,0 +1,171 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/**
+ * WORLDEDIT - Scene File Data
+ *
+ * Converts between the scene data of .scene.json files, which the main
+ * process reads and writes, and the serialized form of the scene open in
+ * the editor.
+ */
+
+import type { NodeData, SceneData } from '../../../shared/types/SceneTypes';
+import type { ComponentSerialData } from '../components';
+import { NodeType, NodeSerialData } from './Node';
+import type { SceneSerialData } from './Scene';
+
+/* editor node types of the node types scene files hold */
+const EDITOR_NODE_TYPES: Record<NodeData['type'], NodeType> = {
+  scene: NodeType.SCENE,
+  camera: NodeType.CAMERA,
+  light: NodeType.LIGHT,
+  entity_2d: NodeType.ENTITY_2D,
+  entity_3d: NodeType.ENTITY_3D,
+  group: NodeType.GROUP
+};
+
+/**
+ * sceneDataToSerialData()
+ *
+ * Returns the scene of a scene file in the form the editor loads.
+ */
+export function sceneDataToSerialData(data: SceneData): SceneSerialData {
+  const nodes: Record<string, NodeSerialData> = {};
+  const now = new Date();
+
+  const addNode = (node: NodeData, parentId: string | null): void => {
+    const components: Record<string, ComponentSerialData> = {};
+
+    for (const component of node.components) {
+      components[component.type] = {
+        id: component.id,
+        type: component.type,
+        enabled: component.enabled,
+        version: 1,
+        properties: { ...component.properties },
+        metadata: { created: now, modified: now }
+      };
+    }
+
+    nodes[node.id] = {
+      id: node.id,
+      name: node.name,
+      type: EDITOR_NODE_TYPES[node.type] ?? NodeType.ENTITY_3D,
+      parentId,
+      childIds: node.children.map((child) => child.id),
+      visible: node.enabled,
+      locked: false,
+      expanded: true,
+      transform: {
+        position: { ...node.transform.position },
+        rotation: { ...node.transform.rotation },
+        scale: { ...node.transform.scale }
+      },
+      components,
+      metadata: {
+        created: now,
+        modified: now,
+        version: 1,
+        tags: [...(node.tags ?? [])],
+        prefab: node.prefab ? { ...node.prefab } : undefined
+      }
+    };
+
+    node.children.forEach((child) => addNode(child, node.id));
+  };
+
+  addNode(data.rootNode, null);
+
+  return {
+    metadata: {
+      name: data.name,
+      version: data.metadata.version,
+      engineVersion: data.metadata.engineVersion ?? '0.1.0',
+      created: new Date(data.metadata.createdAt),
+      modified: new Date(data.metadata.modifiedAt),
+      author: data.metadata.author,
+      description: data.metadata.description
+    },
+    rootNodeId: data.rootNode.id,
+    nodes
+  };
+}
+
+/**
+ * serialDataToSceneData()
+ *
+ * Returns the scene open in the editor as the scene data of a scene
+ * file. Scene settings and assets the editor does not edit are kept
+ * from the file the scene was loaded from. Editor node types that scene
+ * files do not have are stored as 2D or 3D entities.
+ */
+export function serialDataToSceneData(data: SceneSerialData, file: SceneData | null): SceneData {
+  const toNodeData = (id: string): NodeData => {
+    const node = data.nodes[id];
+
+    return {
+      id: node.id,
+      name: node.name,
+      type: fileNodeType(node.type),
+      enabled: node.visible,
+      transform: {
+        position: { z: 0, ...node.transform.position },
+        rotation: { ...node.transform.rotation },
+        scale: { ...node.transform.scale }
+      },
+      components: Object.values(node.components as Record<string, ComponentSerialData>).map(
+        (component) => ({
+          id: component.id,
+          type: component.type,
+          enabled: component.enabled,
+          properties: { ...component.properties }
+        })
+      ),
+      children: node.childIds.filter((childId) => data.nodes[childId]).map(toNodeData),
+      tags: node.metadata.tags.length > 0 ? [...node.metadata.tags] : undefined,
+      prefab: node.metadata.prefab ? { ...node.metadata.prefab } : undefined
+    };
+  };
+
+  return {
+    ...file,
+    id: file?.id ?? data.rootNodeId,
+    name: data.metadata.name,
+    rootNode: toNodeData(data.rootNodeId),
+    metadata: {
+      ...file?.metadata,
+      version: data.metadata.version,
+      createdAt: data.metadata.created.toISOString(),
+      modifiedAt: data.metadata.modified.toISOString(),
+      author: data.metadata.author,
+      description: data.metadata.description,
+      engineVersion: data.metadata.engineVersion
+    }
+  };
+}
+
+/**
+ * fileNodeType()
+ *
+ * Returns the scene file node type of an editor node type.
+ */
+function fileNodeType(type: NodeType): NodeData['type'] {
+  switch (type) {
+    case NodeType.SCENE:
+      return 'scene';
+    case NodeType.CAMERA:
+      return 'camera';
+    case NodeType.LIGHT:
+      return 'light';
+    case NodeType.GROUP:
+      return 'group';
+    case NodeType.ENTITY_2D:
+    case NodeType.SPRITE:
+      return 'entity_2d';
+    default:
+      return 'entity_3d';
+  }
+}
@@ -24,6 +24,8 @@ import {
   SceneChangeListener
 } from './Scene'; /* SCENE MANAGEMENT */
 import { Node, NodeType } from './Node'; /* NODE HIERARCHY */
+import { sceneDataToSerialData, serialDataToSceneData } from './SceneFileData'; /* SCENE FILES */
+import type { SceneData } from '../../../shared/types/SceneTypes'; /* SCENE FILE DATA */
 
 /*
 	===============================================================
@@ -97,6 +99,8 @@ export class SceneManager {
   private static _instance: SceneManager | null = null;
 
   protected _currentScene: Scene | null = null;
+  protected _currentFilePath: string | null = null;
+  protected _sceneFileData: SceneData | null = null;
   protected _recentScenes: SceneFile[] = [];
   protected _listeners: Set<SceneManagerListener> = new Set();
   protected _sceneChangeListener: SceneChangeListener;
@@ -132,6 +136,9 @@ export class SceneManager {
   get currentScene(): Scene | null {
     return this._currentScene;
   }
+  get currentFilePath(): string | null {
+    return this._currentFilePath;
+  }
   get hasScene(): boolean {
     return this._currentScene !== null;
   }
@@ -258,6 +265,15 @@ export class SceneManager {
     }
   }
 
+  /**
+   * setCurrentFilePath()
+   *
+   * Sets the file the current scene was loaded from.
+   */
+  setCurrentFilePath(filePath: string | null): void {
+    this._currentFilePath = filePath;
+  }
+
   /**
    * loadSceneFromFile()
    *
@@ -270,6 +286,7 @@ export class SceneManager {
       const data = JSON.parse(content) as SceneSerialData;
 
       const scene = await this.loadScene(data);
+      this._currentFilePath = filePath;
 
       // Add to recent scenes
       this.addToRecentScenes({
@@ -294,6 +311,73 @@ export class SceneManager {
     }
   }
 
+  /**
+   * openSceneFile()
+   *
+   * Loads a .scene.json file through the main process, which
+   * expands the prefab instances it holds.
+   */
+  async openSceneFile(filePath: string): Promise<Scene> {
+    const result = (await window.worldedit.scene.load(filePath)) as { sceneData: SceneData };
+    const scene = await this.loadScene(sceneDataToSerialData(result.sceneData));
+
+    this._currentFilePath = filePath;
+    this._sceneFileData = result.sceneData;
+
+    return scene;
+  }
+
+  /**
+   * reloadSceneFile()
+   *
+   * Loads the scene file of the current scene again, after the
+   * main process rewrote it. Unsaved changes are dropped.
+   */
+  async reloadSceneFile(): Promise<Scene | null> {
+    return this._currentFilePath ? this.openSceneFile(this._currentFilePath) : null;
+  }
+
+  /**
+   * saveSceneFile()
+   *
+   * Writes the current scene to its .scene.json file through the
+   * main process, which stores prefab instances as overrides.
+   */
+  async saveSceneFile(): Promise<boolean> {
+    if (!this._currentScene || !this._currentFilePath) {
+      return false;
+    }
+
+    const filePath = this._currentFilePath;
+    const sceneData = serialDataToSceneData(this._currentScene.serialize(), this._sceneFileData);
+
+    try {
+      await window.worldedit.scene.save(filePath, sceneData);
+
+      this._sceneFileData = sceneData;
+      this._currentScene.clearDirty();
+
+      this.emitEvent({
+        type: SceneManagerEvent.SCENE_SAVED,
+        scene: this._currentScene,
+        filePath,
+        timestamp: new Date()
+      });
+
+      return true;
+    } catch (error) {
+      this.emitEvent({
+        type: SceneManagerEvent.SCENE_SAVED,
+        scene: this._currentScene,
+        filePath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date()
+      });
+
+      return false;
+    }
+  }
+
   /**
    * saveScene()
    *
@@ -346,6 +430,7 @@ export class SceneManager {
       await window.worldedit.fs.writeFile(filePath, json);
 
       this._currentScene.clearDirty();
+      this._currentFilePath = filePath;
 
       // Add to recent scenes
       this.addToRecentScenes({
@@ -396,6 +481,8 @@ export class SceneManager {
     // Dispose scene
     scene.dispose();
     this._currentScene = null;
+    this._currentFilePath = null;
+    this._sceneFileData = null;
 
     this.emitEvent({
       type: SceneManagerEvent.SCENE_CLOSED,
@@ -19,6 +19,9 @@ export type { Transform, NodeMetadata, NodeSerialData } from './Node';
 export { Scene, SceneChangeType } from './Scene';
 export type { SceneMetadata, SceneSerialData, SceneChangeEvent, SceneChangeListener } from './Scene';
 
+// Scene files
+export { sceneDataToSerialData, serialDataToSceneData } from './SceneFileData';
+
 // Scene manager
 export { SceneManager, SceneManagerEvent } from './SceneManager';
 export type {
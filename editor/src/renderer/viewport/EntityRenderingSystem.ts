@@ -22,6 +22,9 @@ import {
   CameraComponent,
   ColliderComponent
 } from '../core/components';
+import type { AssetReference } from '../core/components/Component';
+import { ModelLoader, getMeshAssetPath, getModelFormat } from './ModelLoader';
+import { MaterialLoader } from './MaterialLoader';
 
 type Entity = Node;
 
@@ -71,9 +74,16 @@ export class EntityRenderingSystem {
 
   /* MATERIAL CACHING */
   private materialCache: Map<string, THREE.Material>;
+  private ownMaterials: WeakMap<THREE.Mesh, THREE.Material | THREE.Material[]>;
   private textureCache: Map<string, THREE.Texture>;
   private geometryCache: Map<string, THREE.BufferGeometry>;
 
+  /* MODELS WAITING TO LOAD */
+  private pendingModelEntities: Map<string, Entity>;
+
+  /* MATERIAL ASSET UPDATES */
+  private materialListener: (materialPath: string) => void;
+
   /* FRAME TRACKING */
   private currentFrame: number;
   private isEnabled: boolean;
@@ -106,8 +116,11 @@ export class EntityRenderingSystem {
     this.boundingBoxes = new Map();
     this.colliderHelpers = new Map();
     this.materialCache = new Map();
+    this.ownMaterials = new WeakMap();
     this.textureCache = new Map();
     this.geometryCache = new Map();
+    this.pendingModelEntities = new Map();
+    this.materialListener = this.handleMaterialLoaded.bind(this);
 
     /* INITIALIZE STATE */
     this.currentFrame = 0;
@@ -129,6 +142,7 @@ export class EntityRenderingSystem {
     };
 
     this.initializePrimitiveGeometries();
+    MaterialLoader.getInstance().addListener(this.materialListener);
   }
 
   /**
@@ -202,10 +216,12 @@ export class EntityRenderingSystem {
     const renderable = this.renderableEntities.get(entityId);
 
     if (!renderable) {
+      this.pendingModelEntities.delete(entityId);
       return;
     }
 
     /* REMOVE FROM SCENE */
+    this.pendingModelEntities.delete(entityId);
     this.removeVisualFromScene(renderable.visualObject);
 
     /* CLEAN UP HELPERS */
@@ -279,7 +295,7 @@ export class EntityRenderingSystem {
     /* HANDLE MESH RENDERER COMPONENT */
     const meshRenderer = entity.getComponent('MeshRenderer') as MeshRendererComponent;
     if (meshRenderer) {
-      const mesh = this.createMeshFromRenderer(meshRenderer);
+      const mesh = this.createMeshFromRenderer(entity, meshRenderer);
       if (mesh) {
         group.add(mesh);
       }
@@ -340,17 +356,25 @@ export class EntityRenderingSystem {
    *
    * Create Three.js mesh from MeshRenderer component.
    */
-  private createMeshFromRenderer(meshRenderer: MeshRendererComponent): THREE.Mesh | null {
+  private createMeshFromRenderer(
+    entity: Entity,
+    meshRenderer: MeshRendererComponent
+  ): THREE.Object3D | null {
     const meshProp = meshRenderer.properties.get('mesh');
-    const meshName = (meshProp?.value as string) || 'cube';
+    const meshName = getMeshAssetPath(meshProp?.value) || 'cube';
+
+    if (getModelFormat(meshName)) {
+      return this.createModelFromRenderer(entity, meshRenderer, meshName);
+    }
+
     const geometry = this.getGeometryForMesh(meshName);
-    const material = this.getMaterialForRenderer(meshRenderer);
 
-    if (!geometry || !material) {
+    if (!geometry) {
       return null;
     }
 
-    const mesh = new THREE.Mesh(geometry, material);
+    /* MATERIAL SLOTS ARE ASSIGNED BY updateVisual3DComponents() */
+    const mesh = new THREE.Mesh(geometry, this.getDefaultMaterial());
     const castShadowsProp = meshRenderer.properties.get('castShadows');
     const receiveShadowsProp = meshRenderer.properties.get('receiveShadows');
     mesh.castShadow = (castShadowsProp?.value as boolean) || false;
@@ -359,6 +383,57 @@ export class EntityRenderingSystem {
     return mesh;
   }
 
+  /**
+   * createModelFromRenderer()
+   *
+   * Create Three.js objects for the model asset of a MeshRenderer.
+   * Models load asynchronously; the entity is rebuilt once its model
+   * is in the cache.
+   */
+  private createModelFromRenderer(
+    entity: Entity,
+    meshRenderer: MeshRendererComponent,
+    modelPath: string
+  ): THREE.Object3D | null {
+    const modelLoader = ModelLoader.getInstance();
+    const nodeProp = meshRenderer.properties.get('meshNode');
+    const nodePath = (nodeProp?.value as string) || undefined;
+
+    const model = modelLoader.instantiate(modelPath, nodePath);
+    if (model) {
+      const castShadowsProp = meshRenderer.properties.get('castShadows');
+      const receiveShadowsProp = meshRenderer.properties.get('receiveShadows');
+      model.traverse((object) => {
+        object.castShadow = (castShadowsProp?.value as boolean) || false;
+        object.receiveShadow = (receiveShadowsProp?.value as boolean) || false;
+      });
+      model.userData.modelPath = modelPath;
+
+      return model;
+    }
+
+    if (!this.pendingModelEntities.has(entity.id)) {
+      this.pendingModelEntities.set(entity.id, entity);
+
+      modelLoader
+        .load(modelPath)
+        .then(() => {
+          /* SKIP ENTITIES REMOVED WHILE LOADING */
+          if (this.pendingModelEntities.get(entity.id) === entity) {
+            this.pendingModelEntities.delete(entity.id);
+            this.removeEntity(entity.id);
+            this.addEntity(entity);
+          }
+        })
+        .catch((error) => {
+          this.pendingModelEntities.delete(entity.id);
+          console.warn(`Failed to load model: ${modelPath}`, error);
+        });
+    }
+
+    return null;
+  }
+
   /**
    * createSpriteFromComponent()
    *
@@ -530,7 +605,11 @@ export class EntityRenderingSystem {
       };
 
       visualObject.position.set(pos.x, pos.y, pos.z);
-      visualObject.rotation.set(rot.x, rot.y, rot.z);
+      visualObject.rotation.set(
+        THREE.MathUtils.degToRad(rot.x),
+        THREE.MathUtils.degToRad(rot.y),
+        THREE.MathUtils.degToRad(rot.z)
+      );
       visualObject.scale.set(scale.x, scale.y, scale.z);
     } else if (visualObject instanceof PIXI.DisplayObject) {
       const posProp = transform.properties.get('position');
@@ -567,14 +646,12 @@ export class EntityRenderingSystem {
     /* UPDATE MESH RENDERER */
     const meshRenderer = entity.getComponent('MeshRenderer') as MeshRendererComponent;
     if (meshRenderer) {
-      const mesh = visualObject.children.find((child) => child instanceof THREE.Mesh) as THREE.Mesh;
-      if (mesh) {
-        mesh.visible = meshRenderer.enabled;
-        /* UPDATE MATERIAL PROPERTIES */
-        const material = this.getMaterialForRenderer(meshRenderer);
-        if (material) {
-          mesh.material = material;
-        }
+      const model = visualObject.children.find((child) => child.userData.modelPath);
+      const mesh = visualObject.children.find((child) => child instanceof THREE.Mesh);
+      const target = model || mesh;
+      if (target) {
+        target.visible = meshRenderer.enabled;
+        this.applyRendererMaterials(meshRenderer, target);
       }
     }
 
@@ -793,8 +870,8 @@ export class EntityRenderingSystem {
         break;
 
       default:
-        /* TRY TO LOAD CUSTOM GEOMETRY */
-        geometry = this.loadCustomGeometry(meshName);
+        /* MODEL ASSETS ARE LOADED BY createModelFromRenderer() */
+        console.warn(`Unknown primitive mesh: ${meshName}`);
         break;
     }
 
@@ -806,94 +883,97 @@ export class EntityRenderingSystem {
   }
 
   /**
-   * getMaterialForRenderer()
+   * getDefaultMaterial()
    *
-   * Get or create material for mesh renderer.
+   * Get material for meshes without a material asset.
    */
-  private getMaterialForRenderer(meshRenderer: MeshRendererComponent): THREE.Material | null {
-    const materialKey = this.generateMaterialKey(meshRenderer);
-
-    /* CHECK CACHE FIRST */
-    if (this.materialCache.has(materialKey)) {
-      return this.materialCache.get(materialKey)!;
-    }
-
-    /* CREATE MATERIAL */
-    const props = meshRenderer.properties;
-    const colorProp = props.get('color');
-    const alphaProp = props.get('alpha');
-    const metallicProp = props.get('metallic');
-    const roughnessProp = props.get('roughness');
-    const color = (colorProp?.value as number) || 0xffffff;
-    const alpha = (alphaProp?.value as number) || 1;
-    const metallic = (metallicProp?.value as number) || 0;
-    const roughness = (roughnessProp?.value as number) || 0.5;
-    const material = new THREE.MeshStandardMaterial({
-      color: color,
-      transparent: alpha < 1.0,
-      opacity: alpha,
-      metalness: metallic,
-      roughness: roughness
-    });
-
-    /* ADD TEXTURE IF AVAILABLE */
-    const textureProp = props.get('texture');
-    const texturePath = textureProp?.value as string;
-    if (texturePath) {
-      const texture = this.getTextureForPath(texturePath);
-      if (texture) {
-        material.map = texture;
-      }
+  private getDefaultMaterial(): THREE.Material {
+    let material = this.materialCache.get('default');
+
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({
+        color: 0xffffff,
+        metalness: 0,
+        roughness: 0.5
+      });
+      this.materialCache.set('default', material);
     }
 
-    this.materialCache.set(materialKey, material);
     return material;
   }
 
   /**
-   * generateMaterialKey()
+   * applyRendererMaterials()
    *
-   * Generate cache key for material.
+   * Assign the material slots of a MeshRenderer to the meshes of its
+   * visual, one slot per mesh in traversal order. Meshes whose slot is
+   * empty or still loading keep their own material: the model's, or
+   * the default material for primitives.
    */
-  private generateMaterialKey(meshRenderer: MeshRendererComponent): string {
-    const props = meshRenderer.properties;
-    const colorProp = props.get('color');
-    const alphaProp = props.get('alpha');
-    const metallicProp = props.get('metallic');
-    const roughnessProp = props.get('roughness');
-    const textureProp = props.get('texture');
-    const color = (colorProp?.value as number) || 0xffffff;
-    const alpha = (alphaProp?.value as number) || 1;
-    const metallic = (metallicProp?.value as number) || 0;
-    const roughness = (roughnessProp?.value as number) || 0.5;
-    const texture = (textureProp?.value as string) || 'none';
-    return `${color}_${alpha}_${metallic}_${roughness}_${texture}`;
+  private applyRendererMaterials(
+    meshRenderer: MeshRendererComponent,
+    visual: THREE.Object3D
+  ): void {
+    const slots = meshRenderer.getMaterials();
+    let slotIndex = 0;
+
+    visual.traverse((object) => {
+      if (!(object instanceof THREE.Mesh)) {
+        return;
+      }
+
+      if (!this.ownMaterials.has(object)) {
+        this.ownMaterials.set(object, object.material);
+      }
+
+      const material = this.getMaterialForSlot(slots[slotIndex++] || null);
+      object.material = material || this.ownMaterials.get(object)!;
+    });
   }
 
   /**
-   * getTextureForPath()
+   * getMaterialForSlot()
    *
-   * Get or load texture from file path.
+   * Get the material of a material slot, starting to load it when
+   * it is not loaded yet. Entities are updated once it is loaded.
    */
-  private getTextureForPath(texturePath: string): THREE.Texture | null {
-    /* CHECK CACHE FIRST */
-    if (this.textureCache.has(texturePath)) {
-      return this.textureCache.get(texturePath)!;
+  private getMaterialForSlot(slot: AssetReference | null): THREE.Material | null {
+    const materialPath = slot?.path;
+    if (!materialPath) {
+      return null;
     }
 
-    /* LOAD TEXTURE */
-    try {
-      const loader = new THREE.TextureLoader();
-      const texture = loader.load(texturePath);
+    const materialLoader = MaterialLoader.getInstance();
+    const material = materialLoader.getMaterial(materialPath);
 
-      /* CACHE TEXTURE */
-      this.textureCache.set(texturePath, texture);
-
-      return texture;
-    } catch (error) {
-      console.warn(`Failed to load texture: ${texturePath}`, error);
-      return null;
+    if (!material && !materialLoader.hasFailed(materialPath)) {
+      materialLoader.load(materialPath).catch((error) => {
+        console.warn(`Failed to load material: ${materialPath}`, error);
+      });
     }
+
+    return material;
+  }
+
+  /**
+   * handleMaterialLoaded()
+   *
+   * Mark entities using a material as needing visual update once it is
+   * loaded or rebuilt after an edit of its file.
+   */
+  private handleMaterialLoaded(materialPath: string): void {
+    const materialLoader = MaterialLoader.getInstance();
+
+    this.renderableEntities.forEach((renderable) => {
+      const meshRenderer = renderable.entity.getComponent('MeshRenderer') as MeshRendererComponent;
+      const usesMaterial = meshRenderer
+        ?.getMaterials()
+        .some((slot) => slot?.path && materialLoader.resolvePath(slot.path) === materialPath);
+
+      if (usesMaterial) {
+        renderable.isDirty = true;
+      }
+    });
   }
 
   /**
@@ -929,17 +1009,6 @@ export class EntityRenderingSystem {
     }
   }
 
-  /**
-   * loadCustomGeometry()
-   *
-   * Load custom geometry from file.
-   */
-  private loadCustomGeometry(meshPath: string): THREE.BufferGeometry | null {
-    /* TODO: Implement custom geometry loading */
-    console.warn(`Custom geometry loading not implemented: ${meshPath}`);
-    return null;
-  }
-
   /**
    * addVisualToScene()
    *
@@ -1123,6 +1192,8 @@ export class EntityRenderingSystem {
    * Clean up rendering system resources.
    */
   public dispose(): void {
+    MaterialLoader.getInstance().removeListener(this.materialListener);
+
     /* CLEAR ALL VISUALS */
     this.clearAllVisuals();
 
@@ -1142,6 +1213,7 @@ export class EntityRenderingSystem {
     });
 
     /* CLEAR ALL COLLECTIONS */
+    this.pendingModelEntities.clear();
     this.renderableEntities.clear();
     this.entityLookup.clear();
     this.entityToVisual.clear();
@@ -0,0 +1,631 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/**
+ * WORLDEDIT - Material Loader
+ *
+ * Builds Three.js materials from .material assets for MeshRenderer
+ * components. Each material is built once per asset and shared by
+ * every renderer that uses it; edits of the file rebuild it. Shader
+ * materials are compiled from the project shaders they name, which
+ * rebuild them as well.
+ */
+
+import * as THREE from 'three';
+import type {
+  MaterialColor,
+  MaterialData,
+  MaterialTexture,
+  MaterialTextureWrap,
+  MaterialUniform,
+  ShaderError,
+  ShaderUniformType
+} from '../../shared/types/MaterialTypes';
+import { resolveAssetPath } from './ModelLoader';
+import {
+  ENGINE_UNIFORMS,
+  ShaderStage,
+  mapShaderErrors,
+  parseUniforms,
+  prepareShaderSource
+} from './ShaderSource';
+
+/**
+ * Called with the resolved path of a material that was loaded or
+ * rebuilt.
+ */
+export type MaterialLoaderListener = (materialPath: string) => void;
+
+type ShaderUniformValue =
+  | number
+  | boolean
+  | THREE.Vector2
+  | THREE.Vector3
+  | THREE.Vector4
+  | THREE.Matrix3
+  | THREE.Matrix4
+  | THREE.Texture
+  | null;
+
+/**
+ * A shader file as the viewport compiles it.
+ */
+interface PreparedShader {
+  file: string;
+  source: string;
+}
+
+const TEXTURE_WRAPPING: Record<MaterialTextureWrap, THREE.Wrapping> = {
+  repeat: THREE.RepeatWrapping,
+  clamp: THREE.ClampToEdgeWrapping,
+  mirror: THREE.MirroredRepeatWrapping
+};
+
+/**
+ * MaterialLoader
+ *
+ * Loads and caches material assets. Singleton so every viewport shares
+ * the built materials.
+ */
+export class MaterialLoader {
+  private static _instance: MaterialLoader | null = null;
+
+  private materials: Map<string, THREE.Material>;
+  private pending: Map<string, Promise<THREE.Material>>;
+  private failed: Set<string>;
+  private listeners: Set<MaterialLoaderListener>;
+  private basePath: string | null;
+  private shaderSources: Map<string, Record<ShaderStage, PreparedShader>>;
+  private shaderDependents: Map<string, Set<string>>;
+  private shaderErrors: Map<string, ShaderError[]>;
+  private frameUniforms: {
+    uTime: THREE.IUniform<number>;
+    uResolution: THREE.IUniform<THREE.Vector2>;
+  };
+
+  private constructor() {
+    this.materials = new Map();
+    this.pending = new Map();
+    this.failed = new Set();
+    this.listeners = new Set();
+    this.basePath = null;
+    this.shaderSources = new Map();
+    this.shaderDependents = new Map();
+    this.shaderErrors = new Map();
+    this.frameUniforms = {
+      uTime: { value: 0 },
+      uResolution: { value: new THREE.Vector2() }
+    };
+  }
+
+  /**
+   * getInstance()
+   *
+   * Gets singleton instance.
+   */
+  static getInstance(): MaterialLoader {
+    if (!MaterialLoader._instance) {
+      MaterialLoader._instance = new MaterialLoader();
+    }
+    return MaterialLoader._instance;
+  }
+
+  /**
+   * setBasePath()
+   *
+   * Sets the project directory relative asset paths are resolved against.
+   */
+  public setBasePath(basePath: string | null): void {
+    this.basePath = basePath;
+  }
+
+  /**
+   * resolvePath()
+   *
+   * Resolves an asset path against the project directory.
+   */
+  public resolvePath(assetPath: string): string {
+    return resolveAssetPath(this.basePath, assetPath);
+  }
+
+  /**
+   * addListener()
+   *
+   * Adds a listener for loaded and rebuilt materials.
+   */
+  public addListener(listener: MaterialLoaderListener): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * removeListener()
+   *
+   * Removes a material listener.
+   */
+  public removeListener(listener: MaterialLoaderListener): void {
+    this.listeners.delete(listener);
+  }
+
+  /**
+   * getMaterial()
+   *
+   * Gets a material that has finished loading.
+   */
+  public getMaterial(assetPath: string): THREE.Material | null {
+    return this.materials.get(this.resolvePath(assetPath)) || null;
+  }
+
+  /**
+   * hasFailed()
+   *
+   * Checks if a material failed to load. It is tried again once its
+   * file changes.
+   */
+  public hasFailed(assetPath: string): boolean {
+    return this.failed.has(this.resolvePath(assetPath));
+  }
+
+  /**
+   * load()
+   *
+   * Loads a material asset, once per asset however often it is requested.
+   */
+  public load(assetPath: string): Promise<THREE.Material> {
+    const resolved = this.resolvePath(assetPath);
+    const loaded = this.materials.get(resolved);
+
+    if (loaded) {
+      return Promise.resolve(loaded);
+    }
+
+    let pending = this.pending.get(resolved);
+    if (!pending) {
+      pending = this.buildFromFile(resolved).finally(() => {
+        this.pending.delete(resolved);
+      });
+
+      this.pending.set(resolved, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * reload()
+   *
+   * Rebuilds a material after its file changed. Materials that were
+   * never requested are left alone.
+   */
+  public reload(assetPath: string): Promise<void> {
+    const resolved = this.resolvePath(assetPath);
+
+    if (!this.materials.has(resolved) && !this.failed.delete(resolved)) {
+      return Promise.resolve();
+    }
+
+    return this.buildFromFile(resolved)
+      .then(() => undefined)
+      .catch((error) => {
+        console.warn(`[MATERIAL_LOADER] Failed to reload ${resolved}:`, error);
+      });
+  }
+
+  /**
+   * reloadShader()
+   *
+   * Rebuilds the shader materials that use a shader file after it changed.
+   */
+  public reloadShader(shaderPath: string): Promise<void> {
+    const dependents = this.shaderDependents.get(this.resolvePath(shaderPath));
+    if (!dependents) {
+      return Promise.resolve();
+    }
+
+    return Promise.all(Array.from(dependents, (materialPath) => this.reload(materialPath))).then(
+      () => undefined
+    );
+  }
+
+  /**
+   * getShaderErrors()
+   *
+   * Gets the compile errors of the shaders of a shader material.
+   */
+  public getShaderErrors(assetPath: string): ShaderError[] {
+    return this.shaderErrors.get(this.resolvePath(assetPath)) || [];
+  }
+
+  /**
+   * updateShaderUniforms()
+   *
+   * Sets the uTime and uResolution uniforms every shader material shares.
+   * Called once per frame; time is in seconds and the resolution in
+   * pixels of the drawing buffer.
+   */
+  public updateShaderUniforms(time: number, width: number, height: number): void {
+    this.frameUniforms.uTime.value = time;
+    this.frameUniforms.uResolution.value.set(width, height);
+  }
+
+  /**
+   * handleShaderError()
+   *
+   * Reports a shader program that failed to compile or link. Set as the
+   * onShaderError hook of the renderer, so it is called for every
+   * program; programs of shader materials are found by their source and
+   * their errors are kept per material with lines of the shader files.
+   */
+  public handleShaderError(
+    gl: WebGLRenderingContext,
+    program: WebGLProgram,
+    vertexShader: WebGLShader,
+    fragmentShader: WebGLShader
+  ): void {
+    const shaders: Record<ShaderStage, WebGLShader> = {
+      vertex: vertexShader,
+      fragment: fragmentShader
+    };
+    const compiled: Record<ShaderStage, string> = {
+      vertex: gl.getShaderSource(vertexShader) || '',
+      fragment: gl.getShaderSource(fragmentShader) || ''
+    };
+    let handled = false;
+
+    this.shaderSources.forEach((sources, materialPath) => {
+      const stages = (['vertex', 'fragment'] as ShaderStage[]).filter((stage) =>
+        compiled[stage].endsWith(sources[stage].source)
+      );
+      if (stages.length < 2) {
+        return;
+      }
+
+      const errors: ShaderError[] = [];
+      for (const stage of stages) {
+        if (!gl.getShaderParameter(shaders[stage], gl.COMPILE_STATUS)) {
+          errors.push(
+            ...mapShaderErrors(
+              sources[stage].file,
+              gl.getShaderInfoLog(shaders[stage]) || '',
+              compiled[stage],
+              sources[stage].source
+            )
+          );
+        }
+      }
+
+      /* SHADERS THAT COMPILE BUT DO NOT LINK HAVE NO LINE */
+      if (errors.length === 0) {
+        errors.push({
+          file: materialPath,
+          line: null,
+          message: gl.getProgramInfoLog(program) || 'Shader program failed to link'
+        });
+      }
+
+      errors.forEach((error) => {
+        console.error(
+          `[MATERIAL_LOADER] ${error.file}${error.line !== null ? `:${error.line}` : ''}: ${error.message}`
+        );
+      });
+
+      handled = true;
+      this.shaderErrors.set(materialPath, errors);
+      this.notifyListeners(materialPath);
+    });
+
+    if (!handled) {
+      console.error(
+        '[MATERIAL_LOADER] Shader program failed:',
+        gl.getProgramInfoLog(program),
+        gl.getShaderInfoLog(vertexShader),
+        gl.getShaderInfoLog(fragmentShader)
+      );
+    }
+  }
+
+  /**
+   * dispose()
+   *
+   * Releases every cached material.
+   */
+  public dispose(): void {
+    this.materials.forEach((material) => this.disposeMaterial(material));
+    this.materials.clear();
+    this.failed.clear();
+    this.shaderSources.clear();
+    this.shaderDependents.clear();
+    this.shaderErrors.clear();
+  }
+
+  /**
+   * buildFromFile()
+   *
+   * Reads a material file and replaces the cached material with one
+   * built from it.
+   */
+  private async buildFromFile(resolvedPath: string): Promise<THREE.Material> {
+    let material: THREE.Material;
+
+    try {
+      const data = (await window.worldedit.material.read(resolvedPath)) as MaterialData;
+      if (data.type === 'shader') {
+        material = await this.buildShaderMaterial(resolvedPath, data);
+      } else {
+        this.forgetShaders(resolvedPath);
+        material = this.buildMaterial(data);
+      }
+    } catch (error) {
+      this.failed.add(resolvedPath);
+      throw error;
+    }
+
+    const previous = this.materials.get(resolvedPath);
+    this.materials.set(resolvedPath, material);
+    this.failed.delete(resolvedPath);
+
+    if (previous) {
+      this.disposeMaterial(previous);
+    }
+
+    this.notifyListeners(resolvedPath);
+    return material;
+  }
+
+  /**
+   * buildMaterial()
+   *
+   * Builds the Three.js material for material data. Unlit materials
+   * ignore lighting; the others are PBR. Opacity applies to
+   * transparent materials only.
+   */
+  private buildMaterial(data: MaterialData): THREE.Material {
+    const properties = data.properties;
+    const transparent = data.type === 'transparent' || properties.transparent;
+    const textures = data.textures;
+
+    const parameters: THREE.MeshBasicMaterialParameters = {
+      color: this.toColor(properties.diffuseColor),
+      transparent,
+      opacity: transparent ? properties.opacity : 1,
+      alphaTest: properties.alphaTest,
+      side: properties.doubleSided ? THREE.DoubleSide : THREE.FrontSide,
+      depthWrite: properties.depthWrite,
+      depthTest: properties.depthTest,
+      map: this.loadTexture(textures.diffuse, true)
+    };
+
+    let material: THREE.Material;
+
+    if (data.type === 'unlit' || properties.unlit) {
+      material = new THREE.MeshBasicMaterial(parameters);
+    } else {
+      const normalStrength = textures.normal?.strength ?? 1;
+
+      material = new THREE.MeshStandardMaterial({
+        ...parameters,
+        roughness: properties.roughness,
+        metalness: properties.metallic,
+        emissive: this.toColor(properties.emissionColor),
+        emissiveMap: this.loadTexture(textures.emission, true),
+        emissiveIntensity: textures.emission?.intensity ?? 1,
+        normalMap: this.loadTexture(textures.normal, false),
+        normalScale: new THREE.Vector2(normalStrength, normalStrength),
+        roughnessMap: this.loadTexture(textures.roughness, false),
+        metalnessMap: this.loadTexture(textures.metallic, false),
+        aoMap: this.loadTexture(textures.ao, false),
+        aoMapIntensity: textures.ao?.strength ?? 1
+      });
+    }
+
+    material.name = data.name;
+    return material;
+  }
+
+  /**
+   * buildShaderMaterial()
+   *
+   * Builds a Three.js ShaderMaterial from the vertex and fragment shader
+   * of a material. Uniforms declared by the shaders take their values
+   * from the material; those without one are zero, as in GL.
+   */
+  private async buildShaderMaterial(
+    materialPath: string,
+    data: MaterialData
+  ): Promise<THREE.ShaderMaterial> {
+    this.shaderDependents.forEach((dependents) => dependents.delete(materialPath));
+
+    const files: Partial<Record<ShaderStage, string>> = {};
+    for (const stage of ['vertex', 'fragment'] as ShaderStage[]) {
+      const shaderPath = data.shaders[stage];
+      if (!shaderPath) {
+        continue;
+      }
+
+      files[stage] = this.resolvePath(shaderPath);
+
+      /* TRACKED BEFORE READING, SO A MISSING SHADER IS TRIED AGAIN ONCE SAVED */
+      const dependents = this.shaderDependents.get(files[stage]!) || new Set<string>();
+      dependents.add(materialPath);
+      this.shaderDependents.set(files[stage]!, dependents);
+    }
+
+    if (!files.vertex || !files.fragment) {
+      const error = new Error('Shader material needs a vertex and a fragment shader');
+      this.shaderSources.delete(materialPath);
+      this.shaderErrors.set(materialPath, [
+        { file: materialPath, line: null, message: error.message }
+      ]);
+      throw error;
+    }
+
+    const [vertexSource, fragmentSource] = await Promise.all([
+      window.worldedit.fs.readFile(files.vertex),
+      window.worldedit.fs.readFile(files.fragment)
+    ]);
+
+    const sources: Record<ShaderStage, PreparedShader> = {
+      vertex: { file: files.vertex, source: prepareShaderSource(vertexSource, 'vertex') },
+      fragment: { file: files.fragment, source: prepareShaderSource(fragmentSource, 'fragment') }
+    };
+
+    const uniforms: Record<string, THREE.IUniform> = { ...this.frameUniforms };
+    for (const declaration of [...parseUniforms(vertexSource), ...parseUniforms(fragmentSource)]) {
+      if (ENGINE_UNIFORMS.includes(declaration.name) || uniforms[declaration.name]) {
+        continue;
+      }
+
+      const stored: MaterialUniform | undefined = data.uniforms[declaration.name];
+      uniforms[declaration.name] = {
+        value: this.toUniformValue(
+          declaration.type,
+          stored && stored.type === declaration.type ? stored.value : null
+        )
+      };
+    }
+
+    const properties = data.properties;
+    const material = new THREE.ShaderMaterial({
+      glslVersion: THREE.GLSL3,
+      vertexShader: sources.vertex.source,
+      fragmentShader: sources.fragment.source,
+      uniforms,
+      transparent: properties.transparent,
+      side: properties.doubleSided ? THREE.DoubleSide : THREE.FrontSide,
+      depthWrite: properties.depthWrite,
+      depthTest: properties.depthTest
+    });
+
+    /* ERRORS STAY UNTIL THE SHADERS CHANGE; AN UNCHANGED PROGRAM IS NOT COMPILED AGAIN */
+    const previous = this.shaderSources.get(materialPath);
+    if (
+      !previous ||
+      previous.vertex.source !== sources.vertex.source ||
+      previous.fragment.source !== sources.fragment.source
+    ) {
+      this.shaderErrors.delete(materialPath);
+    }
+
+    this.shaderSources.set(materialPath, sources);
+    return material;
+  }
+
+  /**
+   * forgetShaders()
+   *
+   * Drops the shaders of a material that is no longer a shader material.
+   */
+  private forgetShaders(materialPath: string): void {
+    this.shaderDependents.forEach((dependents) => dependents.delete(materialPath));
+    this.shaderSources.delete(materialPath);
+    this.shaderErrors.delete(materialPath);
+  }
+
+  /**
+   * toUniformValue()
+   *
+   * Converts the stored value of a uniform to its Three.js value.
+   * Matrices are stored column-major and textures as asset paths.
+   */
+  private toUniformValue(
+    type: ShaderUniformType,
+    value: MaterialUniform['value']
+  ): ShaderUniformValue {
+    const numbers = (size: number): number[] =>
+      Array.from({ length: size }, (_, index) =>
+        Array.isArray(value) && typeof value[index] === 'number' ? value[index] : 0
+      );
+
+    switch (type) {
+      case 'float':
+      case 'int':
+        return typeof value === 'number' ? value : 0;
+      case 'bool':
+        return value === true;
+      case 'vec2':
+        return new THREE.Vector2().fromArray(numbers(2));
+      case 'vec3':
+        return new THREE.Vector3().fromArray(numbers(3));
+      case 'vec4':
+        return new THREE.Vector4().fromArray(numbers(4));
+      case 'mat3':
+        return new THREE.Matrix3().fromArray(numbers(9));
+      case 'mat4':
+        return new THREE.Matrix4().fromArray(numbers(16));
+      case 'sampler2D':
+        return typeof value === 'string' && value
+          ? this.loadTexture({ path: value, enabled: true }, false)
+          : null;
+    }
+  }
+
+  /**
+   * loadTexture()
+   *
+   * Loads the texture of an enabled texture slot with its tiling.
+   * Color textures are sRGB; data textures such as normal maps are
+   * linear.
+   */
+  private loadTexture(slot: MaterialTexture | undefined, isColor: boolean): THREE.Texture | null {
+    if (!slot || !slot.enabled || !slot.path) {
+      return null;
+    }
+
+    const resolved = this.resolvePath(slot.path);
+    const texture = new THREE.TextureLoader().load(
+      `file://${resolved}`,
+      undefined,
+      undefined,
+      () => {
+        console.warn(`[MATERIAL_LOADER] Failed to load texture: ${resolved}`);
+      }
+    );
+
+    texture.colorSpace = isColor ? THREE.SRGBColorSpace : THREE.NoColorSpace;
+    texture.wrapS = TEXTURE_WRAPPING[slot.wrapS || 'repeat'] ?? THREE.RepeatWrapping;
+    texture.wrapT = TEXTURE_WRAPPING[slot.wrapT || 'repeat'] ?? THREE.RepeatWrapping;
+    texture.repeat.fromArray(slot.scale || [1, 1]);
+    texture.offset.fromArray(slot.offset || [0, 0]);
+    texture.rotation = THREE.MathUtils.degToRad(slot.rotation || 0);
+
+    return texture;
+  }
+
+  /**
+   * toColor()
+   *
+   * Converts a material color, which like color pickers is sRGB.
+   */
+  private toColor(color: MaterialColor): THREE.Color {
+    return new THREE.Color().setRGB(color[0], color[1], color[2], THREE.SRGBColorSpace);
+  }
+
+  private notifyListeners(materialPath: string): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(materialPath);
+      } catch (error) {
+        console.error('[MATERIAL_LOADER] Listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * disposeMaterial()
+   *
+   * Releases a material and the textures built for it, including
+   * those of shader uniforms.
+   */
+  private disposeMaterial(material: THREE.Material): void {
+    const uniforms =
+      material instanceof THREE.ShaderMaterial ? Object.values(material.uniforms) : [];
+
+    [...Object.values(material), ...uniforms.map((uniform) => uniform.value)]
+      .filter((value): value is THREE.Texture => value instanceof THREE.Texture)
+      .forEach((texture) => texture.dispose());
+
+    material.dispose();
+  }
+}
@@ -0,0 +1,104 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/**
+ * WORLDEDIT - Model Import
+ *
+ * Adds model assets to a scene, either as one node that renders the whole
+ * model or expanded into a child node for every node of the model.
+ */
+
+import { Scene } from '../core/hierarchy/Scene';
+import { Node, NodeType } from '../core/hierarchy/Node';
+import { componentSystem } from '../core/components';
+import type { AssetReference } from '../core/components/Component';
+import { ModelLoader, ModelNode } from './ModelLoader';
+
+export interface ModelImportOptions {
+  expandHierarchy?: boolean;
+  parent?: Node | null;
+}
+
+/**
+ * importModel()
+ *
+ * Creates the scene nodes for a model asset and returns the topmost one.
+ * Expanded nodes take the transforms of their model nodes and render
+ * only their own meshes, so each can be moved, hidden or given
+ * components separately.
+ */
+export async function importModel(
+  scene: Scene,
+  name: string,
+  mesh: AssetReference,
+  options: ModelImportOptions = {}
+): Promise<Node> {
+  const parent = options.parent || null;
+
+  if (!options.expandHierarchy) {
+    const node = scene.createNode(name, NodeType.MESH, parent);
+    setNodeMesh(node, mesh, '');
+    return node;
+  }
+
+  const model = await ModelLoader.getInstance().load(mesh.path);
+  const root = scene.createNode(name, NodeType.GROUP, parent);
+
+  for (const modelNode of model.nodes) {
+    addModelNode(scene, root, mesh, modelNode);
+  }
+
+  return root;
+}
+
+/**
+ * addModelNode()
+ *
+ * Creates the scene node for a model node and its children.
+ */
+function addModelNode(
+  scene: Scene,
+  parent: Node,
+  mesh: AssetReference,
+  modelNode: ModelNode
+): void {
+  const node = scene.createNode(
+    modelNode.name,
+    modelNode.hasMesh ? NodeType.MESH : NodeType.GROUP,
+    parent
+  );
+
+  const transform = componentSystem.getComponent(node.id, 'Transform');
+  if (transform) {
+    transform.setProperty('position', { ...modelNode.position });
+    transform.setProperty('rotation', { ...modelNode.rotation });
+    transform.setProperty('scale', { ...modelNode.scale });
+  }
+
+  if (modelNode.hasMesh) {
+    setNodeMesh(node, mesh, modelNode.path);
+  }
+
+  for (const child of modelNode.children) {
+    addModelNode(scene, node, mesh, child);
+  }
+}
+
+/**
+ * setNodeMesh()
+ *
+ * Binds a model, or one node of it, to the MeshRenderer of a node.
+ */
+function setNodeMesh(node: Node, mesh: AssetReference, nodePath: string): void {
+  const meshRenderer =
+    componentSystem.getComponent(node.id, 'MeshRenderer') ||
+    componentSystem.addComponent(node.id, 'MeshRenderer').component;
+
+  if (meshRenderer) {
+    meshRenderer.setProperty('mesh', { ...mesh });
+    meshRenderer.setProperty('meshNode', nodePath);
+  }
+}
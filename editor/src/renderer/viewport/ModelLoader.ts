@@ -0,0 +1,475 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/**
+ * WORLDEDIT - Model Loader
+ *
+ * Loads glTF/GLB and OBJ model assets for MeshRenderer components.
+ * Each model is parsed once per asset, with its meshes, node hierarchy,
+ * materials and embedded textures; renderers get clones that share them.
+ */
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+
+export type ModelFormat = 'gltf' | 'glb' | 'obj';
+
+/**
+ * A node of a model. The path names the node within the model, such as
+ * `Body/Wheel`. The transform is relative to the model root, with the
+ * rotation in degrees like TransformComponent.
+ */
+export interface ModelNode {
+  name: string;
+  path: string;
+  position: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number };
+  scale: { x: number; y: number; z: number };
+  hasMesh: boolean;
+  children: ModelNode[];
+}
+
+export interface LoadedModel {
+  path: string;
+  format: ModelFormat;
+  root: THREE.Object3D;
+  nodes: ModelNode[];
+  meshCount: number;
+  materialCount: number;
+  textureCount: number;
+}
+
+const MODEL_FORMATS: Record<string, ModelFormat> = {
+  '.gltf': 'gltf',
+  '.glb': 'glb',
+  '.obj': 'obj'
+};
+
+/**
+ * getModelFormat()
+ *
+ * Gets the model format of an asset path, or null for other assets.
+ */
+export function getModelFormat(assetPath: string): ModelFormat | null {
+  const extension = /\.[^./\\]+$/.exec(assetPath)?.[0].toLowerCase();
+  return (extension && MODEL_FORMATS[extension]) || null;
+}
+
+/**
+ * getMeshAssetPath()
+ *
+ * Gets the asset path of a MeshRenderer mesh value, which is either an
+ * asset reference or the name of a primitive.
+ */
+export function getMeshAssetPath(mesh: unknown): string | null {
+  if (typeof mesh === 'string') {
+    return mesh || null;
+  }
+
+  if (mesh && typeof mesh === 'object' && typeof (mesh as { path?: unknown }).path === 'string') {
+    return (mesh as { path: string }).path || null;
+  }
+
+  return null;
+}
+
+/**
+ * resolveAssetPath()
+ *
+ * Resolves an asset path against a project directory. Absolute paths
+ * are kept; both come back with forward slashes.
+ */
+export function resolveAssetPath(basePath: string | null, assetPath: string): string {
+  const normalized = assetPath.replace(/\\/g, '/');
+
+  if (!basePath || normalized.startsWith('/') || /^[a-zA-Z]:\//.test(normalized)) {
+    return normalized;
+  }
+
+  return `${basePath.replace(/\\/g, '/').replace(/\/$/, '')}/${normalized}`;
+}
+
+/**
+ * ModelLoader
+ *
+ * Loads and caches model assets. Singleton so every viewport shares
+ * the parsed models.
+ */
+export class ModelLoader {
+  private static _instance: ModelLoader | null = null;
+
+  private models: Map<string, LoadedModel>;
+  private pending: Map<string, Promise<LoadedModel>>;
+  private basePath: string | null;
+
+  private constructor() {
+    this.models = new Map();
+    this.pending = new Map();
+    this.basePath = null;
+  }
+
+  /**
+   * getInstance()
+   *
+   * Gets singleton instance.
+   */
+  static getInstance(): ModelLoader {
+    if (!ModelLoader._instance) {
+      ModelLoader._instance = new ModelLoader();
+    }
+    return ModelLoader._instance;
+  }
+
+  /**
+   * setBasePath()
+   *
+   * Sets the project directory relative asset paths are resolved against.
+   */
+  public setBasePath(basePath: string | null): void {
+    this.basePath = basePath;
+  }
+
+  /**
+   * resolvePath()
+   *
+   * Resolves an asset path against the project directory.
+   */
+  public resolvePath(assetPath: string): string {
+    return resolveAssetPath(this.basePath, assetPath);
+  }
+
+  /**
+   * getModel()
+   *
+   * Gets a model that has finished loading.
+   */
+  public getModel(assetPath: string): LoadedModel | null {
+    return this.models.get(this.resolvePath(assetPath)) || null;
+  }
+
+  /**
+   * load()
+   *
+   * Loads a model asset, once per asset however often it is requested.
+   */
+  public load(assetPath: string): Promise<LoadedModel> {
+    const resolved = this.resolvePath(assetPath);
+    const loaded = this.models.get(resolved);
+
+    if (loaded) {
+      return Promise.resolve(loaded);
+    }
+
+    let pending = this.pending.get(resolved);
+    if (!pending) {
+      pending = this.parseModel(resolved)
+        .then((model) => {
+          this.models.set(resolved, model);
+          return model;
+        })
+        .finally(() => {
+          this.pending.delete(resolved);
+        });
+
+      this.pending.set(resolved, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * instantiate()
+   *
+   * Creates an object for a loaded model that shares its geometry,
+   * materials and textures. With a node path only that node's own
+   * meshes are included, at the model origin.
+   */
+  public instantiate(assetPath: string, nodePath?: string): THREE.Object3D | null {
+    const model = this.getModel(assetPath);
+    if (!model) {
+      return null;
+    }
+
+    if (!nodePath) {
+      return SkeletonUtils.clone(model.root);
+    }
+
+    const source = this.findNode(model.root, nodePath);
+    if (!source) {
+      console.warn(`[MODEL_LOADER] Node not found in ${model.path}: ${nodePath}`);
+      return null;
+    }
+
+    const instance = source.clone(false);
+    instance.position.set(0, 0, 0);
+    instance.quaternion.identity();
+    instance.scale.set(1, 1, 1);
+
+    /* glTF nodes with several primitives hold them as child meshes */
+    for (const child of source.children) {
+      if (!child.userData.modelNode) {
+        instance.add(child.clone());
+      }
+    }
+
+    return instance;
+  }
+
+  /**
+   * unload()
+   *
+   * Removes a model from the cache and releases its GPU resources.
+   */
+  public unload(assetPath: string): void {
+    const resolved = this.resolvePath(assetPath);
+    const model = this.models.get(resolved);
+
+    if (model) {
+      this.disposeObject(model.root);
+      this.models.delete(resolved);
+    }
+  }
+
+  /**
+   * dispose()
+   *
+   * Releases every cached model.
+   */
+  public dispose(): void {
+    this.models.forEach((model) => this.disposeObject(model.root));
+    this.models.clear();
+  }
+
+  /**
+   * parseModel()
+   *
+   * Parses a model file by its format.
+   */
+  private async parseModel(resolvedPath: string): Promise<LoadedModel> {
+    const format = getModelFormat(resolvedPath);
+    const url = `file://${resolvedPath}`;
+    let root: THREE.Object3D;
+
+    switch (format) {
+      case 'gltf':
+      case 'glb':
+        root = await this.parseGLTF(url);
+        break;
+
+      case 'obj':
+        root = await this.parseOBJ(url);
+        break;
+
+      default:
+        throw new Error(`Unsupported model format: ${resolvedPath}`);
+    }
+
+    root.updateMatrixWorld(true);
+
+    const materials = new Set<THREE.Material>();
+    const textures = new Set<THREE.Texture>();
+    let meshCount = 0;
+
+    root.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        meshCount++;
+
+        for (const material of this.getMaterials(object)) {
+          materials.add(material);
+          this.getTextures(material).forEach((texture) => textures.add(texture));
+        }
+      }
+    });
+
+    console.log(
+      `[MODEL_LOADER] Loaded ${resolvedPath}: ${meshCount} meshes, ` +
+        `${materials.size} materials, ${textures.size} textures`
+    );
+
+    return {
+      path: resolvedPath,
+      format,
+      root,
+      nodes: this.describeChildren(root, root, ''),
+      meshCount,
+      materialCount: materials.size,
+      textureCount: textures.size
+    };
+  }
+
+  /**
+   * parseGLTF()
+   *
+   * Parses glTF and GLB files, including their external and embedded
+   * buffers and textures.
+   */
+  private async parseGLTF(url: string): Promise<THREE.Object3D> {
+    const gltf = await new GLTFLoader().loadAsync(url);
+
+    /* objects for glTF nodes, as opposed to the primitives of a mesh */
+    gltf.scene.traverse((object) => {
+      if (object !== gltf.scene && gltf.parser.associations.get(object)?.nodes !== undefined) {
+        object.userData.modelNode = true;
+      }
+    });
+
+    return gltf.scene;
+  }
+
+  /**
+   * parseOBJ()
+   *
+   * Parses OBJ files with the materials of the MTL libraries they use.
+   */
+  private async parseOBJ(url: string): Promise<THREE.Object3D> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to read model: ${url}`);
+    }
+
+    const source = await response.text();
+    const loader = new OBJLoader();
+    const library = /^\s*mtllib\s+(.+?)\s*$/m.exec(source)?.[1];
+
+    if (library) {
+      try {
+        const mtlLoader = new MTLLoader();
+        mtlLoader.setPath(url.slice(0, url.lastIndexOf('/') + 1));
+
+        const materials = await mtlLoader.loadAsync(library);
+        materials.preload();
+        loader.setMaterials(materials);
+      } catch (error) {
+        console.warn(`[MODEL_LOADER] Failed to load material library ${library}:`, error);
+      }
+    }
+
+    const root = loader.parse(source);
+    root.children.forEach((child) => {
+      child.userData.modelNode = true;
+    });
+
+    return root;
+  }
+
+  /**
+   * describeChildren()
+   *
+   * Describes the node hierarchy below an object.
+   */
+  private describeChildren(
+    root: THREE.Object3D,
+    parent: THREE.Object3D,
+    parentPath: string
+  ): ModelNode[] {
+    const nodes: ModelNode[] = [];
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    const rotation = new THREE.Euler();
+    const toRoot = new THREE.Matrix4().copy(root.matrixWorld).invert();
+
+    this.getNodeChildren(parent).forEach(([key, object]) => {
+      const path = parentPath ? `${parentPath}/${key}` : key;
+
+      new THREE.Matrix4()
+        .multiplyMatrices(toRoot, object.matrixWorld)
+        .decompose(position, quaternion, scale);
+      rotation.setFromQuaternion(quaternion);
+
+      nodes.push({
+        name: object.name || key,
+        path,
+        position: { x: position.x, y: position.y, z: position.z },
+        rotation: {
+          x: THREE.MathUtils.radToDeg(rotation.x),
+          y: THREE.MathUtils.radToDeg(rotation.y),
+          z: THREE.MathUtils.radToDeg(rotation.z)
+        },
+        scale: { x: scale.x, y: scale.y, z: scale.z },
+        hasMesh:
+          object instanceof THREE.Mesh ||
+          object.children.some((child) => !child.userData.modelNode && child instanceof THREE.Mesh),
+        children: this.describeChildren(root, object, path)
+      });
+    });
+
+    return nodes;
+  }
+
+  /**
+   * getNodeChildren()
+   *
+   * Gets the node children of an object with the keys that name them
+   * in node paths. Unnamed nodes are named by their index and repeated
+   * names get the index appended.
+   */
+  private getNodeChildren(parent: THREE.Object3D): Array<[string, THREE.Object3D]> {
+    const used = new Set<string>();
+
+    return parent.children
+      .filter((child) => child.userData.modelNode)
+      .map((child, index) => {
+        let key = (child.name || `node${index}`).replace(/\//g, '_');
+        if (used.has(key)) {
+          key = `${key}~${index}`;
+        }
+
+        used.add(key);
+        return [key, child] as [string, THREE.Object3D];
+      });
+  }
+
+  /**
+   * findNode()
+   *
+   * Finds a node of a model by its path.
+   */
+  private findNode(root: THREE.Object3D, nodePath: string): THREE.Object3D | null {
+    let current = root;
+
+    for (const key of nodePath.split('/')) {
+      const match = this.getNodeChildren(current).find(([childKey]) => childKey === key);
+      if (!match) {
+        return null;
+      }
+      current = match[1];
+    }
+
+    return current;
+  }
+
+  private getMaterials(mesh: THREE.Mesh): THREE.Material[] {
+    return Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  }
+
+  private getTextures(material: THREE.Material): THREE.Texture[] {
+    return Object.values(material).filter(
+      (value): value is THREE.Texture => value instanceof THREE.Texture
+    );
+  }
+
+  /**
+   * disposeObject()
+   *
+   * Releases the geometry, materials and textures of a model.
+   */
+  private disposeObject(root: THREE.Object3D): void {
+    root.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+
+        for (const material of this.getMaterials(object)) {
+          this.getTextures(material).forEach((texture) => texture.dispose());
+          material.dispose();
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,212 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/**
+ * WORLDEDIT - Shader Source
+ *
+ * Reads the uniforms of project shader files and prepares the files for
+ * Three.js. Project shaders are written against the engine's attribute
+ * and uniform names (aPosition, uModel, ...); they are renamed to the
+ * ones Three.js provides. Every rewrite keeps the lines of the file, so
+ * compile errors point at the line of the file that caused them.
+ */
+
+import type { ShaderError, ShaderUniformType } from '../../shared/types/MaterialTypes';
+
+export type ShaderStage = 'vertex' | 'fragment';
+
+export interface ShaderUniformDeclaration {
+  name: string;
+  type: ShaderUniformType;
+  line: number;
+}
+
+/**
+ * Uniforms the viewport sets itself. They are not material properties.
+ */
+export const ENGINE_UNIFORMS = [
+  'uModel',
+  'uView',
+  'uProjection',
+  'uNormalMatrix',
+  'uCameraPosition',
+  'uTime',
+  'uResolution'
+];
+
+const UNIFORM_TYPES: ShaderUniformType[] = [
+  'float',
+  'int',
+  'bool',
+  'vec2',
+  'vec3',
+  'vec4',
+  'mat3',
+  'mat4',
+  'sampler2D'
+];
+
+/* uNormalMatrix IS THE WORLD SPACE NORMAL MATRIX, WHICH THREE.JS DOES NOT PROVIDE */
+const WORLD_NORMAL_MATRIX = 'transpose(inverse(mat3(modelMatrix)))';
+
+const ENGINE_NAMES: Record<string, string> = {
+  aPosition: 'position',
+  aNormal: 'normal',
+  aTexCoord: 'uv',
+  aColor: 'color',
+  uModel: 'modelMatrix',
+  uView: 'viewMatrix',
+  uProjection: 'projectionMatrix',
+  uNormalMatrix: WORLD_NORMAL_MATRIX,
+  uCameraPosition: 'cameraPosition'
+};
+
+/* ENGINE NAMES THREE.JS ALREADY DECLARES IN EACH STAGE */
+const PROVIDED_NAMES: Record<ShaderStage, string[]> = {
+  vertex: [
+    'aPosition',
+    'aNormal',
+    'aTexCoord',
+    'uModel',
+    'uView',
+    'uProjection',
+    'uNormalMatrix',
+    'uCameraPosition'
+  ],
+  fragment: ['uView', 'uCameraPosition']
+};
+
+/* OUTPUT THREE.JS DECLARES FOR THE FRAGMENT COLOR OF GLSL 3 SHADERS */
+const FRAGMENT_OUTPUT = 'pc_fragColor';
+
+const PRECISION = '(?:(?:lowp|mediump|highp)\\s+)?';
+const DECLARATION = new RegExp(
+  `^\\s*(?:layout\\s*\\([^)]*\\)\\s*)?(?:uniform|in|attribute)\\s+${PRECISION}\\w+\\s+(\\w+)\\s*;\\s*$`
+);
+const OUTPUT_DECLARATION = new RegExp(
+  `^\\s*(?:layout\\s*\\([^)]*\\)\\s*)?out\\s+${PRECISION}vec4\\s+(\\w+)\\s*;\\s*$`
+);
+const ENGINE_NAME = new RegExp(`\\b(${Object.keys(ENGINE_NAMES).join('|')})\\b`, 'g');
+
+/**
+ * stripShaderComments()
+ *
+ * Removes the comments of GLSL source. Block comments are replaced by
+ * the line breaks they held.
+ */
+export function stripShaderComments(source: string): string {
+  return source
+    .replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ''))
+    .replace(/\/\/.*$/gm, '');
+}
+
+/**
+ * parseUniforms()
+ *
+ * Reads the uniform declarations of a shader. Arrays and types that
+ * cannot be edited as material properties are skipped.
+ */
+export function parseUniforms(source: string): ShaderUniformDeclaration[] {
+  const uniforms: ShaderUniformDeclaration[] = [];
+  const pattern = new RegExp(`\\buniform\\s+${PRECISION}(\\w+)\\s+([^;]+);`, 'g');
+
+  stripShaderComments(source)
+    .split('\n')
+    .forEach((text, index) => {
+      for (const match of text.matchAll(pattern)) {
+        const type = match[1] as ShaderUniformType;
+        if (!UNIFORM_TYPES.includes(type)) {
+          continue;
+        }
+
+        for (const declared of match[2].split(',')) {
+          const name = declared.trim();
+          if (/^\w+$/.test(name)) {
+            uniforms.push({ name, type, line: index + 1 });
+          }
+        }
+      }
+    });
+
+  return uniforms;
+}
+
+/**
+ * prepareShaderSource()
+ *
+ * Rewrites a project shader for a Three.js ShaderMaterial. The #version
+ * directive and declarations Three.js already makes are blanked, engine
+ * names are renamed and the fragment output becomes the one Three.js
+ * declares.
+ */
+export function prepareShaderSource(source: string, stage: ShaderStage): string {
+  const lines = stripShaderComments(source).split('\n');
+  const declared = new Set(
+    lines.map((text) => DECLARATION.exec(text)?.[1]).filter((name): name is string => !!name)
+  );
+  const prepared: string[] = [];
+  let output: string | null = null;
+
+  for (const text of lines) {
+    const name = DECLARATION.exec(text)?.[1];
+    const outputMatch: RegExpExecArray | null =
+      stage === 'fragment' && output === null ? OUTPUT_DECLARATION.exec(text) : null;
+
+    if (/^\s*#\s*version\b/.test(text) || (name && PROVIDED_NAMES[stage].includes(name))) {
+      prepared.push('');
+    } else if (name === 'uNormalMatrix') {
+      /* FRAGMENT SHADERS NEED THE MODEL MATRIX TO BUILD IT */
+      prepared.push(declared.has('uModel') ? '' : 'uniform mat4 modelMatrix;');
+    } else if (outputMatch) {
+      output = outputMatch[1];
+      prepared.push('');
+    } else {
+      prepared.push(text);
+    }
+  }
+
+  let result = prepared.join('\n').replace(ENGINE_NAME, (match) => ENGINE_NAMES[match]);
+  if (output) {
+    result = result.replace(new RegExp(`\\b${output}\\b`, 'g'), FRAGMENT_OUTPUT);
+  }
+
+  return result;
+}
+
+/**
+ * mapShaderErrors()
+ *
+ * Reads the errors of a shader info log. Lines of the log count from the
+ * start of the source WebGL compiled, which is the prepared source after
+ * the prefix Three.js adds; they are mapped back to lines of the file.
+ */
+export function mapShaderErrors(
+  file: string,
+  infoLog: string,
+  compiledSource: string,
+  preparedSource: string
+): ShaderError[] {
+  const prefixLines = compiledSource.endsWith(preparedSource)
+    ? compiledSource.slice(0, compiledSource.length - preparedSource.length).split('\n').length - 1
+    : null;
+  const errors: ShaderError[] = [];
+
+  for (const text of infoLog.split('\n')) {
+    const match = /^ERROR:\s*\d+:(\d+):\s*(.*)$/.exec(text.trim());
+    if (!match) {
+      continue;
+    }
+
+    const line = prefixLines === null ? 0 : Number(match[1]) - prefixLines;
+    errors.push({ file, line: line > 0 ? line : null, message: match[2] });
+  }
+
+  if (errors.length === 0 && infoLog.trim()) {
+    errors.push({ file, line: null, message: infoLog.trim() });
+  }
+
+  return errors;
+}
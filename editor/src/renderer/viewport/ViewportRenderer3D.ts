@@ -28,6 +28,7 @@ import {
   CameraControlsEvent
 } from './CameraControlsIntegration'; /* CAMERA CONTROLS */
 import { EntityRenderingSystem } from './EntityRenderingSystem'; /* ENTITY RENDERING */
+import { MaterialLoader } from './MaterialLoader'; /* MATERIAL ASSETS */
 import {
   ManipulatorManager,
   ManipulatorMode,
@@ -190,6 +191,11 @@ export class ViewportRenderer3D {
         this.renderer.shadowMap.enabled = false;
       }
 
+      // Report shader material compile errors with lines of their shader files
+      this.renderer.debug.onShaderError = (gl, program, vertexShader, fragmentShader) => {
+        MaterialLoader.getInstance().handleShaderError(gl, program, vertexShader, fragmentShader);
+      };
+
       // Set up WebGL context loss handling
       this.setupContextLossHandling();
 
@@ -414,6 +420,13 @@ export class ViewportRenderer3D {
     /* UPDATE INTEGRATED SYSTEMS */
     this.updateIntegratedSystems();
 
+    /* UPDATE TIME AND RESOLUTION OF SHADER MATERIALS */
+    MaterialLoader.getInstance().updateShaderUniforms(
+      time / 1000,
+      this.canvas.width,
+      this.canvas.height
+    );
+
     /* RENDER SCENE */
     this.renderer.render(this.scene, this.camera.getCamera3D());
 
@@ -32,5 +32,17 @@ export type { CameraControlsEvent, CameraControlsSettings } from './CameraContro
 export { EntityRenderingSystem } from './EntityRenderingSystem';
 export type { RenderableEntity, EntityRenderingSettings } from './EntityRenderingSystem';
 
+export { ModelLoader, getModelFormat, getMeshAssetPath, resolveAssetPath } from './ModelLoader';
+export type { ModelFormat, ModelNode, LoadedModel } from './ModelLoader';
+
+export { importModel } from './ModelImport';
+export type { ModelImportOptions } from './ModelImport';
+
+export { MaterialLoader } from './MaterialLoader';
+export type { MaterialLoaderListener } from './MaterialLoader';
+
+export { parseUniforms, prepareShaderSource, ENGINE_UNIFORMS } from './ShaderSource';
+export type { ShaderStage, ShaderUniformDeclaration } from './ShaderSource';
+
 export { TransformGizmoIntegration } from './TransformGizmoIntegration';
 export { RenderComponentIntegration } from './RenderComponentIntegration';
@@ -35,6 +35,7 @@ export interface ProjectSettings {
   rendering: RenderingSettings;
   physics: PhysicsSettings;
   audio: AudioSettings;
+  build?: BuildSettings;
 }
 
 /**
@@ -318,6 +319,41 @@ export class ValidationError extends EditorError {
   }
 }
 
+/**
+ * Size budget in bytes per artifact type
+ */
+export interface SizeBudget {
+  javascript?: number;
+  textures?: number;
+  audio?: number;
+  total?: number;
+}
+
+/**
+ * Size budgets for every platform, overridden per platform
+ */
+export interface BuildBudgets extends SizeBudget {
+  platforms?: { [platform: string]: SizeBudget };
+}
+
+/**
+ * Size budget exceeded by a build
+ */
+export interface BudgetViolation {
+  category: 'javascript' | 'textures' | 'audio' | 'total';
+  budget: number;
+  size: number;
+  offenders: { path: string; size: number }[];
+  message: string;
+}
+
+/**
+ * Project build settings
+ */
+export interface BuildSettings {
+  budgets?: BuildBudgets;
+}
+
 /**
  * Build configuration
  */
@@ -337,6 +373,7 @@ export interface BuildConfiguration {
   compressionLevel: number;
   bundleAnalysis: boolean;
   targetPlatforms: string[];
+  budgets?: BuildBudgets;
 }
 
 /**
@@ -364,6 +401,7 @@ export interface BuildResult {
   installerPath?: string;
   webPath?: string;
   desktopPath?: string;
+  budgetViolations?: BudgetViolation[];
 }
 
 /**
@@ -0,0 +1,115 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/**
+ * WORLDEDIT - Material Data Types
+ *
+ * Type definitions for .material asset files. Only the settings the
+ * viewport renders are typed; other sections of a file, such as
+ * renderState, are kept as they are when a material is saved.
+ */
+
+/**
+ * standard is lit PBR, unlit ignores lighting and transparent is lit
+ * PBR blended by its opacity. shader renders with the GLSL shaders of
+ * the material.
+ */
+export type MaterialType = 'standard' | 'unlit' | 'transparent' | 'shader';
+
+export type MaterialColor = [number, number, number];
+
+export type MaterialTextureWrap = 'repeat' | 'clamp' | 'mirror';
+
+export type MaterialTextureSlot =
+  | 'diffuse'
+  | 'normal'
+  | 'emission'
+  | 'roughness'
+  | 'metallic'
+  | 'ao';
+
+export interface MaterialTexture {
+  path: string | null;
+  enabled: boolean;
+  scale?: [number, number];
+  offset?: [number, number];
+  rotation?: number;
+  wrapS?: MaterialTextureWrap;
+  wrapT?: MaterialTextureWrap;
+  strength?: number;
+  intensity?: number;
+  [setting: string]: unknown;
+}
+
+/**
+ * Colors are RGB in the 0-1 range.
+ */
+export interface MaterialProperties {
+  diffuseColor: MaterialColor;
+  emissionColor: MaterialColor;
+  roughness: number;
+  metallic: number;
+  opacity: number;
+  alphaTest: number;
+  doubleSided: boolean;
+  transparent: boolean;
+  unlit: boolean;
+  depthWrite: boolean;
+  depthTest: boolean;
+  [property: string]: unknown;
+}
+
+/**
+ * Shader asset paths, relative to the project like other assets.
+ */
+export interface MaterialShaders {
+  vertex: string | null;
+  fragment: string | null;
+  [stage: string]: unknown;
+}
+
+export type ShaderUniformType =
+  | 'float'
+  | 'int'
+  | 'bool'
+  | 'vec2'
+  | 'vec3'
+  | 'vec4'
+  | 'mat3'
+  | 'mat4'
+  | 'sampler2D';
+
+/**
+ * The value of a uniform of a shader material. Vectors and matrices
+ * are number arrays and textures are asset paths.
+ */
+export interface MaterialUniform {
+  type: ShaderUniformType;
+  value: number | boolean | number[] | string | null;
+}
+
+export interface MaterialData {
+  version: string;
+  name: string;
+  type: MaterialType;
+  created?: string;
+  modified?: string;
+  properties: MaterialProperties;
+  textures: Partial<Record<MaterialTextureSlot, MaterialTexture>>;
+  shaders: MaterialShaders;
+  uniforms: Record<string, MaterialUniform>;
+  [section: string]: unknown;
+}
+
+/**
+ * A GLSL compile or link error. The line is in the shader file and
+ * is null for errors without one, such as link errors.
+ */
+export interface ShaderError {
+  file: string;
+  line: number | null;
+  message: string;
+}
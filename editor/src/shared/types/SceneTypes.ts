@@ -147,6 +147,44 @@ export interface NodeData {
   children: NodeData[];
   tags?: string[];
   layer?: number;
+  prefab?: PrefabReference;
+  overrides?: PrefabOverride[];
+}
+
+export interface PrefabReference {
+  path: string;
+}
+
+/**
+ * A property of a prefab instance that differs from its prefab.
+ *
+ * The target is the id of the node in the prefab. The property is a
+ * dotted path such as `transform.position.x` or
+ * `components.<id>.properties.color`; `children` and `components`
+ * hold the nodes and components added to the instance, and
+ * `removedChildren` and `removedComponents` the prefab ids of the
+ * nodes and components deleted from it.
+ */
+export interface PrefabOverride {
+  target: string;
+  property: string;
+  value: unknown;
+}
+
+export interface PrefabData {
+  version: string;
+  name: string;
+  type: 'prefab';
+  created?: string;
+  modified?: string;
+  rootNode: NodeData;
+  [section: string]: unknown;
+}
+
+export interface PrefabInstanceInfo {
+  nodeId: string;
+  prefabPath: string;
+  overrides: PrefabOverride[];
 }
 
 export interface SceneMetadata {
@@ -216,13 +254,73 @@ export interface SceneValidationResult {
   warnings: SceneValidationError[];
 }
 
+/**
+ * A property that differs between two scenes.
+ *
+ * The property is a dotted path like those of prefab overrides, such as
+ * `name`, `transform.position.x` or `components.<id>.properties.color`.
+ * `components.<id>` adds or removes a whole component and `parent` moves
+ * a node to `{ id, after }`. Scene properties are `name`,
+ * `settings.<key>` and `assets.<id>`. A removed property has no value.
+ */
+export interface ScenePropertyChange {
+  property: string;
+  value?: unknown;
+  removed?: boolean;
+}
+
+/**
+ * A node added under a node of the original scene, with the nodes
+ * added below it. After is the id of the sibling it follows, or null
+ * for the first child.
+ */
+export interface SceneNodeAddition {
+  parentId: string;
+  after: string | null;
+  node: NodeData;
+}
+
+/**
+ * The changes that turn one scene into another, by node id. Removed
+ * lists every removed node, including the descendants of removed nodes.
+ */
 export interface SceneDiff {
-  added: NodeData[];
+  added: SceneNodeAddition[];
   removed: string[];
   modified: {
     nodeId: string;
-    changes: Partial<NodeData>;
+    changes: ScenePropertyChange[];
   }[];
+  scene: ScenePropertyChange[];
+}
+
+/**
+ * A change both sides of a merge made differently. The merged scene
+ * keeps our side of it.
+ */
+export interface SceneMergeConflict {
+  message: string;
+  nodeId?: string;
+  componentId?: string;
+  property?: string;
+  ours?: unknown;
+  theirs?: unknown;
+}
+
+export interface SceneMergeResult {
+  scene: SceneData;
+  conflicts: SceneMergeConflict[];
+}
+
+/**
+ * The contents of a .scene.json file. A scene merged with conflicts
+ * lists them until it is saved again.
+ */
+export interface SceneFileData {
+  format: string;
+  formatVersion: string;
+  scene: SceneData;
+  mergeConflicts?: SceneMergeConflict[];
 }
 
 export interface SceneSnapshot {
@@ -0,0 +1,144 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         compiler-integration.test.ts
+           ---
+           tests for compiling through the worldc command line
+           compiler. a stand-in compiler writes its outputs
+           where the integration tells it to and prints the
+           JSON report worldc prints, and rejects the option
+           combinations worldc rejects.
+
+*/
+
+/// <reference types="jest" />
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  CompilationTarget,
+  CompilerMode,
+  WCCompilerIntegration
+} from '../src/main/engine/WCCompilerIntegration';
+
+const FAKE_COMPILER = `
+const fs = require('fs');
+const path = require('path');
+
+const args = process.argv.slice(2);
+if (args[0] === '--version') {
+  console.log('worldc 0.0.0');
+  process.exit(0);
+}
+
+const format = args.indexOf('--format');
+if (format >= 0 && args[format + 1] !== 'esm') {
+  console.error('worldc: output format is not supported');
+  process.exit(2);
+}
+if (args.includes('--minify') && args.includes('--source-maps')) {
+  console.error("worldc: '--minify' cannot be combined with '--source-maps'");
+  process.exit(2);
+}
+
+const input = args[1];
+if (args[0] === 'validate') {
+  console.log(JSON.stringify({
+    diagnostics: [{ severity: 'error', message: 'unknown name', filename: input, line: 1 }],
+    warnings: []
+  }));
+  process.exit(1);
+}
+
+const outputIndex = args.indexOf('--output');
+const directory = outputIndex >= 0 ? args[outputIndex + 1] : path.dirname(input);
+const output = path.join(directory, path.basename(input, '.wc') + '.ts');
+const code = 'export const compiled = true;\\n';
+
+fs.writeFileSync(output, code);
+console.log(JSON.stringify({
+  success: true,
+  files: [output],
+  code,
+  diagnostics: [],
+  warnings: [{ severity: 'warning', message: 'unused', filename: input, line: 1 }]
+}));
+`;
+
+describe('WCCompilerIntegration external compiler', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    /* a space in the path checks that the compiler path is quoted */
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wc integration-'));
+    fs.writeFileSync(path.join(directory, 'worldc.js'), FAKE_COMPILER);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('leaves no temp or output files behind', async () => {
+    const workingDirectory = path.join(directory, 'work');
+    const integration = new WCCompilerIntegration(
+      path.join(directory, 'worldc.js'),
+      workingDirectory,
+      { mode: CompilerMode.EXTERNAL }
+    );
+    await integration.initialize();
+
+    const result = await integration.compile({
+      sourceCode: 'int f() { return 1; }',
+      filename: 'player.wc',
+      target: CompilationTarget.TYPESCRIPT
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.outputCode).toBe('export const compiled = true;\n');
+    expect(result.outputFiles).toEqual(['player.ts']);
+    expect(result.warnings[0].filename).toBe('player.wc');
+    expect(fs.readdirSync(workingDirectory)).toEqual([]);
+  });
+
+  it('validates without leaving temp files behind', async () => {
+    const workingDirectory = path.join(directory, 'work');
+    const integration = new WCCompilerIntegration(
+      path.join(directory, 'worldc.js'),
+      workingDirectory,
+      { mode: CompilerMode.EXTERNAL }
+    );
+    await integration.initialize();
+
+    const result = await integration.validateSource('int f() { return x; }', 'player.wc');
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([
+      { severity: 'error', message: 'unknown name', filename: 'player.wc', line: 1 }
+    ]);
+    expect(fs.readdirSync(workingDirectory)).toEqual([]);
+  });
+
+  it('passes only options worldc accepts', async () => {
+    const integration = new WCCompilerIntegration(
+      path.join(directory, 'worldc.js'),
+      path.join(directory, 'work'),
+      { mode: CompilerMode.EXTERNAL }
+    );
+    await integration.initialize();
+
+    const result = await integration.compileToAssemblyScript('int f() { return 1; }', 'player.wc', {
+      sourceMaps: true
+    });
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.success).toBe(true);
+  });
+});
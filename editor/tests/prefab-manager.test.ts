@@ -0,0 +1,323 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         prefab-manager.test.ts
+           ---
+           tests for prefab instances: placing them in scenes,
+           storing them as their overrides and restoring them
+           from their prefab, and applying, reverting and
+           propagating prefab edits across the scenes of a
+           project.
+
+*/
+
+/// <reference types="jest" />
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { SceneSerializer } from '../src/main/engine/SceneSerializer';
+import { PrefabManager } from '../src/main/prefab-manager';
+import { SceneManager } from '../src/main/scene-manager';
+import type {
+  NodeData,
+  PrefabData,
+  SceneData,
+  SceneFileData
+} from '../src/shared/types/SceneTypes';
+
+jest.mock('../src/main/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+function node(id: string, children: NodeData[] = []): NodeData {
+  return {
+    id,
+    name: id,
+    type: 'entity_3d',
+    enabled: true,
+    transform: {
+      position: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      scale: { x: 1, y: 1, z: 1 }
+    },
+    components: [
+      {
+        id: `${id}-render`,
+        type: 'render',
+        enabled: true,
+        properties: { visible: true, castShadows: true, receiveShadows: false }
+      }
+    ],
+    children
+  };
+}
+
+function prefab(): PrefabData {
+  return {
+    version: '1.0.0',
+    name: 'Crate',
+    type: 'prefab',
+    rootNode: node('crate', [node('lid')])
+  };
+}
+
+function scene(root: NodeData = { ...node('root'), type: 'scene' }): SceneData {
+  return {
+    id: 'scene',
+    name: 'Scene',
+    rootNode: root,
+    metadata: {
+      version: '1.0.0',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      modifiedAt: '2025-01-01T00:00:00.000Z'
+    }
+  };
+}
+
+function find(root: NodeData, id: string): NodeData | undefined {
+  if (root.id === id) {
+    return root;
+  }
+
+  for (const child of root.children) {
+    const found = find(child, id);
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
+/* properties every editor component holds, whatever the prefab defines */
+function addEditorDefaults(root: NodeData): void {
+  for (const component of root.components) {
+    Object.assign(component.properties, { sortingOrder: 0, materials: [] });
+  }
+  root.children.forEach(addEditorDefaults);
+}
+
+describe('SceneSerializer prefab instances', () => {
+  const resolve = () => prefab();
+
+  function instance(): NodeData {
+    return SceneSerializer.instantiatePrefab('prefabs/crate.prefab', 'box', resolve)!;
+  }
+
+  it('instantiates a prefab under the ids of the instance', () => {
+    const box = instance();
+
+    expect(box.id).toBe('box');
+    expect(box.prefab).toEqual({ path: 'prefabs/crate.prefab' });
+    expect(box.components[0].id).toBe('box:crate-render');
+    expect(box.children[0].id).toBe('box:lid');
+    expect(box.children[0].components[0].id).toBe('box:lid-render');
+  });
+
+  it('finds no overrides on an untouched instance', () => {
+    const box = instance();
+    addEditorDefaults(box);
+
+    /* the editor writes properties in its own order */
+    const properties = box.components[0].properties as Record<string, unknown>;
+    box.components[0].properties = Object.fromEntries(Object.entries(properties).reverse());
+
+    expect(SceneSerializer.getPrefabOverrides(box, resolve)).toEqual([]);
+    expect(SceneSerializer.storePrefabInstances(box, resolve).overrides).toEqual([]);
+  });
+
+  it('stores changed properties and deleted nodes and components', () => {
+    const box = instance();
+    box.name = 'Box';
+    (box.components[0].properties as Record<string, unknown>).castShadows = false;
+    box.components = [];
+    box.children = [];
+
+    const stored = SceneSerializer.storePrefabInstances(box, resolve);
+
+    expect(stored.children).toEqual([]);
+    expect(stored.overrides).toEqual([
+      { target: 'crate', property: 'name', value: 'Box' },
+      { target: 'crate', property: 'removedComponents', value: ['crate-render'] },
+      { target: 'crate', property: 'removedChildren', value: ['lid'] }
+    ]);
+  });
+
+  it('restores an instance from its prefab and overrides', () => {
+    const box = instance();
+    box.transform.position.x = 3;
+    (box.children[0].components[0].properties as Record<string, unknown>).visible = false;
+    box.components = [];
+    box.children[0].children.push(node('handle'));
+
+    const stored = SceneSerializer.storePrefabInstances(box, resolve);
+    const restored = SceneSerializer.restorePrefabInstances(stored, resolve);
+
+    expect(restored.transform.position.x).toBe(3);
+    expect(restored.components).toEqual([]);
+    expect(restored.children[0].components[0].properties).toMatchObject({ visible: false });
+    expect(restored.children[0].children.map((child) => child.id)).toEqual(['handle']);
+  });
+
+  it('applies overrides, deletions included, to the prefab', () => {
+    const box = instance();
+    box.transform.position.x = 3;
+    box.children[0].name = 'Top';
+    box.children[0].components = [];
+
+    const root = SceneSerializer.applyOverridesToPrefab(
+      prefab(),
+      'prefabs/crate.prefab',
+      SceneSerializer.getPrefabOverrides(box, resolve),
+      resolve
+    );
+
+    expect(root.transform.position.x).toBe(0);
+    expect(root.children[0].name).toBe('Top');
+    expect(root.children[0].components).toEqual([]);
+  });
+});
+
+describe('PrefabManager', () => {
+  let projectPath: string;
+  let scenePath: string;
+  let otherScenePath: string;
+  const manager = PrefabManager.getInstance();
+  const sceneManager = SceneManager.getInstance();
+
+  function writePrefab(data: PrefabData): void {
+    fs.writeFileSync(path.join(projectPath, 'prefabs', 'crate.prefab'), JSON.stringify(data));
+  }
+
+  function readPrefab(): PrefabData {
+    return manager.readPrefab(projectPath, 'prefabs/crate.prefab');
+  }
+
+  function readStored(filePath: string): NodeData {
+    return (JSON.parse(fs.readFileSync(filePath, 'utf8')) as SceneFileData).scene.rootNode;
+  }
+
+  async function editInstance(
+    filePath: string,
+    id: string,
+    change: (instance: NodeData) => void
+  ): Promise<void> {
+    const resolve = manager.createResolver(projectPath);
+    const data = await sceneManager.loadScene(filePath, resolve);
+    change(find(data.rootNode, id)!);
+    await sceneManager.saveScene(filePath, data, resolve);
+  }
+
+  beforeEach(async () => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'prefab-project-'));
+    fs.writeFileSync(path.join(projectPath, 'project.worldenv'), '{}');
+    fs.mkdirSync(path.join(projectPath, 'prefabs'));
+    writePrefab(prefab());
+
+    scenePath = path.join(projectPath, 'scenes', 'main.scene.json');
+    otherScenePath = path.join(projectPath, 'scenes', 'other.scene.json');
+    await sceneManager.saveScene(scenePath, scene());
+    await sceneManager.saveScene(otherScenePath, scene());
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('places an instance that stores no overrides', async () => {
+    const instance = await manager.instantiate(scenePath, 'prefabs/crate.prefab');
+    const stored = find(readStored(scenePath), instance.id)!;
+
+    expect(instance.children.map((child) => child.name)).toEqual(['lid']);
+    expect(stored.prefab).toEqual({ path: 'prefabs/crate.prefab' });
+    expect(stored.overrides).toEqual([]);
+    expect(stored.children).toEqual([]);
+    expect(await manager.getInstanceInfo(scenePath, instance.id)).toEqual({
+      nodeId: instance.id,
+      prefabPath: 'prefabs/crate.prefab',
+      overrides: []
+    });
+  });
+
+  it('keeps an untouched instance free of overrides when the editor saves it', async () => {
+    const instance = await manager.instantiate(scenePath, 'prefabs/crate.prefab');
+
+    await editInstance(scenePath, instance.id, addEditorDefaults);
+
+    expect(find(readStored(scenePath), instance.id)!.overrides).toEqual([]);
+  });
+
+  it('applies the overrides of an instance to the prefab and its other instances', async () => {
+    const edited = await manager.instantiate(scenePath, 'prefabs/crate.prefab');
+    const other = await manager.instantiate(otherScenePath, 'prefabs/crate.prefab');
+
+    await editInstance(scenePath, edited.id, (instance) => {
+      instance.transform.position.x = 5;
+      instance.children = [];
+      (instance.components[0].properties as Record<string, unknown>).castShadows = false;
+    });
+
+    const updated = await manager.applyOverrides(scenePath, edited.id);
+    const resolve = manager.createResolver(projectPath);
+    const otherScene = await sceneManager.loadScene(otherScenePath, resolve);
+
+    expect(updated.sort()).toEqual([otherScenePath, scenePath].sort());
+    expect(readPrefab().rootNode.children).toEqual([]);
+    expect(readPrefab().rootNode.components[0].properties).toMatchObject({ castShadows: false });
+    expect(readPrefab().rootNode.transform.position.x).toBe(0);
+    expect(find(readStored(scenePath), edited.id)!.overrides).toEqual([
+      { target: 'crate', property: 'transform.position.x', value: 5 }
+    ]);
+    expect(find(otherScene.rootNode, other.id)!.children).toEqual([]);
+  });
+
+  it('reverts the overrides of an instance but keeps its placement', async () => {
+    const instance = await manager.instantiate(scenePath, 'prefabs/crate.prefab');
+
+    await editInstance(scenePath, instance.id, (edited) => {
+      edited.name = 'Box';
+      edited.transform.position.y = 2;
+      edited.children = [];
+    });
+    await manager.revertOverrides(scenePath, instance.id);
+
+    const reverted = find(
+      (await sceneManager.loadScene(scenePath, manager.createResolver(projectPath))).rootNode,
+      instance.id
+    )!;
+
+    expect(reverted.name).toBe('crate');
+    expect(reverted.transform.position.y).toBe(2);
+    expect(reverted.children.map((child) => child.name)).toEqual(['lid']);
+  });
+
+  it('propagates a prefab edited on disk to the scenes that use it', async () => {
+    const instance = await manager.instantiate(scenePath, 'prefabs/crate.prefab');
+    await editInstance(scenePath, instance.id, (edited) => {
+      edited.children = [];
+    });
+
+    const changed = prefab();
+    changed.rootNode.name = 'Barrel';
+    writePrefab(changed);
+
+    const updated = await manager.handlePrefabChange(
+      projectPath,
+      path.join(projectPath, 'prefabs', 'crate.prefab')
+    );
+    const stored = find(readStored(scenePath), instance.id)!;
+
+    expect(updated).toEqual([scenePath]);
+    expect(stored.name).toBe('Barrel');
+    expect(stored.overrides).toEqual([
+      { target: 'crate', property: 'removedChildren', value: ['lid'] }
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         scene-differ.test.ts
+           ---
+           tests for scene diffing, patching and three-way
+           merging, and for the merge driver that rewrites
+           scene files with the merged scene.
+
+*/
+
+/// <reference types="jest" />
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { SceneDiffer } from '../src/main/engine/SceneDiffer';
+import { mergeSceneFiles } from '../src/main/engine/SceneMergeDriver';
+import type { NodeData, SceneData, SceneFileData } from '../src/shared/types/SceneTypes';
+
+function node(id: string, children: NodeData[] = []): NodeData {
+  return {
+    id,
+    name: id,
+    type: 'entity_3d',
+    enabled: true,
+    transform: {
+      position: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      scale: { x: 1, y: 1, z: 1 }
+    },
+    components: [
+      {
+        id: `${id}-render`,
+        type: 'render',
+        enabled: true,
+        properties: { visible: true, castShadows: false, receiveShadows: false }
+      }
+    ],
+    children
+  };
+}
+
+function scene(): SceneData {
+  return {
+    id: 'scene',
+    name: 'Scene',
+    rootNode: { ...node('root', [node('a'), node('b', [node('c')])]), type: 'scene' },
+    metadata: {
+      version: '1.0.0',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      modifiedAt: '2025-01-01T00:00:00.000Z'
+    }
+  };
+}
+
+function find(root: NodeData, id: string): NodeData | undefined {
+  if (root.id === id) {
+    return root;
+  }
+
+  for (const child of root.children) {
+    const found = find(child, id);
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
+function edit(source: SceneData, change: (root: NodeData) => void): SceneData {
+  const copy = JSON.parse(JSON.stringify(source)) as SceneData;
+  change(copy.rootNode);
+  return copy;
+}
+
+describe('SceneDiffer', () => {
+  it('finds no changes between equal scenes', () => {
+    const diff = SceneDiffer.diff(scene(), scene());
+
+    expect(diff).toEqual({ added: [], removed: [], modified: [], scene: [] });
+  });
+
+  it('diffs and applies added, removed, moved and changed nodes', () => {
+    const base = scene();
+    const changed = edit(base, (root) => {
+      const b = find(root, 'b')!;
+      const c = b.children.pop()!;
+
+      root.children = root.children.filter((child) => child.id !== 'a');
+      root.children.push(c, node('d', [node('e')]));
+      b.name = 'Renamed';
+      b.transform.position.x = 4;
+      c.components[0].properties.visible = false;
+    });
+
+    const diff = SceneDiffer.diff(base, changed);
+
+    expect(diff.removed).toEqual(['a']);
+    expect(diff.added.map((addition) => addition.node.id)).toEqual(['d']);
+    expect(diff.modified.map((entry) => entry.nodeId).sort()).toEqual(['b', 'c']);
+    expect(SceneDiffer.apply(base, diff)).toEqual(changed);
+  });
+
+  it('merges changes made to different properties', () => {
+    const base = scene();
+    const ours = edit(base, (root) => {
+      find(root, 'a')!.name = 'Ours';
+    });
+    const theirs = edit(base, (root) => {
+      find(root, 'a')!.transform.scale.y = 2;
+      find(root, 'c')!.enabled = false;
+    });
+
+    const { scene: merged, conflicts } = SceneDiffer.merge(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(find(merged.rootNode, 'a')!.name).toBe('Ours');
+    expect(find(merged.rootNode, 'a')!.transform.scale.y).toBe(2);
+    expect(find(merged.rootNode, 'c')!.enabled).toBe(false);
+  });
+
+  it('keeps our side of a conflicting change', () => {
+    const base = scene();
+    const ours = edit(base, (root) => {
+      find(root, 'a')!.name = 'Ours';
+    });
+    const theirs = edit(base, (root) => {
+      find(root, 'a')!.name = 'Theirs';
+    });
+
+    const { scene: merged, conflicts } = SceneDiffer.merge(base, ours, theirs);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ nodeId: 'a', property: 'name' });
+    expect(find(merged.rootNode, 'a')!.name).toBe('Ours');
+  });
+
+  it('keeps a node one side removed and the other changed', () => {
+    const base = scene();
+    const ours = edit(base, (root) => {
+      find(root, 'c')!.name = 'Changed';
+    });
+    const theirs = edit(base, (root) => {
+      root.children = root.children.filter((child) => child.id !== 'b');
+    });
+
+    const { scene: merged, conflicts } = SceneDiffer.merge(base, ours, theirs);
+
+    expect(conflicts.map((conflict) => conflict.nodeId)).toEqual(['c']);
+    expect(find(merged.rootNode, 'c')!.name).toBe('Changed');
+  });
+});
+
+describe('mergeSceneFiles', () => {
+  let directory: string;
+
+  function write(name: string, data: SceneData): string {
+    const filePath = path.join(directory, name);
+    const fileData: SceneFileData = {
+      format: 'worldenv-scene',
+      formatVersion: '1.0.0',
+      scene: data
+    };
+
+    fs.writeFileSync(filePath, JSON.stringify(fileData, null, 2));
+    return filePath;
+  }
+
+  function read(filePath: string): SceneFileData {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as SceneFileData;
+  }
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scene-merge-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('writes the merged scene over our file', () => {
+    const base = scene();
+    const basePath = write('base.scene.json', base);
+    const oursPath = write(
+      'ours.scene.json',
+      edit(base, (root) => root.children.push(node('ours')))
+    );
+    const theirsPath = write(
+      'theirs.scene.json',
+      edit(base, (root) => root.children.push(node('theirs')))
+    );
+
+    const conflicts = mergeSceneFiles(basePath, oursPath, theirsPath);
+    const merged = read(oursPath);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.mergeConflicts).toBeUndefined();
+    expect(merged.scene.rootNode.children.map((child) => child.id)).toEqual([
+      'a',
+      'b',
+      'ours',
+      'theirs'
+    ]);
+  });
+
+  it('lists conflicts in the merged file', () => {
+    const base = scene();
+    const basePath = write('base.scene.json', base);
+    const oursPath = write(
+      'ours.scene.json',
+      edit(base, (root) => {
+        root.name = 'Ours';
+      })
+    );
+    const theirsPath = write(
+      'theirs.scene.json',
+      edit(base, (root) => {
+        root.name = 'Theirs';
+      })
+    );
+    const outputPath = path.join(directory, 'merged.scene.json');
+
+    const conflicts = mergeSceneFiles(basePath, oursPath, theirsPath, outputPath);
+
+    expect(conflicts).toHaveLength(1);
+    expect(read(outputPath).mergeConflicts).toEqual(conflicts);
+    expect(read(outputPath).scene.rootNode.name).toBe('Ours');
+    expect(read(oursPath).scene.rootNode.name).toBe('Ours');
+  });
+});
@@ -17,7 +17,9 @@ module.exports = {
   target: 'electron-main',
   entry: {
     main: './src/main/main.ts',
-    preload: './src/main/preload.ts'
+    preload: './src/main/preload.ts',
+    'wc-compiler-worker': './src/main/engine/WCCompilerWorker.ts',
+    'scene-merge': './src/main/engine/SceneMergeDriver.ts'
   },
   output: {
     path: path.resolve(__dirname, 'dist/main'),
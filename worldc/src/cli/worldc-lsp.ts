@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         worldc-lsp.ts
+           ---
+           standalone entry point for the WORLDC language server.
+
+           serves the Language Server Protocol on stdin/stdout,
+           which is how editors launch it by default, or on a TCP
+           port with --socket for clients that connect to an
+           already running server. 'worldc lsp' runs the same
+           server.
+
+*/
+
+import * as net from 'net';
+import minimist from 'minimist';
+
+import { LSPConnection } from '../tooling/lsp/lsp-connection';
+import { globalErrorHandler } from '../error/error-handler';
+
+const USAGE = `usage: worldc-lsp [--stdio | --socket <port>]
+
+options:
+      --stdio             serve the protocol on stdin/stdout (default)
+      --socket <port>     serve the protocol on 127.0.0.1:<port>
+  -h, --help              show this message
+`;
+
+/*
+    ====================================
+             --- SERVER ---
+    ====================================
+*/
+
+/*
+
+         LanguageServerOptions
+           ---
+           how the server is reached. without a socket port the
+           server speaks over stdio.
+
+*/
+
+export interface LanguageServerOptions {
+  socket?: number;
+}
+
+/*
+
+         serveLanguageServer()
+           ---
+           runs the language server until its client exits and
+           resolves with the process exit code. a socket server
+           gives every client its own connection and runs until
+           the process is interrupted.
+
+*/
+
+export async function serveLanguageServer(
+  options: LanguageServerOptions = {}
+): Promise<number> {
+  /* diagnostics reach the client as notifications, not as logs */
+  globalErrorHandler.configure({ logToConsole: false, logToFile: false });
+
+  if (options.socket === undefined) {
+    /* stdout carries the protocol, so stray logging goes to stderr */
+    console.log = console.info = console.debug = console.error;
+
+    const code = await new LSPConnection().listen(
+      process.stdin,
+      process.stdout
+    );
+    process.stdin.pause();
+
+    return code;
+  }
+
+  const server = net.createServer((socket) => {
+    socket.on('error', () => socket.destroy());
+    new LSPConnection().listen(socket, socket).then(() => socket.end());
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.socket, '127.0.0.1', resolve);
+  });
+
+  const address = server.address() as net.AddressInfo;
+  process.stderr.write(`worldc-lsp: listening on 127.0.0.1:${address.port}\n`);
+
+  return new Promise<number>((resolve) => {
+    process.once('SIGINT', () => {
+      server.close(() => resolve(0));
+    });
+  });
+}
+
+/*
+
+         parsePort()
+           ---
+           validates a --socket value. 0 asks the system for a
+           free port.
+
+*/
+
+function parsePort(value: unknown): number {
+  const port = Number(value);
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`invalid port '${value}'`);
+  }
+
+  return port;
+}
+
+async function main(argv: string[]): Promise<number> {
+  /* --clientProcessId is passed by some clients and not needed */
+  const args = minimist(argv, {
+    string: ['socket', 'clientProcessId'],
+    boolean: ['stdio', 'help'],
+    alias: { h: 'help' },
+  });
+
+  if (args.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  try {
+    const socket =
+      args.socket !== undefined ? parsePort(args.socket) : undefined;
+    return await serveLanguageServer({ socket });
+  } catch (error) {
+    process.stderr.write(`worldc-lsp: ${(error as Error).message}\n`);
+    return 2;
+  }
+}
+
+/*
+    ====================================
+             --- MAIN ---
+    ====================================
+*/
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error) => {
+      process.stderr.write(`worldc-lsp: internal error: ${error}\n`);
+      process.exitCode = 3;
+    }
+  );
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
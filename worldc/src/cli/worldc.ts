@@ -0,0 +1,1088 @@
+#!/usr/bin/env node
+
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         worldc.ts
+           ---
+           command line entry point for the WORLDC compiler.
+
+           drives source files through the lexer, parser, semantic
+           analyzer and compilation pipeline. supports one-shot
+           compilation, front-end only checking and a watch mode,
+           with human readable or JSON diagnostics. the flag set
+           matches the command line built by the editor's
+           WCCompilerIntegration.
+
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import minimist from 'minimist';
+
+import {
+  CompilationTarget,
+  OptimizationLevel,
+  CodeGenerationOptions,
+  CodegenDiagnostic,
+} from '../codegen/base-generator';
+
+import {
+  CompilationPipeline,
+  CompilationResult,
+  ProjectCompilationRequest,
+} from '../codegen/compilation-pipeline';
+
+import { SOURCE_EXTENSIONS } from '../semantic/module-resolver';
+import { globalErrorHandler } from '../error/error-handler';
+
+/*
+    ====================================
+             --- CONSTANTS ---
+    ====================================
+*/
+
+/*
+
+         ExitCode
+           ---
+           process exit codes. anything other than SUCCESS
+           means no usable output was produced.
+
+*/
+
+export enum ExitCode {
+  SUCCESS = 0 /* all inputs compiled or checked cleanly */,
+  COMPILATION_ERROR = 1 /* at least one input reported errors */,
+  USAGE_ERROR = 2 /* bad arguments or unreadable inputs */,
+  INTERNAL_ERROR = 3 /* the compiler itself failed */,
+}
+
+const USAGE = `usage: worldc <command> [options] <file|directory>...
+
+commands:
+  compile           compile sources to the selected target(s)
+  check             lex, parse and analyze sources without emitting code
+  validate          alias for check
+  watch             compile sources and recompile them on change
+  verify            re-hash a release against its release-manifest.json
+  diff              compare the build-manifest.json of two builds
+  debug             serve the Debug Adapter Protocol on stdin/stdout
+  lsp               serve the Language Server Protocol
+
+options:
+  -t, --target <t>        typescript | assemblyscript | both (default: typescript)
+  -o, --output <path>     output directory, or output file for a single result
+      --optimization <l>  none | basic | aggressive | size (default: basic)
+      --format <f>        esm (default: esm)
+      --minify            minify generated code (not with --source-maps)
+      --source-maps       emit source maps
+      --declarations      emit .d.ts declarations of TypeScript output
+      --strict            enable strict mode checks
+      --json              print a JSON report on stdout
+      --stdio             lsp: serve on stdin/stdout (default)
+      --socket <port>     lsp: serve on 127.0.0.1:<port>
+  -h, --help              show this message
+  -v, --version           print the compiler version
+`;
+
+/*
+    ====================================
+             --- INTERFACES ---
+    ====================================
+*/
+
+/*
+
+         CliOptions
+           ---
+           parsed and validated command line options.
+
+*/
+
+export interface CliOptions {
+  command: 'compile' | 'check' | 'watch' | 'verify' | 'diff' | 'debug' | 'lsp';
+  inputs: string[];
+  targets: CompilationTarget[];
+  output?: string;
+  optimizationLevel: OptimizationLevel;
+  outputFormat: CodeGenerationOptions['outputFormat'];
+  minify: boolean;
+  sourceMaps: boolean;
+  declarations: boolean;
+  strict: boolean;
+  json: boolean;
+  socket?: number;
+}
+
+/*
+
+         CliDiagnostic
+           ---
+           flattened diagnostic shape used in the JSON report.
+           mirrors the editor's CompilationDiagnostic.
+
+*/
+
+export interface CliDiagnostic {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  code?: string;
+  filename?: string;
+  line?: number;
+  column?: number;
+}
+
+/*
+
+         CliReport
+           ---
+           machine readable summary printed with --json. 'code'
+           holds the generated source when exactly one output
+           file was produced.
+
+*/
+
+export interface CliReport {
+  success: boolean;
+  command: string;
+  files: string[];
+  code?: string;
+  diagnostics: CliDiagnostic[];
+  warnings: CliDiagnostic[];
+  timing: {
+    lexingTime: number;
+    parsingTime: number;
+    semanticAnalysisTime: number;
+    codeGenerationTime: number;
+    totalTime: number;
+  };
+}
+
+/*
+
+         CliIO
+           ---
+           output sinks, injectable so the CLI can be driven
+           in-process by tests and tooling.
+
+*/
+
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const processIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+/*
+    ====================================
+             --- OPTIONS ---
+    ====================================
+*/
+
+/*
+
+         parseArguments()
+           ---
+           turns raw argv into CliOptions. returns null when
+           --help or --version was handled instead.
+
+*/
+
+export function parseArguments(
+  argv: string[],
+  io: CliIO = processIO
+): CliOptions | null {
+  const unknown: string[] = [];
+
+  const args = minimist(argv, {
+    string: ['target', 'output', 'optimization', 'format', 'socket'],
+    boolean: [
+      'stdio',
+      'minify',
+      'source-maps',
+      'declarations',
+      'strict',
+      'json',
+      'help',
+      'version',
+    ],
+    alias: { t: 'target', o: 'output', h: 'help', v: 'version' },
+    unknown: (arg) => {
+      if (arg.startsWith('-')) {
+        unknown.push(arg);
+        return false;
+      }
+      return true;
+    },
+  });
+
+  if (args.version) {
+    io.stdout(`${getVersion()}\n`);
+    return null;
+  }
+
+  if (args.help) {
+    io.stdout(USAGE);
+    return null;
+  }
+
+  if (unknown.length > 0) {
+    throw new UsageError(`unknown option '${unknown[0]}'`);
+  }
+
+  const [command, ...inputs] = args._.map(String);
+
+  if (!command) {
+    throw new UsageError('no command given');
+  }
+
+  let resolvedCommand: CliOptions['command'];
+  switch (command) {
+    case 'compile':
+    case 'watch':
+    case 'check':
+    case 'verify':
+    case 'diff':
+      resolvedCommand = command;
+      break;
+    case 'validate':
+      resolvedCommand = 'check';
+      break;
+    case 'debug':
+    case 'lsp':
+      resolvedCommand = command;
+      break;
+    default:
+      throw new UsageError(`unknown command '${command}'`);
+  }
+
+  /* the debug adapter and language server get their sources from
+     the client */
+  const isServer = resolvedCommand === 'debug' || resolvedCommand === 'lsp';
+  if (inputs.length === 0 && !isServer) {
+    throw new UsageError(`'${command}' needs at least one input`);
+  }
+
+  /* the minifier does not rewrite source maps */
+  if (args.minify && args['source-maps']) {
+    throw new UsageError("'--minify' cannot be combined with '--source-maps'");
+  }
+
+  return {
+    command: resolvedCommand,
+    inputs,
+    targets: parseTargets(args.target),
+    output: args.output || undefined,
+    optimizationLevel: parseOptimizationLevel(args.optimization),
+    outputFormat: parseOutputFormat(args.format),
+    minify: !!args.minify,
+    sourceMaps: !!args['source-maps'],
+    declarations: !!args.declarations,
+    strict: !!args.strict,
+    json: !!args.json,
+    socket: args.socket !== undefined ? parseSocket(args.socket) : undefined,
+  };
+}
+
+function parseTargets(value?: string): CompilationTarget[] {
+  if (!value) {
+    return [CompilationTarget.TYPESCRIPT];
+  }
+
+  const targets = new Set<CompilationTarget>();
+
+  for (const name of value.split(',')) {
+    switch (name.trim().toLowerCase()) {
+      case 'typescript':
+      case 'ts':
+        targets.add(CompilationTarget.TYPESCRIPT);
+        break;
+      case 'assemblyscript':
+      case 'as':
+        targets.add(CompilationTarget.ASSEMBLYSCRIPT);
+        break;
+      case 'both':
+        targets.add(CompilationTarget.TYPESCRIPT);
+        targets.add(CompilationTarget.ASSEMBLYSCRIPT);
+        break;
+      default:
+        throw new UsageError(`unknown target '${name}'`);
+    }
+  }
+
+  return Array.from(targets);
+}
+
+function parseOptimizationLevel(value?: string): OptimizationLevel {
+  switch ((value || 'basic').toLowerCase()) {
+    case 'none':
+    case '0':
+      return OptimizationLevel.NONE;
+    case 'basic':
+    case '1':
+      return OptimizationLevel.BASIC;
+    case 'aggressive':
+    case 'full':
+    case '2':
+      return OptimizationLevel.AGGRESSIVE;
+    case 'size':
+    case '3':
+      return OptimizationLevel.SIZE;
+    default:
+      throw new UsageError(`unknown optimization level '${value}'`);
+  }
+}
+
+function parseSocket(value: string): number {
+  const port = Number(value);
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new UsageError(`invalid port '${value}'`);
+  }
+
+  return port;
+}
+
+function parseOutputFormat(
+  value?: string
+): CodeGenerationOptions['outputFormat'] {
+  const format = (value || 'esm').toLowerCase();
+
+  if (format === 'esm') {
+    return format;
+  }
+
+  /* generated TypeScript and AssemblyScript are always ES modules */
+  if (format === 'cjs' || format === 'umd' || format === 'iife') {
+    throw new UsageError(
+      `output format '${format}' is not supported; worldc emits ES modules`
+    );
+  }
+
+  throw new UsageError(`unknown output format '${value}'`);
+}
+
+/*
+    ====================================
+             --- COMMANDS ---
+    ====================================
+*/
+
+/*
+
+         runCli()
+           ---
+           main entry point. parses arguments, dispatches the
+           command and resolves with the process exit code.
+
+*/
+
+export async function runCli(
+  argv: string[],
+  io: CliIO = processIO
+): Promise<number> {
+  /* diagnostics are rendered by the CLI, not by the shared handler */
+  globalErrorHandler.configure({ logToConsole: false, logToFile: false });
+
+  let options: CliOptions | null;
+
+  try {
+    options = parseArguments(argv, io);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`worldc: ${error.message}\n`);
+      io.stderr(`run 'worldc --help' for usage\n`);
+      return ExitCode.USAGE_ERROR;
+    }
+    throw error;
+  }
+
+  if (!options) {
+    return ExitCode.SUCCESS;
+  }
+
+  try {
+    if (options.command === 'watch') {
+      return await watchSources(options, io);
+    }
+
+    if (options.command === 'verify') {
+      return await verifyReleases(options, io);
+    }
+
+    if (options.command === 'diff') {
+      return await diffBuilds(options, io);
+    }
+
+    if (options.command === 'debug') {
+      return await serveDebugAdapter();
+    }
+
+    if (options.command === 'lsp') {
+      return await serveLanguageServer(options);
+    }
+
+    const sources = collectSources(options.inputs);
+    const report = await processSources(sources, options, io);
+
+    if (options.json) {
+      io.stdout(JSON.stringify(report, null, 2) + '\n');
+    }
+
+    return report.success ? ExitCode.SUCCESS : ExitCode.COMPILATION_ERROR;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`worldc: ${error.message}\n`);
+      return ExitCode.USAGE_ERROR;
+    }
+
+    io.stderr(`worldc: internal compiler error: ${error}\n`);
+    return ExitCode.INTERNAL_ERROR;
+  }
+}
+
+/*
+
+         processSources()
+           ---
+           compiles or checks the sources, and the modules they
+           import, as one compile unit and folds the per-module
+           results into one report.
+
+*/
+
+async function processSources(
+  sources: string[],
+  options: CliOptions,
+  io: CliIO
+): Promise<CliReport> {
+  const pipeline = new CompilationPipeline();
+
+  const report: CliReport = {
+    success: true,
+    command: options.command,
+    files: [],
+    diagnostics: [],
+    warnings: [],
+    timing: {
+      lexingTime: 0,
+      parsingTime: 0,
+      semanticAnalysisTime: 0,
+      codeGenerationTime: 0,
+      totalTime: 0,
+    },
+  };
+
+  const writtenCode: string[] = [];
+
+  globalErrorHandler.clear();
+
+  const request = createRequest(sources, options);
+  const project =
+    options.command === 'check'
+      ? await pipeline.checkProject(request)
+      : await pipeline.compileProject(request);
+
+  if (!project.success) {
+    report.success = false;
+  }
+
+  /* outputs mirror the layout of the sources below their common root */
+  const sourceRoot = getCommonDirectory([...project.modules.keys()]);
+
+  for (const [source, result] of project.modules) {
+    const hasErrors = result.diagnostics.some((d) => d.severity === 'error');
+    if (!result.success || hasErrors) {
+      report.success = false;
+    }
+
+    report.diagnostics.push(
+      ...result.diagnostics.map((d) => flattenDiagnostic(d, source))
+    );
+    report.warnings.push(
+      ...result.warnings.map((d) => flattenDiagnostic(d, source))
+    );
+
+    for (const key of Object.keys(report.timing)) {
+      report.timing[key] += result.timing[key];
+    }
+
+    if (options.command === 'compile' && project.success) {
+      await finishArtifacts(result, options);
+      const written = writeOutputs(
+        source,
+        result,
+        options,
+        project.modules.size,
+        sourceRoot
+      );
+      report.files.push(...written.map((file) => file.path));
+      writtenCode.push(...written.filter((f) => f.primary).map((f) => f.code));
+    }
+
+    if (!options.json) {
+      printDiagnostics(result, source, io);
+    }
+  }
+
+  if (writtenCode.length === 1) {
+    report.code = writtenCode[0];
+  }
+
+  if (!options.json) {
+    const verb = options.command === 'check' ? 'checked' : 'compiled';
+    const errors = report.diagnostics.length;
+    const warnings = report.warnings.length;
+    io.stderr(
+      `worldc: ${verb} ${project.modules.size} file(s), ` +
+        `${errors} error(s), ${warnings} warning(s)\n`
+    );
+    for (const file of report.files) {
+      io.stdout(`${file}\n`);
+    }
+  }
+
+  return report;
+}
+
+/*
+
+         watchSources()
+           ---
+           compiles all inputs once, then recompiles them when
+           any source file changes. runs until the process is
+           stopped.
+
+*/
+
+async function watchSources(options: CliOptions, io: CliIO): Promise<number> {
+  /* loaded lazily so one-shot commands do not pay for it */
+  const chokidar = await import('chokidar');
+
+  const compileOptions: CliOptions = { ...options, command: 'compile' };
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const rebuild = (sources: string[]) => {
+    queue = queue.then(async () => {
+      const report = await processSources(sources, compileOptions, io);
+      if (options.json) {
+        io.stdout(JSON.stringify(report) + '\n');
+      }
+    });
+    return queue;
+  };
+
+  const sources = collectSources(options.inputs);
+  await rebuild(sources);
+
+  const watcher = chokidar.watch(options.inputs, { ignoreInitial: true });
+
+  /* a change can break the modules importing the file, so the
+     whole unit is rebuilt */
+  const onChange = (file: string) => {
+    if (isSourceFile(file)) {
+      if (!sources.includes(file)) {
+        sources.push(file);
+      }
+      io.stderr(`worldc: ${file} changed, recompiling\n`);
+      rebuild(sources);
+    }
+  };
+
+  watcher.on('add', onChange);
+  watcher.on('change', onChange);
+
+  io.stderr('worldc: watching for changes\n');
+
+  return new Promise<number>((resolve) => {
+    process.once('SIGINT', () => {
+      watcher.close().then(() => resolve(ExitCode.SUCCESS));
+    });
+  });
+}
+
+/*
+
+         verifyReleases()
+           ---
+           re-hashes the files of each release against the
+           checksums in its manifest. an input may name the
+           manifest or the directory holding it.
+
+*/
+
+async function verifyReleases(options: CliOptions, io: CliIO): Promise<number> {
+  const { DistributionManagerFactory } = await import(
+    '../deployment/distribution-manager'
+  );
+
+  let exitCode: number = ExitCode.SUCCESS;
+  const reports = [];
+
+  for (const input of options.inputs) {
+    const manifestPath =
+      fs.existsSync(input) && fs.statSync(input).isDirectory()
+        ? path.join(input, 'release-manifest.json')
+        : input;
+
+    const result = await DistributionManagerFactory.createDefault(
+      path.dirname(manifestPath)
+    ).verifyRelease(manifestPath);
+    reports.push({ manifest: manifestPath, ...result });
+
+    for (const error of result.errors) {
+      io.stderr(`error: ${error} (${manifestPath})\n`);
+    }
+    for (const file of result.mismatched) {
+      io.stderr(`error: checksum mismatch: ${file}\n`);
+    }
+    for (const file of result.missing) {
+      io.stderr(`error: missing file: ${file}\n`);
+    }
+
+    if (result.errors.length > 0) {
+      exitCode = Math.max(exitCode, ExitCode.USAGE_ERROR);
+    } else if (!result.success) {
+      exitCode = Math.max(exitCode, ExitCode.COMPILATION_ERROR);
+    }
+
+    if (!options.json && result.success) {
+      io.stdout(
+        `worldc: verified ${result.verified.length} file(s) in ${manifestPath}\n`
+      );
+    }
+  }
+
+  if (options.json) {
+    io.stdout(JSON.stringify(reports, null, 2) + '\n');
+  }
+
+  return exitCode;
+}
+
+/*
+
+         diffBuilds()
+           ---
+           reports the files added, removed and changed from one
+           build to the next. an input may name the manifest or
+           the directory holding it.
+
+*/
+
+async function diffBuilds(options: CliOptions, io: CliIO): Promise<number> {
+  const { BuildManifestError, diffBuildManifests, readBuildManifest } =
+    await import('../deployment/build-manifest');
+
+  if (options.inputs.length !== 2) {
+    throw new UsageError("'diff' needs the manifests of two builds");
+  }
+
+  let diff;
+  try {
+    const [before, after] = options.inputs.map(readBuildManifest);
+    diff = diffBuildManifests(before, after);
+  } catch (error) {
+    if (error instanceof BuildManifestError) {
+      io.stderr(`error: ${error.message} (${error.file})\n`);
+      return ExitCode.USAGE_ERROR;
+    }
+    throw error;
+  }
+
+  if (options.json) {
+    io.stdout(JSON.stringify(diff, null, 2) + '\n');
+    return ExitCode.SUCCESS;
+  }
+
+  for (const entry of diff.added) {
+    io.stdout(`added    ${entry.name} (${formatDelta(entry.size)})\n`);
+  }
+  for (const entry of diff.removed) {
+    io.stdout(`removed  ${entry.name} (${formatDelta(-entry.size)})\n`);
+  }
+  for (const change of diff.changed) {
+    io.stdout(
+      `changed  ${change.name} ` +
+        `(${change.before.size} -> ${change.after.size}, ` +
+        `${formatDelta(change.sizeDelta)})\n`
+    );
+  }
+
+  io.stdout(
+    `worldc: ${diff.added.length} added, ${diff.removed.length} removed, ` +
+      `${diff.changed.length} changed, ${diff.unchanged} unchanged, ` +
+      `${formatDelta(diff.sizeDelta)} in total\n`
+  );
+
+  return ExitCode.SUCCESS;
+}
+
+function formatDelta(bytes: number): string {
+  return `${bytes < 0 ? '-' : '+'}${Math.abs(bytes)} bytes`;
+}
+
+/*
+
+         serveDebugAdapter()
+           ---
+           runs the debug adapter over stdio until the client
+           disconnects. stdout carries the protocol, so nothing
+           else may be written to it.
+
+*/
+
+async function serveDebugAdapter(): Promise<number> {
+  const { WorldSrcDebugAdapter } = await import(
+    '../tooling/debugging/debug-protocol'
+  );
+
+  await new WorldSrcDebugAdapter().start(process.stdin, process.stdout);
+  process.stdin.pause();
+
+  return ExitCode.SUCCESS;
+}
+
+/*
+
+         serveLanguageServer()
+           ---
+           runs the language server over stdio, or on a local
+           port with --socket, until its client exits.
+
+*/
+
+async function serveLanguageServer(options: CliOptions): Promise<number> {
+  const server = await import('./worldc-lsp');
+
+  return server.serveLanguageServer({ socket: options.socket });
+}
+
+/*
+    ====================================
+             --- HELPERS ---
+    ====================================
+*/
+
+function createRequest(
+  sources: string[],
+  options: CliOptions
+): ProjectCompilationRequest {
+  return {
+    entries: sources,
+    target: options.targets,
+    options: {
+      target: options.targets[0],
+      optimizationLevel: options.optimizationLevel,
+      outputFormat: options.outputFormat,
+      minify: options.minify,
+      sourceMaps: options.sourceMaps,
+      typeDeclarations: options.declarations,
+      indentSize: 2,
+      useTabs: false,
+      insertFinalNewline: true,
+      strictMode: options.strict,
+      asyncSupport: true,
+      moduleSystem: 'es6',
+    },
+    includeSourceMaps: options.sourceMaps,
+    includeTypeDeclarations: options.declarations,
+  };
+}
+
+/*
+
+         collectSources()
+           ---
+           expands directories into the WORLDC sources they
+           contain. missing inputs are a usage error.
+
+*/
+
+function collectSources(inputs: string[]): string[] {
+  const sources: string[] = [];
+
+  for (const input of inputs) {
+    if (!fs.existsSync(input)) {
+      throw new UsageError(`cannot find '${input}'`);
+    }
+
+    if (fs.statSync(input).isDirectory()) {
+      sources.push(...findSourceFiles(input));
+    } else {
+      sources.push(input);
+    }
+  }
+
+  if (sources.length === 0) {
+    throw new UsageError('no WORLDC source files found');
+  }
+
+  return sources;
+}
+
+function findSourceFiles(directory: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const fullPath = path.join(directory, entry.name);
+
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+        files.push(...findSourceFiles(fullPath));
+      }
+    } else if (isSourceFile(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+function isSourceFile(file: string): boolean {
+  return SOURCE_EXTENSIONS.includes(path.extname(file).toLowerCase());
+}
+
+/*
+
+         finishArtifacts()
+           ---
+           applies --declarations and --minify to the generated
+           files of one source. declarations are read from the
+           TypeScript output before it is minified; AssemblyScript
+           has built-in types, so its output gets none.
+
+*/
+
+async function finishArtifacts(
+  result: CompilationResult,
+  options: CliOptions
+): Promise<void> {
+  if (!options.declarations && !options.minify) {
+    return;
+  }
+
+  /* loaded lazily so plain builds do not pay for the compiler API */
+  const ts = await import('typescript');
+  const { minifyJavaScript } = await import('../deployment/minifier');
+
+  for (const [target, files] of result.outputFiles) {
+    for (const file of files) {
+      const code = result.artifacts.get(file);
+      if (code === undefined) {
+        continue;
+      }
+
+      if (options.declarations && target === CompilationTarget.TYPESCRIPT) {
+        const declarations = ts.transpileDeclaration(code, { fileName: file });
+        result.artifacts.set(
+          file.replace(/\.(ts|js)$/, '.d.ts'),
+          declarations.outputText
+        );
+      }
+
+      if (options.minify) {
+        result.artifacts.set(file, minifyJavaScript(code, { fileName: file }));
+      }
+    }
+  }
+}
+
+/*
+
+         writeOutputs()
+           ---
+           writes the generated files (plus any source maps and
+           declarations) for one source. --output names a file
+           only when exactly one file is produced for one module;
+           an output directory mirrors the layout of the sources
+           below sourceRoot.
+
+*/
+
+function writeOutputs(
+  source: string,
+  result: CompilationResult,
+  options: CliOptions,
+  sourceCount: number,
+  sourceRoot: string
+): { path: string; code: string; primary: boolean }[] {
+  const primaryFiles: string[] = [];
+  for (const files of result.outputFiles.values()) {
+    primaryFiles.push(...files);
+  }
+
+  const outputIsFile =
+    !!options.output &&
+    sourceCount === 1 &&
+    primaryFiles.length === 1 &&
+    path.extname(options.output) !== '' &&
+    !(
+      fs.existsSync(options.output) && fs.statSync(options.output).isDirectory()
+    );
+
+  const outputDirectory = outputIsFile
+    ? path.dirname(options.output!)
+    : options.output
+      ? path.join(
+          options.output,
+          path.relative(sourceRoot, path.dirname(source))
+        )
+      : path.dirname(source);
+
+  const written: { path: string; code: string; primary: boolean }[] = [];
+
+  for (const file of primaryFiles) {
+    const related = new Set([
+      file,
+      `${file}.map`,
+      file.replace(/\.(ts|js)$/, '.d.ts'),
+    ]);
+
+    for (const artifact of related) {
+      let code = result.artifacts.get(artifact);
+      if (code === undefined) {
+        continue;
+      }
+
+      /* siblings of a renamed output keep its name plus their suffix */
+      const name = outputIsFile
+        ? path.basename(options.output!) + artifact.slice(file.length)
+        : path.basename(artifact);
+      const target = path.join(outputDirectory, name);
+
+      if (artifact === `${file}.map`) {
+        code = relocateSourceMap(code, source, target);
+      } else if (artifact === file && outputIsFile) {
+        code = code.replace(
+          /^\/\/# sourceMappingURL=.*$/m,
+          `//# sourceMappingURL=${name}.map`
+        );
+      }
+
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, code, 'utf8');
+      written.push({ path: target, code, primary: artifact === file });
+    }
+  }
+
+  return written;
+}
+
+/* a map written away from its source names the source from there */
+function relocateSourceMap(
+  sourceMap: string,
+  source: string,
+  mapFile: string
+): string {
+  const map = JSON.parse(sourceMap);
+  map.file = path.basename(mapFile, '.map');
+  map.sources = [
+    path.relative(path.dirname(mapFile), source).split(path.sep).join('/'),
+  ];
+
+  return JSON.stringify(map);
+}
+
+function getCommonDirectory(files: string[]): string {
+  let common = files.length > 0 ? path.dirname(files[0]) : '.';
+
+  for (const file of files) {
+    while (path.relative(common, file).startsWith('..')) {
+      common = path.dirname(common);
+    }
+  }
+
+  return common;
+}
+
+function flattenDiagnostic(
+  diagnostic: CodegenDiagnostic,
+  source: string
+): CliDiagnostic {
+  return {
+    severity: diagnostic.severity,
+    message: diagnostic.message,
+    code: diagnostic.code,
+    filename: diagnostic.location?.filename || source,
+    line: diagnostic.location?.line,
+    column: diagnostic.location?.column,
+  };
+}
+
+/*
+
+         printDiagnostics()
+           ---
+           prints diagnostics as 'severity: message at file:line:col',
+           the format WCCompilerIntegration.parseDiagnostics() reads.
+
+*/
+
+function printDiagnostics(
+  result: CompilationResult,
+  source: string,
+  io: CliIO
+): void {
+  for (const diagnostic of [...result.diagnostics, ...result.warnings]) {
+    const flat = flattenDiagnostic(diagnostic, source);
+    let line = `${flat.severity}: ${flat.message}`;
+
+    if (flat.line) {
+      line += ` at ${flat.filename}:${flat.line}:${flat.column || 1}`;
+    }
+
+    io.stderr(line + '\n');
+  }
+}
+
+function getVersion(): string {
+  try {
+    /* same relative location from src/cli and dist/cli */
+    const packagePath = path.join(__dirname, '..', '..', 'package.json');
+    return JSON.parse(fs.readFileSync(packagePath, 'utf8')).version;
+  } catch {
+    return '0.1.0';
+  }
+}
+
+/*
+    ====================================
+             --- MAIN ---
+    ====================================
+*/
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error) => {
+      process.stderr.write(`worldc: internal compiler error: ${error}\n`);
+      process.exitCode = ExitCode.INTERNAL_ERROR;
+    }
+  );
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
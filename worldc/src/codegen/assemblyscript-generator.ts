@@ -15,6 +15,13 @@
            performance by leveraging AssemblyScript's typed
            nature and low-level capabilities.
 
+           structs become fixed-layout @unmanaged classes and
+           pointers become raw linear memory addresses, so
+           pointer arithmetic, dereferencing and indexing are
+           lowered to load<T>() and store<T>() with explicit
+           element sizes. constructs without an AssemblyScript
+           equivalent are reported through addError().
+
 */
 
 import {
@@ -24,6 +31,8 @@ import {
   CodeGenerationOptions,
   CodegenDiagnostic,
   CodegenUtils,
+  Precedence,
+  BINARY_PRECEDENCE,
 } from './base-generator';
 
 import {
@@ -37,26 +46,186 @@ import {
   VariableDeclaration,
   ClassDeclaration,
   InterfaceDeclaration,
+  StructDeclaration,
+  StructMember,
+  EnumDeclaration,
+  NamespaceDeclaration,
+  TypeAliasDeclaration,
+  ImportDeclaration,
+  ExportDeclaration,
+  ClassMember,
+  InterfaceMember,
+  TypeParameter,
   Parameter,
+  AccessModifier,
   BlockStatement,
   ExpressionStatement,
   IfStatement,
   WhileStatement,
+  DoWhileStatement,
   ForStatement,
+  ForInStatement,
+  ForOfStatement,
+  SwitchStatement,
+  TryStatement,
   ReturnStatement,
+  BreakStatement,
+  ContinueStatement,
+  ThrowStatement,
   BinaryExpression,
   UnaryExpression,
+  AssignmentExpression,
+  UpdateExpression,
+  LogicalExpression,
+  ConditionalExpression,
   CallExpression,
   MemberExpression,
+  ArrayExpression,
+  ObjectExpression,
+  ObjectProperty,
+  ArrowFunctionExpression,
+  FunctionExpression,
+  LambdaExpression,
+  NewExpression,
+  ThisExpression,
+  SuperExpression,
   Identifier,
   Literal,
-  AssignmentExpression,
+  TemplateLiteral,
+  AwaitExpression,
+  YieldExpression,
   PrimitiveType,
   ArrayType,
   PointerType,
+  ReferenceType,
   FunctionType,
+  GenericType,
+  UnionType,
+  IntersectionType,
+  TupleType,
+  OptionalType,
 } from '../parser/ast';
 
+import {
+  TemplateDeclaration,
+  OperatorUse,
+  MemberReference,
+} from '../semantic/simple-analyzer';
+import { SymbolKind } from '../semantic/symbol-table';
+import { TypeKind, getSwizzleIndices } from '../semantic/type-system';
+import { generateMathPrelude } from './assemblyscript-math';
+
+/*
+    ====================================
+             --- INTERFACES ---
+    ====================================
+*/
+
+/*
+
+         Binding
+           ---
+           a name visible to the expression being generated.
+           the declared type drives numeric conversions and
+           pointer lowering; emittedName differs from the
+           source name for hoisted static locals.
+
+*/
+
+interface Binding {
+  type: TypeNode | null;
+  emittedName: string;
+}
+
+/*
+
+         MemoryTarget
+           ---
+           an assignable location in linear memory, reached
+           through '*p' or 'p[i]' on a pointer.
+
+*/
+
+interface MemoryTarget {
+  address: string;
+  pointee: TypeNode;
+}
+
+/*
+
+         Specialization
+           ---
+           one instantiation of a template declaration, emitted
+           under its own name ('Box<int>' becomes 'Box_i32')
+           with the template parameters bound to its arguments.
+
+*/
+
+interface Specialization {
+  template: TemplateDeclaration;
+  name: string;
+  bindings: Map<string, TypeNode>;
+}
+
+/* vector operations that are inlined as one expression per component */
+const COMPONENTWISE_OPERATORS: { [operation: string]: string } = {
+  add: '+',
+  sub: '-',
+  mul: '*',
+  div: '/',
+  scale: '*',
+  divScalar: '/',
+};
+
+/* nesting limit for templates that instantiate other templates */
+const MAX_TEMPLATE_DEPTH = 32;
+
+/* conversion rank of the AssemblyScript numeric types */
+const NUMERIC_RANK: { [type: string]: number } = {
+  i8: 1,
+  u8: 1,
+  i16: 2,
+  u16: 2,
+  i32: 3,
+  u32: 3,
+  isize: 3,
+  usize: 3,
+  i64: 4,
+  u64: 4,
+  f32: 5,
+  f64: 6,
+};
+
+/* operators whose operands take part in the usual arithmetic conversions */
+const ARITHMETIC_OPERATORS = new Set([
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '<',
+  '>',
+  '<=',
+  '>=',
+  '==',
+  '!=',
+]);
+
+const COMPARISON_OPERATORS = new Set([
+  '<',
+  '>',
+  '<=',
+  '>=',
+  '==',
+  '!=',
+  '===',
+  '!==',
+  '&&',
+  '||',
+  'instanceof',
+  'in',
+]);
+
 /*
     ====================================
              --- GENERATOR ---
@@ -71,6 +240,12 @@ import {
            focuses on performance optimization and WebAssembly
            compatibility with strict typing and memory management.
 
+           like the TypeScript generator, declarations and
+           statements are emitted line by line while expressions
+           and types are rendered to strings. expression types
+           are tracked through declared bindings so C-style
+           numeric conversions can be made explicit.
+
 */
 
 export class AssemblyScriptGenerator extends BaseCodeGenerator {
@@ -81,16 +256,72 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
   private typeMapping: Map<string, string>;
   private imports: Set<string>;
   private exports: Set<string>;
-  private memoryAllocations: Set<string>;
   private staticVariables: Set<string>;
 
+  private structs: Map<string, StructDeclaration>;
+  private classes: Map<string, ClassDeclaration>;
+  private enums: Set<string>;
+  private functions: Map<string, FunctionDeclaration>;
+  private bindings: Map<string, Binding>[];
+
+  private templates: Map<string, TemplateDeclaration>;
+  private templateParameterNames: Set<string>;
+  private specializations: Map<TemplateDeclaration, Specialization[]>;
+  private genericTemplates: Set<TemplateDeclaration>;
+  private currentSpecialization: Specialization | null;
+  private typeBindings: Map<string, TypeNode>;
+  private mathClasses: Set<string> /* prelude classes in use */;
+
+  private exportNext: boolean;
+  private currentClass: ClassDeclaration | StructDeclaration | null;
+  private currentFunction: FunctionDeclaration | null;
+  private temporaryCount: number;
+
   constructor() {
     super();
     this.typeMapping = this.createTypeMapping();
     this.imports = new Set();
     this.exports = new Set();
-    this.memoryAllocations = new Set();
     this.staticVariables = new Set();
+    this.structs = new Map();
+    this.classes = new Map();
+    this.enums = new Set();
+    this.functions = new Map();
+    this.bindings = [];
+    this.templates = new Map();
+    this.templateParameterNames = new Set();
+    this.specializations = new Map();
+    this.genericTemplates = new Set();
+    this.currentSpecialization = null;
+    this.typeBindings = new Map();
+    this.mathClasses = new Set();
+    this.exportNext = false;
+    this.currentClass = null;
+    this.currentFunction = null;
+    this.temporaryCount = 0;
+  }
+
+  protected reset(): void {
+    super.reset();
+    this.imports.clear();
+    this.exports.clear();
+    this.staticVariables.clear();
+    this.structs.clear();
+    this.classes.clear();
+    this.enums.clear();
+    this.functions.clear();
+    this.bindings = [];
+    this.templates.clear();
+    this.templateParameterNames.clear();
+    this.specializations.clear();
+    this.genericTemplates.clear();
+    this.currentSpecialization = null;
+    this.typeBindings = new Map();
+    this.mathClasses = new Set();
+    this.exportNext = false;
+    this.currentClass = null;
+    this.currentFunction = null;
+    this.temporaryCount = 0;
   }
 
   /*
@@ -120,6 +351,24 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
     mapping.set('bool', 'bool');
     mapping.set('void', 'void');
 
+    /* C integer modifiers */
+    mapping.set('signed', 'i32');
+    mapping.set('unsigned', 'u32');
+
+    /* size-specific integers */
+    mapping.set('int8', 'i8');
+    mapping.set('int16', 'i16');
+    mapping.set('int32', 'i32');
+    mapping.set('int64', 'i64');
+    mapping.set('uint8', 'u8');
+    mapping.set('uint16', 'u16');
+    mapping.set('uint32', 'u32');
+    mapping.set('uint64', 'u64');
+
+    /* TypeScript spellings */
+    mapping.set('number', 'f64');
+    mapping.set('boolean', 'bool');
+
     /* direct AssemblyScript types */
     mapping.set('i8', 'i8');
     mapping.set('i16', 'i16');
@@ -131,12 +380,14 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
     mapping.set('u64', 'u64');
     mapping.set('f32', 'f32');
     mapping.set('f64', 'f64');
+    mapping.set('isize', 'isize');
+    mapping.set('usize', 'usize');
 
     /* string handling in AssemblyScript */
     mapping.set('string', 'string');
     mapping.set('char*', 'string');
 
-    /* pointer types become references or managed objects */
+    /* pointer types become linear memory addresses */
     mapping.set('void*', 'usize');
     mapping.set('int*', 'usize');
     mapping.set('float*', 'usize');
@@ -152,18 +403,12 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
 
   protected emitFileHeader(): void {
     this.emitComment('Generated AssemblyScript code from WORLDC');
-    this.emitComment(`Generated on ${new Date().toISOString()}`);
+    if (!this.options.reproducible) {
+      this.emitComment(`Generated on ${new Date().toISOString()}`);
+    }
     this.emitComment('Optimized for WebAssembly performance');
     this.emitLine();
 
-    /* emit memory management imports */
-    this.imports.add('import { memory } from "env";');
-
-    /* emit standard library imports if needed */
-    if (this.options.optimizationLevel >= OptimizationLevel.BASIC) {
-      this.imports.add('import { load, store } from "@assemblyscript/loader";');
-    }
-
     /* emit imports */
     if (this.imports.size > 0) {
       for (const importStatement of this.imports) {
@@ -171,17 +416,10 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
       }
       this.emitLine();
     }
-
-    /* emit memory configuration */
-    this.emitComment('Memory configuration for optimal WASM performance');
-    this.emitLine('declare const memory: WebAssembly.Memory;');
-    this.emitLine();
   }
 
   protected emitFileFooter(): void {
-    this.emitLine();
-
-    /* emit static variable initializations */
+    /* static locals live at module level under their mangled names */
     if (this.staticVariables.size > 0) {
       this.emitComment('Static variable initialization');
       for (const staticVar of this.staticVariables) {
@@ -190,11 +428,6 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
       this.emitLine();
     }
 
-    /* emit memory cleanup functions */
-    if (this.memoryAllocations.size > 0) {
-      this.emitMemoryCleanupFunctions();
-    }
-
     /* emit exports */
     if (this.exports.size > 0) {
       this.emitComment('Exported functions and variables');
@@ -209,19 +442,6 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
     }
   }
 
-  private emitMemoryCleanupFunctions(): void {
-    this.emitComment('Memory management functions');
-    this.emitLine('export function cleanup(): void {');
-    this.indent();
-    this.emitComment('Cleanup allocated memory resources');
-    for (const allocation of this.memoryAllocations) {
-      this.emitLine(`// Free ${allocation}`);
-    }
-    this.dedent();
-    this.emitLine('}');
-    this.emitLine();
-  }
-
   /*
 
            AST visitor implementations
@@ -230,6 +450,14 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
 
   public visitProgram(node: Program): void {
     this.enterScope('global');
+    this.bindings = [new Map()];
+    const headerEnd = this.generatedCode.length;
+
+    /* declarations may be referenced before they appear */
+    for (const declaration of node.declarations) {
+      this.collectDeclaration(declaration);
+    }
+    this.collectSpecializations();
 
     /* process all declarations */
     for (const declaration of node.declarations) {
@@ -237,11 +465,23 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
       this.emitLine();
     }
 
+    /* the math classes in use are only known now */
+    if (this.mathClasses.size > 0) {
+      const prelude = generateMathPrelude(this.mathClasses).map((line) =>
+        line ? `${line}\n` : '\n'
+      );
+      this.insertCode(headerEnd, ...prelude, '\n');
+    }
+
     this.exitScope();
   }
 
   public visitDeclaration(node: Declaration): void {
-    if (node instanceof FunctionDeclaration) {
+    const outer = this.enterNode(node);
+
+    if (this.isSpecializable(node)) {
+      this.visitTemplateDeclaration(node as TemplateDeclaration);
+    } else if (node instanceof FunctionDeclaration) {
       this.visitFunctionDeclaration(node);
     } else if (node instanceof VariableDeclaration) {
       this.visitVariableDeclaration(node);
@@ -249,16 +489,32 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
       this.visitClassDeclaration(node);
     } else if (node instanceof InterfaceDeclaration) {
       this.visitInterfaceDeclaration(node);
+    } else if (node instanceof StructDeclaration) {
+      this.visitStructDeclaration(node);
+    } else if (node instanceof EnumDeclaration) {
+      this.visitEnumDeclaration(node);
+    } else if (node instanceof NamespaceDeclaration) {
+      this.visitNamespaceDeclaration(node);
+    } else if (node instanceof TypeAliasDeclaration) {
+      this.visitTypeAliasDeclaration(node);
+    } else if (node instanceof ImportDeclaration) {
+      this.visitImportDeclaration(node);
+    } else if (node instanceof ExportDeclaration) {
+      this.visitExportDeclaration(node);
     } else {
-      this.addWarning(
+      this.addError(
         `Unsupported declaration type: ${node.constructor.name}`,
         'UNSUPPORTED_DECLARATION',
         node
       );
     }
+
+    this.exitNode(outer);
   }
 
   public visitStatement(node: Statement): void {
+    const outer = this.enterNode(node);
+
     if (node instanceof BlockStatement) {
       this.visitBlockStatement(node);
     } else if (node instanceof ExpressionStatement) {
@@ -267,478 +523,3118 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
       this.visitIfStatement(node);
     } else if (node instanceof WhileStatement) {
       this.visitWhileStatement(node);
+    } else if (node instanceof DoWhileStatement) {
+      this.visitDoWhileStatement(node);
     } else if (node instanceof ForStatement) {
       this.visitForStatement(node);
+    } else if (node instanceof ForInStatement) {
+      this.addError(
+        'for-in loops are not supported by the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+    } else if (node instanceof ForOfStatement) {
+      this.visitForOfStatement(node);
+    } else if (node instanceof SwitchStatement) {
+      this.visitSwitchStatement(node);
+    } else if (node instanceof TryStatement) {
+      this.visitTryStatement(node);
     } else if (node instanceof ReturnStatement) {
       this.visitReturnStatement(node);
+    } else if (
+      node instanceof BreakStatement ||
+      node instanceof ContinueStatement
+    ) {
+      this.visitJumpStatement(node);
+    } else if (node instanceof ThrowStatement) {
+      /* throwing aborts the module in AssemblyScript */
+      this.emitLine(`throw ${this.generateExpression(node.argument)};`);
     } else {
-      this.addWarning(
+      this.addError(
         `Unsupported statement type: ${node.constructor.name}`,
         'UNSUPPORTED_STATEMENT',
         node
       );
     }
+
+    this.exitNode(outer);
   }
 
   public visitExpression(node: Expression): void {
-    if (node instanceof BinaryExpression) {
-      this.visitBinaryExpression(node);
-    } else if (node instanceof UnaryExpression) {
-      this.visitUnaryExpression(node);
-    } else if (node instanceof CallExpression) {
-      this.visitCallExpression(node);
-    } else if (node instanceof MemberExpression) {
-      this.visitMemberExpression(node);
-    } else if (node instanceof AssignmentExpression) {
-      this.visitAssignmentExpression(node);
-    } else if (node instanceof Identifier) {
-      this.visitIdentifier(node);
-    } else if (node instanceof Literal) {
-      this.visitLiteral(node);
-    } else {
-      this.addWarning(
-        `Unsupported expression type: ${node.constructor.name}`,
-        'UNSUPPORTED_EXPRESSION',
-        node
-      );
-    }
+    this.emit(this.generateExpression(node));
   }
 
   public visitTypeNode(node: TypeNode): void {
-    if (node instanceof PrimitiveType) {
-      this.visitPrimitiveType(node);
-    } else if (node instanceof ArrayType) {
-      this.visitArrayType(node);
-    } else if (node instanceof PointerType) {
-      this.visitPointerType(node);
-    } else if (node instanceof FunctionType) {
-      this.visitFunctionType(node);
-    } else {
-      this.addWarning(
-        `Unsupported type node: ${node.constructor.name}`,
-        'UNSUPPORTED_TYPE',
-        node
-      );
-    }
+    this.emit(this.mapTypeToAssemblyScript(node));
   }
 
   /*
 
-           specific AST node visitors
+           collectDeclaration()
+             ---
+             records the top-level names that expressions need
+             to resolve: struct layouts, classes, enums, function
+             signatures and global variables.
 
   */
 
-  private visitFunctionDeclaration(node: FunctionDeclaration): void {
-    const functionName = CodegenUtils.sanitizeIdentifier(
-      node.name,
-      this.target
-    );
-    this.enterScope(functionName);
-
-    /* generate function signature with AssemblyScript annotations */
-    const isExport = false; // Export handling would need to be added to AST
-    const isInline = false; // Inline handling would need to be added to AST
-
-    let signature = '';
-
-    if (isExport) {
-      signature += 'export ';
-    }
-
-    if (isInline && this.options.optimizationLevel >= OptimizationLevel.BASIC) {
-      signature += '@inline ';
-    }
-
-    signature += `function ${functionName}(`;
+  private collectDeclaration(node: Declaration): void {
+    if (node instanceof ExportDeclaration && node.declaration) {
+      this.collectDeclaration(node.declaration);
 
-    /* emit parameters with strict types */
-    const params: string[] = [];
-    for (let i = 0; i < node.parameters.length; i++) {
-      const param = node.parameters[i];
-      if (!param) continue;
-      const paramName = CodegenUtils.sanitizeIdentifier(
-        param.name,
-        this.target
+      /* other modules instantiate exported templates themselves */
+      const template = this.templates.get(
+        (node.declaration as { name?: string }).name || ''
       );
-      const paramType = this.mapTypeToAssemblyScript(param.type);
-      params.push(`${paramName}: ${paramType}`);
-    }
-
-    signature += params.join(', ');
-    signature += ')';
-
-    /* emit return type */
-    if (node.returnType) {
-      const returnType = this.mapTypeToAssemblyScript(node.returnType);
-      signature += `: ${returnType}`;
-    } else {
-      signature += ': void';
+      if (template === node.declaration) {
+        this.genericTemplates.add(template);
+      }
+      return;
     }
 
-    signature += ' {';
-    this.emitLine(signature);
+    this.collectTemplateParameters(node);
 
-    /* emit function body with optimization hints */
-    this.indent();
-    if (node.body) {
-      node.body.accept(this);
+    if (node instanceof StructDeclaration) {
+      this.structs.set(node.name, node);
+    } else if (node instanceof ClassDeclaration) {
+      this.classes.set(node.name, node);
+    } else if (node instanceof EnumDeclaration) {
+      this.enums.add(node.name);
+    } else if (node instanceof FunctionDeclaration) {
+      this.functions.set(node.name, node);
+    } else if (node instanceof VariableDeclaration) {
+      this.declareBinding(node.name, node.type);
     }
-    this.dedent();
+  }
 
-    this.emitLine('}');
+  /*
 
-    /* mark for export if needed */
-    if (isExport) {
-      this.exports.add(`export { ${functionName} };`);
-    }
+           templates
 
-    this.metadata.functionsEmitted++;
-    this.exitScope();
-  }
+  */
 
-  private visitVariableDeclaration(node: VariableDeclaration): void {
-    const varName = CodegenUtils.sanitizeIdentifier(node.name, this.target);
-    const isConst = node.isConst;
-    const isStatic = node.isStatic;
-    const isExport = false; // Export handling would need to be added to AST
+  /*
 
-    let declaration = '';
+           collectTemplateParameters()
+             ---
+             records top-level template declarations and the
+             name of every template parameter, so argument lists
+             that still mention one can be told apart.
 
-    if (isExport) {
-      declaration += 'export ';
-    }
+  */
 
-    if (isStatic) {
-      declaration += 'var '; /* static variables in AssemblyScript */
-    } else {
-      declaration += isConst ? 'const ' : 'let ';
+  private collectTemplateParameters(node: Declaration): void {
+    if (
+      !(
+        node instanceof FunctionDeclaration ||
+        node instanceof ClassDeclaration ||
+        node instanceof InterfaceDeclaration ||
+        node instanceof StructDeclaration
+      )
+    ) {
+      return;
     }
 
-    declaration += varName;
-
-    /* add explicit type annotation for AssemblyScript */
-    if (node.type) {
-      const asType = this.mapTypeToAssemblyScript(node.type);
-      declaration += `: ${asType}`;
-    } else {
-      /* infer type from initializer if possible */
-      if (node.initializer) {
-        const inferredType = this.inferTypeFromExpression(node.initializer);
-        if (inferredType) {
-          declaration += `: ${inferredType}`;
-        }
-      }
+    if (node.templateParameters.length > 0) {
+      this.templates.set(node.name, node);
     }
 
-    /* add initializer if present */
-    if (node.initializer) {
-      declaration += ' = ';
+    const methods =
+      node instanceof ClassDeclaration || node instanceof InterfaceDeclaration
+        ? node.members.map((member) => member.member)
+        : [];
 
-      /* handle special cases for AssemblyScript */
-      if (node.type && this.requiresCast(node.initializer, node.type)) {
-        const targetType = this.mapTypeToAssemblyScript(node.type);
-        declaration += `<${targetType}>`;
+    for (const declaration of [node, ...methods]) {
+      if (declaration instanceof VariableDeclaration) {
+        continue;
       }
-
-      node.initializer.accept(this);
-    } else if (!isConst) {
-      /* provide default values for uninitialized variables */
-      const defaultValue = this.getDefaultValue(node.type);
-      if (defaultValue) {
-        declaration += ` = ${defaultValue}`;
+      for (const parameter of declaration.templateParameters) {
+        this.templateParameterNames.add(parameter.name);
       }
     }
-
-    declaration += ';';
-    this.emitLine(declaration);
-
-    /* track static variables for initialization */
-    if (isStatic) {
-      this.staticVariables.add(declaration);
-    }
   }
 
-  private visitClassDeclaration(node: ClassDeclaration): void {
-    const className = CodegenUtils.sanitizeIdentifier(node.name, this.target);
-    this.enterScope(className);
-
-    const isExport = false; // Export handling would need to be added to AST
-    let classDecl = '';
+  /*
 
-    if (isExport) {
-      classDecl += 'export ';
-    }
+           collectSpecializations()
+             ---
+             walks the template uses the semantic analyzer
+             recorded. uses outside any template are specialized
+             directly; specializing a template then specializes
+             the uses in its body with its arguments substituted.
 
-    classDecl += `class ${className}`;
+  */
 
-    /* handle inheritance */
-    if (node.superClass) {
-      classDecl += ` extends ${node.superClass}`;
+  private collectSpecializations(): void {
+    if (!this.analysis) {
+      return;
     }
 
-    classDecl += ' {';
-    this.emitLine(classDecl);
+    const uses = [...this.analysis.templateUses.values()];
 
-    /* emit class body with memory management considerations */
-    this.indent();
-    if (node.members && node.members.length > 0) {
-      for (const member of node.members) {
-        member.accept(this);
-        this.emitLine();
+    for (const use of uses) {
+      if (!this.isSpecializable(use.template)) {
+        continue;
       }
-    }
 
-    /* emit destructor if memory allocations are used */
-    if (this.memoryAllocations.size > 0) {
-      this.emitLine('__destroy(): void {');
-      this.indent();
-      this.emitComment('Cleanup class resources');
-      this.dedent();
-      this.emitLine('}');
+      if (!use.owner) {
+        this.specialize(use.template, use.typeArguments, 0);
+      } else if (!this.isSpecializable(use.owner)) {
+        /* uses inside generic methods stay generic with them */
+        this.genericTemplates.add(use.template);
+      }
     }
-
-    this.dedent();
-    this.emitLine('}');
-
-    this.metadata.classesEmitted++;
-    this.exitScope();
-  }
-
-  private visitInterfaceDeclaration(node: InterfaceDeclaration): void {
-    this.addWarning(
-      'Interfaces are not directly supported in AssemblyScript',
-      'INTERFACE_NOT_SUPPORTED',
-      node
-    );
-
-    /* convert interface to abstract class or skip */
-    const interfaceName = CodegenUtils.sanitizeIdentifier(
-      node.name,
-      this.target
-    );
-    this.emitComment(
-      `Interface ${interfaceName} - converted to abstract class`
-    );
   }
 
-  private visitBlockStatement(node: BlockStatement): void {
-    for (const statement of node.statements) {
-      statement.accept(this);
+  private specialize(
+    template: TemplateDeclaration,
+    typeArguments: TypeNode[],
+    depth: number
+  ): void {
+    if (typeArguments.some((type) => this.hasTypeParameters(type))) {
+      this.genericTemplates.add(template);
+      return;
     }
-  }
-
-  private visitExpressionStatement(node: ExpressionStatement): void {
-    node.expression.accept(this);
-    this.emit(';');
-    this.emitLine();
-  }
-
-  private visitIfStatement(node: IfStatement): void {
-    this.emit('if (');
-    node.condition.accept(this);
-    this.emit(') {');
-    this.emitLine();
 
-    this.indent();
-    node.thenStatement.accept(this);
-    this.dedent();
+    const name = this.getSpecializationName(template, typeArguments);
+    const specializations = this.specializations.get(template) || [];
+    if (
+      specializations.some((specialization) => specialization.name === name)
+    ) {
+      return;
+    }
 
-    if (node.elseStatement) {
-      this.emitLine('} else {');
-      this.indent();
-      node.elseStatement.accept(this);
-      this.dedent();
+    if (depth > MAX_TEMPLATE_DEPTH) {
+      this.addError(
+        `Instantiating '${name}' exceeds the template nesting limit of ${MAX_TEMPLATE_DEPTH}`,
+        'TEMPLATE_DEPTH_EXCEEDED',
+        template
+      );
+      return;
     }
 
-    this.emitLine('}');
+    const bindings = new Map<string, TypeNode>();
+    template.templateParameters.forEach((parameter, index) => {
+      bindings.set(parameter.name, typeArguments[index]);
+    });
+
+    specializations.push({ template, name, bindings });
+    this.specializations.set(template, specializations);
+
+    for (const use of this.analysis!.templateUses.values()) {
+      if (use.owner === template && this.isSpecializable(use.template)) {
+        this.specialize(
+          use.template,
+          use.typeArguments.map((type) => this.substituteType(type, bindings)),
+          depth + 1
+        );
+      }
+    }
   }
 
-  private visitWhileStatement(node: WhileStatement): void {
-    this.emit('while (');
-    node.condition.accept(this);
-    this.emit(') {');
-    this.emitLine();
-
-    this.indent();
-    node.body.accept(this);
-    this.dedent();
-
-    this.emitLine('}');
+  private isSpecializable(node: Declaration): boolean {
+    const name = (node as { name?: string }).name;
+    return !!name && this.templates.get(name) === node;
   }
 
-  private visitForStatement(node: ForStatement): void {
-    this.emit('for (');
-
-    if (node.init) {
-      node.init.accept(this);
+  private hasTypeParameters(type: TypeNode): boolean {
+    if (type instanceof PrimitiveType) {
+      return this.templateParameterNames.has(type.name);
     }
-
-    this.emit('; ');
-
-    if (node.condition) {
-      node.condition.accept(this);
+    if (type instanceof GenericType) {
+      return type.typeArguments.some((arg) => this.hasTypeParameters(arg));
     }
-
-    this.emit('; ');
-
-    if (node.update) {
-      node.update.accept(this);
+    if (type instanceof ArrayType) {
+      return this.hasTypeParameters(type.elementType);
     }
-
-    this.emit(') {');
-    this.emitLine();
-
-    this.indent();
-    node.body.accept(this);
-    this.dedent();
-
-    this.emitLine('}');
-  }
-
-  private visitReturnStatement(node: ReturnStatement): void {
-    this.emit('return');
-
-    if (node.argument) {
-      this.emit(' ');
-      node.argument.accept(this);
+    if (type instanceof PointerType) {
+      return this.hasTypeParameters(type.pointeeType);
+    }
+    if (type instanceof ReferenceType) {
+      return this.hasTypeParameters(type.referencedType);
+    }
+    if (type instanceof FunctionType) {
+      return [...type.parameters, type.returnType].some((t) =>
+        this.hasTypeParameters(t)
+      );
+    }
+    if (type instanceof UnionType) {
+      return type.types.some((t) => this.hasTypeParameters(t));
+    }
+    if (type instanceof OptionalType) {
+      return this.hasTypeParameters(type.type);
     }
 
-    this.emit(';');
-    this.emitLine();
+    return false;
   }
 
-  private visitBinaryExpression(node: BinaryExpression): void {
-    /* handle type coercion for AssemblyScript */
-    const needsCoercion = this.requiresTypeCoercion(node);
+  /*
 
-    if (needsCoercion) {
-      this.emit('(');
-    }
+           getSpecializationName()
+             ---
+             the name a template is emitted under for an argument
+             list, built from the AssemblyScript argument types:
+             'Pair<int, float>' becomes 'Pair_i32_f32'.
 
-    node.left.accept(this);
-    this.emit(` ${this.mapOperator(node.operator)} `);
-    node.right.accept(this);
+  */
 
-    if (needsCoercion) {
-      this.emit(')');
-    }
+  private getSpecializationName(
+    template: TemplateDeclaration,
+    typeArguments: TypeNode[]
+  ): string {
+    const mangled = [
+      template.name,
+      ...typeArguments.map((type) => this.mapTypeToAssemblyScript(type)),
+    ]
+      .join('_')
+      .replace(/[^A-Za-z0-9_]+/g, '_')
+      .replace(/_+$/, '');
+
+    return CodegenUtils.sanitizeIdentifier(mangled, this.target);
   }
 
-  private visitUnaryExpression(node: UnaryExpression): void {
-    this.emit(this.mapOperator(node.operator));
-    node.argument.accept(this);
+  private findSpecialization(
+    template: TemplateDeclaration,
+    typeArguments: TypeNode[]
+  ): string | null {
+    const name = this.getSpecializationName(template, typeArguments);
+    const specializations = this.specializations.get(template) || [];
+
+    return specializations.some(
+      (specialization) => specialization.name === name
+    )
+      ? name
+      : null;
   }
 
-  private visitCallExpression(node: CallExpression): void {
-    node.callee.accept(this);
-    this.emit('(');
-
-    for (let i = 0; i < node.args.length; i++) {
-      if (i > 0) this.emit(', ');
-
-      /* handle type casting for function arguments */
-      const arg = node.args[i];
-      if (!arg) continue;
+  /*
 
-      const needsCast = this.requiresArgumentCast(arg, i);
+           getTypeSpecialization()
+             ---
+             the specialized name a type refers to: 'Box<int>',
+             a template named without arguments inside its own
+             body, or one whose arguments all have defaults.
 
-      if (needsCast) {
-        const castType = this.inferArgumentType(arg, i);
-        this.emit(`<${castType}>`);
-      }
+  */
 
-      arg.accept(this);
+  private getTypeSpecialization(
+    type: PrimitiveType | GenericType
+  ): string | null {
+    const template = this.templates.get(type.name);
+    if (!template) {
+      return null;
     }
 
-    this.emit(')');
-  }
-
-  private visitMemberExpression(node: MemberExpression): void {
-    node.object.accept(this);
-
-    if (node.computed) {
-      this.emit('[');
-      node.property.accept(this);
-      this.emit(']');
-    } else {
-      this.emit('.');
-      node.property.accept(this);
+    if (type instanceof GenericType) {
+      return this.findSpecialization(
+        template,
+        this.completeTypeArguments(template, type.typeArguments)
+      );
     }
-  }
 
-  private visitAssignmentExpression(node: AssignmentExpression): void {
-    node.left.accept(this);
-    this.emit(` ${node.operator} `);
-
-    /* handle type casting for assignments */
-    if (this.requiresAssignmentCast(node)) {
-      const targetType = this.inferTargetType(node.left);
-      this.emit(`<${targetType}>`);
+    if (
+      this.currentSpecialization &&
+      this.currentSpecialization.template === template
+    ) {
+      return this.currentSpecialization.name;
     }
 
-    node.right.accept(this);
+    const use = this.analysis && this.analysis.templateUses.get(type);
+    return use ? this.findSpecialization(template, use.typeArguments) : null;
   }
 
-  private visitIdentifier(node: Identifier): void {
-    const sanitized = CodegenUtils.sanitizeIdentifier(node.name, this.target);
-    this.emit(sanitized);
+  /* fills in defaulted arguments, which may refer to earlier ones */
+  private completeTypeArguments(
+    template: TemplateDeclaration,
+    typeArguments: TypeNode[]
+  ): TypeNode[] {
+    const bindings = new Map<string, TypeNode>();
+
+    return template.templateParameters.map((parameter, index) => {
+      const argument =
+        typeArguments[index] ||
+        (parameter.defaultType &&
+          this.substituteType(parameter.defaultType, bindings)) ||
+        new PrimitiveType('any', parameter.location);
+
+      bindings.set(parameter.name, argument);
+      return argument;
+    });
   }
 
-  private visitLiteral(node: Literal): void {
-    if (typeof node.value === 'string') {
-      const escaped = CodegenUtils.escapeString(node.value, this.target);
-      this.emit(`"${escaped}"`);
-    } else if (typeof node.value === 'number') {
-      const formatted = this.formatNumberForAssemblyScript(node.value);
-      this.emit(formatted);
-    } else if (typeof node.value === 'boolean') {
-      this.emit(node.value.toString());
-    } else if (node.value === null) {
-      this.emit('null');
-    } else {
-      this.emit(String(node.value));
+  private getCallSpecialization(
+    node: CallExpression | NewExpression
+  ): string | null {
+    const use = this.analysis && this.analysis.templateUses.get(node);
+    if (!use || !this.isSpecializable(use.template)) {
+      return null;
     }
+
+    return this.findSpecialization(use.template, use.typeArguments);
   }
 
   /*
 
-           type system visitors
+           getCallBindings()
+             ---
+             template arguments in effect for a call: those of
+             the class declaring a called method, and the call's
+             own explicit or inferred arguments.
 
   */
 
-  private visitPrimitiveType(node: PrimitiveType): void {
-    this.emit(this.mapTypeToAssemblyScript(node));
-  }
+  private getCallBindings(node: CallExpression): Map<string, TypeNode> {
+    const bindings = new Map<string, TypeNode>();
+    const callee = node.callee;
+
+    if (
+      callee instanceof MemberExpression &&
+      !callee.computed &&
+      callee.property instanceof Identifier
+    ) {
+      const objectType = this.stripReference(this.resolveType(callee.object));
+      const owner = this.getPointee(objectType) || objectType;
+      const found = owner && this.findMember(owner, callee.property.name);
+      found?.bindings.forEach((type, name) => bindings.set(name, type));
+    }
 
-  private visitArrayType(node: ArrayType): void {
-    const elementType = this.mapTypeToAssemblyScript(node.elementType);
-    this.emit(`Array<${elementType}>`);
-  }
+    const use = this.analysis && this.analysis.templateUses.get(node);
+    use?.template.templateParameters.forEach((parameter, index) => {
+      bindings.set(parameter.name, use.typeArguments[index]);
+    });
 
-  private visitPointerType(node: PointerType): void {
-    /* pointers become memory addresses in AssemblyScript */
-    this.emit('usize');
+    return bindings;
   }
 
-  private visitFunctionType(node: FunctionType): void {
-    this.emit('(');
-
-    for (let i = 0; i < node.parameters.length; i++) {
-      if (i > 0) this.emit(', ');
-      const param = node.parameters[i];
-      const paramType = this.mapTypeToAssemblyScript(param || 'any');
-      this.emit(`param${i}: ${paramType}`);
-    }
-
-    this.emit(') => ');
+  private getTemplateBindings(
+    declaration: TemplateDeclaration,
+    type: TypeNode
+  ): Map<string, TypeNode> {
+    const bindings = new Map<string, TypeNode>();
+
+    const use = this.analysis && this.analysis.templateUses.get(type);
+    const typeArguments =
+      type instanceof GenericType
+        ? type.typeArguments
+        : use
+          ? use.typeArguments
+          : [];
+
+    declaration.templateParameters.forEach((parameter, index) => {
+      const argument = typeArguments[index] || parameter.defaultType;
+      if (argument) {
+        bindings.set(parameter.name, argument);
+      }
+    });
 
-    const returnType = this.mapTypeToAssemblyScript(node.returnType);
-    this.emit(returnType);
+    return bindings;
   }
 
-  /*
+  private substituteType(
+    type: TypeNode,
+    bindings: Map<string, TypeNode>
+  ): TypeNode {
+    if (bindings.size === 0) {
+      return type;
+    }
 
-           utility methods specific to AssemblyScript
+    const substitute = (inner: TypeNode) =>
+      this.substituteType(inner, bindings);
+
+    if (type instanceof PrimitiveType) {
+      return bindings.get(type.name) || type;
+    }
+    if (type instanceof GenericType) {
+      return new GenericType(
+        type.name,
+        type.typeArguments.map(substitute),
+        type.location
+      );
+    }
+    if (type instanceof ArrayType) {
+      return new ArrayType(
+        substitute(type.elementType),
+        type.size,
+        type.location
+      );
+    }
+    if (type instanceof PointerType) {
+      return new PointerType(substitute(type.pointeeType), type.location);
+    }
+    if (type instanceof ReferenceType) {
+      return new ReferenceType(substitute(type.referencedType), type.location);
+    }
+    if (type instanceof FunctionType) {
+      return new FunctionType(
+        type.parameters.map(substitute),
+        substitute(type.returnType),
+        type.location
+      );
+    }
+    if (type instanceof UnionType) {
+      return new UnionType(type.types.map(substitute), type.location);
+    }
+    if (type instanceof OptionalType) {
+      return new OptionalType(substitute(type.type), type.location);
+    }
+
+    return type;
+  }
+
+  /*
+
+           visitTemplateDeclaration()
+             ---
+             emits a copy of a template for each argument list
+             it is instantiated with. the generic form is kept
+             for exported templates, for uses that cannot be
+             specialized and for templates that are never used.
+
+  */
+
+  private visitTemplateDeclaration(node: TemplateDeclaration): void {
+    const specializations = this.specializations.get(node) || [];
+    const emitGeneric =
+      specializations.length === 0 || this.genericTemplates.has(node);
+
+    if (emitGeneric) {
+      this.emitTemplateDeclaration(node);
+    } else {
+      this.exportNext = false;
+    }
+
+    const outerSpecialization = this.currentSpecialization;
+    const outerBindings = this.typeBindings;
+
+    specializations.forEach((specialization, index) => {
+      if (emitGeneric || index > 0) {
+        this.emitLine();
+      }
+
+      this.currentSpecialization = specialization;
+      this.typeBindings = specialization.bindings;
+      this.emitTemplateDeclaration(node);
+    });
+
+    this.currentSpecialization = outerSpecialization;
+    this.typeBindings = outerBindings;
+  }
+
+  private emitTemplateDeclaration(node: TemplateDeclaration): void {
+    if (node instanceof FunctionDeclaration) {
+      this.visitFunctionDeclaration(node);
+    } else if (node instanceof ClassDeclaration) {
+      this.visitClassDeclaration(node);
+    } else if (node instanceof InterfaceDeclaration) {
+      this.visitInterfaceDeclaration(node);
+    } else {
+      this.visitStructDeclaration(node);
+    }
+  }
+
+  /* the emitted name of a declaration, which a specialization replaces */
+  private getDeclarationName(node: TemplateDeclaration): string {
+    return this.currentSpecialization &&
+      this.currentSpecialization.template === node
+      ? this.currentSpecialization.name
+      : CodegenUtils.sanitizeIdentifier(node.name, this.target);
+  }
+
+  private generateDeclarationTypeParameters(node: TemplateDeclaration): string {
+    return this.currentSpecialization &&
+      this.currentSpecialization.template === node
+      ? ''
+      : this.generateTypeParameters(node.templateParameters);
+  }
+
+  /*
+
+           declaration visitors
+
+  */
+
+  private visitFunctionDeclaration(node: FunctionDeclaration): void {
+    const functionName = this.getDeclarationName(node);
+    this.enterScope(functionName);
+    this.functions.set(node.name, node);
+
+    if (node.isAsync) {
+      this.addError(
+        `Async function '${node.name}' is not supported by the AssemblyScript target`,
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+    }
+
+    if (node.isInline) {
+      this.emitLine('@inline');
+    }
+
+    let signature = this.takeExportPrefix();
+
+    /* prototypes become host imports */
+    if (!node.body) {
+      signature += 'declare ';
+    }
+
+    signature += `function ${functionName}`;
+    signature += this.generateDeclarationTypeParameters(node);
+    signature += this.generateSignature(node);
+
+    if (node.body) {
+      this.emitLine(`${signature} ${this.generateFunctionBody(node)}`);
+    } else {
+      this.emitLine(`${signature};`);
+    }
+
+    this.metadata.functionsEmitted++;
+    this.exitScope();
+  }
+
+  private visitVariableDeclaration(node: VariableDeclaration): void {
+    /* a static local keeps its value between calls, so it moves to module level */
+    if (node.isStatic && this.currentFunction) {
+      const owner = this.currentClass
+        ? `${this.currentClass.name}_${this.currentFunction.name}`
+        : this.currentFunction.name;
+      const emittedName = CodegenUtils.sanitizeIdentifier(
+        `${owner}_${node.name}`,
+        this.target
+      );
+
+      this.staticVariables.add(
+        `${this.generateVariableDeclaration(node, emittedName)};`
+      );
+      return;
+    }
+
+    if (node.isExtern) {
+      /* imported globals are immutable in WebAssembly */
+      this.checkType(node.type, node);
+      this.declareBinding(node.name, node.type);
+      const name = CodegenUtils.sanitizeIdentifier(node.name, this.target);
+      this.emitLine(
+        `${this.takeExportPrefix()}declare const ${name}: ${this.mapTypeToAssemblyScript(node.type)};`
+      );
+      return;
+    }
+
+    this.emitLine(
+      `${this.takeExportPrefix()}${this.generateVariableDeclaration(node)};`
+    );
+  }
+
+  private visitClassDeclaration(node: ClassDeclaration): void {
+    const className = this.getDeclarationName(node);
+    this.enterScope(className);
+    this.classes.set(node.name, node);
+
+    let classDecl = this.takeExportPrefix();
+
+    if (node.isAbstract) {
+      classDecl += 'abstract ';
+    }
+
+    classDecl += `class ${className}`;
+    classDecl += this.generateDeclarationTypeParameters(node);
+
+    /* handle inheritance */
+    if (node.superClass) {
+      classDecl += ` extends ${this.mapTypeToAssemblyScript(node.superClass)}`;
+    }
+
+    /* handle interfaces */
+    if (node.interfaces && node.interfaces.length > 0) {
+      const interfaceNames = node.interfaces
+        .map((i) => this.mapTypeToAssemblyScript(i))
+        .join(', ');
+      classDecl += ` implements ${interfaceNames}`;
+    }
+
+    classDecl += ' {';
+    this.emitLine(classDecl);
+
+    /* emit class body */
+    const outerClass = this.currentClass;
+    this.currentClass = node;
+    this.indent();
+    let previous: ClassMember | null = null;
+    for (const member of node.members) {
+      /* methods are separated by a blank line, fields are kept together */
+      if (
+        previous &&
+        (previous.member instanceof FunctionDeclaration ||
+          member.member instanceof FunctionDeclaration)
+      ) {
+        this.emitLine();
+      }
+
+      const outer = this.enterNode(member);
+      this.visitClassMember(member);
+      this.exitNode(outer);
+      previous = member;
+    }
+    this.dedent();
+    this.currentClass = outerClass;
+
+    this.emitLine('}');
+
+    this.metadata.classesEmitted++;
+    this.exitScope();
+  }
+
+  /*
+
+           visitClassMember()
+             ---
+             emits a field or method inside a class body. a method
+             named after its class (C++ style) or 'constructor'
+             becomes the class constructor.
+
+  */
+
+  private visitClassMember(node: ClassMember): void {
+    let modifiers = '';
+
+    if (node.accessModifier !== AccessModifier.Public) {
+      modifiers += `${node.accessModifier} `;
+    }
+
+    if (node.isStatic || node.member.isStatic) {
+      modifiers += 'static ';
+    }
+
+    if (node.isAbstract) {
+      modifiers += 'abstract ';
+    }
+
+    if (node.member instanceof VariableDeclaration) {
+      const field = node.member;
+      const name = CodegenUtils.sanitizeIdentifier(field.name, this.target);
+      const readonly = field.isConst ? 'readonly ' : '';
+      this.checkType(field.type, field);
+
+      if (field.initializer) {
+        const annotation = this.isAutoType(field.type)
+          ? ''
+          : `: ${this.mapTypeToAssemblyScript(field.type)}`;
+        const value = this.coerceExpression(
+          field.initializer,
+          field.type,
+          Precedence.ASSIGNMENT
+        );
+        this.emitLine(
+          `${modifiers}${readonly}${name}${annotation} = ${value};`
+        );
+        return;
+      }
+
+      const type = this.mapTypeToAssemblyScript(field.type);
+      const zero = this.getZeroValue(field.type);
+      if (zero !== null) {
+        this.emitLine(`${modifiers}${readonly}${name}: ${type} = ${zero};`);
+      } else {
+        this.emitLine(`${modifiers}${readonly}${name}!: ${type};`);
+      }
+      return;
+    }
+
+    this.emitMethod(node.member, modifiers);
+  }
+
+  /*
+
+           emitMethod()
+             ---
+             emits a class or struct method. 'operator+' style
+             members become methods decorated with @operator, so
+             expressions on the type keep their native operators.
+
+  */
+
+  private emitMethod(method: FunctionDeclaration, modifiers: string): void {
+    const isConstructor =
+      method.name === 'constructor' || method.name === this.currentClass.name;
+
+    if (method.isAsync) {
+      this.addError(
+        `Async method '${method.name}' is not supported by the AssemblyScript target`,
+        'UNSUPPORTED_FEATURE',
+        method
+      );
+    }
+
+    if (method.isInline) {
+      this.emitLine('@inline');
+    }
+
+    let name = CodegenUtils.sanitizeIdentifier(method.name, this.target);
+    if (/^operator\W/.test(method.name)) {
+      const operator = method.name.slice('operator'.length);
+      const prefix = method.parameters.length === 0 ? '.prefix' : '';
+      this.emitLine(`@operator${prefix}(${this.quoteString(operator)})`);
+      name = CodegenUtils.getOperatorMethodName(
+        operator,
+        method.parameters.length
+      );
+    }
+
+    let signature = modifiers;
+
+    if (isConstructor) {
+      signature += `constructor(${this.generateParameters(method.parameters)})`;
+    } else {
+      signature += name;
+      signature += this.generateTypeParameters(method.templateParameters);
+      signature += this.generateSignature(method);
+    }
+
+    if (method.body) {
+      this.emitLine(`${signature} ${this.generateFunctionBody(method)}`);
+    } else {
+      this.emitLine(`${signature};`);
+    }
+
+    this.metadata.functionsEmitted++;
+  }
+
+  private visitInterfaceDeclaration(node: InterfaceDeclaration): void {
+    const interfaceName = this.getDeclarationName(node);
+
+    let interfaceDecl = this.takeExportPrefix();
+
+    interfaceDecl += `interface ${interfaceName}`;
+    interfaceDecl += this.generateDeclarationTypeParameters(node);
+
+    /* handle inheritance */
+    if (node.extends_ && node.extends_.length > 0) {
+      const baseTypes = node.extends_
+        .map((e) => this.mapTypeToAssemblyScript(e))
+        .join(', ');
+      interfaceDecl += ` extends ${baseTypes}`;
+    }
+
+    interfaceDecl += ' {';
+    this.emitLine(interfaceDecl);
+
+    /* emit interface body */
+    this.indent();
+    for (const member of node.members) {
+      this.visitInterfaceMember(member);
+    }
+    this.dedent();
+
+    this.emitLine('}');
+  }
+
+  private visitInterfaceMember(node: InterfaceMember): void {
+    const member = node.member;
+    const name = CodegenUtils.sanitizeIdentifier(member.name, this.target);
+
+    if (member instanceof VariableDeclaration) {
+      this.checkType(member.type, member);
+      const readonly = member.isConst ? 'readonly ' : '';
+      this.emitLine(
+        `${readonly}${name}: ${this.mapTypeToAssemblyScript(member.type)};`
+      );
+      return;
+    }
+
+    this.emitLine(
+      `${name}${this.generateTypeParameters(member.templateParameters)}${this.generateSignature(member)};`
+    );
+  }
+
+  /*
+
+           visitStructDeclaration()
+             ---
+             structs become @unmanaged classes: their fields are
+             laid out in declaration order, they carry no runtime
+             header and are never traced by the garbage collector.
+             fields are limited to value types and pointers; a
+             nested struct field holds the address of a separate
+             instance rather than storing the struct inline.
+
+             a class instance is a reference, so 'clone()' makes
+             the copy a struct gets wherever WORLDC copies it by
+             value, nested structs included. 'clone' is therefore
+             reserved for struct methods.
+
+  */
+
+  private visitStructDeclaration(node: StructDeclaration): void {
+    const structName = this.getDeclarationName(node);
+    this.structs.set(node.name, node);
+
+    this.emitLine('@unmanaged');
+    this.emitLine(
+      `${this.takeExportPrefix()}class ${structName}${this.generateDeclarationTypeParameters(node)} {`
+    );
+
+    this.indent();
+    for (const member of node.members) {
+      const access =
+        member.accessModifier !== AccessModifier.Public
+          ? `${member.accessModifier} `
+          : '';
+      const name = CodegenUtils.sanitizeIdentifier(member.name, this.target);
+
+      if (!this.isUnmanagedFieldType(member.type, node)) {
+        this.addError(
+          `Field '${member.name}' of struct '${node.name}' has managed type '${this.mapTypeToAssemblyScript(member.type)}'; struct fields must be value types or pointers`,
+          'UNSUPPORTED_STRUCT_FIELD',
+          member
+        );
+      }
+
+      const type = this.mapTypeToAssemblyScript(member.type);
+      const zero = this.getZeroValue(member.type);
+
+      if (zero !== null) {
+        this.emitLine(`${access}${name}: ${type} = ${zero};`);
+      } else {
+        this.emitLine(`${access}${name}!: ${type};`);
+      }
+    }
+
+    this.emitLine();
+    this.emitStructClone(node, structName);
+
+    const outerClass = this.currentClass;
+    this.currentClass = node;
+    for (const method of node.methods) {
+      if (method.name === 'clone') {
+        this.addError(
+          `Struct '${node.name}' cannot declare 'clone', which copies structs`,
+          'RESERVED_STRUCT_MEMBER',
+          method
+        );
+      }
+
+      this.emitLine();
+      this.emitMethod(method, '');
+    }
+    this.currentClass = outerClass;
+    this.dedent();
+
+    this.emitLine('}');
+
+    this.metadata.classesEmitted++;
+  }
+
+  /* 'clone()' copies each field; pointers keep their address */
+  private emitStructClone(node: StructDeclaration, structName: string): void {
+    const typeArguments = this.generateDeclarationTypeParameters(node)
+      ? `<${node.templateParameters.map((tp) => tp.name).join(', ')}>`
+      : '';
+    const type = `${structName}${typeArguments}`;
+
+    this.emitLine(`clone(): ${type} {`);
+    this.indent();
+    this.emitLine(`const copy = new ${type}();`);
+    for (const member of node.members) {
+      const name = CodegenUtils.sanitizeIdentifier(member.name, this.target);
+      const fieldType = this.substituteType(member.type, this.typeBindings);
+      const value =
+        fieldType instanceof PrimitiveType && this.isStructName(fieldType.name)
+          ? `this.${name}.clone()`
+          : `this.${name}`;
+      this.emitLine(`copy.${name} = ${value};`);
+    }
+    this.emitLine('return copy;');
+    this.dedent();
+    this.emitLine('}');
+  }
+
+  /*
+
+           visitEnumDeclaration()
+             ---
+             enums become const enums, which are inlined as i32
+             constants and leave nothing behind at runtime.
+
+  */
+
+  private visitEnumDeclaration(node: EnumDeclaration): void {
+    const enumName = CodegenUtils.sanitizeIdentifier(node.name, this.target);
+    this.enums.add(node.name);
+
+    if (
+      node.underlyingType &&
+      this.mapTypeToAssemblyScript(node.underlyingType) !== 'i32'
+    ) {
+      this.addWarning(
+        `Enum '${node.name}' is stored as i32 in AssemblyScript`,
+        'ENUM_UNDERLYING_TYPE',
+        node
+      );
+    }
+
+    this.emitLine(`${this.takeExportPrefix()}const enum ${enumName} {`);
+
+    this.indent();
+    for (const member of node.members) {
+      const name = CodegenUtils.sanitizeIdentifier(member.name, this.target);
+      if (member.value) {
+        this.emitLine(`${name} = ${this.generateExpression(member.value)},`);
+      } else {
+        this.emitLine(`${name},`);
+      }
+    }
+    this.dedent();
+
+    this.emitLine('}');
+  }
+
+  private visitNamespaceDeclaration(node: NamespaceDeclaration): void {
+    const namespaceName = CodegenUtils.sanitizeIdentifier(
+      node.name,
+      this.target
+    );
+    this.enterScope(namespaceName);
+
+    this.emitLine(`${this.takeExportPrefix()}namespace ${namespaceName} {`);
+
+    /* namespace members are only reachable from outside when exported */
+    this.indent();
+    node.declarations.forEach((declaration, index) => {
+      if (index > 0) {
+        this.emitLine();
+      }
+      this.exportNext = true;
+      declaration.accept(this);
+    });
+    this.dedent();
+
+    this.emitLine('}');
+
+    this.metadata.modulesEmitted++;
+    this.exitScope();
+  }
+
+  private visitTypeAliasDeclaration(node: TypeAliasDeclaration): void {
+    const aliasName = CodegenUtils.sanitizeIdentifier(node.name, this.target);
+    this.checkType(node.type, node);
+
+    this.emitLine(
+      `${this.takeExportPrefix()}type ${aliasName}${this.generateTypeParameters(node.templateParameters)} = ${this.mapTypeToAssemblyScript(node.type)};`
+    );
+  }
+
+  /* modules compile to 'name.as.ts' next to the TypeScript 'name.ts' */
+  protected getModuleSuffix(): string {
+    return '.as';
+  }
+
+  private visitImportDeclaration(node: ImportDeclaration): void {
+    const source = this.quoteString(this.getModuleSource(node.source));
+
+    if (node.specifiers.length === 0) {
+      this.emitLine(`import ${source};`);
+      return;
+    }
+
+    /* AssemblyScript modules have no default exports */
+    const named = node.specifiers.map((specifier) =>
+      specifier.imported === specifier.local
+        ? specifier.imported
+        : `${specifier.imported} as ${specifier.local}`
+    );
+
+    this.emitLine(`import { ${named.join(', ')} } from ${source};`);
+  }
+
+  private visitExportDeclaration(node: ExportDeclaration): void {
+    if (node.declaration) {
+      this.exportNext = true;
+      node.declaration.accept(this);
+      return;
+    }
+
+    const specifiers = node.specifiers.map((specifier) =>
+      specifier.local === specifier.exported
+        ? specifier.local
+        : `${specifier.local} as ${specifier.exported}`
+    );
+
+    let code =
+      specifiers.length > 0
+        ? `export { ${specifiers.join(', ')} }`
+        : 'export {}';
+
+    if (node.source !== null) {
+      code += ` from ${this.quoteString(this.getModuleSource(node.source))}`;
+    }
+
+    this.emitLine(`${code};`);
+  }
+
+  /*
+
+           statement visitors
+
+  */
+
+  private visitBlockStatement(node: BlockStatement): void {
+    /* a block nested directly in a statement list keeps its braces */
+    this.emitLine(this.generateBlock(node));
+  }
+
+  private visitExpressionStatement(node: ExpressionStatement): void {
+    let code = this.generateDiscardedExpression(node.expression);
+
+    /* a leading brace or 'function' would be read as a statement */
+    if (code.startsWith('{') || code.startsWith('function')) {
+      code = `(${code})`;
+    }
+
+    this.emitLine(`${code};`);
+  }
+
+  private visitIfStatement(node: IfStatement): void {
+    this.emitLine(`if (${this.generateExpression(node.condition)}) {`);
+    this.emitBody(node.thenStatement);
+
+    /* flatten else-if chains instead of nesting them */
+    let alternate = node.elseStatement;
+    while (alternate instanceof IfStatement) {
+      this.emitLine(
+        `} else if (${this.generateExpression(alternate.condition)}) {`
+      );
+      this.emitBody(alternate.thenStatement);
+      alternate = alternate.elseStatement;
+    }
+
+    if (alternate) {
+      this.emitLine('} else {');
+      this.emitBody(alternate);
+    }
+
+    this.emitLine('}');
+  }
+
+  private visitWhileStatement(node: WhileStatement): void {
+    this.emitLine(`while (${this.generateExpression(node.condition)}) {`);
+    this.emitBody(node.body);
+    this.emitLine('}');
+  }
+
+  private visitDoWhileStatement(node: DoWhileStatement): void {
+    this.emitLine('do {');
+    this.emitBody(node.body);
+    this.emitLine(`} while (${this.generateExpression(node.condition)});`);
+  }
+
+  private visitForStatement(node: ForStatement): void {
+    /* the loop variable is scoped to the loop */
+    this.pushBindings();
+
+    let init = '';
+
+    if (node.init instanceof VariableDeclaration) {
+      init = this.generateVariableDeclaration(node.init);
+    } else if (node.init instanceof ExpressionStatement) {
+      init = this.generateDiscardedExpression(node.init.expression);
+    } else if (node.init instanceof Expression) {
+      init = this.generateDiscardedExpression(node.init);
+    }
+
+    const condition = node.condition
+      ? ` ${this.generateExpression(node.condition)}`
+      : '';
+    const update = node.update
+      ? ` ${this.generateDiscardedExpression(node.update)}`
+      : '';
+
+    this.emitLine(`for (${init};${condition};${update}) {`);
+    this.emitBody(node.body);
+    this.emitLine('}');
+
+    this.popBindings();
+  }
+
+  /*
+
+           visitForOfStatement()
+             ---
+             AssemblyScript has no iterator protocol, so for-of
+             over an array is lowered to an indexed loop over a
+             temporary holding the iterated array.
+
+  */
+
+  private visitForOfStatement(node: ForOfStatement): void {
+    if (node.isAsync) {
+      this.addError(
+        'for await loops are not supported by the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+      return;
+    }
+
+    const iterableType = this.stripReference(this.resolveType(node.iterable));
+    const elementType = this.getElementType(iterableType);
+
+    if (!elementType) {
+      this.addError(
+        'for-of loops are only supported over arrays in the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+      return;
+    }
+
+    const id = this.temporaryCount++;
+    const array = `_array${id}`;
+    const index = `_i${id}`;
+    const variable = CodegenUtils.sanitizeIdentifier(
+      node.variable,
+      this.target
+    );
+
+    this.pushBindings();
+    this.emitLine(
+      `const ${array} = ${this.generateExpression(node.iterable)};`
+    );
+    this.emitLine(
+      `for (let ${index} = 0; ${index} < ${array}.length; ${index}++) {`
+    );
+
+    this.indent();
+    this.declareBinding(node.variable, elementType);
+    this.emitLine(`const ${variable} = ${array}[${index}];`);
+    this.dedent();
+
+    this.emitBody(node.body);
+    this.emitLine('}');
+    this.popBindings();
+  }
+
+  private visitSwitchStatement(node: SwitchStatement): void {
+    this.emitLine(`switch (${this.generateExpression(node.discriminant)}) {`);
+
+    this.indent();
+    for (const switchCase of node.cases) {
+      if (switchCase.test) {
+        this.emitLine(`case ${this.generateExpression(switchCase.test)}:`);
+      } else {
+        this.emitLine('default:');
+      }
+
+      this.indent();
+      for (const statement of switchCase.statements) {
+        statement.accept(this);
+      }
+      this.dedent();
+    }
+    this.dedent();
+
+    this.emitLine('}');
+  }
+
+  /*
+
+           visitTryStatement()
+             ---
+             exceptions abort the module in AssemblyScript and
+             cannot be caught. a try/finally runs its body and
+             then its finalizer; a catch clause is an error.
+
+  */
+
+  private visitTryStatement(node: TryStatement): void {
+    if (node.handler) {
+      this.addError(
+        'catch clauses are not supported by the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node.handler
+      );
+    }
+
+    this.visitBlockStatement(node.body);
+
+    if (node.finalizer) {
+      this.visitBlockStatement(node.finalizer);
+    }
+  }
+
+  private visitReturnStatement(node: ReturnStatement): void {
+    if (!node.argument) {
+      this.emitLine('return;');
+      return;
+    }
+
+    const returnType = this.currentFunction
+      ? this.currentFunction.returnType
+      : null;
+    this.emitLine(
+      `return ${this.coerceExpression(node.argument, returnType)};`
+    );
+  }
+
+  private visitJumpStatement(node: BreakStatement | ContinueStatement): void {
+    const keyword = node instanceof BreakStatement ? 'break' : 'continue';
+
+    if (node.label) {
+      this.addError(
+        `Labeled ${keyword} is not supported by the AssemblyScript target`,
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+      return;
+    }
+
+    this.emitLine(`${keyword};`);
+  }
+
+  /*
+
+           emitBody()
+             ---
+             compound statement bodies open a binding scope so
+             block-local declarations do not leak out.
+
+  */
+
+  protected emitBody(body: Statement): void {
+    this.pushBindings();
+    super.emitBody(body);
+    this.popBindings();
+  }
+
+  /*
+
+           expression generation
+
+  */
+
+  /*
+
+           generateExpression()
+             ---
+             renders an expression, wrapping it in parentheses
+             when it binds looser than the surrounding context.
+
+  */
+
+  private generateExpression(
+    node: Expression,
+    minPrecedence: number = 0
+  ): string {
+    const code = this.generateExpressionCode(node);
+    return this.getPrecedence(node) < minPrecedence ? `(${code})` : code;
+  }
+
+  /*
+
+           generateDiscardedExpression()
+             ---
+             renders an expression whose value is unused. pointer
+             and memory updates can then use their cheaper
+             statement forms.
+
+  */
+
+  private generateDiscardedExpression(node: Expression): string {
+    if (node instanceof UpdateExpression) {
+      const memory = this.getMemoryTarget(node.argument);
+      if (memory) {
+        const operator = node.operator === '++' ? '+' : '-';
+        return this.storeTo(memory, `${this.loadFrom(memory)} ${operator} 1`);
+      }
+
+      const pointee = this.getPointee(this.resolveType(node.argument));
+      if (pointee) {
+        const operator = node.operator === '++' ? '+=' : '-=';
+        return `${this.generateExpression(node.argument, Precedence.MEMBER)} ${operator} ${this.sizeOfType(pointee)}`;
+      }
+    }
+
+    return this.generateExpression(node);
+  }
+
+  private generateExpressionCode(node: Expression): string {
+    /* user-defined operators stay native through @operator methods */
+    const operatorUse = this.analysis?.operatorUses.get(node);
+    if (operatorUse && operatorUse.operation) {
+      return this.generateVectorOperation(node, operatorUse);
+    }
+
+    /* structs are values: 'P b = a;' copies 'a' */
+    if (this.analysis?.structCopies.has(node)) {
+      return `${this.generateCopySource(node)}.clone()`;
+    }
+
+    if (node instanceof Identifier) {
+      return this.generateIdentifier(node);
+    }
+
+    if (node instanceof Literal) {
+      return this.generateLiteral(node);
+    }
+
+    if (node instanceof BinaryExpression || node instanceof LogicalExpression) {
+      return this.generateBinary(node);
+    }
+
+    if (node instanceof UnaryExpression) {
+      return this.generateUnary(node);
+    }
+
+    if (node instanceof UpdateExpression) {
+      return this.generateUpdate(node);
+    }
+
+    if (node instanceof AssignmentExpression) {
+      return this.generateAssignment(node);
+    }
+
+    if (node instanceof ConditionalExpression) {
+      const test = this.generateExpression(
+        node.test,
+        Precedence.CONDITIONAL + 1
+      );
+      const consequent = this.generateExpression(
+        node.consequent,
+        Precedence.ASSIGNMENT
+      );
+      const alternate = this.generateExpression(
+        node.alternate,
+        Precedence.ASSIGNMENT
+      );
+      return `${test} ? ${consequent} : ${alternate}`;
+    }
+
+    if (node instanceof CallExpression) {
+      if (
+        node.callee instanceof Identifier &&
+        this.isVectorType(node.callee.name)
+      ) {
+        return this.generateVectorConstruction(node.callee.name, node.args);
+      }
+
+      /* specialized templates are called by name without type arguments */
+      const specialization = this.getCallSpecialization(node);
+      const callee =
+        specialization ||
+        `${this.generateExpression(node.callee, Precedence.MEMBER)}${this.generateTypeArguments(node.templateArguments)}`;
+      const parameters = this.getCalleeParameters(node.callee);
+      return `${callee}(${this.generateArguments(node.args, parameters, this.getCallBindings(node))})`;
+    }
+
+    if (node instanceof MemberExpression) {
+      return this.generateMember(node);
+    }
+
+    if (node instanceof NewExpression) {
+      /* 'new f()()' would call the result instead of constructing it */
+      const specialization = this.getCallSpecialization(node);
+      if (specialization) {
+        return `new ${specialization}(${this.generateArguments(node.args, null)})`;
+      }
+
+      const callee =
+        node.callee instanceof CallExpression
+          ? `(${this.generateExpression(node.callee)})`
+          : this.generateExpression(node.callee, Precedence.MEMBER);
+      return `new ${callee}${this.generateTypeArguments(node.templateArguments)}(${this.generateArguments(node.args, null)})`;
+    }
+
+    if (node instanceof ArrayExpression) {
+      const elements = node.elements.map((element) => {
+        if (!element) {
+          this.addError(
+            'Array holes are not supported by the AssemblyScript target',
+            'UNSUPPORTED_FEATURE',
+            node
+          );
+          return '';
+        }
+        return this.generateExpression(element, Precedence.ASSIGNMENT);
+      });
+      return `[${elements.join(', ')}]`;
+    }
+
+    if (node instanceof ObjectExpression) {
+      if (node.properties.length === 0) {
+        return '{}';
+      }
+      const properties = node.properties.map((p) => this.generateProperty(p));
+      return `{ ${properties.join(', ')} }`;
+    }
+
+    if (
+      node instanceof ArrowFunctionExpression ||
+      node instanceof LambdaExpression ||
+      node instanceof FunctionExpression
+    ) {
+      return this.generateFunctionExpression(node);
+    }
+
+    if (node instanceof ThisExpression) {
+      return 'this';
+    }
+
+    if (node instanceof SuperExpression) {
+      return 'super';
+    }
+
+    if (node instanceof TemplateLiteral) {
+      let code = '`';
+      node.quasis.forEach((quasi, index) => {
+        code += quasi.value.raw;
+        const expression = node.expressions[index];
+        if (expression) {
+          code += `\${${this.generateExpression(expression)}}`;
+        }
+      });
+      return `${code}\``;
+    }
+
+    if (node instanceof AwaitExpression) {
+      this.addError(
+        'await is not supported by the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+      return this.generateExpression(node.argument, Precedence.UNARY);
+    }
+
+    if (node instanceof YieldExpression) {
+      this.addError(
+        'Generators are not supported by the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+      return node.argument ? this.generateExpression(node.argument) : '';
+    }
+
+    this.addError(
+      `Unsupported expression type: ${node.constructor.name}`,
+      'UNSUPPORTED_EXPRESSION',
+      node
+    );
+    return '0';
+  }
+
+  private getPrecedence(node: Expression): number {
+    /* vector operators become calls, except 'a != b' and 'v += w' */
+    const operatorUse = this.analysis?.operatorUses.get(node);
+    if (
+      operatorUse &&
+      operatorUse.operation &&
+      !(node instanceof AssignmentExpression)
+    ) {
+      return operatorUse.operator === '!='
+        ? Precedence.UNARY
+        : Precedence.MEMBER;
+    }
+
+    if (this.analysis?.structCopies.has(node)) {
+      return Precedence.MEMBER;
+    }
+
+    /* '??' is lowered to a conditional expression */
+    if (node instanceof LogicalExpression && node.operator === '??') {
+      return Precedence.CONDITIONAL;
+    }
+
+    if (node instanceof BinaryExpression || node instanceof LogicalExpression) {
+      return BINARY_PRECEDENCE[node.operator] ?? BINARY_PRECEDENCE['+'];
+    }
+
+    if (
+      node instanceof AssignmentExpression ||
+      node instanceof ArrowFunctionExpression ||
+      node instanceof LambdaExpression ||
+      node instanceof YieldExpression
+    ) {
+      return Precedence.ASSIGNMENT;
+    }
+
+    if (node instanceof ConditionalExpression) {
+      return Precedence.CONDITIONAL;
+    }
+
+    if (node instanceof UnaryExpression || node instanceof AwaitExpression) {
+      return Precedence.UNARY;
+    }
+
+    if (node instanceof UpdateExpression) {
+      return node.prefix ? Precedence.UNARY : Precedence.POSTFIX;
+    }
+
+    if (
+      node instanceof CallExpression ||
+      node instanceof MemberExpression ||
+      node instanceof NewExpression
+    ) {
+      return Precedence.MEMBER;
+    }
+
+    return Precedence.PRIMARY;
+  }
+
+  /*
+
+           generateBinary()
+             ---
+             renders a binary expression. pointer operands are
+             scaled by their element size, and mixed numeric
+             operands are converted to a common type the way C
+             would convert them implicitly.
+
+  */
+
+  private generateBinary(node: BinaryExpression | LogicalExpression): string {
+    if (node.operator === '??') {
+      return this.generateNullishCoalescing(node);
+    }
+
+    const precedence = this.getPrecedence(node);
+    const leftType = this.resolveType(node.left);
+    const rightType = this.resolveType(node.right);
+    const leftPointee = this.getPointee(leftType);
+    const rightPointee = this.getPointee(rightType);
+
+    /* pointer arithmetic counts in elements, not bytes */
+    if (node.operator === '-' && leftPointee && rightPointee) {
+      const left = this.generateExpression(node.left, precedence);
+      const right = this.generateExpression(node.right, precedence + 1);
+      return `<i32>((${left} - ${right}) / ${this.sizeOfType(leftPointee)})`;
+    }
+    if ((node.operator === '+' || node.operator === '-') && leftPointee) {
+      const left = this.generateExpression(node.left, precedence);
+      return `${left} ${node.operator} ${this.scaleIndex(node.right, leftPointee)}`;
+    }
+    if (node.operator === '+' && rightPointee) {
+      const right = this.generateExpression(node.right, precedence + 1);
+      return `${this.scaleIndex(node.left, rightPointee)} + ${right}`;
+    }
+
+    let left = this.generateExpression(node.left, precedence);
+    let right = this.generateExpression(node.right, precedence + 1);
+
+    /* addresses compare against 0, not null */
+    if (leftPointee && this.isNullLiteral(node.right)) {
+      right = '0';
+    } else if (rightPointee && this.isNullLiteral(node.left)) {
+      left = '0';
+    }
+
+    if (ARITHMETIC_OPERATORS.has(node.operator)) {
+      const common = this.getCommonNumericType(node.left, node.right);
+      if (common) {
+        left = this.coerceExpression(node.left, common, precedence);
+        right = this.coerceExpression(node.right, common, precedence + 1);
+      }
+    }
+
+    return `${left} ${node.operator} ${right}`;
+  }
+
+  private generateNullishCoalescing(node: LogicalExpression): string {
+    /* the left operand is evaluated twice, so it must be side-effect free */
+    if (
+      !(
+        node.left instanceof Identifier ||
+        node.left instanceof ThisExpression ||
+        (node.left instanceof MemberExpression && !node.left.computed)
+      )
+    ) {
+      this.addError(
+        "'??' is only supported on variables and fields by the AssemblyScript target",
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+    }
+
+    const left = this.generateExpression(node.left, Precedence.MEMBER);
+    const right = this.generateExpression(node.right, Precedence.ASSIGNMENT);
+    return `${left} != null ? ${left} : ${right}`;
+  }
+
+  private generateUnary(node: UnaryExpression): string {
+    if (node.operator === 'sizeof') {
+      return this.generateSizeof(node);
+    }
+
+    if (node.operator === '*') {
+      const pointee = this.getPointee(this.resolveType(node.argument));
+      if (!pointee) {
+        this.addError(
+          'Cannot dereference a value that is not a pointer',
+          'INVALID_DEREFERENCE',
+          node
+        );
+        return this.generateExpression(node.argument, Precedence.UNARY);
+      }
+      return this.loadFrom({
+        address: this.generateExpression(node.argument),
+        pointee,
+      });
+    }
+
+    if (node.operator === '&') {
+      return this.generateAddressOf(node);
+    }
+
+    if (['typeof', 'delete', 'void'].includes(node.operator)) {
+      this.addError(
+        `The '${node.operator}' operator is not supported by the AssemblyScript target`,
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+    }
+
+    let argument = this.generateExpression(node.argument, Precedence.UNARY);
+
+    if (!node.prefix) {
+      return `${argument}${node.operator}`;
+    }
+
+    /* keyword operators need a space, '- -x' must not become '--x' */
+    if (/^[a-z]/.test(node.operator)) {
+      return `${node.operator} ${argument}`;
+    }
+    if (
+      (node.operator === '-' || node.operator === '+') &&
+      argument.startsWith(node.operator)
+    ) {
+      argument = `(${argument})`;
+    }
+
+    return `${node.operator}${argument}`;
+  }
+
+  private generateSizeof(node: UnaryExpression): string {
+    const argument = node.argument;
+
+    /* 'sizeof(Type)' names a type rather than a value */
+    if (
+      argument instanceof Identifier &&
+      !this.lookupBinding(argument.name) &&
+      (this.structs.has(argument.name) ||
+        this.classes.has(argument.name) ||
+        this.typeMapping.has(argument.name))
+    ) {
+      return this.sizeOfType(
+        new PrimitiveType(argument.name, argument.location)
+      );
+    }
+
+    const type = this.resolveType(argument);
+    if (!type) {
+      this.addError(
+        'Cannot determine the operand type of sizeof',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+      return '0';
+    }
+
+    return this.sizeOfType(this.stripReference(type));
+  }
+
+  /*
+
+           generateAddressOf()
+             ---
+             structs and classes already live in linear memory,
+             so their address is the reference itself. locals of
+             value type have no address in WebAssembly.
+
+  */
+
+  private generateAddressOf(node: UnaryExpression): string {
+    const memory = this.getMemoryTarget(node.argument);
+    if (memory) {
+      return memory.address;
+    }
+
+    const type = this.stripReference(this.resolveType(node.argument));
+    if (type && this.isStructOrClass(type)) {
+      return `changetype<usize>(${this.generateExpression(node.argument)})`;
+    }
+
+    this.addError(
+      'Cannot take the address of a value-typed variable in the AssemblyScript target',
+      'UNSUPPORTED_FEATURE',
+      node
+    );
+    return '0';
+  }
+
+  private generateUpdate(node: UpdateExpression): string {
+    if (this.getMemoryTarget(node.argument)) {
+      this.addError(
+        'Incrementing through a pointer is only supported as a statement in the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+    }
+
+    const argument = this.generateExpression(node.argument, Precedence.POSTFIX);
+    const pointee = this.getPointee(this.resolveType(node.argument));
+
+    if (pointee) {
+      const size = this.sizeOfType(pointee);
+      const [update, undo] = node.operator === '++' ? ['+=', '-'] : ['-=', '+'];
+      return node.prefix
+        ? `(${argument} ${update} ${size})`
+        : `((${argument} ${update} ${size}) ${undo} ${size})`;
+    }
+
+    return node.prefix
+      ? `${node.operator}${argument}`
+      : `${argument}${node.operator}`;
+  }
+
+  private generateAssignment(node: AssignmentExpression): string {
+    const memory = this.getMemoryTarget(node.left);
+
+    if (memory) {
+      if (node.operator === '=') {
+        return this.storeTo(
+          memory,
+          this.coerceExpression(
+            node.right,
+            memory.pointee,
+            Precedence.ASSIGNMENT
+          )
+        );
+      }
+
+      /* 'x op= y' stores 'x op y' */
+      const operator = node.operator.slice(0, -1);
+      const precedence = BINARY_PRECEDENCE[operator] ?? BINARY_PRECEDENCE['+'];
+      const right = this.coerceExpression(
+        node.right,
+        memory.pointee,
+        precedence + 1
+      );
+      return this.storeTo(
+        memory,
+        `${this.loadFrom(memory)} ${operator} ${right}`
+      );
+    }
+
+    const leftType = this.resolveType(node.left);
+    const left = this.generateExpression(node.left, Precedence.MEMBER);
+    const pointee = this.getPointee(leftType);
+
+    if (pointee && (node.operator === '+=' || node.operator === '-=')) {
+      return `${left} ${node.operator} ${this.scaleIndex(node.right, pointee)}`;
+    }
+
+    if (pointee && this.isNullLiteral(node.right)) {
+      return `${left} ${node.operator} 0`;
+    }
+
+    const coerce = !['<<=', '>>=', '>>>=', '&=', '|=', '^='].includes(
+      node.operator
+    );
+    const right = coerce
+      ? this.coerceExpression(node.right, leftType, Precedence.ASSIGNMENT)
+      : this.generateExpression(node.right, Precedence.ASSIGNMENT);
+
+    return `${left} ${node.operator} ${right}`;
+  }
+
+  private generateMember(node: MemberExpression): string {
+    if (node.optional) {
+      this.addError(
+        'Optional chaining is not supported by the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+    }
+
+    const objectType = this.stripReference(this.resolveType(node.object));
+    const pointee = this.getPointee(objectType);
+
+    /* 'p[i]' reads memory, 'p->x' views the address as a struct */
+    if (pointee && node.computed) {
+      return this.loadFrom(this.getMemoryTarget(node));
+    }
+
+    const object = pointee
+      ? `changetype<${this.mapTypeToAssemblyScript(pointee)}>(${this.generateExpression(node.object)})`
+      : this.generateExpression(node.object, Precedence.MEMBER);
+
+    if (node.computed) {
+      return `${object}[${this.generateExpression(node.property)}]`;
+    }
+
+    /* 'v.xy' builds a new vector, 'c.r' reads the 'x' field */
+    const swizzle = this.analysis?.swizzles.get(node);
+    if (swizzle && node.property instanceof Identifier) {
+      const fields = getSwizzleIndices(node.property.name)!.map(
+        (index) => 'xyzw'[index]
+      );
+      if (fields.length === 1) {
+        return `${object}.${fields[0]}`;
+      }
+
+      const className = this.useMathClass(swizzle.name);
+      return this.isSimpleOperand(node.object)
+        ? `new ${className}(${fields.map((f) => `${object}.${f}`).join(', ')})`
+        : `${className}.swizzle(${object}, ${getSwizzleIndices(node.property.name)!.join(', ')})`;
+    }
+
+    const property = this.generateExpression(node.property, Precedence.PRIMARY);
+    return `${object}.${property}`;
+  }
+
+  /*
+
+           generateVectorOperation()
+             ---
+             lowers an operator the analyzer resolved to vector
+             math. component-wise operations on variables and
+             fields are inlined as f32 (or i32) arithmetic; other
+             operands go through the prelude helpers so they are
+             evaluated once. copying a vector variable clones it,
+             since vectors are values in WORLDC.
+
+  */
+
+  private generateVectorOperation(node: Expression, use: OperatorUse): string {
+    const { name, owner, reversed } = use.operation!;
+    const className = this.useMathClass(owner.name);
+    const component = this.mapTypeToAssemblyScript(
+      this.typeRegistry.getType(owner.name)!.componentType!.name
+    );
+
+    let operands: Expression[];
+    if (
+      node instanceof BinaryExpression ||
+      node instanceof AssignmentExpression
+    ) {
+      operands = [node.left, node.right];
+    } else if (node instanceof UnaryExpression) {
+      operands = [node.argument];
+    } else {
+      /* a vector value copied out of a variable or field */
+      operands = [node];
+    }
+    if (reversed) {
+      operands.reverse();
+    }
+
+    /* the scalar of 'v * 2.0' is converted to the component type */
+    const isScalar = (index: number) =>
+      index === 1 && (name === 'scale' || name === 'divScalar');
+    const vectorOperand = (operand: Expression) =>
+      operand === node
+        ? this.generateCopySource(operand)
+        : this.generateExpression(operand, Precedence.MEMBER);
+
+    let code: string;
+    const inline =
+      !owner.isMatrix &&
+      (name in COMPONENTWISE_OPERATORS ||
+        name === 'negate' ||
+        name === 'clone') &&
+      !(owner.isQuaternion && name === 'mul') &&
+      operands.every((operand) => this.isSimpleOperand(operand));
+
+    if (inline) {
+      const operator = COMPONENTWISE_OPERATORS[name];
+      const precedence = BINARY_PRECEDENCE[operator];
+      const [left, right] = operands.map((operand, index) =>
+        isScalar(index)
+          ? this.coerceExpression(operand, component, precedence + 1)
+          : vectorOperand(operand)
+      );
+
+      const fields = ['x', 'y', 'z', 'w'].slice(0, owner.componentCount);
+      const values = fields.map((field) => {
+        if (name === 'negate') {
+          return `-${left}.${field}`;
+        }
+        if (name === 'clone') {
+          return `${left}.${field}`;
+        }
+        const value = isScalar(1) ? right : `${right}.${field}`;
+        return `${left}.${field} ${operator} ${value}`;
+      });
+      code = `new ${className}(${values.join(', ')})`;
+    } else {
+      const args = operands.map((operand, index) =>
+        isScalar(index)
+          ? this.coerceExpression(operand, component, Precedence.ASSIGNMENT)
+          : operand === node
+            ? this.generateCopySource(operand)
+            : this.generateExpression(operand, Precedence.ASSIGNMENT)
+      );
+      code = `${className}.${name}(${args.join(', ')})`;
+      if (use.operator === '!=') {
+        code = `!${code}`;
+      }
+    }
+
+    /* compound assignment stores the result ('v = Vec3.add(v, w)') */
+    if (node instanceof AssignmentExpression) {
+      return `${this.generateExpression(node.left, Precedence.MEMBER)} = ${code}`;
+    }
+
+    return code;
+  }
+
+  /*
+
+           generateVectorConstruction()
+             ---
+             'vec3()' is the zero vector (identity for quat and
+             matrices), 'vec3(s)' fills every component (the
+             diagonal of a matrix) and 'vec3(x, y, z)' sets each.
+
+  */
+
+  private generateVectorConstruction(
+    typeName: string,
+    args: Expression[]
+  ): string {
+    const type = this.typeRegistry.getType(typeName)!;
+    const className = this.useMathClass(typeName);
+    const component = this.mapTypeToAssemblyScript(type.componentType!.name);
+    const values = args.map((arg) =>
+      this.coerceExpression(arg, component, Precedence.ASSIGNMENT)
+    );
+
+    if (args.length === 1) {
+      if (type.isMatrix) {
+        return `${className}.diagonal(${values[0]})`;
+      }
+      return this.isSimpleOperand(args[0])
+        ? `new ${className}(${Array(type.componentCount).fill(values[0]).join(', ')})`
+        : `${className}.splat(${values[0]})`;
+    }
+
+    return type.isMatrix && args.length > 0
+      ? `new ${className}([${values.join(', ')}])`
+      : `new ${className}(${values.join(', ')})`;
+  }
+
+  /* the copied expression itself, without going through its own copy */
+  private generateCopySource(node: Expression): string {
+    return node instanceof MemberExpression
+      ? this.generateMember(node)
+      : this.generateIdentifier(node as Identifier);
+  }
+
+  private generateIdentifier(node: Identifier): string {
+    const member = this.analysis?.memberReferences.get(node);
+    if (member) {
+      return this.generateMemberReference(node.name, member);
+    }
+
+    const binding = this.lookupBinding(node.name);
+    return binding
+      ? binding.emittedName
+      : CodegenUtils.sanitizeIdentifier(node.name, this.target);
+  }
+
+  /*
+
+           generateMemberReference()
+             ---
+             a member named without 'this' inside a method. static
+             members go through their class, which inside a
+             specialization is the specialized class.
+
+  */
+
+  private generateMemberReference(
+    name: string,
+    member: MemberReference
+  ): string {
+    const property = CodegenUtils.sanitizeIdentifier(name, this.target);
+    if (!member.isStatic) {
+      return `this.${property}`;
+    }
+
+    const owner =
+      this.currentClass && this.currentClass.name === member.owner
+        ? this.getDeclarationName(this.currentClass)
+        : CodegenUtils.sanitizeIdentifier(member.owner, this.target);
+    return `${owner}.${property}`;
+  }
+
+  /* whether an operand can be repeated once per component */
+  private isSimpleOperand(node: Expression): boolean {
+    if (
+      node instanceof Identifier ||
+      node instanceof ThisExpression ||
+      this.getNumericLiteral(node)
+    ) {
+      return true;
+    }
+
+    return (
+      node instanceof MemberExpression &&
+      !node.computed &&
+      !this.analysis?.swizzles.has(node) &&
+      this.isSimpleOperand(node.object)
+    );
+  }
+
+  private generateProperty(node: ObjectProperty): string {
+    let key: string;
+
+    if (typeof node.key === 'string') {
+      key = /^[A-Za-z_$][\w$]*$/.test(node.key)
+        ? node.key
+        : this.quoteString(node.key);
+    } else if (node.computed) {
+      this.addError(
+        'Computed property keys are not supported by the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+      key = this.generateExpression(node.key, Precedence.ASSIGNMENT);
+    } else {
+      key = this.generateExpression(node.key);
+    }
+
+    /* object literals always spell out their values */
+    if (node.shorthand) {
+      return `${key}: ${key}`;
+    }
+
+    return `${key}: ${this.generateExpression(node.value, Precedence.ASSIGNMENT)}`;
+  }
+
+  /*
+
+           generateFunctionExpression()
+             ---
+             renders arrow functions, lambdas and function
+             expressions as AssemblyScript arrow functions.
+             AssemblyScript has no closures, so a function that
+             uses locals of the enclosing function is an error.
+
+  */
+
+  private generateFunctionExpression(
+    node: ArrowFunctionExpression | LambdaExpression | FunctionExpression
+  ): string {
+    if (!(node instanceof LambdaExpression) && node.isAsync) {
+      this.addError(
+        'Async functions are not supported by the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+    }
+
+    const captured =
+      node instanceof LambdaExpression && node.captures.length > 0
+        ? node.captures.map((capture) => capture.name)
+        : this.findCapturedLocals(node);
+
+    if (captured.length > 0) {
+      this.addError(
+        `Closures are not supported by the AssemblyScript target (captures ${captured.join(', ')})`,
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+    }
+
+    const outerBindings = this.bindings;
+    const outerFunction = this.currentFunction;
+
+    /* a function expression only sees globals and its own parameters */
+    this.bindings = [this.bindings[0], new Map()];
+    this.currentFunction = new FunctionDeclaration(
+      '',
+      node.parameters,
+      node.returnType,
+      null,
+      false,
+      false,
+      false,
+      false,
+      [],
+      node.location
+    );
+
+    let code = `(${this.generateParameters(node.parameters)})`;
+    if (node.returnType) {
+      code += `: ${this.mapTypeToAssemblyScript(node.returnType)}`;
+    }
+
+    if (node.body instanceof BlockStatement) {
+      code += ` => ${this.generateBlock(node.body)}`;
+    } else {
+      let expression = this.coerceExpression(
+        node.body,
+        node.returnType,
+        Precedence.ASSIGNMENT
+      );
+
+      /* an object literal body would be parsed as a block */
+      if (expression.startsWith('{')) {
+        expression = `(${expression})`;
+      }
+      code += ` => ${expression}`;
+    }
+
+    this.bindings = outerBindings;
+    this.currentFunction = outerFunction;
+    return code;
+  }
+
+  /*
+
+           findCapturedLocals()
+             ---
+             names used inside a function expression that resolve
+             to locals of the enclosing function.
+
+  */
+
+  private findCapturedLocals(
+    node: ArrowFunctionExpression | LambdaExpression | FunctionExpression
+  ): string[] {
+    const used = new Set<string>();
+    const declared = new Set<string>(node.parameters.map((p) => p.name));
+    this.collectNames(node.body, used, declared);
+
+    const captured: string[] = [];
+    for (const name of used) {
+      if (declared.has(name)) {
+        continue;
+      }
+      for (let i = this.bindings.length - 1; i > 0; i--) {
+        if (this.bindings[i].has(name)) {
+          captured.push(name);
+          break;
+        }
+      }
+    }
+
+    return captured;
+  }
+
+  private collectNames(
+    node: unknown,
+    used: Set<string>,
+    declared: Set<string>
+  ): void {
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+
+    if (Array.isArray(node)) {
+      node.forEach((child) => this.collectNames(child, used, declared));
+      return;
+    }
+
+    if (!(node instanceof ASTNode)) {
+      return;
+    }
+
+    if (node instanceof Identifier) {
+      used.add(node.name);
+      return;
+    }
+
+    if (node instanceof VariableDeclaration) {
+      declared.add(node.name);
+    } else if (node instanceof Parameter) {
+      declared.add(node.name);
+    } else if (node instanceof MemberExpression && !node.computed) {
+      /* 'a.b' only uses 'a' */
+      this.collectNames(node.object, used, declared);
+      return;
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (key !== 'location') {
+        this.collectNames(value, used, declared);
+      }
+    }
+  }
+
+  private generateLiteral(node: Literal): string {
+    if (typeof node.value === 'string') {
+      /* the raw text keeps the source escapes */
+      if (/^(["']).*\1$/s.test(node.raw)) {
+        return node.raw;
+      }
+      return this.quoteString(node.value);
+    }
+
+    if (typeof node.value === 'number') {
+      return this.formatNumericLiteral(node);
+    }
+
+    if (typeof node.value === 'boolean') {
+      return node.value.toString();
+    }
+
+    if (node.value === null) {
+      return 'null';
+    }
+
+    if (node.value === undefined) {
+      this.addError(
+        'undefined is not supported by the AssemblyScript target',
+        'UNSUPPORTED_FEATURE',
+        node
+      );
+    }
+
+    return String(node.value);
+  }
+
+  /*
+
+           formatNumericLiteral()
+             ---
+             keeps the source spelling of a number but drops C
+             type suffixes; the literal takes its type from the
+             context it is used in.
+
+  */
+
+  private formatNumericLiteral(node: Literal): string {
+    const raw = node.raw || '';
+
+    if (/^0[xX]/.test(raw)) {
+      return raw.replace(/[uUlL]+$/, '');
+    }
+    if (/^[0-9]/.test(raw)) {
+      return raw.replace(/[fFuUlL]+$/, '');
+    }
+
+    return CodegenUtils.formatNumber(node.value, this.target);
+  }
+
+  private generateArguments(
+    args: Expression[],
+    parameters: Parameter[] | null,
+    bindings: Map<string, TypeNode> = new Map()
+  ): string {
+    return args
+      .map((arg, index) => {
+        const parameter = parameters ? parameters[index] : undefined;
+        return parameter && !parameter.isRest
+          ? this.coerceExpression(
+              arg,
+              parameter.type && this.substituteType(parameter.type, bindings),
+              Precedence.ASSIGNMENT
+            )
+          : this.generateExpression(arg, Precedence.ASSIGNMENT);
+      })
+      .join(', ');
+  }
+
+  private quoteString(value: string): string {
+    return `"${CodegenUtils.escapeString(value, this.target)}"`;
+  }
+
+  /*
+
+           numeric conversions
+
+  */
+
+  /*
+
+           coerceExpression()
+             ---
+             renders an expression for a context of the given
+             type. C converts between numeric types implicitly;
+             AssemblyScript needs an explicit cast whenever the
+             value would be widened, narrowed or changed between
+             integer and float.
+
+  */
+
+  private coerceExpression(
+    node: Expression,
+    targetType: TypeNode | string | null,
+    minPrecedence: number = 0
+  ): string {
+    if (!targetType) {
+      return this.generateExpression(node, minPrecedence);
+    }
+
+    const target =
+      typeof targetType === 'string'
+        ? targetType
+        : this.mapTypeToAssemblyScript(this.stripReference(targetType));
+
+    if (target === 'usize' && this.isNullLiteral(node)) {
+      return '0';
+    }
+
+    const source = this.resolveTypeName(node);
+    if (!this.needsCast(node, source, target)) {
+      return this.generateExpression(node, minPrecedence);
+    }
+
+    const code = `<${target}>${this.generateExpression(node, Precedence.UNARY)}`;
+    return Precedence.UNARY < minPrecedence ? `(${code})` : code;
+  }
+
+  private needsCast(
+    node: Expression,
+    source: string | null,
+    target: string
+  ): boolean {
+    if (
+      !source ||
+      source === target ||
+      !(source in NUMERIC_RANK) ||
+      !(target in NUMERIC_RANK)
+    ) {
+      return false;
+    }
+
+    /* integer literals adopt any numeric type, float literals any float type */
+    if (this.getNumericLiteral(node)) {
+      return this.isFloatType(source) && !this.isFloatType(target);
+    }
+
+    return NUMERIC_RANK[source] !== NUMERIC_RANK[target];
+  }
+
+  /*
+
+           getCommonNumericType()
+             ---
+             the type both operands are converted to before a
+             binary operation, or null when no conversion is
+             needed. a literal adopts the type of the other
+             operand unless it is a float meeting an integer.
+
+  */
+
+  private getCommonNumericType(
+    left: Expression,
+    right: Expression
+  ): string | null {
+    const leftType = this.resolveTypeName(left);
+    const rightType = this.resolveTypeName(right);
+
+    if (
+      !leftType ||
+      !rightType ||
+      leftType === rightType ||
+      !(leftType in NUMERIC_RANK) ||
+      !(rightType in NUMERIC_RANK)
+    ) {
+      return null;
+    }
+
+    if (this.getNumericLiteral(left)) {
+      return this.isFloatType(leftType) && !this.isFloatType(rightType)
+        ? leftType
+        : null;
+    }
+    if (this.getNumericLiteral(right)) {
+      return this.isFloatType(rightType) && !this.isFloatType(leftType)
+        ? rightType
+        : null;
+    }
+
+    if (NUMERIC_RANK[leftType] === NUMERIC_RANK[rightType]) {
+      return null;
+    }
+
+    return NUMERIC_RANK[leftType] > NUMERIC_RANK[rightType]
+      ? leftType
+      : rightType;
+  }
+
+  private getNumericLiteral(node: Expression): Literal | null {
+    /* '-1' is a unary expression wrapping a literal */
+    if (
+      node instanceof UnaryExpression &&
+      (node.operator === '-' || node.operator === '+')
+    ) {
+      return this.getNumericLiteral(node.argument);
+    }
+
+    return node instanceof Literal && typeof node.value === 'number'
+      ? node
+      : null;
+  }
+
+  private isFloatType(type: string): boolean {
+    return type === 'f32' || type === 'f64';
+  }
+
+  private isNullLiteral(node: Expression): boolean {
+    return node instanceof Literal && node.value === null;
+  }
+
+  /*
+
+           type resolution
+
+  */
+
+  /*
+
+           resolveType()
+             ---
+             the declared type of an expression as far as it can
+             be derived from bindings, struct and class members
+             and function signatures, or null when unknown.
+
+  */
+
+  private resolveType(node: Expression): TypeNode | null {
+    const operatorUse = this.analysis?.operatorUses.get(node);
+    if (operatorUse && operatorUse.operation) {
+      return new PrimitiveType(
+        operatorUse.operation.resultType.name,
+        node.location
+      );
+    }
+    if (operatorUse && operatorUse.overload) {
+      /* the return type of the 'operator<op>' member */
+      const receiver = this.stripReference(
+        node instanceof UnaryExpression
+          ? this.resolveType(node.argument)
+          : this.resolveType((node as BinaryExpression).left)
+      );
+      return receiver
+        ? this.getMemberType(receiver, `operator${operatorUse.operator}`)
+        : null;
+    }
+
+    if (node instanceof Identifier) {
+      const binding = this.lookupBinding(node.name);
+      return binding ? binding.type : null;
+    }
+
+    if (node instanceof Literal) {
+      return this.getLiteralType(node);
+    }
+
+    if (node instanceof ThisExpression) {
+      return this.currentClass
+        ? new PrimitiveType(this.currentClass.name, node.location)
+        : null;
+    }
+
+    if (node instanceof MemberExpression) {
+      const objectType = this.stripReference(this.resolveType(node.object));
+      if (!objectType) {
+        return null;
+      }
+
+      if (node.computed) {
+        return this.getPointee(objectType) || this.getElementType(objectType);
+      }
+
+      const owner = this.getPointee(objectType) || objectType;
+      if (!(node.property instanceof Identifier)) {
+        return null;
+      }
+      return this.getMemberType(owner, node.property.name);
+    }
+
+    if (node instanceof CallExpression) {
+      if (
+        node.callee instanceof Identifier &&
+        this.isVectorType(node.callee.name)
+      ) {
+        return new PrimitiveType(node.callee.name, node.location);
+      }
+
+      const callee = this.getCalleeDeclaration(node.callee);
+      return callee && callee.returnType
+        ? this.substituteType(callee.returnType, this.getCallBindings(node))
+        : null;
+    }
+
+    if (node instanceof NewExpression) {
+      if (!(node.callee instanceof Identifier)) {
+        return null;
+      }
+
+      const use = this.analysis && this.analysis.templateUses.get(node);
+      return use
+        ? new GenericType(node.callee.name, use.typeArguments, node.location)
+        : new PrimitiveType(node.callee.name, node.location);
+    }
+
+    if (node instanceof BinaryExpression || node instanceof LogicalExpression) {
+      return this.resolveBinaryType(node);
+    }
+
+    if (node instanceof UnaryExpression) {
+      const argumentType = this.resolveType(node.argument);
+      switch (node.operator) {
+        case '!':
+          return new PrimitiveType('bool', node.location);
+        case 'sizeof':
+          return new PrimitiveType('usize', node.location);
+        case '*':
+          return this.getPointee(argumentType);
+        case '&':
+          return argumentType
+            ? new PointerType(argumentType, node.location)
+            : null;
+        default:
+          return argumentType;
+      }
+    }
+
+    if (node instanceof UpdateExpression) {
+      return this.resolveType(node.argument);
+    }
+
+    if (node instanceof AssignmentExpression) {
+      return this.resolveType(node.left);
+    }
+
+    if (node instanceof ConditionalExpression) {
+      return (
+        this.resolveType(node.consequent) || this.resolveType(node.alternate)
+      );
+    }
+
+    return null;
+  }
+
+  private resolveBinaryType(
+    node: BinaryExpression | LogicalExpression
+  ): TypeNode | null {
+    if (COMPARISON_OPERATORS.has(node.operator)) {
+      return new PrimitiveType('bool', node.location);
+    }
+
+    const leftType = this.resolveType(node.left);
+    const rightType = this.resolveType(node.right);
+
+    if (node.operator === '??') {
+      return leftType;
+    }
+
+    const leftPointee = this.getPointee(leftType);
+    const rightPointee = this.getPointee(rightType);
+
+    if (node.operator === '-' && leftPointee && rightPointee) {
+      return new PrimitiveType('i32', node.location);
+    }
+    if (leftPointee) {
+      return leftType;
+    }
+    if (rightPointee) {
+      return rightType;
+    }
+
+    const common = this.getCommonNumericType(node.left, node.right);
+    return common ? new PrimitiveType(common, node.location) : leftType;
+  }
+
+  private resolveTypeName(node: Expression): string | null {
+    const type = this.stripReference(this.resolveType(node));
+    return type ? this.mapTypeToAssemblyScript(type) : null;
+  }
+
+  private getLiteralType(node: Literal): TypeNode | null {
+    if (typeof node.value === 'boolean') {
+      return new PrimitiveType('bool', node.location);
+    }
+
+    if (typeof node.value === 'string') {
+      return new PrimitiveType('string', node.location);
+    }
+
+    if (typeof node.value !== 'number') {
+      return null;
+    }
+
+    /* 'f' marks a single precision literal */
+    const raw = node.raw || String(node.value);
+    if (/^0[xXbB]/.test(raw)) {
+      return new PrimitiveType('i32', node.location);
+    }
+    if (/[fF]$/.test(raw)) {
+      return new PrimitiveType('f32', node.location);
+    }
+
+    return new PrimitiveType(
+      /[.eE]/.test(raw) || !Number.isInteger(node.value) ? 'f64' : 'i32',
+      node.location
+    );
+  }
+
+  /*
+
+           getMemberType()
+             ---
+             the type of a field of a struct or class, or the
+             return type of a method, searching base classes.
+
+  */
+
+  private getMemberType(owner: TypeNode, name: string): TypeNode | null {
+    /* vector components and swizzles */
+    if (owner instanceof PrimitiveType && this.isVectorType(owner.name)) {
+      const type = this.typeRegistry.getSwizzleType(
+        this.typeRegistry.getType(owner.name)!,
+        name
+      );
+      return type ? new PrimitiveType(type.name, owner.location) : null;
+    }
+
+    const found = this.findMember(owner, name);
+    if (!found) {
+      return null;
+    }
+
+    const type =
+      found.member instanceof FunctionDeclaration
+        ? found.member.returnType
+        : found.member.type;
+    return type ? this.substituteType(type, found.bindings) : null;
+  }
+
+  /*
+
+           findMember()
+             ---
+             a field or method of a struct or class, searching
+             base classes, with the template arguments of the
+             type that declares it ('extends Box<int>').
+
+  */
+
+  private findMember(
+    owner: TypeNode,
+    name: string
+  ): {
+    member: StructMember | VariableDeclaration | FunctionDeclaration;
+    bindings: Map<string, TypeNode>;
+  } | null {
+    if (!(owner instanceof PrimitiveType || owner instanceof GenericType)) {
+      return null;
+    }
+
+    const struct = this.structs.get(owner.name);
+    if (struct) {
+      const member =
+        struct.members.find((m) => m.name === name) ||
+        struct.methods.find((m) => m.name === name);
+      return member
+        ? { member, bindings: this.getTemplateBindings(struct, owner) }
+        : null;
+    }
+
+    let declaration = this.classes.get(owner.name);
+    let bindings = declaration
+      ? this.getTemplateBindings(declaration, owner)
+      : new Map<string, TypeNode>();
+
+    while (declaration) {
+      const member = declaration.members.find((m) => m.member.name === name);
+      if (member) {
+        return { member: member.member, bindings };
+      }
+
+      const superClass = declaration.superClass;
+      declaration =
+        superClass instanceof PrimitiveType || superClass instanceof GenericType
+          ? this.classes.get(superClass.name)
+          : undefined;
+      if (declaration) {
+        bindings = this.getTemplateBindings(
+          declaration,
+          this.substituteType(superClass!, bindings)
+        );
+      }
+    }
+
+    return null;
+  }
+
+  private getCalleeDeclaration(callee: Expression): FunctionDeclaration | null {
+    if (callee instanceof Identifier) {
+      return this.lookupBinding(callee.name)
+        ? null
+        : this.functions.get(callee.name) || null;
+    }
+
+    if (
+      callee instanceof MemberExpression &&
+      !callee.computed &&
+      callee.property instanceof Identifier
+    ) {
+      const objectType = this.stripReference(this.resolveType(callee.object));
+      const owner = this.getPointee(objectType) || objectType;
+      const found = owner && this.findMember(owner, callee.property.name);
+
+      return found && found.member instanceof FunctionDeclaration
+        ? found.member
+        : null;
+    }
+
+    return null;
+  }
+
+  private getCalleeParameters(callee: Expression): Parameter[] | null {
+    const declaration = this.getCalleeDeclaration(callee);
+    return declaration ? declaration.parameters : null;
+  }
+
+  /*
+
+           pointer and memory helpers
+
+  */
+
+  /*
+
+           getPointee()
+             ---
+             the element type of a raw pointer, or null for any
+             other type. 'char*' is a string, not a pointer.
+
+  */
+
+  private getPointee(type: TypeNode | null): TypeNode | null {
+    const stripped = this.stripReference(type);
+    if (!(stripped instanceof PointerType)) {
+      return null;
+    }
+
+    return this.isCharType(stripped.pointeeType) ? null : stripped.pointeeType;
+  }
+
+  private getElementType(type: TypeNode | null): TypeNode | null {
+    if (type instanceof ArrayType) {
+      return type.elementType;
+    }
+
+    if (
+      type instanceof GenericType &&
+      ['Array', 'StaticArray'].includes(type.name) &&
+      type.typeArguments.length === 1
+    ) {
+      return type.typeArguments[0];
+    }
+
+    return null;
+  }
+
+  /*
+
+           getMemoryTarget()
+             ---
+             the address and element type behind '*p' or 'p[i]'
+             when p is a pointer, or null for ordinary lvalues.
+
+  */
+
+  private getMemoryTarget(node: Expression): MemoryTarget | null {
+    if (node instanceof UnaryExpression && node.operator === '*') {
+      const pointee = this.getPointee(this.resolveType(node.argument));
+      return pointee
+        ? { address: this.generateExpression(node.argument), pointee }
+        : null;
+    }
+
+    if (node instanceof MemberExpression && node.computed) {
+      const pointee = this.getPointee(this.resolveType(node.object));
+      if (!pointee) {
+        return null;
+      }
+
+      const base = this.generateExpression(node.object, BINARY_PRECEDENCE['+']);
+      const index = this.getNumericLiteral(node.property);
+      const address =
+        index && index.value === 0
+          ? base
+          : `${base} + ${this.scaleIndex(node.property, pointee)}`;
+      return { address, pointee };
+    }
+
+    return null;
+  }
+
+  private loadFrom(memory: MemoryTarget): string {
+    /* a struct is viewed in place rather than copied out */
+    if (this.isStruct(memory.pointee)) {
+      return `changetype<${this.mapTypeToAssemblyScript(memory.pointee)}>(${memory.address})`;
+    }
+
+    return `load<${this.mapTypeToAssemblyScript(memory.pointee)}>(${memory.address})`;
+  }
+
+  private storeTo(memory: MemoryTarget, value: string): string {
+    if (this.isStruct(memory.pointee)) {
+      this.addError(
+        'Assigning a struct through a pointer is not supported by the AssemblyScript target; assign its fields instead',
+        'UNSUPPORTED_FEATURE'
+      );
+    }
+
+    return `store<${this.mapTypeToAssemblyScript(memory.pointee)}>(${memory.address}, ${value})`;
+  }
+
+  /*
+
+           scaleIndex()
+             ---
+             converts an element count to a byte offset.
+
+  */
+
+  private scaleIndex(index: Expression, pointee: TypeNode): string {
+    const literal = this.getNumericLiteral(index);
+    const count =
+      literal && index === literal
+        ? this.generateExpression(index)
+        : `<usize>${this.generateExpression(index, Precedence.UNARY)}`;
+
+    return `${count} * ${this.sizeOfType(pointee)}`;
+  }
+
+  private sizeOfType(type: TypeNode): string {
+    /* the size of an unmanaged class is the offset past its last field */
+    if (this.isStructOrClass(type)) {
+      return `offsetof<${this.mapTypeToAssemblyScript(type)}>()`;
+    }
+
+    return `sizeof<${this.mapTypeToAssemblyScript(type)}>()`;
+  }
+
+  private isStruct(type: TypeNode): boolean {
+    return type instanceof PrimitiveType && this.structs.has(type.name);
+  }
+
+  /* structs of this module, or imported from another module of the unit */
+  private isStructName(name: string): boolean {
+    return (
+      this.structs.has(name) ||
+      this.analysis?.imports.get(name)?.symbol.kind === SymbolKind.STRUCT
+    );
+  }
+
+  private isStructOrClass(type: TypeNode): boolean {
+    return (
+      (type instanceof PrimitiveType || type instanceof GenericType) &&
+      (this.structs.has(type.name) || this.classes.has(type.name))
+    );
+  }
+
+  private isCharType(type: TypeNode): boolean {
+    return type instanceof PrimitiveType && type.name === 'char';
+  }
+
+  private stripReference(type: TypeNode | null): TypeNode | null {
+    return type instanceof ReferenceType ? type.referencedType : type;
+  }
+
+  /*
+
+           bindings
+
+  */
+
+  private pushBindings(): void {
+    this.bindings.push(new Map());
+  }
+
+  private popBindings(): void {
+    this.bindings.pop();
+  }
+
+  private declareBinding(
+    name: string,
+    type: TypeNode | null,
+    emittedName?: string
+  ): void {
+    if (this.bindings.length === 0) {
+      this.bindings.push(new Map());
+    }
+
+    this.bindings[this.bindings.length - 1].set(name, {
+      type,
+      emittedName:
+        emittedName || CodegenUtils.sanitizeIdentifier(name, this.target),
+    });
+  }
+
+  private lookupBinding(name: string): Binding | null {
+    for (let i = this.bindings.length - 1; i >= 0; i--) {
+      const binding = this.bindings[i].get(name);
+      if (binding) {
+        return binding;
+      }
+    }
+
+    return null;
+  }
+
+  /*
+
+           signature helpers
+
+  */
+
+  private generateFunctionBody(node: FunctionDeclaration): string {
+    const outerFunction = this.currentFunction;
+    this.currentFunction = node;
+    this.pushBindings();
+
+    for (const param of node.parameters) {
+      this.declareBinding(param.name, param.type);
+    }
+
+    const body = this.generateBlock(node.body);
+
+    this.popBindings();
+    this.currentFunction = outerFunction;
+    return body;
+  }
+
+  private generateVariableDeclaration(
+    node: VariableDeclaration,
+    emittedName?: string
+  ): string {
+    const varName =
+      emittedName || CodegenUtils.sanitizeIdentifier(node.name, this.target);
+    const isAuto = !node.type || this.isAutoType(node.type);
+    let declaration = `${node.isConst ? 'const' : 'let'} ${varName}`;
+
+    this.checkType(node.type, node);
+
+    /* 'auto' leaves the type to AssemblyScript inference */
+    if (!isAuto) {
+      declaration += `: ${this.mapTypeToAssemblyScript(node.type)}`;
+    }
+
+    if (node.initializer) {
+      const value = isAuto
+        ? this.generateExpression(node.initializer, Precedence.ASSIGNMENT)
+        : this.coerceExpression(
+            node.initializer,
+            node.type,
+            Precedence.ASSIGNMENT
+          );
+      declaration += ` = ${value}`;
+    } else if (!isAuto) {
+      const zero = this.getZeroValue(node.type);
+      if (zero !== null) {
+        declaration += ` = ${zero}`;
+      }
+    }
+
+    /* declared after the initializer, which cannot see the new name */
+    const type = isAuto
+      ? node.initializer
+        ? this.resolveType(node.initializer)
+        : null
+      : node.type;
+    this.declareBinding(node.name, type, varName);
+
+    return declaration;
+  }
+
+  private generateSignature(node: FunctionDeclaration): string {
+    const returnType = node.returnType
+      ? this.mapTypeToAssemblyScript(node.returnType)
+      : 'void';
+
+    if (node.returnType) {
+      this.checkType(node.returnType, node);
+    }
+
+    return `(${this.generateParameters(node.parameters)}): ${returnType}`;
+  }
+
+  private generateParameters(parameters: Parameter[]): string {
+    return parameters
+      .map((param) => {
+        const name = CodegenUtils.sanitizeIdentifier(param.name, this.target);
+        const type = this.mapTypeToAssemblyScript(param.type);
+        this.checkType(param.type, param);
+
+        if (param.isRest) {
+          this.addError(
+            `Rest parameter '${param.name}' is not supported by the AssemblyScript target`,
+            'UNSUPPORTED_FEATURE',
+            param
+          );
+          return `${name}: ${type}`;
+        }
+
+        if (param.defaultValue) {
+          const value = this.coerceExpression(
+            param.defaultValue,
+            param.type,
+            Precedence.ASSIGNMENT
+          );
+          return `${name}: ${type} = ${value}`;
+        }
+
+        /* optional parameters need a value to fall back to */
+        if (param.isOptional) {
+          const zero = this.getZeroValue(param.type);
+          if (zero === null) {
+            this.addError(
+              `Optional parameter '${param.name}' needs a default value in the AssemblyScript target`,
+              'UNSUPPORTED_FEATURE',
+              param
+            );
+            return `${name}: ${type}`;
+          }
+          return `${name}: ${type} = ${zero}`;
+        }
+
+        return `${name}: ${type}`;
+      })
+      .join(', ');
+  }
+
+  private generateTypeParameters(parameters: TypeParameter[]): string {
+    if (!parameters || parameters.length === 0) {
+      return '';
+    }
+
+    const typeParams = parameters.map((tp) => {
+      let code = tp.name;
+      if (tp.constraint) {
+        code += ` extends ${this.mapTypeToAssemblyScript(tp.constraint)}`;
+      }
+      if (tp.defaultType) {
+        code += ` = ${this.mapTypeToAssemblyScript(tp.defaultType)}`;
+      }
+      return code;
+    });
+
+    return `<${typeParams.join(', ')}>`;
+  }
+
+  private generateTypeArguments(args: TypeNode[]): string {
+    if (!args || args.length === 0) {
+      return '';
+    }
+
+    return `<${args.map((arg) => this.mapTypeToAssemblyScript(arg)).join(', ')}>`;
+  }
+
+  private takeExportPrefix(): string {
+    const prefix = this.exportNext ? 'export ' : '';
+    this.exportNext = false;
+    return prefix;
+  }
+
+  /*
+
+           utility methods specific to AssemblyScript
 
   */
 
@@ -748,16 +3644,38 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
     }
 
     if (type instanceof PrimitiveType) {
-      return this.typeMapping.get(type.name) || 'i32';
+      /* template parameters of the specialization being emitted */
+      const bound = this.typeBindings.get(type.name);
+      if (bound) {
+        return this.mapTypeToAssemblyScript(bound);
+      }
+
+      if (this.isVectorType(type.name)) {
+        return this.useMathClass(type.name);
+      }
+
+      return (
+        this.getTypeSpecialization(type) ||
+        this.typeMapping.get(type.name) ||
+        type.name
+      );
     }
 
     if (type instanceof ArrayType) {
       const elementType = this.mapTypeToAssemblyScript(type.elementType);
-      return `Array<${elementType}>`;
+      return type.size
+        ? `StaticArray<${elementType}>`
+        : `Array<${elementType}>`;
     }
 
     if (type instanceof PointerType) {
-      return 'usize'; /* memory address */
+      /* 'char*' is a C string, every other pointer an address */
+      return this.isCharType(type.pointeeType) ? 'string' : 'usize';
+    }
+
+    if (type instanceof ReferenceType) {
+      /* structs and classes are references already */
+      return this.mapTypeToAssemblyScript(type.referencedType);
     }
 
     if (type instanceof FunctionType) {
@@ -772,104 +3690,231 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
       return `(${params}) => ${returnType}`;
     }
 
-    return 'i32'; /* default to i32 for unknown types */
-  }
-
-  private mapOperator(operator: string): string {
-    /* most operators map directly, handle special cases */
-    switch (operator) {
-      case '==':
-        return '==';
-      case '!=':
-        return '!=';
-      case '&&':
-        return '&&';
-      case '||':
-        return '||';
-      case '<<':
-        return '<<';
-      case '>>':
-        return '>>>'; /* unsigned right shift */
-      default:
-        return operator;
+    if (type instanceof GenericType) {
+      return (
+        this.getTypeSpecialization(type) ||
+        `${type.name}${this.generateTypeArguments(type.typeArguments)}`
+      );
+    }
+
+    if (type instanceof UnionType) {
+      return type.types.map((t) => this.mapTypeToAssemblyScript(t)).join(' | ');
+    }
+
+    if (type instanceof OptionalType) {
+      return `${this.mapTypeToAssemblyScript(type.type)} | null`;
+    }
+
+    if (type instanceof IntersectionType) {
+      return type.types.map((t) => this.mapTypeToAssemblyScript(t)).join(' & ');
+    }
+
+    if (type instanceof TupleType) {
+      return `[${type.elementTypes.map((t) => this.mapTypeToAssemblyScript(t)).join(', ')}]`;
     }
+
+    this.addError(
+      `Unsupported type node: ${type.constructor.name}`,
+      'UNSUPPORTED_TYPE',
+      type
+    );
+    return 'i32';
   }
 
-  private formatNumberForAssemblyScript(num: number): string {
-    /* format numbers with appropriate type suffixes */
-    if (Number.isInteger(num)) {
-      if (num >= -2147483648 && num <= 2147483647) {
-        return num.toString(); /* i32 range */
-      } else {
-        return `${num}i64`; /* i64 for larger integers */
+  /*
+
+           checkType()
+             ---
+             reports types that AssemblyScript cannot represent:
+             dynamic types, unions other than 'T | null' over a
+             reference type, intersections and tuples.
+
+  */
+
+  private checkType(type: TypeNode | null, node: ASTNode): void {
+    if (!type) {
+      return;
+    }
+    type = this.substituteType(type, this.typeBindings);
+
+    const unsupported = (reason: string) =>
+      this.addError(
+        `${reason} is not supported by the AssemblyScript target`,
+        'UNSUPPORTED_TYPE',
+        node
+      );
+
+    if (type instanceof PrimitiveType) {
+      if (
+        ['any', 'unknown', 'object', 'symbol', 'undefined'].includes(type.name)
+      ) {
+        unsupported(`Type '${type.name}'`);
       }
-    } else {
-      if (Math.abs(num) <= 3.4028235e38) {
-        return `${num}f32`; /* f32 range */
-      } else {
-        return `${num}f64`; /* f64 for larger floats */
+    } else if (type instanceof ArrayType) {
+      this.checkType(type.elementType, node);
+    } else if (type instanceof PointerType) {
+      this.checkType(type.pointeeType, node);
+    } else if (type instanceof ReferenceType) {
+      this.checkType(type.referencedType, node);
+      if (this.isValueType(type.referencedType)) {
+        this.addWarning(
+          `Reference to value type '${this.mapTypeToAssemblyScript(type.referencedType)}' is passed by value in AssemblyScript`,
+          'REFERENCE_TO_VALUE_TYPE',
+          node
+        );
+      }
+    } else if (type instanceof FunctionType) {
+      type.parameters.forEach((p) => this.checkType(p, node));
+      this.checkType(type.returnType, node);
+    } else if (type instanceof GenericType) {
+      type.typeArguments.forEach((t) => this.checkType(t, node));
+    } else if (type instanceof UnionType) {
+      const members = type.types.filter(
+        (t) => !(t instanceof PrimitiveType && t.name === 'null')
+      );
+      if (
+        members.length !== 1 ||
+        members.length === type.types.length ||
+        this.isValueType(members[0])
+      ) {
+        unsupported(`Union type '${this.mapTypeToAssemblyScript(type)}'`);
       }
+      members.forEach((t) => this.checkType(t, node));
+    } else if (type instanceof OptionalType) {
+      if (this.isValueType(type.type)) {
+        unsupported(
+          `Optional value type '${this.mapTypeToAssemblyScript(type.type)}'`
+        );
+      }
+      this.checkType(type.type, node);
+    } else if (type instanceof IntersectionType) {
+      unsupported('Intersection type');
+    } else if (type instanceof TupleType) {
+      unsupported('Tuple type');
     }
   }
 
-  private requiresCast(expr: Expression, targetType: TypeNode | null): boolean {
-    /* determine if expression needs type casting */
-    if (!targetType) return false;
+  private isValueType(type: TypeNode): boolean {
+    const mapped = this.mapTypeToAssemblyScript(type);
+    return (
+      mapped in NUMERIC_RANK ||
+      mapped === 'bool' ||
+      (type instanceof PrimitiveType && this.enums.has(type.name))
+    );
+  }
+
+  /*
 
-    const exprType = this.inferTypeFromExpression(expr);
-    const targetAs = this.mapTypeToAssemblyScript(targetType);
+           isUnmanagedFieldType()
+             ---
+             whether a struct field can live in an unmanaged
+             layout: numbers, booleans, enums, pointers and
+             other structs.
 
-    return exprType !== targetAs;
-  }
+  */
+
+  private isUnmanagedFieldType(
+    type: TypeNode,
+    owner: StructDeclaration
+  ): boolean {
+    type = this.substituteType(type, this.typeBindings);
+
+    if (type instanceof PointerType) {
+      return !this.isCharType(type.pointeeType);
+    }
 
-  private requiresTypeCoercion(node: BinaryExpression): boolean {
-    /* check if binary expression needs type coercion */
-    const leftType = this.inferTypeFromExpression(node.left);
-    const rightType = this.inferTypeFromExpression(node.right);
+    if (!(type instanceof PrimitiveType)) {
+      return false;
+    }
 
-    return leftType !== rightType;
+    return (
+      this.isValueType(type) ||
+      this.isStructName(type.name) ||
+      owner.templateParameters.some((tp) => tp.name === type.name)
+    );
   }
 
-  private requiresArgumentCast(arg: Expression, index: number): boolean {
-    /* simplified argument casting check */
-    return false; /* implement based on function signature analysis */
+  private isVectorType(name: string): boolean {
+    return this.typeRegistry.getType(name)?.kind === TypeKind.VECTOR;
   }
 
-  private requiresAssignmentCast(node: AssignmentExpression): boolean {
-    /* check if assignment needs casting */
-    const leftType = this.inferTargetType(node.left);
-    const rightType = this.inferTypeFromExpression(node.right);
+  /* prelude class of a vector type, emitted once it is used */
+  private useMathClass(typeName: string): string {
+    const className = CodegenUtils.getVectorClassName(typeName);
+    this.mathClasses.add(className);
+    return className;
+  }
 
-    return leftType !== rightType;
+  private isAutoType(type: TypeNode | null): boolean {
+    return type instanceof PrimitiveType && type.name === 'auto';
   }
 
-  private inferTypeFromExpression(expr: Expression): string {
-    if (expr instanceof Literal) {
-      if (typeof expr.value === 'number') {
-        return Number.isInteger(expr.value) ? 'i32' : 'f32';
-      } else if (typeof expr.value === 'boolean') {
-        return 'bool';
-      } else if (typeof expr.value === 'string') {
-        return 'string';
-      }
+  /*
+
+           getZeroValue()
+             ---
+             initial value of a field or uninitialized variable,
+             or null when the type has no natural zero and must
+             be assigned before use.
+
+  */
+
+  private getZeroValue(type: TypeNode | null): string | null {
+    if (!type) {
+      return null;
     }
+    type = this.substituteType(type, this.typeBindings);
 
-    return 'i32'; /* default assumption */
-  }
+    if (type instanceof PointerType) {
+      return this.isCharType(type.pointeeType) ? '""' : '0';
+    }
 
-  private inferTargetType(expr: Expression): string {
-    /* implement type inference for assignment targets */
-    return 'i32'; /* simplified */
-  }
+    if (type instanceof OptionalType) {
+      return 'null';
+    }
+
+    if (type instanceof UnionType) {
+      return type.types.some(
+        (t) => t instanceof PrimitiveType && t.name === 'null'
+      )
+        ? 'null'
+        : null;
+    }
+
+    if (type instanceof ArrayType) {
+      const elementType = this.mapTypeToAssemblyScript(type.elementType);
+      return type.size
+        ? `new StaticArray<${elementType}>(${this.generateExpression(type.size)})`
+        : `new Array<${elementType}>()`;
+    }
+
+    if (type instanceof GenericType && this.isStructName(type.name)) {
+      return `new ${this.mapTypeToAssemblyScript(type)}()`;
+    }
+
+    if (!(type instanceof PrimitiveType)) {
+      return null;
+    }
+
+    if (this.isStructName(type.name)) {
+      return `new ${CodegenUtils.sanitizeIdentifier(type.name, this.target)}()`;
+    }
+
+    if (this.enums.has(type.name)) {
+      return '0';
+    }
+
+    if (this.isVectorType(type.name)) {
+      return `new ${this.useMathClass(type.name)}()`;
+    }
 
-  private inferArgumentType(arg: Expression, index: number): string {
-    /* implement argument type inference */
-    return 'i32'; /* simplified */
+    return this.getDefaultValue(type);
   }
 
   private getDefaultValue(type: TypeNode | null): string | null {
-    if (!type) return null;
-    if (!(type instanceof PrimitiveType)) return null;
+    if (!type) {
+      return null;
+    }
 
     const asType = this.mapTypeToAssemblyScript(type);
 
@@ -882,6 +3927,8 @@ export class AssemblyScriptGenerator extends BaseCodeGenerator {
       case 'u16':
       case 'u32':
       case 'u64':
+      case 'isize':
+      case 'usize':
         return '0';
       case 'f32':
       case 'f64':
@@ -0,0 +1,335 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         assemblyscript-math.ts
+           ---
+           vector math prelude for AssemblyScript output.
+
+           WASM modules cannot share the TypeScript runtime math
+           module, so the AssemblyScript generator emits the
+           classes a program uses at the top of its output. they
+           mirror src/runtime/math.ts: the same class names and
+           static helpers, with f32 (or i32) components and
+           matrices stored column by column in a StaticArray.
+
+*/
+
+/*
+    ====================================
+             --- CONSTANTS ---
+    ====================================
+*/
+
+/* emission order; a class is emitted after the classes it uses */
+const MATH_CLASSES = [
+  'Vec2',
+  'Vec3',
+  'Vec4',
+  'IVec2',
+  'IVec3',
+  'IVec4',
+  'Quat',
+  'Mat3',
+  'Mat4',
+];
+
+/* classes that the helpers of another class construct */
+const MATH_DEPENDENCIES: { [className: string]: string[] } = {
+  Quat: ['Vec3'],
+  Mat3: ['Vec3'],
+  Mat4: ['Vec4'],
+};
+
+const COMPONENTS = ['x', 'y', 'z', 'w'];
+
+/*
+    ====================================
+             --- PRELUDE ---
+    ====================================
+*/
+
+/*
+
+         generateMathPrelude()
+           ---
+           source lines of the given math classes and the classes
+           they depend on, without indentation or line endings.
+
+*/
+
+export function generateMathPrelude(classNames: Iterable<string>): string[] {
+  const required = new Set<string>();
+  const require = (className: string) => {
+    if (!required.has(className)) {
+      required.add(className);
+      (MATH_DEPENDENCIES[className] || []).forEach(require);
+    }
+  };
+  for (const className of classNames) {
+    require(className);
+  }
+
+  const lines: string[] = [];
+  for (const className of MATH_CLASSES.filter((c) => required.has(c))) {
+    if (lines.length > 0) {
+      lines.push('');
+    }
+    lines.push(...generateMathClass(className));
+  }
+
+  return lines;
+}
+
+function generateMathClass(className: string): string[] {
+  if (className.startsWith('Mat')) {
+    return generateMatrixClass(className, Number(className.slice(3)));
+  }
+
+  const isQuat = className === 'Quat';
+  const size = isQuat ? 4 : Number(className.slice(-1));
+  const scalar = className.startsWith('I') ? 'i32' : 'f32';
+
+  return generateVectorClass(
+    className,
+    COMPONENTS.slice(0, size),
+    scalar,
+    isQuat
+  );
+}
+
+/*
+
+         generateVectorClass()
+           ---
+           a vector or quaternion class. quaternions start as
+           the identity and multiply with the Hamilton product
+           instead of component-wise.
+
+*/
+
+function generateVectorClass(
+  name: string,
+  components: string[],
+  scalar: string,
+  isQuat: boolean
+): string[] {
+  const each = (template: (c: string) => string) =>
+    components.map(template).join(', ');
+  const method = (signature: string, ...body: string[]) => [
+    '',
+    '  @inline',
+    `  ${signature} {`,
+    ...body.map((line) => `    ${line}`),
+    '  }',
+  ];
+  const construct = (template: (c: string) => string) =>
+    `return new ${name}(${each(template)});`;
+
+  const parameters = each(
+    (c) => `public ${c}: ${scalar} = ${isQuat && c === 'w' ? 1 : 0}`
+  );
+  const lookup = components
+    .slice(0, -1)
+    .map((c, i) => `index == ${i} ? this.${c} : `)
+    .join('');
+
+  const lines = [
+    '@final',
+    `class ${name} {`,
+    `  constructor(${parameters}) {}`,
+    ...method(
+      `get(index: i32): ${scalar}`,
+      `return ${lookup}this.${components[components.length - 1]};`
+    ),
+    ...method(
+      `static splat(s: ${scalar}): ${name}`,
+      construct(() => 's')
+    ),
+    ...method(
+      `static clone(v: ${name}): ${name}`,
+      construct((c) => `v.${c}`)
+    ),
+    ...method(
+      `static add(a: ${name}, b: ${name}): ${name}`,
+      construct((c) => `a.${c} + b.${c}`)
+    ),
+    ...method(
+      `static sub(a: ${name}, b: ${name}): ${name}`,
+      construct((c) => `a.${c} - b.${c}`)
+    ),
+  ];
+
+  if (isQuat) {
+    lines.push(
+      ...method(
+        `static mul(a: ${name}, b: ${name}): ${name}`,
+        `return new ${name}(`,
+        '  a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,',
+        '  a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,',
+        '  a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,',
+        '  a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z',
+        ');'
+      )
+    );
+  } else {
+    lines.push(
+      ...method(
+        `static mul(a: ${name}, b: ${name}): ${name}`,
+        construct((c) => `a.${c} * b.${c}`)
+      ),
+      ...method(
+        `static div(a: ${name}, b: ${name}): ${name}`,
+        construct((c) => `a.${c} / b.${c}`)
+      ),
+      ...method(
+        `static swizzle<T>(v: T, ${each((c) => `${c}: i32`)}): ${name}`,
+        construct((c) => `v.get(${c})`)
+      )
+    );
+  }
+
+  lines.push(
+    ...method(
+      `static scale(v: ${name}, s: ${scalar}): ${name}`,
+      construct((c) => `v.${c} * s`)
+    ),
+    ...method(
+      `static divScalar(v: ${name}, s: ${scalar}): ${name}`,
+      construct((c) => `v.${c} / s`)
+    ),
+    ...method(
+      `static negate(v: ${name}): ${name}`,
+      construct((c) => `-v.${c}`)
+    ),
+    ...method(
+      `static equals(a: ${name}, b: ${name}): bool`,
+      `return ${components.map((c) => `a.${c} == b.${c}`).join(' && ')};`
+    )
+  );
+
+  /* v + 2w(u x v) + 2(u x (u x v)) with u the vector part of q */
+  if (isQuat) {
+    lines.push(
+      ...method(
+        'static rotate(q: Quat, v: Vec3): Vec3',
+        'const tx = 2 * (q.y * v.z - q.z * v.y);',
+        'const ty = 2 * (q.z * v.x - q.x * v.z);',
+        'const tz = 2 * (q.x * v.y - q.y * v.x);',
+        'return new Vec3(',
+        '  v.x + q.w * tx + (q.y * tz - q.z * ty),',
+        '  v.y + q.w * ty + (q.z * tx - q.x * tz),',
+        '  v.z + q.w * tz + (q.x * ty - q.y * tx)',
+        ');'
+      )
+    );
+  }
+
+  lines.push('}');
+  return lines;
+}
+
+/*
+
+         generateMatrixClass()
+           ---
+           a square matrix class, identity by default. element
+           (row, column) is stored at m[column * size + row].
+
+*/
+
+function generateMatrixClass(name: string, size: number): string[] {
+  const count = size * size;
+  const vector = `Vec${size}`;
+  const diagonal = (value: string) =>
+    Array.from({ length: count }, (_, i) =>
+      i % (size + 1) === 0 ? value : '0'
+    ).join(', ');
+  const method = (signature: string, ...body: string[]) => [
+    '',
+    `  ${signature} {`,
+    ...body.map((line) => `    ${line}`),
+    '  }',
+  ];
+
+  /* m[i] = <element> for every element */
+  const elementwise = (signature: string, element: string) =>
+    method(
+      signature,
+      `const m = new StaticArray<f32>(${count});`,
+      `for (let i = 0; i < ${count}; i++) {`,
+      `  m[i] = ${element};`,
+      '}',
+      `return new ${name}(m);`
+    );
+
+  const rows = COMPONENTS.slice(0, size).map((_, row) =>
+    COMPONENTS.slice(0, size)
+      .map((c, column) => `a.m[${column * size + row}] * v.${c}`)
+      .join(' + ')
+  );
+
+  return [
+    '@final',
+    `class ${name} {`,
+    `  constructor(public m: StaticArray<f32> = [${diagonal('1')}]) {}`,
+    '',
+    '  @inline',
+    `  static diagonal(s: f32): ${name} {`,
+    `    return new ${name}([${diagonal('s')}]);`,
+    '  }',
+    ...elementwise(`static clone(a: ${name}): ${name}`, 'a.m[i]'),
+    ...elementwise(
+      `static add(a: ${name}, b: ${name}): ${name}`,
+      'a.m[i] + b.m[i]'
+    ),
+    ...elementwise(
+      `static sub(a: ${name}, b: ${name}): ${name}`,
+      'a.m[i] - b.m[i]'
+    ),
+    ...method(
+      `static mul(a: ${name}, b: ${name}): ${name}`,
+      `const m = new StaticArray<f32>(${count});`,
+      `for (let column = 0; column < ${size}; column++) {`,
+      `  for (let row = 0; row < ${size}; row++) {`,
+      '    let sum: f32 = 0;',
+      `    for (let k = 0; k < ${size}; k++) {`,
+      `      sum += a.m[k * ${size} + row] * b.m[column * ${size} + k];`,
+      '    }',
+      `    m[column * ${size} + row] = sum;`,
+      '  }',
+      '}',
+      `return new ${name}(m);`
+    ),
+    ...elementwise(`static scale(a: ${name}, s: f32): ${name}`, 'a.m[i] * s'),
+    ...elementwise(
+      `static divScalar(a: ${name}, s: f32): ${name}`,
+      'a.m[i] / s'
+    ),
+    ...elementwise(`static negate(a: ${name}): ${name}`, '-a.m[i]'),
+    ...method(
+      `static equals(a: ${name}, b: ${name}): bool`,
+      `for (let i = 0; i < ${count}; i++) {`,
+      '  if (a.m[i] != b.m[i]) return false;',
+      '}',
+      'return true;'
+    ),
+    ...method(
+      `static transform(a: ${name}, v: ${vector}): ${vector}`,
+      `return new ${vector}(`,
+      ...rows.map((row, i) => `  ${row}${i < size - 1 ? ',' : ''}`),
+      ');'
+    ),
+    '}',
+  ];
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
@@ -18,10 +18,24 @@
 
 */
 
-import { ASTNode, Program, ASTVisitor } from '../parser/ast';
-import { SimpleSemanticAnalyzer } from '../semantic/simple-analyzer';
+import * as path from 'path';
+
+import {
+  ASTNode,
+  Program,
+  ASTVisitor,
+  Statement,
+  BlockStatement,
+} from '../parser/ast';
+import { SourcePosition } from '../lexer/tokens';
+import {
+  SimpleSemanticAnalyzer,
+  SimpleAnalysisResult,
+} from '../semantic/simple-analyzer';
 import { SymbolTable } from '../semantic/symbol-table';
 import { TypeRegistry } from '../semantic/type-system';
+import { SOURCE_EXTENSIONS } from '../semantic/module-resolver';
+import { SourceMapBuilder } from './source-map';
 
 /*
     ====================================
@@ -43,6 +57,60 @@ export enum OptimizationLevel {
   SIZE = 3,
 }
 
+/*
+    ====================================
+             --- PRECEDENCE ---
+    ====================================
+*/
+
+/*
+
+         Precedence
+           ---
+           binding strength of emitted expressions, shared by the
+           TypeScript-family generators. the parser drops grouping
+           parentheses, so generators put them back wherever a
+           child binds looser than its parent.
+
+*/
+
+export const Precedence = {
+  ASSIGNMENT: 2,
+  CONDITIONAL: 3,
+  UNARY: 16,
+  POSTFIX: 17,
+  MEMBER: 19,
+  PRIMARY: 20,
+};
+
+export const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 4,
+  '||': 5,
+  '&&': 6,
+  '|': 7,
+  '^': 8,
+  '&': 9,
+  '==': 10,
+  '!=': 10,
+  '===': 10,
+  '!==': 10,
+  '<': 11,
+  '>': 11,
+  '<=': 11,
+  '>=': 11,
+  instanceof: 11,
+  in: 11,
+  '<<': 12,
+  '>>': 12,
+  '>>>': 12,
+  '+': 13,
+  '-': 13,
+  '*': 14,
+  '/': 14,
+  '%': 14,
+  '**': 15,
+};
+
 /*
     ====================================
              --- INTERFACES ---
@@ -77,7 +145,9 @@ export interface CodeGenerationOptions {
   moduleSystem: 'es6' | 'commonjs' | 'amd' | 'systemjs';
 
   customTemplates?: Map<string, string>;
-  outputPath?: string;
+  outputPath?: string /* of the generated file, named by its source map */;
+  sourceFile?: string /* the WORLDC source the map points back to */;
+  reproducible?: boolean /* leave the generation time out of the output */;
 }
 
 /*
@@ -137,6 +207,27 @@ export interface CodegenDiagnostic {
   relatedInformation?: CodegenDiagnostic[];
 }
 
+/*
+
+         ModuleContext
+           ---
+           what a generator is told about a module compiled as
+           part of a compile unit: the unit's analysis of it and
+           how its imports of other project modules are written.
+
+*/
+
+export interface ModuleContext {
+  analysis: SimpleAnalysisResult;
+  outputPaths: Map<string, string> /* by import source, no extension */;
+}
+
+/* a source position at an offset into a chunk of generated code */
+interface ChunkMapping {
+  offset: number;
+  position: SourcePosition;
+}
+
 /*
 
          CodeGenerator
@@ -155,7 +246,8 @@ export interface CodeGenerator {
 
   generate(
     ast: Program,
-    options: CodeGenerationOptions
+    options: CodeGenerationOptions,
+    context?: ModuleContext
   ): Promise<CodeGenerationResult>;
 
   supportsFeature(feature: string): boolean;
@@ -192,11 +284,18 @@ export abstract class BaseCodeGenerator
   protected warnings: CodegenDiagnostic[];
   protected generatedCode: string[];
   protected indentLevel: number;
+
+  /* source positions within each chunk of generatedCode */
+  private chunkMappings: ChunkMapping[][];
+  private pendingBlocks: { code: string; mappings: ChunkMapping[] }[];
+  protected currentSource: SourcePosition | null;
   protected currentScope: string[];
 
   protected symbolTable: SymbolTable;
   protected typeRegistry: TypeRegistry;
   protected semanticAnalyzer: SimpleSemanticAnalyzer;
+  protected analysis: SimpleAnalysisResult | null /* of the current AST */;
+  protected moduleContext: ModuleContext | null;
 
   protected metadata: {
     linesGenerated: number;
@@ -217,10 +316,15 @@ export abstract class BaseCodeGenerator
     this.generatedCode = [];
     this.indentLevel = 0;
     this.currentScope = [];
+    this.chunkMappings = [];
+    this.pendingBlocks = [];
+    this.currentSource = null;
 
     this.symbolTable = new SymbolTable();
     this.typeRegistry = new TypeRegistry();
     this.semanticAnalyzer = new SimpleSemanticAnalyzer();
+    this.analysis = null;
+    this.moduleContext = null;
 
     this.metadata = {
       linesGenerated: 0,
@@ -237,18 +341,21 @@ export abstract class BaseCodeGenerator
              ---
              main entry point for code generation. performs
              semantic analysis, validates the AST, and then
-             traverses it to emit target-specific code.
+             traverses it to emit target-specific code. a module
+             of a compile unit brings the unit's analysis along.
 
   */
 
   public async generate(
     ast: Program,
-    options: CodeGenerationOptions
+    options: CodeGenerationOptions,
+    context?: ModuleContext
   ): Promise<CodeGenerationResult> {
     const startTime = performance.now();
 
     this.reset();
     this.options = { ...this.getDefaultOptions(), ...options };
+    this.moduleContext = context || null;
 
     /* validate options before proceeding */
     const optionDiagnostics = this.validateOptions(this.options);
@@ -258,15 +365,16 @@ export abstract class BaseCodeGenerator
 
     /* perform semantic analysis if not already done */
     try {
-      const analysisResult = await this.semanticAnalyzer.analyze(ast);
+      const analysisResult = context
+        ? context.analysis
+        : await this.semanticAnalyzer.analyze(ast);
       if (!analysisResult.success) {
         this.addError('Semantic analysis failed', 'SEMANTIC_ERROR');
         return this.createFailureResult();
       }
 
-      /* semantic analysis results would be accessed here */
-      /* this.symbolTable = analysisResult.symbolTable; */
-      /* this.typeRegistry = analysisResult.typeRegistry; */
+      /* generators read template instantiations from the analysis */
+      this.analysis = analysisResult;
     } catch (error) {
       this.addError(
         `Semantic analysis exception: ${error}`,
@@ -297,22 +405,175 @@ export abstract class BaseCodeGenerator
   */
 
   protected emit(code: string): void {
+    const mappings: ChunkMapping[] = this.currentSource
+      ? [{ offset: 0, position: this.currentSource }]
+      : [];
+
+    /* blocks rendered into this chunk bring their own mappings */
+    let searchFrom = 0;
+    for (const block of this.pendingBlocks) {
+      const offset = code.indexOf(block.code, searchFrom);
+      if (offset >= 0) {
+        mappings.push(
+          ...block.mappings.map((mapping) => ({
+            offset: offset + mapping.offset,
+            position: mapping.position,
+          }))
+        );
+        searchFrom = offset + block.code.length;
+      }
+    }
+    this.pendingBlocks = [];
+
     this.generatedCode.push(code);
+    this.chunkMappings.push(mappings);
     this.metadata.linesGenerated++;
   }
 
+  /* places code emitted after the fact, like preludes, at 'index' */
+  protected insertCode(index: number, ...chunks: string[]): void {
+    this.generatedCode.splice(index, 0, ...chunks);
+    this.chunkMappings.splice(index, 0, ...chunks.map(() => []));
+    this.metadata.linesGenerated += chunks.length;
+  }
+
   protected emitLine(code: string = ''): void {
-    const indent = this.options.useTabs
+    /* blank lines carry no trailing indentation */
+    this.emit(code ? this.getIndentation() + code + '\n' : '\n');
+  }
+
+  protected getIndentation(): string {
+    return this.options.useTabs
       ? '\t'.repeat(this.indentLevel)
       : ' '.repeat(this.indentLevel * this.options.indentSize);
-
-    this.emit(indent + code + '\n');
   }
 
   protected emitComment(comment: string): void {
     this.emitLine(`/* ${comment} */`);
   }
 
+  /*
+
+           enterNode() / exitNode()
+             ---
+             code emitted between the two maps to the start of
+             the node. generators bracket every declaration,
+             statement and class member, so nested code maps to
+             the innermost of them.
+
+  */
+
+  protected enterNode(node: ASTNode): SourcePosition | null {
+    const outer = this.currentSource;
+    if (node.location && node.location.start.line > 0) {
+      this.currentSource = node.location.start;
+    }
+    return outer;
+  }
+
+  protected exitNode(outer: SourcePosition | null): void {
+    this.currentSource = outer;
+  }
+
+  /*
+
+           getModuleSource()
+             ---
+             the source an import or re-export is written with.
+             project modules are named by their output path plus
+             the suffix of this target's files, and a source
+             naming a WORLDC file drops its extension.
+
+  */
+
+  protected getModuleSource(source: string): string {
+    const outputPath = this.moduleContext?.outputPaths.get(source);
+    if (outputPath !== undefined) {
+      return outputPath + this.getModuleSuffix();
+    }
+
+    const extension = SOURCE_EXTENSIONS.find((e) => source.endsWith(e));
+    return extension
+      ? source.slice(0, -extension.length) + this.getModuleSuffix()
+      : source;
+  }
+
+  /* what output file names add after the module name */
+  protected getModuleSuffix(): string {
+    return '';
+  }
+
+  /*
+
+           emitBody()
+             ---
+             emits the body of a compound statement one level
+             deeper. block bodies are unwrapped because the
+             enclosing statement already supplies the braces.
+
+  */
+
+  protected emitBody(body: Statement): void {
+    this.indent();
+
+    if (body instanceof BlockStatement) {
+      for (const statement of body.statements) {
+        statement.accept(this);
+      }
+    } else {
+      body.accept(this);
+    }
+
+    this.dedent();
+  }
+
+  /*
+
+           generateBlock()
+             ---
+             renders a block into a string. nested lines carry
+             their full indentation, so the result can be placed
+             anywhere on the line currently being emitted.
+
+  */
+
+  protected generateBlock(node: BlockStatement): string {
+    if (node.statements.length === 0) {
+      return '{}';
+    }
+
+    const outerCode = this.generatedCode;
+    const outerMappings = this.chunkMappings;
+    const outerBlocks = this.pendingBlocks;
+    this.generatedCode = [];
+    this.chunkMappings = [];
+    this.pendingBlocks = [];
+
+    this.emitBody(node);
+
+    /* mappings stay relative to the block until it is emitted */
+    const mappings: ChunkMapping[] = [];
+    let offset = 2; /* past '{\n' */
+    this.generatedCode.forEach((chunk, i) => {
+      for (const mapping of this.chunkMappings[i]) {
+        mappings.push({
+          offset: offset + mapping.offset,
+          position: mapping.position,
+        });
+      }
+      offset += chunk.length;
+    });
+
+    const body = this.generatedCode.join('');
+    this.generatedCode = outerCode;
+    this.chunkMappings = outerMappings;
+    this.pendingBlocks = outerBlocks;
+
+    const code = `{\n${body}${this.getIndentation()}}`;
+    this.pendingBlocks.push({ code, mappings });
+    return code;
+  }
+
   protected indent(): void {
     this.indentLevel++;
   }
@@ -387,6 +648,16 @@ export abstract class BaseCodeGenerator
     location: any
   ): { line: number; column: number; length: number } | undefined {
     if (location && typeof location === 'object') {
+      /* AST nodes carry a { start, end } range instead of a flat position */
+      const range = location instanceof ASTNode ? location.location : location;
+      if (range && range.start) {
+        return {
+          line: range.start.line || 0,
+          column: range.start.column || 0,
+          length: range.end ? range.end.offset - range.start.offset : 0,
+        };
+      }
+
       return {
         line: location.line || 0,
         column: location.column || 0,
@@ -404,12 +675,22 @@ export abstract class BaseCodeGenerator
   */
 
   protected createSuccessResult(): CodeGenerationResult {
+    const sourceMap = this.options.sourceMaps
+      ? this.createSourceMap()
+      : undefined;
+    if (sourceMap && this.options.outputPath) {
+      this.emit(
+        `//# sourceMappingURL=${path.basename(this.options.outputPath)}.map\n`
+      );
+    }
+
     const generatedCode = this.generatedCode.join('');
     const hasErrors = this.diagnostics.some((d) => d.severity === 'error');
 
     return {
       success: !hasErrors,
       generatedCode,
+      sourceMap,
       target: this.target,
       diagnostics: this.diagnostics,
       warnings: this.warnings,
@@ -418,6 +699,66 @@ export abstract class BaseCodeGenerator
     };
   }
 
+  /*
+
+           createSourceMap()
+             ---
+             maps the first non-blank column after every chunk
+             mapping to its source position. sources are named
+             relative to the output file when its path is known.
+
+  */
+
+  protected createSourceMap(): string {
+    const outputPath = this.options.outputPath;
+    const builder = new SourceMapBuilder(
+      outputPath ? path.basename(outputPath) : undefined
+    );
+
+    const sourceFile = this.options.sourceFile || '<input>';
+    builder.addSource(
+      outputPath && this.options.sourceFile
+        ? path
+            .relative(path.dirname(outputPath), sourceFile)
+            .split(path.sep)
+            .join('/')
+        : sourceFile
+    );
+
+    let line = 1;
+    let column = 1;
+
+    this.generatedCode.forEach((chunk, i) => {
+      for (const { offset, position } of this.chunkMappings[i]) {
+        const start = offset + /^[ \t]*/.exec(chunk.slice(offset))![0].length;
+        if (start >= chunk.length || chunk[start] === '\n') {
+          continue;
+        }
+
+        const before = chunk.slice(0, start).split('\n');
+        builder.addMapping(
+          before.length > 1
+            ? {
+                line: line + before.length - 1,
+                column: before.pop()!.length + 1,
+              }
+            : { line, column: column + start },
+          { line: position.line, column: position.column }
+        );
+      }
+
+      const lines = chunk.split('\n');
+      if (lines.length > 1) {
+        line += lines.length - 1;
+        column = 1 + lines[lines.length - 1].length;
+      } else {
+        column += chunk.length;
+      }
+    });
+
+    return builder.toString();
+  }
+
   protected createFailureResult(): CodeGenerationResult {
     return {
       success: false,
@@ -469,6 +810,11 @@ export abstract class BaseCodeGenerator
     this.generatedCode = [];
     this.indentLevel = 0;
     this.currentScope = [];
+    this.chunkMappings = [];
+    this.pendingBlocks = [];
+    this.currentSource = null;
+    this.analysis = null;
+    this.moduleContext = null;
 
     this.metadata = {
       linesGenerated: 0,
@@ -640,6 +986,50 @@ export class CodegenUtils {
 
     return num.toString();
   }
+
+  /* runtime class of a built-in vector type, 'ivec3' becomes 'IVec3' */
+  public static getVectorClassName(typeName: string): string {
+    const match = /^(i?)(vec|mat|quat)(\d?)$/.exec(typeName);
+    if (!match) {
+      return typeName;
+    }
+
+    const [, integer, kind, size] = match;
+    return integer.toUpperCase() + kind[0].toUpperCase() + kind.slice(1) + size;
+  }
+
+  /* method name a user-defined 'operator<op>' member is emitted under */
+  public static getOperatorMethodName(
+    operator: string,
+    parameterCount: number
+  ): string {
+    if (parameterCount === 0 && (operator === '-' || operator === '+')) {
+      return operator === '-' ? 'opNeg' : 'opPos';
+    }
+
+    const names: Record<string, string> = {
+      '+': 'opAdd',
+      '-': 'opSub',
+      '*': 'opMul',
+      '/': 'opDiv',
+      '%': 'opMod',
+      '==': 'opEq',
+      '!=': 'opNe',
+      '<': 'opLt',
+      '<=': 'opLe',
+      '>': 'opGt',
+      '>=': 'opGe',
+      '&': 'opAnd',
+      '|': 'opOr',
+      '^': 'opXor',
+      '<<': 'opShl',
+      '>>': 'opShr',
+      '!': 'opNot',
+      '~': 'opBitNot',
+    };
+
+    return names[operator] ?? 'op';
+  }
 }
 
 /*
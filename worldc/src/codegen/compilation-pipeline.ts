@@ -24,15 +24,24 @@ import {
   CodeGenerationOptions,
   CodeGenerationResult,
   CodegenDiagnostic,
+  ModuleContext,
 } from './base-generator';
 
 import { TypeScriptGenerator } from './typescript-generator';
 import { AssemblyScriptGenerator } from './assemblyscript-generator';
 
 import { Program } from '../parser/ast';
-import { Lexer } from '../lexer/lexer';
-import { Parser } from '../parser/parser';
+import { Lexer, LexerError } from '../lexer/lexer';
+import { Parser, ParseError } from '../parser/parser';
 import { SimpleSemanticAnalyzer } from '../semantic/simple-analyzer';
+import { CompileUnit, ModuleCache } from '../semantic/compile-unit';
+import {
+  ModuleHost,
+  ModuleKind,
+  ModuleResolver,
+  fileSystemHost,
+} from '../semantic/module-resolver';
+import { WorldCError, globalErrorHandler } from '../error/error-handler';
 
 /*
     ====================================
@@ -97,6 +106,39 @@ export interface CompilationResult {
   outputFiles: Map<CompilationTarget, string[]>;
 }
 
+/*
+
+         ProjectCompilationRequest
+           ---
+           request to compile entry files together with every
+           module they import. all modules share the options.
+
+*/
+
+export interface ProjectCompilationRequest
+  extends Omit<CompilationRequest, 'sourceCode' | 'filename'> {
+  entries: string[];
+  projectRoot?: string /* found from the first entry when omitted */;
+  host?: ModuleHost;
+  cache?: ModuleCache /* parsed modules kept between compilations */;
+}
+
+/*
+
+         ProjectCompilationResult
+           ---
+           one result per module of the compile unit, imported
+           modules first. package modules are analyzed but not
+           generated.
+
+*/
+
+export interface ProjectCompilationResult {
+  success: boolean;
+  modules: Map<string, CompilationResult>;
+  unit: CompileUnit;
+}
+
 /*
 
          PipelineStage
@@ -220,155 +262,415 @@ export class CompilationPipeline {
     this.isRunning = true;
     const startTime = performance.now();
 
-    const result: CompilationResult = {
+    const result = this.createResult(request);
+
+    try {
+      const targets = this.getTargets(request, result);
+      if (!targets) {
+        return result;
+      }
+
+      /* stages 1-3: lexing, parsing and semantic analysis */
+      const ast = await this.runFrontEnd(request, result);
+      if (!ast) {
+        return result;
+      }
+
+      /* stages 4-5: code generation for each target */
+      result.success = await this.runBackEnd(targets, request, result, ast);
+      this.reportProgress(100, 'Compilation complete');
+    } catch (error) {
+      this.addError(result, `Pipeline error: ${error}`, 'PIPELINE_EXCEPTION');
+      this.reportError(error as Error, this.currentStage);
+    } finally {
+      result.timing.totalTime = performance.now() - startTime;
+      this.setStage(PipelineStage.COMPLETE);
+      this.isRunning = false;
+    }
+
+    return result;
+  }
+
+  /*
+
+           check()
+             ---
+             runs the front end of the pipeline (lexing, parsing
+             and semantic analysis) without generating any code.
+             used by validation tooling that only needs diagnostics.
+
+  */
+
+  public async check(request: CompilationRequest): Promise<CompilationResult> {
+    if (this.isRunning) {
+      throw new Error('Compilation pipeline is already running');
+    }
+
+    this.isRunning = true;
+    const startTime = performance.now();
+    const result = this.createResult(request);
+
+    try {
+      const ast = await this.runFrontEnd(request, result);
+      result.success = ast !== null;
+    } catch (error) {
+      this.addError(result, `Pipeline error: ${error}`, 'PIPELINE_EXCEPTION');
+      this.reportError(error as Error, this.currentStage);
+    } finally {
+      result.timing.totalTime = performance.now() - startTime;
+      this.setStage(PipelineStage.COMPLETE);
+      this.isRunning = false;
+    }
+
+    return result;
+  }
+
+  /*
+
+           getTargets()
+             ---
+             the targets a request names, or null (with an error
+             in the result) if a generator is missing for one.
+
+  */
+
+  private getTargets(
+    request: CompilationRequest | ProjectCompilationRequest,
+    result: CompilationResult
+  ): CompilationTarget[] | null {
+    const targets = Array.isArray(request.target)
+      ? request.target
+      : [request.target];
+
+    for (const target of targets) {
+      if (!this.generators.has(target)) {
+        this.addError(
+          result,
+          `Unsupported compilation target: ${target}`,
+          'UNSUPPORTED_TARGET'
+        );
+        return null;
+      }
+    }
+
+    return targets;
+  }
+
+  /*
+
+           compileProject()
+             ---
+             compiles the entry files and the modules they import
+             as one compile unit. nothing is generated unless the
+             whole unit analyzes without errors.
+
+  */
+
+  public async compileProject(
+    request: ProjectCompilationRequest
+  ): Promise<ProjectCompilationResult> {
+    return this.runProject(request, true);
+  }
+
+  /*
+
+           checkProject()
+             ---
+             analyzes the entry files and the modules they import
+             without generating any code.
+
+  */
+
+  public async checkProject(
+    request: ProjectCompilationRequest
+  ): Promise<ProjectCompilationResult> {
+    return this.runProject(request, false);
+  }
+
+  private async runProject(
+    request: ProjectCompilationRequest,
+    generateCode: boolean
+  ): Promise<ProjectCompilationResult> {
+    if (this.isRunning) {
+      throw new Error('Compilation pipeline is already running');
+    }
+
+    this.isRunning = true;
+
+    const host = request.host || fileSystemHost;
+    const projectRoot =
+      request.projectRoot ||
+      ModuleResolver.findProjectRoot(request.entries[0], host);
+    const unit = new CompileUnit(
+      new ModuleResolver(projectRoot, host),
+      this.semanticAnalyzer,
+      request.cache
+    );
+    const project: ProjectCompilationResult = {
       success: false,
-      request,
-      results: new Map(),
-      diagnostics: [],
-      warnings: [],
-      timing: {
-        lexingTime: 0,
-        parsingTime: 0,
-        semanticAnalysisTime: 0,
-        codeGenerationTime: 0,
-        totalTime: 0,
-      },
-      artifacts: new Map(),
-      outputFiles: new Map(),
+      modules: new Map(),
+      unit,
     };
 
     try {
-      /* determine target list */
-      const targets = Array.isArray(request.target)
-        ? request.target
-        : [request.target];
-
-      /* validate targets */
-      for (const target of targets) {
-        if (!this.generators.has(target)) {
-          this.addError(
-            result,
-            `Unsupported compilation target: ${target}`,
-            'UNSUPPORTED_TARGET'
-          );
-          return result;
+      /* stages 1-3 run over the whole unit */
+      this.setStage(PipelineStage.SEMANTIC_ANALYSIS);
+      const startTime = performance.now();
+      const unitResult = unit.build(request.entries);
+      const frontEndTime = performance.now() - startTime;
+
+      for (const module of unitResult.modules) {
+        const moduleStart = performance.now();
+        const result = this.createResult({
+          ...request,
+          sourceCode: module.sourceCode,
+          filename: module.path,
+        });
+        this.collectHandlerDiagnostics(
+          result,
+          module.errors,
+          module.warnings,
+          module.path
+        );
+        result.success = module.errors.length === 0;
+
+        /* the unit's front-end time is counted once */
+        if (project.modules.size === 0) {
+          Object.assign(result.timing, unitResult.timing);
+          result.timing.totalTime = frontEndTime;
+        }
+
+        if (
+          generateCode &&
+          unitResult.success &&
+          module.kind === ModuleKind.PROJECT
+        ) {
+          const targets = this.getTargets(request, result);
+          result.success =
+            !!targets &&
+            (await this.runBackEnd(
+              targets,
+              result.request,
+              result,
+              module.ast!,
+              {
+                analysis: module.analysis!,
+                outputPaths: module.outputPaths,
+              }
+            ));
         }
+
+        result.timing.totalTime += performance.now() - moduleStart;
+        project.modules.set(module.path, result);
       }
 
-      /* stage 1: lexical analysis */
-      this.setStage(PipelineStage.LEXING);
-      const lexingStart = performance.now();
+      project.success =
+        unitResult.success &&
+        [...project.modules.values()].every((result) => result.success);
+    } finally {
+      this.setStage(PipelineStage.COMPLETE);
+      this.isRunning = false;
+    }
+
+    return project;
+  }
+
+  /*
+
+           runFrontEnd()
+             ---
+             lexes, parses and analyzes the request source. lexer
+             and parser failures are converted into located
+             diagnostics; semantic diagnostics are collected from
+             the global error handler. returns null on failure.
 
+  */
+
+  private async runFrontEnd(
+    request: CompilationRequest,
+    result: CompilationResult
+  ): Promise<Program | null> {
+    /* stage 1: lexical analysis */
+    this.setStage(PipelineStage.LEXING);
+    const lexingStart = performance.now();
+
+    let tokens;
+    try {
       this.lexer = new Lexer(request.sourceCode);
-      const tokens = this.lexer.tokenize();
-      if (tokens.length === 0) {
-        this.addError(
+      tokens = this.lexer.tokenize();
+    } catch (error) {
+      if (error instanceof LexerError) {
+        this.addLocatedError(
           result,
-          'No tokens generated from source code',
-          'EMPTY_TOKENS'
+          this.stripPositionPrefix(error.message),
+          'LEXICAL_ERROR',
+          error.position.line,
+          error.position.column,
+          request.filename
         );
-        return result;
+        return null;
       }
+      throw error;
+    }
 
-      result.timing.lexingTime = performance.now() - lexingStart;
-      this.reportProgress(20, 'Lexical analysis complete');
+    if (tokens.length === 0) {
+      this.addError(
+        result,
+        'No tokens generated from source code',
+        'EMPTY_TOKENS'
+      );
+      return null;
+    }
 
-      /* stage 2: syntax analysis */
-      this.setStage(PipelineStage.PARSING);
-      const parsingStart = performance.now();
+    result.timing.lexingTime = performance.now() - lexingStart;
+    this.reportProgress(20, 'Lexical analysis complete');
 
+    /* stage 2: syntax analysis */
+    this.setStage(PipelineStage.PARSING);
+    const parsingStart = performance.now();
+
+    let ast: Program;
+    try {
       this.parser = new Parser(tokens);
-      const ast = this.parser.parse();
-      if (!ast) {
-        this.addError(
+      ast = this.parser.parse();
+    } catch (error) {
+      if (error instanceof ParseError) {
+        this.addLocatedError(
           result,
-          'Failed to generate AST from tokens',
-          'PARSING_FAILED'
+          this.stripPositionPrefix(error.message),
+          'SYNTAX_ERROR',
+          error.token.start.line,
+          error.token.start.column,
+          request.filename,
+          Math.max(1, error.token.end.offset - error.token.start.offset)
         );
-        return result;
+        return null;
       }
+      throw error;
+    }
 
-      result.timing.parsingTime = performance.now() - parsingStart;
-      this.reportProgress(40, 'Syntax analysis complete');
+    if (!ast) {
+      this.addError(
+        result,
+        'Failed to generate AST from tokens',
+        'PARSING_FAILED'
+      );
+      return null;
+    }
 
-      /* stage 3: semantic analysis */
-      this.setStage(PipelineStage.SEMANTIC_ANALYSIS);
-      const semanticStart = performance.now();
+    result.timing.parsingTime = performance.now() - parsingStart;
+    this.reportProgress(40, 'Syntax analysis complete');
 
-      const semanticResult = await this.semanticAnalyzer.analyze(ast);
-      if (!semanticResult.success) {
+    /* stage 3: semantic analysis */
+    this.setStage(PipelineStage.SEMANTIC_ANALYSIS);
+    const semanticStart = performance.now();
+
+    const errorsBefore = globalErrorHandler.getErrors().length;
+    const warningsBefore = globalErrorHandler.getWarnings().length;
+
+    const semanticResult = await this.semanticAnalyzer.analyze(ast);
+
+    this.collectHandlerDiagnostics(
+      result,
+      globalErrorHandler.getErrors().slice(errorsBefore),
+      globalErrorHandler.getWarnings().slice(warningsBefore),
+      request.filename
+    );
+
+    result.timing.semanticAnalysisTime = performance.now() - semanticStart;
+
+    if (!semanticResult.success) {
+      if (!result.diagnostics.some((d) => d.severity === 'error')) {
         this.addError(result, 'Semantic analysis failed', 'SEMANTIC_FAILED');
-        return result;
       }
+      return null;
+    }
 
-      result.timing.semanticAnalysisTime = performance.now() - semanticStart;
-      this.reportProgress(60, 'Semantic analysis complete');
-
-      /* stage 4: code generation for each target */
-      this.setStage(PipelineStage.CODE_GENERATION);
-      const codegenStart = performance.now();
+    this.reportProgress(60, 'Semantic analysis complete');
 
-      let successCount = 0;
-      const progressPerTarget = 30 / targets.length;
+    return ast;
+  }
 
-      for (const target of targets) {
-        try {
-          this.reportStageStart(PipelineStage.CODE_GENERATION, target);
+  /*
 
-          const generator = this.generators.get(target)!;
-          const targetOptions = { ...request.options, target };
+           runBackEnd()
+             ---
+             generates code for each target and the artifacts
+             that go with it. returns whether any target
+             succeeded.
 
-          const generationResult = await generator.generate(
-            ast as Program,
-            targetOptions
-          );
-          result.results.set(target, generationResult);
+  */
 
-          if (generationResult.success) {
-            successCount++;
-            this.processGenerationResult(result, target, generationResult);
-          } else {
-            this.mergeGenerationDiagnostics(result, generationResult);
-          }
+  private async runBackEnd(
+    targets: CompilationTarget[],
+    request: CompilationRequest,
+    result: CompilationResult,
+    ast: Program,
+    context?: ModuleContext
+  ): Promise<boolean> {
+    /* stage 4: code generation for each target */
+    this.setStage(PipelineStage.CODE_GENERATION);
+    const codegenStart = performance.now();
+
+    let successCount = 0;
+    const progressPerTarget = 30 / targets.length;
+
+    for (const target of targets) {
+      try {
+        this.reportStageStart(PipelineStage.CODE_GENERATION, target);
+
+        const generator = this.generators.get(target)!;
+        /* async code is only requested from targets that support it */
+        const targetOptions = {
+          ...request.options,
+          target,
+          asyncSupport:
+            request.options.asyncSupport &&
+            generator.getDefaultOptions().asyncSupport,
+          /* source maps name both ends of the mapping */
+          sourceFile: request.filename,
+          outputPath: request.filename
+            ? this.generateOutputFilename(target, request.filename)
+            : request.options.outputPath,
+        };
+
+        const generationResult = await generator.generate(
+          ast,
+          targetOptions,
+          context
+        );
+        result.results.set(target, generationResult);
 
-          this.reportStageComplete(PipelineStage.CODE_GENERATION, target);
-        } catch (error) {
-          this.addError(
-            result,
-            `Code generation failed for ${target}: ${error}`,
-            'CODEGEN_EXCEPTION'
-          );
-          this.reportError(
-            error as Error,
-            PipelineStage.CODE_GENERATION,
-            target
-          );
+        if (generationResult.success) {
+          successCount++;
+          this.processGenerationResult(result, target, generationResult);
+        } else {
+          this.mergeGenerationDiagnostics(result, generationResult);
         }
 
-        this.reportProgress(
-          60 + progressPerTarget * (targets.indexOf(target) + 1),
-          `Code generation complete for ${target}`
+        this.reportStageComplete(PipelineStage.CODE_GENERATION, target);
+      } catch (error) {
+        this.addError(
+          result,
+          `Code generation failed for ${target}: ${error}`,
+          'CODEGEN_EXCEPTION'
         );
+        this.reportError(error as Error, PipelineStage.CODE_GENERATION, target);
       }
 
-      result.timing.codeGenerationTime = performance.now() - codegenStart;
+      this.reportProgress(
+        60 + progressPerTarget * (targets.indexOf(target) + 1),
+        `Code generation complete for ${target}`
+      );
+    }
 
-      /* stage 5: finalization */
-      this.setStage(PipelineStage.OUTPUT);
-      this.generateOutputArtifacts(result);
+    result.timing.codeGenerationTime = performance.now() - codegenStart;
 
-      result.success = successCount > 0;
-      this.reportProgress(100, 'Compilation complete');
-    } catch (error) {
-      this.addError(result, `Pipeline error: ${error}`, 'PIPELINE_EXCEPTION');
-      this.reportError(error as Error, this.currentStage);
-    } finally {
-      result.timing.totalTime = performance.now() - startTime;
-      this.setStage(PipelineStage.COMPLETE);
-      this.isRunning = false;
-    }
+    /* stage 5: finalization */
+    this.setStage(PipelineStage.OUTPUT);
+    this.generateOutputArtifacts(result);
 
-    return result;
+    return successCount > 0;
   }
 
   /*
@@ -416,6 +718,89 @@ export class CompilationPipeline {
     }
   }
 
+  private createResult(request: CompilationRequest): CompilationResult {
+    return {
+      success: false,
+      request,
+      results: new Map(),
+      diagnostics: [],
+      warnings: [],
+      timing: {
+        lexingTime: 0,
+        parsingTime: 0,
+        semanticAnalysisTime: 0,
+        codeGenerationTime: 0,
+        totalTime: 0,
+      },
+      artifacts: new Map(),
+      outputFiles: new Map(),
+    };
+  }
+
+  private addLocatedError(
+    result: CompilationResult,
+    message: string,
+    code: string,
+    line: number,
+    column: number,
+    filename?: string,
+    length: number = 1
+  ): void {
+    result.diagnostics.push({
+      severity: 'error',
+      message,
+      code,
+      location: { line, column, length, filename },
+    });
+  }
+
+  private collectHandlerDiagnostics(
+    result: CompilationResult,
+    errors: WorldCError[],
+    warnings: WorldCError[],
+    filename?: string
+  ): void {
+    const toDiagnostic = (
+      error: WorldCError,
+      severity: 'error' | 'warning'
+    ) => ({
+      severity,
+      message: error.message,
+      code: error.code || error.type,
+      location: error.location
+        ? {
+            line: error.location.line,
+            column: error.location.column,
+            length: error.location.length || 1,
+            filename:
+              !error.location.file || error.location.file.startsWith('<')
+                ? filename
+                : error.location.file,
+          }
+        : undefined,
+      suggestion: error.suggestion,
+    });
+
+    for (const error of errors) {
+      result.diagnostics.push(toDiagnostic(error, 'error'));
+    }
+
+    for (const warning of warnings) {
+      const diagnostic = toDiagnostic(warning, 'warning');
+      result.warnings.push(diagnostic);
+      if (this.events.onWarning) {
+        this.events.onWarning(diagnostic, this.currentStage);
+      }
+    }
+  }
+
+  private stripPositionPrefix(message: string): string {
+    return message.replace(
+      /^(?:Lexer|Parse) error at line \d+, column \d+: /,
+      ''
+    );
+  }
+
   private addError(
     result: CompilationResult,
     message: string,
@@ -457,6 +842,7 @@ export class CompilationPipeline {
       result.request.filename
     );
     result.artifacts.set(filename, generationResult.generatedCode);
+    result.warnings.push(...generationResult.warnings);
 
     /* store source maps if generated */
     if (generationResult.sourceMap) {
@@ -29,12 +29,23 @@ export type {
   CodeGenerationOptions,
   CodeGenerationResult,
   CodegenDiagnostic,
+  ModuleContext,
 } from './base-generator';
 
 /* export specific generators */
 export { TypeScriptGenerator } from './typescript-generator';
 export { AssemblyScriptGenerator } from './assemblyscript-generator';
 
+/* export source maps */
+export {
+  SourceMapBuilder,
+  SourceMapReader,
+  decodeMappings,
+  getOriginalPosition,
+  getGeneratedPosition,
+} from './source-map';
+export type { SourceMap, Mapping, MappingPosition } from './source-map';
+
 /* export compilation pipeline */
 export {
   CompilationPipeline,
@@ -44,6 +55,8 @@ export {
 export type {
   CompilationRequest,
   CompilationResult,
+  ProjectCompilationRequest,
+  ProjectCompilationResult,
   PipelineEvents,
 } from './compilation-pipeline';
 
@@ -0,0 +1,401 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         source-map.ts
+           ---
+           version 3 source maps between WORLDC sources and the
+           code generated from them.
+
+           generators build a map while emitting; the debug
+           adapter and the tooling read it back to turn positions
+           in either file into positions in the other. positions
+           here are 1-based in lines and columns like the AST;
+           the encoded mappings are 0-based as the format wants.
+
+*/
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+export interface SourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  names: string[];
+  mappings: string;
+}
+
+export interface MappingPosition {
+  line: number;
+  column: number;
+}
+
+export interface Mapping {
+  generated: MappingPosition;
+  original: MappingPosition;
+  source: number /* index into the map's sources */;
+}
+
+const BASE64 =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/*
+    ====================================
+             --- BUILDER ---
+    ====================================
+*/
+
+/*
+
+         SourceMapBuilder
+           ---
+           collects mappings in generated order and encodes them.
+           a mapping repeating the original position of the one
+           before it on the same line adds nothing and is dropped.
+
+*/
+
+export class SourceMapBuilder {
+  private file: string | undefined;
+  private sources: string[] = [];
+  private sourcesContent: (string | null)[] = [];
+  private mappings: Mapping[] = [];
+
+  constructor(file?: string) {
+    this.file = file;
+  }
+
+  public addSource(source: string, content?: string): number {
+    const existing = this.sources.indexOf(source);
+    if (existing >= 0) {
+      return existing;
+    }
+
+    this.sources.push(source);
+    this.sourcesContent.push(content ?? null);
+    return this.sources.length - 1;
+  }
+
+  public addMapping(
+    generated: MappingPosition,
+    original: MappingPosition,
+    source: number = 0
+  ): void {
+    const last = this.mappings[this.mappings.length - 1];
+    if (
+      last &&
+      last.generated.line === generated.line &&
+      last.source === source &&
+      last.original.line === original.line &&
+      last.original.column === original.column
+    ) {
+      return;
+    }
+
+    this.mappings.push({
+      generated: { ...generated },
+      original: { ...original },
+      source,
+    });
+  }
+
+  public getMappings(): Mapping[] {
+    return [...this.mappings];
+  }
+
+  public toJSON(): SourceMap {
+    const map: SourceMap = {
+      version: 3,
+      sources: [...this.sources],
+      names: [],
+      mappings: encodeMappings(this.mappings),
+    };
+
+    if (this.file) {
+      map.file = this.file;
+    }
+    if (this.sourcesContent.some((content) => content !== null)) {
+      map.sourcesContent = [...this.sourcesContent];
+    }
+
+    return map;
+  }
+
+  public toString(): string {
+    return JSON.stringify(this.toJSON());
+  }
+}
+
+/*
+    ====================================
+             --- ENCODING ---
+    ====================================
+*/
+
+/*
+
+         encodeMappings()
+           ---
+           the 'mappings' string of a map. lines are separated by
+           ';' and segments by ','; every field but the generated
+           column is relative to the segment before it in the map.
+
+*/
+
+export function encodeMappings(mappings: Mapping[]): string {
+  const sorted = [...mappings].sort(
+    (a, b) =>
+      a.generated.line - b.generated.line ||
+      a.generated.column - b.generated.column
+  );
+
+  let encoded = '';
+  let line = 1;
+  let previousColumn = 0;
+  let previousSource = 0;
+  let previousLine = 0;
+  let previousOriginalColumn = 0;
+
+  sorted.forEach((mapping, i) => {
+    if (mapping.generated.line > line) {
+      encoded += ';'.repeat(mapping.generated.line - line);
+      line = mapping.generated.line;
+      previousColumn = 0;
+    } else if (i > 0) {
+      encoded += ',';
+    }
+
+    const column = mapping.generated.column - 1;
+    const originalLine = mapping.original.line - 1;
+    const originalColumn = mapping.original.column - 1;
+
+    encoded +=
+      encodeVLQ(column - previousColumn) +
+      encodeVLQ(mapping.source - previousSource) +
+      encodeVLQ(originalLine - previousLine) +
+      encodeVLQ(originalColumn - previousOriginalColumn);
+
+    previousColumn = column;
+    previousSource = mapping.source;
+    previousLine = originalLine;
+    previousOriginalColumn = originalColumn;
+  });
+
+  return encoded;
+}
+
+/*
+
+         decodeMappings()
+           ---
+           the mappings of a map in generated order. segments
+           without an original position map nothing and are
+           skipped.
+
+*/
+
+export function decodeMappings(map: SourceMap): Mapping[] {
+  const mappings: Mapping[] = [];
+
+  let source = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  map.mappings.split(';').forEach((lineMappings, line) => {
+    let column = 0;
+
+    for (const segment of lineMappings.split(',')) {
+      if (!segment) {
+        continue;
+      }
+
+      const fields = decodeVLQ(segment);
+      column += fields[0];
+      if (fields.length < 4) {
+        continue;
+      }
+
+      source += fields[1];
+      originalLine += fields[2];
+      originalColumn += fields[3];
+
+      mappings.push({
+        generated: { line: line + 1, column: column + 1 },
+        original: { line: originalLine + 1, column: originalColumn + 1 },
+        source,
+      });
+    }
+  });
+
+  return mappings;
+}
+
+export function encodeVLQ(value: number): string {
+  /* the sign goes into the lowest bit */
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = '';
+
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) {
+      digit |= 32 /* continuation bit */;
+    }
+    encoded += BASE64[digit];
+  } while (vlq > 0);
+
+  return encoded;
+}
+
+export function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid source map character '${char}'`);
+    }
+
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+}
+
+/*
+    ====================================
+             --- LOOKUP ---
+    ====================================
+*/
+
+/*
+
+         SourceMapReader
+           ---
+           answers lookups against one map, decoding its mappings
+           once. tools holding on to a map use a reader; the
+           functions below serve single lookups.
+
+*/
+
+export class SourceMapReader {
+  public readonly map: SourceMap;
+  private mappings: Mapping[];
+
+  constructor(map: SourceMap) {
+    this.map = map;
+    this.mappings = decodeMappings(map);
+  }
+
+  /*
+
+           getOriginalPosition()
+             ---
+             the source position of a generated one: the nearest
+             mapping at or before it on its line. without a
+             column the first mapping of the line is used.
+
+  */
+
+  public getOriginalPosition(
+    line: number,
+    column?: number
+  ): (MappingPosition & { source: string }) | null {
+    const onLine = this.mappings.filter((m) => m.generated.line === line);
+    if (onLine.length === 0) {
+      return null;
+    }
+
+    const mapping =
+      column === undefined
+        ? onLine[0]
+        : onLine.filter((m) => m.generated.column <= column).pop();
+    if (!mapping) {
+      return null;
+    }
+
+    return {
+      source: this.map.sources[mapping.source],
+      line: mapping.original.line,
+      column: mapping.original.column,
+    };
+  }
+
+  /*
+
+           getGeneratedPosition()
+             ---
+             where the code of a source line starts in generated
+             code. a line with no code of its own, like a blank
+             line or a comment, moves to the next line that has.
+
+  */
+
+  public getGeneratedPosition(
+    source: number,
+    line: number
+  ): MappingPosition | null {
+    let best: Mapping | null = null;
+
+    for (const mapping of this.mappings) {
+      if (mapping.source !== source || mapping.original.line < line) {
+        continue;
+      }
+
+      if (
+        !best ||
+        mapping.original.line < best.original.line ||
+        (mapping.original.line === best.original.line &&
+          (mapping.generated.line < best.generated.line ||
+            (mapping.generated.line === best.generated.line &&
+              mapping.generated.column < best.generated.column)))
+      ) {
+        best = mapping;
+      }
+    }
+
+    return best ? { ...best.generated } : null;
+  }
+}
+
+export function getOriginalPosition(
+  map: SourceMap,
+  line: number,
+  column?: number
+): (MappingPosition & { source: string }) | null {
+  return new SourceMapReader(map).getOriginalPosition(line, column);
+}
+
+export function getGeneratedPosition(
+  map: SourceMap,
+  source: number,
+  line: number
+): MappingPosition | null {
+  return new SourceMapReader(map).getGeneratedPosition(source, line);
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
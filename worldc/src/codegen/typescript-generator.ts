@@ -24,6 +24,8 @@ import {
   CodeGenerationOptions,
   CodegenDiagnostic,
   CodegenUtils,
+  Precedence,
+  BINARY_PRECEDENCE,
 } from './base-generator';
 
 import {
@@ -37,25 +39,70 @@ import {
   VariableDeclaration,
   ClassDeclaration,
   InterfaceDeclaration,
+  StructDeclaration,
+  EnumDeclaration,
+  NamespaceDeclaration,
+  TypeAliasDeclaration,
+  ImportDeclaration,
+  ExportDeclaration,
+  ClassMember,
+  InterfaceMember,
+  TypeParameter,
   Parameter,
+  AccessModifier,
   BlockStatement,
   ExpressionStatement,
   IfStatement,
   WhileStatement,
+  DoWhileStatement,
   ForStatement,
+  ForInStatement,
+  ForOfStatement,
+  SwitchStatement,
+  TryStatement,
   ReturnStatement,
+  BreakStatement,
+  ContinueStatement,
+  ThrowStatement,
   BinaryExpression,
   UnaryExpression,
+  AssignmentExpression,
+  UpdateExpression,
+  LogicalExpression,
+  ConditionalExpression,
   CallExpression,
   MemberExpression,
+  ArrayExpression,
+  ObjectExpression,
+  ObjectProperty,
+  ArrowFunctionExpression,
+  FunctionExpression,
+  LambdaExpression,
+  NewExpression,
+  ThisExpression,
+  SuperExpression,
   Identifier,
   Literal,
-  AssignmentExpression,
+  TemplateLiteral,
+  AwaitExpression,
+  YieldExpression,
   PrimitiveType,
   ArrayType,
   PointerType,
+  ReferenceType,
   FunctionType,
+  GenericType,
+  UnionType,
+  IntersectionType,
+  TupleType,
+  OptionalType,
 } from '../parser/ast';
+import { OperatorUse } from '../semantic/simple-analyzer';
+import { SymbolKind } from '../semantic/symbol-table';
+import { TypeKind, getSwizzleIndices } from '../semantic/type-system';
+
+/* module the vector math classes are imported from */
+const RUNTIME_MATH_MODULE = '@worldenv/worldc/dist/runtime/math';
 
 /*
     ====================================
@@ -71,6 +118,10 @@ import {
            handles type mapping, syntax translation, and
            optimization for the TypeScript runtime environment.
 
+           declarations and statements are emitted line by line;
+           expressions and types are rendered to strings so they
+           can be embedded in the line that contains them.
+
 */
 
 export class TypeScriptGenerator extends BaseCodeGenerator {
@@ -82,6 +133,11 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
   private imports: Set<string>;
   private exports: Set<string>;
   private interfaceDeclarations: Set<string>;
+  private structDeclarations: Set<string>;
+  private mathImports: Set<string> /* runtime math classes in use */;
+
+  private exportNext: boolean;
+  private currentClassName: string | null;
 
   constructor() {
     super();
@@ -89,6 +145,18 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
     this.imports = new Set();
     this.exports = new Set();
     this.interfaceDeclarations = new Set();
+    this.structDeclarations = new Set();
+    this.mathImports = new Set();
+    this.exportNext = false;
+    this.currentClassName = null;
+  }
+
+  protected reset(): void {
+    super.reset();
+    this.structDeclarations.clear();
+    this.mathImports.clear();
+    this.exportNext = false;
+    this.currentClassName = null;
   }
 
   /*
@@ -112,6 +180,12 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
     mapping.set('void', 'void');
     mapping.set('string', 'string');
 
+    /* C integer modifiers */
+    mapping.set('short', 'number');
+    mapping.set('long', 'number');
+    mapping.set('signed', 'number');
+    mapping.set('unsigned', 'number');
+
     /* size-specific integers */
     mapping.set('int8', 'number');
     mapping.set('int16', 'number');
@@ -141,7 +215,9 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
 
   protected emitFileHeader(): void {
     this.emitComment('Generated TypeScript code from WORLDSRC');
-    this.emitComment(`Generated on ${new Date().toISOString()}`);
+    if (!this.options.reproducible) {
+      this.emitComment(`Generated on ${new Date().toISOString()}`);
+    }
     this.emitLine();
 
     /* emit strict mode if enabled */
@@ -184,6 +260,18 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
 
   public visitProgram(node: Program): void {
     this.enterScope('global');
+    const headerEnd = this.generatedCode.length;
+
+    /* structs can be used before they are declared */
+    for (const declaration of node.declarations) {
+      const declared =
+        declaration instanceof ExportDeclaration
+          ? declaration.declaration
+          : declaration;
+      if (declared instanceof StructDeclaration) {
+        this.structDeclarations.add(declared.name);
+      }
+    }
 
     /* process all declarations */
     for (const declaration of node.declarations) {
@@ -191,10 +279,22 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
       this.emitLine();
     }
 
+    /* the runtime math classes in use are only known now */
+    if (this.mathImports.size > 0) {
+      const names = [...this.mathImports].sort().join(', ');
+      this.insertCode(
+        headerEnd,
+        `import { ${names} } from ${this.quoteString(RUNTIME_MATH_MODULE)};\n`,
+        '\n'
+      );
+    }
+
     this.exitScope();
   }
 
   public visitDeclaration(node: Declaration): void {
+    const outer = this.enterNode(node);
+
     if (node instanceof FunctionDeclaration) {
       this.visitFunctionDeclaration(node);
     } else if (node instanceof VariableDeclaration) {
@@ -203,6 +303,18 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
       this.visitClassDeclaration(node);
     } else if (node instanceof InterfaceDeclaration) {
       this.visitInterfaceDeclaration(node);
+    } else if (node instanceof StructDeclaration) {
+      this.visitStructDeclaration(node);
+    } else if (node instanceof EnumDeclaration) {
+      this.visitEnumDeclaration(node);
+    } else if (node instanceof NamespaceDeclaration) {
+      this.visitNamespaceDeclaration(node);
+    } else if (node instanceof TypeAliasDeclaration) {
+      this.visitTypeAliasDeclaration(node);
+    } else if (node instanceof ImportDeclaration) {
+      this.visitImportDeclaration(node);
+    } else if (node instanceof ExportDeclaration) {
+      this.visitExportDeclaration(node);
     } else {
       this.addWarning(
         `Unsupported declaration type: ${node.constructor.name}`,
@@ -210,9 +322,13 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
         node
       );
     }
+
+    this.exitNode(outer);
   }
 
   public visitStatement(node: Statement): void {
+    const outer = this.enterNode(node);
+
     if (node instanceof BlockStatement) {
       this.visitBlockStatement(node);
     } else if (node instanceof ExpressionStatement) {
@@ -221,10 +337,26 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
       this.visitIfStatement(node);
     } else if (node instanceof WhileStatement) {
       this.visitWhileStatement(node);
+    } else if (node instanceof DoWhileStatement) {
+      this.visitDoWhileStatement(node);
     } else if (node instanceof ForStatement) {
       this.visitForStatement(node);
+    } else if (node instanceof ForInStatement) {
+      this.visitForInStatement(node);
+    } else if (node instanceof ForOfStatement) {
+      this.visitForOfStatement(node);
+    } else if (node instanceof SwitchStatement) {
+      this.visitSwitchStatement(node);
+    } else if (node instanceof TryStatement) {
+      this.visitTryStatement(node);
     } else if (node instanceof ReturnStatement) {
       this.visitReturnStatement(node);
+    } else if (node instanceof BreakStatement) {
+      this.emitLine(node.label ? `break ${node.label};` : 'break;');
+    } else if (node instanceof ContinueStatement) {
+      this.emitLine(node.label ? `continue ${node.label};` : 'continue;');
+    } else if (node instanceof ThrowStatement) {
+      this.emitLine(`throw ${this.generateExpression(node.argument)};`);
     } else {
       this.addWarning(
         `Unsupported statement type: ${node.constructor.name}`,
@@ -232,53 +364,21 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
         node
       );
     }
+
+    this.exitNode(outer);
   }
 
   public visitExpression(node: Expression): void {
-    if (node instanceof BinaryExpression) {
-      this.visitBinaryExpression(node);
-    } else if (node instanceof UnaryExpression) {
-      this.visitUnaryExpression(node);
-    } else if (node instanceof CallExpression) {
-      this.visitCallExpression(node);
-    } else if (node instanceof MemberExpression) {
-      this.visitMemberExpression(node);
-    } else if (node instanceof AssignmentExpression) {
-      this.visitAssignmentExpression(node);
-    } else if (node instanceof Identifier) {
-      this.visitIdentifier(node);
-    } else if (node instanceof Literal) {
-      this.visitLiteral(node);
-    } else {
-      this.addWarning(
-        `Unsupported expression type: ${node.constructor.name}`,
-        'UNSUPPORTED_EXPRESSION',
-        node
-      );
-    }
+    this.emit(this.generateExpression(node));
   }
 
   public visitTypeNode(node: TypeNode): void {
-    if (node instanceof PrimitiveType) {
-      this.visitPrimitiveType(node);
-    } else if (node instanceof ArrayType) {
-      this.visitArrayType(node);
-    } else if (node instanceof PointerType) {
-      this.visitPointerType(node);
-    } else if (node instanceof FunctionType) {
-      this.visitFunctionType(node);
-    } else {
-      this.addWarning(
-        `Unsupported type node: ${node.constructor.name}`,
-        'UNSUPPORTED_TYPE',
-        node
-      );
-    }
+    this.emit(this.mapTypeToTypeScript(node));
   }
 
   /*
 
-           specific AST node visitors
+           declaration visitors
 
   */
 
@@ -289,117 +389,66 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
     );
     this.enterScope(functionName);
 
-    /* generate function signature */
-    const isAsync = node.isAsync || false;
-    const isExport = false; // Export handling would need to be added to AST
+    let signature = this.takeExportPrefix();
 
-    let signature = '';
-
-    if (isExport) {
-      signature += 'export ';
+    /* prototypes become ambient declarations */
+    if (!node.body) {
+      signature += 'declare ';
     }
 
-    if (isAsync) {
+    if (node.isAsync) {
       signature += 'async ';
     }
 
-    signature += `function ${functionName}(`;
-
-    /* emit parameters */
-    const params: string[] = [];
-    for (let i = 0; i < node.parameters.length; i++) {
-      const param = node.parameters[i];
-      if (!param) continue;
-      const paramName = CodegenUtils.sanitizeIdentifier(
-        param.name,
-        this.target
-      );
-      const paramType = this.mapTypeToTypeScript(param.type);
-      params.push(`${paramName}: ${paramType}`);
-    }
-
-    signature += params.join(', ');
-    signature += ')';
-
-    /* emit return type */
-    if (node.returnType) {
-      const returnType = this.mapTypeToTypeScript(node.returnType);
-      if (isAsync && returnType !== 'void') {
-        signature += `: Promise<${returnType}>`;
-      } else if (isAsync) {
-        signature += ': Promise<void>';
-      } else {
-        signature += `: ${returnType}`;
-      }
-    }
-
-    signature += ' {';
-    this.emitLine(signature);
+    signature += this.containsYield(node.body) ? 'function* ' : 'function ';
+    signature += functionName;
+    signature += this.generateTypeParameters(node.templateParameters);
+    signature += `(${this.generateParameters(node.parameters)})`;
+    signature += this.generateReturnType(node);
 
-    /* emit function body */
-    this.indent();
     if (node.body) {
-      node.body.accept(this);
+      this.emitLine(`${signature} ${this.generateBlock(node.body)}`);
+    } else {
+      this.emitLine(`${signature};`);
     }
-    this.dedent();
-
-    this.emitLine('}');
 
     this.metadata.functionsEmitted++;
     this.exitScope();
   }
 
   private visitVariableDeclaration(node: VariableDeclaration): void {
-    const varName = CodegenUtils.sanitizeIdentifier(node.name, this.target);
-    const isConst = node.isConst;
-    const isExport = false; // Export handling would need to be added to AST
-
-    let declaration = '';
-
-    if (isExport) {
-      declaration += 'export ';
-    }
-
-    declaration += isConst ? 'const ' : 'let ';
-    declaration += varName;
-
-    /* add type annotation if available */
-    if (node.type) {
-      const tsType = this.mapTypeToTypeScript(node.type);
-      declaration += `: ${tsType}`;
-    }
+    let declaration = this.takeExportPrefix();
 
-    /* add initializer if present */
-    if (node.initializer) {
-      declaration += ' = ';
-      node.initializer.accept(this);
+    if (node.isExtern) {
+      declaration += 'declare ';
     }
 
-    declaration += ';';
-    this.emitLine(declaration);
+    this.emitLine(`${declaration}${this.generateVariableDeclaration(node)};`);
   }
 
   private visitClassDeclaration(node: ClassDeclaration): void {
     const className = CodegenUtils.sanitizeIdentifier(node.name, this.target);
     this.enterScope(className);
 
-    const isExport = false; // Export handling would need to be added to AST
-    let classDecl = '';
+    let classDecl = this.takeExportPrefix();
 
-    if (isExport) {
-      classDecl += 'export ';
+    if (node.isAbstract) {
+      classDecl += 'abstract ';
     }
 
     classDecl += `class ${className}`;
+    classDecl += this.generateTypeParameters(node.templateParameters);
 
     /* handle inheritance */
     if (node.superClass) {
-      classDecl += ` extends ${node.superClass}`;
+      classDecl += ` extends ${this.mapTypeToTypeScript(node.superClass)}`;
     }
 
     /* handle interfaces */
     if (node.interfaces && node.interfaces.length > 0) {
-      const interfaceNames = node.interfaces.map((i) => i).join(', ');
+      const interfaceNames = node.interfaces
+        .map((i) => this.mapTypeToTypeScript(i))
+        .join(', ');
       classDecl += ` implements ${interfaceNames}`;
     }
 
@@ -407,21 +456,133 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
     this.emitLine(classDecl);
 
     /* emit class body */
+    const outerClassName = this.currentClassName;
+    this.currentClassName = node.name;
+
     this.indent();
-    if (node.members && node.members.length > 0) {
-      for (const member of node.members) {
-        member.accept(this);
+    let previous: ClassMember | null = null;
+    for (const member of node.members) {
+      /* methods are separated by a blank line, fields are kept together */
+      if (
+        previous &&
+        (previous.member instanceof FunctionDeclaration ||
+          member.member instanceof FunctionDeclaration)
+      ) {
         this.emitLine();
       }
+
+      const outer = this.enterNode(member);
+      this.visitClassMember(member);
+      this.exitNode(outer);
+      previous = member;
     }
     this.dedent();
 
+    this.currentClassName = outerClassName;
     this.emitLine('}');
 
     this.metadata.classesEmitted++;
     this.exitScope();
   }
 
+  /*
+
+           visitClassMember()
+             ---
+             emits a field or method inside a class body. a method
+             named after its class (C++ style) or 'constructor'
+             becomes the class constructor.
+
+  */
+
+  private visitClassMember(node: ClassMember): void {
+    let modifiers = '';
+
+    if (node.accessModifier !== AccessModifier.Public) {
+      modifiers += `${node.accessModifier} `;
+    }
+
+    if (node.isStatic || node.member.isStatic) {
+      modifiers += 'static ';
+    }
+
+    if (node.isAbstract) {
+      modifiers += 'abstract ';
+    }
+
+    if (node.member instanceof VariableDeclaration) {
+      const field = node.member;
+      const readonly = field.isConst ? 'readonly ' : '';
+      let code = `${modifiers}${readonly}${this.generatePropertySignature(
+        field.name,
+        field.type
+      )}`;
+
+      if (field.initializer) {
+        code += ` = ${this.generateExpression(field.initializer, Precedence.ASSIGNMENT)}`;
+      } else if (
+        field.type &&
+        !this.isAutoType(field.type) &&
+        !(field.type instanceof OptionalType) &&
+        !node.isAbstract
+      ) {
+        /* strict TypeScript wants every field initialized */
+        const zero = this.getZeroValue(field.type);
+        if (zero !== null) {
+          code += ` = ${zero}`;
+        } else if (!modifiers.includes('static')) {
+          code = code.replace(/^(.*?\w+)(: )/, '$1!$2');
+        }
+      }
+
+      this.emitLine(`${code};`);
+      return;
+    }
+
+    this.emitMethod(node.member, modifiers);
+  }
+
+  /*
+
+           emitMethod()
+             ---
+             emits a class or struct method. 'operator+' style
+             members become plain methods ('opAdd') that operator
+             expressions on the type are lowered to.
+
+  */
+
+  private emitMethod(method: FunctionDeclaration, modifiers: string): void {
+    const isConstructor =
+      method.name === 'constructor' || method.name === this.currentClassName;
+
+    let signature = modifiers;
+
+    if (isConstructor) {
+      signature += `constructor(${this.generateParameters(method.parameters)})`;
+    } else {
+      if (method.isAsync) {
+        signature += 'async ';
+      }
+      if (this.containsYield(method.body)) {
+        signature += '*';
+      }
+
+      signature += this.getMethodName(method);
+      signature += this.generateTypeParameters(method.templateParameters);
+      signature += `(${this.generateParameters(method.parameters)})`;
+      signature += this.generateReturnType(method);
+    }
+
+    if (method.body) {
+      this.emitLine(`${signature} ${this.generateBlock(method.body)}`);
+    } else {
+      this.emitLine(`${signature};`);
+    }
+
+    this.metadata.functionsEmitted++;
+  }
+
   private visitInterfaceDeclaration(node: InterfaceDeclaration): void {
     const interfaceName = CodegenUtils.sanitizeIdentifier(
       node.name,
@@ -429,26 +590,16 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
     );
     this.interfaceDeclarations.add(interfaceName);
 
-    const isExport = false; // Export handling would need to be added to AST
-    let interfaceDecl = '';
-
-    if (isExport) {
-      interfaceDecl += 'export ';
-    }
+    let interfaceDecl = this.takeExportPrefix();
 
     interfaceDecl += `interface ${interfaceName}`;
-
-    /* handle generic parameters */
-    if (node.templateParameters && node.templateParameters.length > 0) {
-      const typeParams = node.templateParameters
-        .map((tp: any) => tp.name)
-        .join(', ');
-      interfaceDecl += `<${typeParams}>`;
-    }
+    interfaceDecl += this.generateTypeParameters(node.templateParameters);
 
     /* handle inheritance */
     if (node.extends_ && node.extends_.length > 0) {
-      const baseTypes = node.extends_.map((e: any) => e).join(', ');
+      const baseTypes = node.extends_
+        .map((e) => this.mapTypeToTypeScript(e))
+        .join(', ');
       interfaceDecl += ` extends ${baseTypes}`;
     }
 
@@ -457,241 +608,1258 @@ export class TypeScriptGenerator extends BaseCodeGenerator {
 
     /* emit interface body */
     this.indent();
-    if (node.members && node.members.length > 0) {
-      for (const member of node.members) {
-        member.accept(this);
-      }
+    for (const member of node.members) {
+      this.visitInterfaceMember(member);
     }
     this.dedent();
 
     this.emitLine('}');
   }
 
-  private visitBlockStatement(node: BlockStatement): void {
-    for (const statement of node.statements) {
-      statement.accept(this);
+  private visitInterfaceMember(node: InterfaceMember): void {
+    const member = node.member;
+
+    if (member instanceof VariableDeclaration) {
+      const readonly = member.isConst ? 'readonly ' : '';
+      this.emitLine(
+        `${readonly}${this.generatePropertySignature(member.name, member.type)};`
+      );
+      return;
     }
-  }
 
-  private visitExpressionStatement(node: ExpressionStatement): void {
-    node.expression.accept(this);
-    this.emit(';');
-    this.emitLine();
+    const name = CodegenUtils.sanitizeIdentifier(member.name, this.target);
+    this.emitLine(
+      `${name}${this.generateTypeParameters(member.templateParameters)}(${this.generateParameters(member.parameters)})${this.generateReturnType(member)};`
+    );
   }
 
-  private visitIfStatement(node: IfStatement): void {
-    this.emit('if (');
-    node.condition.accept(this);
-    this.emit(') {');
-    this.emitLine();
+  /*
+
+           visitStructDeclaration()
+             ---
+             TypeScript has no value types, so structs become
+             classes whose fields start at the zero value of
+             their type. 'new Name()' yields a zeroed struct, and
+             'clone()' the copy a struct gets wherever WORLDC
+             copies it by value. 'clone' is therefore reserved
+             for struct methods.
+
+  */
+
+  private visitStructDeclaration(node: StructDeclaration): void {
+    const structName = CodegenUtils.sanitizeIdentifier(node.name, this.target);
+    this.structDeclarations.add(node.name);
+
+    const declaration = `${this.takeExportPrefix()}class ${structName}${this.generateTypeParameters(node.templateParameters)} {`;
+    this.emitLine(declaration);
 
     this.indent();
-    node.thenStatement.accept(this);
-    this.dedent();
+    for (const member of node.members) {
+      const access =
+        member.accessModifier !== AccessModifier.Public
+          ? `${member.accessModifier} `
+          : '';
+      const name = CodegenUtils.sanitizeIdentifier(member.name, this.target);
+      const type = this.mapTypeToTypeScript(member.type);
+      const zero = this.getZeroValue(member.type);
+
+      if (zero !== null) {
+        this.emitLine(`${access}${name}: ${type} = ${zero};`);
+      } else {
+        this.emitLine(`${access}${name}!: ${type};`);
+      }
+    }
 
-    if (node.elseStatement) {
-      this.emitLine('} else {');
-      this.indent();
-      node.elseStatement.accept(this);
-      this.dedent();
+    this.emitLine();
+    this.emitStructClone(node, structName);
+
+    const outerClassName = this.currentClassName;
+    this.currentClassName = node.name;
+    for (const method of node.methods) {
+      if (method.name === 'clone') {
+        this.addError(
+          `Struct '${node.name}' cannot declare 'clone', which copies structs`,
+          'RESERVED_STRUCT_MEMBER',
+          method
+        );
+      }
+
+      this.emitLine();
+      this.emitMethod(method, '');
     }
+    this.currentClassName = outerClassName;
+    this.dedent();
 
     this.emitLine('}');
+
+    this.metadata.classesEmitted++;
   }
 
-  private visitWhileStatement(node: WhileStatement): void {
-    this.emit('while (');
-    node.condition.accept(this);
-    this.emit(') {');
-    this.emitLine();
+  /* 'clone()' copies each field, nested structs and vectors included */
+  private emitStructClone(node: StructDeclaration, structName: string): void {
+    const typeArguments =
+      node.templateParameters.length > 0
+        ? `<${node.templateParameters.map((p) => p.name).join(', ')}>`
+        : '';
+    const type = `${structName}${typeArguments}`;
 
+    this.emitLine(`clone(): ${type} {`);
     this.indent();
-    node.body.accept(this);
+    this.emitLine(`const copy = new ${type}();`);
+    for (const member of node.members) {
+      const name = CodegenUtils.sanitizeIdentifier(member.name, this.target);
+      this.emitLine(
+        `copy.${name} = ${this.generateValueCopy(member.type, `this.${name}`)};`
+      );
+    }
+    this.emitLine('return copy;');
     this.dedent();
-
     this.emitLine('}');
   }
 
-  private visitForStatement(node: ForStatement): void {
-    this.emit('for (');
-
-    if (node.init) {
-      node.init.accept(this);
+  /* a copy of a value of the given type, for types held by reference */
+  private generateValueCopy(type: TypeNode, value: string): string {
+    if (this.isStructType(type)) {
+      return `${value}.clone()`;
     }
 
-    this.emit('; ');
+    if (type instanceof PrimitiveType && this.isVectorType(type.name)) {
+      return `${this.useMathClass(type.name)}.clone(${value})`;
+    }
 
-    if (node.condition) {
-      node.condition.accept(this);
+    if (type instanceof ArrayType) {
+      const element = this.generateValueCopy(type.elementType, 'e');
+      return element === 'e'
+        ? `${value}.slice()`
+        : `${value}.map((e) => ${element})`;
     }
 
-    this.emit('; ');
+    return value;
+  }
 
-    if (node.update) {
-      node.update.accept(this);
-    }
+  private visitEnumDeclaration(node: EnumDeclaration): void {
+    const enumName = CodegenUtils.sanitizeIdentifier(node.name, this.target);
 
-    this.emit(') {');
-    this.emitLine();
+    this.emitLine(`${this.takeExportPrefix()}enum ${enumName} {`);
 
     this.indent();
-    node.body.accept(this);
+    for (const member of node.members) {
+      const name = CodegenUtils.sanitizeIdentifier(member.name, this.target);
+      if (member.value) {
+        this.emitLine(`${name} = ${this.generateExpression(member.value)},`);
+      } else {
+        this.emitLine(`${name},`);
+      }
+    }
     this.dedent();
 
     this.emitLine('}');
   }
 
-  private visitReturnStatement(node: ReturnStatement): void {
-    this.emit('return');
+  private visitNamespaceDeclaration(node: NamespaceDeclaration): void {
+    const namespaceName = CodegenUtils.sanitizeIdentifier(
+      node.name,
+      this.target
+    );
+    this.enterScope(namespaceName);
 
-    if (node.argument) {
-      this.emit(' ');
-      node.argument.accept(this);
-    }
+    this.emitLine(`${this.takeExportPrefix()}namespace ${namespaceName} {`);
 
-    this.emit(';');
-    this.emitLine();
-  }
+    /* namespace members are only reachable from outside when exported */
+    this.indent();
+    node.declarations.forEach((declaration, index) => {
+      if (index > 0) {
+        this.emitLine();
+      }
+      this.exportNext = true;
+      declaration.accept(this);
+    });
+    this.dedent();
+
+    this.emitLine('}');
 
-  private visitBinaryExpression(node: BinaryExpression): void {
-    node.left.accept(this);
-    this.emit(` ${this.mapOperator(node.operator)} `);
-    node.right.accept(this);
+    this.metadata.modulesEmitted++;
+    this.exitScope();
   }
 
-  private visitUnaryExpression(node: UnaryExpression): void {
-    this.emit(this.mapOperator(node.operator));
-    node.argument.accept(this);
+  private visitTypeAliasDeclaration(node: TypeAliasDeclaration): void {
+    const aliasName = CodegenUtils.sanitizeIdentifier(node.name, this.target);
+
+    this.emitLine(
+      `${this.takeExportPrefix()}type ${aliasName}${this.generateTypeParameters(node.templateParameters)} = ${this.mapTypeToTypeScript(node.type)};`
+    );
   }
 
-  private visitCallExpression(node: CallExpression): void {
-    node.callee.accept(this);
-    this.emit('(');
+  private visitImportDeclaration(node: ImportDeclaration): void {
+    const source = this.quoteString(this.getModuleSource(node.source));
 
-    for (let i = 0; i < node.args.length; i++) {
-      if (i > 0) this.emit(', ');
-      const arg = node.args[i];
-      if (!arg) continue;
-      arg.accept(this);
+    if (node.specifiers.length === 0) {
+      this.emitLine(`import ${source};`);
+      return;
     }
 
-    this.emit(')');
-  }
+    const clauses: string[] = [];
+    const named: string[] = [];
 
-  private visitMemberExpression(node: MemberExpression): void {
-    node.object.accept(this);
+    for (const specifier of node.specifiers) {
+      if (specifier.imported === 'default') {
+        clauses.push(specifier.local);
+      } else if (specifier.imported === specifier.local) {
+        named.push(specifier.imported);
+      } else {
+        named.push(`${specifier.imported} as ${specifier.local}`);
+      }
+    }
 
-    if (node.computed) {
-      this.emit('[');
-      node.property.accept(this);
-      this.emit(']');
-    } else {
-      this.emit('.');
-      node.property.accept(this);
+    if (named.length > 0) {
+      clauses.push(`{ ${named.join(', ')} }`);
     }
-  }
 
-  private visitAssignmentExpression(node: AssignmentExpression): void {
-    node.left.accept(this);
-    this.emit(` ${node.operator} `);
-    node.right.accept(this);
+    this.emitLine(`import ${clauses.join(', ')} from ${source};`);
   }
 
-  private visitIdentifier(node: Identifier): void {
-    const sanitized = CodegenUtils.sanitizeIdentifier(node.name, this.target);
-    this.emit(sanitized);
-  }
+  private visitExportDeclaration(node: ExportDeclaration): void {
+    if (node.declaration) {
+      this.exportNext = true;
+      node.declaration.accept(this);
+      return;
+    }
 
-  private visitLiteral(node: Literal): void {
-    if (typeof node.value === 'string') {
-      const escaped = CodegenUtils.escapeString(node.value, this.target);
-      this.emit(`"${escaped}"`);
-    } else if (typeof node.value === 'number') {
-      const formatted = CodegenUtils.formatNumber(node.value, this.target);
-      this.emit(formatted);
-    } else if (typeof node.value === 'boolean') {
-      this.emit(node.value.toString());
-    } else if (node.value === null) {
-      this.emit('null');
-    } else {
-      this.emit(String(node.value));
+    const specifiers = node.specifiers.map((specifier) =>
+      specifier.local === specifier.exported
+        ? specifier.local
+        : `${specifier.local} as ${specifier.exported}`
+    );
+
+    let code =
+      specifiers.length > 0
+        ? `export { ${specifiers.join(', ')} }`
+        : 'export {}';
+
+    if (node.source !== null) {
+      code += ` from ${this.quoteString(this.getModuleSource(node.source))}`;
     }
+
+    this.emitLine(`${code};`);
   }
 
   /*
 
-           type system visitors
+           statement visitors
 
   */
 
-  private visitPrimitiveType(node: PrimitiveType): void {
-    this.emit(this.mapTypeToTypeScript(node));
+  private visitBlockStatement(node: BlockStatement): void {
+    /* a block nested directly in a statement list keeps its braces */
+    this.emitLine(this.generateBlock(node));
+  }
+
+  private visitExpressionStatement(node: ExpressionStatement): void {
+    let code = this.generateExpression(node.expression);
+
+    /* a leading brace or 'function' would be read as a statement */
+    if (code.startsWith('{') || code.startsWith('function')) {
+      code = `(${code})`;
+    }
+
+    this.emitLine(`${code};`);
   }
 
-  private visitArrayType(node: ArrayType): void {
-    const elementType = this.mapTypeToTypeScript(node.elementType);
-    this.emit(`${elementType}[]`);
+  private visitIfStatement(node: IfStatement): void {
+    this.emitLine(`if (${this.generateExpression(node.condition)}) {`);
+    this.emitBody(node.thenStatement);
+
+    /* flatten else-if chains instead of nesting them */
+    let alternate = node.elseStatement;
+    while (alternate instanceof IfStatement) {
+      this.emitLine(
+        `} else if (${this.generateExpression(alternate.condition)}) {`
+      );
+      this.emitBody(alternate.thenStatement);
+      alternate = alternate.elseStatement;
+    }
+
+    if (alternate) {
+      this.emitLine('} else {');
+      this.emitBody(alternate);
+    }
+
+    this.emitLine('}');
   }
 
-  private visitPointerType(node: PointerType): void {
-    const pointeeType = this.mapTypeToTypeScript(node.pointeeType);
-    this.emit(`${pointeeType} | null`);
+  private visitWhileStatement(node: WhileStatement): void {
+    this.emitLine(`while (${this.generateExpression(node.condition)}) {`);
+    this.emitBody(node.body);
+    this.emitLine('}');
   }
 
-  private visitFunctionType(node: FunctionType): void {
-    this.emit('(');
+  private visitDoWhileStatement(node: DoWhileStatement): void {
+    this.emitLine('do {');
+    this.emitBody(node.body);
+    this.emitLine(`} while (${this.generateExpression(node.condition)});`);
+  }
 
-    for (let i = 0; i < node.parameters.length; i++) {
-      if (i > 0) this.emit(', ');
-      const param = node.parameters[i];
-      const paramType = this.mapTypeToTypeScript(param || 'any');
-      this.emit(`param${i}: ${paramType}`);
+  private visitForStatement(node: ForStatement): void {
+    let init = '';
+
+    if (node.init instanceof VariableDeclaration) {
+      init = this.generateVariableDeclaration(node.init);
+    } else if (node.init instanceof ExpressionStatement) {
+      init = this.generateExpression(node.init.expression);
+    } else if (node.init instanceof Expression) {
+      init = this.generateExpression(node.init);
     }
 
-    this.emit(') => ');
+    const condition = node.condition
+      ? ` ${this.generateExpression(node.condition)}`
+      : '';
+    const update = node.update
+      ? ` ${this.generateExpression(node.update)}`
+      : '';
 
-    const returnType = this.mapTypeToTypeScript(node.returnType);
-    this.emit(returnType);
+    this.emitLine(`for (${init};${condition};${update}) {`);
+    this.emitBody(node.body);
+    this.emitLine('}');
   }
 
-  /*
+  private visitForInStatement(node: ForInStatement): void {
+    const variable = CodegenUtils.sanitizeIdentifier(
+      node.variable,
+      this.target
+    );
 
-           utility methods
+    this.emitLine(
+      `for (const ${variable} in ${this.generateExpression(node.iterable)}) {`
+    );
+    this.emitBody(node.body);
+    this.emitLine('}');
+  }
 
-  */
+  private visitForOfStatement(node: ForOfStatement): void {
+    const variable = CodegenUtils.sanitizeIdentifier(
+      node.variable,
+      this.target
+    );
+    const loop = node.isAsync ? 'for await' : 'for';
 
-  private mapTypeToTypeScript(type: TypeNode | string): string {
-    if (typeof type === 'string') {
-      return this.typeMapping.get(type) || type;
-    }
+    this.emitLine(
+      `${loop} (const ${variable} of ${this.generateExpression(node.iterable)}) {`
+    );
+    this.emitBody(node.body);
+    this.emitLine('}');
+  }
 
-    if (type instanceof PrimitiveType) {
-      return this.typeMapping.get(type.name) || type.name;
-    }
+  private visitSwitchStatement(node: SwitchStatement): void {
+    this.emitLine(`switch (${this.generateExpression(node.discriminant)}) {`);
 
-    if (type instanceof ArrayType) {
-      const elementType = this.mapTypeToTypeScript(type.elementType);
-      return `${elementType}[]`;
-    }
+    this.indent();
+    for (const switchCase of node.cases) {
+      if (switchCase.test) {
+        this.emitLine(`case ${this.generateExpression(switchCase.test)}:`);
+      } else {
+        this.emitLine('default:');
+      }
 
-    if (type instanceof PointerType) {
-      const pointeeType = this.mapTypeToTypeScript(type.pointeeType);
-      return `${pointeeType} | null`;
+      this.indent();
+      for (const statement of switchCase.statements) {
+        statement.accept(this);
+      }
+      this.dedent();
     }
+    this.dedent();
 
-    if (type instanceof FunctionType) {
-      const params = type.parameters
-        .map((p, i) => {
-          const paramType = this.mapTypeToTypeScript(p);
-          return `param${i}: ${paramType}`;
-        })
-        .join(', ');
+    this.emitLine('}');
+  }
 
-      const returnType = this.mapTypeToTypeScript(type.returnType);
-      return `(${params}) => ${returnType}`;
+  private visitTryStatement(node: TryStatement): void {
+    this.emitLine('try {');
+    this.emitBody(node.body);
+
+    if (node.handler) {
+      if (node.handler.param) {
+        const param = CodegenUtils.sanitizeIdentifier(
+          node.handler.param,
+          this.target
+        );
+        this.emitLine(`} catch (${param}) {`);
+      } else {
+        this.emitLine('} catch {');
+      }
+      this.emitBody(node.handler.body);
     }
 
-    return 'any';
+    if (node.finalizer) {
+      this.emitLine('} finally {');
+      this.emitBody(node.finalizer);
+    }
+
+    this.emitLine('}');
+  }
+
+  private visitReturnStatement(node: ReturnStatement): void {
+    if (node.argument) {
+      this.emitLine(`return ${this.generateExpression(node.argument)};`);
+    } else {
+      this.emitLine('return;');
+    }
+  }
+
+  /*
+
+           expression generation
+
+  */
+
+  /*
+
+           generateExpression()
+             ---
+             renders an expression, wrapping it in parentheses
+             when it binds looser than the surrounding context.
+
+  */
+
+  private generateExpression(
+    node: Expression,
+    minPrecedence: number = 0
+  ): string {
+    const code = this.generateExpressionCode(node);
+    return this.getPrecedence(node) < minPrecedence ? `(${code})` : code;
+  }
+
+  private generateExpressionCode(node: Expression): string {
+    const operatorUse = this.analysis?.operatorUses.get(node);
+    if (operatorUse) {
+      return this.generateOperatorUse(node, operatorUse);
+    }
+
+    /* structs are values: 'P b = a;' copies 'a' */
+    if (this.analysis?.structCopies.has(node)) {
+      return `${this.generateCopySource(node)}.clone()`;
+    }
+
+    if (node instanceof Identifier) {
+      return this.generateIdentifier(node);
+    }
+
+    if (node instanceof Literal) {
+      return this.generateLiteral(node);
+    }
+
+    if (node instanceof BinaryExpression || node instanceof LogicalExpression) {
+      return this.generateBinary(node);
+    }
+
+    if (node instanceof UnaryExpression) {
+      return this.generateUnary(node);
+    }
+
+    if (node instanceof UpdateExpression) {
+      const argument = this.generateExpression(
+        node.argument,
+        Precedence.POSTFIX
+      );
+      return node.prefix
+        ? `${node.operator}${argument}`
+        : `${argument}${node.operator}`;
+    }
+
+    if (node instanceof AssignmentExpression) {
+      const left = this.generateExpression(node.left, Precedence.MEMBER);
+      const right = this.generateExpression(node.right, Precedence.ASSIGNMENT);
+      return `${left} ${node.operator} ${right}`;
+    }
+
+    if (node instanceof ConditionalExpression) {
+      const test = this.generateExpression(
+        node.test,
+        Precedence.CONDITIONAL + 1
+      );
+      const consequent = this.generateExpression(
+        node.consequent,
+        Precedence.ASSIGNMENT
+      );
+      const alternate = this.generateExpression(
+        node.alternate,
+        Precedence.ASSIGNMENT
+      );
+      return `${test} ? ${consequent} : ${alternate}`;
+    }
+
+    if (node instanceof CallExpression) {
+      if (
+        node.callee instanceof Identifier &&
+        this.isVectorType(node.callee.name)
+      ) {
+        return this.generateVectorConstruction(node.callee.name, node.args);
+      }
+
+      const callee = this.generateExpression(node.callee, Precedence.MEMBER);
+      return `${callee}${this.generateTypeArguments(node.templateArguments)}(${this.generateArguments(node.args)})`;
+    }
+
+    if (node instanceof MemberExpression) {
+      return this.generateMember(node);
+    }
+
+    if (node instanceof NewExpression) {
+      /* 'new f()()' would call the result instead of constructing it */
+      const callee =
+        node.callee instanceof CallExpression
+          ? `(${this.generateExpression(node.callee)})`
+          : this.generateExpression(node.callee, Precedence.MEMBER);
+      return `new ${callee}${this.generateTypeArguments(node.templateArguments)}(${this.generateArguments(node.args)})`;
+    }
+
+    if (node instanceof ArrayExpression) {
+      const elements = node.elements.map((element) =>
+        element ? this.generateExpression(element, Precedence.ASSIGNMENT) : ''
+      );
+      return `[${elements.join(', ')}]`;
+    }
+
+    if (node instanceof ObjectExpression) {
+      if (node.properties.length === 0) {
+        return '{}';
+      }
+      const properties = node.properties.map((p) => this.generateProperty(p));
+      return `{ ${properties.join(', ')} }`;
+    }
+
+    if (node instanceof ArrowFunctionExpression) {
+      return this.generateArrowFunction(
+        node.parameters,
+        node.body,
+        node.isAsync,
+        node.returnType
+      );
+    }
+
+    if (node instanceof LambdaExpression) {
+      /* closures already capture their environment by reference */
+      return this.generateArrowFunction(
+        node.parameters,
+        node.body,
+        false,
+        node.returnType
+      );
+    }
+
+    if (node instanceof FunctionExpression) {
+      let code = node.isAsync ? 'async ' : '';
+      code += this.containsYield(node.body) ? 'function*' : 'function';
+      if (node.name) {
+        code += ` ${CodegenUtils.sanitizeIdentifier(node.name, this.target)}`;
+      }
+      code += `(${this.generateParameters(node.parameters)})`;
+      if (node.returnType && !this.containsYield(node.body)) {
+        code += `: ${this.wrapAsyncReturnType(node.returnType, node.isAsync)}`;
+      }
+      return `${code} ${this.generateBlock(node.body)}`;
+    }
+
+    if (node instanceof ThisExpression) {
+      return 'this';
+    }
+
+    if (node instanceof SuperExpression) {
+      return 'super';
+    }
+
+    if (node instanceof TemplateLiteral) {
+      let code = '`';
+      node.quasis.forEach((quasi, index) => {
+        code += quasi.value.raw;
+        const expression = node.expressions[index];
+        if (expression) {
+          code += `\${${this.generateExpression(expression)}}`;
+        }
+      });
+      return `${code}\``;
+    }
+
+    if (node instanceof AwaitExpression) {
+      return `await ${this.generateExpression(node.argument, Precedence.UNARY)}`;
+    }
+
+    if (node instanceof YieldExpression) {
+      const keyword = node.delegate ? 'yield*' : 'yield';
+      return node.argument
+        ? `${keyword} ${this.generateExpression(node.argument, Precedence.ASSIGNMENT)}`
+        : keyword;
+    }
+
+    this.addWarning(
+      `Unsupported expression type: ${node.constructor.name}`,
+      'UNSUPPORTED_EXPRESSION',
+      node
+    );
+    return 'undefined';
+  }
+
+  private getPrecedence(node: Expression): number {
+    /* lowered operators are calls, except 'a != b' and 'v += w' */
+    const operatorUse = this.analysis?.operatorUses.get(node);
+    if (operatorUse) {
+      if (node instanceof AssignmentExpression) {
+        return Precedence.ASSIGNMENT;
+      }
+      return operatorUse.operation && operatorUse.operator === '!='
+        ? Precedence.UNARY
+        : Precedence.MEMBER;
+    }
+
+    if (this.analysis?.structCopies.has(node)) {
+      return Precedence.MEMBER;
+    }
+
+    if (node instanceof BinaryExpression || node instanceof LogicalExpression) {
+      return BINARY_PRECEDENCE[node.operator] ?? BINARY_PRECEDENCE['+'];
+    }
+
+    if (
+      node instanceof AssignmentExpression ||
+      node instanceof ArrowFunctionExpression ||
+      node instanceof LambdaExpression ||
+      node instanceof YieldExpression
+    ) {
+      return Precedence.ASSIGNMENT;
+    }
+
+    if (node instanceof ConditionalExpression) {
+      return Precedence.CONDITIONAL;
+    }
+
+    if (node instanceof UnaryExpression || node instanceof AwaitExpression) {
+      return Precedence.UNARY;
+    }
+
+    if (node instanceof UpdateExpression) {
+      return node.prefix ? Precedence.UNARY : Precedence.POSTFIX;
+    }
+
+    if (
+      node instanceof CallExpression ||
+      node instanceof MemberExpression ||
+      node instanceof NewExpression
+    ) {
+      return Precedence.MEMBER;
+    }
+
+    return Precedence.PRIMARY;
+  }
+
+  private generateBinary(node: BinaryExpression | LogicalExpression): string {
+    const operator = this.mapOperator(node.operator);
+    const precedence = this.getPrecedence(node);
+
+    /* '**' is right associative and rejects a bare unary left operand */
+    const rightAssociative = node.operator === '**';
+    let left = this.generateExpression(
+      node.left,
+      rightAssociative ? Precedence.POSTFIX : precedence
+    );
+    let right = this.generateExpression(
+      node.right,
+      rightAssociative ? precedence : precedence + 1
+    );
+
+    /* '??' cannot be mixed with '&&' or '||' without parentheses */
+    if (this.mixesNullish(node.operator, node.left) && !left.startsWith('(')) {
+      left = `(${left})`;
+    }
+    if (
+      this.mixesNullish(node.operator, node.right) &&
+      !right.startsWith('(')
+    ) {
+      right = `(${right})`;
+    }
+
+    return `${left} ${operator} ${right}`;
+  }
+
+  private mixesNullish(operator: string, operand: Expression): boolean {
+    if (!(operand instanceof LogicalExpression)) {
+      return false;
+    }
+
+    return (operator === '??') !== (operand.operator === '??');
+  }
+
+  private generateUnary(node: UnaryExpression): string {
+    if (node.operator === 'sizeof') {
+      this.addWarning(
+        'sizeof has no TypeScript equivalent',
+        'UNSUPPORTED_OPERATOR',
+        node
+      );
+      return '0';
+    }
+
+    /* pointers map to nullable references, so '&x' is just 'x' */
+    if (node.operator === '&') {
+      return this.generateExpression(node.argument, Precedence.UNARY);
+    }
+    if (node.operator === '*') {
+      return `${this.generateExpression(node.argument, Precedence.MEMBER)}!`;
+    }
+
+    let argument = this.generateExpression(node.argument, Precedence.UNARY);
+
+    if (!node.prefix) {
+      return `${argument}${node.operator}`;
+    }
+
+    /* keyword operators need a space, '- -x' must not become '--x' */
+    if (/^[a-z]/.test(node.operator)) {
+      return `${node.operator} ${argument}`;
+    }
+    if (
+      (node.operator === '-' || node.operator === '+') &&
+      argument.startsWith(node.operator)
+    ) {
+      argument = `(${argument})`;
+    }
+
+    return `${node.operator}${argument}`;
+  }
+
+  private generateMember(node: MemberExpression): string {
+    const object = this.generateExpression(node.object, Precedence.MEMBER);
+
+    /* 'v.xy' builds a new vector, 'c.r' reads the 'x' field */
+    const swizzle = this.analysis?.swizzles.get(node);
+    if (swizzle && node.property instanceof Identifier) {
+      const indices = getSwizzleIndices(node.property.name)!;
+      if (indices.length === 1) {
+        return `${object}${node.optional ? '?.' : '.'}${'xyzw'[indices[0]]}`;
+      }
+      return `${this.useMathClass(swizzle.name)}.swizzle(${object}, ${indices.join(', ')})`;
+    }
+
+    if (node.computed) {
+      const property = this.generateExpression(node.property);
+      return node.optional
+        ? `${object}?.[${property}]`
+        : `${object}[${property}]`;
+    }
+
+    const property = this.generateExpression(node.property, Precedence.PRIMARY);
+    return `${object}${node.optional ? '?.' : '.'}${property}`;
+  }
+
+  /*
+
+           generateOperatorUse()
+             ---
+             lowers an operator the analyzer resolved to vector
+             math or a user-defined operator member. vectors are
+             objects at runtime, so 'v * 2.0' becomes a runtime
+             call and copying a vector variable clones it.
+
+  */
+
+  private generateOperatorUse(node: Expression, use: OperatorUse): string {
+    let operands: Expression[];
+    if (node instanceof BinaryExpression) {
+      operands = [node.left, node.right];
+    } else if (node instanceof AssignmentExpression) {
+      operands = [node.left, node.right];
+    } else if (node instanceof UnaryExpression) {
+      operands = [node.argument];
+    } else {
+      /* a vector value copied out of a variable or field */
+      operands = [node];
+    }
+
+    let code: string;
+    if (use.operation) {
+      const { name, owner, reversed } = use.operation;
+      const args = (reversed ? [...operands].reverse() : operands)
+        .map((operand) =>
+          operand === node
+            ? this.generateCopySource(operand)
+            : this.generateExpression(operand, Precedence.ASSIGNMENT)
+        )
+        .join(', ');
+
+      code = `${this.useMathClass(owner.name)}.${name}(${args})`;
+      if (use.operator === '!=') {
+        code = `!${code}`;
+      }
+    } else {
+      const [receiver, ...args] = operands;
+      const method = CodegenUtils.getOperatorMethodName(
+        use.operator,
+        args.length
+      );
+
+      code = `${this.generateExpression(receiver, Precedence.MEMBER)}.${method}(${this.generateArguments(args)})`;
+    }
+
+    /* compound assignment stores the result ('v = Vec3.add(v, w)') */
+    if (node instanceof AssignmentExpression) {
+      return `${this.generateExpression(node.left, Precedence.MEMBER)} = ${code}`;
+    }
+
+    return code;
+  }
+
+  /* the copied expression itself, without going through its own copy */
+  private generateCopySource(node: Expression): string {
+    return node instanceof MemberExpression
+      ? this.generateMember(node)
+      : this.generateIdentifier(node as Identifier);
+  }
+
+  /*
+
+           generateVectorConstruction()
+             ---
+             'vec3()' is the zero vector (identity for quat and
+             matrices), 'vec3(s)' fills every component (the
+             diagonal of a matrix) and 'vec3(x, y, z)' sets each.
+
+  */
+
+  private generateVectorConstruction(
+    typeName: string,
+    args: Expression[]
+  ): string {
+    const className = this.useMathClass(typeName);
+    const values = this.generateArguments(args);
+
+    if (args.length === 1) {
+      return typeName.startsWith('mat')
+        ? `${className}.diagonal(${values})`
+        : `${className}.splat(${values})`;
+    }
+
+    return typeName.startsWith('mat') && args.length > 0
+      ? `new ${className}([${values}])`
+      : `new ${className}(${values})`;
+  }
+
+  private generateProperty(node: ObjectProperty): string {
+    let key: string;
+
+    if (typeof node.key === 'string') {
+      key = /^[A-Za-z_$][\w$]*$/.test(node.key)
+        ? node.key
+        : this.quoteString(node.key);
+    } else if (node.computed) {
+      key = `[${this.generateExpression(node.key, Precedence.ASSIGNMENT)}]`;
+    } else {
+      key = this.generateExpression(node.key);
+    }
+
+    if (node.shorthand) {
+      return key;
+    }
+
+    return `${key}: ${this.generateExpression(node.value, Precedence.ASSIGNMENT)}`;
+  }
+
+  private generateArrowFunction(
+    parameters: Parameter[],
+    body: Expression | BlockStatement,
+    isAsync: boolean,
+    returnType: TypeNode | null
+  ): string {
+    let code = isAsync ? 'async ' : '';
+    code += `(${this.generateParameters(parameters)})`;
+
+    if (returnType) {
+      code += `: ${this.wrapAsyncReturnType(returnType, isAsync)}`;
+    }
+
+    if (body instanceof BlockStatement) {
+      return `${code} => ${this.generateBlock(body)}`;
+    }
+
+    let expression = this.generateExpression(body, Precedence.ASSIGNMENT);
+
+    /* an object literal body would be parsed as a block */
+    if (expression.startsWith('{')) {
+      expression = `(${expression})`;
+    }
+
+    return `${code} => ${expression}`;
+  }
+
+  /*
+
+           generateIdentifier()
+             ---
+             members named without 'this' inside a method
+             are reached through 'this', or through their
+             class when static.
+
+  */
+
+  private generateIdentifier(node: Identifier): string {
+    const name = CodegenUtils.sanitizeIdentifier(node.name, this.target);
+    const member = this.analysis?.memberReferences.get(node);
+
+    if (!member) {
+      return name;
+    }
+
+    return member.isStatic
+      ? `${CodegenUtils.sanitizeIdentifier(member.owner, this.target)}.${name}`
+      : `this.${name}`;
+  }
+
+  private generateLiteral(node: Literal): string {
+    if (typeof node.value === 'string') {
+      /* the raw text keeps the source escapes, which are valid TypeScript */
+      if (/^(["']).*\1$/s.test(node.raw)) {
+        return node.raw;
+      }
+      return this.quoteString(node.value);
+    }
+
+    if (typeof node.value === 'number') {
+      return CodegenUtils.formatNumber(node.value, this.target);
+    }
+
+    if (typeof node.value === 'boolean') {
+      return node.value.toString();
+    }
+
+    if (node.value === null) {
+      return 'null';
+    }
+
+    return String(node.value);
+  }
+
+  private generateArguments(args: Expression[]): string {
+    return args
+      .map((arg) => this.generateExpression(arg, Precedence.ASSIGNMENT))
+      .join(', ');
+  }
+
+  private quoteString(value: string): string {
+    return `"${CodegenUtils.escapeString(value, this.target)}"`;
+  }
+
+  /*
+
+           signature helpers
+
+  */
+
+  private generateVariableDeclaration(node: VariableDeclaration): string {
+    const varName = CodegenUtils.sanitizeIdentifier(node.name, this.target);
+    let declaration = `${node.isConst ? 'const' : 'let'} ${varName}`;
+
+    /* 'auto' leaves the type to TypeScript inference */
+    if (node.type && !this.isAutoType(node.type)) {
+      declaration += `: ${this.mapTypeToTypeScript(node.type)}`;
+    }
+
+    if (node.initializer) {
+      declaration += ` = ${this.generateExpression(node.initializer, Precedence.ASSIGNMENT)}`;
+    } else if (node.type && this.isStructType(node.type)) {
+      /* structs start zeroed, as in C */
+      declaration += ` = new ${CodegenUtils.sanitizeIdentifier(node.type.name, this.target)}()`;
+    }
+
+    return declaration;
+  }
+
+  private generateParameters(parameters: Parameter[]): string {
+    return parameters
+      .map((param) => {
+        const name = CodegenUtils.sanitizeIdentifier(param.name, this.target);
+        const type = this.mapTypeToTypeScript(param.type);
+
+        if (param.isRest) {
+          return `...${name}: ${type}`;
+        }
+
+        if (param.defaultValue) {
+          const value = this.generateExpression(
+            param.defaultValue,
+            Precedence.ASSIGNMENT
+          );
+          return `${name}: ${type} = ${value}`;
+        }
+
+        return param.isOptional ? `${name}?: ${type}` : `${name}: ${type}`;
+      })
+      .join(', ');
+  }
+
+  private generateTypeParameters(parameters: TypeParameter[]): string {
+    if (!parameters || parameters.length === 0) {
+      return '';
+    }
+
+    const typeParams = parameters.map((tp) => {
+      let code = tp.name;
+      if (tp.constraint) {
+        code += ` extends ${this.mapTypeToTypeScript(tp.constraint)}`;
+      }
+      if (tp.defaultType) {
+        code += ` = ${this.mapTypeToTypeScript(tp.defaultType)}`;
+      }
+      return code;
+    });
+
+    return `<${typeParams.join(', ')}>`;
+  }
+
+  private generateTypeArguments(args: TypeNode[]): string {
+    if (!args || args.length === 0) {
+      return '';
+    }
+
+    return `<${args.map((arg) => this.mapTypeToTypeScript(arg)).join(', ')}>`;
+  }
+
+  private generateReturnType(node: FunctionDeclaration): string {
+    /* generator return types are left to inference */
+    if (!node.returnType || this.containsYield(node.body)) {
+      return '';
+    }
+
+    return `: ${this.wrapAsyncReturnType(node.returnType, node.isAsync)}`;
+  }
+
+  private wrapAsyncReturnType(type: TypeNode, isAsync: boolean): string {
+    const returnType = this.mapTypeToTypeScript(type);
+    return isAsync ? `Promise<${returnType}>` : returnType;
+  }
+
+  private generatePropertySignature(
+    name: string,
+    type: TypeNode | null
+  ): string {
+    const propertyName = CodegenUtils.sanitizeIdentifier(name, this.target);
+
+    if (!type || this.isAutoType(type)) {
+      return propertyName;
+    }
+
+    /* 'T?' members become optional properties */
+    if (type instanceof OptionalType) {
+      return `${propertyName}?: ${this.mapTypeToTypeScript(type.type)}`;
+    }
+
+    return `${propertyName}: ${this.mapTypeToTypeScript(type)}`;
+  }
+
+  private takeExportPrefix(): string {
+    const prefix = this.exportNext ? 'export ' : '';
+    this.exportNext = false;
+    return prefix;
+  }
+
+  /*
+
+           containsYield()
+             ---
+             reports whether a function body yields, which makes
+             it a generator. nested functions are not searched.
+
+  */
+
+  private containsYield(node: unknown): boolean {
+    if (!node || typeof node !== 'object') {
+      return false;
+    }
+
+    if (Array.isArray(node)) {
+      return node.some((child) => this.containsYield(child));
+    }
+
+    if (node instanceof YieldExpression) {
+      return true;
+    }
+
+    if (
+      node instanceof FunctionDeclaration ||
+      node instanceof FunctionExpression ||
+      node instanceof ArrowFunctionExpression ||
+      node instanceof LambdaExpression
+    ) {
+      return false;
+    }
+
+    if (!(node instanceof ASTNode)) {
+      return false;
+    }
+
+    return Object.entries(node).some(
+      ([key, value]) => key !== 'location' && this.containsYield(value)
+    );
+  }
+
+  /*
+
+           utility methods
+
+  */
+
+  private mapTypeToTypeScript(type: TypeNode | string): string {
+    if (typeof type === 'string') {
+      return this.typeMapping.get(type) || type;
+    }
+
+    if (type instanceof PrimitiveType) {
+      if (this.isVectorType(type.name)) {
+        return this.useMathClass(type.name);
+      }
+      return this.typeMapping.get(type.name) || type.name;
+    }
+
+    if (type instanceof ArrayType) {
+      return `${this.wrapCompositeType(this.mapTypeToTypeScript(type.elementType))}[]`;
+    }
+
+    if (type instanceof PointerType) {
+      const pointeeType = this.mapTypeToTypeScript(type.pointeeType);
+      return `${pointeeType} | null`;
+    }
+
+    if (type instanceof ReferenceType) {
+      /* references are plain aliases of the referenced value */
+      return this.mapTypeToTypeScript(type.referencedType);
+    }
+
+    if (type instanceof FunctionType) {
+      const params = type.parameters
+        .map((p, i) => {
+          const paramType = this.mapTypeToTypeScript(p);
+          return `param${i}: ${paramType}`;
+        })
+        .join(', ');
+
+      const returnType = this.mapTypeToTypeScript(type.returnType);
+      return `(${params}) => ${returnType}`;
+    }
+
+    if (type instanceof GenericType) {
+      return `${type.name}${this.generateTypeArguments(type.typeArguments)}`;
+    }
+
+    if (type instanceof UnionType) {
+      return type.types
+        .map((t) => {
+          const member = this.mapTypeToTypeScript(t);
+          return t instanceof FunctionType ? `(${member})` : member;
+        })
+        .join(' | ');
+    }
+
+    if (type instanceof IntersectionType) {
+      return type.types
+        .map((t) => this.wrapCompositeType(this.mapTypeToTypeScript(t)))
+        .join(' & ');
+    }
+
+    if (type instanceof TupleType) {
+      return `[${type.elementTypes.map((t) => this.mapTypeToTypeScript(t)).join(', ')}]`;
+    }
+
+    if (type instanceof OptionalType) {
+      return `${this.mapTypeToTypeScript(type.type)} | undefined`;
+    }
+
+    this.addWarning(
+      `Unsupported type node: ${type.constructor.name}`,
+      'UNSUPPORTED_TYPE',
+      type
+    );
+    return 'any';
+  }
+
+  /* unions and function types must be parenthesized inside other types */
+  private wrapCompositeType(type: string): string {
+    return /[|&]|=>/.test(type) ? `(${type})` : type;
+  }
+
+  private isStructType(type: TypeNode): type is PrimitiveType | GenericType {
+    return (
+      (type instanceof PrimitiveType || type instanceof GenericType) &&
+      (this.structDeclarations.has(type.name) ||
+        this.analysis?.imports.get(type.name)?.symbol.kind ===
+          SymbolKind.STRUCT)
+    );
+  }
+
+  private isAutoType(type: TypeNode): boolean {
+    return type instanceof PrimitiveType && type.name === 'auto';
+  }
+
+  /*
+
+           getZeroValue()
+             ---
+             initial value of a struct field, or null when the
+             type has no natural zero and the field must be
+             assigned before use.
+
+  */
+
+  private getZeroValue(type: TypeNode): string | null {
+    if (type instanceof PointerType || type instanceof OptionalType) {
+      return 'null';
+    }
+
+    if (type instanceof ArrayType) {
+      return '[]';
+    }
+
+    if (!(type instanceof PrimitiveType)) {
+      return null;
+    }
+
+    if (this.structDeclarations.has(type.name)) {
+      return `new ${CodegenUtils.sanitizeIdentifier(type.name, this.target)}()`;
+    }
+
+    if (this.isVectorType(type.name)) {
+      return `new ${this.useMathClass(type.name)}()`;
+    }
+
+    switch (this.mapTypeToTypeScript(type)) {
+      case 'number':
+        return '0';
+      case 'bigint':
+        return 'BigInt(0)';
+      case 'boolean':
+        return 'false';
+      case 'string':
+        return '""';
+      default:
+        return null;
+    }
+  }
+
+  private isVectorType(name: string): boolean {
+    return this.typeRegistry.getType(name)?.kind === TypeKind.VECTOR;
+  }
+
+  /* runtime math class of a vector type, imported on first use */
+  private useMathClass(typeName: string): string {
+    const className = CodegenUtils.getVectorClassName(typeName);
+    this.mathImports.add(className);
+    return className;
+  }
+
+  /* 'operator+' members are emitted as 'opAdd' and friends */
+  private getMethodName(method: FunctionDeclaration): string {
+    if (/^operator\W/.test(method.name)) {
+      return CodegenUtils.getOperatorMethodName(
+        method.name.slice('operator'.length),
+        method.parameters.length
+      );
+    }
+
+    return CodegenUtils.sanitizeIdentifier(method.name, this.target);
   }
 
   private mapOperator(operator: string): string {
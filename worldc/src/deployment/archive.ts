@@ -0,0 +1,613 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         archive.ts
+           ---
+           archive writers and readers for release packaging:
+           zip, gzipped tar and Electron's ASAR format, and the
+           SHA-256 checksums releases are verified with.
+
+           archives are built in memory with Node's zlib. every
+           entry is stamped with the same fixed time, so the same
+           files always make the same archive, byte for byte, and
+           so the same checksum.
+
+*/
+
+import { createHash } from 'crypto';
+import * as zlib from 'zlib';
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+/*
+
+         ArchiveEntry
+           ---
+           a file in an archive. the path is relative and uses
+           forward slashes; the mode holds the unix permission
+           bits, 0o644 unless given.
+
+*/
+
+export interface ArchiveEntry {
+  path: string;
+  data: Buffer | string;
+  mode?: number;
+}
+
+/*
+
+         ArchiveOptions
+           ---
+           the compression level is on zlib's scale of 0 to 9.
+           level 0 stores entries as they are.
+
+*/
+
+export interface ArchiveOptions {
+  level?: number;
+}
+
+/*
+
+         ArchiveError
+           ---
+           thrown for an entry an archive format cannot hold,
+           or an archive that cannot be read.
+
+*/
+
+export class ArchiveError extends Error {
+  constructor(
+    message: string,
+    public entry?: string
+  ) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+/*
+    ====================================
+             --- CHECKSUMS ---
+    ====================================
+*/
+
+/*
+
+         sha256()
+           ---
+           the SHA-256 checksum of some bytes, as written in
+           release manifests: the algorithm, a colon and the
+           hex digest.
+
+*/
+
+export function sha256(data: Buffer | string): string {
+  return `sha256:${createHash('sha256').update(data).digest('hex')}`;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/*
+    ====================================
+             --- ZIP ---
+    ====================================
+*/
+
+/* 1980-01-01 00:00, the earliest time a zip entry can have */
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+/* entry names are UTF-8 */
+const ZIP_UTF8 = 0x0800;
+
+/*
+
+         createZipArchive()
+           ---
+           writes a zip archive. an entry is deflated unless
+           deflating does not make it smaller.
+
+*/
+
+export function createZipArchive(
+  entries: ArchiveEntry[],
+  options: ArchiveOptions = {}
+): Buffer {
+  const level = clampLevel(options.level);
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entryPath(entry));
+    const data = toBuffer(entry.data);
+    const deflated = level > 0 ? zlib.deflateRawSync(data, { level }) : null;
+    const stored = !deflated || deflated.length >= data.length;
+    const body = stored ? data : deflated;
+    const crc = crc32(data);
+
+    if (offset > 0xffffffff || data.length > 0xffffffff) {
+      throw new ArchiveError('zip archives are limited to 4 GB', entry.path);
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(ZIP_UTF8, 6);
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt16LE(DOS_TIME, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x0314 /* made on unix, zip 2.0 */, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(ZIP_UTF8, 8);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt16LE(DOS_TIME, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((0o100000 | fileMode(entry)) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, body);
+    directory.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, ...directory, end]);
+}
+
+/*
+
+         readZipArchive()
+           ---
+           reads the entries of a zip archive through its
+           central directory.
+
+*/
+
+export function readZipArchive(archive: Buffer): ArchiveEntry[] {
+  let end = archive.length - 22;
+  while (end >= 0 && archive.readUInt32LE(end) !== 0x06054b50) {
+    end--;
+  }
+
+  if (end < 0) {
+    throw new ArchiveError('not a zip archive');
+  }
+
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  const entries: ArchiveEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(position) !== 0x02014b50) {
+      throw new ArchiveError('corrupt zip central directory');
+    }
+
+    const method = archive.readUInt16LE(position + 10);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    const commentLength = archive.readUInt16LE(position + 32);
+    const mode = archive.readUInt32LE(position + 38) >>> 16;
+    const local = archive.readUInt32LE(position + 42);
+    const path = archive.toString(
+      'utf8',
+      position + 46,
+      position + 46 + nameLength
+    );
+
+    const start =
+      local +
+      30 +
+      archive.readUInt16LE(local + 26) +
+      archive.readUInt16LE(local + 28);
+    const body = archive.subarray(start, start + compressedSize);
+
+    if (method !== 0 && method !== 8) {
+      throw new ArchiveError(`unsupported compression method ${method}`, path);
+    }
+
+    entries.push({
+      path,
+      data: method === 8 ? zlib.inflateRawSync(body) : Buffer.from(body),
+      mode: mode & 0o7777,
+    });
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/*
+    ====================================
+             --- TAR ---
+    ====================================
+*/
+
+const BLOCK = 512;
+
+/*
+
+         createTarGzArchive()
+           ---
+           writes a gzipped ustar archive. paths longer than
+           100 bytes are split between the name and prefix
+           fields of the header.
+
+*/
+
+export function createTarGzArchive(
+  entries: ArchiveEntry[],
+  options: ArchiveOptions = {}
+): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const data = toBuffer(entry.data);
+    const header = Buffer.alloc(BLOCK);
+    const [prefix, name] = splitTarPath(entryPath(entry));
+
+    header.write(name, 0, 100);
+    writeOctal(header, fileMode(entry), 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, data.length, 124, 12);
+    writeOctal(header, 0, 136, 12);
+    header.fill(' ', 148, 156);
+    header.write('0', 156);
+    header.write('ustar\u000000', 257);
+    header.write(prefix, 345, 155);
+
+    let checksum = 0;
+    for (const byte of header) {
+      checksum += byte;
+    }
+    header.write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148);
+
+    const padding = (BLOCK - (data.length % BLOCK)) % BLOCK;
+    blocks.push(header, data, Buffer.alloc(padding));
+  }
+
+  blocks.push(Buffer.alloc(BLOCK * 2));
+
+  return zlib.gzipSync(Buffer.concat(blocks), {
+    level: clampLevel(options.level),
+  });
+}
+
+/*
+
+         readTarGzArchive()
+           ---
+           reads the regular files of a gzipped tar archive.
+
+*/
+
+export function readTarGzArchive(archive: Buffer): ArchiveEntry[] {
+  let tar: Buffer;
+  try {
+    tar = zlib.gunzipSync(archive);
+  } catch {
+    throw new ArchiveError('not a gzipped archive');
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let position = 0;
+
+  while (position + BLOCK <= tar.length && tar[position] !== 0) {
+    const header = tar.subarray(position, position + BLOCK);
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 345, 155);
+    const size = parseInt(readString(header, 124, 12), 8);
+    const type = readString(header, 156, 1);
+
+    if (Number.isNaN(size)) {
+      throw new ArchiveError('corrupt tar header', name);
+    }
+
+    if (type === '0' || type === '') {
+      entries.push({
+        path: prefix ? `${prefix}/${name}` : name,
+        data: Buffer.from(
+          tar.subarray(position + BLOCK, position + BLOCK + size)
+        ),
+        mode: parseInt(readString(header, 100, 8), 8),
+      });
+    }
+
+    position += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+  }
+
+  return entries;
+}
+
+function splitTarPath(path: string): [string, string] {
+  if (Buffer.byteLength(path) <= 100) {
+    return ['', path];
+  }
+
+  /* the prefix takes everything up to some slash, the name the rest */
+  for (let slash = path.indexOf('/'); slash > 0; ) {
+    const prefix = path.slice(0, slash);
+    const name = path.slice(slash + 1);
+
+    if (Buffer.byteLength(prefix) > 155) {
+      break;
+    }
+
+    if (Buffer.byteLength(name) <= 100) {
+      return [prefix, name];
+    }
+
+    slash = path.indexOf('/', slash + 1);
+  }
+
+  throw new ArchiveError('path is too long for a tar archive', path);
+}
+
+function writeOctal(
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number
+): void {
+  header.write(
+    `${value.toString(8).padStart(length - 1, '0')}\u0000`,
+    offset,
+    length
+  );
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? length : end).trim();
+}
+
+/*
+    ====================================
+             --- ASAR ---
+    ====================================
+*/
+
+/* the block size Electron checks ASAR integrity in */
+const ASAR_BLOCK = 4 * 1024 * 1024;
+
+interface AsarNode {
+  files?: Record<string, AsarNode>;
+  size?: number;
+  offset?: string;
+  executable?: boolean;
+  integrity?: {
+    algorithm: 'SHA256';
+    hash: string;
+    blockSize: number;
+    blocks: string[];
+  };
+}
+
+/*
+
+         createAsarArchive()
+           ---
+           writes an ASAR archive, the format Electron loads an
+           app's resources from. the archive opens with a JSON
+           header, serialized as a Chromium pickle, that maps
+           each file to its offset in the data that follows.
+           each file records the SHA-256 hashes Electron checks
+           when asar integrity is enforced.
+
+*/
+
+export function createAsarArchive(entries: ArchiveEntry[]): Buffer {
+  const root: AsarNode = { files: {} };
+  const contents: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const data = toBuffer(entry.data);
+    const segments = entryPath(entry).split('/');
+    const fileName = segments.pop()!;
+    let directory = root;
+
+    for (const segment of segments) {
+      const child: AsarNode = (directory.files![segment] ??= { files: {} });
+      if (!child.files) {
+        throw new ArchiveError('path runs through a file', entry.path);
+      }
+      directory = child;
+    }
+
+    if (directory.files![fileName]) {
+      throw new ArchiveError('duplicate archive entry', entry.path);
+    }
+
+    /* an empty file still has one, empty, block */
+    const blocks: string[] = [];
+    let start = 0;
+    do {
+      blocks.push(hexDigest(data.subarray(start, start + ASAR_BLOCK)));
+      start += ASAR_BLOCK;
+    } while (start < data.length);
+
+    directory.files![fileName] = {
+      size: data.length,
+      offset: String(offset),
+      ...(fileMode(entry) & 0o111 ? { executable: true } : {}),
+      integrity: {
+        algorithm: 'SHA256',
+        hash: hexDigest(data),
+        blockSize: ASAR_BLOCK,
+        blocks,
+      },
+    };
+
+    contents.push(data);
+    offset += data.length;
+  }
+
+  /* a pickle holding the header's JSON as a length-prefixed string */
+  const json = Buffer.from(JSON.stringify(root));
+  const padding = (4 - (json.length % 4)) % 4;
+  const header = Buffer.alloc(8 + json.length + padding);
+  header.writeUInt32LE(4 + json.length + padding, 0);
+  header.writeUInt32LE(json.length, 4);
+  json.copy(header, 8);
+
+  /* a pickle holding the header pickle's size */
+  const size = Buffer.alloc(8);
+  size.writeUInt32LE(4, 0);
+  size.writeUInt32LE(header.length, 4);
+
+  return Buffer.concat([size, header, ...contents]);
+}
+
+/*
+
+         readAsarArchive()
+           ---
+           reads the files of an ASAR archive.
+
+*/
+
+export function readAsarArchive(archive: Buffer): ArchiveEntry[] {
+  let root: AsarNode;
+  let base: number;
+
+  try {
+    const headerSize = archive.readUInt32LE(4);
+    const jsonLength = archive.readUInt32LE(12);
+    root = JSON.parse(archive.toString('utf8', 16, 16 + jsonLength));
+    base = 8 + headerSize;
+  } catch {
+    throw new ArchiveError('not an asar archive');
+  }
+
+  const entries: ArchiveEntry[] = [];
+
+  const visit = (node: AsarNode, path: string): void => {
+    for (const [name, child] of Object.entries(node.files || {})) {
+      const childPath = path ? `${path}/${name}` : name;
+
+      if (child.files) {
+        visit(child, childPath);
+        continue;
+      }
+
+      const start = base + Number(child.offset);
+      entries.push({
+        path: childPath,
+        data: Buffer.from(archive.subarray(start, start + child.size!)),
+        mode: child.executable ? 0o755 : 0o644,
+      });
+    }
+  };
+
+  visit(root, '');
+  return entries;
+}
+
+/*
+    ====================================
+             --- HELPERS ---
+    ====================================
+*/
+
+function toBuffer(data: Buffer | string): Buffer {
+  return typeof data === 'string' ? Buffer.from(data) : data;
+}
+
+function fileMode(entry: ArchiveEntry): number {
+  return (entry.mode ?? 0o644) & 0o7777;
+}
+
+function hexDigest(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/*
+
+         entryPath()
+           ---
+           normalizes an entry's path, refusing one that could
+           escape the directory the archive is extracted to.
+
+*/
+
+function entryPath(entry: ArchiveEntry): string {
+  const path = entry.path.replace(/\\/g, '/').replace(/^\.\//, '');
+  const segments = path.split('/');
+
+  if (
+    path === '' ||
+    path.startsWith('/') ||
+    segments.some((segment) => segment === '..' || segment === '')
+  ) {
+    throw new ArchiveError('archive paths must be relative', entry.path);
+  }
+
+  return path;
+}
+
+function clampLevel(level?: number): number {
+  return Math.min(Math.max(Math.round(level ?? 6), 0), 9);
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
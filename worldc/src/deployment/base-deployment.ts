@@ -17,6 +17,8 @@
 
 */
 
+import { createHash } from 'crypto';
+
 /*
     ====================================
              --- ENUMS ---
@@ -144,7 +146,12 @@ export interface PlatformConfig {
 
          BuildArtifact
            ---
-           represents a single build output artifact.
+           represents a single build output artifact. the
+           content is the artifact's text when the build holds
+           it in memory; only artifacts with content can be
+           optimized. a precompressed copy holds its bytes as
+           data and names its encoding, and the artifact it was
+           made from records its size.
 
 */
 
@@ -152,12 +159,17 @@ export interface BuildArtifact {
   id: string;
   type: 'javascript' | 'css' | 'html' | 'wasm' | 'asset' | 'manifest';
   path: string;
-  size: number;
+  size: number /* in bytes */;
+  content?: string;
+  data?: Buffer;
+  contentEncoding?: 'gzip' | 'br';
   checksum?: string;
   dependencies?: string[];
   metadata?: {
     originalSize?: number;
     compressionRatio?: number;
+    gzipSize?: number;
+    brotliSize?: number;
     processingTime?: number;
     [key: string]: any;
   };
@@ -612,7 +624,9 @@ export class DeploymentUtils {
 
            calculateChecksum()
              ---
-             calculates checksum for file content.
+             calculates checksum for file content, prefixed
+             with the algorithm like the checksums of release
+             manifests.
 
   */
 
@@ -620,8 +634,8 @@ export class DeploymentUtils {
     content: string | Buffer,
     algorithm: 'md5' | 'sha1' | 'sha256' = 'sha256'
   ): Promise<string> {
-    /* would use crypto module to calculate actual checksum */
-    return `${algorithm}-checksum-placeholder`;
+    const digest = createHash(algorithm).update(content).digest('hex');
+    return `${algorithm}:${digest}`;
   }
 
   /*
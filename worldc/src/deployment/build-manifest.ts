@@ -0,0 +1,331 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         build-manifest.ts
+           ---
+           the build manifest: every file a production build
+           emits, with its SHA-256 hash and size, and the diff
+           of two manifests that tells what changed between
+           two builds.
+
+           a manifest holds nothing that differs between two
+           builds of the same sources, so equal builds have
+           equal manifests.
+
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { sha256 } from './archive';
+import { BuildArtifact } from './base-deployment';
+
+/* written next to the files it lists */
+export const BUILD_MANIFEST_FILE = 'build-manifest.json';
+
+/* hex digits of the content hash put in a file name */
+const NAME_HASH_LENGTH = 8;
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+/*
+
+         BuildManifestEntry
+           ---
+           one emitted file. the name is its path before content
+           hashing, which stays the same from build to build;
+           the path is where it was written. both are relative
+           to the output directory.
+
+*/
+
+export interface BuildManifestEntry {
+  name: string;
+  path: string;
+  type: BuildArtifact['type'];
+  size: number;
+  hash: string;
+}
+
+/*
+
+         BuildManifest
+           ---
+           the files of one build, sorted by name.
+
+*/
+
+export interface BuildManifest {
+  version: 1;
+  platform: string;
+  app?: {
+    name: string;
+    version: string;
+  };
+  artifacts: BuildManifestEntry[];
+  totalSize: number;
+}
+
+/*
+
+         BuildManifestChange
+           ---
+           a file both builds emitted, with different contents.
+
+*/
+
+export interface BuildManifestChange {
+  name: string;
+  before: BuildManifestEntry;
+  after: BuildManifestEntry;
+  sizeDelta: number;
+}
+
+/*
+
+         BuildManifestDiff
+           ---
+           what changed from one build to the next. files are
+           matched by name, so a file whose content hash moved
+           into its path is changed rather than removed and
+           added.
+
+*/
+
+export interface BuildManifestDiff {
+  added: BuildManifestEntry[];
+  removed: BuildManifestEntry[];
+  changed: BuildManifestChange[];
+  unchanged: number;
+  sizeDelta: number;
+}
+
+/*
+
+         BuildManifestError
+           ---
+           thrown for a manifest that cannot be read.
+
+*/
+
+export class BuildManifestError extends Error {
+  constructor(
+    message: string,
+    public file?: string
+  ) {
+    super(message);
+    this.name = 'BuildManifestError';
+  }
+}
+
+/*
+    ====================================
+             --- MANIFESTS ---
+    ====================================
+*/
+
+/*
+
+         getArtifactBytes()
+           ---
+           the bytes of an artifact, or undefined when the build
+           does not hold them.
+
+*/
+
+export function getArtifactBytes(artifact: BuildArtifact): Buffer | undefined {
+  if (artifact.data !== undefined) {
+    return artifact.data;
+  }
+
+  return artifact.content !== undefined
+    ? Buffer.from(artifact.content)
+    : undefined;
+}
+
+/*
+
+         contentHashedPath()
+           ---
+           the path with the first digits of the data's hash put
+           before its extension: main.js becomes main.1a2b3c4d.js.
+
+*/
+
+export function contentHashedPath(
+  filePath: string,
+  data: Buffer | string
+): string {
+  const digest = sha256(data).slice('sha256:'.length);
+  const hash = digest.slice(0, NAME_HASH_LENGTH);
+  const extension = path.posix.extname(filePath);
+
+  return extension
+    ? `${filePath.slice(0, -extension.length)}.${hash}${extension}`
+    : `${filePath}.${hash}`;
+}
+
+/*
+
+         createBuildManifest()
+           ---
+           lists the artifacts under the output directory. an
+           artifact renamed by content hashing records the path
+           it had before in metadata.unhashedPath.
+
+*/
+
+export function createBuildManifest(
+  artifacts: BuildArtifact[],
+  outputDirectory: string,
+  info: { platform: string; app?: { name: string; version: string } }
+): BuildManifest {
+  const entries: BuildManifestEntry[] = [];
+
+  for (const artifact of artifacts) {
+    const data = getArtifactBytes(artifact);
+    if (data === undefined) {
+      continue;
+    }
+
+    entries.push({
+      name: relativePath(
+        outputDirectory,
+        artifact.metadata?.unhashedPath ?? artifact.path
+      ),
+      path: relativePath(outputDirectory, artifact.path),
+      type: artifact.type,
+      size: data.length,
+      hash: sha256(data),
+    });
+  }
+
+  entries.sort((a, b) => compare(a.name, b.name));
+
+  return {
+    version: 1,
+    platform: info.platform,
+    ...(info.app && {
+      app: { name: info.app.name, version: info.app.version },
+    }),
+    artifacts: entries,
+    totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+  };
+}
+
+/*
+
+         readBuildManifest()
+           ---
+           reads a manifest from disk. a directory is read as
+           the build-manifest.json inside it.
+
+*/
+
+export function readBuildManifest(file: string): BuildManifest {
+  const manifestPath =
+    fs.existsSync(file) && fs.statSync(file).isDirectory()
+      ? path.join(file, BUILD_MANIFEST_FILE)
+      : file;
+
+  let manifest: BuildManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch (error) {
+    throw new BuildManifestError(
+      `Cannot read build manifest: ${error instanceof Error ? error.message : error}`,
+      manifestPath
+    );
+  }
+
+  if (!manifest || !Array.isArray(manifest.artifacts)) {
+    throw new BuildManifestError(
+      'Build manifest has no artifacts',
+      manifestPath
+    );
+  }
+
+  return manifest;
+}
+
+/*
+
+         diffBuildManifests()
+           ---
+           compares the files of two builds. each list is sorted
+           by name.
+
+*/
+
+export function diffBuildManifests(
+  before: BuildManifest,
+  after: BuildManifest
+): BuildManifestDiff {
+  const previous = new Map(before.artifacts.map((a) => [a.name, a]));
+  const diff: BuildManifestDiff = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+    sizeDelta: totalSize(after) - totalSize(before),
+  };
+
+  for (const entry of after.artifacts) {
+    const old = previous.get(entry.name);
+    previous.delete(entry.name);
+
+    if (!old) {
+      diff.added.push(entry);
+    } else if (old.hash !== entry.hash) {
+      diff.changed.push({
+        name: entry.name,
+        before: old,
+        after: entry,
+        sizeDelta: entry.size - old.size,
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.removed.push(...previous.values());
+
+  diff.added.sort((a, b) => compare(a.name, b.name));
+  diff.removed.sort((a, b) => compare(a.name, b.name));
+  diff.changed.sort((a, b) => compare(a.name, b.name));
+
+  return diff;
+}
+
+/*
+    ====================================
+             --- HELPERS ---
+    ====================================
+*/
+
+function relativePath(outputDirectory: string, file: string): string {
+  return path.relative(outputDirectory, file).split(path.sep).join('/');
+}
+
+function totalSize(manifest: BuildManifest): number {
+  return manifest.artifacts.reduce((sum, entry) => sum + entry.size, 0);
+}
+
+/* by code unit, so the order does not depend on the locale */
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
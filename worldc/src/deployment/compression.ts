@@ -0,0 +1,187 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         compression.ts
+           ---
+           precompression of build artifacts for static hosting.
+
+           each compressible artifact gets a gzip and a brotli
+           copy next to it, named with a .gz or .br suffix, so a
+           host can answer an Accept-Encoding request with the
+           file as it is on disk instead of compressing it for
+           every response.
+
+*/
+
+import * as zlib from 'zlib';
+import { BuildArtifact } from './base-deployment';
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+/*
+
+         CompressionOptions
+           ---
+           the level is on gzip's scale of 1 to 9; brotli's
+           quality is scaled to its own range of 0 to 11. a
+           level of 0 turns compression off.
+
+*/
+
+export interface CompressionOptions {
+  level?: number;
+}
+
+/* formats that are compressed already, and gain nothing from it */
+const PRECOMPRESSED = new Set([
+  'png',
+  'jpg',
+  'jpeg',
+  'gif',
+  'webp',
+  'avif',
+  'woff',
+  'woff2',
+  'mp3',
+  'mp4',
+  'm4a',
+  'ogg',
+  'webm',
+  'zip',
+  'gz',
+  'br',
+  'tgz',
+  '7z',
+]);
+
+const SUFFIXES: Record<'gzip' | 'br', string> = { gzip: '.gz', br: '.br' };
+
+/*
+    ====================================
+             --- COMPRESSION ---
+    ====================================
+*/
+
+/*
+
+         isCompressible()
+           ---
+           true when the build holds the artifact's bytes and
+           its format is not a compressed one.
+
+*/
+
+export function isCompressible(artifact: BuildArtifact): boolean {
+  if (artifact.contentEncoding !== undefined) {
+    return false;
+  }
+
+  if (artifact.content === undefined && artifact.data === undefined) {
+    return false;
+  }
+
+  const extension = /\.([a-z0-9]+)$/i.exec(artifact.path)?.[1];
+  return !extension || !PRECOMPRESSED.has(extension.toLowerCase());
+}
+
+/*
+
+         compressArtifacts()
+           ---
+           returns the artifacts with each compressible one
+           followed by its .gz and .br copies. the original
+           records the size of each copy in its metadata. a
+           copy that is no smaller than the original is left
+           out, since a host would do better to serve the
+           original.
+
+*/
+
+export function compressArtifacts(
+  artifacts: BuildArtifact[],
+  options: CompressionOptions = {}
+): BuildArtifact[] {
+  const level = Math.min(Math.round(options.level ?? 6), 9);
+  if (level <= 0) {
+    return artifacts;
+  }
+
+  const result: BuildArtifact[] = [];
+
+  for (const artifact of artifacts) {
+    if (!isCompressible(artifact)) {
+      result.push(artifact);
+      continue;
+    }
+
+    const bytes = artifact.data ?? Buffer.from(artifact.content!);
+    const gzip = zlib.gzipSync(bytes, { level });
+    const brotli = zlib.brotliCompressSync(bytes, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_QUALITY]: Math.round((level * 11) / 9),
+        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: bytes.length,
+      },
+    });
+
+    const copies = [
+      encodedCopy(artifact, 'gzip', gzip),
+      encodedCopy(artifact, 'br', brotli),
+    ].filter((copy) => copy.size < bytes.length);
+
+    const metadata: BuildArtifact['metadata'] = { ...artifact.metadata };
+    for (const copy of copies) {
+      if (copy.contentEncoding === 'gzip') {
+        metadata.gzipSize = copy.size;
+        metadata.compressionRatio = copy.size / bytes.length;
+      } else {
+        metadata.brotliSize = copy.size;
+      }
+    }
+
+    result.push(
+      copies.length > 0 ? { ...artifact, metadata } : artifact,
+      ...copies
+    );
+  }
+
+  return result;
+}
+
+/*
+
+         encodedCopy()
+           ---
+           the artifact served for one content encoding.
+
+*/
+
+function encodedCopy(
+  artifact: BuildArtifact,
+  encoding: 'gzip' | 'br',
+  data: Buffer
+): BuildArtifact {
+  return {
+    id: `${artifact.id}${SUFFIXES[encoding]}`,
+    type: artifact.type,
+    path: `${artifact.path}${SUFFIXES[encoding]}`,
+    size: data.length,
+    data,
+    contentEncoding: encoding,
+    metadata: { encodingOf: artifact.path },
+  };
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
@@ -17,6 +17,9 @@
 
 */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import { sha256 } from './archive';
 import {
   BuildArtifact,
   PlatformTarget,
@@ -80,6 +83,23 @@ export interface DistributionResult {
   warnings: string[];
 }
 
+/*
+
+         ReleaseVerification
+           ---
+           result of checking a release against the checksums
+           in its manifest. paths are relative to the manifest.
+
+*/
+
+export interface ReleaseVerification {
+  success: boolean;
+  verified: string[];
+  mismatched: string[];
+  missing: string[];
+  errors: string[];
+}
+
 /*
 
          ReleasePackage
@@ -171,6 +191,12 @@ export class DistributionManager {
       for (const artifact of options.artifacts) {
         const outputPath = `${outputDir}/${this.getRelativePath(artifact.path)}`;
         files.push(outputPath);
+
+        /* precompressed copies are served in place of their original */
+        if (artifact.contentEncoding !== undefined) {
+          continue;
+        }
+
         totalSize += artifact.size;
 
         if (artifact.type === 'asset') {
@@ -213,7 +239,7 @@ export class DistributionManager {
       /* apply compression if enabled */
       const compressedSize =
         options.enableCompression || this.config.enableCompression
-          ? Math.floor(totalSize * 0.7) /* 30% compression */
+          ? totalSize - this.getCompressionSavings(options.artifacts)
           : totalSize;
 
       /* generate deployment URL */
@@ -424,6 +450,12 @@ export class DistributionManager {
       for (const artifact of options.artifacts) {
         const outputPath = `${outputDir}/${this.getRelativePath(artifact.path)}`;
         files.push(outputPath);
+
+        /* precompressed copies are served in place of their original */
+        if (artifact.contentEncoding !== undefined) {
+          continue;
+        }
+
         totalSize += artifact.size;
 
         if (artifact.metadata?.cacheable) {
@@ -500,7 +532,10 @@ export class DistributionManager {
 
            createReleaseManifest()
              ---
-           creates release manifest with package information.
+           creates release manifest with package information,
+           and writes it to the output directory. the manifest
+           holds the SHA-256 checksum of every package file
+           that is on disk; the others are reported as warnings.
 
   */
 
@@ -524,14 +559,22 @@ export class DistributionManager {
     releaseNotes?: string;
     buildNumber: number;
     buildTimestamp: string;
+    checksums?: boolean;
   }): Promise<{
     success: boolean;
     manifestPath: string;
     errors: string[];
+    warnings: string[];
   }> {
     console.log('Creating release manifest...');
 
     try {
+      const warnings: string[] = [];
+      const checksums =
+        (options.checksums ?? this.config.enableChecksums)
+          ? await this.generateChecksumManifest(options.packages, warnings)
+          : undefined;
+
       const manifest = {
         name: options.appInfo.name,
         version: options.version,
@@ -552,7 +595,7 @@ export class DistributionManager {
           downloadUrl: this.generateDownloadUrl(pkg),
         })),
         totalSize: options.packages.reduce((sum, pkg) => sum + pkg.size, 0),
-        checksums: this.generateChecksumManifest(options.packages),
+        checksums,
         signature: this.config.signatureKey
           ? 'release-signature-placeholder'
           : undefined,
@@ -561,22 +604,86 @@ export class DistributionManager {
       const manifestContent = JSON.stringify(manifest, null, 2);
       const manifestPath = `${this.config.outputDirectory}/release-manifest.json`;
 
+      await fs.promises.mkdir(this.config.outputDirectory, { recursive: true });
+      await fs.promises.writeFile(manifestPath, manifestContent);
+
       console.log('Release manifest created');
 
       return {
         success: true,
         manifestPath,
         errors: [],
+        warnings,
       };
     } catch (error) {
       return {
         success: false,
         manifestPath: '',
         errors: [`Release manifest creation failed: ${error}`],
+        warnings: [],
       };
     }
   }
 
+  /*
+
+           verifyRelease()
+             ---
+           re-hashes the files of a release and compares them
+           with the checksums its manifest records.
+
+  */
+
+  public async verifyRelease(
+    manifestPath: string
+  ): Promise<ReleaseVerification> {
+    const result: ReleaseVerification = {
+      success: false,
+      verified: [],
+      mismatched: [],
+      missing: [],
+      errors: [],
+    };
+
+    let checksums: Record<string, string>;
+    try {
+      const manifest = JSON.parse(
+        await fs.promises.readFile(manifestPath, 'utf8')
+      );
+      checksums = manifest.checksums;
+    } catch (error) {
+      result.errors.push(`Cannot read release manifest: ${error}`);
+      return result;
+    }
+
+    if (!checksums || Object.keys(checksums).length === 0) {
+      result.errors.push('Release manifest has no checksums');
+      return result;
+    }
+
+    const releaseDir = path.dirname(manifestPath);
+
+    for (const [file, checksum] of Object.entries(checksums)) {
+      let data: Buffer;
+      try {
+        data = await fs.promises.readFile(path.join(releaseDir, file));
+      } catch {
+        result.missing.push(file);
+        continue;
+      }
+
+      if (sha256(data) === checksum) {
+        result.verified.push(file);
+      } else {
+        result.mismatched.push(file);
+      }
+    }
+
+    result.success =
+      result.mismatched.length === 0 && result.missing.length === 0;
+    return result;
+  }
+
   /*
 
            processCompilationResult()
@@ -620,21 +727,28 @@ export class DistributionManager {
       for (const artifact of artifacts) {
         const outputPath = `${this.config.outputDirectory}/${this.getRelativePath(artifact.path)}`;
         files.push(outputPath);
-        totalSize += artifact.size;
 
-        if (artifact.type === 'asset') {
-          assetSize += artifact.size;
+        /* precompressed copies are served in place of their original */
+        if (artifact.contentEncoding === undefined) {
+          totalSize += artifact.size;
+
+          if (artifact.type === 'asset') {
+            assetSize += artifact.size;
+          }
         }
 
         /* generate checksum if enabled */
-        if (this.config.enableChecksums) {
-          checksums[outputPath] = await this.generateChecksum(artifact);
+        const checksum = this.config.enableChecksums
+          ? await this.generateChecksum(artifact)
+          : undefined;
+        if (checksum) {
+          checksums[outputPath] = checksum;
         }
       }
 
       /* apply compression if enabled */
       const compressedSize = this.config.enableCompression
-        ? await this.applyCompression(files, totalSize)
+        ? totalSize - this.getCompressionSavings(artifacts)
         : totalSize;
 
       /* create distribution manifest */
@@ -705,10 +819,10 @@ export class DistributionManager {
 
   private generateWebIndex(artifacts: BuildArtifact[]): string {
     const jsFiles = artifacts
-      .filter((a) => a.type === 'javascript')
+      .filter((a) => a.type === 'javascript' && !a.contentEncoding)
       .map((a) => this.getRelativePath(a.path));
     const cssFiles = artifacts
-      .filter((a) => a.type === 'css')
+      .filter((a) => a.type === 'css' && !a.contentEncoding)
       .map((a) => this.getRelativePath(a.path));
 
     return `<!DOCTYPE html>
@@ -793,6 +907,34 @@ export class DistributionManager {
 AddType application/wasm .wasm
 AddType application/json .json
 
+# Serve precompressed copies
+<IfModule mod_rewrite.c>
+  RewriteEngine On
+  RewriteCond %{HTTP:Accept-Encoding} br
+  RewriteCond %{REQUEST_FILENAME}.br -f
+  RewriteRule ^(.*)$ $1.br [L]
+  RewriteCond %{HTTP:Accept-Encoding} gzip
+  RewriteCond %{REQUEST_FILENAME}.gz -f
+  RewriteRule ^(.*)$ $1.gz [L]
+  RewriteRule \\.html\\.(br|gz)$ - [T=text/html,E=no-gzip:1]
+  RewriteRule \\.css\\.(br|gz)$ - [T=text/css,E=no-gzip:1]
+  RewriteRule \\.js\\.(br|gz)$ - [T=application/javascript,E=no-gzip:1]
+  RewriteRule \\.json\\.(br|gz)$ - [T=application/json,E=no-gzip:1]
+  RewriteRule \\.svg\\.(br|gz)$ - [T=image/svg+xml,E=no-gzip:1]
+  RewriteRule \\.wasm\\.(br|gz)$ - [T=application/wasm,E=no-gzip:1]
+</IfModule>
+
+<IfModule mod_headers.c>
+  <FilesMatch "\\.br$">
+    Header set Content-Encoding br
+    Header append Vary Accept-Encoding
+  </FilesMatch>
+  <FilesMatch "\\.gz$">
+    Header set Content-Encoding gzip
+    Header append Vary Accept-Encoding
+  </FilesMatch>
+</IfModule>
+
 # Fallback for SPA
 <IfModule mod_rewrite.c>
   RewriteEngine On
@@ -1051,17 +1193,30 @@ self.addEventListener('activate', (event) => {
 
            generateChecksumManifest()
              ---
-           generates checksum manifest for packages.
+           hashes every file of the packages, keyed by its path
+           relative to the output directory, where the release
+           manifest is written.
 
   */
 
-  private generateChecksumManifest(packages: any[]): Record<string, string> {
+  private async generateChecksumManifest(
+    packages: Array<{ files: string[] }>,
+    warnings: string[]
+  ): Promise<Record<string, string>> {
     const checksums: Record<string, string> = {};
 
     for (const pkg of packages) {
-      if (pkg.checksum) {
-        const key = `${pkg.target}-${pkg.platform || 'all'}-${pkg.architecture || 'universal'}`;
-        checksums[key] = pkg.checksum;
+      for (const file of pkg.files) {
+        const key = path
+          .relative(this.config.outputDirectory, file)
+          .split(path.sep)
+          .join('/');
+
+        try {
+          checksums[key] = sha256(await fs.promises.readFile(file));
+        } catch {
+          warnings.push(`${file} was not checksummed: it is not on disk`);
+        }
       }
     }
 
@@ -1072,42 +1227,72 @@ self.addEventListener('activate', (event) => {
 
            generateChecksum()
              ---
-           generates checksum for artifact.
+           hashes the artifact's bytes, read from disk when the
+           build does not hold them. undefined when they are
+           nowhere to be found.
 
   */
 
-  private async generateChecksum(artifact: BuildArtifact): Promise<string> {
-    /* would use crypto module to generate actual checksum */
-    return `sha256:${artifact.id}-${artifact.size}-checksum`;
+  private async generateChecksum(
+    artifact: BuildArtifact
+  ): Promise<string | undefined> {
+    const data = artifact.data ?? artifact.content;
+    if (data !== undefined) {
+      return sha256(data);
+    }
+
+    try {
+      return sha256(await fs.promises.readFile(artifact.path));
+    } catch {
+      return undefined;
+    }
   }
 
   /*
 
-           applyCompression()
+           getCompressionSavings()
              ---
-           applies compression to files.
+           bytes saved by serving each artifact's smallest
+           precompressed copy instead of the artifact.
 
   */
 
-  private async applyCompression(
-    files: string[],
-    totalSize: number
-  ): Promise<number> {
-    /* would apply actual compression */
-    return Math.floor(totalSize * 0.7); /* 30% compression ratio */
+  private getCompressionSavings(artifacts: BuildArtifact[]): number {
+    return artifacts.reduce((sum, artifact) => {
+      const served = Math.min(
+        artifact.size,
+        artifact.metadata?.gzipSize ?? artifact.size,
+        artifact.metadata?.brotliSize ?? artifact.size
+      );
+      return artifact.contentEncoding === undefined
+        ? sum + artifact.size - served
+        : sum;
+    }, 0);
   }
 
   /*
 
            createDistributionManifest()
              ---
-           creates distribution manifest.
+           creates distribution manifest. each artifact lists
+           its precompressed copies by encoding, so a host can
+           map a request to the file it should serve.
 
   */
 
   private async createDistributionManifest(
     artifacts: BuildArtifact[]
   ): Promise<string> {
+    const copies = artifacts.filter((a) => a.contentEncoding !== undefined);
+    const served = artifacts.filter((a) => a.contentEncoding === undefined);
+
+    const checksums = new Map<BuildArtifact, string | undefined>();
+    if (this.config.enableChecksums) {
+      for (const artifact of served) {
+        checksums.set(artifact, await this.generateChecksum(artifact));
+      }
+    }
+
     const manifest = {
       name: this.config.metadata?.title || 'WORLDSRC Distribution',
       version: '1.0.0',
@@ -1116,20 +1301,45 @@ self.addEventListener('activate', (event) => {
         'WORLDSRC game distribution package',
       author: this.config.metadata?.author || 'Unknown',
       license: this.config.metadata?.license || 'MIT',
-      artifacts: artifacts.map((a) => ({
+      artifacts: served.map((a) => ({
         id: a.id,
         type: a.type,
         path: a.path,
         size: a.size,
-        checksum: this.config.enableChecksums ? `checksum-${a.id}` : undefined,
+        checksum: checksums.get(a),
+        encodings: this.getEncodings(a, copies),
       })),
-      totalSize: artifacts.reduce((sum, a) => sum + a.size, 0),
+      totalSize: served.reduce((sum, a) => sum + a.size, 0),
       created: new Date().toISOString(),
     };
 
     return JSON.stringify(manifest, null, 2);
   }
 
+  /*
+
+           getEncodings()
+             ---
+           the path and size of each precompressed copy of an
+           artifact, keyed by content encoding.
+
+  */
+
+  private getEncodings(
+    artifact: BuildArtifact,
+    copies: BuildArtifact[]
+  ): Record<string, { path: string; size: number }> | undefined {
+    const encodings: Record<string, { path: string; size: number }> = {};
+
+    for (const copy of copies) {
+      if (copy.metadata?.encodingOf === artifact.path) {
+        encodings[copy.contentEncoding!] = { path: copy.path, size: copy.size };
+      }
+    }
+
+    return Object.keys(encodings).length > 0 ? encodings : undefined;
+  }
+
   /*
 
            getRelativePath()
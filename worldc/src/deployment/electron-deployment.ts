@@ -15,8 +15,16 @@
            includes code signing, auto-updates, and platform-specific
            installers for Windows, macOS, and Linux.
 
+           each package is written to the output directory with
+           the app's files in an ASAR archive, and zipped or
+           tarred when requested. the Electron runtime itself is
+           not bundled; electron-builder adds it when making
+           installers.
+
 */
 
+import * as fs from 'fs';
+import * as path from 'path';
 import {
   BaseDeploymentTarget,
   PlatformTarget,
@@ -27,6 +35,13 @@ import {
   SecurityConfiguration,
   BuildStage,
 } from './base-deployment';
+import {
+  ArchiveEntry,
+  createAsarArchive,
+  createTarGzArchive,
+  createZipArchive,
+  sha256,
+} from './archive';
 
 /*
     ====================================
@@ -127,6 +142,7 @@ export interface ElectronBuildResult extends DeploymentResult {
     zip?: string;
     size: number;
     checksum?: string;
+    checksums?: Record<string, string>;
   }>;
   mainProcess: string;
   rendererProcess: string[];
@@ -373,7 +389,8 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       id: 'package-json',
       type: 'asset',
       path: `${this.options.outputDirectory}/package.json`,
-      size: packageJson.length,
+      size: Buffer.byteLength(packageJson),
+      content: packageJson,
       metadata: {
         isElectronConfig: true,
       },
@@ -407,7 +424,8 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       id: 'main-process',
       type: 'javascript',
       path: `${this.options.outputDirectory}/main.js`,
-      size: mainProcessCode.length,
+      size: Buffer.byteLength(mainProcessCode),
+      content: mainProcessCode,
       metadata: {
         isMainProcess: true,
         electronVersion: this.electronOptions.electronVersion,
@@ -446,7 +464,8 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       id: 'main-renderer',
       type: 'javascript',
       path: `${this.options.outputDirectory}/renderer.js`,
-      size: mainRendererCode.length,
+      size: Buffer.byteLength(mainRendererCode),
+      content: mainRendererCode,
       metadata: {
         isRenderer: true,
         compiledFiles: rendererFiles.map((f) => f.path),
@@ -460,7 +479,8 @@ export class ElectronDeployment extends BaseDeploymentTarget {
         id: 'preload-script',
         type: 'javascript',
         path: `${this.options.outputDirectory}/preload.js`,
-        size: preloadCode.length,
+        size: Buffer.byteLength(preloadCode),
+        content: preloadCode,
         metadata: {
           isPreload: true,
         },
@@ -492,7 +512,8 @@ export class ElectronDeployment extends BaseDeploymentTarget {
     );
 
     for (const asset of staticAssets) {
-      const bundledAsset = {
+      const data = await this.readSourceFile(asset.path);
+      const bundledAsset: BuildArtifact = {
         ...asset,
         path: `${this.options.outputDirectory}/assets/${this.getFileName(asset.path)}`,
         metadata: {
@@ -500,16 +521,29 @@ export class ElectronDeployment extends BaseDeploymentTarget {
           bundledForElectron: true,
         },
       };
+
+      if (data) {
+        bundledAsset.data = data;
+        bundledAsset.size = data.length;
+      }
+
       bundledAssets.push(bundledAsset);
     }
 
+    /* the app's package.json names its main process */
+    const packageJson = sourceFiles.find((f) => f.metadata?.isElectronConfig);
+    if (packageJson) {
+      bundledAssets.push(packageJson);
+    }
+
     /* create Electron-specific HTML */
     const electronHtml = await this.generateElectronHTML();
     bundledAssets.push({
       id: 'electron-html',
       type: 'html',
       path: `${this.options.outputDirectory}/index.html`,
-      size: electronHtml.length,
+      size: Buffer.byteLength(electronHtml),
+      content: electronHtml,
       metadata: {
         isElectronHTML: true,
       },
@@ -521,7 +555,8 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       id: 'electron-css',
       type: 'css',
       path: `${this.options.outputDirectory}/styles.css`,
-      size: electronCss.length,
+      size: Buffer.byteLength(electronCss),
+      content: electronCss,
       metadata: {
         isElectronCSS: true,
       },
@@ -553,7 +588,7 @@ export class ElectronDeployment extends BaseDeploymentTarget {
 
     /* apply ASAR packaging if enabled */
     if (this.electronOptions.packaging?.asar !== false) {
-      await this.applyAsarPackaging(optimizedFiles);
+      optimizedFiles.push(await this.applyAsarPackaging(optimizedFiles));
     }
 
     console.log('Electron optimization complete');
@@ -564,7 +599,10 @@ export class ElectronDeployment extends BaseDeploymentTarget {
 
            packageElectronApps()
              ---
-           packages Electron applications for each target platform.
+           writes a package for each target platform. the app's
+           files go in resources/app.asar, or loose under
+           resources/app when ASAR packaging is off; on macOS
+           resources live inside the app bundle.
 
   */
 
@@ -575,6 +613,7 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       path: string;
       size: number;
       executable: string;
+      entries: ArchiveEntry[];
     }>
   > {
     console.log('Packaging Electron applications...');
@@ -585,8 +624,17 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       path: string;
       size: number;
       executable: string;
+      entries: ArchiveEntry[];
     }> = [];
 
+    const asar = optimizedFiles.find((f) => f.metadata?.isAsarArchive);
+    const appEntries: ArchiveEntry[] = asar
+      ? [{ path: 'app.asar', data: asar.data! }]
+      : this.getAppEntries(optimizedFiles).map((entry) => ({
+          ...entry,
+          path: `app/${entry.path}`,
+        }));
+
     /* package for each platform/architecture combination */
     for (const platform of this.electronOptions.targetPlatforms) {
       for (const arch of this.electronOptions.targetArchitectures) {
@@ -594,14 +642,29 @@ export class ElectronDeployment extends BaseDeploymentTarget {
 
         const packagePath = `${this.options.outputDirectory}/packages/${platform}-${arch}`;
         const executable = this.getExecutableName(platform);
-        const packageSize = await this.calculatePackageSize(optimizedFiles);
+        const resources =
+          platform === 'darwin'
+            ? `${executable}/Contents/Resources`
+            : 'resources';
+        const entries = appEntries.map((entry) => ({
+          ...entry,
+          path: `${resources}/${entry.path}`,
+        }));
+
+        for (const entry of entries) {
+          await this.writeOutputFile(
+            `${packagePath}/${entry.path}`,
+            entry.data
+          );
+        }
 
         packages.push({
           platform,
           architecture: arch,
           path: packagePath,
-          size: packageSize,
+          size: this.calculatePackageSize(entries),
           executable: `${packagePath}/${executable}`,
+          entries,
         });
       }
     }
@@ -625,6 +688,7 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       path: string;
       size: number;
       executable: string;
+      entries: ArchiveEntry[];
     }>
   ): Promise<
     Array<{
@@ -633,6 +697,7 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       path: string;
       size: number;
       executable: string;
+      entries: ArchiveEntry[];
       signed: boolean;
     }>
   > {
@@ -661,7 +726,10 @@ export class ElectronDeployment extends BaseDeploymentTarget {
 
            createElectronInstallers()
              ---
-           creates installers and portable versions.
+           creates installers and portable versions. every file
+           written for a package is checksummed; the package's
+           own checksum is that of its zip, its portable archive
+           or its app archive, the first it has.
 
   */
 
@@ -672,6 +740,7 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       path: string;
       size: number;
       executable: string;
+      entries: ArchiveEntry[];
       signed: boolean;
     }>
   ): Promise<
@@ -684,6 +753,7 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       zip?: string;
       size: number;
       checksum?: string;
+      checksums?: Record<string, string>;
     }>
   > {
     console.log('Creating installers...');
@@ -713,8 +783,25 @@ export class ElectronDeployment extends BaseDeploymentTarget {
         result.zip = await this.createZip(pkg);
       }
 
-      /* calculate checksum */
-      result.checksum = await this.calculateChecksum(pkg.executable);
+      /* calculate checksums */
+      const written = [
+        ...pkg.entries.map((entry) => `${pkg.path}/${entry.path}`),
+        result.portable,
+        result.zip,
+      ].filter((file): file is string => file !== undefined);
+
+      result.checksums = {};
+      for (const file of written) {
+        result.checksums[file] = await this.calculateChecksum(file);
+      }
+
+      const primary =
+        result.zip ??
+        result.portable ??
+        written.find((file) => file.endsWith('.asar'));
+      if (primary) {
+        result.checksum = result.checksums[primary];
+      }
 
       installersAndPortables.push(result);
     }
@@ -743,6 +830,7 @@ export class ElectronDeployment extends BaseDeploymentTarget {
       zip?: string;
       size: number;
       checksum?: string;
+      checksums?: Record<string, string>;
     }>;
     assets: BuildArtifact[];
   }): Promise<ElectronBuildResult> {
@@ -783,6 +871,7 @@ export class ElectronDeployment extends BaseDeploymentTarget {
           .filter((p) => p.installer)
           .map((p) => p.installer!),
         ...buildData.packages.filter((p) => p.portable).map((p) => p.portable!),
+        ...buildData.packages.filter((p) => p.zip).map((p) => p.zip!),
       ],
       errors: this.getDiagnostics().filter(
         (d) => d.severity === 'error'
@@ -1492,15 +1581,85 @@ html, body {
     };
   }
 
-  private async applyAsarPackaging(files: BuildArtifact[]): Promise<void> {
-    /* would package files into ASAR archive */
+  /*
+
+           applyAsarPackaging()
+             ---
+           archives the app's files, with paths relative to the
+           output directory, in the ASAR archive Electron loads
+           the app from.
+
+  */
+
+  private async applyAsarPackaging(
+    files: BuildArtifact[]
+  ): Promise<BuildArtifact> {
     console.log('Applying ASAR packaging...');
+
+    const entries = this.getAppEntries(files);
+    const data = createAsarArchive(entries);
+
+    return {
+      id: 'app-asar',
+      type: 'asset',
+      path: `${this.options.outputDirectory}/resources/app.asar`,
+      size: data.length,
+      data,
+      metadata: {
+        isAsarArchive: true,
+        files: entries.map((entry) => entry.path),
+      },
+    };
+  }
+
+  /*
+
+           getAppEntries()
+             ---
+           the files of the app as archive entries. a file the
+           build does not hold the bytes of is left out, with a
+           warning.
+
+  */
+
+  private getAppEntries(files: BuildArtifact[]): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+
+    for (const file of files) {
+      const data = file.data ?? file.content;
+
+      if (file.metadata?.isAsarArchive) {
+        continue;
+      }
+
+      if (data === undefined) {
+        this.addWarning(
+          `${file.path} was not packaged: its content is not available`,
+          BuildStage.PACKAGING
+        );
+        continue;
+      }
+
+      const relative = path.posix.relative(
+        this.options.outputDirectory,
+        file.path
+      );
+      entries.push({
+        path: relative.startsWith('..')
+          ? this.getFileName(file.path)
+          : relative,
+        data,
+      });
+    }
+
+    return entries;
   }
 
-  private async calculatePackageSize(files: BuildArtifact[]): Promise<number> {
-    return (
-      files.reduce((sum, file) => sum + file.size, 0) + 100 * 1024 * 1024
-    ); /* base Electron size */
+  private calculatePackageSize(entries: ArchiveEntry[]): number {
+    return entries.reduce(
+      (sum, entry) => sum + Buffer.byteLength(entry.data),
+      0
+    );
   }
 
   private async signPackage(pkg: any): Promise<boolean> {
@@ -1514,19 +1673,94 @@ html, body {
     return `${pkg.path}/${this.electronOptions.appInfo.name}-setup.${this.getInstallerExtension(pkg.platform)}`;
   }
 
-  private async createPortable(pkg: any): Promise<string> {
-    /* would create portable version */
-    return `${pkg.path}/${this.electronOptions.appInfo.name}-portable.zip`;
+  /*
+
+           createPortable()
+             ---
+           archives the package to run without installing: a
+           zip on Windows, a gzipped tar elsewhere, which keeps
+           the executable bits.
+
+  */
+
+  private async createPortable(pkg: {
+    platform: string;
+    architecture: string;
+    path: string;
+    entries: ArchiveEntry[];
+  }): Promise<string> {
+    const base = `${this.options.outputDirectory}/packages/${this.electronOptions.appInfo.name}-${pkg.platform}-${pkg.architecture}-portable`;
+    const level = this.getArchiveLevel();
+
+    if (pkg.platform === 'win32') {
+      const portablePath = `${base}.zip`;
+      await this.writeOutputFile(
+        portablePath,
+        createZipArchive(pkg.entries, { level })
+      );
+      return portablePath;
+    }
+
+    const portablePath = `${base}.tar.gz`;
+    await this.writeOutputFile(
+      portablePath,
+      createTarGzArchive(pkg.entries, { level })
+    );
+    return portablePath;
   }
 
-  private async createZip(pkg: any): Promise<string> {
-    /* would create zip archive */
-    return `${pkg.path}/${this.electronOptions.appInfo.name}-${pkg.platform}-${pkg.architecture}.zip`;
+  /*
+
+           createZip()
+             ---
+           zips the package for distribution.
+
+  */
+
+  private async createZip(pkg: {
+    platform: string;
+    architecture: string;
+    path: string;
+    entries: ArchiveEntry[];
+  }): Promise<string> {
+    const zipPath = `${this.options.outputDirectory}/packages/${this.electronOptions.appInfo.name}-${pkg.platform}-${pkg.architecture}.zip`;
+
+    await this.writeOutputFile(
+      zipPath,
+      createZipArchive(pkg.entries, { level: this.getArchiveLevel() })
+    );
+    return zipPath;
   }
 
   private async calculateChecksum(filePath: string): Promise<string> {
-    /* would calculate actual checksum */
-    return 'sha256-checksum-placeholder';
+    return sha256(await fs.promises.readFile(filePath));
+  }
+
+  private getArchiveLevel(): number {
+    switch (this.electronOptions.packaging?.compression) {
+      case 'store':
+        return 0;
+      case 'maximum':
+        return 9;
+      default:
+        return 6;
+    }
+  }
+
+  private async writeOutputFile(
+    filePath: string,
+    data: Buffer | string
+  ): Promise<void> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  private async readSourceFile(filePath: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(filePath);
+    } catch {
+      return null;
+    }
   }
 
   private getInstallerExtension(platform: string): string {
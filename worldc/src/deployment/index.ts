@@ -62,6 +62,67 @@ export type {
   PerformanceMetrics,
 } from './optimization-engine';
 
+/* export minifiers and tree shaking */
+export {
+  MinifyError,
+  minifyJavaScript,
+  eliminateDeadCode,
+  minifyCSS,
+  selectCriticalCSS,
+  minifyHTML,
+} from './minifier';
+export type { MinifyOptions } from './minifier';
+export { shakeModules, findImporters } from './tree-shaker';
+export type { ModuleSource, ShakenModule, ShakeOptions } from './tree-shaker';
+
+/* export precompression */
+export { compressArtifacts, isCompressible } from './compression';
+export type { CompressionOptions } from './compression';
+
+/* export release archives and checksums */
+export {
+  ArchiveError,
+  createZipArchive,
+  readZipArchive,
+  createTarGzArchive,
+  readTarGzArchive,
+  createAsarArchive,
+  readAsarArchive,
+  sha256,
+} from './archive';
+export type { ArchiveEntry, ArchiveOptions } from './archive';
+
+/* export build manifests */
+export {
+  BUILD_MANIFEST_FILE,
+  BuildManifestError,
+  contentHashedPath,
+  createBuildManifest,
+  readBuildManifest,
+  diffBuildManifests,
+} from './build-manifest';
+export type {
+  BuildManifest,
+  BuildManifestEntry,
+  BuildManifestChange,
+  BuildManifestDiff,
+} from './build-manifest';
+
+/* export size budgets */
+export {
+  resolveBudget,
+  getBudgetCategory,
+  checkBudgets,
+  formatBudgetViolation,
+} from './size-budget';
+export type {
+  BudgetCategory,
+  SizeBudget,
+  BuildBudgets,
+  BudgetFile,
+  BudgetViolation,
+} from './size-budget';
+
 /* export distribution management */
 export {
   DistributionManager,
@@ -71,6 +132,7 @@ export type {
   DistributionConfiguration,
   DistributionResult,
   ReleasePackage,
+  ReleaseVerification,
 } from './distribution-manager';
 
 /*
@@ -659,9 +721,6 @@ export class WorldCDeploymentManager {
             target: 'web',
             files: webResult.files,
             size: webResult.size.total,
-            checksum: options.checksums
-              ? 'web-checksum-placeholder'
-              : undefined,
           });
         } else {
           errors.push(...webResult.errors);
@@ -693,9 +752,6 @@ export class WorldCDeploymentManager {
             target: 'pwa',
             files: pwaResult.files,
             size: pwaResult.size.total,
-            checksum: options.checksums
-              ? 'pwa-checksum-placeholder'
-              : undefined,
           });
         } else {
           errors.push(...pwaResult.errors);
@@ -731,9 +787,6 @@ export class WorldCDeploymentManager {
               architecture: pkg.architecture,
               files: pkg.files,
               size: pkg.size,
-              checksum: options.checksums
-                ? `${pkg.platform}-${pkg.architecture}-checksum-placeholder`
-                : undefined,
             });
           }
         } else {
@@ -750,7 +803,9 @@ export class WorldCDeploymentManager {
         releaseNotes: options.releaseNotes,
         buildNumber: this.buildNumber,
         buildTimestamp: new Date().toISOString(),
+        checksums: options.checksums,
       });
+      warnings.push(...releaseManifest.warnings);
 
       const totalSize = packages.reduce((sum, pkg) => sum + pkg.size, 0);
 
@@ -0,0 +1,889 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         minifier.ts
+           ---
+           minifiers for the text artifacts of a build: JavaScript,
+           CSS and HTML.
+
+           JavaScript is read with the TypeScript parser, so every
+           token is one the language defines, and minified source
+           runs as the original did: a line break is kept wherever
+           removing it could change where a statement ends.
+
+           CSS and HTML are scanned rather than parsed. strings,
+           attribute values and the contents of elements that
+           keep their whitespace are copied as written.
+
+*/
+
+import * as ts from 'typescript';
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+/*
+
+         MinifyOptions
+           ---
+           options shared by the minifiers. the file name tells
+           JavaScript from TypeScript.
+
+*/
+
+export interface MinifyOptions {
+  fileName?: string;
+  preserveComments?: boolean;
+}
+
+/*
+
+         MinifyError
+           ---
+           thrown when a document does not parse. only valid
+           documents are minified.
+
+*/
+
+export class MinifyError extends Error {
+  constructor(
+    message: string,
+    public file: string,
+    public line: number,
+    public column: number
+  ) {
+    super(message);
+    this.name = 'MinifyError';
+  }
+}
+
+/*
+    ====================================
+             --- JAVASCRIPT ---
+    ====================================
+*/
+
+/*
+
+         parseScript()
+           ---
+           parses a JavaScript or TypeScript document, throwing
+           a MinifyError at its first syntax error.
+
+*/
+
+export function parseScript(
+  code: string,
+  fileName: string = 'bundle.js'
+): ts.SourceFile {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    /\.[cm]?tsx?$/i.test(fileName) ? ts.ScriptKind.TS : ts.ScriptKind.JS
+  );
+
+  /* the compiler API keeps syntax errors on the source file */
+  const [error] = (
+    sourceFile as ts.SourceFile & { parseDiagnostics: ts.Diagnostic[] }
+  ).parseDiagnostics;
+
+  if (error) {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      error.start || 0
+    );
+    throw new MinifyError(
+      ts.flattenDiagnosticMessageText(error.messageText, '\n'),
+      fileName,
+      line + 1,
+      character + 1
+    );
+  }
+
+  return sourceFile;
+}
+
+/*
+
+         minifyJavaScript()
+           ---
+           removes the whitespace and comments between tokens.
+           a line break between two tokens stays when the first
+           may end a statement and the second may start one, so
+           automatic semicolon insertion finds the same
+           statements in the minified source.
+
+*/
+
+export function minifyJavaScript(
+  code: string,
+  options: MinifyOptions = {}
+): string {
+  const sourceFile = parseScript(code, options.fileName);
+  let output = '';
+  let previous: ts.Node | null = null;
+
+  for (const token of tokensOf(sourceFile)) {
+    const text = token.getText(sourceFile);
+    const start = token.getStart(sourceFile);
+    const gap = code.slice(previous ? previous.end : 0, start);
+
+    if (options.preserveComments) {
+      for (const comment of commentsIn(code, previous ? previous.end : 0)) {
+        output += output && !output.endsWith('\n') ? ' ' : '';
+        output += code.slice(comment.pos, comment.end);
+        if (comment.kind === ts.SyntaxKind.SingleLineCommentTrivia) {
+          output += '\n';
+        }
+      }
+    }
+
+    if (previous && !output.endsWith('\n')) {
+      if (/[\n\r\u2028\u2029]/.test(gap) && !canJoinLines(previous, token)) {
+        output += '\n';
+      } else if (needsSpace(previous, previous.getText(sourceFile), text)) {
+        output += ' ';
+      }
+    }
+
+    output += text;
+    previous = token;
+  }
+
+  return output;
+}
+
+/*
+
+         eliminateDeadCode()
+           ---
+           removes code that cannot run: the branches of
+           conditions whose value is a constant, loops whose
+           condition is false and the statements after a return,
+           throw, break or continue. declarations that are
+           hoisted out of the removed code are kept.
+
+*/
+
+export function eliminateDeadCode(
+  code: string,
+  options: MinifyOptions = {}
+): string {
+  const sourceFile = parseScript(code, options.fileName);
+
+  const transformer: ts.TransformerFactory<ts.SourceFile> = (context) => {
+    const { factory } = context;
+
+    const visit = (node: ts.Node): ts.Node => {
+      node = ts.visitEachChild(node, visit, context);
+
+      if (ts.isIfStatement(node)) {
+        return pruneIf(node, factory);
+      }
+
+      /* a loop that never runs; a for loop's initializer still does */
+      const condition = ts.isWhileStatement(node)
+        ? node.expression
+        : ts.isForStatement(node) && !node.initializer
+          ? node.condition
+          : undefined;
+      if (
+        condition &&
+        constantTruth(condition) === false &&
+        !hoistsDeclarations(node)
+      ) {
+        return factory.createBlock([]);
+      }
+
+      if (ts.isConditionalExpression(node)) {
+        const value = constantTruth(node.condition);
+        if (value !== null) {
+          return factory.createParenthesizedExpression(
+            value ? node.whenTrue : node.whenFalse
+          );
+        }
+      }
+
+      if (ts.isBlock(node)) {
+        return factory.updateBlock(node, pruneStatements(node.statements));
+      }
+      if (ts.isCaseClause(node)) {
+        return factory.updateCaseClause(
+          node,
+          node.expression,
+          pruneStatements(node.statements)
+        );
+      }
+      if (ts.isDefaultClause(node)) {
+        return factory.updateDefaultClause(
+          node,
+          pruneStatements(node.statements)
+        );
+      }
+      if (ts.isSourceFile(node)) {
+        return factory.updateSourceFile(node, pruneStatements(node.statements));
+      }
+
+      return node;
+    };
+
+    return (file) => visit(file) as ts.SourceFile;
+  };
+
+  const result = ts.transform(sourceFile, [transformer]);
+  const printed = ts
+    .createPrinter({ removeComments: !options.preserveComments })
+    .printFile(result.transformed[0]);
+  result.dispose();
+
+  return printed;
+}
+
+/* the tokens of a document in order, without its trivia */
+function tokensOf(sourceFile: ts.SourceFile): ts.Node[] {
+  const tokens: ts.Node[] = [];
+
+  const walk = (node: ts.Node) => {
+    /* documentation comments are trivia the parser attaches */
+    if (
+      node.kind >= ts.SyntaxKind.FirstJSDocNode &&
+      node.kind <= ts.SyntaxKind.LastJSDocNode
+    ) {
+      return;
+    }
+
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0) {
+      children.forEach(walk);
+    } else if (node.end > node.getStart(sourceFile)) {
+      tokens.push(node);
+    }
+  };
+
+  walk(sourceFile);
+  return tokens;
+}
+
+/* the comments between a position and the next token */
+function commentsIn(code: string, position: number): ts.CommentRange[] {
+  const comments = [
+    ...(ts.getTrailingCommentRanges(code, position) || []),
+    ...(ts.getLeadingCommentRanges(code, position) || []),
+  ];
+
+  return comments.filter(
+    (comment, i) =>
+      comments.findIndex((other) => other.pos === comment.pos) === i
+  );
+}
+
+/* punctuation after which no statement can end */
+function isOpenPunctuation(kind: ts.SyntaxKind): boolean {
+  return (
+    kind >= ts.SyntaxKind.FirstPunctuation &&
+    kind <= ts.SyntaxKind.LastPunctuation &&
+    kind !== ts.SyntaxKind.CloseBraceToken &&
+    kind !== ts.SyntaxKind.CloseParenToken &&
+    kind !== ts.SyntaxKind.CloseBracketToken &&
+    kind !== ts.SyntaxKind.PlusPlusToken &&
+    kind !== ts.SyntaxKind.MinusMinusToken
+  );
+}
+
+/* punctuation that cannot start a statement */
+const CONTINUING = new Set([
+  ts.SyntaxKind.SemicolonToken,
+  ts.SyntaxKind.CommaToken,
+  ts.SyntaxKind.CloseBraceToken,
+  ts.SyntaxKind.CloseParenToken,
+  ts.SyntaxKind.CloseBracketToken,
+  ts.SyntaxKind.DotToken,
+  ts.SyntaxKind.QuestionDotToken,
+  ts.SyntaxKind.QuestionToken,
+  ts.SyntaxKind.ColonToken,
+  ts.SyntaxKind.EqualsToken,
+  ts.SyntaxKind.EqualsGreaterThanToken,
+]);
+
+function canJoinLines(previous: ts.Node, next: ts.Node): boolean {
+  return (
+    isOpenPunctuation(previous.kind) ||
+    CONTINUING.has(next.kind) ||
+    closesStatement(previous)
+  );
+}
+
+/* a '}' after which a statement always ends */
+function closesStatement(token: ts.Node): boolean {
+  const parent = token.parent;
+
+  if (token.kind !== ts.SyntaxKind.CloseBraceToken || !parent) {
+    return false;
+  }
+
+  /* the body of a function expression may be followed by a call */
+  if (ts.isBlock(parent)) {
+    const owner = parent.parent;
+    return !(
+      ts.isFunctionExpression(owner) ||
+      ts.isArrowFunction(owner) ||
+      ts.isObjectLiteralExpression(owner.parent)
+    );
+  }
+
+  return (
+    ts.isClassDeclaration(parent) ||
+    ts.isEnumDeclaration(parent) ||
+    ts.isInterfaceDeclaration(parent) ||
+    ts.isModuleBlock(parent) ||
+    ts.isCaseBlock(parent)
+  );
+}
+
+function needsSpace(
+  previous: ts.Node,
+  previousText: string,
+  text: string
+): boolean {
+  const last = previousText[previousText.length - 1];
+  const first = text[0];
+  const isWord = (char: string) => /[\w$\\\u0080-\uffff]/.test(char);
+
+  if (isWord(last) && isWord(first)) {
+    return true;
+  }
+
+  /* regular expression flags and member access on integers */
+  if (
+    previous.kind === ts.SyntaxKind.RegularExpressionLiteral &&
+    isWord(first)
+  ) {
+    return true;
+  }
+  if (
+    previous.kind === ts.SyntaxKind.NumericLiteral &&
+    /^\d+$/.test(previousText) &&
+    first === '.'
+  ) {
+    return true;
+  }
+
+  /* operators that would read as one: '+ +', '- -', '/ /' and '<!--' */
+  return (
+    (last === '+' && first === '+') ||
+    (last === '-' && (first === '-' || first === '>')) ||
+    (last === '/' && (first === '/' || first === '*')) ||
+    (last === '<' && first === '!')
+  );
+}
+
+/* the truth of an expression whose value is known, or null */
+function constantTruth(expression: ts.Expression): boolean | null {
+  while (ts.isParenthesizedExpression(expression)) {
+    expression = expression.expression;
+  }
+
+  switch (expression.kind) {
+    case ts.SyntaxKind.TrueKeyword:
+      return true;
+    case ts.SyntaxKind.FalseKeyword:
+    case ts.SyntaxKind.NullKeyword:
+      return false;
+    case ts.SyntaxKind.NumericLiteral:
+      return Number((expression as ts.NumericLiteral).text) !== 0;
+    case ts.SyntaxKind.StringLiteral:
+    case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+      return (expression as ts.StringLiteral).text.length > 0;
+  }
+
+  if (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator === ts.SyntaxKind.ExclamationToken
+  ) {
+    const value = constantTruth(expression.operand);
+    return value === null ? null : !value;
+  }
+
+  return null;
+}
+
+/* a 'var' or function declared in code, outside nested functions */
+function hoistsDeclarations(node: ts.Node): boolean {
+  if (
+    ts.isVariableDeclarationList(node) &&
+    !(node.flags & ts.NodeFlags.BlockScoped)
+  ) {
+    return true;
+  }
+  if (ts.isFunctionDeclaration(node)) {
+    return true;
+  }
+  if (ts.isFunctionLike(node) || ts.isClassLike(node)) {
+    return false;
+  }
+  return !!ts.forEachChild(
+    node,
+    (child) => hoistsDeclarations(child) || undefined
+  );
+}
+
+function pruneIf(node: ts.IfStatement, factory: ts.NodeFactory): ts.Statement {
+  const value = constantTruth(node.expression);
+  const removed = value ? node.elseStatement : node.thenStatement;
+
+  if (value === null || (removed && hoistsDeclarations(removed))) {
+    /* an empty else says nothing */
+    if (
+      node.elseStatement &&
+      ts.isBlock(node.elseStatement) &&
+      node.elseStatement.statements.length === 0
+    ) {
+      return factory.updateIfStatement(
+        node,
+        node.expression,
+        node.thenStatement,
+        undefined
+      );
+    }
+    return node;
+  }
+
+  const kept = value ? node.thenStatement : node.elseStatement;
+
+  /* a statement that is not a block may declare a name of its own */
+  if (!kept) {
+    return factory.createBlock([]);
+  }
+  return ts.isBlock(kept) ? kept : factory.createBlock([kept]);
+}
+
+function pruneStatements(
+  statements: ts.NodeArray<ts.Statement>
+): ts.Statement[] {
+  const kept: ts.Statement[] = [];
+  let reachable = true;
+
+  for (const statement of statements) {
+    if (!reachable) {
+      /* hoisted declarations are visible before the jump */
+      if (hoistsDeclarations(statement)) {
+        kept.push(statement);
+      }
+      continue;
+    }
+
+    /* empty statements and blocks, such as pruning leaves */
+    if (
+      ts.isEmptyStatement(statement) ||
+      (ts.isBlock(statement) && statement.statements.length === 0)
+    ) {
+      continue;
+    }
+
+    kept.push(statement);
+
+    if (
+      ts.isReturnStatement(statement) ||
+      ts.isThrowStatement(statement) ||
+      ts.isBreakStatement(statement) ||
+      ts.isContinueStatement(statement)
+    ) {
+      reachable = false;
+    }
+  }
+
+  return kept;
+}
+
+/*
+    ====================================
+               --- CSS ---
+    ====================================
+*/
+
+/*
+
+         minifyCSS()
+           ---
+           removes comments, the whitespace around braces,
+           semicolons, commas and combinators, the last
+           semicolon of each block and rules with no
+           declarations. strings are copied as written.
+
+*/
+
+export function minifyCSS(css: string, options: MinifyOptions = {}): string {
+  let output = '';
+  let space = false;
+  let i = 0;
+
+  const write = (text: string) => {
+    if (
+      space &&
+      output &&
+      !/[{};,>~:(]$/.test(output) &&
+      !/^[{};,>~)]/.test(text)
+    ) {
+      output += ' ';
+    }
+    space = false;
+    output += text;
+  };
+
+  while (i < css.length) {
+    const char = css[i];
+
+    if (char === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      const comment = css.slice(i, end < 0 ? css.length : end + 2);
+      if (options.preserveComments || comment.startsWith('/*!')) {
+        write(comment);
+      }
+      space = true;
+      i += comment.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let end = i + 1;
+      while (end < css.length && css[end] !== char && css[end] !== '\n') {
+        end += css[end] === '\\' ? 2 : 1;
+      }
+      write(css.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      space = true;
+      i++;
+      continue;
+    }
+
+    if (char === '}') {
+      /* the last declaration of a block needs no semicolon */
+      if (output.endsWith(';')) {
+        output = output.slice(0, -1);
+      }
+
+      /* a rule with no declarations is dropped; at-rules are kept */
+      if (output.endsWith('{')) {
+        const open = output.length - 1;
+        const start =
+          Math.max(
+            output.lastIndexOf('{', open - 1),
+            output.lastIndexOf('}', open - 1),
+            output.lastIndexOf(';', open - 1)
+          ) + 1;
+
+        if (!output.slice(start, open).includes('@')) {
+          output = output.slice(0, start);
+          space = false;
+          i++;
+          continue;
+        }
+      }
+    }
+
+    write(char);
+    i++;
+  }
+
+  return output;
+}
+
+/*
+
+         selectCriticalCSS()
+           ---
+           the rules of a stylesheet that apply to a page as it
+           first renders: rules with a selector naming only
+           elements, classes and ids the markup contains.
+           at-rules are left to the full stylesheet.
+
+*/
+
+export function selectCriticalCSS(css: string, html: string): string {
+  const names = new Set<string>(['*']);
+
+  for (const match of html.matchAll(/<([a-zA-Z][\w-]*)([^>]*)>/g)) {
+    names.add(match[1].toLowerCase());
+
+    const id = /\bid\s*=\s*["']?([^"'\s>]+)/i.exec(match[2]);
+    if (id) {
+      names.add(`#${id[1]}`);
+    }
+
+    const classes = /\bclass\s*=\s*["']([^"']*)["']/i.exec(match[2]);
+    for (const name of classes ? classes[1].split(/\s+/) : []) {
+      if (name) {
+        names.add(`.${name}`);
+      }
+    }
+  }
+
+  /* pseudo-classes and attributes do not decide a first render */
+  const applies = (selector: string) =>
+    selector
+      .replace(/::?[\w-]+(\([^)]*\))?/g, '')
+      .replace(/\[[^\]]*\]/g, '')
+      .split(/[\s>+~]+/)
+      .every((compound) =>
+        (compound.match(/[#.]?[\w-]+|\*/g) || []).every((simple) =>
+          names.has(/^[#.]/.test(simple) ? simple : simple.toLowerCase())
+        )
+      );
+
+  return topLevelRules(minifyCSS(css))
+    .filter(
+      (rule) =>
+        !rule.selector.startsWith('@') && rule.selector.split(',').some(applies)
+    )
+    .map((rule) => `${rule.selector}{${rule.body}}`)
+    .join('');
+}
+
+/* the rules of a minified stylesheet that are not inside another */
+function topLevelRules(css: string): { selector: string; body: string }[] {
+  const rules: { selector: string; body: string }[] = [];
+  let depth = 0;
+  let start = 0;
+  let open = 0;
+
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i];
+
+    if (char === '"' || char === "'") {
+      const end = css.indexOf(char, i + 1);
+      i = end < 0 ? css.length : end;
+    } else if (char === '{') {
+      if (depth++ === 0) {
+        open = i;
+      }
+    } else if (char === '}' && depth > 0 && --depth === 0) {
+      rules.push({
+        selector: css.slice(start, open),
+        body: css.slice(open + 1, i),
+      });
+      start = i + 1;
+    } else if (char === ';' && depth === 0) {
+      start = i + 1;
+    }
+  }
+
+  return rules;
+}
+
+/*
+    ====================================
+               --- HTML ---
+    ====================================
+*/
+
+/* elements whose whitespace is content */
+const PRESERVED = new Set(['pre', 'textarea']);
+
+/* elements beside which whitespace never renders */
+const BLOCKS = new Set([
+  '!doctype',
+  'html',
+  'head',
+  'body',
+  'title',
+  'meta',
+  'link',
+  'script',
+  'style',
+  'base',
+  'noscript',
+  'div',
+  'p',
+  'ul',
+  'ol',
+  'li',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'nav',
+  'main',
+  'aside',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'table',
+  'thead',
+  'tbody',
+  'tr',
+  'td',
+  'th',
+  'form',
+]);
+
+interface HTMLPart {
+  text: string;
+  tag: string | null /* the element a tag opens or closes */;
+  isText: boolean /* text whose whitespace may be collapsed */;
+}
+
+/*
+
+         minifyHTML()
+           ---
+           removes comments and the whitespace beside block
+           elements, and collapses the rest of the whitespace in
+           text and tags to single spaces. scripts and styles
+           are minified in place; pre and textarea elements are
+           copied as written.
+
+*/
+
+export function minifyHTML(html: string, options: MinifyOptions = {}): string {
+  const lower = html.toLowerCase();
+  const parts: HTMLPart[] = [];
+  let i = 0;
+
+  while (i < html.length) {
+    if (html.startsWith('<!--', i)) {
+      const end = html.indexOf('-->', i + 4);
+      const comment = html.slice(i, end < 0 ? html.length : end + 3);
+      if (options.preserveComments || comment.startsWith('<!--[if')) {
+        parts.push({ text: comment, tag: null, isText: false });
+      }
+      i += comment.length;
+      continue;
+    }
+
+    if (html[i] === '<' && /[a-zA-Z!/]/.test(html[i + 1] || '')) {
+      const end = tagEnd(html, i);
+      const tag = html.slice(i, end);
+      const name = /^<\/?([!\w-]*)/.exec(tag)![1].toLowerCase();
+      parts.push({ text: collapseTag(tag), tag: name, isText: false });
+      i = end;
+
+      /* raw text elements end only at their closing tag */
+      if (
+        !tag.startsWith('</') &&
+        (name === 'script' || name === 'style' || PRESERVED.has(name))
+      ) {
+        const close = lower.indexOf(`</${name}`, i);
+        const content = html.slice(i, close < 0 ? html.length : close);
+        parts.push({
+          text: minifyRawText(name, tag, content, options),
+          tag: null,
+          isText: false,
+        });
+        i += content.length;
+      }
+      continue;
+    }
+
+    const next = html.indexOf('<', i + 1);
+    const text = html.slice(i, next < 0 ? html.length : next);
+    parts.push({ text: text.replace(/\s+/g, ' '), tag: null, isText: true });
+    i += text.length;
+  }
+
+  /* whitespace beside a block element or the document's ends does not render */
+  const isBlock = (part: HTMLPart | undefined) =>
+    !part || (part.tag !== null && BLOCKS.has(part.tag));
+
+  return parts
+    .map((part, index) => {
+      let text = part.text;
+      if (part.isText) {
+        if (isBlock(parts[index - 1])) {
+          text = text.trimStart();
+        }
+        if (isBlock(parts[index + 1])) {
+          text = text.trimEnd();
+        }
+      }
+      return text;
+    })
+    .join('');
+}
+
+/* the offset after the '>' ending the tag that starts at an offset */
+function tagEnd(html: string, start: number): number {
+  let quote: string | null = null;
+
+  for (let i = start + 1; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i + 1;
+    }
+  }
+
+  return html.length;
+}
+
+/* collapses the whitespace between attributes, outside quotes */
+function collapseTag(tag: string): string {
+  return tag
+    .split(/("[^"]*"|'[^']*')/)
+    .map((part, i) =>
+      i % 2 === 1
+        ? part
+        : part
+            .replace(/\s+/g, ' ')
+            .replace(/\s*=\s*/g, '=')
+            .replace(/\s+(\/?>)$/, '$1')
+    )
+    .join('');
+}
+
+/* the content of a script, style, pre or textarea element */
+function minifyRawText(
+  name: string,
+  tag: string,
+  content: string,
+  options: MinifyOptions
+): string {
+  if (PRESERVED.has(name)) {
+    return content;
+  }
+
+  try {
+    if (name === 'style') {
+      return minifyCSS(content, options);
+    }
+
+    /* only classic and module scripts are JavaScript */
+    const type = /\btype\s*=\s*["']?([^"'\s>]+)/i.exec(tag);
+    if (!type || /^(module|(text|application)\/javascript)$/i.test(type[1])) {
+      return minifyJavaScript(content, options);
+    }
+  } catch (error) {
+    /* a script that does not parse is left as written */
+    if (!(error instanceof MinifyError)) {
+      throw error;
+    }
+  }
+
+  return content;
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
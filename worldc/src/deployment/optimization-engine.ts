@@ -15,13 +15,31 @@
            and platform-specific optimizations for web,
            desktop, and mobile deployment targets.
 
+           optimizations rewrite the content of the artifacts
+           they apply to, and sizes are measured from the
+           content they leave. an artifact without content is
+           passed through as it is.
+
 */
 
+import { createHash } from 'crypto';
+import * as ts from 'typescript';
+
 import {
   BuildArtifact,
   OptimizationProfile,
   PlatformTarget,
 } from './base-deployment';
+import {
+  eliminateDeadCode,
+  minifyCSS,
+  minifyHTML,
+  minifyJavaScript,
+  MinifyError,
+  parseScript,
+  selectCriticalCSS,
+} from './minifier';
+import { findImporters, shakeModules, ShakenModule } from './tree-shaker';
 
 /*
     ====================================
@@ -153,14 +171,17 @@ export class OptimizationEngine {
     }> = [];
     const warnings: string[] = [];
 
-    let totalSizeBefore = 0;
+    const totalSizeBefore = artifacts.reduce((sum, a) => sum + a.size, 0);
     let totalSizeAfter = 0;
 
-    /* optimize each artifact */
-    for (const artifact of artifacts) {
-      totalSizeBefore += artifact.size;
+    /* unused exports go before each module is minified */
+    const shakenArtifacts = config.treeshaking
+      ? this.shakeArtifacts(artifacts, config, optimizationLog, warnings)
+      : artifacts;
 
-      const optimized = await this.optimizeArtifact(artifact, config);
+    /* optimize each artifact */
+    for (const artifact of shakenArtifacts) {
+      const optimized = await this.optimizeArtifact(artifact, config, warnings);
       optimizedArtifacts.push(optimized);
 
       totalSizeAfter += optimized.size;
@@ -194,20 +215,16 @@ export class OptimizationEngine {
       warnings.push(...splitResult.warnings);
     }
 
-    if (config.minifyHTML) {
-      await this.minifyHTMLFiles(optimizedArtifacts);
-    }
-
     /* critical CSS extraction for web */
-    const criticalCSSResult = await this.extractCriticalCSS(optimizedArtifacts);
+    const criticalCSSResult = await this.extractCriticalCSS(
+      optimizedArtifacts,
+      config
+    );
     if (criticalCSSResult.extracted) {
       optimizedArtifacts.push(criticalCSSResult.artifact);
       warnings.push('Critical CSS extracted for faster loading');
     }
 
-    /* service worker optimization */
-    await this.optimizeServiceWorker(optimizedArtifacts);
-
     const processingTime = Date.now() - startTime;
     const metrics = this.calculateMetrics(
       totalSizeBefore,
@@ -256,16 +273,19 @@ export class OptimizationEngine {
     }> = [];
     const warnings: string[] = [];
 
-    let totalSizeBefore = 0;
+    const totalSizeBefore = artifacts.reduce((sum, a) => sum + a.size, 0);
     let totalSizeAfter = 0;
 
-    /* optimize each artifact for desktop */
-    for (const artifact of artifacts) {
-      totalSizeBefore += artifact.size;
+    const shakenArtifacts = this.config.treeshaking
+      ? this.shakeArtifacts(artifacts, this.config, optimizationLog, warnings)
+      : artifacts;
 
+    /* optimize each artifact for desktop */
+    for (const artifact of shakenArtifacts) {
       const optimized = await this.optimizeArtifactForDesktop(
         artifact,
-        desktopConfig
+        desktopConfig,
+        warnings
       );
       optimizedArtifacts.push(optimized);
 
@@ -356,17 +376,19 @@ export class OptimizationEngine {
     }> = [];
     const warnings: string[] = [];
 
-    let totalSizeBefore = 0;
+    const totalSizeBefore = artifacts.reduce((sum, a) => sum + a.size, 0);
     let totalSizeAfter = 0;
 
-    /* optimize each artifact for PWA */
-    for (const artifact of artifacts) {
-      totalSizeBefore += artifact.size;
+    const shakenArtifacts = this.config.treeshaking
+      ? this.shakeArtifacts(artifacts, this.config, optimizationLog, warnings)
+      : artifacts;
 
+    /* optimize each artifact for PWA */
+    for (const artifact of shakenArtifacts) {
       const optimized = await this.optimizeArtifactForPWA(
         artifact,
-        manifest,
-        strategy
+        strategy,
+        warnings
       );
       optimizedArtifacts.push(optimized);
 
@@ -408,9 +430,6 @@ export class OptimizationEngine {
       warnings.push('App shell created for faster PWA loading');
     }
 
-    /* icon and splash screen optimization */
-    await this.optimizePWAAssets(optimizedArtifacts, manifest);
-
     const processingTime = Date.now() - startTime;
     const metrics = this.calculateMetrics(
       totalSizeBefore,
@@ -443,19 +462,100 @@ export class OptimizationEngine {
            optimizeArtifact()
              ---
            applies general optimizations to a single artifact.
+           an artifact that does not parse is left as it is,
+           with a warning.
 
   */
 
   private async optimizeArtifact(
     artifact: BuildArtifact,
-    config: OptimizationConfiguration
+    config: OptimizationConfiguration,
+    warnings: string[]
   ): Promise<BuildArtifact> {
     const optimizer = this.optimizers.get(artifact.type);
     if (!optimizer) {
       return artifact;
     }
 
-    return await optimizer.optimize(artifact, config);
+    try {
+      return await optimizer.optimize(artifact, config);
+    } catch (error) {
+      if (!(error instanceof MinifyError)) {
+        throw error;
+      }
+      warnings.push(
+        `${artifact.path} was not optimized: ${error.message} (${error.line}:${error.column})`
+      );
+      return artifact;
+    }
+  }
+
+  /*
+
+           shakeArtifacts()
+             ---
+           removes the exports no other module imports from the
+           JavaScript artifacts, which are shaken together as one
+           module graph.
+
+  */
+
+  private shakeArtifacts(
+    artifacts: BuildArtifact[],
+    config: OptimizationConfiguration,
+    optimizationLog: OptimizationResult['optimizationLog'],
+    warnings: string[]
+  ): BuildArtifact[] {
+    const modules = artifacts.filter(
+      (a) => a.type === 'javascript' && a.content !== undefined
+    );
+    if (modules.length < 2) {
+      return artifacts;
+    }
+
+    let shaken: ShakenModule[];
+    try {
+      shaken = shakeModules(
+        modules.map((a) => ({ path: a.path, code: a.content! })),
+        { preserveComments: config.preserveComments }
+      );
+    } catch (error) {
+      if (!(error instanceof MinifyError)) {
+        throw error;
+      }
+      warnings.push(
+        `Tree shaking skipped: ${error.file} does not parse: ${error.message}`
+      );
+      return artifacts;
+    }
+
+    const byPath = new Map(shaken.map((module) => [module.path, module]));
+
+    return artifacts.map((artifact) => {
+      const module = byPath.get(artifact.path);
+      if (
+        artifact.content === undefined ||
+        !module ||
+        module.removedExports.length === 0
+      ) {
+        return artifact;
+      }
+
+      const optimized = withContent(artifact, module.code, {
+        treeShaken: true,
+        removedExports: module.removedExports,
+      });
+      optimizationLog.push({
+        artifact: artifact.id,
+        optimization: 'tree-shaking',
+        beforeSize: artifact.size,
+        afterSize: optimized.size,
+        improvement: Math.round(
+          ((artifact.size - optimized.size) / artifact.size) * 100
+        ),
+      });
+      return optimized;
+    });
   }
 
   /*
@@ -468,15 +568,15 @@ export class OptimizationEngine {
 
   private async optimizeArtifactForDesktop(
     artifact: BuildArtifact,
-    desktopConfig: { platform: string; architecture: string }
+    desktopConfig: { platform: string; architecture: string },
+    warnings: string[]
   ): Promise<BuildArtifact> {
     /* apply general optimizations first */
-    let optimized = await this.optimizeArtifact(artifact, this.config);
-
-    /* apply desktop-specific optimizations */
-    if (artifact.type === 'javascript') {
-      optimized = await this.optimizeJSForDesktop(optimized, desktopConfig);
-    }
+    let optimized = await this.optimizeArtifact(
+      artifact,
+      this.config,
+      warnings
+    );
 
     /* platform-specific optimizations */
     if (desktopConfig.platform === 'darwin') {
@@ -500,20 +600,14 @@ export class OptimizationEngine {
 
   private async optimizeArtifactForPWA(
     artifact: BuildArtifact,
-    manifest: any,
-    strategy: string
+    strategy: string,
+    warnings: string[]
   ): Promise<BuildArtifact> {
-    /* apply general optimizations first */
-    let optimized = await this.optimizeArtifact(artifact, this.config);
-
-    /* apply PWA-specific optimizations */
-    if (artifact.type === 'javascript') {
-      optimized = await this.optimizeJSForPWA(optimized, strategy);
-    } else if (artifact.type === 'css') {
-      optimized = await this.optimizeCSSForPWA(optimized);
-    } else if (artifact.type === 'asset') {
-      optimized = await this.optimizeAssetForPWA(optimized, manifest);
-    }
+    const optimized = await this.optimizeArtifact(
+      artifact,
+      this.config,
+      warnings
+    );
 
     /* mark as PWA-optimized */
     optimized.metadata = {
@@ -550,7 +644,10 @@ export class OptimizationEngine {
 
            applySplitBundles()
              ---
-           applies bundle splitting optimization.
+           sorts the JavaScript chunks of the build into main,
+           vendor and common bundles. vendor chunks come from
+           packages or are built as such, common chunks are imported by more than one
+           other chunk, and the rest are application code.
 
   */
 
@@ -559,93 +656,97 @@ export class OptimizationEngine {
     target: string
   ): Promise<{ artifacts: BuildArtifact[]; warnings: string[] }> {
     const jsArtifacts = artifacts.filter((a) => a.type === 'javascript');
-    const otherArtifacts = artifacts.filter((a) => a.type !== 'javascript');
     const warnings: string[] = [];
 
     if (jsArtifacts.length === 0) {
       return { artifacts, warnings };
     }
 
-    const totalJSSize = jsArtifacts.reduce((sum, a) => sum + a.size, 0);
-
-    /* create main bundle (application code) */
-    const mainBundle: BuildArtifact = {
-      id: 'main-bundle',
-      type: 'javascript',
-      path: 'dist/main.bundle.js',
-      size: Math.floor(totalJSSize * 0.6),
-      metadata: {
-        isMainBundle: true,
-        bundleType: 'main',
-        splitFromFiles: jsArtifacts.map((a) => a.path),
-      },
-    };
+    let importers = new Map<string, string[]>();
+    try {
+      importers = findImporters(
+        jsArtifacts
+          .filter((a) => a.content !== undefined)
+          .map((a) => ({ path: a.path, code: a.content! }))
+      );
+    } catch (error) {
+      if (!(error instanceof MinifyError)) {
+        throw error;
+      }
+    }
 
-    /* create vendor bundle (third-party libraries) */
-    const vendorBundle: BuildArtifact = {
-      id: 'vendor-bundle',
-      type: 'javascript',
-      path: 'dist/vendor.bundle.js',
-      size: Math.floor(totalJSSize * 0.3),
-      metadata: {
-        isVendorBundle: true,
-        bundleType: 'vendor',
-        libraries: ['three.js', 'pixi.js'],
-      },
-    };
+    const counts = { main: 0, vendor: 0, common: 0 };
+    const split = artifacts.map((artifact) => {
+      if (artifact.type !== 'javascript') {
+        return artifact;
+      }
 
-    /* create common bundle (shared code) */
-    const commonBundle: BuildArtifact = {
-      id: 'common-bundle',
-      type: 'javascript',
-      path: 'dist/common.bundle.js',
-      size: Math.floor(totalJSSize * 0.1),
-      metadata: {
-        isCommonBundle: true,
-        bundleType: 'common',
-      },
-    };
+      const bundleType =
+        artifact.metadata?.isVendorBundle ||
+        /(^|\/)(node_modules|vendor)\//.test(artifact.path)
+          ? 'vendor'
+          : (importers.get(artifact.path)?.length || 0) > 1
+            ? 'common'
+            : 'main';
+      counts[bundleType]++;
+
+      return {
+        ...artifact,
+        metadata: { ...artifact.metadata, bundleType },
+      };
+    });
 
     warnings.push(
-      `Bundle splitting applied: ${jsArtifacts.length} files → 3 bundles`
+      `Bundle splitting applied: ${counts.main} main, ${counts.vendor} vendor, ${counts.common} common chunks`
     );
 
-    return {
-      artifacts: [...otherArtifacts, mainBundle, vendorBundle, commonBundle],
-      warnings,
-    };
+    return { artifacts: split, warnings };
   }
 
   /*
 
            extractCriticalCSS()
              ---
-           extracts critical CSS for above-the-fold content.
+           extracts the rules of the stylesheets that the HTML
+           pages of the build use, so they can be inlined for
+           above-the-fold content.
 
   */
 
   private async extractCriticalCSS(
-    artifacts: BuildArtifact[]
+    artifacts: BuildArtifact[],
+    config: OptimizationConfiguration
   ): Promise<{ extracted: boolean; artifact?: BuildArtifact }> {
-    const cssArtifacts = artifacts.filter((a) => a.type === 'css');
+    const cssArtifacts = artifacts.filter(
+      (a) => a.type === 'css' && a.content !== undefined
+    );
+    const html = artifacts
+      .filter((a) => a.type === 'html' && a.content !== undefined)
+      .map((a) => a.content)
+      .join('\n');
 
-    if (cssArtifacts.length === 0) {
+    if (cssArtifacts.length === 0 || html === '') {
       return { extracted: false };
     }
 
-    /* simulate critical CSS extraction */
-    const criticalCSS = `
-/* Critical CSS for above-the-fold content */
-body { margin: 0; padding: 0; background: #1a1a1a; }
-#gameCanvas { display: block; margin: 0 auto; }
-.loading { display: flex; justify-content: center; align-items: center; height: 100vh; }
-`;
+    let criticalCSS = cssArtifacts
+      .map((a) => selectCriticalCSS(a.content!, html))
+      .filter((css) => css !== '')
+      .join('\n');
+
+    if (criticalCSS === '') {
+      return { extracted: false };
+    }
+    if (config.minifyCSS) {
+      criticalCSS = minifyCSS(criticalCSS);
+    }
 
     const criticalArtifact: BuildArtifact = {
       id: 'critical-css',
       type: 'css',
       path: 'dist/critical.css',
-      size: criticalCSS.length,
+      size: Buffer.byteLength(criticalCSS),
+      content: criticalCSS,
       metadata: {
         isCriticalCSS: true,
         extractedFrom: cssArtifacts.map((a) => a.path),
@@ -655,36 +756,13 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
     return { extracted: true, artifact: criticalArtifact };
   }
 
-  /*
-
-           optimizeServiceWorker()
-             ---
-           optimizes service worker for better performance.
-
-  */
-
-  private async optimizeServiceWorker(
-    artifacts: BuildArtifact[]
-  ): Promise<void> {
-    const swArtifact = artifacts.find((a) => a.metadata?.isServiceWorker);
-
-    if (swArtifact) {
-      /* optimize service worker code */
-      const originalSize = swArtifact.size;
-      swArtifact.size = Math.floor(originalSize * 0.8); /* 20% reduction */
-      swArtifact.metadata = {
-        ...swArtifact.metadata,
-        optimized: true,
-        optimizationGain: originalSize - swArtifact.size,
-      };
-    }
-  }
-
   /*
 
            createSingleBundle()
              ---
-           creates a single bundle for desktop applications.
+           creates a single bundle for desktop applications by
+           joining classic scripts in order. ES modules import
+           one another and are not joined.
 
   */
 
@@ -693,17 +771,37 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
   ): Promise<BuildArtifact | null> {
     const jsArtifacts = artifacts.filter((a) => a.type === 'javascript');
 
-    if (jsArtifacts.length <= 1) {
+    if (
+      jsArtifacts.length <= 1 ||
+      jsArtifacts.some((a) => a.content === undefined)
+    ) {
       return null;
     }
 
-    const totalSize = jsArtifacts.reduce((sum, a) => sum + a.size, 0);
+    try {
+      if (
+        jsArtifacts.some((a) =>
+          ts.isExternalModule(parseScript(a.content!, a.path))
+        )
+      ) {
+        return null;
+      }
+    } catch (error) {
+      if (error instanceof MinifyError) {
+        return null;
+      }
+      throw error;
+    }
+
+    /* a script may end without a semicolon */
+    const content = jsArtifacts.map((a) => a.content).join('\n;');
 
     return {
       id: 'desktop-single-bundle',
       type: 'javascript',
       path: 'dist/app.bundle.js',
-      size: Math.floor(totalSize * 0.85) /* 15% reduction from bundling */,
+      size: Buffer.byteLength(content),
+      content,
       metadata: {
         isSingleBundle: true,
         bundledFiles: jsArtifacts.map((a) => a.path),
@@ -716,7 +814,8 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
 
            optimizeNativeModules()
              ---
-           optimizes native modules for desktop platforms.
+           tags native modules with the desktop platform they
+           are packaged for.
 
   */
 
@@ -724,14 +823,10 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
     artifacts: BuildArtifact[],
     config: { platform: string; architecture: string }
   ): Promise<void> {
-    /* simulate native module optimization */
     for (const artifact of artifacts) {
       if (artifact.metadata?.hasNativeModules) {
-        const originalSize = artifact.size;
-        artifact.size = Math.floor(originalSize * 0.9); /* 10% reduction */
         artifact.metadata = {
           ...artifact.metadata,
-          nativeModulesOptimized: true,
           targetPlatform: config.platform,
           targetArchitecture: config.architecture,
         };
@@ -834,7 +929,7 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
     artifacts: BuildArtifact[]
   ): Promise<{ created: boolean; artifact?: BuildArtifact }> {
     /* create minimal app shell */
-    const appShellContent = `
+    let appShellContent = `
 <!DOCTYPE html>
 <html lang="en">
 <head>
@@ -854,11 +949,16 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
 </html>
 `;
 
+    if (this.config.minifyHTML) {
+      appShellContent = minifyHTML(appShellContent);
+    }
+
     const appShellArtifact: BuildArtifact = {
       id: 'app-shell',
       type: 'html',
       path: 'dist/shell.html',
-      size: appShellContent.length,
+      size: Buffer.byteLength(appShellContent),
+      content: appShellContent,
       metadata: {
         isAppShell: true,
         minimal: true,
@@ -868,64 +968,12 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
     return { created: true, artifact: appShellArtifact };
   }
 
-  /*
-
-           optimizePWAAssets()
-             ---
-           optimizes PWA-specific assets like icons and splash screens.
-
-  */
-
-  private async optimizePWAAssets(
-    artifacts: BuildArtifact[],
-    manifest: any
-  ): Promise<void> {
-    for (const artifact of artifacts) {
-      if (artifact.metadata?.isPWAIcon || artifact.metadata?.isPWASplash) {
-        /* optimize images for PWA */
-        const originalSize = artifact.size;
-        artifact.size = Math.floor(originalSize * 0.7); /* 30% reduction */
-        artifact.metadata = {
-          ...artifact.metadata,
-          optimizedForPWA: true,
-          compression: 'high',
-        };
-      }
-    }
-  }
-
   /*
     ====================================
          --- PLATFORM OPTIMIZATIONS ---
     ====================================
   */
 
-  private async optimizeJSForDesktop(
-    artifact: BuildArtifact,
-    config: { platform: string; architecture: string }
-  ): Promise<BuildArtifact> {
-    /* desktop-specific JS optimizations */
-    const originalSize = artifact.size;
-    let optimizedSize = originalSize;
-
-    /* remove web-specific polyfills */
-    optimizedSize = Math.floor(optimizedSize * 0.95);
-
-    /* optimize for V8 engine */
-    optimizedSize = Math.floor(optimizedSize * 0.9);
-
-    return {
-      ...artifact,
-      size: optimizedSize,
-      metadata: {
-        ...artifact.metadata,
-        desktopOptimized: true,
-        removedPolyfills: true,
-        v8Optimized: true,
-      },
-    };
-  }
-
   private async optimizeForMacOS(
     artifact: BuildArtifact
   ): Promise<BuildArtifact> {
@@ -965,71 +1013,6 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
     };
   }
 
-  private async optimizeJSForPWA(
-    artifact: BuildArtifact,
-    strategy: string
-  ): Promise<BuildArtifact> {
-    const originalSize = artifact.size;
-    let optimizedSize = originalSize;
-
-    /* PWA-specific optimizations */
-    optimizedSize = Math.floor(
-      optimizedSize * 0.85
-    ); /* more aggressive minification */
-
-    return {
-      ...artifact,
-      size: optimizedSize,
-      metadata: {
-        ...artifact.metadata,
-        pwaJSOptimized: true,
-        serviceWorkerReady: true,
-      },
-    };
-  }
-
-  private async optimizeCSSForPWA(
-    artifact: BuildArtifact
-  ): Promise<BuildArtifact> {
-    const originalSize = artifact.size;
-    const optimizedSize = Math.floor(originalSize * 0.8); /* 20% reduction */
-
-    return {
-      ...artifact,
-      size: optimizedSize,
-      metadata: {
-        ...artifact.metadata,
-        pwaCSSOptimized: true,
-        criticalPathOptimized: true,
-      },
-    };
-  }
-
-  private async optimizeAssetForPWA(
-    artifact: BuildArtifact,
-    manifest: any
-  ): Promise<BuildArtifact> {
-    /* optimize assets for PWA */
-    const originalSize = artifact.size;
-    let optimizedSize = originalSize;
-
-    if (artifact.path.includes('.png') || artifact.path.includes('.jpg')) {
-      optimizedSize = Math.floor(
-        originalSize * 0.6
-      ); /* aggressive image compression */
-    }
-
-    return {
-      ...artifact,
-      size: optimizedSize,
-      metadata: {
-        ...artifact.metadata,
-        pwaAssetOptimized: true,
-        webpGenerated: true,
-      },
-    };
-  }
-
   /*
     ====================================
          --- UTILITY METHODS ---
@@ -1051,13 +1034,15 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
 
     /* calculate bundle analysis */
     const jsBundles = artifacts.filter((a) => a.type === 'javascript');
-    const mainBundle = jsBundles.find((a) => a.metadata?.isMainBundle);
-    const vendorBundle = jsBundles.find((a) => a.metadata?.isVendorBundle);
+    const bundleSize = (bundleType: string) =>
+      jsBundles
+        .filter((a) => a.metadata?.bundleType === bundleType)
+        .reduce((sum, a) => sum + a.size, 0);
     const assetFiles = artifacts.filter((a) => a.type === 'asset');
 
     const bundleAnalysis = {
-      mainBundleSize: mainBundle?.size || 0,
-      vendorBundleSize: vendorBundle?.size || 0,
+      mainBundleSize: bundleSize('main'),
+      vendorBundleSize: bundleSize('vendor'),
       assetSize: assetFiles.reduce((sum, a) => sum + a.size, 0),
       chunkCount: jsBundles.length,
       duplicateCode: 0 /* would analyze for actual duplicates */,
@@ -1103,21 +1088,10 @@ body { margin: 0; padding: 0; background: #1a1a1a; }
 
   private generateETag(artifact: BuildArtifact): string {
     /* generate etag based on artifact content */
-    return `"${artifact.id}-${artifact.size}-${Date.now()}"`;
-  }
-
-  private async minifyHTMLFiles(artifacts: BuildArtifact[]): Promise<void> {
-    const htmlFiles = artifacts.filter((a) => a.type === 'html');
-
-    for (const html of htmlFiles) {
-      const originalSize = html.size;
-      html.size = Math.floor(originalSize * 0.85); /* 15% reduction */
-      html.metadata = {
-        ...html.metadata,
-        minified: true,
-        htmlMinified: true,
-      };
-    }
+    const hash = createHash('sha1')
+      .update(artifact.content ?? `${artifact.id}-${artifact.size}`)
+      .digest('hex');
+    return `"${hash.slice(0, 16)}"`;
   }
 }
 
@@ -1142,11 +1116,39 @@ abstract class ArtifactOptimizer {
   ): Promise<BuildArtifact>;
 }
 
+/*
+
+         withContent()
+           ---
+           an artifact with new content, sized from it. the size
+           before the first optimization is kept as the original.
+
+*/
+
+function withContent(
+  artifact: BuildArtifact,
+  content: string,
+  metadata: { [key: string]: any }
+): BuildArtifact {
+  return {
+    ...artifact,
+    content,
+    size: Buffer.byteLength(content),
+    metadata: {
+      ...artifact.metadata,
+      ...metadata,
+      originalSize: artifact.metadata?.originalSize ?? artifact.size,
+    },
+  };
+}
+
 /*
 
          JavaScriptOptimizer
            ---
-           optimizes JavaScript artifacts.
+           optimizes JavaScript artifacts. dead code is
+           eliminated before minifying, since minified code
+           cannot be printed back.
 
 */
 
@@ -1155,36 +1157,31 @@ class JavaScriptOptimizer extends ArtifactOptimizer {
     artifact: BuildArtifact,
     config: OptimizationConfiguration
   ): Promise<BuildArtifact> {
-    let optimizedSize = artifact.size;
-
-    if (config.minifyJS) {
-      optimizedSize = Math.floor(
-        optimizedSize * 0.7
-      ); /* 30% reduction from minification */
+    if (
+      artifact.content === undefined ||
+      (!config.minifyJS && !config.deadCodeElimination)
+    ) {
+      return artifact;
     }
 
-    if (config.treeshaking) {
-      optimizedSize = Math.floor(
-        optimizedSize * 0.9
-      ); /* 10% reduction from tree shaking */
-    }
+    const options = {
+      fileName: artifact.path,
+      preserveComments: config.preserveComments,
+    };
+    let content = artifact.content;
 
     if (config.deadCodeElimination) {
-      optimizedSize = Math.floor(
-        optimizedSize * 0.95
-      ); /* 5% reduction from dead code elimination */
+      content = eliminateDeadCode(content, options);
     }
 
-    return {
-      ...artifact,
-      size: optimizedSize,
-      metadata: {
-        ...artifact.metadata,
-        minified: config.minifyJS,
-        treeShaken: config.treeshaking,
-        deadCodeEliminated: config.deadCodeElimination,
-      },
-    };
+    if (config.minifyJS) {
+      content = minifyJavaScript(content, options);
+    }
+
+    return withContent(artifact, content, {
+      minified: !!config.minifyJS,
+      deadCodeEliminated: !!config.deadCodeElimination,
+    });
   }
 }
 
@@ -1201,28 +1198,17 @@ class CSSOptimizer extends ArtifactOptimizer {
     artifact: BuildArtifact,
     config: OptimizationConfiguration
   ): Promise<BuildArtifact> {
-    let optimizedSize = artifact.size;
-
-    if (config.minifyCSS) {
-      optimizedSize = Math.floor(
-        optimizedSize * 0.8
-      ); /* 20% reduction from minification */
+    if (artifact.content === undefined || !config.minifyCSS) {
+      return artifact;
     }
 
-    /* remove unused CSS */
-    optimizedSize = Math.floor(
-      optimizedSize * 0.9
-    ); /* 10% reduction from unused CSS removal */
-
-    return {
-      ...artifact,
-      size: optimizedSize,
-      metadata: {
-        ...artifact.metadata,
-        cssMinified: config.minifyCSS,
-        unusedCSSRemoved: true,
-      },
-    };
+    return withContent(
+      artifact,
+      minifyCSS(artifact.content, {
+        preserveComments: config.preserveComments,
+      }),
+      { cssMinified: true }
+    );
   }
 }
 
@@ -1230,7 +1216,8 @@ class CSSOptimizer extends ArtifactOptimizer {
 
          HTMLOptimizer
            ---
-           optimizes HTML artifacts.
+           optimizes HTML artifacts, with the scripts and
+           styles they embed.
 
 */
 
@@ -1239,22 +1226,17 @@ class HTMLOptimizer extends ArtifactOptimizer {
     artifact: BuildArtifact,
     config: OptimizationConfiguration
   ): Promise<BuildArtifact> {
-    let optimizedSize = artifact.size;
-
-    if (config.minifyHTML) {
-      optimizedSize = Math.floor(
-        optimizedSize * 0.85
-      ); /* 15% reduction from minification */
+    if (artifact.content === undefined || !config.minifyHTML) {
+      return artifact;
     }
 
-    return {
-      ...artifact,
-      size: optimizedSize,
-      metadata: {
-        ...artifact.metadata,
-        htmlMinified: config.minifyHTML,
-      },
-    };
+    return withContent(
+      artifact,
+      minifyHTML(artifact.content, {
+        preserveComments: config.preserveComments,
+      }),
+      { htmlMinified: true }
+    );
   }
 }
 
@@ -1262,7 +1244,9 @@ class HTMLOptimizer extends ArtifactOptimizer {
 
          AssetOptimizer
            ---
-           optimizes static assets.
+           optimizes static assets. SVG images are markup and
+           are minified as such; binary images are left as
+           they are.
 
 */
 
@@ -1271,26 +1255,21 @@ class AssetOptimizer extends ArtifactOptimizer {
     artifact: BuildArtifact,
     config: OptimizationConfiguration
   ): Promise<BuildArtifact> {
-    let optimizedSize = artifact.size;
-
-    if (config.optimizeImages && this.isImage(artifact.path)) {
-      optimizedSize = Math.floor(
-        optimizedSize * 0.6
-      ); /* 40% reduction from image optimization */
+    if (
+      artifact.content === undefined ||
+      !config.optimizeImages ||
+      !/\.svg$/i.test(artifact.path)
+    ) {
+      return artifact;
     }
 
-    return {
-      ...artifact,
-      size: optimizedSize,
-      metadata: {
-        ...artifact.metadata,
-        imageOptimized: config.optimizeImages && this.isImage(artifact.path),
-      },
-    };
-  }
-
-  private isImage(path: string): boolean {
-    return /\.(png|jpg|jpeg|gif|webp|svg)$/i.test(path);
+    return withContent(
+      artifact,
+      minifyHTML(artifact.content, {
+        preserveComments: config.preserveComments,
+      }),
+      { imageOptimized: true }
+    );
   }
 }
 
@@ -1354,7 +1333,7 @@ export class OptimizationEngineFactory {
     return engine;
   }
 
-  private static getCompressionLevel(profile: OptimizationProfile): number {
+  public static getCompressionLevel(profile: OptimizationProfile): number {
     switch (profile) {
       case OptimizationProfile.NONE:
         return 0;
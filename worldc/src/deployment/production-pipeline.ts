@@ -14,8 +14,17 @@
            multiple target platforms with optimization,
            validation, and build artifact management.
 
+           builds are reproducible: sources are read in a fixed
+           order, nothing in the output records when it was
+           built, and bundles and stylesheets are named by their
+           content. every build lists what it emitted in a
+           build manifest.
+
 */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
 import {
   PlatformTarget,
   DeploymentMode,
@@ -26,6 +35,82 @@ import {
   DeploymentError,
   DeploymentWarning,
 } from './base-deployment';
+import { CompilationPipeline } from '../codegen/compilation-pipeline';
+import {
+  CompilationTarget,
+  OptimizationLevel,
+} from '../codegen/base-generator';
+import { createZipArchive, sha256 } from './archive';
+import {
+  BUILD_MANIFEST_FILE,
+  BuildManifest,
+  contentHashedPath,
+  createBuildManifest,
+  getArtifactBytes,
+} from './build-manifest';
+import {
+  MinifyError,
+  minifyCSS,
+  minifyHTML,
+  minifyJavaScript,
+} from './minifier';
+import {
+  BuildBudgets,
+  checkBudgets,
+  formatBudgetViolation,
+  resolveBudget,
+} from './size-budget';
+
+/* extensions of the WORLDC sources a build compiles */
+const SOURCE_EXTENSIONS = ['.wc', '.ws'];
+
+/*
+
+         MODULE_RUNTIME
+           ---
+           the loader the bundled modules run on. each module is
+           defined under its path from the source directory,
+           without extension, and loaded on its first require.
+
+*/
+
+const MODULE_RUNTIME = `var __worldc = (function () {
+  var factories = {};
+  var cache = {};
+
+  function resolve(from, request) {
+    var parts = from.split('/').slice(0, -1);
+    request.split('/').forEach(function (part) {
+      if (part === '..') {
+        parts.pop();
+      } else if (part !== '.') {
+        parts.push(part);
+      }
+    });
+    return parts.join('/');
+  }
+
+  function load(name) {
+    if (!cache[name]) {
+      if (!factories[name]) {
+        throw new Error("Cannot find module '" + name + "'");
+      }
+      var module = (cache[name] = { exports: {} });
+      factories[name](module, module.exports, function (request) {
+        return load(request.charAt(0) === '.' ? resolve(name, request) : request);
+      });
+    }
+    return cache[name].exports;
+  }
+
+  return {
+    define: function (name, factory) {
+      factories[name] = factory;
+    },
+    load: load,
+  };
+})();
+`;
 
 /*
     ====================================
@@ -43,6 +128,8 @@ import {
 
 export interface ProductionRequest {
   sourceDirectory: string;
+  outputDirectory?: string /* the build is written here when given */;
+  contentHashing?: boolean /* name bundles and stylesheets by content */;
   platform: PlatformTarget;
   mode: DeploymentMode;
   targetPlatform?: string;
@@ -94,6 +181,7 @@ export interface ProductionRequest {
     offlineStrategy?: string;
     cachingRules?: any;
   };
+  budgets?: BuildBudgets;
   buildNumber: number;
 }
 
@@ -130,6 +218,8 @@ export interface ProductionResult {
   warnings: DeploymentWarning[];
   deploymentUrl?: string;
   packagePath?: string;
+  manifest?: BuildManifest;
+  manifestPath?: string /* when the build was written to disk */;
 }
 
 /*
@@ -204,6 +294,9 @@ export class BuildStageExecutor {
     const errors: DeploymentError[] = [];
     const warnings: DeploymentWarning[] = [];
 
+    /* each stage reports only the warnings it raised */
+    this.clearDiagnostics();
+
     try {
       /* notify stage start */
       this.events.onStageStart?.(stage, platform);
@@ -217,8 +310,15 @@ export class BuildStageExecutor {
       /* notify stage completion */
       this.events.onStageComplete?.(stage, platform, duration);
 
+      /* a stage fails without throwing by reporting errors */
+      errors.push(
+        ...(this.diagnostics.filter(
+          (d) => d.severity === 'error'
+        ) as DeploymentError[])
+      );
+
       return {
-        success: true,
+        success: errors.length === 0,
         result,
         duration,
         errors,
@@ -497,6 +597,17 @@ export class ProductionPipeline {
       allErrors.push(...validateResult.errors);
       allWarnings.push(...validateResult.warnings);
 
+      /* nothing is written for a build that fails validation */
+      if (!validateResult.success) {
+        return this.createFailedResult(
+          request,
+          stageResults,
+          allErrors,
+          allWarnings,
+          startTime
+        );
+      }
+
       /* stage 10: finalization */
       const finalizeResult = await this.stageExecutor.executeStage(
         BuildStage.FINALIZATION,
@@ -521,11 +632,11 @@ export class ProductionPipeline {
         metrics: {
           totalTime,
           stageTimings,
-          buildSize: this.calculateBuildSize(allArtifacts),
+          buildSize: this.calculateBuildSize(request, allArtifacts),
           optimizationGains: this.calculateOptimizationGains(allArtifacts),
           compressionRatio: this.calculateCompressionRatio(allArtifacts),
           performanceScore: this.calculatePerformanceScore(
-            allArtifacts,
+            this.calculateBuildSize(request, allArtifacts),
             totalTime
           ),
         },
@@ -534,6 +645,8 @@ export class ProductionPipeline {
         warnings: allWarnings,
         deploymentUrl: finalizeResult.result?.deploymentUrl,
         packagePath: finalizeResult.result?.packagePath,
+        manifest: finalizeResult.result?.manifest,
+        manifestPath: finalizeResult.result?.manifestPath,
       };
     } catch (error) {
       /* handle unexpected pipeline errors */
@@ -613,7 +726,9 @@ export class ProductionPipeline {
 
            prepareSourceFiles()
              ---
-           prepares and validates source files for compilation.
+           reads the source directory. files are taken in order
+           of their path, so the same sources always make the
+           same build.
 
   */
 
@@ -622,47 +737,49 @@ export class ProductionPipeline {
   ): Promise<BuildArtifact[]> {
     console.log('Preparing source files...');
 
-    const sourceFiles: BuildArtifact[] = [];
-
-    /* scan for WORLDSRC files */
-    const worldsrcFiles = [
-      `${request.sourceDirectory}/main.ws`,
-      `${request.sourceDirectory}/game.ws`,
-    ];
-
-    for (let i = 0; i < worldsrcFiles.length; i++) {
-      const file = worldsrcFiles[i];
-      sourceFiles.push({
-        id: `source-${i}`,
-        type: 'javascript',
-        path: file,
-        size: Math.floor(Math.random() * 5000) + 1000,
-        metadata: {
-          language: 'worldsrc',
-          needsCompilation: true,
-        },
-      });
-
-      this.events.onArtifactCreated?.(sourceFiles[sourceFiles.length - 1]);
+    if (!fs.existsSync(request.sourceDirectory)) {
+      throw new Error(
+        `Source directory ${request.sourceDirectory} does not exist`
+      );
     }
 
-    /* scan for assets */
-    const assetFiles = [
-      `${request.sourceDirectory}/icon.png`,
-      `${request.sourceDirectory}/styles.css`,
-    ];
-
-    for (let i = 0; i < assetFiles.length; i++) {
-      const file = assetFiles[i];
-      sourceFiles.push({
-        id: `asset-${i}`,
-        type: 'asset',
-        path: file,
-        size: Math.floor(Math.random() * 2000) + 500,
-        metadata: {
-          needsProcessing: true,
-        },
-      });
+    const sourceFiles: BuildArtifact[] = [];
+    const outputDirectory = path.resolve(this.getOutputDirectory(request));
+    let sources = 0;
+    let assets = 0;
+
+    for (const file of this.listFiles(
+      request.sourceDirectory,
+      outputDirectory
+    )) {
+      const data = fs.readFileSync(path.join(request.sourceDirectory, file));
+
+      if (SOURCE_EXTENSIONS.includes(path.extname(file))) {
+        sourceFiles.push({
+          id: `source-${sources++}`,
+          type: 'javascript',
+          path: `${request.sourceDirectory}/${file}`,
+          size: data.length,
+          content: data.toString('utf8'),
+          metadata: {
+            language: 'worldc',
+            needsCompilation: true,
+            relativePath: file,
+          },
+        });
+      } else {
+        sourceFiles.push({
+          id: `asset-${assets++}`,
+          type: this.getAssetType(file),
+          path: `${request.sourceDirectory}/${file}`,
+          size: data.length,
+          data,
+          metadata: {
+            needsProcessing: true,
+            relativePath: file,
+          },
+        });
+      }
 
       this.events.onArtifactCreated?.(sourceFiles[sourceFiles.length - 1]);
     }
@@ -675,7 +792,9 @@ export class ProductionPipeline {
 
            compileSource()
              ---
-           compiles WORLDSRC source files to target platform.
+           compiles the WORLDC sources, and the modules they
+           import, to JavaScript modules. other files are copied
+           to the output directory.
 
   */
 
@@ -685,32 +804,92 @@ export class ProductionPipeline {
   ): Promise<BuildArtifact[]> {
     console.log('Compiling source files...');
 
+    const outputDirectory = this.getOutputDirectory(request);
     const compiledFiles: BuildArtifact[] = [];
+    const sources = sourceFiles.filter((f) => f.metadata?.needsCompilation);
+
+    if (sources.length > 0) {
+      const project = await new CompilationPipeline().compileProject({
+        entries: sources.map((f) => path.resolve(f.path)),
+        target: [CompilationTarget.TYPESCRIPT],
+        options: {
+          target: CompilationTarget.TYPESCRIPT,
+          optimizationLevel: OptimizationLevel.BASIC,
+          outputFormat: 'cjs',
+          minify: false,
+          sourceMaps: false,
+          typeDeclarations: false,
+          indentSize: 2,
+          useTabs: false,
+          insertFinalNewline: true,
+          strictMode: true,
+          asyncSupport: true,
+          moduleSystem: 'commonjs',
+          reproducible: true,
+        },
+        includeSourceMaps: false,
+        includeTypeDeclarations: false,
+      });
 
-    for (const file of sourceFiles) {
-      if (file.metadata?.needsCompilation) {
-        /* simulate compilation */
-        const compiledSize = Math.floor(
-          file.size * 1.2
-        ); /* compiled files slightly larger */
+      for (const [modulePath, result] of project.modules) {
+        const error = result.diagnostics.find((d) => d.severity === 'error');
+        if (error) {
+          const line = error.location ? `:${error.location.line}` : '';
+          throw new Error(
+            `${path.relative(request.sourceDirectory, modulePath)}${line}: ${error.message}`
+          );
+        }
+      }
+
+      if (!project.success) {
+        throw new Error('Compilation failed');
+      }
+
+      /* imported modules come before the modules importing them */
+      for (const [modulePath, result] of project.modules) {
+        const code = result.results.get(
+          CompilationTarget.TYPESCRIPT
+        )?.generatedCode;
+        if (code === undefined) {
+          continue;
+        }
+
+        const name = this.getModuleName(request, modulePath);
+        const content = ts.transpileModule(code, {
+          compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2017,
+          },
+          fileName: `${name}.ts`,
+        }).outputText;
 
         const compiledFile: BuildArtifact = {
-          id: `compiled-${file.id}`,
+          id: `compiled-${name}`,
           type: 'javascript',
-          path: file.path.replace('.ws', '.js'),
-          size: compiledSize,
+          path: `${outputDirectory}/${name}.js`,
+          size: Buffer.byteLength(content),
+          content,
           metadata: {
-            originalFile: file.path,
-            originalSize: file.size,
+            originalFile: modulePath,
+            originalSize: fs.statSync(modulePath).size,
             compiledFor: request.platform,
+            moduleName: name,
           },
         };
 
         compiledFiles.push(compiledFile);
         this.events.onArtifactCreated?.(compiledFile);
-      } else {
-        /* pass through non-compilable files */
-        compiledFiles.push(file);
+      }
+    }
+
+    /* copy everything else */
+    for (const file of sourceFiles) {
+      if (!file.metadata?.needsCompilation) {
+        compiledFiles.push({
+          ...file,
+          path: `${outputDirectory}/${file.metadata?.relativePath}`,
+          metadata: { ...file.metadata, originalFile: file.path },
+        });
       }
     }
 
@@ -722,7 +901,9 @@ export class ProductionPipeline {
 
            optimizeArtifacts()
              ---
-           applies optimization to compiled artifacts.
+           minifies the compiled modules and stylesheets. files
+           that do not parse are kept as they are, with a
+           warning.
 
   */
 
@@ -732,30 +913,65 @@ export class ProductionPipeline {
   ): Promise<BuildArtifact[]> {
     console.log('Optimizing artifacts...');
 
+    const minifyJS = this.shouldMinify(request, request.optimization.minifyJS);
+    const minifyStyles = this.shouldMinify(
+      request,
+      request.optimization.minifyCSS
+    );
     const optimizedFiles: BuildArtifact[] = [];
 
     for (const file of compiledFiles) {
-      /* simulate optimization */
-      const optimizationFactor = this.getOptimizationFactor(
-        request.optimization.profile
-      );
-      const optimizedSize = Math.floor(file.size * (1 - optimizationFactor));
-
-      const optimizedFile: BuildArtifact = {
-        ...file,
-        size: optimizedSize,
-        metadata: {
-          ...file.metadata,
-          originalSize: file.size,
-          optimized: true,
-          optimizationGain: file.size - optimizedSize,
-        },
-      };
+      let content = file.content;
+
+      try {
+        if (file.type === 'javascript' && content !== undefined && minifyJS) {
+          content = minifyJavaScript(content, { fileName: file.path });
+        } else if (file.type === 'css' && file.data && minifyStyles) {
+          content = minifyCSS(file.data.toString('utf8'));
+        }
+      } catch (error) {
+        if (!(error instanceof MinifyError)) {
+          throw error;
+        }
+        this.stageExecutor.addDiagnostic({
+          id: `minify-${file.id}`,
+          severity: 'warning',
+          message: `${file.path} was not minified: ${error.message}`,
+          stage: BuildStage.OPTIMIZATION,
+          platform: request.platform,
+          file: file.path,
+          line: error.line,
+          column: error.column,
+        });
+      }
 
-      optimizedFiles.push(optimizedFile);
+      let optimizedFile = file;
 
-      /* notify optimization */
-      this.events.onOptimization?.('File Size', file.size, optimizedSize);
+      if (content !== undefined && content !== file.content) {
+        const optimizedSize = Buffer.byteLength(content);
+        optimizedFile = {
+          ...file,
+          size: optimizedSize,
+          content,
+          data: undefined,
+          metadata: {
+            ...file.metadata,
+            originalSize: file.size,
+            optimized: true,
+            optimizationGain: file.size - optimizedSize,
+          },
+        };
+
+        /* notify optimization */
+        this.events.onOptimization?.('File Size', file.size, optimizedSize);
+      }
+
+      /* stylesheets are linked from the page by their emitted name */
+      optimizedFiles.push(
+        optimizedFile.type === 'css'
+          ? this.nameByContent(request, optimizedFile)
+          : optimizedFile
+      );
     }
 
     this.events.onProgress?.(
@@ -769,7 +985,9 @@ export class ProductionPipeline {
 
            bundleAssets()
              ---
-           bundles optimized assets for target platform.
+           bundles the compiled modules. with bundle splitting
+           the module runtime goes in a vendor bundle of its own,
+           which changes only when the runtime does.
 
   */
 
@@ -779,53 +997,65 @@ export class ProductionPipeline {
   ): Promise<BuildArtifact[]> {
     console.log('Bundling assets...');
 
+    const outputDirectory = this.getOutputDirectory(request);
+    const modules = optimizedFiles.filter(
+      (f) => f.metadata?.moduleName !== undefined
+    );
     const bundledAssets: BuildArtifact[] = [];
 
+    if (modules.length === 0) {
+      this.events.onProgress?.(70, 'Created 0 bundles');
+      return bundledAssets;
+    }
+
+    const runtime = this.shouldMinify(request, request.optimization.minifyJS)
+      ? minifyJavaScript(MODULE_RUNTIME)
+      : MODULE_RUNTIME;
+    const definitions = modules
+      .map(
+        (m) =>
+          `__worldc.define(${JSON.stringify(m.metadata!.moduleName)}, ` +
+          `function (module, exports, require) {\n${m.content}\n});\n`
+      )
+      .join('');
+    const loads = modules
+      .map((m) => `__worldc.load(${JSON.stringify(m.metadata!.moduleName)});\n`)
+      .join('');
+
     if (request.optimization.bundleSplitting) {
       /* create separate bundles */
-      const jsFiles = optimizedFiles.filter((f) => f.type === 'javascript');
-      const totalJsSize = jsFiles.reduce((sum, f) => sum + f.size, 0);
-
-      bundledAssets.push({
-        id: 'main-bundle',
-        type: 'javascript',
-        path: 'dist/main.bundle.js',
-        size: Math.floor(totalJsSize * 0.8) /* bundling reduces size */,
-        metadata: {
-          isBundle: true,
-          bundledFiles: jsFiles.map((f) => f.path),
-        },
-      });
-
-      bundledAssets.push({
-        id: 'vendor-bundle',
-        type: 'javascript',
-        path: 'dist/vendor.bundle.js',
-        size: Math.floor(totalJsSize * 0.2),
-        metadata: {
-          isVendorBundle: true,
-        },
-      });
+      bundledAssets.push(
+        this.createBundle(request, {
+          id: 'vendor-bundle',
+          path: `${outputDirectory}/vendor.bundle.js`,
+          content: runtime,
+          metadata: { isVendorBundle: true },
+        }),
+        this.createBundle(request, {
+          id: 'main-bundle',
+          path: `${outputDirectory}/main.bundle.js`,
+          content: definitions + loads,
+          metadata: {},
+        })
+      );
     } else {
       /* single bundle */
-      const jsFiles = optimizedFiles.filter((f) => f.type === 'javascript');
-      const totalJsSize = jsFiles.reduce((sum, f) => sum + f.size, 0);
-
-      bundledAssets.push({
-        id: 'app-bundle',
-        type: 'javascript',
-        path: 'dist/app.bundle.js',
-        size: Math.floor(totalJsSize * 0.9),
-        metadata: {
-          isSingleBundle: true,
-          bundledFiles: jsFiles.map((f) => f.path),
-        },
-      });
+      bundledAssets.push(
+        this.createBundle(request, {
+          id: 'app-bundle',
+          path: `${outputDirectory}/app.bundle.js`,
+          content: runtime + definitions + loads,
+          metadata: { isSingleBundle: true },
+        })
+      );
     }
 
-    /* add non-JS assets */
-    const nonJsAssets = optimizedFiles.filter((f) => f.type !== 'javascript');
-    bundledAssets.push(...nonJsAssets);
+    /* the modules are emitted as part of their bundle */
+    const bundle = bundledAssets[bundledAssets.length - 1];
+    bundle.metadata!.bundledFiles = modules.map((m) => m.path);
+    for (const module of modules) {
+      module.metadata!.bundledInto = bundle.id;
+    }
 
     this.events.onProgress?.(70, `Created ${bundledAssets.length} bundles`);
     return bundledAssets;
@@ -835,7 +1065,8 @@ export class ProductionPipeline {
 
            processAssets()
              ---
-           processes static assets for target platform.
+           generates the stylesheet and the HTML page that loads
+           the bundles and stylesheets by their emitted names.
 
   */
 
@@ -845,34 +1076,55 @@ export class ProductionPipeline {
   ): Promise<BuildArtifact[]> {
     console.log('Processing assets...');
 
+    const outputDirectory = this.getOutputDirectory(request);
     const processedAssets: BuildArtifact[] = [];
 
+    /* create CSS file if needed */
+    if (request.platform === PlatformTarget.WEB) {
+      const css = this.generateCSS(request);
+      const cssContent = this.shouldMinify(
+        request,
+        request.optimization.minifyCSS
+      )
+        ? minifyCSS(css)
+        : css;
+      processedAssets.push(
+        this.nameByContent(request, {
+          id: 'main-css',
+          type: 'css',
+          path: `${outputDirectory}/styles.css`,
+          size: Buffer.byteLength(cssContent),
+          content: cssContent,
+          metadata: {
+            isMainCSS: true,
+          },
+        })
+      );
+    }
+
     /* create HTML file */
-    const htmlContent = this.generateHTML(request, artifacts);
+    const html = this.generateHTML(request, [
+      ...this.getOutputArtifacts(request, artifacts),
+      ...processedAssets,
+    ]);
+    const htmlContent = this.shouldMinify(
+      request,
+      request.optimization.minifyHTML
+    )
+      ? minifyHTML(html)
+      : html;
     processedAssets.push({
       id: 'index-html',
       type: 'html',
-      path: 'dist/index.html',
-      size: htmlContent.length,
+      path: `${outputDirectory}/index.html`,
+      size: Buffer.byteLength(htmlContent),
+      content: htmlContent,
+      checksum: sha256(htmlContent),
       metadata: {
         isMainHTML: true,
       },
     });
 
-    /* create CSS file if needed */
-    if (request.platform === PlatformTarget.WEB) {
-      const cssContent = this.generateCSS(request);
-      processedAssets.push({
-        id: 'main-css',
-        type: 'css',
-        path: 'dist/styles.css',
-        size: cssContent.length,
-        metadata: {
-          isMainCSS: true,
-        },
-      });
-    }
-
     this.events.onProgress?.(80, `Processed ${processedAssets.length} assets`);
     return processedAssets;
   }
@@ -881,7 +1133,9 @@ export class ProductionPipeline {
 
            packageBuild()
              ---
-           packages the build for target platform.
+           packages the build for target platform. a desktop
+           build is zipped for Electron packaging; the Electron
+           runtime is added by ElectronDeployment.
 
   */
 
@@ -891,6 +1145,7 @@ export class ProductionPipeline {
   ): Promise<BuildArtifact[]> {
     console.log('Packaging build...');
 
+    const outputDirectory = this.getOutputDirectory(request);
     const packagedArtifacts: BuildArtifact[] = [];
 
     /* create platform-specific package */
@@ -901,14 +1156,23 @@ export class ProductionPipeline {
 
       case PlatformTarget.DESKTOP:
         /* create electron package */
-        const packageSize =
-          artifacts.reduce((sum, a) => sum + a.size, 0) +
-          50 * 1024 * 1024; /* add electron runtime */
+        const data = createZipArchive(
+          this.getOutputArtifacts(request, artifacts).map((artifact) => ({
+            path: path
+              .relative(outputDirectory, artifact.path)
+              .split(path.sep)
+              .join('/'),
+            data: getArtifactBytes(artifact)!,
+          })),
+          { level: request.optimization.compressionLevel }
+        );
         packagedArtifacts.push({
           id: 'electron-package',
           type: 'asset',
-          path: `dist/${request.appInfo!.name}-${request.targetPlatform}-${request.targetArchitecture}`,
-          size: packageSize,
+          path: `${outputDirectory}/${request.appInfo!.name}-${request.targetPlatform}-${request.targetArchitecture}.zip`,
+          size: data.length,
+          data,
+          checksum: sha256(data),
           metadata: {
             isElectronPackage: true,
             platform: request.targetPlatform,
@@ -961,9 +1225,11 @@ export class ProductionPipeline {
   ): Promise<void> {
     console.log('Validating build...');
 
+    const outputs = this.getOutputArtifacts(request, artifacts);
+
     /* validate required artifacts */
-    const hasHTML = artifacts.some((a) => a.type === 'html');
-    const hasJS = artifacts.some((a) => a.type === 'javascript');
+    const hasHTML = outputs.some((a) => a.type === 'html');
+    const hasJS = outputs.some((a) => a.type === 'javascript');
 
     if (!hasHTML && request.platform === PlatformTarget.WEB) {
       throw new Error('Web builds require HTML file');
@@ -973,14 +1239,40 @@ export class ProductionPipeline {
       throw new Error('JavaScript bundle is required');
     }
 
-    /* validate file sizes */
-    const totalSize = artifacts.reduce((sum, a) => sum + a.size, 0);
+    /* validate file sizes against the budgets */
+    const budget = resolveBudget(request.budgets, request.platform);
+    const outputDirectory = this.getOutputDirectory(request);
+    const files = outputs
+      .filter((a) => !a.metadata?.isElectronPackage)
+      .map((a) => ({
+        path: path.relative(outputDirectory, a.path).split(path.sep).join('/'),
+        size: a.size,
+      }));
+
+    for (const violation of checkBudgets(files, budget)) {
+      this.stageExecutor.addDiagnostic({
+        id: `budget-${violation.category}`,
+        severity: 'error',
+        code: 'BUDGET_EXCEEDED',
+        message: formatBudgetViolation(violation),
+        stage: BuildStage.VALIDATION,
+        platform: request.platform,
+        file: violation.offenders[0]?.path,
+      } as DeploymentError);
+    }
+
+    /* without a total budget, the platform maximum is only advice */
+    const totalSize = this.calculateBuildSize(request, artifacts);
     const maxSize = this.getMaxBuildSize(request.platform);
 
-    if (totalSize > maxSize) {
-      console.warn(
-        `Build size ${totalSize} exceeds recommended maximum ${maxSize}`
-      );
+    if (budget.total === undefined && totalSize > maxSize) {
+      this.stageExecutor.addDiagnostic({
+        id: 'build-size',
+        severity: 'warning',
+        message: `Build size ${totalSize} exceeds recommended maximum ${maxSize}`,
+        stage: BuildStage.VALIDATION,
+        platform: request.platform,
+      });
     }
 
     this.events.onProgress?.(98, 'Build validation complete');
@@ -990,7 +1282,9 @@ export class ProductionPipeline {
 
            finalizeBuild()
              ---
-           finalizes the build and prepares for deployment.
+           lists the build in its manifest and, when the request
+           names an output directory, writes the build and the
+           manifest there.
 
   */
 
@@ -1000,10 +1294,24 @@ export class ProductionPipeline {
   ): Promise<{
     deploymentUrl?: string;
     packagePath?: string;
+    manifest: BuildManifest;
+    manifestPath?: string;
   }> {
     console.log('Finalizing build...');
 
-    const result: { deploymentUrl?: string; packagePath?: string } = {};
+    const outputDirectory = this.getOutputDirectory(request);
+    const outputs = this.getOutputArtifacts(request, artifacts);
+    const result: {
+      deploymentUrl?: string;
+      packagePath?: string;
+      manifest: BuildManifest;
+      manifestPath?: string;
+    } = {
+      manifest: createBuildManifest(outputs, outputDirectory, {
+        platform: request.platform,
+        app: request.appInfo,
+      }),
+    };
 
     switch (request.platform) {
       case PlatformTarget.WEB:
@@ -1021,6 +1329,22 @@ export class ProductionPipeline {
         break;
     }
 
+    if (request.outputDirectory) {
+      for (const artifact of outputs) {
+        await fs.promises.mkdir(path.dirname(artifact.path), {
+          recursive: true,
+        });
+        await fs.promises.writeFile(artifact.path, getArtifactBytes(artifact)!);
+      }
+
+      result.manifestPath = path.join(outputDirectory, BUILD_MANIFEST_FILE);
+      await fs.promises.mkdir(outputDirectory, { recursive: true });
+      await fs.promises.writeFile(
+        result.manifestPath,
+        JSON.stringify(result.manifest, null, 2) + '\n'
+      );
+    }
+
     this.events.onProgress?.(100, 'Build finalized');
     return result;
   }
@@ -1094,8 +1418,14 @@ export class ProductionPipeline {
     return timings as Record<BuildStage, number>;
   }
 
-  private calculateBuildSize(artifacts: BuildArtifact[]): number {
-    return artifacts.reduce((sum, artifact) => sum + artifact.size, 0);
+  private calculateBuildSize(
+    request: ProductionRequest,
+    artifacts: BuildArtifact[]
+  ): number {
+    return this.getOutputArtifacts(request, artifacts).reduce(
+      (sum, artifact) => sum + artifact.size,
+      0
+    );
   }
 
   private calculateOptimizationGains(artifacts: BuildArtifact[]): number {
@@ -1118,11 +1448,7 @@ export class ProductionPipeline {
     return 65; /* placeholder: 65% compression */
   }
 
-  private calculatePerformanceScore(
-    artifacts: BuildArtifact[],
-    buildTime: number
-  ): number {
-    const size = this.calculateBuildSize(artifacts);
+  private calculatePerformanceScore(size: number, buildTime: number): number {
     const sizeFactor = Math.max(
       0,
       100 - (size / (1024 * 1024)) * 10
@@ -1135,21 +1461,13 @@ export class ProductionPipeline {
     return Math.round((sizeFactor + timeFactor) / 2);
   }
 
-  private getOptimizationFactor(profile: OptimizationProfile): number {
-    switch (profile) {
-      case OptimizationProfile.NONE:
-        return 0;
-      case OptimizationProfile.BASIC:
-        return 0.1;
-      case OptimizationProfile.DEVELOPMENT:
-        return 0.05;
-      case OptimizationProfile.PRODUCTION:
-        return 0.25;
-      case OptimizationProfile.AGGRESSIVE:
-        return 0.4;
-      default:
-        return 0.1;
-    }
+  private shouldMinify(request: ProductionRequest, option?: boolean): boolean {
+    const profile = request.optimization.profile;
+    return (
+      option ??
+      (profile === OptimizationProfile.PRODUCTION ||
+        profile === OptimizationProfile.AGGRESSIVE)
+    );
   }
 
   private getMaxBuildSize(platform: PlatformTarget): number {
@@ -1165,10 +1483,149 @@ export class ProductionPipeline {
     }
   }
 
+  private getOutputDirectory(request: ProductionRequest): string {
+    return request.outputDirectory || 'dist';
+  }
+
+  /*
+
+           getOutputArtifacts()
+             ---
+           the artifacts the build emits: those with contents in
+           the output directory that are not part of a bundle.
+
+  */
+
+  private getOutputArtifacts(
+    request: ProductionRequest,
+    artifacts: BuildArtifact[]
+  ): BuildArtifact[] {
+    const outputDirectory = path.resolve(this.getOutputDirectory(request));
+
+    return artifacts.filter(
+      (a) =>
+        a.metadata?.bundledInto === undefined &&
+        (a.content !== undefined || a.data !== undefined) &&
+        path.resolve(a.path).startsWith(outputDirectory + path.sep)
+    );
+  }
+
+  /*
+
+           listFiles()
+             ---
+           the files below a directory, by path relative to it
+           with forward slashes, sorted. hidden files and the
+           output directory are skipped.
+
+  */
+
+  private listFiles(directory: string, skip: string): string[] {
+    const files: string[] = [];
+
+    const visit = (relative: string) => {
+      const entries = fs
+        .readdirSync(path.join(directory, relative), { withFileTypes: true })
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+      for (const entry of entries) {
+        const file = relative ? `${relative}/${entry.name}` : entry.name;
+        const fullPath = path.resolve(directory, file);
+
+        if (entry.name.startsWith('.') || fullPath === skip) {
+          continue;
+        }
+
+        if (entry.isDirectory()) {
+          visit(file);
+        } else if (entry.isFile()) {
+          files.push(file);
+        }
+      }
+    };
+
+    visit('');
+    return files;
+  }
+
+  private getAssetType(file: string): BuildArtifact['type'] {
+    switch (path.extname(file).toLowerCase()) {
+      case '.css':
+        return 'css';
+      case '.html':
+        return 'html';
+      case '.wasm':
+        return 'wasm';
+      default:
+        return 'asset';
+    }
+  }
+
+  /* the module's path from the source directory, without extension */
+  private getModuleName(request: ProductionRequest, file: string): string {
+    const relative = path
+      .relative(path.resolve(request.sourceDirectory), file)
+      .split(path.sep)
+      .join('/');
+
+    return relative.slice(0, relative.length - path.extname(relative).length);
+  }
+
+  private createBundle(
+    request: ProductionRequest,
+    bundle: {
+      id: string;
+      path: string;
+      content: string;
+      metadata: BuildArtifact['metadata'];
+    }
+  ): BuildArtifact {
+    return this.nameByContent(request, {
+      id: bundle.id,
+      type: 'javascript',
+      path: bundle.path,
+      size: Buffer.byteLength(bundle.content),
+      content: bundle.content,
+      metadata: { ...bundle.metadata, isBundle: true },
+    });
+  }
+
+  /*
+
+           nameByContent()
+             ---
+           puts the content hash in the artifact's file name,
+           unless the request turns content hashing off. only
+           files the build links itself are renamed; assets keep
+           the names game code loads them by.
+
+  */
+
+  private nameByContent(
+    request: ProductionRequest,
+    artifact: BuildArtifact
+  ): BuildArtifact {
+    const data = getArtifactBytes(artifact)!;
+    const named = { ...artifact, checksum: sha256(data) };
+
+    if (request.contentHashing === false) {
+      return named;
+    }
+
+    return {
+      ...named,
+      path: contentHashedPath(artifact.path, data),
+      metadata: { ...artifact.metadata, unhashedPath: artifact.path },
+    };
+  }
+
   private generateHTML(
     request: ProductionRequest,
     artifacts: BuildArtifact[]
   ): string {
+    const outputDirectory = this.getOutputDirectory(request);
+    const href = (artifact: BuildArtifact) =>
+      path.relative(outputDirectory, artifact.path).split(path.sep).join('/');
     const jsFiles = artifacts.filter(
       (a) => a.type === 'javascript' && a.metadata?.isBundle
     );
@@ -1181,11 +1638,11 @@ export class ProductionPipeline {
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>${request.appInfo?.name || 'WORLDSRC Game'}</title>
   ${request.seo?.description ? `<meta name="description" content="${request.seo.description}">` : ''}
-  ${cssFiles.map((f) => `<link rel="stylesheet" href="${f.path}">`).join('\n  ')}
+  ${cssFiles.map((f) => `<link rel="stylesheet" href="${href(f)}">`).join('\n  ')}
 </head>
 <body>
   <canvas id="gameCanvas" width="800" height="600"></canvas>
-  ${jsFiles.map((f) => `<script src="${f.path}"></script>`).join('\n  ')}
+  ${jsFiles.map((f) => `<script src="${href(f)}"></script>`).join('\n  ')}
 </body>
 </html>`;
   }
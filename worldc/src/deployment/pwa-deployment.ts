@@ -27,6 +27,8 @@ import {
   SecurityConfiguration,
   BuildStage,
 } from './base-deployment';
+import { compressArtifacts } from './compression';
+import { OptimizationEngineFactory } from './optimization-engine';
 
 /*
     ====================================
@@ -464,7 +466,8 @@ export class PWADeployment extends BaseDeploymentTarget {
           id: `pwa-compiled-${compiledFiles.length}`,
           type: 'javascript',
           path: file.path.replace('.ws', '.js'),
-          size: compiledContent.length,
+          size: Buffer.byteLength(compiledContent),
+          content: compiledContent,
           metadata: {
             originalFile: file.path,
             compiledForPWA: true,
@@ -559,7 +562,8 @@ export class PWADeployment extends BaseDeploymentTarget {
       id: 'pwa-manifest',
       type: 'manifest',
       path: `${this.options.outputDirectory}/manifest.json`,
-      size: manifestContent.length,
+      size: Buffer.byteLength(manifestContent),
+      content: manifestContent,
       metadata: {
         isPWAManifest: true,
         manifestVersion: '1.0',
@@ -604,7 +608,8 @@ export class PWADeployment extends BaseDeploymentTarget {
       id: 'pwa-service-worker',
       type: 'javascript',
       path: `${this.options.outputDirectory}/sw.js`,
-      size: serviceWorkerContent.length,
+      size: Buffer.byteLength(serviceWorkerContent),
+      content: serviceWorkerContent,
       metadata: {
         isServiceWorker: true,
         strategy: this.pwaOptions.serviceWorker.strategy,
@@ -647,7 +652,8 @@ export class PWADeployment extends BaseDeploymentTarget {
       id: 'pwa-index',
       type: 'html',
       path: `${this.options.outputDirectory}/index.html`,
-      size: indexContent.length,
+      size: Buffer.byteLength(indexContent),
+      content: indexContent,
       metadata: {
         isPWAMain: true,
         includesManifest: true,
@@ -744,7 +750,8 @@ export class PWADeployment extends BaseDeploymentTarget {
       id: 'pwa-offline',
       type: 'html',
       path: `${this.options.outputDirectory}/offline.html`,
-      size: offlineContent.length,
+      size: Buffer.byteLength(offlineContent),
+      content: offlineContent,
       metadata: {
         isOfflinePage: true,
       },
@@ -756,7 +763,8 @@ export class PWADeployment extends BaseDeploymentTarget {
       id: 'pwa-offline-game',
       type: 'html',
       path: `${this.options.outputDirectory}/offline-game.html`,
-      size: offlineGameContent.length,
+      size: Buffer.byteLength(offlineGameContent),
+      content: offlineGameContent,
       metadata: {
         isOfflineGamePage: true,
       },
@@ -834,7 +842,9 @@ export class PWADeployment extends BaseDeploymentTarget {
 
            finalizePWABuild()
              ---
-           finalizes PWA build and generates result.
+           finalizes PWA build and generates result. the
+           precompressed copies of the artifacts are listed with
+           them, but left out of the build size.
 
   */
 
@@ -854,21 +864,38 @@ export class PWADeployment extends BaseDeploymentTarget {
   }): Promise<PWABuildResult> {
     console.log('Finalizing PWA build...');
 
-    const allArtifacts = [
-      buildData.manifest,
-      buildData.serviceWorker,
-      ...buildData.html,
-      ...buildData.assets,
-      ...buildData.icons,
-      ...buildData.screenshots,
-      ...buildData.offline,
-    ].filter((a) => a.size > 0);
-
-    const totalSize = allArtifacts.reduce(
+    const allArtifacts = this.applyCompression(
+      [
+        buildData.manifest,
+        buildData.serviceWorker,
+        ...buildData.html,
+        ...buildData.assets,
+        ...buildData.icons,
+        ...buildData.screenshots,
+        ...buildData.offline,
+      ].filter((a) => a.size > 0)
+    );
+    const servedArtifacts = allArtifacts.filter(
+      (artifact) => artifact.contentEncoding === undefined
+    );
+
+    const totalSize = servedArtifacts.reduce(
       (sum, artifact) => sum + artifact.size,
       0
     );
 
+    const compressed = servedArtifacts.filter(
+      (artifact) => artifact.metadata?.gzipSize !== undefined
+    );
+    const compressedBefore = compressed.reduce(
+      (sum, artifact) => sum + artifact.size,
+      0
+    );
+    const compressedAfter = compressed.reduce(
+      (sum, artifact) => sum + artifact.metadata!.gzipSize!,
+      0
+    );
+
     const result: PWABuildResult = {
       success: true,
       platform: this.platform,
@@ -877,7 +904,12 @@ export class PWADeployment extends BaseDeploymentTarget {
       metrics: {
         totalTime: Date.now(),
         buildSize: totalSize,
-        compressionRatio: 0,
+        compressionRatio:
+          compressedBefore > 0
+            ? Math.round(
+                ((compressedBefore - compressedAfter) / compressedBefore) * 100
+              )
+            : 0,
         optimizationGains: 0,
       },
       files: allArtifacts.map((a) => a.path),
@@ -1535,6 +1567,29 @@ console.log('[SW] WORLDSRC PWA Service Worker loaded');
     };
   }
 
+  /*
+
+           applyCompression()
+             ---
+           adds the .gz and .br copies of each compressible
+           artifact. the level is the one the PWA options set,
+           or else the optimization profile's.
+
+  */
+
+  private applyCompression(artifacts: BuildArtifact[]): BuildArtifact[] {
+    const level =
+      this.pwaOptions.pwaOptimization?.compressionLevel ??
+      OptimizationEngineFactory.getCompressionLevel(this.options.optimization);
+
+    if (level <= 0) {
+      return artifacts;
+    }
+
+    console.log('Applying compression...');
+    return compressArtifacts(artifacts, { level });
+  }
+
   private async applySplitBundles(files: BuildArtifact[]): Promise<void> {
     console.log('Applying bundle splitting...');
   }
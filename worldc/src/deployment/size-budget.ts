@@ -0,0 +1,249 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         size-budget.ts
+           ---
+           size budgets for build output. a budget caps the bytes
+           a build may spend on JavaScript, textures, audio and
+           in total; a build over budget fails, naming the files
+           that take up the most of it.
+
+*/
+
+import { DeploymentUtils } from './base-deployment';
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+/*
+
+         BudgetCategory
+           ---
+           what a budget caps. files are put in a category by
+           their extension; every file counts towards the total.
+
+*/
+
+export type BudgetCategory = 'javascript' | 'textures' | 'audio' | 'total';
+
+/*
+
+         SizeBudget
+           ---
+           the most bytes each category may take up. a category
+           without a budget is not checked.
+
+*/
+
+export type SizeBudget = Partial<Record<BudgetCategory, number>>;
+
+/*
+
+         BuildBudgets
+           ---
+           budgets for every platform, and budgets for single
+           platforms that override them category by category.
+
+*/
+
+export interface BuildBudgets extends SizeBudget {
+  platforms?: Record<string, SizeBudget>;
+}
+
+/*
+
+         BudgetFile
+           ---
+           a file of the build output and its size in bytes.
+
+*/
+
+export interface BudgetFile {
+  path: string;
+  size: number;
+}
+
+/*
+
+         BudgetViolation
+           ---
+           a category over its budget. the offenders are its
+           largest files, largest first.
+
+*/
+
+export interface BudgetViolation {
+  category: BudgetCategory;
+  budget: number;
+  size: number;
+  offenders: BudgetFile[];
+}
+
+const CATEGORY_EXTENSIONS: Record<
+  Exclude<BudgetCategory, 'total'>,
+  string[]
+> = {
+  javascript: ['.js', '.mjs', '.cjs'],
+  textures: [
+    '.png',
+    '.jpg',
+    '.jpeg',
+    '.gif',
+    '.webp',
+    '.avif',
+    '.bmp',
+    '.tga',
+    '.dds',
+    '.ktx',
+    '.ktx2',
+    '.basis',
+    '.svg',
+  ],
+  audio: ['.mp3', '.ogg', '.oga', '.wav', '.m4a', '.aac', '.flac', '.opus'],
+};
+
+const CATEGORY_NAMES: Record<BudgetCategory, string> = {
+  javascript: 'JavaScript',
+  textures: 'Textures',
+  audio: 'Audio',
+  total: 'The build',
+};
+
+/* the order violations are reported in */
+const CATEGORIES: BudgetCategory[] = [
+  'javascript',
+  'textures',
+  'audio',
+  'total',
+];
+
+/*
+    ====================================
+             --- BUDGETS ---
+    ====================================
+*/
+
+/*
+
+         resolveBudget()
+           ---
+           the budget that applies to a platform.
+
+*/
+
+export function resolveBudget(
+  budgets: BuildBudgets | undefined,
+  platform: string
+): SizeBudget {
+  if (!budgets) {
+    return {};
+  }
+
+  const { platforms, ...shared } = budgets;
+  return { ...shared, ...platforms?.[platform] };
+}
+
+/*
+
+         getBudgetCategory()
+           ---
+           the category a file counts towards besides the total,
+           if any.
+
+*/
+
+export function getBudgetCategory(
+  file: string
+): Exclude<BudgetCategory, 'total'> | undefined {
+  const extension = /\.[^./\\]+$/.exec(file)?.[0].toLowerCase();
+  if (!extension) {
+    return undefined;
+  }
+
+  for (const [category, extensions] of Object.entries(CATEGORY_EXTENSIONS)) {
+    if (extensions.includes(extension)) {
+      return category as Exclude<BudgetCategory, 'total'>;
+    }
+  }
+
+  return undefined;
+}
+
+/*
+
+         checkBudgets()
+           ---
+           the categories of the files that are over budget,
+           each with up to maxOffenders of its largest files.
+
+*/
+
+export function checkBudgets(
+  files: BudgetFile[],
+  budget: SizeBudget,
+  maxOffenders: number = 3
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+
+  for (const category of CATEGORIES) {
+    const limit = budget[category];
+    if (limit === undefined) {
+      continue;
+    }
+
+    const counted = files.filter(
+      (file) =>
+        category === 'total' || getBudgetCategory(file.path) === category
+    );
+    const size = counted.reduce((sum, file) => sum + file.size, 0);
+
+    if (size > limit) {
+      violations.push({
+        category,
+        budget: limit,
+        size,
+        offenders: [...counted]
+          .sort((a, b) => b.size - a.size)
+          .slice(0, maxOffenders),
+      });
+    }
+  }
+
+  return violations;
+}
+
+/*
+
+         formatBudgetViolation()
+           ---
+           one line naming the category, how far it is over
+           budget, and its largest files.
+
+*/
+
+export function formatBudgetViolation(violation: BudgetViolation): string {
+  const size = DeploymentUtils.formatFileSize;
+  const offenders = violation.offenders
+    .map((file) => `${file.path} (${size(file.size)})`)
+    .join(', ');
+
+  return (
+    `${CATEGORY_NAMES[violation.category]} is ${size(violation.size)}, ` +
+    `${size(violation.size - violation.budget)} over its budget of ` +
+    `${size(violation.budget)}. Largest: ${offenders}`
+  );
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
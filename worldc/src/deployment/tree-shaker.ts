@@ -0,0 +1,901 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         tree-shaker.ts
+           ---
+           removes the exports of a bundle's modules that no
+           other module imports.
+
+           the modules form a graph through their import and
+           export declarations. a module no other module imports
+           is an entry, and all of its exports are kept. an
+           export nothing imports is removed together with its
+           declaration when the module does not use it and
+           declaring it has no side effects; otherwise only the
+           export goes. removing a declaration can leave imports
+           unused, so modules are shaken until nothing changes.
+
+*/
+
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { parseScript } from './minifier';
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+export interface ModuleSource {
+  path: string;
+  code: string;
+}
+
+export interface ShakenModule extends ModuleSource {
+  removedExports: string[] /* exported names removed, in order */;
+}
+
+export interface ShakeOptions {
+  entries?: string[] /* modules whose exports are kept though imported */;
+  preserveComments?: boolean;
+}
+
+/* the names of a module's exports that are imported, or all of them */
+type UsedExports = Set<string> | 'all';
+
+/*
+    ====================================
+             --- API ---
+    ====================================
+*/
+
+/*
+
+         shakeModules()
+           ---
+           removes the unused exports of a set of modules and
+           returns the modules in the order given. modules
+           nothing was removed from keep their code as written.
+           throws a MinifyError when a module does not parse,
+           since its imports cannot be known.
+
+*/
+
+export function shakeModules(
+  modules: ModuleSource[],
+  options: ShakeOptions = {}
+): ShakenModule[] {
+  const paths = new Map(
+    modules.map((module) => [normalize(module.path), module.path])
+  );
+  const resolve = (from: string, specifier: string) =>
+    resolveModule(from, specifier, paths);
+
+  let current: ShakenModule[] = modules.map((module) => ({
+    ...module,
+    removedExports: [],
+  }));
+
+  /* entries are found in the graph as written */
+  const importers = findImporters(modules);
+  const entries = new Set(
+    modules
+      .map((module) => module.path)
+      .filter(
+        (file) =>
+          importers.get(file)!.length === 0 || options.entries?.includes(file)
+      )
+  );
+
+  for (let pass = 0; pass <= modules.length; pass++) {
+    const files = current.map((module) =>
+      parseScript(module.code, module.path)
+    );
+    const used = findUsedExports(files, entries, resolve);
+    let changed = false;
+
+    current = current.map((module, i) => {
+      const result = shakeModule(files[i], used.get(module.path)!, options);
+      if (!result) {
+        return module;
+      }
+
+      changed = true;
+      return {
+        path: module.path,
+        code: result.code,
+        removedExports: [...module.removedExports, ...result.removed],
+      };
+    });
+
+    if (!changed) {
+      break;
+    }
+  }
+
+  return current;
+}
+
+/*
+
+         findImporters()
+           ---
+           the modules that import or re-export each module of
+           a set, keyed by path.
+
+*/
+
+export function findImporters(modules: ModuleSource[]): Map<string, string[]> {
+  const paths = new Map(
+    modules.map((module) => [normalize(module.path), module.path])
+  );
+  const importers = new Map<string, string[]>(
+    modules.map((module) => [module.path, []])
+  );
+
+  for (const module of modules) {
+    for (const target of importsOf(parseScript(module.code, module.path))) {
+      const resolved = resolveModule(module.path, target, paths);
+      if (
+        resolved &&
+        resolved !== module.path &&
+        !importers.get(resolved)!.includes(module.path)
+      ) {
+        importers.get(resolved)!.push(module.path);
+      }
+    }
+  }
+
+  return importers;
+}
+
+/*
+    ====================================
+             --- MODULE GRAPH ---
+    ====================================
+*/
+
+function normalize(file: string): string {
+  return path.posix.normalize(file.replace(/\\/g, '/'));
+}
+
+/* the module a specifier names, or null for a package or a missing file */
+function resolveModule(
+  from: string,
+  specifier: string,
+  paths: Map<string, string>
+): string | null {
+  if (!specifier.startsWith('.') && !specifier.startsWith('/')) {
+    return null;
+  }
+
+  const base = normalize(
+    specifier.startsWith('/')
+      ? specifier
+      : path.posix.join(path.posix.dirname(normalize(from)), specifier)
+  );
+  const candidates = [
+    base,
+    base.replace(/\.js$/, '.ts'),
+    ...['.js', '.mjs', '.ts', '/index.js', '/index.ts'].map(
+      (extension) => base + extension
+    ),
+  ];
+
+  for (const candidate of candidates) {
+    const found = paths.get(candidate);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/* the specifiers a module imports or re-exports from */
+function importsOf(sourceFile: ts.SourceFile): string[] {
+  const specifiers: string[] = [];
+
+  forEachModuleReference(sourceFile, (node, specifier) => {
+    if (specifier !== null) {
+      specifiers.push(specifier);
+    }
+  });
+
+  return specifiers;
+}
+
+/*
+
+         forEachModuleReference()
+           ---
+           calls back with each import, re-export and dynamic
+           import or require of a module. the specifier of a
+           dynamic import that is not a string is null.
+
+*/
+
+function forEachModuleReference(
+  sourceFile: ts.SourceFile,
+  callback: (node: ts.Node, specifier: string | null) => void
+): void {
+  const visit = (node: ts.Node) => {
+    if (
+      (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      callback(node, node.moduleSpecifier.text);
+      return;
+    }
+
+    if (
+      ts.isCallExpression(node) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) &&
+          node.expression.text === 'require'))
+    ) {
+      const [argument] = node.arguments;
+      callback(
+        node,
+        argument && ts.isStringLiteralLike(argument) ? argument.text : null
+      );
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+}
+
+/*
+
+         findUsedExports()
+           ---
+           the exports of each module that some module imports.
+           names a module re-exports are used in the module they
+           come from when the re-export is used, so the sets grow
+           until they are stable.
+
+*/
+
+function findUsedExports(
+  files: ts.SourceFile[],
+  entries: Set<string>,
+  resolve: (from: string, specifier: string) => string | null
+): Map<string, UsedExports> {
+  const used = new Map<string, UsedExports>(
+    files.map((file) => [
+      file.fileName,
+      entries.has(file.fileName) ? 'all' : new Set<string>(),
+    ])
+  );
+  let changed = true;
+
+  const mark = (file: string, names: UsedExports) => {
+    const current = used.get(file);
+    if (!current || current === 'all') {
+      return;
+    }
+    if (names === 'all') {
+      used.set(file, 'all');
+      changed = true;
+      return;
+    }
+    for (const name of names) {
+      if (!current.has(name)) {
+        current.add(name);
+        changed = true;
+      }
+    }
+  };
+
+  const isUsed = (file: string, name: string) => {
+    const names = used.get(file)!;
+    return names === 'all' || names.has(name);
+  };
+
+  while (changed) {
+    changed = false;
+
+    for (const file of files) {
+      forEachModuleReference(file, (node, specifier) => {
+        /* a module named at run time may be any of them */
+        if (specifier === null) {
+          files.forEach((other) => mark(other.fileName, 'all'));
+          return;
+        }
+
+        const target = resolve(file.fileName, specifier);
+        if (!target) {
+          return;
+        }
+
+        if (!ts.isImportDeclaration(node) && !ts.isExportDeclaration(node)) {
+          mark(target, 'all');
+        } else if (ts.isImportDeclaration(node)) {
+          const clause = node.importClause;
+          if (!clause || clause.isTypeOnly) {
+            return;
+          }
+          if (clause.name) {
+            mark(target, new Set(['default']));
+          }
+          const bindings = clause.namedBindings;
+          if (bindings && ts.isNamedImports(bindings)) {
+            mark(
+              target,
+              new Set(
+                bindings.elements
+                  .filter((element) => !element.isTypeOnly)
+                  .map((element) => (element.propertyName ?? element.name).text)
+              )
+            );
+          } else if (bindings) {
+            mark(target, 'all');
+          }
+        } else if (!node.exportClause) {
+          /* 'export *' passes on whatever is asked of this module */
+          const names = used.get(file.fileName)!;
+          mark(target, names === 'all' ? 'all' : new Set(names));
+        } else if (ts.isNamespaceExport(node.exportClause)) {
+          if (isUsed(file.fileName, node.exportClause.name.text)) {
+            mark(target, 'all');
+          }
+        } else {
+          mark(
+            target,
+            new Set(
+              node.exportClause.elements
+                .filter((element) => isUsed(file.fileName, element.name.text))
+                .map((element) => (element.propertyName ?? element.name).text)
+            )
+          );
+        }
+      });
+    }
+  }
+
+  return used;
+}
+
+/*
+    ====================================
+             --- SHAKING ---
+    ====================================
+*/
+
+/*
+
+         shakeModule()
+           ---
+           removes the exports of a module that are not used, and
+           the imported names the module no longer refers to.
+           returns null when nothing was removed.
+
+*/
+
+function shakeModule(
+  sourceFile: ts.SourceFile,
+  used: UsedExports,
+  options: ShakeOptions
+): { code: string; removed: string[] } | null {
+  const { factory } = ts;
+  const references = countReferences(sourceFile);
+  const removed: string[] = [];
+  const statements: ts.Statement[] = [];
+  let changed = false;
+
+  const isUsed = (name: string) => used === 'all' || used.has(name);
+  const isReferenced = (name: string | undefined) =>
+    !!name && (references.get(name) || 0) > 0;
+
+  /* a specifier no longer exported stops referring to its binding */
+  const released = new Set<string>();
+  const release = (name: string) => {
+    references.set(name, (references.get(name) || 0) - 1);
+    released.add(name);
+  };
+
+  /* a binding whose only use was a removed specifier */
+  const isOrphan = (name: string | undefined) =>
+    !!name && released.has(name) && !isReferenced(name);
+
+  /* export lists go first, since they decide what the declarations keep */
+  const exportLists = new Map<ts.Statement, ts.Statement | null>();
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.isTypeOnly &&
+      statement.exportClause
+    ) {
+      const shaken = shakeExportList(statement, isUsed, removed, release);
+      if (shaken !== statement) {
+        exportLists.set(statement, shaken);
+      }
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    let result: ts.Statement | ts.Statement[] | null = statement;
+
+    if (exportLists.has(statement)) {
+      result = exportLists.get(statement)!;
+    } else if (isOrphanDeclaration(statement, isOrphan)) {
+      result = null;
+    } else if (ts.isImportDeclaration(statement)) {
+      result = pruneImport(statement, isReferenced);
+    } else if (ts.isExportAssignment(statement)) {
+      if (!statement.isExportEquals && !isUsed('default')) {
+        removed.push('default');
+        result = isPure(statement.expression)
+          ? null
+          : factory.createExpressionStatement(statement.expression);
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      result = shakeVariables(statement, isUsed, isReferenced, removed);
+    } else if (
+      ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)
+    ) {
+      result = shakeDeclaration(statement, isUsed, isReferenced, removed);
+    }
+
+    if (result !== statement) {
+      changed = true;
+    }
+    for (const kept of Array.isArray(result)
+      ? result
+      : result
+        ? [result]
+        : []) {
+      /* a module is evaluated once, however often it is imported */
+      if (
+        ts.isImportDeclaration(kept) &&
+        !kept.importClause &&
+        statements.some(
+          (other) =>
+            ts.isImportDeclaration(other) &&
+            (other.moduleSpecifier as ts.StringLiteral).text ===
+              (kept.moduleSpecifier as ts.StringLiteral).text
+        )
+      ) {
+        continue;
+      }
+      statements.push(kept);
+    }
+  }
+
+  if (!changed) {
+    return null;
+  }
+
+  const printer = ts.createPrinter({
+    removeComments: !options.preserveComments,
+  });
+  return {
+    code: printer.printFile(factory.updateSourceFile(sourceFile, statements)),
+    removed,
+  };
+}
+
+/* how often each name is used, outside imports and its declaration */
+function countReferences(sourceFile: ts.SourceFile): Map<string, number> {
+  const references = new Map<string, number>();
+  const declared = new Set<ts.Node>();
+
+  for (const statement of sourceFile.statements) {
+    if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      declared.add(statement.name);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        declared.add(declaration.name);
+      }
+    }
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) || declared.has(node)) {
+      return;
+    }
+
+    /* 'export { a as b }' refers to a, not b */
+    if (ts.isExportSpecifier(node)) {
+      if (!node.parent.parent.moduleSpecifier) {
+        const local = (node.propertyName ?? node.name).text;
+        references.set(local, (references.get(local) || 0) + 1);
+      }
+      return;
+    }
+
+    if (ts.isIdentifier(node)) {
+      references.set(node.text, (references.get(node.text) || 0) + 1);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return references;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    !!ts.getModifiers(node)?.some((modifier) => modifier.kind === kind)
+  );
+}
+
+function withoutExport(
+  modifiers: readonly ts.ModifierLike[] | undefined
+): ts.ModifierLike[] | undefined {
+  const kept = modifiers?.filter(
+    (modifier) =>
+      modifier.kind !== ts.SyntaxKind.ExportKeyword &&
+      modifier.kind !== ts.SyntaxKind.DefaultKeyword
+  );
+  return kept && kept.length > 0 ? kept : undefined;
+}
+
+/* a declaration that is not exported and was only used by an export list */
+function isOrphanDeclaration(
+  statement: ts.Statement,
+  isOrphan: (name: string | undefined) => boolean
+): boolean {
+  if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+    return false;
+  }
+
+  if (ts.isFunctionDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+    return isOrphan(statement.name?.text);
+  }
+  if (ts.isClassDeclaration(statement)) {
+    return isOrphan(statement.name?.text) && isPureClass(statement);
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.every(
+      (declaration) =>
+        ts.isIdentifier(declaration.name) &&
+        isOrphan(declaration.name.text) &&
+        (!declaration.initializer || isPure(declaration.initializer))
+    );
+  }
+  return false;
+}
+
+/* 'export { ... }' and re-exports, keeping the names that are used */
+function shakeExportList(
+  statement: ts.ExportDeclaration,
+  isUsed: (name: string) => boolean,
+  removed: string[],
+  release: (name: string) => void
+): ts.Statement | null {
+  const { factory } = ts;
+  const clause = statement.exportClause!;
+  const source = statement.moduleSpecifier;
+
+  /* a module re-exported for nothing is still evaluated */
+  const evaluateOnly = () =>
+    source
+      ? factory.createImportDeclaration(undefined, undefined, source)
+      : null;
+
+  if (ts.isNamespaceExport(clause)) {
+    if (isUsed(clause.name.text)) {
+      return statement;
+    }
+    removed.push(clause.name.text);
+    return evaluateOnly();
+  }
+
+  const kept = clause.elements.filter((element) => {
+    if (element.isTypeOnly || isUsed(element.name.text)) {
+      return true;
+    }
+    removed.push(element.name.text);
+    if (!source) {
+      release((element.propertyName ?? element.name).text);
+    }
+    return false;
+  });
+
+  if (kept.length === clause.elements.length) {
+    return statement;
+  }
+  if (kept.length === 0) {
+    return evaluateOnly();
+  }
+
+  return factory.updateExportDeclaration(
+    statement,
+    statement.modifiers,
+    statement.isTypeOnly,
+    factory.updateNamedExports(clause, kept),
+    source,
+    statement.attributes
+  );
+}
+
+/* an import without the names the module no longer refers to */
+function pruneImport(
+  statement: ts.ImportDeclaration,
+  isReferenced: (name: string) => boolean
+): ts.Statement {
+  const { factory } = ts;
+  const clause = statement.importClause;
+
+  if (!clause || clause.isTypeOnly) {
+    return statement;
+  }
+
+  const name =
+    clause.name && isReferenced(clause.name.text) ? clause.name : undefined;
+  const namedBindings = clause.namedBindings;
+  let bindings: ts.NamedImportBindings | undefined = namedBindings;
+
+  if (namedBindings && ts.isNamedImports(namedBindings)) {
+    const elements = namedBindings.elements.filter(
+      (element) => element.isTypeOnly || isReferenced(element.name.text)
+    );
+    bindings =
+      elements.length === namedBindings.elements.length
+        ? namedBindings
+        : elements.length > 0
+          ? factory.updateNamedImports(namedBindings, elements)
+          : undefined;
+  } else if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+    bindings = isReferenced(namedBindings.name.text)
+      ? namedBindings
+      : undefined;
+  }
+
+  if (name === clause.name && bindings === clause.namedBindings) {
+    return statement;
+  }
+
+  /* the module is still evaluated for its side effects */
+  return factory.updateImportDeclaration(
+    statement,
+    statement.modifiers,
+    name || bindings
+      ? factory.updateImportClause(clause, clause.isTypeOnly, name, bindings)
+      : undefined,
+    statement.moduleSpecifier,
+    statement.attributes
+  );
+}
+
+/* 'export function', 'export class' and 'export enum' */
+function shakeDeclaration(
+  statement: ts.FunctionDeclaration | ts.ClassDeclaration | ts.EnumDeclaration,
+  isUsed: (name: string) => boolean,
+  isReferenced: (name: string | undefined) => boolean,
+  removed: string[]
+): ts.Statement | null {
+  const { factory } = ts;
+
+  if (
+    !hasModifier(statement, ts.SyntaxKind.ExportKeyword) ||
+    hasModifier(statement, ts.SyntaxKind.DeclareKeyword)
+  ) {
+    return statement;
+  }
+
+  const exported = hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+    ? 'default'
+    : statement.name?.text;
+
+  if (!exported || isUsed(exported)) {
+    return statement;
+  }
+
+  removed.push(exported);
+
+  if (
+    !isReferenced(statement.name?.text) &&
+    (!ts.isClassDeclaration(statement) || isPureClass(statement))
+  ) {
+    return null;
+  }
+
+  /* the declaration stays for the module's own use */
+  const modifiers = withoutExport(statement.modifiers);
+  if (ts.isFunctionDeclaration(statement)) {
+    return factory.updateFunctionDeclaration(
+      statement,
+      modifiers,
+      statement.asteriskToken,
+      statement.name,
+      statement.typeParameters,
+      statement.parameters,
+      statement.type,
+      statement.body
+    );
+  }
+  if (ts.isClassDeclaration(statement)) {
+    return factory.updateClassDeclaration(
+      statement,
+      modifiers,
+      statement.name,
+      statement.typeParameters,
+      statement.heritageClauses,
+      statement.members
+    );
+  }
+  return factory.updateEnumDeclaration(
+    statement,
+    modifiers,
+    statement.name,
+    statement.members
+  );
+}
+
+/* 'export const a = 1, b = 2' split into what stays exported and what does not */
+function shakeVariables(
+  statement: ts.VariableStatement,
+  isUsed: (name: string) => boolean,
+  isReferenced: (name: string) => boolean,
+  removed: string[]
+): ts.Statement | ts.Statement[] | null {
+  const { factory } = ts;
+
+  if (
+    !hasModifier(statement, ts.SyntaxKind.ExportKeyword) ||
+    hasModifier(statement, ts.SyntaxKind.DeclareKeyword)
+  ) {
+    return statement;
+  }
+
+  const exported: ts.VariableDeclaration[] = [];
+  const local: ts.VariableDeclaration[] = [];
+
+  for (const declaration of statement.declarationList.declarations) {
+    /* destructured names are kept whole */
+    if (!ts.isIdentifier(declaration.name) || isUsed(declaration.name.text)) {
+      exported.push(declaration);
+      continue;
+    }
+
+    removed.push(declaration.name.text);
+    if (
+      isReferenced(declaration.name.text) ||
+      (declaration.initializer && !isPure(declaration.initializer))
+    ) {
+      local.push(declaration);
+    }
+  }
+
+  if (exported.length === statement.declarationList.declarations.length) {
+    return statement;
+  }
+
+  const list = (declarations: ts.VariableDeclaration[]) =>
+    factory.createVariableDeclarationList(
+      declarations,
+      statement.declarationList.flags & (ts.NodeFlags.Let | ts.NodeFlags.Const)
+    );
+
+  const statements: ts.Statement[] = [];
+  if (exported.length > 0) {
+    statements.push(
+      factory.updateVariableStatement(
+        statement,
+        statement.modifiers,
+        list(exported)
+      )
+    );
+  }
+  if (local.length > 0) {
+    statements.push(
+      factory.createVariableStatement(
+        withoutExport(statement.modifiers),
+        list(local)
+      )
+    );
+  }
+
+  return statements.length > 0 ? statements : null;
+}
+
+/* an expression evaluating which has no effect */
+function isPure(expression: ts.Expression): boolean {
+  if (
+    ts.isLiteralExpression(expression) ||
+    ts.isIdentifier(expression) ||
+    ts.isFunctionExpression(expression) ||
+    ts.isArrowFunction(expression)
+  ) {
+    return true;
+  }
+
+  switch (expression.kind) {
+    case ts.SyntaxKind.TrueKeyword:
+    case ts.SyntaxKind.FalseKeyword:
+    case ts.SyntaxKind.NullKeyword:
+    case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+      return true;
+  }
+
+  if (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isAsExpression(expression) ||
+    ts.isTypeAssertionExpression(expression)
+  ) {
+    return isPure(expression.expression);
+  }
+  if (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator !== ts.SyntaxKind.PlusPlusToken &&
+    expression.operator !== ts.SyntaxKind.MinusMinusToken
+  ) {
+    return isPure(expression.operand);
+  }
+  if (ts.isTemplateExpression(expression)) {
+    return expression.templateSpans.every((span) => isPure(span.expression));
+  }
+  if (ts.isArrayLiteralExpression(expression)) {
+    return expression.elements.every(
+      (element) => !ts.isSpreadElement(element) && isPure(element)
+    );
+  }
+  if (ts.isObjectLiteralExpression(expression)) {
+    return expression.properties.every(
+      (property) =>
+        !(property.name && ts.isComputedPropertyName(property.name)) &&
+        (ts.isMethodDeclaration(property) ||
+          ts.isGetAccessorDeclaration(property) ||
+          ts.isSetAccessorDeclaration(property) ||
+          ts.isShorthandPropertyAssignment(property) ||
+          (ts.isPropertyAssignment(property) && isPure(property.initializer)))
+    );
+  }
+  if (ts.isClassExpression(expression)) {
+    return isPureClass(expression);
+  }
+
+  return false;
+}
+
+/* a class whose definition runs nothing but its declaration */
+function isPureClass(node: ts.ClassLikeDeclaration): boolean {
+  if (ts.getDecorators(node)?.length) {
+    return false;
+  }
+
+  const heritage = node.heritageClauses?.every((clause) =>
+    clause.types.every((type) => isPure(type.expression))
+  );
+  if (heritage === false) {
+    return false;
+  }
+
+  return node.members.every(
+    (member) =>
+      !ts.isClassStaticBlockDeclaration(member) &&
+      !(ts.canHaveDecorators(member) && ts.getDecorators(member)?.length) &&
+      !(member.name && ts.isComputedPropertyName(member.name)) &&
+      !(
+        ts.isPropertyDeclaration(member) &&
+        hasModifier(member, ts.SyntaxKind.StaticKeyword) &&
+        member.initializer &&
+        !isPure(member.initializer)
+      )
+  );
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
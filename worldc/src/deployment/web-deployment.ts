@@ -28,6 +28,9 @@ import {
   SEOConfiguration,
   BuildStage,
 } from './base-deployment';
+import { compressArtifacts } from './compression';
+import { minifyCSS, selectCriticalCSS } from './minifier';
+import { OptimizationEngineFactory } from './optimization-engine';
 
 /*
     ====================================
@@ -129,6 +132,7 @@ export class WebDeployment extends BaseDeploymentTarget {
 
   public async deploy(): Promise<WebBuildResult> {
     this.clearDiagnostics();
+    const startTime = Date.now();
 
     try {
       /* stage 1: initialization */
@@ -160,14 +164,17 @@ export class WebDeployment extends BaseDeploymentTarget {
       const manifestFiles = await this.generateWebManifest();
 
       /* stage 10: finalization */
-      const finalResult = await this.finalizeWebBuild({
-        html: htmlFiles,
-        css: optimizedFiles.filter((f) => f.type === 'css'),
-        js: optimizedFiles.filter((f) => f.type === 'javascript'),
-        assets: processedAssets,
-        serviceWorker: serviceWorkerFiles,
-        manifest: manifestFiles,
-      });
+      const finalResult = await this.finalizeWebBuild(
+        {
+          html: htmlFiles,
+          css: optimizedFiles.filter((f) => f.type === 'css'),
+          js: optimizedFiles.filter((f) => f.type === 'javascript'),
+          assets: processedAssets,
+          serviceWorker: serviceWorkerFiles,
+          manifest: manifestFiles,
+        },
+        startTime
+      );
 
       return finalResult;
     } catch (error) {
@@ -345,7 +352,8 @@ export class WebDeployment extends BaseDeploymentTarget {
           id: `compiled-${compiledFiles.length}`,
           type: 'javascript',
           path: outputPath,
-          size: compiledContent.length,
+          size: Buffer.byteLength(compiledContent),
+          content: compiledContent,
           metadata: {
             originalFile: file.path,
             originalSize: file.size,
@@ -412,7 +420,9 @@ export class WebDeployment extends BaseDeploymentTarget {
 
            optimizeForWeb()
              ---
-           applies web-specific optimizations to bundled files.
+           applies web-specific optimizations to bundled files,
+           with the optimization engine for the deployment's
+           optimization profile.
 
   */
 
@@ -421,18 +431,20 @@ export class WebDeployment extends BaseDeploymentTarget {
   ): Promise<BuildArtifact[]> {
     console.log('Optimizing for web...');
 
-    const optimizedFiles: BuildArtifact[] = [];
+    const engine = OptimizationEngineFactory.create(this.options.optimization);
+    const result = await engine.optimizeForWeb(
+      bundledFiles,
+      this.webOptions.performance?.bundleSplitting === false
+        ? { bundleSplitting: false }
+        : {}
+    );
+    const optimizedFiles = result.optimizedArtifacts;
 
-    for (const file of bundledFiles) {
-      const optimized = await this.optimizeFile(file);
-      optimizedFiles.push(optimized);
+    for (const warning of result.warnings) {
+      this.addWarning(warning, BuildStage.OPTIMIZATION);
     }
 
     /* apply additional optimizations */
-    if (this.webOptions.performance?.compressionLevel) {
-      await this.applyCompression(optimizedFiles);
-    }
-
     if (this.webOptions.performance?.criticalCSS) {
       await this.extractCriticalCSS(optimizedFiles);
     }
@@ -467,7 +479,8 @@ export class WebDeployment extends BaseDeploymentTarget {
       id: 'index-html',
       type: 'html',
       path: `${this.options.outputDirectory}/index.html`,
-      size: indexHtml.length,
+      size: Buffer.byteLength(indexHtml),
+      content: indexHtml,
       metadata: {
         isMainPage: true,
         includedAssets: [
@@ -484,7 +497,8 @@ export class WebDeployment extends BaseDeploymentTarget {
         id: 'offline-html',
         type: 'html',
         path: `${this.options.outputDirectory}/offline.html`,
-        size: offlineHtml.length,
+        size: Buffer.byteLength(offlineHtml),
+        content: offlineHtml,
         metadata: {
           isOfflinePage: true,
         },
@@ -539,7 +553,8 @@ export class WebDeployment extends BaseDeploymentTarget {
       id: 'service-worker',
       type: 'javascript',
       path: `${this.options.outputDirectory}/sw.js`,
-      size: serviceWorkerContent.length,
+      size: Buffer.byteLength(serviceWorkerContent),
+      content: serviceWorkerContent,
       metadata: {
         isServiceWorker: true,
         cachedFiles: optimizedFiles.map((f) => f.path),
@@ -571,7 +586,8 @@ export class WebDeployment extends BaseDeploymentTarget {
       id: 'web-manifest',
       type: 'manifest',
       path: `${this.options.outputDirectory}/manifest.json`,
-      size: manifestContent.length,
+      size: Buffer.byteLength(manifestContent),
+      content: manifestContent,
       metadata: {
         isManifest: true,
       },
@@ -585,30 +601,40 @@ export class WebDeployment extends BaseDeploymentTarget {
 
            finalizeWebBuild()
              ---
-           finalizes web build and generates result.
+           finalizes web build and generates result. gains are
+           measured against the sizes artifacts had before they
+           were optimized, and compression against the sizes
+           of the artifacts that were compressed. the build size
+           leaves out the precompressed copies.
 
   */
 
-  private async finalizeWebBuild(buildFiles: {
-    html: BuildArtifact[];
-    css: BuildArtifact[];
-    js: BuildArtifact[];
-    assets: BuildArtifact[];
-    serviceWorker: BuildArtifact[];
-    manifest: BuildArtifact[];
-  }): Promise<WebBuildResult> {
+  private async finalizeWebBuild(
+    buildFiles: {
+      html: BuildArtifact[];
+      css: BuildArtifact[];
+      js: BuildArtifact[];
+      assets: BuildArtifact[];
+      serviceWorker: BuildArtifact[];
+      manifest: BuildArtifact[];
+    },
+    startTime: number
+  ): Promise<WebBuildResult> {
     console.log('Finalizing web build...');
 
-    const allArtifacts = [
+    const allArtifacts = this.applyCompression([
       ...buildFiles.html,
       ...buildFiles.css,
       ...buildFiles.js,
       ...buildFiles.assets,
       ...buildFiles.serviceWorker,
       ...buildFiles.manifest,
-    ];
+    ]);
+    const servedArtifacts = allArtifacts.filter(
+      (artifact) => artifact.contentEncoding === undefined
+    );
 
-    const totalSize = allArtifacts.reduce(
+    const totalSize = servedArtifacts.reduce(
       (sum, artifact) => sum + artifact.size,
       0
     );
@@ -626,20 +652,45 @@ export class WebDeployment extends BaseDeploymentTarget {
     );
 
     const chunkSizes: Record<string, number> = {};
-    for (const artifact of allArtifacts) {
+    for (const artifact of servedArtifacts) {
       chunkSizes[artifact.id] = artifact.size;
     }
 
+    const originalSize = servedArtifacts.reduce(
+      (sum, artifact) =>
+        sum + (artifact.metadata?.originalSize ?? artifact.size),
+      0
+    );
+    const compressed = servedArtifacts.filter(
+      (artifact) => artifact.metadata?.gzipSize !== undefined
+    );
+    const compressedBefore = compressed.reduce(
+      (sum, artifact) => sum + artifact.size,
+      0
+    );
+    const compressedAfter = compressed.reduce(
+      (sum, artifact) => sum + artifact.metadata!.gzipSize,
+      0
+    );
+
     const result: WebBuildResult = {
       success: true,
       platform: this.platform,
       mode: this.options.mode,
       artifacts: allArtifacts,
       metrics: {
-        totalTime: Date.now() /* would track actual time */,
+        totalTime: Date.now() - startTime,
         buildSize: totalSize,
-        compressionRatio: 0 /* would calculate actual ratio */,
-        optimizationGains: 0 /* would calculate actual gains */,
+        compressionRatio:
+          compressedBefore > 0
+            ? Math.round(
+                ((compressedBefore - compressedAfter) / compressedBefore) * 100
+              )
+            : 0,
+        optimizationGains:
+          originalSize > 0
+            ? Math.round(((originalSize - totalSize) / originalSize) * 100)
+            : 0,
       },
       files: allArtifacts.map((a) => a.path),
       errors: this.getDiagnostics().filter(
@@ -747,7 +798,8 @@ document.addEventListener('DOMContentLoaded', () => {
       id: 'main-bundle',
       type: 'javascript',
       path: `${this.options.outputDirectory}/js/main.bundle.js`,
-      size: bundleContent.length,
+      size: Buffer.byteLength(bundleContent),
+      content: bundleContent,
       metadata: {
         isMainBundle: true,
         bundledFiles: jsFiles.map((f) => f.path),
@@ -774,7 +826,8 @@ console.log('Vendor bundle loaded');
       id: 'vendor-bundle',
       type: 'javascript',
       path: `${this.options.outputDirectory}/js/vendor.bundle.js`,
-      size: vendorContent.length,
+      size: Buffer.byteLength(vendorContent),
+      content: vendorContent,
       metadata: {
         isVendorBundle: true,
       },
@@ -832,7 +885,8 @@ body {
       id: 'main-styles',
       type: 'css',
       path: `${this.options.outputDirectory}/css/main.css`,
-      size: cssContent.length,
+      size: Buffer.byteLength(cssContent),
+      content: cssContent,
       metadata: {
         isMainStyles: true,
       },
@@ -852,6 +906,10 @@ body {
     cssFiles: BuildArtifact[]
   ): Promise<string> {
     const seo = this.webOptions.seo || {};
+    const criticalCSS = cssFiles
+      .map((file) => file.metadata?.criticalCSS)
+      .filter((css) => !!css)
+      .join('');
 
     return `<!DOCTYPE html>
 <html lang="en">
@@ -868,7 +926,7 @@ body {
   ${cssFiles.map((file) => `<link rel="stylesheet" href="${this.getRelativePath(file.path)}">`).join('\n  ')}
 
   <style>
-    /* Critical CSS would be inlined here */
+    ${criticalCSS}
     .worldc-loading {
       display: flex;
       justify-content: center;
@@ -1046,31 +1104,6 @@ self.addEventListener('activate', (event) => {
     return JSON.stringify(manifest, null, 2);
   }
 
-  /*
-
-           optimizeFile()
-             ---
-           applies optimizations to a single file.
-
-  */
-
-  private async optimizeFile(file: BuildArtifact): Promise<BuildArtifact> {
-    /* would apply actual optimizations based on file type */
-    const optimizationGain = Math.random() * 0.3; /* 0-30% reduction */
-    const optimizedSize = Math.floor(file.size * (1 - optimizationGain));
-
-    return {
-      ...file,
-      size: optimizedSize,
-      metadata: {
-        ...file.metadata,
-        originalSize: file.size,
-        optimizationGain,
-        optimized: true,
-      },
-    };
-  }
-
   /*
     ====================================
          --- UTILITY METHODS ---
@@ -1118,14 +1151,54 @@ self.addEventListener('activate', (event) => {
     }
   }
 
-  private async applyCompression(files: BuildArtifact[]): Promise<void> {
-    /* would apply gzip/brotli compression */
+  /*
+
+           applyCompression()
+             ---
+           adds the .gz and .br copies of each compressible
+           artifact. the level is the one the performance
+           options set, or else the optimization profile's.
+
+  */
+
+  private applyCompression(artifacts: BuildArtifact[]): BuildArtifact[] {
+    const level =
+      this.webOptions.performance?.compressionLevel ??
+      OptimizationEngineFactory.getCompressionLevel(this.options.optimization);
+
+    if (level <= 0) {
+      return artifacts;
+    }
+
     console.log('Applying compression...');
+    return compressArtifacts(artifacts, { level });
   }
 
+  /*
+
+           extractCriticalCSS()
+             ---
+           selects the rules of each stylesheet that the page
+           shell uses before the game starts. the index page
+           inlines them.
+
+  */
+
   private async extractCriticalCSS(files: BuildArtifact[]): Promise<void> {
-    /* would extract critical CSS for above-the-fold content */
     console.log('Extracting critical CSS...');
+
+    const shell = await this.generateIndexHTML([], []);
+
+    for (const file of files) {
+      if (file.type !== 'css' || file.content === undefined) {
+        continue;
+      }
+
+      const criticalCSS = minifyCSS(selectCriticalCSS(file.content, shell));
+      if (criticalCSS !== '') {
+        file.metadata = { ...file.metadata, criticalCSS };
+      }
+    }
   }
 
   /*
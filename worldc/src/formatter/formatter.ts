@@ -0,0 +1,1377 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         formatter.ts
+           ---
+           the built-in WORLDC code formatter.
+
+           the formatter prints the token stream of a document,
+           comments included, and reads the syntax tree only to
+           tell tokens apart that look alike: a '{' that opens an
+           object from one that opens a block, a '<' that opens
+           type arguments from a comparison, a unary '-' from a
+           binary one.
+
+           line breaks are the author's, except that every
+           statement and every block gets its own line, and that
+           lines longer than the maximum are broken after a comma
+           or an operator. formatting a formatted document
+           changes nothing.
+
+*/
+
+import {
+  ASTNode,
+  ArrowFunctionExpression,
+  BlockStatement,
+  FunctionExpression,
+  LambdaExpression,
+  MemberExpression,
+  ObjectExpression,
+  Program,
+  TypeNode,
+  TypeParameter,
+  UnaryExpression,
+  UpdateExpression,
+} from '../parser/ast';
+import { Lexer, LexerError } from '../lexer/lexer';
+import { Parser, ParseError } from '../parser/parser';
+import { Token, TokenType } from '../lexer/tokens';
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+/*
+
+         BraceStyle
+           ---
+           where the '{' opening a declaration or statement body
+           goes. blocks inside expressions, such as lambda bodies,
+           always open on the line they belong to.
+
+*/
+
+export enum BraceStyle {
+  SAME_LINE = 'same-line' /* 'if (x) {' */,
+  NEXT_LINE = 'next-line' /* '{' on a line of its own */,
+}
+
+/*
+
+         FormatOptions
+           ---
+           formatting style. the names match FormattingConfig, so
+           an IDE configuration can be passed as it is.
+
+*/
+
+export interface FormatOptions {
+  indentSize?: number /* columns per indent level (default 2) */;
+  useTabs?: boolean /* indent with tabs (default false) */;
+  braceStyle?: BraceStyle /* default SAME_LINE */;
+  maxLineLength?: number /* default 80 */;
+  insertFinalNewline?: boolean /* default true */;
+}
+
+/*
+
+         FormatRange
+           ---
+           the lines to format, zero-based and inclusive.
+
+*/
+
+export interface FormatRange {
+  startLine: number;
+  endLine: number;
+}
+
+/*
+
+         FormatError
+           ---
+           thrown when a document does not lex or parse. only
+           valid documents are formatted.
+
+*/
+
+export class FormatError extends Error {
+  constructor(
+    message: string,
+    public line: number,
+    public column: number
+  ) {
+    super(message);
+    this.name = 'FormatError';
+  }
+}
+
+/*
+    ====================================
+             --- API ---
+    ====================================
+*/
+
+/*
+
+         format()
+           ---
+           formats a whole document.
+
+*/
+
+export function format(source: string, options: FormatOptions = {}): string {
+  const printed = print(source, options);
+  const text = printed.lines.join('\n');
+
+  if (!text || options.insertFinalNewline === false) {
+    return text;
+  }
+
+  return text + '\n';
+}
+
+/*
+
+         formatRange()
+           ---
+           formats the lines of a range and leaves the rest of
+           the document as it is. the range grows by the lines
+           a line break moves across, for example when a '{'
+           joins the line above it.
+
+*/
+
+export function formatRange(
+  source: string,
+  range: FormatRange,
+  options: FormatOptions = {}
+): string {
+  const printed = print(source, options);
+  const sourceLines = source.split('\n');
+  const spans = printed.spans;
+
+  let first = spans.findIndex((span) => span.sourceEnd >= range.startLine);
+  let last = -1;
+  for (let i = spans.length - 1; i >= 0; i--) {
+    if (spans[i].sourceStart <= range.endLine) {
+      last = i;
+      break;
+    }
+  }
+
+  if (first < 0 || last < first) {
+    return source;
+  }
+
+  /* widen until no token outside shares a line with one inside */
+  let widened = true;
+  while (widened) {
+    widened = false;
+
+    if (
+      first > 0 &&
+      (spans[first - 1].sourceEnd >= spans[first].sourceStart ||
+        spans[first - 1].outputEnd >= spans[first].outputStart)
+    ) {
+      first--;
+      widened = true;
+    }
+
+    if (
+      last < spans.length - 1 &&
+      (spans[last + 1].sourceStart <= spans[last].sourceEnd ||
+        spans[last + 1].outputStart <= spans[last].outputEnd)
+    ) {
+      last++;
+      widened = true;
+    }
+  }
+
+  return [
+    ...sourceLines.slice(0, spans[first].sourceStart),
+    ...printed.lines.slice(spans[first].outputStart, spans[last].outputEnd + 1),
+    ...sourceLines.slice(spans[last].sourceEnd + 1),
+  ].join('\n');
+}
+
+/*
+
+         checkFormatted()
+           ---
+           whether a document is already formatted.
+
+*/
+
+export function checkFormatted(
+  source: string,
+  options: FormatOptions = {}
+): boolean {
+  return format(source, options) === source;
+}
+
+/*
+    ====================================
+             --- SYNTAX ---
+    ====================================
+*/
+
+/*
+
+         SyntaxFacts
+           ---
+           what the syntax tree says about tokens, by source
+           offset.
+
+*/
+
+interface SyntaxFacts {
+  literalBraces: Set<number> /* '{' opening an object */;
+  expressionBlocks: Set<number> /* '{' opening a function expression body */;
+  prefixOperands: Set<number> /* start of the operand of a prefix operator */;
+  postfixOperators: Set<number> /* end of a postfix operator */;
+  memberNames: Set<number> /* property names after '.' or '->' */;
+  lambdas: Set<number> /* '[' opening the captures of a lambda */;
+  typeRanges: [number, number][] /* types and type parameters */;
+}
+
+function readSyntax(source: string): {
+  tokens: Token[];
+  facts: SyntaxFacts;
+} {
+  let tokens: Token[];
+  let program: Program;
+
+  try {
+    tokens = new Lexer(source, { skipComments: false }).tokenize();
+    program = new Parser(tokens.filter((token) => !isComment(token))).parse();
+  } catch (error) {
+    if (error instanceof LexerError) {
+      throw new FormatError(
+        error.message,
+        error.position.line,
+        error.position.column
+      );
+    }
+    if (error instanceof ParseError) {
+      throw new FormatError(
+        error.message,
+        error.token.start.line,
+        error.token.start.column
+      );
+    }
+    throw error;
+  }
+
+  const facts: SyntaxFacts = {
+    literalBraces: new Set(),
+    expressionBlocks: new Set(),
+    prefixOperands: new Set(),
+    postfixOperators: new Set(),
+    memberNames: new Set(),
+    lambdas: new Set(),
+    typeRanges: [],
+  };
+
+  collectFacts(program, facts);
+
+  return { tokens: tokens.filter((t) => t.type !== TokenType.EOF), facts };
+}
+
+function collectFacts(node: ASTNode, facts: SyntaxFacts): void {
+  const start = node.location.start.offset;
+  const end = node.location.end.offset;
+
+  if (node instanceof ObjectExpression) {
+    facts.literalBraces.add(start);
+  } else if (
+    node instanceof ArrowFunctionExpression ||
+    node instanceof FunctionExpression ||
+    node instanceof LambdaExpression
+  ) {
+    if (node.body instanceof BlockStatement) {
+      facts.expressionBlocks.add(node.body.location.start.offset);
+    }
+    if (node instanceof LambdaExpression) {
+      facts.lambdas.add(start);
+    }
+  } else if (
+    node instanceof UnaryExpression ||
+    node instanceof UpdateExpression
+  ) {
+    /* a prefix expression's location starts at its operand */
+    if (node.prefix) {
+      facts.prefixOperands.add(node.argument.location.start.offset);
+    } else {
+      facts.postfixOperators.add(end);
+    }
+  } else if (node instanceof MemberExpression && !node.computed) {
+    facts.memberNames.add(node.property.location.start.offset);
+  } else if (node instanceof TypeNode || node instanceof TypeParameter) {
+    facts.typeRanges.push([start, end]);
+  }
+
+  for (const value of Object.values(node)) {
+    if (value instanceof ASTNode) {
+      collectFacts(value, facts);
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        if (item instanceof ASTNode) {
+          collectFacts(item, facts);
+        }
+      }
+    }
+  }
+}
+
+/*
+    ====================================
+             --- TOKENS ---
+    ====================================
+*/
+
+const CONTROL_WORDS = new Set([
+  'if',
+  'for',
+  'while',
+  'switch',
+  'catch',
+  'return',
+  'throw',
+  'case',
+  'await',
+  'yield',
+  'delete',
+  'in',
+  'of',
+]);
+
+const MEMBER_OPERATORS = new Set(['.', '::', '?.']);
+
+const DIRECTIVES = new Set([
+  TokenType.INCLUDE,
+  TokenType.DEFINE,
+  TokenType.IFDEF,
+  TokenType.IFNDEF,
+  TokenType.ENDIF,
+  TokenType.PRAGMA,
+]);
+
+/* tokens a long line may break after */
+const BREAK_AFTER = new Set([
+  ',',
+  '(',
+  '[',
+  '=',
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '%=',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '==',
+  '!=',
+  '===',
+  '!==',
+  '<',
+  '>',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '&',
+  '|',
+  '^',
+  '<<',
+  '>>',
+  '>>>',
+  '?',
+  ':',
+]);
+
+/* character pairs that lex as one token when written together */
+const JOINED_PAIRS = new Set([
+  '++',
+  '--',
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '%=',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '<<',
+  '>>',
+  '&&',
+  '||',
+  '->',
+  '::',
+  '?.',
+  '..',
+  '//',
+  '/*',
+]);
+
+function isComment(token: Token): boolean {
+  return (
+    token.type === TokenType.SINGLE_LINE_COMMENT ||
+    token.type === TokenType.MULTI_LINE_COMMENT ||
+    token.type === TokenType.DOC_COMMENT
+  );
+}
+
+/* identifiers, keywords and literals */
+function isWord(token: Token): boolean {
+  return /^[A-Za-z0-9_$"'`]/.test(token.value);
+}
+
+/* whether two tokens written without a space lex back the same */
+function canJoin(left: string, right: string): boolean {
+  const last = left[left.length - 1];
+  const first = right[0];
+
+  if (/[A-Za-z0-9_$]/.test(last) && /[A-Za-z0-9_$]/.test(first)) {
+    return false;
+  }
+  if (
+    (/[0-9]/.test(last) && first === '.') ||
+    (last === '.' && /[0-9]/.test(first))
+  ) {
+    return false;
+  }
+
+  return !JOINED_PAIRS.has(last + first);
+}
+
+/*
+    ====================================
+             --- PRINTER ---
+    ====================================
+*/
+
+/*
+
+         Frame
+           ---
+           a block being printed: the whole document, a body or
+           an enum. brackets and ternaries are those open in the
+           current statement.
+
+*/
+
+interface Frame {
+  isEnum: boolean;
+  isDo: boolean /* body of a do-while loop */;
+  indent: number /* indent of the statements in the block */;
+  closeIndent: number /* indent of the closing '}' */;
+  brackets: number[] /* open '(', '[' and object '{' */;
+  ternaries: number[] /* open '?' per bracket depth */;
+  atStart: boolean /* the next token begins a statement */;
+  stmtStart: number /* first token of the current statement */;
+  stmtIndent: number;
+  labelled: boolean /* statements follow a case or access label */;
+  inLabel: boolean /* the current statement is a label */;
+  afterBlock: boolean /* the last token closed a nested block */;
+  afterDo: boolean /* ... the body of a do-while loop */;
+}
+
+interface Part {
+  text: string;
+  token: number;
+  space: boolean /* separated from the part before by a space */;
+  indent: number /* indent when the part starts a line */;
+  breakable: boolean /* a long line may break before the part */;
+}
+
+interface Line {
+  indent: number;
+  parts: Part[];
+}
+
+/* where a token sits in the source and in the printed document */
+interface TokenSpan {
+  sourceStart: number;
+  sourceEnd: number;
+  outputStart: number;
+  outputEnd: number;
+}
+
+interface Printed {
+  lines: string[];
+  spans: TokenSpan[] /* one per printed token, in order */;
+}
+
+type Separator = 'newline' | 'space' | 'none';
+
+function print(source: string, options: FormatOptions): Printed {
+  const { tokens, facts } = readSyntax(source);
+  return new Printer(source, tokens, facts, options).print();
+}
+
+class Printer {
+  private source: string;
+  private tokens: Token[];
+  private facts: SyntaxFacts;
+  private indentUnit: string;
+  private indentWidth: number;
+  private braceStyle: BraceStyle;
+  private maxLineLength: number;
+
+  private matches: number[] /* index of the matching bracket */;
+  private prefixOperators: Set<number> /* start of a prefix operator */;
+  private inType: boolean[];
+  private typeStarts: Set<number>;
+  private typeEnds: Set<number>;
+  private ternaryColons: Set<number>;
+
+  private lines: Line[];
+  private frames: Frame[];
+  private pendingBreak: boolean;
+
+  constructor(
+    source: string,
+    tokens: Token[],
+    facts: SyntaxFacts,
+    options: FormatOptions
+  ) {
+    const indentSize = options.indentSize ?? 2;
+
+    this.source = source;
+    this.tokens = tokens;
+    this.facts = facts;
+    this.indentUnit = options.useTabs ? '\t' : ' '.repeat(indentSize);
+    this.indentWidth = indentSize;
+    this.braceStyle = options.braceStyle ?? BraceStyle.SAME_LINE;
+    this.maxLineLength = options.maxLineLength ?? 80;
+
+    this.matches = this.matchBrackets();
+    this.prefixOperators = this.findPrefixOperators();
+    this.inType = tokens.map((token) =>
+      facts.typeRanges.some(
+        ([start, end]) =>
+          token.start.offset >= start && token.start.offset < end
+      )
+    );
+    this.typeStarts = new Set(facts.typeRanges.map(([start]) => start));
+    this.typeEnds = new Set(facts.typeRanges.map(([, end]) => end));
+    this.ternaryColons = new Set();
+
+    this.lines = [];
+    this.frames = [this.createFrame(0, 0, false, false)];
+    this.pendingBreak = false;
+  }
+
+  print(): Printed {
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+
+      if (DIRECTIVES.has(token.type)) {
+        i = this.printDirective(i);
+      } else if (isComment(token)) {
+        this.printComment(i);
+      } else {
+        this.printToken(i);
+      }
+    }
+
+    return this.render();
+  }
+
+  /*
+
+           printToken()
+             ---
+             places one code token and updates the statement and
+             bracket state after it.
+
+  */
+
+  private printToken(i: number): void {
+    const token = this.tokens[i];
+    const frame = this.frame;
+    const newlines = this.newlinesBefore(i);
+    const opensBlock = this.isBlockBrace(i);
+    const closesBlock =
+      token.type === TokenType.RIGHT_BRACE &&
+      this.isBlockBrace(this.matches[i]);
+
+    let separator: Separator;
+    let indent = 0;
+
+    if (frame.afterBlock) {
+      frame.afterBlock = false;
+
+      if (!this.continuesBlock(i, frame) && frame.brackets.length === 0) {
+        frame.atStart = true;
+        this.pendingBreak = true;
+      }
+    }
+
+    const afterBlock = this.lastTokenClosedBlock(i);
+
+    if (this.lines.length === 0) {
+      separator = 'newline';
+    } else if (this.pendingBreak) {
+      separator = 'newline';
+    } else if (closesBlock) {
+      separator = this.matches[i] === i - 1 ? 'none' : 'newline';
+    } else if (opensBlock) {
+      separator = this.braceSeparator(i, newlines);
+    } else if (afterBlock && this.isKeyword(i, 'else', 'catch', 'finally')) {
+      separator =
+        this.braceStyle === BraceStyle.NEXT_LINE ? 'newline' : 'space';
+    } else if (afterBlock && this.isKeyword(i, 'while')) {
+      separator = 'space';
+    } else if (newlines > 0) {
+      separator = 'newline';
+    } else {
+      separator = this.spaceBetween(i - 1, i) ? 'space' : 'none';
+    }
+
+    this.pendingBreak = false;
+
+    if (closesBlock) {
+      indent = frame.closeIndent;
+    } else if (frame.atStart && frame.brackets.length === 0) {
+      const isLabel = this.isLabelStart(i);
+
+      indent = frame.indent + (frame.labelled && !isLabel ? 1 : 0);
+      frame.atStart = false;
+      frame.inLabel = isLabel;
+      frame.stmtStart = i;
+      frame.stmtIndent = indent;
+    } else {
+      indent = this.continuationIndent(i, afterBlock);
+    }
+
+    const blank =
+      separator === 'newline' &&
+      newlines > 1 &&
+      !closesBlock &&
+      !this.isBlockBrace(this.previousCode(i));
+
+    this.append(
+      token.value,
+      i,
+      separator,
+      indent,
+      blank,
+      this.continuationIndent(i, afterBlock)
+    );
+
+    this.advanceState(i, opensBlock, closesBlock);
+  }
+
+  private advanceState(i: number, opensBlock: boolean, closesBlock: boolean) {
+    const token = this.tokens[i];
+    const frame = this.frame;
+
+    if (opensBlock) {
+      const base =
+        frame.brackets.length > 0 ? this.currentLine.indent : frame.stmtIndent;
+      const inner = this.createFrame(
+        base + 1,
+        base,
+        this.statementHas(frame, i, TokenType.ENUM),
+        this.isKeyword(i - 1, 'do')
+      );
+
+      this.frames.push(inner);
+      this.pendingBreak = this.matches[i] !== i + 1;
+      return;
+    }
+
+    if (closesBlock) {
+      const closed = this.frames.pop()!;
+      this.frame.afterBlock = true;
+      this.frame.afterDo = closed.isDo;
+      return;
+    }
+
+    const ternaries = frame.ternaries;
+
+    switch (token.value) {
+      case '(':
+      case '[':
+      case '{':
+        frame.brackets.push(i);
+        ternaries.push(0);
+        break;
+
+      case ')':
+      case ']':
+      case '}':
+        frame.brackets.pop();
+        ternaries.pop();
+        break;
+
+      case '?':
+        if (!this.inType[i]) {
+          ternaries[ternaries.length - 1]++;
+        }
+        break;
+
+      case ':':
+        if (ternaries[ternaries.length - 1] > 0) {
+          ternaries[ternaries.length - 1]--;
+        } else if (frame.inLabel && frame.brackets.length === 0) {
+          this.endStatement(frame);
+          frame.labelled = true;
+        }
+        break;
+
+      case ';':
+        if (frame.brackets.length === 0) {
+          this.endStatement(frame);
+        }
+        break;
+
+      case ',':
+        if (frame.isEnum && frame.brackets.length === 0) {
+          this.endStatement(frame);
+        }
+        break;
+    }
+  }
+
+  private endStatement(frame: Frame): void {
+    frame.atStart = true;
+    frame.inLabel = false;
+    this.pendingBreak = true;
+  }
+
+  /*
+
+           printComment()
+             ---
+             comments keep their text and stay on the line they
+             were written on, or on a line of their own. they do
+             not change the statement state around them.
+
+  */
+
+  private printComment(i: number): void {
+    const token = this.tokens[i];
+    const frame = this.frame;
+    const newlines = this.newlinesBefore(i);
+
+    let separator: Separator;
+    if (this.lines.length === 0) {
+      separator = 'newline';
+    } else if (newlines > 0) {
+      separator = 'newline';
+    } else {
+      separator = 'space';
+    }
+
+    let indent: number;
+    if (frame.atStart && frame.brackets.length === 0) {
+      indent = frame.indent + (frame.labelled ? 1 : 0);
+    } else if (frame.afterBlock && frame.brackets.length === 0) {
+      indent = frame.stmtIndent;
+    } else {
+      indent = this.continuationIndent(i, false);
+    }
+
+    const text = token.value
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n');
+
+    /* a comment on its own line keeps a break owed after the token before it */
+    if (separator === 'newline') {
+      this.pendingBreak = false;
+    }
+
+    this.append(
+      text,
+      i,
+      separator,
+      indent,
+      separator === 'newline' &&
+        newlines > 1 &&
+        !this.isBlockBrace(this.previousCode(i)),
+      indent
+    );
+
+    if (token.type === TokenType.SINGLE_LINE_COMMENT) {
+      this.pendingBreak = true;
+    }
+  }
+
+  /*
+
+           printDirective()
+             ---
+             preprocessor directives are printed as written, at
+             the first column, with the rest of their line.
+             returns the index of their last token.
+
+  */
+
+  private printDirective(i: number): number {
+    let last = i;
+    while (
+      last + 1 < this.tokens.length &&
+      this.newlinesBefore(last + 1) === 0
+    ) {
+      last++;
+    }
+
+    const text = this.source
+      .slice(this.tokens[i].start.offset, this.tokens[last].end.offset)
+      .trimEnd();
+    const newlines = this.newlinesBefore(i);
+
+    this.append(
+      text,
+      i,
+      'newline',
+      0,
+      this.lines.length > 0 && newlines > 1,
+      0
+    );
+    this.pendingBreak = true;
+
+    return last;
+  }
+
+  /*
+      ====================================
+               --- LAYOUT ---
+      ====================================
+  */
+
+  private append(
+    text: string,
+    token: number,
+    separator: Separator,
+    indent: number,
+    blank: boolean,
+    continuation: number
+  ): void {
+    const previous = token > 0 ? this.tokens[token - 1] : null;
+    const breakable =
+      previous !== null &&
+      !isComment(this.tokens[token]) &&
+      !isComment(previous) &&
+      BREAK_AFTER.has(previous.value) &&
+      !this.inType[token - 1] &&
+      !this.prefixOperators.has(previous.start.offset);
+
+    const part: Part = {
+      text,
+      token,
+      space: separator === 'space',
+      indent: continuation,
+      breakable,
+    };
+
+    if (separator === 'newline' || this.lines.length === 0) {
+      if (blank) {
+        this.lines.push({ indent: 0, parts: [] });
+      }
+      part.space = false;
+      this.lines.push({ indent, parts: [part] });
+      return;
+    }
+
+    if (separator === 'space' && !canJoin(this.lastPart.text, text)) {
+      part.space = true;
+    } else if (separator === 'none' && !canJoin(this.lastPart.text, text)) {
+      part.space = !this.joinsTypeAngles(token);
+    }
+
+    this.currentLine.parts.push(part);
+    this.fitLine();
+  }
+
+  /*
+
+           fitLine()
+             ---
+             breaks the last line while it is too long, each time
+             at the least nested break that leaves the line short
+             enough, or at the first break when none does. comments
+             do not count toward the length.
+
+  */
+
+  private fitLine(): void {
+    for (;;) {
+      const line = this.currentLine;
+      const parts = line.parts;
+
+      if (parts.some((part) => part.text.includes('\n'))) {
+        return;
+      }
+
+      let codeEnd = parts.length - 1;
+      while (codeEnd > 0 && isComment(this.tokens[parts[codeEnd].token])) {
+        codeEnd--;
+      }
+
+      if (this.measure(line, codeEnd) <= this.maxLineLength) {
+        return;
+      }
+
+      /* prefer the break nested least deep, then the last one */
+      let split = -1;
+      for (let k = 1; k <= codeEnd; k++) {
+        if (!parts[k].breakable) {
+          continue;
+        }
+        if (split < 0) {
+          split = k;
+        } else if (
+          this.measure(line, k - 1) <= this.maxLineLength &&
+          (parts[k].indent <= parts[split].indent ||
+            this.measure(line, split - 1) > this.maxLineLength)
+        ) {
+          split = k;
+        }
+      }
+
+      if (split < 0) {
+        return;
+      }
+
+      const rest = parts.splice(split);
+      rest[0].space = false;
+      this.lines.push({ indent: rest[0].indent, parts: rest });
+    }
+  }
+
+  /* the printed width of a line up to and including one of its parts */
+  private measure(line: Line, last: number): number {
+    let width = line.indent * this.indentWidth;
+
+    for (let k = 0; k <= last; k++) {
+      width += line.parts[k].text.length + (line.parts[k].space ? 1 : 0);
+    }
+
+    return width;
+  }
+
+  private render(): Printed {
+    const lines: string[] = [];
+    const spans: TokenSpan[] = [];
+    const lineStarts = this.lineStarts();
+
+    for (const line of this.lines) {
+      let text =
+        line.parts.length > 0 ? this.indentUnit.repeat(line.indent) : '';
+
+      for (const part of line.parts) {
+        const outputStart = lines.length + text.split('\n').length - 1;
+        text += (part.space ? ' ' : '') + part.text;
+        const outputEnd = lines.length + text.split('\n').length - 1;
+
+        const token = this.tokens[part.token];
+        spans.push({
+          sourceStart: this.lineOf(lineStarts, token.start.offset),
+          sourceEnd: this.lineOf(lineStarts, token.end.offset),
+          outputStart,
+          outputEnd,
+        });
+      }
+
+      lines.push(...text.split('\n'));
+    }
+
+    return { lines, spans };
+  }
+
+  /*
+      ====================================
+               --- RULES ---
+      ====================================
+  */
+
+  /* how a '{' opening a body is placed after the token before it */
+  private braceSeparator(i: number, newlines: number): Separator {
+    const frame = this.frame;
+
+    if (
+      this.facts.expressionBlocks.has(this.tokens[i].start.offset) ||
+      frame.brackets.length > 0
+    ) {
+      return newlines > 0 && this.braceStyle === BraceStyle.NEXT_LINE
+        ? 'newline'
+        : 'space';
+    }
+
+    return this.braceStyle === BraceStyle.NEXT_LINE ? 'newline' : 'space';
+  }
+
+  /* tokens that continue a statement after one of its blocks */
+  private continuesBlock(i: number, frame: Frame): boolean {
+    const value = this.tokens[i].value;
+
+    if (this.isKeyword(i, 'else', 'catch', 'finally')) {
+      return true;
+    }
+    if (this.isKeyword(i, 'while')) {
+      return frame.afterDo;
+    }
+
+    return [';', ',', ')', ']', '.', '('].includes(value);
+  }
+
+  private lastTokenClosedBlock(i: number): boolean {
+    const previous = this.previousCode(i);
+
+    return (
+      previous >= 0 &&
+      this.tokens[previous].type === TokenType.RIGHT_BRACE &&
+      this.isBlockBrace(this.matches[previous])
+    );
+  }
+
+  private continuationIndent(i: number, afterBlock: boolean): number {
+    const token = this.tokens[i];
+    const frame = this.frame;
+
+    if (this.isBlockBrace(i) || (afterBlock && this.continuesBlock(i, frame))) {
+      return frame.stmtIndent;
+    }
+
+    const depth = frame.brackets.length;
+    const closes =
+      token.type === TokenType.RIGHT_PAREN ||
+      token.type === TokenType.RIGHT_BRACKET ||
+      token.type === TokenType.RIGHT_BRACE;
+
+    return (
+      frame.stmtIndent + (closes ? Math.max(0, depth - 1) : Math.max(1, depth))
+    );
+  }
+
+  /*
+
+           spaceBetween()
+             ---
+             whether two tokens on one line are separated by a
+             space.
+
+  */
+
+  private spaceBetween(p: number, c: number): boolean {
+    const previous = this.tokens[p];
+    const current = this.tokens[c];
+    const before = previous.value;
+    const after = current.value;
+
+    if (isComment(previous) || isComment(current)) {
+      return true;
+    }
+
+    if ([',', ';', ')', ']'].includes(after) || ['(', '['].includes(before)) {
+      return false;
+    }
+    if (MEMBER_OPERATORS.has(before) || MEMBER_OPERATORS.has(after)) {
+      return false;
+    }
+    if (this.isMemberArrow(p) || this.isMemberArrow(c)) {
+      return false;
+    }
+    if (before === '...' || this.prefixOperators.has(previous.start.offset)) {
+      return false;
+    }
+    if (this.facts.postfixOperators.has(current.end.offset)) {
+      return false;
+    }
+
+    if (before === '{') {
+      return this.matches[p] !== c;
+    }
+    if (after === '}') {
+      return this.matches[c] !== p;
+    }
+
+    if (this.isTypeAngle(p, '<') || this.isTypeAngle(c, '<')) {
+      return false;
+    }
+    if (this.isTypeAngle(c, '>') || this.isTypeSuffix(c)) {
+      return false;
+    }
+    if (this.isTypeAngle(p, '>') || this.isTypeSuffix(p)) {
+      return !['(', '[', '>', '>>', '*', '&', '?'].includes(after);
+    }
+
+    if (after === '(' || after === '[') {
+      if (isWord(previous)) {
+        return (
+          CONTROL_WORDS.has(before) && previous.type !== TokenType.IDENTIFIER
+        );
+      }
+      return ![')', ']', '}'].includes(before);
+    }
+
+    if (current.type === TokenType.COLON) {
+      return this.ternaryColons.has(c) || this.isTernaryColon(c);
+    }
+
+    return true;
+  }
+
+  /* whether a ':' closes a '?' in the same brackets as it */
+  private isTernaryColon(c: number): boolean {
+    const ternaries = this.frame.ternaries;
+    const open = ternaries[ternaries.length - 1] > 0;
+
+    if (open) {
+      this.ternaryColons.add(c);
+    }
+    return open;
+  }
+
+  private isTypeAngle(i: number, side: '<' | '>'): boolean {
+    const token = this.tokens[i];
+
+    if (side === '<') {
+      if (token.type !== TokenType.LESS_THAN) {
+        return false;
+      }
+      const next = this.tokens[i + 1];
+      return (
+        this.inType[i] ||
+        (next !== undefined && this.typeStarts.has(next.start.offset))
+      );
+    }
+
+    if (
+      token.type !== TokenType.GREATER_THAN &&
+      token.type !== TokenType.RIGHT_SHIFT &&
+      token.type !== TokenType.UNSIGNED_RIGHT_SHIFT
+    ) {
+      return false;
+    }
+    const previous = this.tokens[i - 1];
+    return (
+      this.inType[i] ||
+      (previous !== undefined && this.typeEnds.has(previous.end.offset))
+    );
+  }
+
+  /* '*', '&' and '?' written after a type */
+  private isTypeSuffix(i: number): boolean {
+    return this.inType[i] && ['*', '&', '?'].includes(this.tokens[i].value);
+  }
+
+  /* '>>' closing two lists of type arguments may be written as one token */
+  private joinsTypeAngles(i: number): boolean {
+    return this.isTypeAngle(i, '>') && this.isTypeAngle(i - 1, '>');
+  }
+
+  private isMemberArrow(i: number): boolean {
+    const token = this.tokens[i];
+
+    if (token.type === TokenType.ARROW) {
+      const next = this.tokens[i + 1];
+      return (
+        next !== undefined && this.facts.memberNames.has(next.start.offset)
+      );
+    }
+    return false;
+  }
+
+  /* 'case', 'default' and access labels such as 'public:' */
+  private isLabelStart(i: number): boolean {
+    const token = this.tokens[i];
+
+    if (token.type === TokenType.CASE || token.type === TokenType.DEFAULT) {
+      return true;
+    }
+
+    return (
+      (token.type === TokenType.PUBLIC ||
+        token.type === TokenType.PRIVATE ||
+        token.type === TokenType.PROTECTED) &&
+      this.tokens[i + 1]?.type === TokenType.COLON
+    );
+  }
+
+  private isBlockBrace(i: number): boolean {
+    const token = this.tokens[i];
+
+    if (!token || token.type !== TokenType.LEFT_BRACE) {
+      return false;
+    }
+    if (this.facts.literalBraces.has(token.start.offset) || this.inType[i]) {
+      return false;
+    }
+
+    /* import and export lists */
+    const previous = this.tokens[i - 1];
+    return !(
+      previous &&
+      (previous.type === TokenType.IMPORT || previous.type === TokenType.EXPORT)
+    );
+  }
+
+  private isKeyword(i: number, ...words: string[]): boolean {
+    const token = this.tokens[i];
+    return (
+      token !== undefined &&
+      token.type !== TokenType.IDENTIFIER &&
+      words.includes(token.value)
+    );
+  }
+
+  /* whether the statement ending at a token contains a keyword */
+  private statementHas(frame: Frame, end: number, type: TokenType): boolean {
+    for (let k = frame.stmtStart; k < end; k++) {
+      if (this.tokens[k].type === type) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /*
+      ====================================
+               --- HELPERS ---
+      ====================================
+  */
+
+  private get frame(): Frame {
+    return this.frames[this.frames.length - 1];
+  }
+
+  private get currentLine(): Line {
+    return this.lines[this.lines.length - 1];
+  }
+
+  private get lastPart(): Part {
+    const parts = this.currentLine.parts;
+    return parts[parts.length - 1];
+  }
+
+  private createFrame(
+    indent: number,
+    closeIndent: number,
+    isEnum: boolean,
+    isDo: boolean
+  ): Frame {
+    return {
+      isEnum,
+      isDo,
+      indent,
+      closeIndent,
+      brackets: [],
+      ternaries: [0],
+      atStart: true,
+      stmtStart: 0,
+      stmtIndent: indent,
+      labelled: false,
+      inLabel: false,
+      afterBlock: false,
+      afterDo: false,
+    };
+  }
+
+  /* the last token before a token that is not a comment, or -1 */
+  private previousCode(i: number): number {
+    let previous = i - 1;
+    while (previous >= 0 && isComment(this.tokens[previous])) {
+      previous--;
+    }
+    return previous;
+  }
+
+  private newlinesBefore(i: number): number {
+    if (i === 0) {
+      return 0;
+    }
+
+    const gap = this.source.slice(
+      this.tokens[i - 1].end.offset,
+      this.tokens[i].start.offset
+    );
+    return gap.split('\n').length - 1;
+  }
+
+  /* operators written before their operand, '&' captures included */
+  private findPrefixOperators(): Set<number> {
+    const operators = new Set<number>();
+
+    this.tokens.forEach((token, i) => {
+      const next = this.tokens[i + 1];
+
+      if (
+        next &&
+        !isWord(token) &&
+        this.facts.prefixOperands.has(next.start.offset)
+      ) {
+        operators.add(token.start.offset);
+      }
+
+      if (this.facts.lambdas.has(token.start.offset)) {
+        for (let k = i + 1; k < this.matches[i]; k++) {
+          if (this.tokens[k].type === TokenType.BIT_AND) {
+            operators.add(this.tokens[k].start.offset);
+          }
+        }
+      }
+    });
+
+    return operators;
+  }
+
+  private matchBrackets(): number[] {
+    const matches: number[] = new Array(this.tokens.length).fill(-1);
+    const open: number[] = [];
+
+    this.tokens.forEach((token, i) => {
+      if (['(', '[', '{'].includes(token.value)) {
+        open.push(i);
+      } else if ([')', ']', '}'].includes(token.value) && open.length > 0) {
+        const start = open.pop()!;
+        matches[start] = i;
+        matches[i] = start;
+      }
+    });
+
+    return matches;
+  }
+
+  private lineStarts(): number[] {
+    const starts = [0];
+    for (let i = 0; i < this.source.length; i++) {
+      if (this.source[i] === '\n') {
+        starts.push(i + 1);
+      }
+    }
+    return starts;
+  }
+
+  private lineOf(starts: number[], offset: number): number {
+    let low = 0;
+    let high = starts.length - 1;
+
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (starts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+}
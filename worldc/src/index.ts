@@ -38,7 +38,22 @@ export * from './parser/ast';
 export {
   SimpleSemanticAnalyzer,
   SimpleAnalysisResult,
+  ModuleExport,
+  ModuleLinker,
 } from './semantic/simple-analyzer';
+export {
+  ModuleResolver,
+  ModuleHost,
+  ModuleKind,
+  ResolvedModule,
+  SOURCE_EXTENSIONS,
+} from './semantic/module-resolver';
+export {
+  CompileUnit,
+  CompileUnitResult,
+  ModuleCache,
+  ModuleRecord,
+} from './semantic/compile-unit';
 export { SymbolTable, Symbol, SymbolKind } from './semantic/symbol-table';
 export {
   TypeDescriptor,
@@ -46,6 +61,17 @@ export {
   TypeChecker,
 } from './semantic/type-system';
 
+/* formatting */
+export {
+  format,
+  formatRange,
+  checkFormatted,
+  FormatOptions,
+  FormatRange,
+  BraceStyle,
+  FormatError,
+} from './formatter/formatter';
+
 /* error handling */
 export {
   WorldCErrorHandler,
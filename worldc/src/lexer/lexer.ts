@@ -420,6 +420,10 @@ export class Lexer {
         this.scanPreprocessor();
         break;
 
+      case '@':
+        this.scanAnnotation();
+        break;
+
       case '"':
       case "'":
         this.scanString(char);
@@ -526,6 +530,23 @@ export class Lexer {
     }
   }
 
+  /**
+   * Scan annotation ('@asmjs')
+   */
+  private scanAnnotation(): void {
+    let value = '@';
+
+    while (this.isAlphaNumeric(this.peek_char())) {
+      value += this.advance();
+    }
+
+    if (value === '@') {
+      this.throwError("Expected annotation name after '@'");
+    }
+
+    this.addToken(TokenType.ANNOTATION, value);
+  }
+
   /**
    * Scan string literal
    */
@@ -227,6 +227,9 @@ export enum TokenType {
   ENDIF = '#endif',
   PRAGMA = '#pragma',
 
+  // Annotations ('@asmjs')
+  ANNOTATION = 'ANNOTATION',
+
   // Special
   ELLIPSIS = '...',
   NEWLINE = 'NEWLINE',
@@ -324,7 +327,9 @@ export const TYPESCRIPT_KEYWORDS = new Set([
   'await',
   'boolean',
   'declare',
+  'export',
   'extends',
+  'finally',
   'function',
   'implements',
   'import',
@@ -341,6 +346,7 @@ export const TYPESCRIPT_KEYWORDS = new Set([
   'readonly',
   'require',
   'string',
+  'super',
   'symbol',
   'type',
   'typeof',
@@ -84,6 +84,8 @@ export class VariableDeclaration extends Declaration {
  * Function declaration
  */
 export class FunctionDeclaration extends Declaration {
+  public annotations: string[] = []; /* '@asmjs' gives 'asmjs' */
+
   constructor(
     public name: string,
     public parameters: Parameter[],
@@ -161,6 +163,7 @@ export class StructDeclaration extends Declaration {
     public name: string,
     public members: StructMember[],
     public templateParameters: TypeParameter[] = [],
+    public methods: FunctionDeclaration[] = [],
     location: SourceLocation
   ) {
     super(location);
@@ -299,6 +302,19 @@ export class WhileStatement extends Statement {
   }
 }
 
+/**
+ * Do-while statement
+ */
+export class DoWhileStatement extends Statement {
+  constructor(
+    public body: Statement,
+    public condition: Expression,
+    location: SourceLocation
+  ) {
+    super(location);
+  }
+}
+
 /**
  * For statement
  */
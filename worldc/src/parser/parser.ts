@@ -44,6 +44,7 @@ import {
   ExpressionStatement,
   IfStatement,
   WhileStatement,
+  DoWhileStatement,
   ForStatement,
   ForInStatement,
   ForOfStatement,
@@ -101,6 +102,41 @@ import {
   SourceLocation,
 } from './ast';
 
+// Built-in vector, quaternion and matrix type keywords
+const VECTOR_TYPE_TOKENS: TokenType[] = [
+  TokenType.VEC2,
+  TokenType.VEC3,
+  TokenType.VEC4,
+  TokenType.IVEC2,
+  TokenType.IVEC3,
+  TokenType.IVEC4,
+  TokenType.QUAT,
+  TokenType.MAT3,
+  TokenType.MAT4,
+];
+
+// Operators a class or struct may overload with 'operator<op>'
+const OVERLOADABLE_OPERATORS: TokenType[] = [
+  TokenType.PLUS,
+  TokenType.MINUS,
+  TokenType.MULTIPLY,
+  TokenType.DIVIDE,
+  TokenType.MODULO,
+  TokenType.EQUAL,
+  TokenType.NOT_EQUAL,
+  TokenType.LESS_THAN,
+  TokenType.LESS_EQUAL,
+  TokenType.GREATER_THAN,
+  TokenType.GREATER_EQUAL,
+  TokenType.BIT_AND,
+  TokenType.BIT_OR,
+  TokenType.BIT_XOR,
+  TokenType.BIT_NOT,
+  TokenType.LEFT_SHIFT,
+  TokenType.RIGHT_SHIFT,
+  TokenType.NOT,
+];
+
 export interface ParserOptions {
   allowTSFeatures?: boolean;
   allowCPPFeatures?: boolean;
@@ -126,7 +162,7 @@ export class Parser {
   private options: Required<ParserOptions>;
 
   constructor(tokens: Token[], options: ParserOptions = {}) {
-    this.tokens = tokens;
+    this.tokens = [...tokens]; /* '>>' may be split while parsing types */
     this.options = {
       allowTSFeatures: options.allowTSFeatures ?? true,
       allowCPPFeatures: options.allowCPPFeatures ?? true,
@@ -161,6 +197,11 @@ export class Parser {
    */
   private parseDeclaration(): Declaration | null {
     try {
+      // Annotations ('@asmjs') before a function
+      if (this.check(TokenType.ANNOTATION)) {
+        return this.parseAnnotatedDeclaration();
+      }
+
       // TypeScript imports/exports
       if (this.options.allowTSFeatures) {
         if (this.match(TokenType.IMPORT)) return this.parseImportDeclaration();
@@ -175,13 +216,18 @@ export class Parser {
         return this.parseNamespaceDeclaration();
       }
 
+      // C++ style 'template<typename T>' before a type declaration
+      if (this.check(TokenType.TEMPLATE) && this.isTemplateTypeDeclaration()) {
+        return this.parseTemplateTypeDeclaration();
+      }
+
       // Class declarations
       if (this.match(TokenType.CLASS)) return this.parseClassDeclaration();
       if (this.match(TokenType.STRUCT)) return this.parseStructDeclaration();
       if (this.match(TokenType.ENUM)) return this.parseEnumDeclaration();
 
-      // Function declarations
-      if (this.options.allowTSFeatures && this.match(TokenType.FUNCTION)) {
+      // Function declarations ('function' is consumed by the declaration)
+      if (this.options.allowTSFeatures && this.check(TokenType.FUNCTION)) {
         return this.parseFunctionDeclaration();
       }
 
@@ -220,6 +266,60 @@ export class Parser {
     }
   }
 
+  /**
+   * Parse annotations and the function declaration they apply to
+   */
+  private parseAnnotatedDeclaration(): Declaration {
+    const annotations: string[] = [];
+    while (this.match(TokenType.ANNOTATION)) {
+      annotations.push(this.previous().value.slice(1));
+    }
+
+    const token = this.peek();
+    const decl = this.parseDeclaration();
+    const target = decl instanceof ExportDeclaration ? decl.declaration : decl;
+
+    if (!(target instanceof FunctionDeclaration)) {
+      throw new ParseError(
+        'Annotations can only be applied to functions',
+        token
+      );
+    }
+
+    target.annotations.push(...annotations);
+    return decl;
+  }
+
+  /**
+   * Parse a class, struct or interface introduced by a C++ style
+   * 'template<...>' clause
+   */
+  private parseTemplateTypeDeclaration():
+    | ClassDeclaration
+    | StructDeclaration
+    | InterfaceDeclaration {
+    const start = this.advance().start;
+    this.consume(TokenType.LESS_THAN, "Expected '<' after template");
+    const templateParameters = this.parseTypeParameterList();
+
+    let decl: ClassDeclaration | StructDeclaration | InterfaceDeclaration;
+    if (this.match(TokenType.CLASS, TokenType.ABSTRACT)) {
+      decl = this.parseClassDeclaration();
+    } else if (this.match(TokenType.STRUCT)) {
+      decl = this.parseStructDeclaration();
+    } else {
+      this.consume(TokenType.INTERFACE, "Expected 'class' after template");
+      decl = this.parseInterfaceDeclaration();
+    }
+
+    decl.templateParameters = [
+      ...templateParameters,
+      ...decl.templateParameters,
+    ];
+    decl.location = this.createLocation(start, decl.location.end);
+    return decl;
+  }
+
   /**
    * Parse variable declaration
    */
@@ -257,9 +357,9 @@ export class Parser {
     const isLet = this.match(TokenType.LET);
     const isVar = this.match(TokenType.VAR);
 
-    // Parse type
+    // Parse type (omitted for TypeScript style 'name: type' bindings)
     let type: TypeNode | null = null;
-    if (!isLet && !isVar) {
+    if (!isLet && !isVar && !this.isTypeScriptBinding(isConst)) {
       type = this.parseType();
     }
 
@@ -334,16 +434,7 @@ export class Parser {
     const templateParameters: TypeParameter[] = [];
     if (this.match(TokenType.TEMPLATE)) {
       this.consume(TokenType.LESS_THAN, "Expected '<' after template");
-      // Parse template parameters
-      if (!this.check(TokenType.GREATER_THAN)) {
-        do {
-          templateParameters.push(this.parseTypeParameter());
-        } while (this.match(TokenType.COMMA));
-      }
-      this.consume(
-        TokenType.GREATER_THAN,
-        "Expected '>' after template parameters"
-      );
+      templateParameters.push(...this.parseTypeParameterList());
     }
 
     // Return type (C/C++ style) or function keyword (TS style)
@@ -354,9 +445,19 @@ export class Parser {
       this.advance(); // consume 'function'
     }
 
-    // Function name
-    this.consume(TokenType.IDENTIFIER, 'Expected function name');
-    const name = this.previous().value;
+    // Function name, or 'operator+' for an operator overload
+    let name: string;
+    if (this.matchOperatorName()) {
+      name = `operator${this.previous().value}`;
+    } else {
+      this.consume(TokenType.IDENTIFIER, 'Expected function name');
+      name = this.previous().value;
+    }
+
+    // TypeScript style type parameters ('function id<T>(...)')
+    if (this.match(TokenType.LESS_THAN)) {
+      templateParameters.push(...this.parseTypeParameterList());
+    }
 
     // Parameters
     this.consume(TokenType.LEFT_PAREN, "Expected '(' after function name");
@@ -414,21 +515,18 @@ export class Parser {
     const templateParameters: TypeParameter[] = [];
     if (this.match(TokenType.TEMPLATE)) {
       this.consume(TokenType.LESS_THAN, "Expected '<' after template");
-      if (!this.check(TokenType.GREATER_THAN)) {
-        do {
-          templateParameters.push(this.parseTypeParameter());
-        } while (this.match(TokenType.COMMA));
-      }
-      this.consume(
-        TokenType.GREATER_THAN,
-        "Expected '>' after template parameters"
-      );
+      templateParameters.push(...this.parseTypeParameterList());
     }
 
     // Class name
     this.consume(TokenType.IDENTIFIER, 'Expected class name');
     const name = this.previous().value;
 
+    // TypeScript style type parameters ('class Box<T>')
+    if (this.match(TokenType.LESS_THAN)) {
+      templateParameters.push(...this.parseTypeParameterList());
+    }
+
     // Inheritance
     let superClass: TypeNode | null = null;
     if (this.match(TokenType.EXTENDS)) {
@@ -452,6 +550,7 @@ export class Parser {
     }
 
     this.consume(TokenType.RIGHT_BRACE, "Expected '}' after class body");
+    this.match(TokenType.SEMICOLON); // C++ style trailing ';' is optional
 
     return new ClassDeclaration(
       name,
@@ -477,7 +576,7 @@ export class Parser {
     // Parse access modifiers
     if (this.match(TokenType.PUBLIC, TokenType.PRIVATE, TokenType.PROTECTED)) {
       accessModifier = this.previous().value as AccessModifier;
-      this.consume(TokenType.COLON, "Expected ':' after access modifier");
+      this.match(TokenType.COLON); // C++ style 'public:' or TS style 'public'
     }
 
     // Parse other modifiers
@@ -520,21 +619,18 @@ export class Parser {
     const templateParameters: TypeParameter[] = [];
     if (this.match(TokenType.TEMPLATE)) {
       this.consume(TokenType.LESS_THAN, "Expected '<' after template");
-      if (!this.check(TokenType.GREATER_THAN)) {
-        do {
-          templateParameters.push(this.parseTypeParameter());
-        } while (this.match(TokenType.COMMA));
-      }
-      this.consume(
-        TokenType.GREATER_THAN,
-        "Expected '>' after template parameters"
-      );
+      templateParameters.push(...this.parseTypeParameterList());
     }
 
     // Interface name
     this.consume(TokenType.IDENTIFIER, 'Expected interface name');
     const name = this.previous().value;
 
+    // TypeScript style type parameters ('interface Source<T>')
+    if (this.match(TokenType.LESS_THAN)) {
+      templateParameters.push(...this.parseTypeParameterList());
+    }
+
     // Extends
     const extends_: TypeNode[] = [];
     if (this.match(TokenType.EXTENDS)) {
@@ -592,27 +688,24 @@ export class Parser {
     const templateParameters: TypeParameter[] = [];
     if (this.match(TokenType.TEMPLATE)) {
       this.consume(TokenType.LESS_THAN, "Expected '<' after template");
-      if (!this.check(TokenType.GREATER_THAN)) {
-        do {
-          templateParameters.push(this.parseTypeParameter());
-        } while (this.match(TokenType.COMMA));
-      }
-      this.consume(
-        TokenType.GREATER_THAN,
-        "Expected '>' after template parameters"
-      );
+      templateParameters.push(...this.parseTypeParameterList());
     }
 
     // Struct name
     this.consume(TokenType.IDENTIFIER, 'Expected struct name');
     const name = this.previous().value;
 
-    // Struct body
+    // Struct body: fields, plus methods and operator overloads
     this.consume(TokenType.LEFT_BRACE, "Expected '{' before struct body");
     const members: StructMember[] = [];
+    const methods: FunctionDeclaration[] = [];
 
     while (!this.check(TokenType.RIGHT_BRACE) && !this.isAtEnd()) {
-      members.push(this.parseStructMember());
+      if (this.isFunctionDeclaration()) {
+        methods.push(this.parseFunctionDeclaration());
+      } else {
+        members.push(this.parseStructMember());
+      }
     }
 
     this.consume(TokenType.RIGHT_BRACE, "Expected '}' after struct body");
@@ -622,6 +715,7 @@ export class Parser {
       name,
       members,
       templateParameters,
+      methods,
       this.createLocation(start, this.previous().end)
     );
   }
@@ -740,15 +834,7 @@ export class Parser {
     // Template parameters
     const templateParameters: TypeParameter[] = [];
     if (this.match(TokenType.LESS_THAN)) {
-      if (!this.check(TokenType.GREATER_THAN)) {
-        do {
-          templateParameters.push(this.parseTypeParameter());
-        } while (this.match(TokenType.COMMA));
-      }
-      this.consume(
-        TokenType.GREATER_THAN,
-        "Expected '>' after template parameters"
-      );
+      templateParameters.push(...this.parseTypeParameterList());
     }
 
     this.consume(TokenType.ASSIGN, "Expected '=' after type alias name");
@@ -814,7 +900,12 @@ export class Parser {
       );
     }
 
-    this.consume(TokenType.FROM, "Expected 'from' after import specifiers");
+    if (!this.matchContextual(TokenType.FROM)) {
+      throw new ParseError(
+        "Expected 'from' after import specifiers",
+        this.peek()
+      );
+    }
     const source = this.consume(
       TokenType.STRING_LITERAL,
       'Expected module path'
@@ -866,7 +957,7 @@ export class Parser {
         "Expected '}' after export specifiers"
       );
 
-      if (this.match(TokenType.FROM)) {
+      if (this.matchContextual(TokenType.FROM)) {
         source = this.consume(
           TokenType.STRING_LITERAL,
           'Expected module path'
@@ -893,6 +984,7 @@ export class Parser {
     if (this.match(TokenType.LEFT_BRACE)) return this.parseBlockStatement();
     if (this.match(TokenType.IF)) return this.parseIfStatement();
     if (this.match(TokenType.WHILE)) return this.parseWhileStatement();
+    if (this.match(TokenType.DO)) return this.parseDoWhileStatement();
     if (this.match(TokenType.FOR)) return this.parseForStatement();
     if (this.match(TokenType.SWITCH)) return this.parseSwitchStatement();
     if (this.match(TokenType.TRY)) return this.parseTryStatement();
@@ -902,6 +994,9 @@ export class Parser {
     if (this.match(TokenType.CONTINUE)) return this.parseContinueStatement();
     if (this.match(TokenType.THROW)) return this.parseThrowStatement();
 
+    // Local variable declarations
+    if (this.isVariableDeclaration()) return this.parseVariableDeclaration();
+
     return this.parseExpressionStatement();
   }
 
@@ -966,6 +1061,30 @@ export class Parser {
     );
   }
 
+  /**
+   * Parse do-while statement
+   */
+  private parseDoWhileStatement(): DoWhileStatement {
+    const start = this.previous().start;
+
+    const body = this.parseStatement();
+
+    this.consume(TokenType.WHILE, "Expected 'while' after do body");
+    this.consume(TokenType.LEFT_PAREN, "Expected '(' after 'while'");
+    const condition = this.parseExpression();
+    this.consume(
+      TokenType.RIGHT_PAREN,
+      "Expected ')' after do-while condition"
+    );
+    this.consume(TokenType.SEMICOLON, "Expected ';' after do-while statement");
+
+    return new DoWhileStatement(
+      body,
+      condition,
+      this.createLocation(start, this.previous().end)
+    );
+  }
+
   /**
    * Parse for statement
    */
@@ -1126,6 +1245,7 @@ export class Parser {
   private parseTryStatement(): TryStatement {
     const start = this.previous().start;
 
+    this.consume(TokenType.LEFT_BRACE, "Expected '{' after 'try'");
     const body = this.parseBlockStatement();
 
     let handler: CatchClause | null = null;
@@ -1146,6 +1266,7 @@ export class Parser {
         );
       }
 
+      this.consume(TokenType.LEFT_BRACE, "Expected '{' after 'catch'");
       const catchBody = this.parseBlockStatement();
       handler = new CatchClause(
         param,
@@ -1156,6 +1277,7 @@ export class Parser {
 
     let finalizer: BlockStatement | null = null;
     if (this.match(TokenType.FINALLY)) {
+      this.consume(TokenType.LEFT_BRACE, "Expected '{' after 'finally'");
       finalizer = this.parseBlockStatement();
     }
 
@@ -1576,6 +1698,22 @@ export class Parser {
       );
     }
 
+    // Pointer dereference and address-of (C/C++)
+    if (
+      this.options.allowCPPFeatures &&
+      this.match(TokenType.MULTIPLY, TokenType.BIT_AND)
+    ) {
+      const operator = this.previous().value;
+      const start = this.previous().start;
+      const right = this.parseUnary();
+      return new UnaryExpression(
+        operator,
+        right,
+        true,
+        this.createLocation(start, right.location.end)
+      );
+    }
+
     if (this.match(TokenType.INCREMENT, TokenType.DECREMENT)) {
       const operator = this.previous().value;
       const right = this.parsePostfix();
@@ -1654,7 +1792,16 @@ export class Parser {
           this.createLocation(expr.location.start, this.previous().end)
         );
         // Call expression or invoke expression
-      } else if (this.match(TokenType.LEFT_PAREN)) {
+      } else if (
+        this.check(TokenType.LEFT_PAREN) ||
+        (this.check(TokenType.LESS_THAN) && this.isCallTypeArguments())
+      ) {
+        // Explicit template arguments ('identity<int>(x)')
+        const templateArguments = this.match(TokenType.LESS_THAN)
+          ? this.parseTypeArgumentList()
+          : [];
+        this.consume(TokenType.LEFT_PAREN, "Expected '(' after arguments");
+
         const args: Expression[] = [];
         if (!this.check(TokenType.RIGHT_PAREN)) {
           do {
@@ -1665,7 +1812,7 @@ export class Parser {
         expr = new CallExpression(
           expr,
           args,
-          [],
+          templateArguments,
           this.createLocation(expr.location.start, this.previous().end)
         );
       } else {
@@ -1682,7 +1829,9 @@ export class Parser {
   private parsePrimary(): Expression {
     const start = this.peek().start;
 
-    if (this.match(TokenType.TRUE, TokenType.FALSE)) {
+    if (
+      this.match(TokenType.TRUE, TokenType.FALSE, TokenType.BOOLEAN_LITERAL)
+    ) {
       const value = this.previous().value === 'true';
       return new Literal(
         value,
@@ -1751,6 +1900,18 @@ export class Parser {
       );
     }
 
+    // Vector, quaternion and matrix constructors ('vec3(1.0f, 2.0f, 3.0f)')
+    if (this.check(...VECTOR_TYPE_TOKENS)) {
+      const next = this.tokens[this.current + 1];
+      if (next && next.type === TokenType.LEFT_PAREN) {
+        const name = this.advance().value;
+        return new Identifier(
+          name,
+          this.createLocation(start, this.previous().end)
+        );
+      }
+    }
+
     // WORLDC invoke expression
     if (this.match(TokenType.INVOKE)) {
       const funcName = this.consume(
@@ -1862,6 +2023,9 @@ export class Parser {
 
     if (this.match(TokenType.NEW)) {
       const callee = this.parsePrimary();
+      const templateArguments = this.match(TokenType.LESS_THAN)
+        ? this.parseTypeArgumentList()
+        : [];
       let args: Expression[] = [];
       if (this.match(TokenType.LEFT_PAREN)) {
         if (!this.check(TokenType.RIGHT_PAREN)) {
@@ -1874,7 +2038,7 @@ export class Parser {
       return new NewExpression(
         callee,
         args,
-        [],
+        templateArguments,
         this.createLocation(start, this.previous().end)
       );
     }
@@ -2021,9 +2185,17 @@ export class Parser {
       isRest = true;
     }
 
-    // Parameter type (C/C++ style)
+    // Parameter type (C/C++ style); TypeScript style names come first
     let type: TypeNode | null = null;
-    if (!this.check(TokenType.IDENTIFIER) || this.isTypeToken()) {
+    const next = this.tokens[this.current + 1];
+    const isTypeScriptStyle =
+      this.check(TokenType.IDENTIFIER) &&
+      !!next &&
+      (next.type === TokenType.COLON || next.type === TokenType.QUESTION);
+    if (
+      !isTypeScriptStyle &&
+      (!this.check(TokenType.IDENTIFIER) || this.isTypeToken())
+    ) {
       type = this.parseType();
     }
 
@@ -2031,17 +2203,14 @@ export class Parser {
     this.consume(TokenType.IDENTIFIER, 'Expected parameter name');
     const name = this.previous().value;
 
+    // Optional parameter ('name?: type')
+    const isOptional = this.match(TokenType.QUESTION);
+
     // TypeScript type annotation
     if (this.match(TokenType.COLON)) {
       type = this.parseType();
     }
 
-    // Optional parameter
-    let isOptional = false;
-    if (this.match(TokenType.QUESTION)) {
-      isOptional = true;
-    }
-
     // Default value
     let defaultValue: Expression | null = null;
     if (this.match(TokenType.ASSIGN)) {
@@ -2072,6 +2241,9 @@ export class Parser {
   private parseTypeParameter(): TypeParameter {
     const start = this.peek().start;
 
+    // C++ 'typename T' and 'class T'
+    this.match(TokenType.TYPENAME, TokenType.CLASS);
+
     this.consume(TokenType.IDENTIFIER, 'Expected type parameter name');
     const name = this.previous().value;
 
@@ -2093,6 +2265,70 @@ export class Parser {
     );
   }
 
+  /**
+   * Parse type parameters after '<' up to the closing '>'
+   */
+  private parseTypeParameterList(): TypeParameter[] {
+    const parameters: TypeParameter[] = [];
+
+    if (!this.check(TokenType.GREATER_THAN)) {
+      do {
+        parameters.push(this.parseTypeParameter());
+      } while (this.match(TokenType.COMMA));
+    }
+    this.consumeClosingAngle("Expected '>' after template parameters");
+
+    return parameters;
+  }
+
+  /**
+   * Parse type arguments after '<' up to the closing '>'
+   */
+  private parseTypeArgumentList(): TypeNode[] {
+    const typeArguments: TypeNode[] = [];
+
+    if (!this.check(TokenType.GREATER_THAN)) {
+      do {
+        typeArguments.push(this.parseType());
+      } while (this.match(TokenType.COMMA));
+    }
+    this.consumeClosingAngle("Expected '>' after type arguments");
+
+    return typeArguments;
+  }
+
+  /**
+   * Consume a '>' closing a type list; '>>' and '>>>' are split
+   * so nested lists ('Box<Box<int>>') close one level at a time
+   */
+  private consumeClosingAngle(message: string): void {
+    const token = this.peek();
+
+    if (
+      token.type === TokenType.RIGHT_SHIFT ||
+      token.type === TokenType.UNSIGNED_RIGHT_SHIFT
+    ) {
+      const rest = token.value.slice(1);
+      this.tokens.splice(
+        this.current,
+        1,
+        { ...token, type: TokenType.GREATER_THAN, value: '>' },
+        {
+          type: rest === '>' ? TokenType.GREATER_THAN : TokenType.RIGHT_SHIFT,
+          value: rest,
+          start: {
+            line: token.start.line,
+            column: token.start.column + 1,
+            offset: token.start.offset + 1,
+          },
+          end: token.end,
+        }
+      );
+    }
+
+    this.consume(TokenType.GREATER_THAN, message);
+  }
+
   /**
    * Parse type
    */
@@ -2224,9 +2460,11 @@ export class Parser {
       );
     }
 
-    // Named type
-    this.consume(TokenType.IDENTIFIER, 'Expected type name');
-    const name = this.previous().value;
+    // Named type (user defined identifier or built-in type keyword)
+    if (!this.isTypeToken()) {
+      throw new ParseError('Expected type name', this.peek());
+    }
+    const name = this.advance().value;
     let type: TypeNode = new PrimitiveType(
       name,
       this.createLocation(start, this.previous().end)
@@ -2234,13 +2472,7 @@ export class Parser {
 
     // Generic type
     if (this.match(TokenType.LESS_THAN)) {
-      const typeArguments: TypeNode[] = [];
-      if (!this.check(TokenType.GREATER_THAN)) {
-        do {
-          typeArguments.push(this.parseType());
-        } while (this.match(TokenType.COMMA));
-      }
-      this.consume(TokenType.GREATER_THAN, "Expected '>' after type arguments");
+      const typeArguments = this.parseTypeArgumentList();
       type = new GenericType(
         name,
         typeArguments,
@@ -2262,6 +2494,18 @@ export class Parser {
       );
     }
 
+    // Pointer and reference declarators (C/C++ 'T*', 'T&')
+    while (
+      this.options.allowCPPFeatures &&
+      this.match(TokenType.MULTIPLY, TokenType.BIT_AND)
+    ) {
+      const location = this.createLocation(start, this.previous().end);
+      type =
+        this.previous().type === TokenType.MULTIPLY
+          ? new PointerType(type, location)
+          : new ReferenceType(type, location);
+    }
+
     // Optional type (TypeScript)
     if (this.options.allowTSFeatures && this.match(TokenType.QUESTION)) {
       type = new OptionalType(
@@ -2309,6 +2553,16 @@ export class Parser {
     return false;
   }
 
+  // Contextual keywords such as 'from' are lexed as identifiers so that
+  // they stay usable as names everywhere else
+  private matchContextual(keyword: TokenType): boolean {
+    if (this.check(TokenType.IDENTIFIER) && this.peek().value === keyword) {
+      this.advance();
+      return true;
+    }
+    return this.match(keyword);
+  }
+
   private consume(type: TokenType, message: string): Token {
     if (this.check(type)) return this.advance();
     throw new ParseError(message, this.peek());
@@ -2342,6 +2596,47 @@ export class Parser {
     return { start, end };
   }
 
+  /**
+   * Check if a '<' starts type arguments of a call ('f<int>(...)')
+   * rather than a comparison
+   */
+  private isCallTypeArguments(): boolean {
+    const checkpoint = this.current;
+
+    try {
+      this.advance();
+      this.parseTypeArgumentList();
+      return this.check(TokenType.LEFT_PAREN);
+    } catch {
+      return false;
+    } finally {
+      this.current = checkpoint;
+    }
+  }
+
+  /**
+   * Check if a template clause introduces a class, struct or interface
+   */
+  private isTemplateTypeDeclaration(): boolean {
+    const checkpoint = this.current;
+
+    try {
+      this.advance();
+      this.consume(TokenType.LESS_THAN, "Expected '<' after template");
+      this.parseTypeParameterList();
+      return this.check(
+        TokenType.CLASS,
+        TokenType.STRUCT,
+        TokenType.INTERFACE,
+        TokenType.ABSTRACT
+      );
+    } catch {
+      return false;
+    } finally {
+      this.current = checkpoint;
+    }
+  }
+
   private isFunctionDeclaration(): boolean {
     const checkpoint = this.current;
 
@@ -2378,7 +2673,7 @@ export class Parser {
       if (this.isTypeToken()) {
         this.parseType();
         // Function name
-        if (this.match(TokenType.IDENTIFIER)) {
+        if (this.match(TokenType.IDENTIFIER) || this.matchOperatorName()) {
           // Parameters
           if (this.match(TokenType.LEFT_PAREN)) {
             return true;
@@ -2394,13 +2689,36 @@ export class Parser {
     }
   }
 
+  // Consumes 'operator' and the overloaded operator ('operator+', 'operator==')
+  private matchOperatorName(): boolean {
+    if (!this.check(TokenType.OPERATOR)) return false;
+
+    const next = this.tokens[this.current + 1];
+    if (!next || !OVERLOADABLE_OPERATORS.includes(next.type)) return false;
+
+    this.advance(); // consume 'operator'
+    this.advance(); // consume the operator itself
+    return true;
+  }
+
   private isVariableDeclaration(): boolean {
     const checkpoint = this.current;
 
     try {
       // Skip modifiers
-      while (this.match(TokenType.CONST, TokenType.STATIC, TokenType.EXTERN)) {
-        // Continue
+      let isConst = false;
+      while (
+        this.match(
+          TokenType.CONST,
+          TokenType.EDICT,
+          TokenType.STATIC,
+          TokenType.EXTERN
+        )
+      ) {
+        const modifier = this.previous().type;
+        if (modifier === TokenType.CONST || modifier === TokenType.EDICT) {
+          isConst = true;
+        }
       }
 
       // TypeScript let/var
@@ -2408,6 +2726,11 @@ export class Parser {
         return true;
       }
 
+      // TypeScript style 'const name: type' or 'const name = value'
+      if (this.isTypeScriptBinding(isConst)) {
+        return true;
+      }
+
       // C/C++ style type declaration
       if (this.isTypeToken()) {
         this.parseType();
@@ -2425,6 +2748,18 @@ export class Parser {
     }
   }
 
+  private isTypeScriptBinding(isConst: boolean): boolean {
+    if (!this.check(TokenType.IDENTIFIER)) return false;
+
+    const next = this.tokens[this.current + 1];
+    if (!next) return false;
+
+    return (
+      next.type === TokenType.COLON ||
+      (isConst && next.type === TokenType.ASSIGN)
+    );
+  }
+
   private isTypeToken(): boolean {
     return this.check(
       TokenType.VOID,
@@ -2447,15 +2782,7 @@ export class Parser {
       TokenType.BIGINT,
       TokenType.UNKNOWN,
       TokenType.NEVER,
-      TokenType.VEC2,
-      TokenType.VEC3,
-      TokenType.VEC4,
-      TokenType.IVEC2,
-      TokenType.IVEC3,
-      TokenType.IVEC4,
-      TokenType.QUAT,
-      TokenType.MAT3,
-      TokenType.MAT4,
+      ...VECTOR_TYPE_TOKENS,
       TokenType.IDENTIFIER
     );
   }
@@ -0,0 +1,618 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         math.ts
+           ---
+           runtime math module for TypeScript output.
+
+           WORLDC vector, quaternion and matrix values lower to
+           the classes below: 'v * 2.0' becomes 'Vec3.scale(v, 2)'
+           and 'm * v' becomes 'Mat4.transform(m, v)'. operations
+           never modify their operands, so a value is only shared
+           when the generated code copies it with 'clone'.
+
+           integer vectors hold whole numbers; their division
+           truncates toward zero like WORLDC integer division.
+
+*/
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+/* a value whose components can be read by position */
+export interface Components {
+  get(index: number): number;
+}
+
+/*
+    ====================================
+             --- VECTORS ---
+    ====================================
+*/
+
+/*
+
+         Vec2, Vec3, Vec4
+           ---
+           floating point vectors. arithmetic between two vectors
+           is component-wise; 'scale' and 'divScalar' apply one
+           scalar to every component.
+
+*/
+
+export class Vec2 implements Components {
+  constructor(
+    public x = 0,
+    public y = 0
+  ) {}
+
+  public get(index: number): number {
+    return index === 0 ? this.x : this.y;
+  }
+
+  public static splat(s: number): Vec2 {
+    return new Vec2(s, s);
+  }
+
+  public static swizzle(v: Components, x: number, y: number): Vec2 {
+    return new Vec2(v.get(x), v.get(y));
+  }
+
+  public static clone(v: Vec2): Vec2 {
+    return new Vec2(v.x, v.y);
+  }
+
+  public static add(a: Vec2, b: Vec2): Vec2 {
+    return new Vec2(a.x + b.x, a.y + b.y);
+  }
+
+  public static sub(a: Vec2, b: Vec2): Vec2 {
+    return new Vec2(a.x - b.x, a.y - b.y);
+  }
+
+  public static mul(a: Vec2, b: Vec2): Vec2 {
+    return new Vec2(a.x * b.x, a.y * b.y);
+  }
+
+  public static div(a: Vec2, b: Vec2): Vec2 {
+    return new Vec2(a.x / b.x, a.y / b.y);
+  }
+
+  public static scale(v: Vec2, s: number): Vec2 {
+    return new Vec2(v.x * s, v.y * s);
+  }
+
+  public static divScalar(v: Vec2, s: number): Vec2 {
+    return new Vec2(v.x / s, v.y / s);
+  }
+
+  public static negate(v: Vec2): Vec2 {
+    return new Vec2(-v.x, -v.y);
+  }
+
+  public static equals(a: Vec2, b: Vec2): boolean {
+    return a.x === b.x && a.y === b.y;
+  }
+}
+
+export class Vec3 implements Components {
+  constructor(
+    public x = 0,
+    public y = 0,
+    public z = 0
+  ) {}
+
+  public get(index: number): number {
+    return index === 0 ? this.x : index === 1 ? this.y : this.z;
+  }
+
+  public static splat(s: number): Vec3 {
+    return new Vec3(s, s, s);
+  }
+
+  public static swizzle(v: Components, x: number, y: number, z: number): Vec3 {
+    return new Vec3(v.get(x), v.get(y), v.get(z));
+  }
+
+  public static clone(v: Vec3): Vec3 {
+    return new Vec3(v.x, v.y, v.z);
+  }
+
+  public static add(a: Vec3, b: Vec3): Vec3 {
+    return new Vec3(a.x + b.x, a.y + b.y, a.z + b.z);
+  }
+
+  public static sub(a: Vec3, b: Vec3): Vec3 {
+    return new Vec3(a.x - b.x, a.y - b.y, a.z - b.z);
+  }
+
+  public static mul(a: Vec3, b: Vec3): Vec3 {
+    return new Vec3(a.x * b.x, a.y * b.y, a.z * b.z);
+  }
+
+  public static div(a: Vec3, b: Vec3): Vec3 {
+    return new Vec3(a.x / b.x, a.y / b.y, a.z / b.z);
+  }
+
+  public static scale(v: Vec3, s: number): Vec3 {
+    return new Vec3(v.x * s, v.y * s, v.z * s);
+  }
+
+  public static divScalar(v: Vec3, s: number): Vec3 {
+    return new Vec3(v.x / s, v.y / s, v.z / s);
+  }
+
+  public static negate(v: Vec3): Vec3 {
+    return new Vec3(-v.x, -v.y, -v.z);
+  }
+
+  public static equals(a: Vec3, b: Vec3): boolean {
+    return a.x === b.x && a.y === b.y && a.z === b.z;
+  }
+}
+
+export class Vec4 implements Components {
+  constructor(
+    public x = 0,
+    public y = 0,
+    public z = 0,
+    public w = 0
+  ) {}
+
+  public get(index: number): number {
+    return [this.x, this.y, this.z, this.w][index];
+  }
+
+  public static splat(s: number): Vec4 {
+    return new Vec4(s, s, s, s);
+  }
+
+  public static swizzle(
+    v: Components,
+    x: number,
+    y: number,
+    z: number,
+    w: number
+  ): Vec4 {
+    return new Vec4(v.get(x), v.get(y), v.get(z), v.get(w));
+  }
+
+  public static clone(v: Vec4): Vec4 {
+    return new Vec4(v.x, v.y, v.z, v.w);
+  }
+
+  public static add(a: Vec4, b: Vec4): Vec4 {
+    return new Vec4(a.x + b.x, a.y + b.y, a.z + b.z, a.w + b.w);
+  }
+
+  public static sub(a: Vec4, b: Vec4): Vec4 {
+    return new Vec4(a.x - b.x, a.y - b.y, a.z - b.z, a.w - b.w);
+  }
+
+  public static mul(a: Vec4, b: Vec4): Vec4 {
+    return new Vec4(a.x * b.x, a.y * b.y, a.z * b.z, a.w * b.w);
+  }
+
+  public static div(a: Vec4, b: Vec4): Vec4 {
+    return new Vec4(a.x / b.x, a.y / b.y, a.z / b.z, a.w / b.w);
+  }
+
+  public static scale(v: Vec4, s: number): Vec4 {
+    return new Vec4(v.x * s, v.y * s, v.z * s, v.w * s);
+  }
+
+  public static divScalar(v: Vec4, s: number): Vec4 {
+    return new Vec4(v.x / s, v.y / s, v.z / s, v.w / s);
+  }
+
+  public static negate(v: Vec4): Vec4 {
+    return new Vec4(-v.x, -v.y, -v.z, -v.w);
+  }
+
+  public static equals(a: Vec4, b: Vec4): boolean {
+    return a.x === b.x && a.y === b.y && a.z === b.z && a.w === b.w;
+  }
+}
+
+/*
+
+         IVec2, IVec3, IVec4
+           ---
+           integer vectors. they share the float vectors' layout
+           and differ only in truncating division.
+
+*/
+
+export class IVec2 extends Vec2 {
+  public static splat(s: number): IVec2 {
+    return new IVec2(s, s);
+  }
+
+  public static swizzle(v: Components, x: number, y: number): IVec2 {
+    return new IVec2(v.get(x), v.get(y));
+  }
+
+  public static clone(v: IVec2): IVec2 {
+    return new IVec2(v.x, v.y);
+  }
+
+  public static add(a: IVec2, b: IVec2): IVec2 {
+    return new IVec2(a.x + b.x, a.y + b.y);
+  }
+
+  public static sub(a: IVec2, b: IVec2): IVec2 {
+    return new IVec2(a.x - b.x, a.y - b.y);
+  }
+
+  public static mul(a: IVec2, b: IVec2): IVec2 {
+    return new IVec2(a.x * b.x, a.y * b.y);
+  }
+
+  public static div(a: IVec2, b: IVec2): IVec2 {
+    return new IVec2(Math.trunc(a.x / b.x), Math.trunc(a.y / b.y));
+  }
+
+  public static scale(v: IVec2, s: number): IVec2 {
+    return new IVec2(v.x * s, v.y * s);
+  }
+
+  public static divScalar(v: IVec2, s: number): IVec2 {
+    return new IVec2(Math.trunc(v.x / s), Math.trunc(v.y / s));
+  }
+
+  public static negate(v: IVec2): IVec2 {
+    return new IVec2(-v.x, -v.y);
+  }
+}
+
+export class IVec3 extends Vec3 {
+  public static splat(s: number): IVec3 {
+    return new IVec3(s, s, s);
+  }
+
+  public static swizzle(v: Components, x: number, y: number, z: number): IVec3 {
+    return new IVec3(v.get(x), v.get(y), v.get(z));
+  }
+
+  public static clone(v: IVec3): IVec3 {
+    return new IVec3(v.x, v.y, v.z);
+  }
+
+  public static add(a: IVec3, b: IVec3): IVec3 {
+    return new IVec3(a.x + b.x, a.y + b.y, a.z + b.z);
+  }
+
+  public static sub(a: IVec3, b: IVec3): IVec3 {
+    return new IVec3(a.x - b.x, a.y - b.y, a.z - b.z);
+  }
+
+  public static mul(a: IVec3, b: IVec3): IVec3 {
+    return new IVec3(a.x * b.x, a.y * b.y, a.z * b.z);
+  }
+
+  public static div(a: IVec3, b: IVec3): IVec3 {
+    return new IVec3(
+      Math.trunc(a.x / b.x),
+      Math.trunc(a.y / b.y),
+      Math.trunc(a.z / b.z)
+    );
+  }
+
+  public static scale(v: IVec3, s: number): IVec3 {
+    return new IVec3(v.x * s, v.y * s, v.z * s);
+  }
+
+  public static divScalar(v: IVec3, s: number): IVec3 {
+    return new IVec3(
+      Math.trunc(v.x / s),
+      Math.trunc(v.y / s),
+      Math.trunc(v.z / s)
+    );
+  }
+
+  public static negate(v: IVec3): IVec3 {
+    return new IVec3(-v.x, -v.y, -v.z);
+  }
+}
+
+export class IVec4 extends Vec4 {
+  public static splat(s: number): IVec4 {
+    return new IVec4(s, s, s, s);
+  }
+
+  public static swizzle(
+    v: Components,
+    x: number,
+    y: number,
+    z: number,
+    w: number
+  ): IVec4 {
+    return new IVec4(v.get(x), v.get(y), v.get(z), v.get(w));
+  }
+
+  public static clone(v: IVec4): IVec4 {
+    return new IVec4(v.x, v.y, v.z, v.w);
+  }
+
+  public static add(a: IVec4, b: IVec4): IVec4 {
+    return new IVec4(a.x + b.x, a.y + b.y, a.z + b.z, a.w + b.w);
+  }
+
+  public static sub(a: IVec4, b: IVec4): IVec4 {
+    return new IVec4(a.x - b.x, a.y - b.y, a.z - b.z, a.w - b.w);
+  }
+
+  public static mul(a: IVec4, b: IVec4): IVec4 {
+    return new IVec4(a.x * b.x, a.y * b.y, a.z * b.z, a.w * b.w);
+  }
+
+  public static div(a: IVec4, b: IVec4): IVec4 {
+    return new IVec4(
+      Math.trunc(a.x / b.x),
+      Math.trunc(a.y / b.y),
+      Math.trunc(a.z / b.z),
+      Math.trunc(a.w / b.w)
+    );
+  }
+
+  public static scale(v: IVec4, s: number): IVec4 {
+    return new IVec4(v.x * s, v.y * s, v.z * s, v.w * s);
+  }
+
+  public static divScalar(v: IVec4, s: number): IVec4 {
+    return new IVec4(
+      Math.trunc(v.x / s),
+      Math.trunc(v.y / s),
+      Math.trunc(v.z / s),
+      Math.trunc(v.w / s)
+    );
+  }
+
+  public static negate(v: IVec4): IVec4 {
+    return new IVec4(-v.x, -v.y, -v.z, -v.w);
+  }
+}
+
+/*
+    ====================================
+             --- QUATERNIONS ---
+    ====================================
+*/
+
+/*
+
+         Quat
+           ---
+           rotation quaternion, identity by default. 'q * r' is
+           the Hamilton product (r applied first) and 'q * v'
+           rotates a vec3.
+
+*/
+
+export class Quat implements Components {
+  constructor(
+    public x = 0,
+    public y = 0,
+    public z = 0,
+    public w = 1
+  ) {}
+
+  public get(index: number): number {
+    return [this.x, this.y, this.z, this.w][index];
+  }
+
+  public static splat(s: number): Quat {
+    return new Quat(s, s, s, s);
+  }
+
+  public static clone(q: Quat): Quat {
+    return new Quat(q.x, q.y, q.z, q.w);
+  }
+
+  public static add(a: Quat, b: Quat): Quat {
+    return new Quat(a.x + b.x, a.y + b.y, a.z + b.z, a.w + b.w);
+  }
+
+  public static sub(a: Quat, b: Quat): Quat {
+    return new Quat(a.x - b.x, a.y - b.y, a.z - b.z, a.w - b.w);
+  }
+
+  public static mul(a: Quat, b: Quat): Quat {
+    return new Quat(
+      a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+      a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+      a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+      a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z
+    );
+  }
+
+  public static scale(q: Quat, s: number): Quat {
+    return new Quat(q.x * s, q.y * s, q.z * s, q.w * s);
+  }
+
+  public static divScalar(q: Quat, s: number): Quat {
+    return new Quat(q.x / s, q.y / s, q.z / s, q.w / s);
+  }
+
+  public static negate(q: Quat): Quat {
+    return new Quat(-q.x, -q.y, -q.z, -q.w);
+  }
+
+  public static equals(a: Quat, b: Quat): boolean {
+    return a.x === b.x && a.y === b.y && a.z === b.z && a.w === b.w;
+  }
+
+  /* v + 2w(u x v) + 2(u x (u x v)) with u the vector part of q */
+  public static rotate(q: Quat, v: Vec3): Vec3 {
+    const tx = 2 * (q.y * v.z - q.z * v.y);
+    const ty = 2 * (q.z * v.x - q.x * v.z);
+    const tz = 2 * (q.x * v.y - q.y * v.x);
+
+    return new Vec3(
+      v.x + q.w * tx + (q.y * tz - q.z * ty),
+      v.y + q.w * ty + (q.z * tx - q.x * tz),
+      v.z + q.w * tz + (q.x * ty - q.y * tx)
+    );
+  }
+}
+
+/*
+    ====================================
+             --- MATRICES ---
+    ====================================
+*/
+
+/*
+
+         Mat3, Mat4
+           ---
+           square matrices stored column by column, identity by
+           default. 'a * b' applies b first, 'm * v' transforms a
+           column vector.
+
+*/
+
+export class Mat3 {
+  public readonly m: Float32Array;
+
+  constructor(elements?: ArrayLike<number>) {
+    this.m = elements
+      ? Float32Array.from(elements)
+      : Float32Array.of(1, 0, 0, 0, 1, 0, 0, 0, 1);
+  }
+
+  public static diagonal(s: number): Mat3 {
+    return new Mat3([s, 0, 0, 0, s, 0, 0, 0, s]);
+  }
+
+  public static clone(a: Mat3): Mat3 {
+    return new Mat3(a.m);
+  }
+
+  public static add(a: Mat3, b: Mat3): Mat3 {
+    return new Mat3(a.m.map((value, i) => value + b.m[i]));
+  }
+
+  public static sub(a: Mat3, b: Mat3): Mat3 {
+    return new Mat3(a.m.map((value, i) => value - b.m[i]));
+  }
+
+  public static mul(a: Mat3, b: Mat3): Mat3 {
+    return new Mat3(multiply(a.m, b.m, 3));
+  }
+
+  public static scale(a: Mat3, s: number): Mat3 {
+    return new Mat3(a.m.map((value) => value * s));
+  }
+
+  public static divScalar(a: Mat3, s: number): Mat3 {
+    return new Mat3(a.m.map((value) => value / s));
+  }
+
+  public static negate(a: Mat3): Mat3 {
+    return new Mat3(a.m.map((value) => -value));
+  }
+
+  public static equals(a: Mat3, b: Mat3): boolean {
+    return a.m.every((value, i) => value === b.m[i]);
+  }
+
+  public static transform(a: Mat3, v: Vec3): Vec3 {
+    const [x, y, z] = multiply(a.m, [v.x, v.y, v.z], 3);
+    return new Vec3(x, y, z);
+  }
+}
+
+export class Mat4 {
+  public readonly m: Float32Array;
+
+  constructor(elements?: ArrayLike<number>) {
+    this.m = elements
+      ? Float32Array.from(elements)
+      : Float32Array.of(1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1);
+  }
+
+  public static diagonal(s: number): Mat4 {
+    return new Mat4([s, 0, 0, 0, 0, s, 0, 0, 0, 0, s, 0, 0, 0, 0, s]);
+  }
+
+  public static clone(a: Mat4): Mat4 {
+    return new Mat4(a.m);
+  }
+
+  public static add(a: Mat4, b: Mat4): Mat4 {
+    return new Mat4(a.m.map((value, i) => value + b.m[i]));
+  }
+
+  public static sub(a: Mat4, b: Mat4): Mat4 {
+    return new Mat4(a.m.map((value, i) => value - b.m[i]));
+  }
+
+  public static mul(a: Mat4, b: Mat4): Mat4 {
+    return new Mat4(multiply(a.m, b.m, 4));
+  }
+
+  public static scale(a: Mat4, s: number): Mat4 {
+    return new Mat4(a.m.map((value) => value * s));
+  }
+
+  public static divScalar(a: Mat4, s: number): Mat4 {
+    return new Mat4(a.m.map((value) => value / s));
+  }
+
+  public static negate(a: Mat4): Mat4 {
+    return new Mat4(a.m.map((value) => -value));
+  }
+
+  public static equals(a: Mat4, b: Mat4): boolean {
+    return a.m.every((value, i) => value === b.m[i]);
+  }
+
+  public static transform(a: Mat4, v: Vec4): Vec4 {
+    const [x, y, z, w] = multiply(a.m, [v.x, v.y, v.z, v.w], 4);
+    return new Vec4(x, y, z, w);
+  }
+}
+
+/*
+
+         multiply()
+           ---
+           product of a column-major n x n matrix and a matrix
+           or column vector with n rows, itself column-major.
+
+*/
+
+function multiply(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  n: number
+): number[] {
+  const result: number[] = [];
+
+  for (let column = 0; column < b.length / n; column++) {
+    for (let row = 0; row < n; row++) {
+      let sum = 0;
+      for (let k = 0; k < n; k++) {
+        sum += a[k * n + row] * b[column * n + k];
+      }
+      result.push(sum);
+    }
+  }
+
+  return result;
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
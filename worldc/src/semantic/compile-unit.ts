@@ -0,0 +1,514 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         compile-unit.ts
+           ---
+           the modules of a WORLDC project and the imports
+           between them.
+
+           a compile unit loads its entry files and every module
+           they import, orders the graph so that each module is
+           analyzed after the modules it imports, and gives the
+           analyzer the exports of those modules. import cycles
+           are reported at the import that closes them.
+
+           a unit given a module cache parses only the modules
+           whose source changed since they were cached.
+
+*/
+
+import * as path from 'path';
+
+import {
+  Program,
+  ASTNode,
+  ImportDeclaration,
+  ExportDeclaration,
+} from '../parser/ast';
+import { Lexer, LexerError } from '../lexer/lexer';
+import { Parser, ParseError } from '../parser/parser';
+import {
+  SimpleSemanticAnalyzer,
+  SimpleAnalysisResult,
+  ModuleExport,
+  ModuleLinker,
+} from './simple-analyzer';
+import { ModuleKind, ModuleResolver, ResolvedModule } from './module-resolver';
+import {
+  SourceLocation,
+  WorldCError,
+  globalErrorHandler,
+} from '../error/error-handler';
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+/*
+
+         ModuleRecord
+           ---
+           one source file of the unit. errors and warnings are
+           those reported while loading and analyzing it.
+
+*/
+
+export interface ModuleRecord {
+  path: string;
+  kind: ModuleKind;
+  sourceCode: string;
+  ast: Program | null /* null when the source failed to lex or parse */;
+
+  /* resolved modules by import source; unresolved sources are absent */
+  imports: Map<string, ResolvedModule>;
+
+  /* import sources naming project modules, as generated code writes them */
+  outputPaths: Map<string, string>;
+
+  analysis: SimpleAnalysisResult | null;
+  errors: WorldCError[];
+  warnings: WorldCError[];
+
+  /* time spent on this module; none lexing or parsing a cached AST */
+  timing: {
+    lexingTime: number;
+    parsingTime: number;
+    semanticAnalysisTime: number;
+  };
+  isCached: boolean /* its AST came from the module cache */;
+}
+
+export interface CompileUnitResult {
+  success: boolean;
+  modules: ModuleRecord[] /* each after the modules it imports */;
+  cycles: string[][] /* module paths, first and last the same */;
+
+  timing: {
+    lexingTime: number;
+    parsingTime: number;
+    semanticAnalysisTime: number;
+  };
+}
+
+/*
+
+         ModuleCache
+           ---
+           parsed modules kept between builds. an AST is only
+           handed back for the source it was parsed from.
+
+*/
+
+export interface ModuleCache {
+  getAST(file: string, sourceCode: string): Program | undefined;
+  setAST(file: string, sourceCode: string, ast: Program): void;
+}
+
+type ModuleDeclaration = ImportDeclaration | ExportDeclaration;
+
+/*
+    ====================================
+             --- COMPILE UNIT ---
+    ====================================
+*/
+
+export class CompileUnit {
+  private resolver: ModuleResolver;
+  private analyzer: SimpleSemanticAnalyzer;
+  private cache: ModuleCache | null;
+
+  private modules = new Map<string, ModuleRecord>();
+  private order: ModuleRecord[] = [];
+  private cycles: string[][] = [];
+  private timing = {
+    lexingTime: 0,
+    parsingTime: 0,
+    semanticAnalysisTime: 0,
+  };
+
+  constructor(
+    resolver: ModuleResolver,
+    analyzer: SimpleSemanticAnalyzer = new SimpleSemanticAnalyzer(),
+    cache: ModuleCache | null = null
+  ) {
+    this.resolver = resolver;
+    this.analyzer = analyzer;
+    this.cache = cache;
+  }
+
+  /*
+
+           build()
+             ---
+             loads the entry files and their imports, then
+             analyzes every module in dependency order. replaces
+             whatever an earlier build produced.
+
+  */
+
+  public build(entries: string[]): CompileUnitResult {
+    this.modules = new Map();
+    this.order = [];
+    this.cycles = [];
+    this.timing = { lexingTime: 0, parsingTime: 0, semanticAnalysisTime: 0 };
+
+    for (const entry of entries) {
+      this.load(path.resolve(entry), ModuleKind.PROJECT);
+    }
+
+    const visited = new Set<ModuleRecord>();
+    for (const module of this.modules.values()) {
+      this.sort(module, [], visited);
+    }
+
+    const analysisStart = performance.now();
+    for (const module of this.order) {
+      this.analyzeModule(module);
+    }
+    this.timing.semanticAnalysisTime = performance.now() - analysisStart;
+
+    return {
+      success: this.order.every((module) => module.errors.length === 0),
+      modules: [...this.order],
+      cycles: this.cycles,
+      timing: { ...this.timing },
+    };
+  }
+
+  /*
+
+           graph queries
+
+  */
+
+  public getModule(file: string): ModuleRecord | undefined {
+    return this.modules.get(path.resolve(file));
+  }
+
+  public getModules(): ModuleRecord[] {
+    return [...this.order];
+  }
+
+  public getDependencies(file: string): ModuleRecord[] {
+    const module = this.getModule(file);
+    if (!module) {
+      return [];
+    }
+
+    const dependencies = new Set<ModuleRecord>();
+    for (const resolved of module.imports.values()) {
+      const dependency = resolved.path && this.modules.get(resolved.path);
+      if (dependency) {
+        dependencies.add(dependency);
+      }
+    }
+
+    return [...dependencies];
+  }
+
+  public getDependents(file: string): ModuleRecord[] {
+    const module = this.getModule(file);
+    return this.order.filter(
+      (other) => module && this.getDependencies(other.path).includes(module)
+    );
+  }
+
+  public getExports(file: string): Map<string, ModuleExport> {
+    return this.getModule(file)?.analysis?.exports || new Map();
+  }
+
+  /*
+
+           load()
+             ---
+             reads, lexes and parses a module, then resolves and
+             loads the modules it imports.
+
+  */
+
+  private load(file: string, kind: ModuleKind): ModuleRecord {
+    const existing = this.modules.get(file);
+    if (existing) {
+      return existing;
+    }
+
+    const module: ModuleRecord = {
+      path: file,
+      kind,
+      sourceCode: '',
+      ast: null,
+      imports: new Map(),
+      outputPaths: new Map(),
+      analysis: null,
+      errors: [],
+      warnings: [],
+      timing: { lexingTime: 0, parsingTime: 0, semanticAnalysisTime: 0 },
+      isCached: false,
+    };
+    this.modules.set(file, module);
+
+    try {
+      module.sourceCode = this.resolver.host.readFile(file);
+    } catch (error) {
+      this.collect(module, () =>
+        globalErrorHandler.reportSemanticError(
+          `Cannot read module '${this.describe(file)}': ${(error as Error).message}`
+        )
+      );
+      return module;
+    }
+
+    module.ast = this.parse(module);
+    if (!module.ast) {
+      return module;
+    }
+
+    for (const decl of this.getModuleDeclarations(module.ast)) {
+      const source = decl.source!;
+      if (module.imports.has(source)) {
+        continue;
+      }
+
+      const resolved = this.resolver.resolve(source, file);
+      if (!resolved) {
+        this.collect(module, () =>
+          globalErrorHandler.reportSemanticError(
+            `Cannot find module '${source}'`,
+            this.locate(decl, file)
+          )
+        );
+        continue;
+      }
+
+      module.imports.set(source, resolved);
+      if (resolved.kind === ModuleKind.PROJECT) {
+        module.outputPaths.set(
+          source,
+          this.resolver.getOutputPath(file, resolved)
+        );
+      }
+      if (resolved.path) {
+        /* modules a package imports belong to the package */
+        this.load(
+          resolved.path,
+          kind === ModuleKind.PACKAGE ? kind : resolved.kind
+        );
+      }
+    }
+
+    return module;
+  }
+
+  private parse(module: ModuleRecord): Program | null {
+    const cached = this.cache?.getAST(module.path, module.sourceCode);
+    if (cached) {
+      module.isCached = true;
+      return cached;
+    }
+
+    const lexingStart = performance.now();
+
+    let tokens;
+    try {
+      tokens = new Lexer(module.sourceCode).tokenize();
+    } catch (error) {
+      if (error instanceof LexerError) {
+        /* reported again with the module as its file */
+        this.collect(module, () =>
+          globalErrorHandler.reportLexicalError(
+            stripPositionPrefix(error.message),
+            {
+              line: error.position.line,
+              column: error.position.column,
+              file: module.path,
+            }
+          )
+        );
+        return null;
+      }
+      throw error;
+    } finally {
+      module.timing.lexingTime = performance.now() - lexingStart;
+      this.timing.lexingTime += module.timing.lexingTime;
+    }
+
+    const parsingStart = performance.now();
+
+    try {
+      const ast = new Parser(tokens).parse();
+      this.cache?.setAST(module.path, module.sourceCode, ast);
+      return ast;
+    } catch (error) {
+      if (error instanceof ParseError) {
+        this.collect(module, () =>
+          globalErrorHandler.reportSyntaxError(
+            stripPositionPrefix(error.message),
+            {
+              line: error.token.start.line,
+              column: error.token.start.column,
+              file: module.path,
+              length: Math.max(
+                1,
+                error.token.end.offset - error.token.start.offset
+              ),
+            }
+          )
+        );
+        return null;
+      }
+      throw error;
+    } finally {
+      module.timing.parsingTime = performance.now() - parsingStart;
+      this.timing.parsingTime += module.timing.parsingTime;
+    }
+  }
+
+  /*
+
+           sort()
+             ---
+             depth-first walk appending each module after the
+             modules it imports. an import of a module still on
+             the walk's stack closes a cycle.
+
+  */
+
+  private sort(
+    module: ModuleRecord,
+    stack: ModuleRecord[],
+    visited: Set<ModuleRecord>
+  ): void {
+    if (visited.has(module)) {
+      return;
+    }
+
+    stack.push(module);
+
+    for (const decl of module.ast
+      ? this.getModuleDeclarations(module.ast)
+      : []) {
+      const resolved = module.imports.get(decl.source!);
+      const dependency = resolved?.path && this.modules.get(resolved.path);
+      if (!dependency) {
+        continue;
+      }
+
+      const index = stack.indexOf(dependency);
+      if (index >= 0) {
+        const cycle = [...stack.slice(index), dependency].map((m) => m.path);
+        this.cycles.push(cycle);
+        this.collect(module, () =>
+          globalErrorHandler.reportSemanticError(
+            `Circular import: ${cycle.map((file) => this.describe(file)).join(' -> ')}`,
+            this.locate(decl, module.path)
+          )
+        );
+      } else {
+        this.sort(dependency, stack, visited);
+      }
+    }
+
+    stack.pop();
+    visited.add(module);
+    this.order.push(module);
+  }
+
+  /*
+
+           analyzeModule()
+             ---
+             analyzes a module against the exports of the modules
+             it imports. a module that is not analyzed yet (it is
+             part of a cycle) or failed to parse leaves its names
+             untyped, like a module outside the unit.
+
+  */
+
+  private analyzeModule(module: ModuleRecord): void {
+    if (!module.ast) {
+      return;
+    }
+
+    const linker: ModuleLinker = {
+      file: module.path,
+      getExports: (source) => {
+        const resolved = module.imports.get(source);
+        const dependency = resolved?.path && this.modules.get(resolved.path);
+        return (dependency && dependency.analysis?.exports) || null;
+      },
+    };
+
+    const analysisStart = performance.now();
+    this.collect(module, () => {
+      module.analysis = this.analyzer.analyze(module.ast!, linker);
+    });
+    module.timing.semanticAnalysisTime = performance.now() - analysisStart;
+  }
+
+  /*
+
+           helpers
+
+  */
+
+  /* records what the global handler reports while running 'report' */
+  private collect(module: ModuleRecord, report: () => void): void {
+    const errorsBefore = globalErrorHandler.getErrors().length;
+    const warningsBefore = globalErrorHandler.getWarnings().length;
+
+    report();
+
+    module.errors.push(...globalErrorHandler.getErrors().slice(errorsBefore));
+    module.warnings.push(
+      ...globalErrorHandler.getWarnings().slice(warningsBefore)
+    );
+  }
+
+  /* top-level imports and re-exports, which name other modules */
+  private getModuleDeclarations(ast: Program): ModuleDeclaration[] {
+    return ast.declarations.filter(
+      (decl): decl is ModuleDeclaration =>
+        decl instanceof ImportDeclaration ||
+        (decl instanceof ExportDeclaration && decl.source !== null)
+    );
+  }
+
+  private locate(node: ASTNode, file: string): SourceLocation {
+    const { start, end } = node.location;
+    return {
+      line: start.line,
+      column: start.column,
+      file,
+      length:
+        end.line === start.line ? Math.max(1, end.column - start.column) : 1,
+    };
+  }
+
+  /* module paths relative to the project, as messages show them */
+  private describe(file: string): string {
+    return path
+      .relative(this.resolver.projectRoot, file)
+      .split(path.sep)
+      .join('/');
+  }
+}
+
+export function stripPositionPrefix(message: string): string {
+  return message.replace(
+    /^(?:Lexer|Parse) error at line \d+, column \d+: /,
+    ''
+  );
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
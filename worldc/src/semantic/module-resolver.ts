@@ -0,0 +1,244 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         module-resolver.ts
+           ---
+           maps the source of an import to the file it names.
+
+           './' and '../' sources are relative to the importing
+           file. any other source is looked up under the project
+           'scripts/' root first and then as a package in
+           node_modules. a package source that names no WORLDC
+           file is left to the target's own module system.
+
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/*
+    ====================================
+             --- TYPES ---
+    ====================================
+*/
+
+/* extensions of WORLDC source files, in lookup order */
+export const SOURCE_EXTENSIONS = ['.wc', '.worldc'];
+
+/* directory holding the scripts of a WorldEnv project */
+export const SCRIPTS_DIRECTORY = 'scripts';
+
+/*
+
+         ModuleHost
+           ---
+           file access used by resolution and loading. tests and
+           editors supply their own to resolve unsaved sources.
+
+*/
+
+export interface ModuleHost {
+  fileExists(file: string): boolean;
+  readFile(file: string): string;
+}
+
+export const fileSystemHost: ModuleHost = {
+  fileExists: (file) => fs.existsSync(file) && fs.statSync(file).isFile(),
+  readFile: (file) => fs.readFileSync(file, 'utf8'),
+};
+
+export enum ModuleKind {
+  PROJECT = 'project' /* a source of the project, compiled with it */,
+  PACKAGE = 'package' /* a WORLDC source shipped in node_modules */,
+  EXTERNAL = 'external' /* anything else; its names are untyped */,
+}
+
+export interface ResolvedModule {
+  specifier: string;
+  kind: ModuleKind;
+  path: string | null /* null for external modules */;
+}
+
+/*
+    ====================================
+             --- RESOLVER ---
+    ====================================
+*/
+
+export class ModuleResolver {
+  public readonly projectRoot: string;
+  public readonly host: ModuleHost;
+
+  constructor(projectRoot: string, host: ModuleHost = fileSystemHost) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.host = host;
+  }
+
+  /*
+
+           findProjectRoot()
+             ---
+             the project a file belongs to: the parent of the
+             'scripts/' directory containing it, else the nearest
+             directory with a package.json, else its own directory.
+
+  */
+
+  public static findProjectRoot(
+    file: string,
+    host: ModuleHost = fileSystemHost
+  ): string {
+    const directory = path.dirname(path.resolve(file));
+
+    const segments = directory.split(path.sep);
+    const scripts = segments.lastIndexOf(SCRIPTS_DIRECTORY);
+    if (scripts > 0) {
+      return segments.slice(0, scripts).join(path.sep) || path.sep;
+    }
+
+    for (let current = directory; ; current = path.dirname(current)) {
+      if (host.fileExists(path.join(current, 'package.json'))) {
+        return current;
+      }
+      if (path.dirname(current) === current) {
+        return directory;
+      }
+    }
+  }
+
+  /*
+
+           resolve()
+             ---
+             resolves the source of an import in the given file.
+             returns null when the source is relative or names a
+             WORLDC file and no such file exists; the importing
+             module reports it.
+
+  */
+
+  public resolve(specifier: string, fromFile: string): ResolvedModule | null {
+    if (this.isRelative(specifier)) {
+      const file = this.findSource(
+        path.resolve(path.dirname(fromFile), specifier)
+      );
+      return file ? this.project(specifier, file) : null;
+    }
+
+    const script = this.findSource(
+      path.join(this.projectRoot, SCRIPTS_DIRECTORY, specifier)
+    );
+    if (script) {
+      return this.project(specifier, script);
+    }
+
+    const packageFile = this.findPackageSource(specifier);
+    if (packageFile) {
+      return { specifier, kind: ModuleKind.PACKAGE, path: packageFile };
+    }
+
+    /* only a WORLDC source names itself with its extension */
+    if (SOURCE_EXTENSIONS.includes(path.extname(specifier))) {
+      return null;
+    }
+
+    return { specifier, kind: ModuleKind.EXTERNAL, path: null };
+  }
+
+  /*
+
+           getOutputPath()
+             ---
+             the source an import of a project module has in
+             generated code: the path from the importing file to
+             the module, without its extension. generators add
+             the suffix of their own output files.
+
+  */
+
+  public getOutputPath(fromFile: string, module: ResolvedModule): string {
+    if (module.kind !== ModuleKind.PROJECT || !module.path) {
+      return module.specifier;
+    }
+
+    const relative = path
+      .relative(path.dirname(fromFile), module.path)
+      .split(path.sep)
+      .join('/');
+    const withoutExtension = relative.slice(
+      0,
+      relative.length - path.extname(relative).length
+    );
+
+    return withoutExtension.startsWith('.')
+      ? withoutExtension
+      : `./${withoutExtension}`;
+  }
+
+  /*
+      helpers
+  */
+
+  private project(specifier: string, file: string): ResolvedModule {
+    return { specifier, kind: ModuleKind.PROJECT, path: file };
+  }
+
+  private isRelative(specifier: string): boolean {
+    return specifier.startsWith('./') || specifier.startsWith('../');
+  }
+
+  /* the file itself if it has a source extension, else file.wc,
+     file.worldc or an index source inside it */
+  private findSource(base: string): string | null {
+    const candidates = SOURCE_EXTENSIONS.includes(path.extname(base))
+      ? [base]
+      : [
+          ...SOURCE_EXTENSIONS.map((extension) => base + extension),
+          ...SOURCE_EXTENSIONS.map((extension) =>
+            path.join(base, 'index' + extension)
+          ),
+        ];
+
+    return candidates.find((file) => this.host.fileExists(file)) || null;
+  }
+
+  /* a package names its WORLDC entry in the "worldc" field of its
+     package.json; a subpath names a source inside the package */
+  private findPackageSource(specifier: string): string | null {
+    const parts = specifier.split('/');
+    const nameLength = specifier.startsWith('@') ? 2 : 1;
+    const name = parts.slice(0, nameLength).join('/');
+    const subpath = parts.slice(nameLength).join('/');
+
+    const packageDirectory = path.join(this.projectRoot, 'node_modules', name);
+
+    if (subpath) {
+      return this.findSource(path.join(packageDirectory, subpath));
+    }
+
+    const manifest = path.join(packageDirectory, 'package.json');
+    if (this.host.fileExists(manifest)) {
+      try {
+        const entry = JSON.parse(this.host.readFile(manifest)).worldc;
+        if (typeof entry === 'string') {
+          return this.findSource(path.join(packageDirectory, entry));
+        }
+      } catch {
+        return null;
+      }
+    }
+
+    return this.findSource(path.join(packageDirectory, 'index'));
+  }
+}
+
+/*
+    ====================================
+             --- EOF ---
+    ====================================
+*/
@@ -7,25 +7,100 @@
 /**
  * WORLDC Simple Semantic Analyzer
  *
- * Simplified semantic analysis engine that provides basic type checking
- * and symbol resolution for the WORLDC C/C++/TypeScript hybrid language.
- * Designed to work with the existing AST structure.
+ * Semantic analysis engine for the WORLDC C/C++/TypeScript hybrid
+ * language. Walks the typed AST, resolves symbols through the symbol
+ * table and checks expressions with the type system: call arity and
+ * argument types, overload resolution, member lookup through
+ * inheritance, return paths, unreachable code and unused variables.
  */
 
+import {
+  Program,
+  Declaration,
+  VariableDeclaration,
+  FunctionDeclaration,
+  Parameter,
+  ClassDeclaration,
+  InterfaceDeclaration,
+  StructDeclaration,
+  EnumDeclaration,
+  NamespaceDeclaration,
+  TypeAliasDeclaration,
+  ImportDeclaration,
+  ExportDeclaration,
+  Statement,
+  BlockStatement,
+  ExpressionStatement,
+  IfStatement,
+  WhileStatement,
+  DoWhileStatement,
+  ForStatement,
+  ForInStatement,
+  ForOfStatement,
+  SwitchStatement,
+  TryStatement,
+  ReturnStatement,
+  BreakStatement,
+  ContinueStatement,
+  ThrowStatement,
+  Expression,
+  BinaryExpression,
+  UnaryExpression,
+  AssignmentExpression,
+  UpdateExpression,
+  LogicalExpression,
+  ConditionalExpression,
+  CallExpression,
+  MemberExpression,
+  ArrayExpression,
+  ObjectExpression,
+  ArrowFunctionExpression,
+  FunctionExpression,
+  LambdaExpression,
+  NewExpression,
+  ThisExpression,
+  SuperExpression,
+  Identifier,
+  Literal,
+  TemplateLiteral,
+  AwaitExpression,
+  YieldExpression,
+  TypeNode,
+  PrimitiveType,
+  ArrayType,
+  PointerType,
+  ReferenceType,
+  FunctionType,
+  GenericType,
+  UnionType,
+  IntersectionType,
+  TupleType,
+  OptionalType,
+  AccessModifier,
+  TypeParameter,
+  ASTNode,
+} from '../parser/ast';
+
 import {
   Symbol,
   SymbolKind,
   SymbolVisibility,
   SymbolTable,
+  Scope,
   ScopeType,
+  StorageClass,
   TypeInfo,
+  FunctionSignature,
+  TemplateParameter,
   globalSymbolTable,
 } from './symbol-table';
 
 import {
   TypeDescriptor,
+  TypeKind,
   TypeRegistry,
   TypeChecker,
+  VectorOperation,
   globalTypeRegistry,
   globalTypeChecker,
 } from './type-system';
@@ -38,8 +113,132 @@ export interface SimpleAnalysisResult {
   warnings: number;
   symbolsFound: number;
   typesChecked: number;
+  templateUses: Map<ASTNode, TemplateUse>;
+  operatorUses: Map<ASTNode, OperatorUse>;
+  swizzles: Map<MemberExpression, TypeDescriptor>;
+  memberReferences: Map<Identifier, MemberReference>;
+  structCopies: Set<Expression> /* struct values copied by value */;
+  imports: Map<string, ModuleExport> /* by local name */;
+  exports: Map<string, ModuleExport>;
+}
+
+/**
+ * Declarations that can take template parameters and be instantiated
+ */
+export type TemplateDeclaration =
+  | FunctionDeclaration
+  | ClassDeclaration
+  | InterfaceDeclaration
+  | StructDeclaration;
+
+/**
+ * Instantiation of a template by a type, call or construction
+ */
+export interface TemplateUse {
+  template: TemplateDeclaration;
+  typeArguments: TypeNode[] /* explicit or inferred, one per parameter */;
+  owner: Declaration | null /* generic declaration containing the use */;
+}
+
+/**
+ * Operator lowered to vector math or to an 'operator<op>' member; a
+ * copied vector value is recorded as '=' with the 'clone' operation
+ */
+export interface OperatorUse {
+  operator: string;
+  operation: VectorOperation | null /* built-in vector math */;
+  overload: Symbol | null /* user-defined operator member */;
+}
+
+/**
+ * Class or struct member named without 'this' inside a method
+ */
+export interface MemberReference {
+  owner: string /* class or struct declaring the member */;
+  isStatic: boolean;
+}
+
+/**
+ * Symbol a module exports, with the type it declares if it names one
+ */
+export interface ModuleExport {
+  symbol: Symbol;
+  type: TypeDescriptor | null;
+  template: TemplateDeclaration | null;
+}
+
+/**
+ * Connects the imports of a module to the other modules of its compile unit
+ */
+export interface ModuleLinker {
+  file: string /* reported in diagnostics */;
+
+  /* null when the source does not name a module of the unit */
+  getExports(source: string): Map<string, ModuleExport> | null;
+}
+
+/**
+ * Callable signature with resolved parameter types
+ */
+interface CallSignature {
+  parameters: Array<{
+    name: string;
+    type: TypeDescriptor;
+    isOptional: boolean;
+    isRest: boolean;
+  }>;
+  returnType: TypeDescriptor;
+  isVariadic: boolean;
+}
+
+/**
+ * State of the function body being analyzed
+ */
+interface FunctionContext {
+  name: string | null /* null for anonymous functions */;
+  returnType: TypeDescriptor | null /* null when inferred from returns */;
+  returnTypes: TypeDescriptor[];
+  isAsync: boolean;
+  isGenerator: boolean /* set once a 'yield' is seen */;
+  loopDepth: number;
+  switchDepth: number;
+}
+
+/**
+ * Member found by a lookup through a type's inheritance chain
+ */
+interface MemberLookup {
+  symbol: Symbol;
+  owner: Symbol;
+  bindings: Map<string, TypeDescriptor> /* template arguments of 'owner' */;
+}
+
+/**
+ * Template parameters introduced by a declaration
+ */
+interface TypeParameterFrame {
+  declaration: Declaration;
+  parameters: TypeParameter[];
 }
 
+/* Numeric types from narrowest to widest */
+const NUMERIC_TYPES = ['char', 'int', 'float', 'double', 'number'];
+
+const ARITHMETIC_OPERATORS = ['+', '-', '*', '/', '%'];
+const BITWISE_OPERATORS = ['&', '|', '^', '<<', '>>', '>>>'];
+const COMPARISON_OPERATORS = [
+  '==',
+  '!=',
+  '===',
+  '!==',
+  '<',
+  '>',
+  '<=',
+  '>=',
+  'instanceof',
+  'in',
+];
+
 export class SimpleSemanticAnalyzer {
   private symbolTable: SymbolTable;
   private typeRegistry: TypeRegistry;
@@ -47,6 +246,36 @@ export class SimpleSemanticAnalyzer {
   private symbolsFound = 0;
   private typesChecked = 0;
 
+  /* Class, interface, struct and enum symbols by type name */
+  private typeSymbols = new Map<string, Symbol>();
+  private abstractClasses = new Set<Symbol>();
+  private abstractMembers = new Set<Symbol>();
+
+  /* Namespace scopes are collected first and re-entered for analysis */
+  private namespaceScopes = new Map<NamespaceDeclaration, Scope>();
+
+  /* Template parameters visible in the current declaration */
+  private typeParameters: TypeParameterFrame[] = [];
+
+  /* Generic declarations, their resolved parameters and instantiations */
+  private templateDeclarations = new Map<Symbol, TemplateDeclaration>();
+  private resolvedTypeParameters = new Map<TypeParameter, TemplateParameter>();
+  private templateUses = new Map<ASTNode, TemplateUse>();
+
+  /* Operators and swizzles that code generation lowers */
+  private operatorUses = new Map<ASTNode, OperatorUse>();
+  private swizzles = new Map<MemberExpression, TypeDescriptor>();
+  private memberReferences = new Map<Identifier, MemberReference>();
+  private structCopies = new Set<Expression>();
+
+  /* Other modules of the compile unit and the names this one exports */
+  private linker: ModuleLinker | null = null;
+  private imports = new Map<string, ModuleExport>();
+  private exports = new Map<string, ModuleExport>();
+
+  private currentClass: Symbol | undefined;
+  private currentFunction: FunctionContext | undefined;
+
   constructor(
     symbolTable = globalSymbolTable,
     typeRegistry = globalTypeRegistry,
@@ -58,14 +287,19 @@ export class SimpleSemanticAnalyzer {
   }
 
   /**
-   * Analyze parsed AST
+   * Analyze parsed AST; the linker resolves imports from other modules
    */
-  public analyze(ast: any): SimpleAnalysisResult {
+  public analyze(
+    ast: Program,
+    linker: ModuleLinker | null = null
+  ): SimpleAnalysisResult {
     const startErrors = globalErrorHandler.getErrorCount();
     const startWarnings = globalErrorHandler.getWarningCount();
 
-    this.symbolsFound = 0;
-    this.typesChecked = 0;
+    /* each analysis starts from a fresh global scope so that
+       re-analyzing the same program does not report redeclarations */
+    this.reset();
+    this.linker = linker;
 
     try {
       if (ast && ast.declarations) {
@@ -92,703 +326,3951 @@ export class SimpleSemanticAnalyzer {
       warnings,
       symbolsFound: this.symbolsFound,
       typesChecked: this.typesChecked,
+      templateUses: this.templateUses,
+      operatorUses: this.operatorUses,
+      swizzles: this.swizzles,
+      memberReferences: this.memberReferences,
+      structCopies: this.structCopies,
+      imports: this.imports,
+      exports: this.exports,
     };
   }
 
   /**
    * Analyze list of declarations
    */
-  private analyzeDeclarations(declarations: any[]): void {
-    /* First pass: collect symbols for forward references */
+  private analyzeDeclarations(declarations: Declaration[]): void {
+    /* First pass: declare types and imports so signatures can refer to them */
+    for (const decl of declarations) {
+      this.declareType(decl);
+    }
+
+    /* Second pass: collect symbols and members for forward references */
     for (const decl of declarations) {
       this.collectSymbol(decl);
     }
 
-    /* Second pass: analyze types and validate */
+    /* Third pass: analyze types and validate bodies */
     for (const decl of declarations) {
       this.analyzeDeclaration(decl);
     }
   }
 
+  /*
+   * Declaration collection
+   */
+
   /**
-   * Collect symbol from declaration
+   * Declare the type introduced by a class, interface, struct or enum
    */
-  private collectSymbol(decl: any): void {
-    if (!decl || !decl.constructor || !decl.name) {
+  private declareType(decl: Declaration): void {
+    if (decl instanceof ExportDeclaration) {
+      if (decl.declaration) {
+        this.declareType(decl.declaration);
+      }
       return;
     }
 
-    const declType = decl.constructor.name;
-    let symbolKind = SymbolKind.VARIABLE;
+    if (decl instanceof ImportDeclaration) {
+      this.collectImports(decl);
+      return;
+    }
 
-    switch (declType) {
-      case 'FunctionDeclaration':
-        symbolKind = SymbolKind.FUNCTION;
-        break;
-      case 'ClassDeclaration':
-        symbolKind = SymbolKind.CLASS;
-        break;
-      case 'InterfaceDeclaration':
-        symbolKind = SymbolKind.INTERFACE;
-        break;
-      case 'StructDeclaration':
-        symbolKind = SymbolKind.STRUCT;
-        break;
-      case 'VariableDeclaration':
-        symbolKind = SymbolKind.VARIABLE;
-        break;
-      default:
-        globalErrorHandler.reportWarning(
-          `Unknown declaration type: ${declType}`,
-          this.getLocation(decl)
-        );
+    if (decl instanceof NamespaceDeclaration) {
+      const symbol = this.symbolTable.createSymbol(
+        decl.name,
+        SymbolKind.NAMESPACE,
+        this.toTypeInfo(this.builtin('any')),
+        this.getLocation(decl)
+      );
+      if (!this.addSymbol(symbol, decl)) {
         return;
+      }
+
+      const scope = this.symbolTable.enterScope(
+        ScopeType.NAMESPACE,
+        decl.name,
+        this.getLocation(decl)
+      );
+      symbol.members = scope.symbols;
+      this.namespaceScopes.set(decl, scope);
+
+      for (const inner of decl.declarations) {
+        this.declareType(inner);
+      }
+      this.symbolTable.exitScope();
+      return;
+    }
+
+    let kind: SymbolKind;
+    let typeKind: TypeKind;
+    if (decl instanceof ClassDeclaration) {
+      kind = SymbolKind.CLASS;
+      typeKind = TypeKind.CLASS;
+    } else if (decl instanceof InterfaceDeclaration) {
+      kind = SymbolKind.INTERFACE;
+      typeKind = TypeKind.INTERFACE;
+    } else if (decl instanceof StructDeclaration) {
+      kind = SymbolKind.STRUCT;
+      typeKind = TypeKind.STRUCT;
+    } else if (decl instanceof EnumDeclaration) {
+      kind = SymbolKind.ENUM;
+      typeKind = TypeKind.ENUM;
+    } else {
+      return;
     }
 
-    const typeInfo = this.extractTypeInfo(decl);
+    const symbol = this.symbolTable.createSymbol(
+      decl.name,
+      kind,
+      this.toTypeInfo({ name: decl.name } as TypeDescriptor),
+      this.getLocation(decl)
+    );
+    symbol.members = new Map();
+    symbol.baseClasses = [];
+    symbol.interfaces = [];
+
+    if (!this.addSymbol(symbol, decl)) {
+      return;
+    }
 
-    const symbol: Symbol = {
+    this.typeSymbols.set(decl.name, symbol);
+    this.typeRegistry.registerType(decl.name, {
+      kind: typeKind,
       name: decl.name,
-      kind: symbolKind,
-      type: typeInfo,
-      visibility: SymbolVisibility.PUBLIC,
+      size: typeKind === TypeKind.ENUM ? 4 : 0,
+      alignment: typeKind === TypeKind.ENUM ? 4 : 0,
+      isConst: false,
+      isVolatile: false,
+      isUnsigned: false,
+      members: new Map(),
+      baseTypes: [],
       location: this.getLocation(decl),
-      scope: this.symbolTable.getCurrentScope(),
-    };
+    });
 
-    if (this.symbolTable.addSymbol(symbol)) {
-      this.symbolsFound++;
-    } else {
-      globalErrorHandler.reportSemanticError(
-        `Symbol '${decl.name}' is already declared`,
+    if (decl instanceof ClassDeclaration && decl.isAbstract) {
+      this.abstractClasses.add(symbol);
+    }
+    if (
+      !(decl instanceof EnumDeclaration) &&
+      decl.templateParameters.length > 0
+    ) {
+      this.templateDeclarations.set(symbol, decl);
+    }
+  }
+
+  /**
+   * Collect symbol from declaration
+   */
+  private collectSymbol(decl: Declaration): void {
+    if (decl instanceof ExportDeclaration) {
+      if (decl.declaration) {
+        this.collectSymbol(decl.declaration);
+      }
+    } else if (decl instanceof NamespaceDeclaration) {
+      const scope = this.namespaceScopes.get(decl);
+      if (scope) {
+        this.symbolTable.reenterScope(scope);
+        for (const inner of decl.declarations) {
+          this.collectSymbol(inner);
+        }
+        this.symbolTable.exitScope();
+      }
+    } else if (decl instanceof FunctionDeclaration) {
+      this.collectFunction(decl);
+    } else if (decl instanceof VariableDeclaration) {
+      this.addSymbol(this.createVariableSymbol(decl), decl);
+    } else if (decl instanceof ClassDeclaration) {
+      this.collectClassMembers(decl);
+    } else if (decl instanceof InterfaceDeclaration) {
+      this.collectInterfaceMembers(decl);
+    } else if (decl instanceof StructDeclaration) {
+      this.collectStructMembers(decl);
+    } else if (decl instanceof EnumDeclaration) {
+      this.collectEnumMembers(decl);
+    } else if (decl instanceof TypeAliasDeclaration) {
+      this.collectTypeAlias(decl);
+    } else if (!(decl instanceof ImportDeclaration)) {
+      globalErrorHandler.reportWarning(
+        `Unknown declaration type: ${decl.constructor.name}`,
         this.getLocation(decl)
       );
     }
   }
 
   /**
-   * Analyze individual declaration
+   * Collect a function and its signature
    */
-  private analyzeDeclaration(decl: any): void {
-    if (!decl || !decl.constructor) {
-      return;
+  private collectFunction(decl: FunctionDeclaration): Symbol {
+    if (this.isOperatorName(decl.name)) {
+      globalErrorHandler.reportSemanticError(
+        `Operator '${decl.name}' must be declared as a member of a class or struct`,
+        this.getLocation(decl)
+      );
     }
 
-    const declType = decl.constructor.name;
+    const signature = this.withTypeParameters(decl, () =>
+      this.createSignature(decl)
+    );
 
-    switch (declType) {
-      case 'FunctionDeclaration':
-        this.analyzeFunctionDeclaration(decl);
-        break;
-      case 'ClassDeclaration':
-        this.analyzeClassDeclaration(decl);
-        break;
-      case 'VariableDeclaration':
-        this.analyzeVariableDeclaration(decl);
-        break;
-      case 'InterfaceDeclaration':
-        this.analyzeInterfaceDeclaration(decl);
-        break;
-      case 'StructDeclaration':
-        this.analyzeStructDeclaration(decl);
-        break;
-      default:
-        /* Already warned in collectSymbol */
-        break;
+    const symbol = this.symbolTable.createFunctionSymbol(
+      decl.name,
+      signature,
+      this.getLocation(decl),
+      SymbolVisibility.PUBLIC,
+      !decl.body
+    );
+    if (decl.templateParameters.length > 0) {
+      this.templateDeclarations.set(symbol, decl);
     }
+
+    this.addSymbol(symbol, decl);
+    return symbol;
   }
 
   /**
-   * Analyze function declaration
+   * Collect class members, base class and implemented interfaces
    */
-  private analyzeFunctionDeclaration(funcDecl: any): void {
-    const symbol = this.symbolTable.lookup(funcDecl.name);
+  private collectClassMembers(decl: ClassDeclaration): void {
+    const symbol = this.getTypeSymbol(decl, SymbolKind.CLASS);
     if (!symbol) {
-      globalErrorHandler.reportSemanticError(
-        `Function '${funcDecl.name}' not found in symbol table`,
-        this.getLocation(funcDecl)
-      );
       return;
     }
 
-    /* Enter function scope */
-    this.symbolTable.enterScope(
-      ScopeType.FUNCTION,
-      funcDecl.name,
-      this.getLocation(funcDecl)
-    );
+    const type = this.typeRegistry.getType(decl.name)!;
+    symbol.templateParameters = this.getTemplateParameters(decl);
 
-    /* Analyze parameters */
-    if (funcDecl.parameters && Array.isArray(funcDecl.parameters)) {
-      for (const param of funcDecl.parameters) {
-        this.analyzeParameter(param);
-      }
-    }
+    this.withTypeParameters(decl, () => {
+      if (decl.superClass) {
+        const baseType = this.resolveType(decl.superClass);
+        const base = this.typeSymbols.get(
+          baseType.templateName || baseType.name
+        );
 
-    /* Analyze return type */
-    if (funcDecl.returnType) {
-      this.validateType(funcDecl.returnType);
-    }
+        if (base && base.kind === SymbolKind.CLASS) {
+          symbol.baseClasses!.push(base.name);
+          type.baseTypes!.push(baseType);
+        } else if (!this.typeChecker.isDynamicType(baseType)) {
+          globalErrorHandler.reportSemanticError(
+            `Class '${decl.name}' can only extend a class, '${baseType.name}' is not a class`,
+            this.getLocation(decl.superClass)
+          );
+        }
+      }
 
-    /* Analyze function body */
-    if (funcDecl.body) {
-      this.analyzeStatement(funcDecl.body);
-    }
+      for (const node of decl.interfaces) {
+        const interfaceType = this.resolveType(node);
+        const target = this.typeSymbols.get(
+          interfaceType.templateName || interfaceType.name
+        );
 
-    /* Exit function scope */
-    this.symbolTable.exitScope();
+        if (target && target.kind === SymbolKind.INTERFACE) {
+          symbol.interfaces!.push(target.name);
+          type.baseTypes!.push(interfaceType);
+        } else if (!this.typeChecker.isDynamicType(interfaceType)) {
+          globalErrorHandler.reportSemanticError(
+            `Class '${decl.name}' can only implement an interface, '${interfaceType.name}' is not an interface`,
+            this.getLocation(node)
+          );
+        }
+      }
 
-    this.typesChecked++;
+      for (const member of decl.members) {
+        this.collectMember(
+          symbol,
+          member.member,
+          this.getVisibility(member.accessModifier),
+          member.isStatic,
+          member.isAbstract
+        );
+      }
+    });
   }
 
   /**
-   * Analyze parameter
+   * Collect interface members and extended interfaces
    */
-  private analyzeParameter(param: any): void {
-    if (!param || !param.name) {
+  private collectInterfaceMembers(decl: InterfaceDeclaration): void {
+    const symbol = this.getTypeSymbol(decl, SymbolKind.INTERFACE);
+    if (!symbol) {
       return;
     }
 
-    const typeInfo = this.extractTypeInfo(param);
-
-    const paramSymbol: Symbol = {
-      name: param.name,
-      kind: SymbolKind.PARAMETER,
-      type: typeInfo,
-      visibility: SymbolVisibility.PUBLIC,
-      location: this.getLocation(param),
-      scope: this.symbolTable.getCurrentScope(),
-    };
-
-    if (!this.symbolTable.addSymbol(paramSymbol)) {
-      globalErrorHandler.reportSemanticError(
-        `Parameter '${param.name}' is already declared`,
-        this.getLocation(param)
-      );
-    }
-  }
+    const type = this.typeRegistry.getType(decl.name)!;
+    symbol.templateParameters = this.getTemplateParameters(decl);
 
-  /**
-   * Analyze class declaration
-   */
-  private analyzeClassDeclaration(classDecl: any): void {
-    /* Enter class scope */
-    this.symbolTable.enterScope(
-      ScopeType.CLASS,
-      classDecl.name,
-      this.getLocation(classDecl)
-    );
+    this.withTypeParameters(decl, () => {
+      for (const node of decl.extends_) {
+        const baseType = this.resolveType(node);
+        const base = this.typeSymbols.get(
+          baseType.templateName || baseType.name
+        );
 
-    /* Analyze class members */
-    if (classDecl.members && Array.isArray(classDecl.members)) {
-      for (const member of classDecl.members) {
-        this.analyzeDeclaration(member);
+        if (base && base.kind === SymbolKind.INTERFACE) {
+          symbol.baseClasses!.push(base.name);
+          type.baseTypes!.push(baseType);
+        } else if (!this.typeChecker.isDynamicType(baseType)) {
+          globalErrorHandler.reportSemanticError(
+            `Interface '${decl.name}' can only extend an interface, '${baseType.name}' is not an interface`,
+            this.getLocation(node)
+          );
+        }
       }
-    }
-
-    /* Exit class scope */
-    this.symbolTable.exitScope();
 
-    this.typesChecked++;
+      for (const member of decl.members) {
+        this.collectMember(symbol, member.member, SymbolVisibility.PUBLIC);
+      }
+    });
   }
 
   /**
-   * Analyze variable declaration
+   * Collect struct fields, methods and operators
    */
-  private analyzeVariableDeclaration(varDecl: any): void {
-    const symbol = this.symbolTable.lookup(varDecl.name);
+  private collectStructMembers(decl: StructDeclaration): void {
+    const symbol = this.getTypeSymbol(decl, SymbolKind.STRUCT);
     if (!symbol) {
-      globalErrorHandler.reportSemanticError(
-        `Variable '${varDecl.name}' not found in symbol table`,
-        this.getLocation(varDecl)
-      );
       return;
     }
 
-    /* Validate type */
-    if (varDecl.type) {
-      this.validateType(varDecl.type);
-    }
+    const type = this.typeRegistry.getType(decl.name)!;
+    symbol.templateParameters = this.getTemplateParameters(decl);
+
+    this.withTypeParameters(decl, () => {
+      for (const member of decl.members) {
+        const memberType = this.resolveType(member.type);
 
-    /* Check initializer if present */
-    if (varDecl.initializer) {
-      const initType = this.analyzeExpression(varDecl.initializer);
-      if (initType && varDecl.type) {
-        this.validateTypeCompatibility(
-          this.extractTypeInfo(varDecl),
-          initType,
-          'initialization'
+        type.members!.set(member.name, memberType);
+        this.addMember(
+          symbol,
+          this.createMemberSymbol(
+            member.name,
+            SymbolKind.FIELD,
+            this.toTypeInfo(memberType),
+            this.getVisibility(member.accessModifier),
+            member
+          ),
+          member
         );
       }
-    }
 
-    this.typesChecked++;
+      for (const method of decl.methods) {
+        this.collectMember(symbol, method, SymbolVisibility.PUBLIC);
+      }
+    });
   }
 
   /**
-   * Analyze interface declaration
+   * Collect enum members as constants of the enum type
    */
-  private analyzeInterfaceDeclaration(interfaceDecl: any): void {
-    /* Enter interface scope */
-    this.symbolTable.enterScope(
-      ScopeType.INTERFACE,
-      interfaceDecl.name,
-      this.getLocation(interfaceDecl)
-    );
+  private collectEnumMembers(decl: EnumDeclaration): void {
+    const symbol = this.getTypeSymbol(decl, SymbolKind.ENUM);
+    if (!symbol) {
+      return;
+    }
 
-    /* Analyze interface members */
-    if (interfaceDecl.members && Array.isArray(interfaceDecl.members)) {
-      for (const member of interfaceDecl.members) {
-        this.analyzeDeclaration(member);
-      }
+    if (decl.underlyingType) {
+      this.resolveType(decl.underlyingType);
     }
 
-    /* Exit interface scope */
-    this.symbolTable.exitScope();
+    for (const member of decl.members) {
+      const memberSymbol = this.createMemberSymbol(
+        member.name,
+        SymbolKind.FIELD,
+        { ...symbol.type, isConst: true },
+        SymbolVisibility.PUBLIC,
+        member
+      );
+      memberSymbol.storageClass = StorageClass.STATIC;
 
-    this.typesChecked++;
+      this.addMember(symbol, memberSymbol, member);
+    }
   }
 
   /**
-   * Analyze struct declaration
+   * Collect a type alias
    */
-  private analyzeStructDeclaration(structDecl: any): void {
-    /* Enter struct scope */
-    this.symbolTable.enterScope(
-      ScopeType.CLASS,
-      structDecl.name,
-      this.getLocation(structDecl)
+  private collectTypeAlias(decl: TypeAliasDeclaration): void {
+    const symbol = this.symbolTable.createSymbol(
+      decl.name,
+      SymbolKind.TYPEDEF,
+      this.toTypeInfo({ name: decl.name } as TypeDescriptor),
+      this.getLocation(decl)
     );
 
-    /* Analyze struct members */
-    if (structDecl.members && Array.isArray(structDecl.members)) {
-      for (const member of structDecl.members) {
-        this.analyzeDeclaration(member);
-      }
+    if (this.addSymbol(symbol, decl)) {
+      const target = this.withTypeParameters(decl, () =>
+        this.resolveType(decl.type)
+      );
+      this.typeRegistry.registerAlias(decl.name, target);
     }
-
-    /* Exit struct scope */
-    this.symbolTable.exitScope();
-
-    this.typesChecked++;
   }
 
   /**
-   * Analyze statement
+   * Collect imported names; names from modules outside the compile unit
+   * are untyped
    */
-  private analyzeStatement(stmt: any): void {
-    if (!stmt || !stmt.constructor) {
-      return;
-    }
+  private collectImports(decl: ImportDeclaration): void {
+    const exports = this.linker && this.linker.getExports(decl.source);
 
-    const stmtType = stmt.constructor.name;
+    for (const specifier of decl.specifiers) {
+      const exported =
+        exports &&
+        this.findExport(exports, decl.source, specifier.imported, specifier);
+      if (exported) {
+        this.importSymbol(exported, specifier.local, decl.source, specifier);
+        continue;
+      }
 
-    switch (stmtType) {
-      case 'BlockStatement':
-        this.analyzeBlockStatement(stmt);
-        break;
-      case 'ExpressionStatement':
-        if (stmt.expression) {
-          this.analyzeExpression(stmt.expression);
-        }
-        break;
-      case 'IfStatement':
-        this.analyzeIfStatement(stmt);
-        break;
-      case 'ForStatement':
-        this.analyzeForStatement(stmt);
-        break;
-      case 'WhileStatement':
-        this.analyzeWhileStatement(stmt);
-        break;
-      case 'ReturnStatement':
-        this.analyzeReturnStatement(stmt);
-        break;
-      default:
-        /* Ignore unknown statements for now */
-        break;
+      const symbol = this.symbolTable.createSymbol(
+        specifier.local,
+        SymbolKind.VARIABLE,
+        this.toTypeInfo(this.builtin('any')),
+        this.getLocation(specifier)
+      );
+      symbol.isImported = true;
+      symbol.importSource = decl.source;
+
+      this.addSymbol(symbol, specifier);
     }
   }
 
   /**
-   * Analyze block statement
+   * Find a name another module exports, reporting it if it is missing
    */
-  private analyzeBlockStatement(blockStmt: any): void {
-    /* Enter block scope */
-    this.symbolTable.enterScope(
-      ScopeType.BLOCK,
-      `block_${Date.now()}`,
-      this.getLocation(blockStmt)
-    );
+  private findExport(
+    exports: Map<string, ModuleExport>,
+    source: string,
+    name: string,
+    node: ASTNode
+  ): ModuleExport | undefined {
+    const exported = exports.get(name);
 
-    if (blockStmt.statements && Array.isArray(blockStmt.statements)) {
-      for (const stmt of blockStmt.statements) {
-        this.analyzeStatement(stmt);
-      }
+    if (!exported) {
+      globalErrorHandler.reportSemanticError(
+        name === 'default'
+          ? `Module '${source}' has no default export`
+          : `Module '${source}' has no exported member '${name}'`,
+        this.getLocation(node)
+      );
     }
 
-    /* Exit block scope */
-    this.symbolTable.exitScope();
+    return exported;
   }
 
   /**
-   * Analyze if statement
+   * Declare a symbol exported by another module under its local name
    */
-  private analyzeIfStatement(ifStmt: any): void {
-    /* Analyze condition */
-    if (ifStmt.condition || ifStmt.test) {
-      const condition = ifStmt.condition || ifStmt.test;
-      const condType = this.analyzeExpression(condition);
+  private importSymbol(
+    exported: ModuleExport,
+    local: string,
+    source: string,
+    node: ASTNode
+  ): void {
+    const symbol: Symbol = {
+      ...exported.symbol,
+      name: local,
+      location: this.getLocation(node),
+      isExported: false,
+      isImported: true,
+      importSource: source,
+    };
 
-      if (condType) {
-        const boolType = this.typeRegistry.getType('bool');
-        if (boolType && !this.typeChecker.isAssignable(condType, boolType)) {
-          globalErrorHandler.reportWarning(
-            `If condition should be boolean, got '${condType.name}'`,
-            this.getLocation(ifStmt)
-          );
-        }
-      }
+    if (!this.addSymbol(symbol, node)) {
+      return;
+    }
+
+    this.imports.set(local, exported);
+    if (!exported.type) {
+      return;
     }
 
-    /* Analyze then branch */
-    if (ifStmt.then || ifStmt.consequent) {
-      this.analyzeStatement(ifStmt.then || ifStmt.consequent);
+    if (symbol.kind === SymbolKind.TYPEDEF) {
+      this.typeRegistry.registerAlias(local, exported.type);
+      return;
     }
 
-    /* Analyze else branch */
-    if (ifStmt.else || ifStmt.alternate) {
-      this.analyzeStatement(ifStmt.else || ifStmt.alternate);
+    /* Types refer to each other by their declared names */
+    for (const name of new Set([local, exported.symbol.name])) {
+      if (name === local || !this.typeRegistry.getType(name)) {
+        this.typeSymbols.set(name, symbol);
+        this.typeRegistry.registerType(name, exported.type);
+      }
+    }
+    if (exported.template) {
+      this.templateDeclarations.set(symbol, exported.template);
     }
   }
 
   /**
-   * Analyze for statement
+   * Collect a class or interface member
    */
-  private analyzeForStatement(forStmt: any): void {
-    /* Enter for scope */
-    this.symbolTable.enterScope(
-      ScopeType.BLOCK,
-      `for_${Date.now()}`,
-      this.getLocation(forStmt)
-    );
+  private collectMember(
+    owner: Symbol,
+    decl: FunctionDeclaration | VariableDeclaration,
+    visibility: SymbolVisibility,
+    isStatic = false,
+    isAbstract = false
+  ): void {
+    const ownerType = this.typeRegistry.getType(owner.name)!;
+    let member: Symbol;
 
-    /* Analyze init */
-    if (forStmt.init) {
-      if (
-        forStmt.init.constructor &&
-        forStmt.init.constructor.name === 'VariableDeclaration'
-      ) {
-        this.analyzeVariableDeclaration(forStmt.init);
-      } else {
-        this.analyzeExpression(forStmt.init);
+    if (decl instanceof FunctionDeclaration) {
+      const isConstructor = this.isConstructorName(decl.name, owner.name);
+      if (this.isOperatorName(decl.name)) {
+        this.checkOperatorDeclaration(decl);
       }
-    }
 
-    /* Analyze condition */
-    if (forStmt.condition || forStmt.test) {
-      this.analyzeExpression(forStmt.condition || forStmt.test);
-    }
+      const signature = this.withTypeParameters(decl, () =>
+        this.createSignature(decl)
+      );
+      if (isConstructor) {
+        signature.returnType = owner.type;
+      }
 
-    /* Analyze update */
-    if (forStmt.update) {
+      member = this.createMemberSymbol(
+        isConstructor ? 'constructor' : decl.name,
+        isConstructor ? SymbolKind.CONSTRUCTOR : SymbolKind.METHOD,
+        signature.returnType,
+        visibility,
+        decl
+      );
+      member.signature = signature;
+      member.isDefinition = !!decl.body;
+      if (decl.templateParameters.length > 0) {
+        this.templateDeclarations.set(member, decl);
+      }
+
+      if (!ownerType.members!.has(member.name)) {
+        ownerType.members!.set(member.name, this.createFunctionType(signature));
+      }
+    } else {
+      const memberType = this.resolveType(decl.type);
+
+      member = this.createMemberSymbol(
+        decl.name,
+        SymbolKind.FIELD,
+        this.toTypeInfo(memberType, decl.isConst),
+        visibility,
+        decl
+      );
+      ownerType.members!.set(decl.name, memberType);
+    }
+
+    if (isStatic) {
+      member.storageClass = StorageClass.STATIC;
+    }
+    if (isAbstract) {
+      this.abstractMembers.add(member);
+    }
+
+    this.addMember(owner, member, decl);
+  }
+
+  /**
+   * Check the arity of an 'operator<op>' member: binary operators take
+   * the right operand, unary ones ('-', '!', '~') take none
+   */
+  private checkOperatorDeclaration(decl: FunctionDeclaration): void {
+    const operator = decl.name.slice('operator'.length);
+    const arities =
+      operator === '-' || operator === '+'
+        ? [0, 1]
+        : operator === '!' || operator === '~'
+          ? [0]
+          : [1];
+
+    if (!arities.includes(decl.parameters.length)) {
+      globalErrorHandler.reportSemanticError(
+        `Operator '${decl.name}' must take ${arities.join(' or ')} parameter${arities.join() === '1' ? '' : 's'}`,
+        this.getLocation(decl)
+      );
+    }
+  }
+
+  /**
+   * Add a member to a type, keeping method overloads together
+   */
+  private addMember(owner: Symbol, member: Symbol, node: ASTNode): void {
+    const existing = owner.members!.get(member.name);
+
+    if (!existing) {
+      owner.members!.set(member.name, member);
+      this.symbolsFound++;
+    } else if (existing.signature && member.signature) {
+      existing.overloads = [...(existing.overloads || []), member];
+      this.symbolsFound++;
+    } else {
+      globalErrorHandler.reportSemanticError(
+        `Duplicate member '${member.name}' in '${owner.name}'`,
+        this.getLocation(node)
+      );
+    }
+  }
+
+  /*
+   * Declaration analysis
+   */
+
+  /**
+   * Analyze individual declaration
+   */
+  private analyzeDeclaration(decl: Declaration): void {
+    if (decl instanceof ExportDeclaration) {
+      if (decl.declaration) {
+        this.analyzeDeclaration(decl.declaration);
+      }
+      this.collectExports(decl);
+    } else if (decl instanceof NamespaceDeclaration) {
+      this.analyzeNamespaceDeclaration(decl);
+    } else if (decl instanceof FunctionDeclaration) {
+      this.analyzeFunctionDeclaration(decl);
+    } else if (decl instanceof VariableDeclaration) {
+      const symbol = this.symbolTable.getCurrentScope().lookupLocal(decl.name);
+      if (symbol) {
+        this.analyzeVariableInitializer(decl, symbol);
+      }
+    } else if (decl instanceof ClassDeclaration) {
+      this.analyzeClassDeclaration(decl);
+    } else if (decl instanceof StructDeclaration) {
+      this.analyzeStructDeclaration(decl);
+    } else if (decl instanceof EnumDeclaration) {
+      this.analyzeEnumDeclaration(decl);
+    } else if (decl instanceof InterfaceDeclaration) {
+      /* Members were resolved and validated during collection */
+      this.typesChecked++;
+    }
+  }
+
+  /**
+   * Record the names a top-level export makes visible to other modules
+   */
+  private collectExports(decl: ExportDeclaration): void {
+    const scope = this.symbolTable.getCurrentScope();
+    if (scope !== this.symbolTable.getGlobalScope()) {
+      return;
+    }
+
+    if (decl.declaration) {
+      const name = (decl.declaration as { name?: string }).name;
+      const symbol = name ? scope.lookupLocal(name) : undefined;
+      if (symbol) {
+        symbol.isExported = true;
+        this.addExport(name!, this.createExport(symbol, name!), decl);
+      }
+      return;
+    }
+
+    const exports =
+      decl.source !== null && this.linker
+        ? this.linker.getExports(decl.source)
+        : null;
+
+    for (const specifier of decl.specifiers) {
+      let exported: ModuleExport | undefined;
+
+      if (decl.source !== null) {
+        /* Re-exports of modules outside the compile unit are unchecked */
+        exported =
+          exports &&
+          this.findExport(exports, decl.source, specifier.local, specifier);
+      } else {
+        const symbol = scope.lookupLocal(specifier.local);
+        if (symbol) {
+          symbol.isExported = !symbol.isImported;
+          exported = this.createExport(symbol, specifier.local);
+        } else {
+          globalErrorHandler.reportSemanticError(
+            `Cannot export '${specifier.local}': it is not declared in this module`,
+            this.getLocation(specifier)
+          );
+        }
+      }
+
+      if (exported) {
+        this.addExport(specifier.exported, exported, specifier);
+      }
+    }
+  }
+
+  /**
+   * Describe a symbol of this module for the modules importing it
+   */
+  private createExport(symbol: Symbol, name: string): ModuleExport {
+    const isType =
+      symbol.kind === SymbolKind.TYPEDEF ||
+      this.typeSymbols.get(name) === symbol;
+
+    return {
+      symbol,
+      type: (isType && this.typeRegistry.getType(name)) || null,
+      template: this.templateDeclarations.get(symbol) || null,
+    };
+  }
+
+  /**
+   * Add an exported name, reporting names exported twice
+   */
+  private addExport(name: string, exported: ModuleExport, node: ASTNode): void {
+    if (this.exports.has(name)) {
+      globalErrorHandler.reportSemanticError(
+        `Duplicate export '${name}'`,
+        this.getLocation(node)
+      );
+      return;
+    }
+
+    this.exports.set(name, exported);
+  }
+
+  /**
+   * Analyze namespace declaration
+   */
+  private analyzeNamespaceDeclaration(decl: NamespaceDeclaration): void {
+    const scope = this.namespaceScopes.get(decl);
+    if (!scope) {
+      return;
+    }
+
+    this.symbolTable.reenterScope(scope);
+    for (const inner of decl.declarations) {
+      this.analyzeDeclaration(inner);
+    }
+    this.symbolTable.exitScope();
+  }
+
+  /**
+   * Analyze function declaration
+   */
+  private analyzeFunctionDeclaration(
+    funcDecl: FunctionDeclaration,
+    isConstructor = false
+  ): void {
+    this.typeParameters.push({
+      declaration: funcDecl,
+      parameters: funcDecl.templateParameters,
+    });
+
+    /* Constructors and untyped TypeScript functions have no declared result */
+    const returnType = isConstructor
+      ? this.builtin('void')
+      : this.resolveBodyReturnType(funcDecl.returnType, funcDecl.isAsync);
+
+    this.symbolTable.enterScope(
+      ScopeType.FUNCTION,
+      funcDecl.name,
+      this.getLocation(funcDecl)
+    );
+    this.declareParameters(funcDecl.parameters);
+
+    const previousFunction = this.currentFunction;
+    this.currentFunction = {
+      name: funcDecl.name,
+      returnType,
+      returnTypes: [],
+      isAsync: funcDecl.isAsync,
+      isGenerator: false,
+      loopDepth: 0,
+      switchDepth: 0,
+    };
+
+    if (funcDecl.body) {
+      this.analyzeBlockStatement(funcDecl.body);
+      this.checkReturnPaths(funcDecl.name, returnType, funcDecl.body, funcDecl);
+    }
+
+    this.currentFunction = previousFunction;
+    this.exitScope();
+    this.typeParameters.pop();
+
+    this.typesChecked++;
+  }
+
+  /**
+   * Declare function parameters in the current scope
+   */
+  private declareParameters(parameters: Parameter[]): TypeDescriptor[] {
+    const types: TypeDescriptor[] = [];
+
+    for (const param of parameters) {
+      const type = this.resolveType(param.type);
+      types.push(type);
+
+      if (param.defaultValue) {
+        this.checkAssignable(
+          this.analyzeExpression(param.defaultValue, type),
+          type,
+          param.defaultValue,
+          'default value'
+        );
+      }
+
+      const paramSymbol = this.symbolTable.createSymbol(
+        param.name,
+        SymbolKind.PARAMETER,
+        this.toTypeInfo(type),
+        this.getLocation(param)
+      );
+
+      if (!this.symbolTable.addSymbol(paramSymbol)) {
+        globalErrorHandler.reportSemanticError(
+          `Parameter '${param.name}' is already declared`,
+          this.getLocation(param)
+        );
+      }
+    }
+
+    return types;
+  }
+
+  /**
+   * Analyze class declaration
+   */
+  private analyzeClassDeclaration(classDecl: ClassDeclaration): void {
+    const symbol = this.getTypeSymbol(classDecl, SymbolKind.CLASS);
+    if (!symbol) {
+      return;
+    }
+
+    if (this.isSubclassOf(symbol, symbol, true)) {
+      globalErrorHandler.reportSemanticError(
+        `Class '${classDecl.name}' cannot inherit from itself`,
+        this.getLocation(classDecl.superClass || classDecl)
+      );
+      symbol.baseClasses = [];
+    }
+
+    if (!classDecl.isAbstract) {
+      this.checkAbstractMembers(symbol, classDecl);
+      this.checkImplementedInterfaces(symbol, classDecl);
+    }
+
+    /* Enter class scope */
+    this.symbolTable.enterScope(
+      ScopeType.CLASS,
+      classDecl.name,
+      this.getLocation(classDecl)
+    );
+
+    const previousClass = this.currentClass;
+    this.currentClass = symbol;
+    this.typeParameters.push({
+      declaration: classDecl,
+      parameters: classDecl.templateParameters,
+    });
+
+    /* Analyze class members */
+    for (const member of classDecl.members) {
+      const decl = member.member;
+
+      if (member.isAbstract && !classDecl.isAbstract) {
+        globalErrorHandler.reportSemanticError(
+          `Abstract member '${decl.name}' can only appear in an abstract class`,
+          this.getLocation(member)
+        );
+      }
+
+      if (decl instanceof FunctionDeclaration) {
+        this.analyzeFunctionDeclaration(
+          decl,
+          this.isConstructorName(decl.name, classDecl.name)
+        );
+      } else {
+        const field = symbol.members!.get(decl.name);
+        if (field && field.kind === SymbolKind.FIELD) {
+          this.analyzeVariableInitializer(decl, field);
+        }
+      }
+    }
+
+    this.typeParameters.pop();
+    this.currentClass = previousClass;
+
+    /* Exit class scope */
+    this.symbolTable.exitScope();
+
+    this.typesChecked++;
+  }
+
+  /**
+   * Analyze struct method bodies; fields were resolved during collection
+   */
+  private analyzeStructDeclaration(structDecl: StructDeclaration): void {
+    const symbol = this.getTypeSymbol(structDecl, SymbolKind.STRUCT);
+    if (!symbol) {
+      return;
+    }
+
+    this.symbolTable.enterScope(
+      ScopeType.CLASS,
+      structDecl.name,
+      this.getLocation(structDecl)
+    );
+
+    const previousClass = this.currentClass;
+    this.currentClass = symbol;
+    this.typeParameters.push({
+      declaration: structDecl,
+      parameters: structDecl.templateParameters,
+    });
+
+    for (const method of structDecl.methods) {
+      this.analyzeFunctionDeclaration(method);
+    }
+
+    this.typeParameters.pop();
+    this.currentClass = previousClass;
+    this.symbolTable.exitScope();
+
+    this.typesChecked++;
+  }
+
+  /**
+   * Check that a concrete class implements inherited abstract members
+   */
+  private checkAbstractMembers(
+    symbol: Symbol,
+    classDecl: ClassDeclaration
+  ): void {
+    const reported = new Set<string>();
+    let base = this.getBaseClass(symbol);
+    const visited = new Set<Symbol>();
+
+    while (base && !visited.has(base)) {
+      visited.add(base);
+
+      for (const [name, member] of base.members!) {
+        if (!this.abstractMembers.has(member) || reported.has(name)) {
+          continue;
+        }
+
+        const found = this.findMember(symbol, name, false);
+        if (found && this.abstractMembers.has(found.symbol)) {
+          reported.add(name);
+          globalErrorHandler.reportSemanticError(
+            `Class '${classDecl.name}' does not implement abstract member '${name}' of '${found.owner.name}'`,
+            this.getLocation(classDecl)
+          );
+        }
+      }
+
+      base = this.getBaseClass(base);
+    }
+  }
+
+  /**
+   * Check that a concrete class provides every interface member
+   */
+  private checkImplementedInterfaces(
+    symbol: Symbol,
+    classDecl: ClassDeclaration
+  ): void {
+    for (const name of symbol.interfaces!) {
+      const target = this.typeSymbols.get(name);
+      if (!target) {
+        continue;
+      }
+
+      for (const memberName of this.getAllMemberNames(target)) {
+        if (!this.findMember(symbol, memberName, false)) {
+          globalErrorHandler.reportSemanticError(
+            `Class '${classDecl.name}' does not implement '${memberName}' from interface '${name}'`,
+            this.getLocation(classDecl)
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Analyze enum member values in the scope of earlier members
+   */
+  private analyzeEnumDeclaration(enumDecl: EnumDeclaration): void {
+    const symbol = this.getTypeSymbol(enumDecl, SymbolKind.ENUM);
+    if (!symbol) {
+      return;
+    }
+
+    this.symbolTable.enterScope(
+      ScopeType.BLOCK,
+      enumDecl.name,
+      this.getLocation(enumDecl)
+    );
+
+    for (const member of enumDecl.members) {
+      if (member.value) {
+        const type = this.analyzeExpression(member.value);
+        if (!this.isNumeric(type) && type.name !== 'string') {
+          globalErrorHandler.reportTypeError(
+            `Enum member '${member.name}' must have a numeric or string value, got '${type.name}'`,
+            this.getLocation(member.value)
+          );
+        }
+      }
+
+      const memberSymbol = symbol.members!.get(member.name);
+      if (memberSymbol) {
+        this.symbolTable.addSymbol(memberSymbol);
+      }
+    }
+
+    this.exitScope();
+    this.typesChecked++;
+  }
+
+  /**
+   * Analyze the initializer of a variable or field
+   */
+  private analyzeVariableInitializer(
+    varDecl: VariableDeclaration,
+    symbol: Symbol
+  ): void {
+    const declared = this.isInferredType(varDecl.type)
+      ? null
+      : this.typeChecker.convertTypeInfo(symbol.type);
+
+    if (!varDecl.initializer) {
+      if (varDecl.isConst && !varDecl.isExtern) {
+        globalErrorHandler.reportSemanticError(
+          `Constant '${varDecl.name}' must be initialized`,
+          this.getLocation(varDecl)
+        );
+      }
+      return;
+    }
+
+    const initType = this.analyzeExpression(
+      varDecl.initializer,
+      declared || undefined
+    );
+
+    if (declared) {
+      this.checkAssignable(
+        initType,
+        declared,
+        varDecl.initializer,
+        'initialization'
+      );
+    } else if (!['null', 'undefined', 'void'].includes(initType.name)) {
+      /* Inferred from the initializer ('let', 'auto' and untyped fields) */
+      symbol.type = this.toTypeInfo(initType, varDecl.isConst);
+    }
+
+    this.recordCopy(varDecl.initializer, initType);
+    this.recordStructCopy(varDecl.initializer, declared || initType);
+    this.typesChecked++;
+  }
+
+  /*
+   * Statements
+   */
+
+  /**
+   * Analyze statement
+   */
+  private analyzeStatement(stmt: Statement | Declaration): void {
+    if (stmt instanceof BlockStatement) {
+      this.analyzeBlockStatement(stmt);
+    } else if (stmt instanceof ExpressionStatement) {
+      this.analyzeExpression(stmt.expression);
+    } else if (stmt instanceof VariableDeclaration) {
+      this.analyzeLocalVariable(stmt);
+    } else if (stmt instanceof FunctionDeclaration) {
+      this.collectFunction(stmt);
+      this.analyzeFunctionDeclaration(stmt);
+    } else if (stmt instanceof IfStatement) {
+      this.analyzeCondition(stmt.condition);
+      this.analyzeStatement(stmt.thenStatement);
+      if (stmt.elseStatement) {
+        this.analyzeStatement(stmt.elseStatement);
+      }
+    } else if (stmt instanceof WhileStatement) {
+      this.analyzeCondition(stmt.condition);
+      this.analyzeLoopBody(stmt.body);
+    } else if (stmt instanceof DoWhileStatement) {
+      this.analyzeLoopBody(stmt.body);
+      this.analyzeCondition(stmt.condition);
+    } else if (stmt instanceof ForStatement) {
+      this.analyzeForStatement(stmt);
+    } else if (
+      stmt instanceof ForInStatement ||
+      stmt instanceof ForOfStatement
+    ) {
+      this.analyzeForEachStatement(stmt);
+    } else if (stmt instanceof SwitchStatement) {
+      this.analyzeSwitchStatement(stmt);
+    } else if (stmt instanceof TryStatement) {
+      this.analyzeTryStatement(stmt);
+    } else if (stmt instanceof ReturnStatement) {
+      this.analyzeReturnStatement(stmt);
+    } else if (stmt instanceof BreakStatement) {
+      const context = this.currentFunction;
+      if (
+        !stmt.label &&
+        (!context || (context.loopDepth === 0 && context.switchDepth === 0))
+      ) {
+        globalErrorHandler.reportSemanticError(
+          `'break' can only be used inside a loop or switch`,
+          this.getLocation(stmt)
+        );
+      }
+    } else if (stmt instanceof ContinueStatement) {
+      if (!this.currentFunction || this.currentFunction.loopDepth === 0) {
+        globalErrorHandler.reportSemanticError(
+          `'continue' can only be used inside a loop`,
+          this.getLocation(stmt)
+        );
+      }
+    } else if (stmt instanceof ThrowStatement) {
+      this.analyzeExpression(stmt.argument);
+    }
+  }
+
+  /**
+   * Analyze block statement
+   */
+  private analyzeBlockStatement(blockStmt: BlockStatement): void {
+    /* Enter block scope */
+    this.symbolTable.enterScope(
+      ScopeType.BLOCK,
+      `block_${Date.now()}`,
+      this.getLocation(blockStmt)
+    );
+
+    this.analyzeStatementList(blockStmt.statements);
+
+    /* Exit block scope */
+    this.exitScope();
+  }
+
+  /**
+   * Analyze a statement sequence, warning once about unreachable code
+   */
+  private analyzeStatementList(statements: Statement[]): void {
+    let reachable = true;
+
+    for (const stmt of statements) {
+      if (!reachable) {
+        globalErrorHandler.reportWarning(
+          'Unreachable code detected',
+          this.getLocation(stmt)
+        );
+        reachable = true; /* Report only the first unreachable statement */
+      }
+
+      this.analyzeStatement(stmt);
+
+      if (!this.canComplete(stmt)) {
+        reachable = false;
+      }
+    }
+  }
+
+  /**
+   * Analyze a local variable declaration
+   */
+  private analyzeLocalVariable(varDecl: VariableDeclaration): void {
+    const symbol = this.createVariableSymbol(varDecl);
+
+    /* The variable is visible from its declaration onward */
+    this.analyzeVariableInitializer(varDecl, symbol);
+    this.addSymbol(symbol, varDecl);
+  }
+
+  /**
+   * Analyze a condition; any non-void value is tested for truthiness
+   */
+  private analyzeCondition(condition: Expression | null): void {
+    if (!condition) {
+      return;
+    }
+
+    const condType = this.analyzeExpression(condition);
+    if (condType.kind === TypeKind.VOID) {
+      globalErrorHandler.reportTypeError(
+        `Condition cannot be of type 'void'`,
+        this.getLocation(condition)
+      );
+    }
+  }
+
+  /**
+   * Analyze the body of a loop
+   */
+  private analyzeLoopBody(body: Statement): void {
+    if (this.currentFunction) {
+      this.currentFunction.loopDepth++;
+    }
+
+    this.analyzeStatement(body);
+
+    if (this.currentFunction) {
+      this.currentFunction.loopDepth--;
+    }
+  }
+
+  /**
+   * Analyze for statement
+   */
+  private analyzeForStatement(forStmt: ForStatement): void {
+    /* Enter for scope */
+    this.symbolTable.enterScope(
+      ScopeType.BLOCK,
+      `for_${Date.now()}`,
+      this.getLocation(forStmt)
+    );
+
+    /* Analyze init */
+    if (forStmt.init instanceof Expression) {
+      this.analyzeExpression(forStmt.init);
+    } else if (forStmt.init) {
+      this.analyzeStatement(forStmt.init);
+    }
+
+    this.analyzeCondition(forStmt.condition);
+
+    if (forStmt.update) {
       this.analyzeExpression(forStmt.update);
     }
 
-    /* Analyze body */
-    if (forStmt.body) {
-      this.analyzeStatement(forStmt.body);
-    }
+    this.analyzeLoopBody(forStmt.body);
+
+    /* Exit for scope */
+    this.exitScope();
+  }
+
+  /**
+   * Analyze for-in and for-of statements
+   */
+  private analyzeForEachStatement(
+    forStmt: ForInStatement | ForOfStatement
+  ): void {
+    const iterableType = this.analyzeExpression(forStmt.iterable);
+
+    this.symbolTable.enterScope(
+      ScopeType.BLOCK,
+      `for_${Date.now()}`,
+      this.getLocation(forStmt)
+    );
+
+    /* for-in visits keys, for-of visits elements */
+    const variableType =
+      forStmt instanceof ForInStatement
+        ? this.builtin('string')
+        : this.getElementType(iterableType);
+
+    if (
+      forStmt instanceof ForOfStatement &&
+      !this.typeChecker.isDynamicType(iterableType) &&
+      iterableType.kind !== TypeKind.ARRAY &&
+      iterableType.name !== 'string'
+    ) {
+      globalErrorHandler.reportTypeError(
+        `Type '${iterableType.name}' is not iterable`,
+        this.getLocation(forStmt.iterable)
+      );
+    }
+
+    this.symbolTable.addSymbol(
+      this.symbolTable.createSymbol(
+        forStmt.variable,
+        SymbolKind.VARIABLE,
+        this.toTypeInfo(variableType),
+        this.getLocation(forStmt)
+      )
+    );
+
+    this.analyzeLoopBody(forStmt.body);
+    this.exitScope();
+  }
+
+  /**
+   * Analyze switch statement
+   */
+  private analyzeSwitchStatement(switchStmt: SwitchStatement): void {
+    const discriminantType = this.analyzeExpression(switchStmt.discriminant);
+
+    this.symbolTable.enterScope(
+      ScopeType.BLOCK,
+      `switch_${Date.now()}`,
+      this.getLocation(switchStmt)
+    );
+    if (this.currentFunction) {
+      this.currentFunction.switchDepth++;
+    }
+
+    for (const switchCase of switchStmt.cases) {
+      if (switchCase.test) {
+        const testType = this.analyzeExpression(
+          switchCase.test,
+          discriminantType
+        );
+        if (
+          !this.typeChecker.isAssignable(testType, discriminantType) &&
+          !this.typeChecker.isAssignable(discriminantType, testType)
+        ) {
+          globalErrorHandler.reportTypeError(
+            `Case of type '${testType.name}' is not comparable to '${discriminantType.name}'`,
+            this.getLocation(switchCase.test)
+          );
+        }
+      }
+
+      this.analyzeStatementList(switchCase.statements);
+    }
+
+    if (this.currentFunction) {
+      this.currentFunction.switchDepth--;
+    }
+    this.exitScope();
+  }
+
+  /**
+   * Analyze try statement
+   */
+  private analyzeTryStatement(tryStmt: TryStatement): void {
+    this.analyzeBlockStatement(tryStmt.body);
+
+    if (tryStmt.handler) {
+      this.symbolTable.enterScope(
+        ScopeType.BLOCK,
+        `catch_${Date.now()}`,
+        this.getLocation(tryStmt.handler)
+      );
+
+      if (tryStmt.handler.param) {
+        this.symbolTable.addSymbol(
+          this.symbolTable.createSymbol(
+            tryStmt.handler.param,
+            SymbolKind.PARAMETER,
+            this.toTypeInfo(this.builtin('any')),
+            this.getLocation(tryStmt.handler)
+          )
+        );
+      }
+
+      this.analyzeBlockStatement(tryStmt.handler.body);
+      this.exitScope();
+    }
+
+    if (tryStmt.finalizer) {
+      this.analyzeBlockStatement(tryStmt.finalizer);
+    }
+  }
+
+  /**
+   * Analyze return statement
+   */
+  private analyzeReturnStatement(returnStmt: ReturnStatement): void {
+    const context = this.currentFunction;
+    const expected = context ? context.returnType : null;
+
+    if (!returnStmt.argument) {
+      if (context && expected && this.requiresReturnValue(expected)) {
+        globalErrorHandler.reportTypeError(
+          `${this.describeFunction(context.name)} must return a value of type '${expected.name}'`,
+          this.getLocation(returnStmt)
+        );
+      }
+      return;
+    }
+
+    const type = this.analyzeExpression(
+      returnStmt.argument,
+      expected || undefined
+    );
+
+    if (!context) {
+      return;
+    }
+
+    this.recordStructCopy(returnStmt.argument, expected || type);
+
+    if (!expected) {
+      context.returnTypes.push(type);
+    } else if (expected.kind === TypeKind.VOID) {
+      globalErrorHandler.reportTypeError(
+        `${this.describeFunction(context.name)} returns 'void' and cannot return a value`,
+        this.getLocation(returnStmt.argument)
+      );
+    } else {
+      this.checkAssignable(type, expected, returnStmt.argument, 'return');
+    }
+  }
+
+  /**
+   * Report functions whose end can be reached without returning a value
+   */
+  private checkReturnPaths(
+    name: string | null,
+    returnType: TypeDescriptor | null,
+    body: BlockStatement,
+    node: ASTNode
+  ): void {
+    /* Generators produce their values through 'yield' */
+    if (
+      returnType &&
+      this.requiresReturnValue(returnType) &&
+      !this.currentFunction?.isGenerator &&
+      this.canComplete(body)
+    ) {
+      globalErrorHandler.reportTypeError(
+        `Not all code paths in ${this.describeFunction(name, false)} return a value`,
+        this.getLocation(node)
+      );
+    }
+  }
+
+  /*
+   * Control flow
+   */
+
+  /**
+   * Check if execution can continue after a statement
+   */
+  private canComplete(stmt: Statement | Declaration): boolean {
+    if (
+      stmt instanceof ReturnStatement ||
+      stmt instanceof ThrowStatement ||
+      stmt instanceof BreakStatement ||
+      stmt instanceof ContinueStatement
+    ) {
+      return false;
+    }
+
+    if (stmt instanceof BlockStatement) {
+      return stmt.statements.every((inner) => this.canComplete(inner));
+    }
+
+    if (stmt instanceof IfStatement) {
+      return (
+        !stmt.elseStatement ||
+        this.canComplete(stmt.thenStatement) ||
+        this.canComplete(stmt.elseStatement)
+      );
+    }
+
+    /* Infinite loops only end through 'break' */
+    if (stmt instanceof WhileStatement || stmt instanceof ForStatement) {
+      return (
+        !this.isAlwaysTrue(stmt.condition) || this.containsBreak(stmt.body)
+      );
+    }
+
+    if (stmt instanceof DoWhileStatement) {
+      if (this.containsBreak(stmt.body)) {
+        return true;
+      }
+      return (
+        !this.isAlwaysTrue(stmt.condition) &&
+        (this.canComplete(stmt.body) || this.containsContinue(stmt.body))
+      );
+    }
+
+    /* A switch with a default case falls through to its last case */
+    if (stmt instanceof SwitchStatement) {
+      const hasDefault = stmt.cases.some((switchCase) => !switchCase.test);
+      const last = stmt.cases[stmt.cases.length - 1];
+      return (
+        !hasDefault ||
+        stmt.cases.some((switchCase) =>
+          switchCase.statements.some((inner) => this.containsBreak(inner))
+        ) ||
+        last.statements.every((inner) => this.canComplete(inner))
+      );
+    }
+
+    if (stmt instanceof TryStatement) {
+      if (stmt.finalizer && !this.canComplete(stmt.finalizer)) {
+        return false;
+      }
+      return (
+        this.canComplete(stmt.body) ||
+        (!!stmt.handler && this.canComplete(stmt.handler.body))
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Check if a loop condition is missing or constantly true
+   */
+  private isAlwaysTrue(condition: Expression | null): boolean {
+    return (
+      !condition ||
+      (condition instanceof Literal &&
+        (condition.value === true ||
+          (typeof condition.value === 'number' && condition.value !== 0)))
+    );
+  }
+
+  /**
+   * Check if a statement contains a 'break' that leaves the enclosing loop
+   */
+  private containsBreak(
+    stmt: Statement | Declaration,
+    nested = false
+  ): boolean {
+    if (stmt instanceof BreakStatement) {
+      return !!stmt.label || !nested;
+    }
+
+    /* Unlabeled breaks inside inner loops and switches stay there */
+    const inner =
+      nested ||
+      stmt instanceof WhileStatement ||
+      stmt instanceof DoWhileStatement ||
+      stmt instanceof ForStatement ||
+      stmt instanceof ForInStatement ||
+      stmt instanceof ForOfStatement ||
+      stmt instanceof SwitchStatement;
+
+    return this.getChildStatements(stmt).some((child) =>
+      this.containsBreak(child, inner)
+    );
+  }
+
+  /**
+   * Check if a statement contains a 'continue' of the enclosing loop
+   */
+  private containsContinue(
+    stmt: Statement | Declaration,
+    nested = false
+  ): boolean {
+    if (stmt instanceof ContinueStatement) {
+      return !!stmt.label || !nested;
+    }
+
+    const inner =
+      nested ||
+      stmt instanceof WhileStatement ||
+      stmt instanceof DoWhileStatement ||
+      stmt instanceof ForStatement ||
+      stmt instanceof ForInStatement ||
+      stmt instanceof ForOfStatement;
+
+    return this.getChildStatements(stmt).some((child) =>
+      this.containsContinue(child, inner)
+    );
+  }
+
+  /**
+   * Get the statements directly nested in a statement
+   */
+  private getChildStatements(stmt: Statement | Declaration): Statement[] {
+    if (stmt instanceof BlockStatement) {
+      return stmt.statements;
+    }
+    if (stmt instanceof IfStatement) {
+      return stmt.elseStatement
+        ? [stmt.thenStatement, stmt.elseStatement]
+        : [stmt.thenStatement];
+    }
+    if (
+      stmt instanceof WhileStatement ||
+      stmt instanceof DoWhileStatement ||
+      stmt instanceof ForStatement ||
+      stmt instanceof ForInStatement ||
+      stmt instanceof ForOfStatement
+    ) {
+      return [stmt.body];
+    }
+    if (stmt instanceof SwitchStatement) {
+      return stmt.cases.flatMap((switchCase) => switchCase.statements);
+    }
+    if (stmt instanceof TryStatement) {
+      return [stmt.body, stmt.handler?.body, stmt.finalizer].filter(
+        (block): block is BlockStatement => !!block
+      );
+    }
+    return [];
+  }
+
+  /*
+   * Expressions
+   */
+
+  /**
+   * Analyze expression and return its type; 'expected' is the type the
+   * context requires and types array literals and function expressions
+   */
+  private analyzeExpression(
+    expr: Expression,
+    expected?: TypeDescriptor
+  ): TypeDescriptor {
+    if (expr instanceof Identifier) {
+      return this.analyzeIdentifier(expr);
+    }
+    if (expr instanceof Literal) {
+      return this.analyzeLiteral(expr);
+    }
+    if (expr instanceof BinaryExpression || expr instanceof LogicalExpression) {
+      return this.analyzeBinaryExpression(expr);
+    }
+    if (expr instanceof UnaryExpression) {
+      return this.analyzeUnaryExpression(expr);
+    }
+    if (expr instanceof UpdateExpression) {
+      return this.analyzeUpdateExpression(expr);
+    }
+    if (expr instanceof AssignmentExpression) {
+      return this.analyzeAssignmentExpression(expr);
+    }
+    if (expr instanceof ConditionalExpression) {
+      return this.analyzeConditionalExpression(expr, expected);
+    }
+    if (expr instanceof CallExpression) {
+      return this.analyzeCallExpression(expr, expected);
+    }
+    if (expr instanceof NewExpression) {
+      return this.analyzeNewExpression(expr, expected);
+    }
+    if (expr instanceof MemberExpression) {
+      return this.resolveMember(expr).type;
+    }
+    if (expr instanceof ArrayExpression) {
+      return this.analyzeArrayExpression(expr, expected);
+    }
+    if (expr instanceof ObjectExpression) {
+      for (const property of expr.properties) {
+        if (property.computed && property.key instanceof Expression) {
+          this.analyzeExpression(property.key);
+        }
+        this.analyzeExpression(property.value);
+      }
+      return this.builtin('any');
+    }
+    if (
+      expr instanceof ArrowFunctionExpression ||
+      expr instanceof FunctionExpression ||
+      expr instanceof LambdaExpression
+    ) {
+      return this.analyzeFunctionExpression(expr);
+    }
+    if (expr instanceof ThisExpression) {
+      if (!this.currentClass) {
+        globalErrorHandler.reportSemanticError(
+          `'this' can only be used inside a class`,
+          this.getLocation(expr)
+        );
+        return this.builtin('any');
+      }
+      return this.typeRegistry.getType(this.currentClass.name)!;
+    }
+    if (expr instanceof SuperExpression) {
+      const base = this.getSuperClass(expr);
+      return base ? this.typeRegistry.getType(base.name)! : this.builtin('any');
+    }
+    if (expr instanceof TemplateLiteral) {
+      for (const inner of expr.expressions) {
+        this.analyzeExpression(inner);
+      }
+      return this.builtin('string');
+    }
+    if (expr instanceof AwaitExpression) {
+      if (this.currentFunction && !this.currentFunction.isAsync) {
+        globalErrorHandler.reportSemanticError(
+          `'await' can only be used inside an async function`,
+          this.getLocation(expr)
+        );
+      }
+      return this.analyzeExpression(expr.argument);
+    }
+    if (expr instanceof YieldExpression) {
+      if (this.currentFunction) {
+        this.currentFunction.isGenerator = true;
+      }
+      if (expr.argument) {
+        this.analyzeExpression(expr.argument);
+      }
+      return this.builtin('any');
+    }
+
+    /* Return unknown type for unsupported expressions */
+    return this.builtin('any');
+  }
+
+  /**
+   * Analyze identifier
+   */
+  private analyzeIdentifier(identifier: Identifier): TypeDescriptor {
+    const symbol = this.resolveIdentifier(identifier);
+    return symbol ? this.getSymbolType(symbol) : this.builtin('any');
+  }
+
+  /**
+   * Resolve an identifier to its symbol and record the use
+   */
+  private resolveIdentifier(
+    identifier: Identifier,
+    isRead = true
+  ): Symbol | undefined {
+    let symbol = this.symbolTable.lookup(identifier.name);
+
+    /* Class members are in scope inside methods (C++ style) */
+    if (!symbol && this.currentClass) {
+      const found = this.findMember(this.currentClass, identifier.name);
+      if (found) {
+        this.checkMemberAccess(found, identifier.name, identifier);
+        this.memberReferences.set(identifier, {
+          owner: found.owner.name,
+          isStatic: found.symbol.storageClass === StorageClass.STATIC,
+        });
+        symbol = found.symbol;
+      }
+    }
+
+    if (!symbol) {
+      globalErrorHandler.reportSemanticError(
+        `Undefined identifier '${identifier.name}'`,
+        this.getLocation(identifier)
+      );
+      return undefined;
+    }
+
+    if (isRead) {
+      symbol.usageCount = (symbol.usageCount || 0) + 1;
+    }
+    return symbol;
+  }
+
+  /**
+   * Analyze literal
+   */
+  private analyzeLiteral(literal: Literal): TypeDescriptor {
+    if (literal.value === null || literal.value === undefined) {
+      return this.builtin(literal.value === null ? 'null' : 'undefined');
+    }
+
+    switch (typeof literal.value) {
+      case 'number':
+        return this.isFloatLiteral(literal)
+          ? this.builtin('float')
+          : this.builtin('int');
+      case 'string':
+        return this.builtin('string');
+      case 'boolean':
+        return this.builtin('bool');
+      default:
+        return this.builtin('any');
+    }
+  }
+
+  /**
+   * Analyze binary and logical expressions
+   */
+  private analyzeBinaryExpression(
+    binExpr: BinaryExpression | LogicalExpression
+  ): TypeDescriptor {
+    const leftType = this.analyzeExpression(binExpr.left);
+    const rightType = this.analyzeExpression(binExpr.right);
+
+    return this.getBinaryResultType(
+      binExpr.operator,
+      leftType,
+      rightType,
+      binExpr
+    );
+  }
+
+  /**
+   * Get the result type of a binary operator, reporting invalid operands
+   */
+  private getBinaryResultType(
+    operator: string,
+    leftType: TypeDescriptor,
+    rightType: TypeDescriptor,
+    node: ASTNode
+  ): TypeDescriptor {
+    /* Vector math and user-defined operators ('v * 2.0', 'a + b') */
+    const resolved = this.resolveOperator(
+      operator,
+      [leftType, rightType],
+      node
+    );
+    if (resolved) {
+      return resolved;
+    }
+
+    /* Vectors only compare for equality, resolved above */
+    const vectorOperands =
+      leftType.kind === TypeKind.VECTOR || rightType.kind === TypeKind.VECTOR;
+
+    if (COMPARISON_OPERATORS.includes(operator) && !vectorOperands) {
+      return this.builtin('bool');
+    }
+
+    /* Logical operators keep the operand type when both sides agree */
+    if (operator === '&&' || operator === '||') {
+      return this.typeChecker.areTypesEqual(leftType, rightType)
+        ? leftType
+        : this.builtin('bool');
+    }
+
+    if (operator === '??') {
+      return this.typeChecker.isDynamicType(leftType) ? rightType : leftType;
+    }
+
+    if (operator === ',') {
+      return rightType;
+    }
+
+    const dynamic =
+      this.typeChecker.isDynamicType(leftType) ||
+      this.typeChecker.isDynamicType(rightType);
+
+    if (ARITHMETIC_OPERATORS.includes(operator)) {
+      /* String concatenation */
+      if (
+        operator === '+' &&
+        (leftType.name === 'string' || rightType.name === 'string')
+      ) {
+        return this.builtin('string');
+      }
+
+      /* Pointer arithmetic */
+      if (
+        leftType.kind === TypeKind.POINTER &&
+        (operator === '+' || operator === '-')
+      ) {
+        if (rightType.kind === TypeKind.POINTER && operator === '-') {
+          return this.builtin('int');
+        }
+        if (this.isIntegral(rightType) || dynamic) {
+          return leftType;
+        }
+      }
+      if (
+        rightType.kind === TypeKind.POINTER &&
+        operator === '+' &&
+        this.isIntegral(leftType)
+      ) {
+        return rightType;
+      }
+
+      if (this.isNumeric(leftType) && this.isNumeric(rightType)) {
+        return this.getWiderType(leftType, rightType);
+      }
+      if (dynamic) {
+        return this.isNumeric(leftType) || this.isNumeric(rightType)
+          ? this.isNumeric(leftType)
+            ? leftType
+            : rightType
+          : this.builtin('any');
+      }
+    } else if (BITWISE_OPERATORS.includes(operator)) {
+      if (
+        (this.isIntegral(leftType) ||
+          this.typeChecker.isDynamicType(leftType)) &&
+        (this.isIntegral(rightType) ||
+          this.typeChecker.isDynamicType(rightType))
+      ) {
+        return this.builtin('int');
+      }
+    } else if (!vectorOperands) {
+      return leftType;
+    }
+
+    globalErrorHandler.reportTypeError(
+      `Operator '${operator}' cannot be applied to types '${leftType.name}' and '${rightType.name}'`,
+      this.getLocation(node)
+    );
+    return this.builtin('any');
+  }
+
+  /**
+   * Analyze unary expression
+   */
+  private analyzeUnaryExpression(unaryExpr: UnaryExpression): TypeDescriptor {
+    /* sizeof accepts type names as well as values */
+    if (unaryExpr.operator === 'sizeof') {
+      return this.builtin('int');
+    }
+
+    const operandType = this.analyzeExpression(unaryExpr.argument);
+    const dynamic = this.typeChecker.isDynamicType(operandType);
+
+    const resolved = this.resolveOperator(
+      unaryExpr.operator,
+      [operandType],
+      unaryExpr
+    );
+    if (resolved) {
+      return resolved;
+    }
+
+    switch (unaryExpr.operator) {
+      case '!':
+        return this.builtin('bool');
+      case 'typeof':
+        return this.builtin('string');
+      case 'delete':
+        return this.builtin('bool');
+      case 'void':
+        return this.builtin('void');
+
+      /* Dereference yields the pointee, address-of a pointer to the operand */
+      case '*':
+        if (operandType.kind === TypeKind.POINTER && operandType.pointeeType) {
+          return operandType.pointeeType;
+        }
+        if (operandType.kind === TypeKind.ARRAY && operandType.elementType) {
+          return operandType.elementType;
+        }
+        if (!dynamic) {
+          globalErrorHandler.reportTypeError(
+            `Cannot dereference non-pointer type '${operandType.name}'`,
+            this.getLocation(unaryExpr)
+          );
+        }
+        return this.builtin('any');
+      case '&':
+        return this.typeRegistry.createPointerType(operandType);
+
+      case '~':
+        if (this.isIntegral(operandType) || dynamic) {
+          return this.builtin('int');
+        }
+        break;
+      case '-':
+      case '+':
+        if (this.isNumeric(operandType) || dynamic) {
+          return operandType.kind === TypeKind.ENUM
+            ? this.builtin('int')
+            : operandType;
+        }
+        break;
+      default:
+        return operandType;
+    }
+
+    globalErrorHandler.reportTypeError(
+      `Operator '${unaryExpr.operator}' cannot be applied to type '${operandType.name}'`,
+      this.getLocation(unaryExpr)
+    );
+    return this.builtin('any');
+  }
+
+  /**
+   * Analyze increment and decrement
+   */
+  private analyzeUpdateExpression(
+    updateExpr: UpdateExpression
+  ): TypeDescriptor {
+    const operandType = this.analyzeExpression(updateExpr.argument);
+    this.checkAssignmentTarget(updateExpr.argument);
+
+    if (
+      !this.isNumeric(operandType) &&
+      operandType.kind !== TypeKind.POINTER &&
+      !this.typeChecker.isDynamicType(operandType)
+    ) {
+      globalErrorHandler.reportTypeError(
+        `Operator '${updateExpr.operator}' cannot be applied to type '${operandType.name}'`,
+        this.getLocation(updateExpr)
+      );
+    }
+
+    return operandType;
+  }
+
+  /**
+   * Analyze assignment expression
+   */
+  private analyzeAssignmentExpression(
+    assignExpr: AssignmentExpression
+  ): TypeDescriptor {
+    /* A plain assignment writes the variable without reading it */
+    const leftType =
+      assignExpr.operator === '=' && assignExpr.left instanceof Identifier
+        ? this.getIdentifierTargetType(assignExpr.left)
+        : this.analyzeExpression(assignExpr.left);
+
+    this.checkAssignmentTarget(assignExpr.left);
+
+    let rightType = this.analyzeExpression(assignExpr.right, leftType);
+
+    /* Compound assignment applies the operator first ('a += b') */
+    if (assignExpr.operator !== '=') {
+      rightType = this.getBinaryResultType(
+        assignExpr.operator.slice(0, -1),
+        leftType,
+        rightType,
+        assignExpr
+      );
+    }
+
+    this.checkAssignable(rightType, leftType, assignExpr.right, 'assignment');
+    if (assignExpr.operator === '=') {
+      this.recordCopy(assignExpr.right, rightType);
+      this.recordStructCopy(assignExpr.right, leftType);
+    }
+    return leftType;
+  }
+
+  /**
+   * Resolve an operator on vector math types or through an
+   * 'operator<op>' member of the left operand, recording the use
+   */
+  private resolveOperator(
+    operator: string,
+    operandTypes: TypeDescriptor[],
+    node: ASTNode
+  ): TypeDescriptor | undefined {
+    const operation = this.typeChecker.getVectorOperation(
+      operator,
+      operandTypes
+    );
+    if (operation) {
+      this.operatorUses.set(node, { operator, operation, overload: null });
+      return operation.resultType;
+    }
+
+    const [operand, ...args] = operandTypes;
+    const typeSymbol = this.isAggregate(operand)
+      ? this.typeSymbols.get(operand.templateName || operand.name)
+      : undefined;
+    const found =
+      typeSymbol &&
+      this.findMember(
+        typeSymbol,
+        `operator${operator}`,
+        true,
+        new Set(),
+        this.typeRegistry.getTemplateBindings(operand)
+      );
+    if (!found || !found.symbol.signature) {
+      return undefined;
+    }
+
+    const overload = this.typeChecker.resolveOverload(
+      this.getOverloads(found.symbol),
+      args
+    );
+    if (!overload) {
+      return undefined;
+    }
+
+    found.symbol.usageCount = (found.symbol.usageCount || 0) + 1;
+    this.operatorUses.set(node, { operator, operation: null, overload });
+
+    return this.typeRegistry.substituteType(
+      this.typeChecker.convertTypeInfo(overload.signature!.returnType),
+      found.bindings
+    );
+  }
+
+  /**
+   * Record that a vector read from a variable or field is copied, since
+   * vectors are values in WORLDC but objects in the generated code
+   */
+  private recordCopy(expr: Expression, type: TypeDescriptor): void {
+    if (
+      type.kind !== TypeKind.VECTOR ||
+      !(expr instanceof Identifier || expr instanceof MemberExpression) ||
+      this.swizzles.has(expr as MemberExpression)
+    ) {
+      return;
+    }
+
+    this.operatorUses.set(expr, {
+      operator: '=',
+      operation: {
+        name: 'clone',
+        owner: type,
+        resultType: type,
+        reversed: false,
+      },
+      overload: null,
+    });
+  }
+
+  /**
+   * Record that a struct read from a variable or field is copied into
+   * a struct (not a reference to one): a local, an assigned variable, a
+   * by-value parameter or a return value. structs are values in WORLDC
+   * but objects in the generated code
+   */
+  private recordStructCopy(
+    expr: Expression,
+    target: TypeDescriptor | null | undefined
+  ): void {
+    if (
+      target?.kind === TypeKind.STRUCT &&
+      (expr instanceof Identifier || expr instanceof MemberExpression)
+    ) {
+      this.structCopies.add(expr);
+    }
+  }
+
+  /**
+   * Get the type of an assigned identifier without counting a use
+   */
+  private getIdentifierTargetType(identifier: Identifier): TypeDescriptor {
+    const symbol = this.resolveIdentifier(identifier, false);
+    return symbol ? this.getSymbolType(symbol) : this.builtin('any');
+  }
+
+  /**
+   * Check that an expression can be assigned to
+   */
+  private checkAssignmentTarget(target: Expression): void {
+    if (target instanceof Identifier) {
+      const symbol =
+        this.symbolTable.lookup(target.name) ||
+        (this.currentClass &&
+          this.findMember(this.currentClass, target.name)?.symbol);
+
+      if (!symbol) {
+        return; /* Already reported as undefined */
+      }
+
+      if (
+        symbol.type.isConst ||
+        symbol.kind === SymbolKind.FUNCTION ||
+        symbol.kind === SymbolKind.CLASS
+      ) {
+        globalErrorHandler.reportSemanticError(
+          `Cannot assign to '${target.name}' because it is a ${symbol.type.isConst ? 'constant' : symbol.kind.toLowerCase()}`,
+          this.getLocation(target)
+        );
+      }
+      return;
+    }
+
+    if (target instanceof MemberExpression) {
+      if (this.swizzles.get(target)?.kind === TypeKind.VECTOR) {
+        globalErrorHandler.reportSemanticError(
+          `Cannot assign to swizzle '${(target.property as Identifier).name}', assign its components instead`,
+          this.getLocation(target)
+        );
+      }
+      return;
+    }
+    if (target instanceof UnaryExpression && target.operator === '*') {
+      return;
+    }
+
+    globalErrorHandler.reportSemanticError(
+      'Invalid assignment target',
+      this.getLocation(target)
+    );
+  }
+
+  /**
+   * Analyze conditional expression
+   */
+  private analyzeConditionalExpression(
+    condExpr: ConditionalExpression,
+    expected?: TypeDescriptor
+  ): TypeDescriptor {
+    this.analyzeCondition(condExpr.test);
+
+    const consequent = this.analyzeExpression(condExpr.consequent, expected);
+    const alternate = this.analyzeExpression(condExpr.alternate, expected);
+
+    if (this.isNumeric(consequent) && this.isNumeric(alternate)) {
+      return this.getWiderType(consequent, alternate);
+    }
+    if (this.typeChecker.isAssignable(alternate, consequent)) {
+      return consequent;
+    }
+    if (this.typeChecker.isAssignable(consequent, alternate)) {
+      return alternate;
+    }
+
+    return this.typeRegistry.createUnionType([consequent, alternate]);
+  }
+
+  /**
+   * Analyze call expression
+   */
+  private analyzeCallExpression(
+    callExpr: CallExpression,
+    expected?: TypeDescriptor
+  ): TypeDescriptor {
+    const callee = callExpr.callee;
+
+    /* Base class constructor call */
+    if (callee instanceof SuperExpression) {
+      const base = this.getSuperClass(callee);
+      if (!base) {
+        this.analyzeArguments(callExpr.args);
+        return this.builtin('void');
+      }
+
+      this.analyzeConstruction(base, callExpr);
+      return this.builtin('void');
+    }
+
+    if (callee instanceof Identifier) {
+      const symbol = this.resolveIdentifier(callee);
+      if (!symbol) {
+        this.analyzeArguments(callExpr.args);
+        return this.builtin('any');
+      }
+
+      if (symbol.signature) {
+        return this.checkCall(
+          `'${callee.name}'`,
+          this.getOverloads(symbol),
+          callExpr
+        );
+      }
+
+      /* Built-in vector, quaternion and matrix construction */
+      const vectorType = this.typeRegistry.getType(callee.name);
+      if (
+        symbol.kind === SymbolKind.TYPEDEF &&
+        vectorType &&
+        vectorType.kind === TypeKind.VECTOR &&
+        vectorType.name === callee.name
+      ) {
+        return this.analyzeVectorConstruction(vectorType, callExpr);
+      }
+
+      /* Construction without 'new' ('vec3(1, 2, 3)', 'Point(x, y)') */
+      if (
+        symbol.kind === SymbolKind.CLASS ||
+        symbol.kind === SymbolKind.STRUCT ||
+        symbol.kind === SymbolKind.TYPEDEF
+      ) {
+        return this.analyzeConstruction(symbol, callExpr, expected);
+      }
+
+      return this.callValue(
+        this.getSymbolType(symbol),
+        `'${callee.name}'`,
+        callExpr
+      );
+    }
+
+    if (callee instanceof MemberExpression && !callee.computed) {
+      const { type, lookup } = this.resolveMember(callee);
+
+      if (lookup && lookup.symbol.signature) {
+        return this.checkCall(
+          `'${lookup.owner.name}.${lookup.symbol.name}'`,
+          this.getOverloads(lookup.symbol),
+          callExpr,
+          lookup.bindings
+        );
+      }
+
+      return this.callValue(type, 'expression', callExpr);
+    }
+
+    return this.callValue(
+      this.analyzeExpression(callee),
+      'expression',
+      callExpr
+    );
+  }
+
+  /**
+   * Analyze new expression
+   */
+  private analyzeNewExpression(
+    newExpr: NewExpression,
+    expected?: TypeDescriptor
+  ): TypeDescriptor {
+    if (!(newExpr.callee instanceof Identifier)) {
+      this.analyzeExpression(newExpr.callee);
+      this.analyzeArguments(newExpr.args);
+      return this.builtin('any');
+    }
+
+    const symbol = this.resolveIdentifier(newExpr.callee);
+    if (!symbol) {
+      this.analyzeArguments(newExpr.args);
+      return this.builtin('any');
+    }
+
+    if (this.abstractClasses.has(symbol)) {
+      globalErrorHandler.reportSemanticError(
+        `Cannot create an instance of abstract class '${symbol.name}'`,
+        this.getLocation(newExpr)
+      );
+    } else if (symbol.kind === SymbolKind.INTERFACE) {
+      globalErrorHandler.reportSemanticError(
+        `Cannot create an instance of interface '${symbol.name}'`,
+        this.getLocation(newExpr)
+      );
+    }
+
+    if (
+      symbol.kind === SymbolKind.CLASS ||
+      symbol.kind === SymbolKind.STRUCT ||
+      symbol.kind === SymbolKind.TYPEDEF
+    ) {
+      return this.analyzeConstruction(symbol, newExpr, expected);
+    }
+
+    this.analyzeArguments(newExpr.args);
+    return this.typeChecker.isDynamicType(this.getSymbolType(symbol))
+      ? this.builtin('any')
+      : this.getSymbolType(symbol);
+  }
+
+  /**
+   * Check constructor arguments and return the constructed type
+   */
+  private analyzeConstruction(
+    symbol: Symbol,
+    node: CallExpression | NewExpression,
+    expected?: TypeDescriptor
+  ): TypeDescriptor {
+    let type = this.typeChecker.convertTypeInfo(symbol.type);
+    let bindings = new Map<string, TypeDescriptor>();
+    let argumentTypes: TypeDescriptor[] | undefined;
+
+    const constructor =
+      symbol.kind === SymbolKind.CLASS
+        ? this.findMember(symbol, 'constructor')
+        : undefined;
+
+    const decl = this.templateDeclarations.get(symbol);
+    if (decl) {
+      ({ type, bindings, argumentTypes } = this.instantiateConstruction(
+        symbol,
+        decl,
+        constructor,
+        node,
+        expected
+      ));
+    }
+
+    /* Structs and built-in types have no declared constructors */
+    if (symbol.kind !== SymbolKind.CLASS) {
+      if (!argumentTypes) {
+        this.analyzeArguments(node.args);
+      }
+      return type;
+    }
+
+    if (constructor) {
+      this.checkMemberAccess(constructor, 'constructor', node);
+      this.checkCall(
+        `constructor of '${symbol.name}'`,
+        this.getOverloads(constructor.symbol),
+        node,
+        bindings,
+        argumentTypes
+      );
+    } else {
+      this.checkArguments(
+        `constructor of '${symbol.name}'`,
+        { parameters: [], returnType: type, isVariadic: false },
+        node,
+        argumentTypes
+      );
+    }
+
+    return type;
+  }
+
+  /**
+   * Analyze 'vec3(x, y, z)': no arguments (zero vector, identity
+   * quaternion or matrix), one scalar for every component or the
+   * diagonal, or every component in order (matrices column by column)
+   */
+  private analyzeVectorConstruction(
+    type: TypeDescriptor,
+    node: CallExpression
+  ): TypeDescriptor {
+    const count = type.isMatrix
+      ? type.componentCount! * type.componentCount!
+      : type.componentCount!;
+
+    if (![0, 1, count].includes(node.args.length)) {
+      globalErrorHandler.reportSemanticError(
+        `Expected 0, 1 or ${count} arguments for constructor of '${type.name}', but got ${node.args.length}`,
+        this.getLocation(node)
+      );
+    }
+
+    for (const arg of node.args) {
+      const argType = this.analyzeExpression(arg, type.componentType);
+      if (!this.isCompatible(argType, type.componentType!, arg)) {
+        globalErrorHandler.reportTypeError(
+          `Argument of type '${argType.name}' is not assignable to component of type '${type.componentType!.name}'`,
+          this.getLocation(arg)
+        );
+      }
+    }
+
+    return type;
+  }
+
+  /**
+   * Bind the template arguments of a constructed generic type from
+   * explicit arguments, the expected type or the constructor arguments
+   */
+  private instantiateConstruction(
+    symbol: Symbol,
+    decl: TemplateDeclaration,
+    constructor: MemberLookup | undefined,
+    node: CallExpression | NewExpression,
+    expected?: TypeDescriptor
+  ): {
+    type: TypeDescriptor;
+    bindings: Map<string, TypeDescriptor>;
+    argumentTypes?: TypeDescriptor[];
+  } {
+    const explicit = node.templateArguments.map((type) =>
+      this.resolveType(type)
+    );
+    let inferred = new Map<string, TypeDescriptor>();
+    let argumentTypes: TypeDescriptor[] | undefined;
+
+    if (explicit.length === 0) {
+      if (expected && expected.templateName === symbol.name) {
+        /* 'Box<int> b = new Box();' */
+        inferred = this.typeRegistry.getTemplateBindings(expected);
+      } else if (constructor && constructor.symbol.signature) {
+        argumentTypes = this.analyzeArguments(node.args);
+        this.inferFromArguments(
+          decl,
+          this.toCallSignature(constructor.symbol.signature),
+          argumentTypes,
+          inferred
+        );
+      }
+    }
+
+    const bindings = this.bindTemplateArguments(
+      `'${decl.name}'`,
+      decl,
+      explicit,
+      inferred,
+      node
+    );
+    this.recordTemplateUse(node, decl, bindings);
+
+    return {
+      type: this.createInstantiation(symbol, decl, bindings),
+      bindings,
+      argumentTypes,
+    };
+  }
+
+  /**
+   * Check a call against one signature or resolve between overloads
+   */
+  private checkCall(
+    callee: string,
+    candidates: Symbol[],
+    node: CallExpression | NewExpression,
+    bindings = new Map<string, TypeDescriptor>(),
+    argumentTypes?: TypeDescriptor[]
+  ): TypeDescriptor {
+    /* Type arguments of 'new Box<int>()' belong to the class */
+    if (
+      node instanceof CallExpression &&
+      node.templateArguments.length > 0 &&
+      !candidates.some((candidate) => this.templateDeclarations.has(candidate))
+    ) {
+      globalErrorHandler.reportSemanticError(
+        `Expected 0 type arguments for ${callee}, but got ${node.templateArguments.length}`,
+        this.getLocation(node)
+      );
+    }
+
+    if (candidates.length === 1) {
+      return this.checkSignature(
+        callee,
+        candidates[0],
+        bindings,
+        node,
+        argumentTypes
+      );
+    }
+
+    const types = argumentTypes || this.analyzeArguments(node.args);
+    const match = this.typeChecker.resolveOverload(candidates, types);
+
+    if (!match) {
+      globalErrorHandler.reportTypeError(
+        `No overload of ${callee} matches arguments (${types.map((t) => t.name).join(', ')})`,
+        this.getLocation(node)
+      );
+      return this.builtin('any');
+    }
+
+    return this.checkSignature(callee, match, bindings, node, types);
+  }
+
+  /**
+   * Check a call against a function's signature, instantiating it first
+   * when the function is generic
+   */
+  private checkSignature(
+    callee: string,
+    candidate: Symbol,
+    bindings: Map<string, TypeDescriptor>,
+    node: CallExpression | NewExpression,
+    argumentTypes?: TypeDescriptor[]
+  ): TypeDescriptor {
+    const signature = this.substituteSignature(
+      this.toCallSignature(candidate.signature!),
+      bindings
+    );
+
+    const decl = this.templateDeclarations.get(candidate);
+    if (!decl) {
+      return this.checkArguments(callee, signature, node, argumentTypes);
+    }
+
+    /* Type arguments not given explicitly are inferred from the arguments */
+    const explicit = node.templateArguments.map((type) =>
+      this.resolveType(type)
+    );
+    const inferred = new Map<string, TypeDescriptor>();
+    let types = argumentTypes;
+
+    if (explicit.length === 0) {
+      types = types || this.analyzeArguments(node.args);
+      this.inferFromArguments(decl, signature, types, inferred);
+    }
+
+    const typeArguments = this.bindTemplateArguments(
+      callee,
+      decl,
+      explicit,
+      inferred,
+      node
+    );
+    this.recordTemplateUse(node, decl, typeArguments);
+
+    return this.checkArguments(
+      callee,
+      this.substituteSignature(signature, typeArguments),
+      node,
+      types
+    );
+  }
+
+  /**
+   * Check argument count and types against a signature
+   */
+  private checkArguments(
+    callee: string,
+    signature: CallSignature,
+    node: CallExpression | NewExpression,
+    argumentTypes?: TypeDescriptor[]
+  ): TypeDescriptor {
+    const parameters = signature.parameters;
+    const rest = parameters.find((parameter) => parameter.isRest);
+    const required = parameters.filter(
+      (p) => !p.isOptional && !p.isRest
+    ).length;
+    const maximum = rest || signature.isVariadic ? Infinity : parameters.length;
+    const args = node.args;
+
+    if (args.length < required || args.length > maximum) {
+      const expected =
+        maximum === Infinity
+          ? `at least ${required}`
+          : required === maximum
+            ? `${required}`
+            : `${required}-${maximum}`;
+
+      globalErrorHandler.reportSemanticError(
+        `Expected ${expected} argument${expected === '1' ? '' : 's'} for ${callee}, but got ${args.length}`,
+        this.getLocation(node)
+      );
+    }
+
+    args.forEach((arg, index) => {
+      const parameter =
+        index < parameters.length && !parameters[index].isRest
+          ? parameters[index]
+          : rest;
+      const paramType = parameter
+        ? parameter.isRest
+          ? this.getElementType(parameter.type)
+          : parameter.type
+        : undefined;
+
+      const argType = argumentTypes
+        ? argumentTypes[index]
+        : this.analyzeExpression(arg, paramType);
+
+      if (paramType && !this.isCompatible(argType, paramType, arg)) {
+        globalErrorHandler.reportTypeError(
+          `Argument of type '${argType.name}' is not assignable to parameter '${parameter!.name}' of type '${paramType.name}'`,
+          this.getLocation(arg)
+        );
+      }
+
+      this.recordStructCopy(arg, paramType);
+    });
+
+    return signature.returnType;
+  }
+
+  /**
+   * Call a value of function type
+   */
+  private callValue(
+    type: TypeDescriptor,
+    callee: string,
+    node: CallExpression
+  ): TypeDescriptor {
+    if (type.kind === TypeKind.FUNCTION) {
+      return this.checkArguments(
+        callee,
+        {
+          parameters: (type.parameterTypes || []).map((parameter, index) => ({
+            name: `arg${index}`,
+            type: parameter,
+            isOptional: false,
+            isRest: false,
+          })),
+          returnType: type.returnType || this.builtin('any'),
+          isVariadic: !!type.isVariadic,
+        },
+        node
+      );
+    }
+
+    this.analyzeArguments(node.args);
+
+    if (!this.typeChecker.isDynamicType(type)) {
+      globalErrorHandler.reportTypeError(
+        `Cannot call non-function ${callee} of type '${type.name}'`,
+        this.getLocation(node)
+      );
+    }
+
+    return this.builtin('any');
+  }
+
+  /**
+   * Analyze call arguments without a signature
+   */
+  private analyzeArguments(args: Expression[]): TypeDescriptor[] {
+    return args.map((arg) => this.analyzeExpression(arg));
+  }
+
+  /**
+   * Resolve a member expression to its type and, for named members,
+   * the member symbol and the type declaring it
+   */
+  private resolveMember(memberExpr: MemberExpression): {
+    type: TypeDescriptor;
+    lookup?: MemberLookup;
+  } {
+    if (memberExpr.computed) {
+      const objectType = this.analyzeExpression(memberExpr.object);
+      this.analyzeExpression(memberExpr.property);
+      return { type: this.getElementType(objectType) };
+    }
+
+    if (!(memberExpr.property instanceof Identifier)) {
+      this.analyzeExpression(memberExpr.object);
+      return { type: this.builtin('any') };
+    }
+    const name = memberExpr.property.name;
+
+    /* Static access through a type or namespace name */
+    if (memberExpr.object instanceof Identifier) {
+      const symbol = this.symbolTable.lookup(memberExpr.object.name);
+      if (
+        symbol &&
+        (symbol.kind === SymbolKind.NAMESPACE ||
+          this.typeSymbols.get(symbol.name) === symbol)
+      ) {
+        symbol.usageCount = (symbol.usageCount || 0) + 1;
+        return this.resolveStaticMember(symbol, name, memberExpr);
+      }
+    }
+
+    let objectType = this.analyzeExpression(memberExpr.object);
+
+    /* Pointers are accessed through their pointee ('p->x') */
+    if (objectType.kind === TypeKind.POINTER && objectType.pointeeType) {
+      objectType = objectType.pointeeType;
+    }
+    if (objectType.kind === TypeKind.REFERENCE && objectType.referenceType) {
+      objectType = objectType.referenceType;
+    }
+
+    return this.resolveInstanceMember(objectType, name, memberExpr);
+  }
+
+  /**
+   * Resolve a member of a namespace, enum or class name
+   */
+  private resolveStaticMember(
+    owner: Symbol,
+    name: string,
+    memberExpr: MemberExpression
+  ): { type: TypeDescriptor; lookup?: MemberLookup } {
+    const found = this.findMember(owner, name);
+
+    if (!found) {
+      globalErrorHandler.reportSemanticError(
+        `Property '${name}' does not exist on ${owner.kind.toLowerCase()} '${owner.name}'`,
+        this.getLocation(memberExpr.property)
+      );
+      return { type: this.builtin('any') };
+    }
+
+    if (
+      (owner.kind === SymbolKind.CLASS || owner.kind === SymbolKind.STRUCT) &&
+      found.symbol.storageClass !== StorageClass.STATIC
+    ) {
+      globalErrorHandler.reportSemanticError(
+        `Property '${name}' of '${found.owner.name}' is not static`,
+        this.getLocation(memberExpr.property)
+      );
+    }
+
+    this.checkMemberAccess(found, name, memberExpr.property);
+    found.symbol.usageCount = (found.symbol.usageCount || 0) + 1;
+
+    return { type: this.getSymbolType(found.symbol), lookup: found };
+  }
+
+  /**
+   * Resolve a member of a value
+   */
+  private resolveInstanceMember(
+    objectType: TypeDescriptor,
+    name: string,
+    memberExpr: MemberExpression
+  ): { type: TypeDescriptor; lookup?: MemberLookup } {
+    /* Values of a constrained type parameter have its constraint's members */
+    objectType = this.getConstraint(objectType);
+
+    if (this.typeChecker.isDynamicType(objectType)) {
+      return { type: this.builtin('any') };
+    }
+
+    const typeSymbol = this.typeSymbols.get(
+      objectType.templateName || objectType.name
+    );
+    if (typeSymbol && typeSymbol.kind !== SymbolKind.ENUM) {
+      const found = this.findMember(
+        typeSymbol,
+        name,
+        true,
+        new Set(),
+        this.typeRegistry.getTemplateBindings(objectType)
+      );
+
+      if (!found) {
+        globalErrorHandler.reportSemanticError(
+          `Property '${name}' does not exist on type '${objectType.name}'`,
+          this.getLocation(memberExpr.property)
+        );
+        return { type: this.builtin('any') };
+      }
+
+      this.checkMemberAccess(found, name, memberExpr.property);
+      found.symbol.usageCount = (found.symbol.usageCount || 0) + 1;
+
+      return {
+        type: this.typeRegistry.substituteType(
+          this.getSymbolType(found.symbol),
+          found.bindings
+        ),
+        lookup: found,
+      };
+    }
+
+    if (objectType.kind === TypeKind.ARRAY || objectType.name === 'string') {
+      return {
+        type: name === 'length' ? this.builtin('int') : this.builtin('any'),
+      };
+    }
+
+    /* Vector components and swizzles ('v.x', 'v.xy', 'color.rgb') */
+    if (objectType.kind === TypeKind.VECTOR) {
+      const type = this.typeRegistry.getSwizzleType(objectType, name);
+      if (!type) {
+        globalErrorHandler.reportSemanticError(
+          `Property '${name}' does not exist on type '${objectType.name}'`,
+          this.getLocation(memberExpr.property)
+        );
+        return { type: this.builtin('any') };
+      }
+
+      /* Only 'x'..'w' are real fields, 'v.xy' and 'c.r' are lowered */
+      if (!objectType.members?.has(name)) {
+        this.swizzles.set(memberExpr, type);
+      }
+      return { type };
+    }
+
+    if (objectType.kind === TypeKind.VOID) {
+      globalErrorHandler.reportTypeError(
+        `Cannot access property '${name}' of type 'void'`,
+        this.getLocation(memberExpr.property)
+      );
+      return { type: this.builtin('any') };
+    }
+
+    /* Built-in struct fields ('v.x'); other members are left unchecked */
+    return {
+      type: objectType.members?.get(name) || this.builtin('any'),
+    };
+  }
+
+  /**
+   * Check private and protected member access
+   */
+  private checkMemberAccess(
+    found: MemberLookup,
+    name: string,
+    node: ASTNode
+  ): void {
+    const { symbol, owner } = found;
+
+    if (
+      symbol.visibility === SymbolVisibility.PRIVATE &&
+      this.currentClass !== owner
+    ) {
+      globalErrorHandler.reportSemanticError(
+        `Property '${name}' is private and only accessible within class '${owner.name}'`,
+        this.getLocation(node)
+      );
+    } else if (
+      symbol.visibility === SymbolVisibility.PROTECTED &&
+      !(this.currentClass && this.isSubclassOf(this.currentClass, owner))
+    ) {
+      globalErrorHandler.reportSemanticError(
+        `Property '${name}' is protected and only accessible within class '${owner.name}' and its subclasses`,
+        this.getLocation(node)
+      );
+    }
+  }
+
+  /**
+   * Analyze array literal
+   */
+  private analyzeArrayExpression(
+    arrayExpr: ArrayExpression,
+    expected?: TypeDescriptor
+  ): TypeDescriptor {
+    /* Elements are checked against an expected array type */
+    if (expected && expected.kind === TypeKind.ARRAY && expected.elementType) {
+      for (const element of arrayExpr.elements) {
+        if (element) {
+          this.checkAssignable(
+            this.analyzeExpression(element, expected.elementType),
+            expected.elementType,
+            element,
+            'array element'
+          );
+        }
+      }
+      return expected;
+    }
+
+    let elementType: TypeDescriptor | undefined;
+    for (const element of arrayExpr.elements) {
+      if (!element) {
+        continue;
+      }
+
+      const type = this.analyzeExpression(element);
+      if (!elementType) {
+        elementType = type;
+      } else if (this.isNumeric(elementType) && this.isNumeric(type)) {
+        elementType = this.getWiderType(elementType, type);
+      } else if (!this.typeChecker.areTypesEqual(elementType, type)) {
+        elementType = this.builtin('any');
+      }
+    }
+
+    return this.typeRegistry.createArrayType(
+      elementType || this.builtin('any')
+    );
+  }
+
+  /**
+   * Analyze arrow functions, function expressions and lambdas
+   */
+  private analyzeFunctionExpression(
+    funcExpr: ArrowFunctionExpression | FunctionExpression | LambdaExpression
+  ): TypeDescriptor {
+    if (funcExpr instanceof LambdaExpression) {
+      for (const capture of funcExpr.captures) {
+        this.resolveIdentifier(new Identifier(capture.name, capture.location));
+      }
+    }
+
+    const isAsync = !(funcExpr instanceof LambdaExpression) && funcExpr.isAsync;
+    const name = funcExpr instanceof FunctionExpression ? funcExpr.name : null;
+    const declared = funcExpr.returnType
+      ? this.resolveBodyReturnType(funcExpr.returnType, isAsync)
+      : null;
+
+    this.symbolTable.enterScope(
+      ScopeType.FUNCTION,
+      name || `lambda_${Date.now()}`,
+      this.getLocation(funcExpr)
+    );
+    const parameterTypes = this.declareParameters(funcExpr.parameters);
+
+    const previousFunction = this.currentFunction;
+    const context: FunctionContext = {
+      name,
+      returnType: declared,
+      returnTypes: [],
+      isAsync,
+      isGenerator: false,
+      loopDepth: 0,
+      switchDepth: 0,
+    };
+    this.currentFunction = context;
+
+    if (funcExpr.body instanceof BlockStatement) {
+      this.analyzeBlockStatement(funcExpr.body);
+      this.checkReturnPaths(name, declared, funcExpr.body, funcExpr);
+    } else {
+      /* Expression bodies return their value */
+      const type = this.analyzeExpression(funcExpr.body, declared || undefined);
+      if (declared) {
+        this.checkAssignable(type, declared, funcExpr.body, 'return');
+      } else {
+        context.returnTypes.push(type);
+      }
+    }
+
+    this.currentFunction = previousFunction;
+    this.exitScope();
+
+    const returnType =
+      declared || context.returnTypes[0] || this.builtin('void');
+    return this.typeRegistry.createFunctionType(
+      isAsync ? this.builtin('any') : returnType,
+      parameterTypes
+    );
+  }
+
+  /*
+   * Types
+   */
+
+  /**
+   * Resolve a type node to a type descriptor, reporting unknown types
+   */
+  private resolveType(typeNode: TypeNode | null): TypeDescriptor {
+    if (!typeNode) {
+      return this.builtin('any');
+    }
+
+    if (typeNode instanceof PointerType) {
+      return this.typeRegistry.createPointerType(
+        this.resolveType(typeNode.pointeeType)
+      );
+    }
+    if (typeNode instanceof ReferenceType) {
+      return this.typeRegistry.createReferenceType(
+        this.resolveType(typeNode.referencedType)
+      );
+    }
+    if (typeNode instanceof ArrayType) {
+      return this.typeRegistry.createArrayType(
+        this.resolveType(typeNode.elementType)
+      );
+    }
+    if (typeNode instanceof FunctionType) {
+      return this.typeRegistry.createFunctionType(
+        this.resolveType(typeNode.returnType),
+        typeNode.parameters.map((parameter) => this.resolveType(parameter))
+      );
+    }
+    if (typeNode instanceof UnionType) {
+      return this.typeRegistry.createUnionType(
+        typeNode.types.map((type) => this.resolveType(type))
+      );
+    }
+    if (typeNode instanceof OptionalType) {
+      return this.resolveType(typeNode.type);
+    }
+    if (typeNode instanceof IntersectionType) {
+      typeNode.types.forEach((type) => this.resolveType(type));
+      return this.builtin('any');
+    }
+    if (typeNode instanceof TupleType) {
+      typeNode.elementTypes.forEach((type) => this.resolveType(type));
+      return this.builtin('any');
+    }
+    if (typeNode instanceof GenericType) {
+      const typeArguments = typeNode.typeArguments.map((type) =>
+        this.resolveType(type)
+      );
+      if (typeNode.name === 'Array' && typeArguments.length === 1) {
+        return this.typeRegistry.createArrayType(typeArguments[0]);
+      }
+
+      const symbol = this.typeSymbols.get(typeNode.name);
+      const decl = symbol && this.templateDeclarations.get(symbol);
+      if (decl) {
+        return this.instantiateType(symbol!, decl, typeArguments, typeNode);
+      }
+      if (symbol) {
+        globalErrorHandler.reportSemanticError(
+          `Type '${typeNode.name}' is not generic`,
+          this.getLocation(typeNode)
+        );
+      }
+
+      /* Runtime generics ('Promise<T>', 'Map<K, V>') are untyped */
+      return this.resolveNamedType(typeNode.name, typeNode);
+    }
+    if (typeNode instanceof PrimitiveType) {
+      return this.resolveNamedType(typeNode.name, typeNode);
+    }
+
+    return this.builtin('any');
+  }
+
+  /**
+   * Resolve a type name
+   */
+  private resolveNamedType(name: string, node: TypeNode): TypeDescriptor {
+    if (this.findTypeParameter(name)) {
+      return {
+        kind: TypeKind.TEMPLATE,
+        name,
+        size: 0,
+        alignment: 0,
+        isConst: false,
+        isVolatile: false,
+        isUnsigned: false,
+      };
+    }
+
+    if (name === 'auto') {
+      return this.builtin('any');
+    }
+
+    const type = this.typeRegistry.getType(name);
+    if (type) {
+      const symbol = this.typeSymbols.get(name);
+      const decl = symbol && this.templateDeclarations.get(symbol);
+      return decl ? this.instantiateRawType(symbol!, decl, node) : type;
+    }
+
+    /* Runtime globals and imports ('Map', 'Promise') are untyped */
+    const symbol = this.symbolTable.lookup(name);
+    if (
+      symbol &&
+      symbol.kind === SymbolKind.VARIABLE &&
+      this.typeChecker.isDynamicType(this.getSymbolType(symbol))
+    ) {
+      return this.builtin('any');
+    }
+
+    globalErrorHandler.reportSemanticError(
+      `Unknown type '${name}'`,
+      this.getLocation(node)
+    );
+    return {
+      kind: TypeKind.UNKNOWN,
+      name,
+      size: 0,
+      alignment: 0,
+      isConst: false,
+      isVolatile: false,
+      isUnsigned: false,
+    };
+  }
+
+  /**
+   * Resolve the type a function body must return; async functions
+   * return the value their Promise resolves to
+   */
+  private resolveBodyReturnType(
+    returnType: TypeNode | null,
+    isAsync: boolean
+  ): TypeDescriptor | null {
+    if (!returnType) {
+      return null;
+    }
+
+    if (isAsync) {
+      const resolved = this.resolveType(returnType);
+      return returnType instanceof GenericType &&
+        returnType.name === 'Promise' &&
+        returnType.typeArguments.length === 1
+        ? this.resolveType(returnType.typeArguments[0])
+        : resolved;
+    }
+
+    return this.resolveType(returnType);
+  }
+
+  /**
+   * Check if a declared type is inferred from the initializer
+   */
+  private isInferredType(typeNode: TypeNode | null): boolean {
+    return (
+      !typeNode ||
+      (typeNode instanceof PrimitiveType && typeNode.name === 'auto')
+    );
+  }
+
+  /**
+   * Check that a value can be stored in a target type
+   */
+  private checkAssignable(
+    source: TypeDescriptor,
+    target: TypeDescriptor,
+    node: ASTNode,
+    context: string
+  ): boolean {
+    if (!this.isCompatible(source, target, node)) {
+      globalErrorHandler.reportTypeError(
+        `Type mismatch in ${context}: cannot assign '${source.name}' to '${target.name}'`,
+        this.getLocation(node)
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check implicit convertibility, warning about lossy conversions
+   */
+  private isCompatible(
+    source: TypeDescriptor,
+    target: TypeDescriptor,
+    node: ASTNode
+  ): boolean {
+    if (!this.typeChecker.isAssignable(source, target)) {
+      return false;
+    }
+
+    if (
+      ['float', 'double'].includes(source.name) &&
+      ['char', 'int'].includes(target.name)
+    ) {
+      globalErrorHandler.reportWarning(
+        `Implicit conversion from '${source.name}' to '${target.name}' may lose precision`,
+        this.getLocation(node)
+      );
+    }
+
+    return true;
+  }
+
+  /*
+   * Templates
+   */
+
+  /**
+   * Get the template parameters of a declaration, resolving their
+   * constraints and defaults the first time they are needed
+   */
+  private getTemplateParameters(
+    decl: TemplateDeclaration
+  ): TemplateParameter[] {
+    return decl.templateParameters.map((parameter) => {
+      const resolved = this.resolvedTypeParameters.get(parameter);
+      if (resolved) {
+        return resolved;
+      }
+
+      /* Cached first so that 'T extends Comparable<T>' terminates */
+      const entry: TemplateParameter = {
+        name: parameter.name,
+        type: 'typename',
+      };
+      this.resolvedTypeParameters.set(parameter, entry);
+
+      this.withTypeParameters(decl, () => {
+        if (parameter.constraint) {
+          entry.constraint = this.resolveType(parameter.constraint).name;
+        }
+        if (parameter.defaultType) {
+          entry.defaultValue = this.resolveType(parameter.defaultType).name;
+        }
+      });
+
+      return entry;
+    });
+  }
+
+  /**
+   * Find the innermost visible template parameter with a name
+   */
+  private findTypeParameter(name: string): TypeParameter | undefined {
+    for (let i = this.typeParameters.length - 1; i >= 0; i--) {
+      const parameter = this.typeParameters[i].parameters.find(
+        (candidate) => candidate.name === name
+      );
+      if (parameter) {
+        return parameter;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the constraint of a type parameter, or the type itself
+   */
+  private getConstraint(type: TypeDescriptor): TypeDescriptor {
+    if (type.kind !== TypeKind.TEMPLATE && type.kind !== TypeKind.UNKNOWN) {
+      return type;
+    }
+
+    const parameter = this.findTypeParameter(type.name);
+    const constraint =
+      parameter && this.resolvedTypeParameters.get(parameter)?.constraint;
+
+    return constraint ? this.lookupType(constraint) : type;
+  }
+
+  /**
+   * Instantiate a generic type with explicit type arguments
+   */
+  private instantiateType(
+    symbol: Symbol,
+    decl: TemplateDeclaration,
+    typeArguments: TypeDescriptor[],
+    node: TypeNode
+  ): TypeDescriptor {
+    const bindings = this.bindTemplateArguments(
+      `'${decl.name}'`,
+      decl,
+      typeArguments,
+      new Map(),
+      node
+    );
+    this.recordTemplateUse(node, decl, bindings);
 
-    /* Exit for scope */
-    this.symbolTable.exitScope();
+    return this.createInstantiation(symbol, decl, bindings);
   }
 
   /**
-   * Analyze while statement
+   * Resolve a generic type named without type arguments
    */
-  private analyzeWhileStatement(whileStmt: any): void {
-    /* Analyze condition */
-    if (whileStmt.condition || whileStmt.test) {
-      this.analyzeExpression(whileStmt.condition || whileStmt.test);
+  private instantiateRawType(
+    symbol: Symbol,
+    decl: TemplateDeclaration,
+    node: TypeNode
+  ): TypeDescriptor {
+    const template = this.typeRegistry.getType(symbol.name)!;
+
+    /* A template names itself without arguments inside its own body */
+    if (this.typeParameters.some((frame) => frame.declaration === decl)) {
+      return template;
     }
 
-    /* Analyze body */
-    if (whileStmt.body) {
-      this.analyzeStatement(whileStmt.body);
+    const required = decl.templateParameters.filter(
+      (parameter) => !parameter.defaultType
+    ).length;
+    if (required > 0) {
+      globalErrorHandler.reportSemanticError(
+        `Generic type '${decl.name}' requires ${required} type argument${required === 1 ? '' : 's'}`,
+        this.getLocation(node)
+      );
+      return template;
     }
+
+    return this.instantiateType(symbol, decl, [], node);
   }
 
   /**
-   * Analyze return statement
+   * Create the instantiation of a generic type for bound arguments
    */
-  private analyzeReturnStatement(returnStmt: any): void {
-    if (returnStmt.argument || returnStmt.value) {
-      this.analyzeExpression(returnStmt.argument || returnStmt.value);
-    }
+  private createInstantiation(
+    symbol: Symbol,
+    decl: TemplateDeclaration,
+    bindings: Map<string, TypeDescriptor>
+  ): TypeDescriptor {
+    const template = this.typeRegistry.getType(symbol.name)!;
+    template.templateParameters = this.getTemplateParameters(decl);
+
+    return this.typeRegistry.createTemplateInstantiation(
+      template,
+      template.templateParameters.map(
+        (parameter) => bindings.get(parameter.name)!
+      )
+    );
   }
 
   /**
-   * Analyze expression and return its type
+   * Bind each template parameter to an explicit, inferred or default
+   * argument and check the arguments against their constraints
    */
-  private analyzeExpression(expr: any): TypeDescriptor | undefined {
-    if (!expr || !expr.constructor) {
-      return undefined;
+  private bindTemplateArguments(
+    target: string,
+    decl: TemplateDeclaration,
+    explicit: TypeDescriptor[],
+    inferred: Map<string, TypeDescriptor>,
+    node: ASTNode
+  ): Map<string, TypeDescriptor> {
+    const parameters = this.getTemplateParameters(decl);
+    const required = decl.templateParameters.filter(
+      (parameter) => !parameter.defaultType
+    ).length;
+
+    if (
+      explicit.length > parameters.length ||
+      (explicit.length > 0 && explicit.length < required)
+    ) {
+      const expected =
+        required === parameters.length
+          ? `${required}`
+          : `${required}-${parameters.length}`;
+
+      globalErrorHandler.reportSemanticError(
+        `Expected ${expected} type argument${expected === '1' ? '' : 's'} for ${target}, but got ${explicit.length}`,
+        this.getLocation(node)
+      );
     }
 
-    const exprType = expr.constructor.name;
-
-    switch (exprType) {
-      case 'Identifier':
-        return this.analyzeIdentifier(expr);
-      case 'Literal':
-        return this.analyzeLiteral(expr);
-      case 'BinaryExpression':
-        return this.analyzeBinaryExpression(expr);
-      case 'UnaryExpression':
-        return this.analyzeUnaryExpression(expr);
-      case 'CallExpression':
-        return this.analyzeCallExpression(expr);
-      case 'MemberExpression':
-        return this.analyzeMemberExpression(expr);
-      case 'AssignmentExpression':
-        return this.analyzeAssignmentExpression(expr);
-      default:
-        /* Return unknown type for unsupported expressions */
-        return this.typeRegistry.getType('any');
+    const bindings = new Map<string, TypeDescriptor>();
+
+    for (const [index, parameter] of parameters.entries()) {
+      let argument = explicit[index] || inferred.get(parameter.name);
+
+      /* Defaults may refer to earlier parameters ('U = T[]') */
+      if (!argument && parameter.defaultValue) {
+        argument = this.typeRegistry.substituteType(
+          this.lookupType(parameter.defaultValue),
+          bindings
+        );
+      }
+
+      if (!argument) {
+        if (explicit.length === 0) {
+          globalErrorHandler.reportSemanticError(
+            `Cannot infer type argument '${parameter.name}' for ${target}; specify it explicitly`,
+            this.getLocation(node)
+          );
+        }
+        argument = this.builtin('any');
+      }
+
+      bindings.set(parameter.name, argument);
+    }
+
+    /* Constraints may refer to any parameter ('T extends Comparable<T>') */
+    for (const parameter of parameters) {
+      if (!parameter.constraint) {
+        continue;
+      }
+
+      const argument = bindings.get(parameter.name)!;
+      const constraint = this.typeRegistry.substituteType(
+        this.lookupType(parameter.constraint),
+        bindings
+      );
+
+      if (
+        !this.typeChecker.isDynamicType(argument) &&
+        !this.typeChecker.isAssignable(argument, constraint)
+      ) {
+        globalErrorHandler.reportTypeError(
+          `Type '${argument.name}' does not satisfy the constraint '${constraint.name}' of type parameter '${parameter.name}'`,
+          this.getLocation(node)
+        );
+      }
     }
+
+    return bindings;
   }
 
   /**
-   * Analyze identifier
+   * Infer template arguments from the types of call arguments
    */
-  private analyzeIdentifier(identifier: any): TypeDescriptor | undefined {
-    if (!identifier.name) {
-      return undefined;
-    }
+  private inferFromArguments(
+    decl: TemplateDeclaration,
+    signature: CallSignature,
+    argumentTypes: TypeDescriptor[],
+    inferred: Map<string, TypeDescriptor>
+  ): void {
+    const names = new Set(
+      decl.templateParameters.map((parameter) => parameter.name)
+    );
+    const rest = signature.parameters.find((parameter) => parameter.isRest);
 
-    const symbol = this.symbolTable.lookup(identifier.name);
-    if (!symbol) {
-      globalErrorHandler.reportSemanticError(
-        `Undefined identifier '${identifier.name}'`,
-        this.getLocation(identifier)
+    argumentTypes.forEach((argumentType, index) => {
+      const parameter =
+        index < signature.parameters.length &&
+        !signature.parameters[index].isRest
+          ? signature.parameters[index]
+          : rest;
+      if (!parameter) {
+        return;
+      }
+
+      this.typeChecker.inferTemplateArguments(
+        parameter.isRest ? this.getElementType(parameter.type) : parameter.type,
+        argumentType,
+        names,
+        inferred
       );
-      return undefined;
+    });
+  }
+
+  /**
+   * Substitute template arguments into a call signature
+   */
+  private substituteSignature(
+    signature: CallSignature,
+    bindings: Map<string, TypeDescriptor>
+  ): CallSignature {
+    if (bindings.size === 0) {
+      return signature;
     }
 
-    return this.typeChecker.convertTypeInfo(symbol.type);
+    return {
+      parameters: signature.parameters.map((parameter) => ({
+        ...parameter,
+        type: this.typeRegistry.substituteType(parameter.type, bindings),
+      })),
+      returnType: this.typeRegistry.substituteType(
+        signature.returnType,
+        bindings
+      ),
+      isVariadic: signature.isVariadic,
+    };
   }
 
   /**
-   * Analyze literal
+   * Record the instantiation a node makes, for generators that
+   * specialize templates per argument list
    */
-  private analyzeLiteral(literal: any): TypeDescriptor | undefined {
-    if (literal.value === undefined && literal.value === null) {
-      return this.typeRegistry.getType('null');
-    }
+  private recordTemplateUse(
+    node: ASTNode,
+    decl: TemplateDeclaration,
+    bindings: Map<string, TypeDescriptor>
+  ): void {
+    const explicit =
+      node instanceof GenericType
+        ? node.typeArguments
+        : node instanceof CallExpression || node instanceof NewExpression
+          ? node.templateArguments
+          : [];
 
-    switch (typeof literal.value) {
-      case 'number':
-        return literal.value % 1 === 0
-          ? this.typeRegistry.getType('int')
-          : this.typeRegistry.getType('float');
-      case 'string':
-        return this.typeRegistry.getType('string');
-      case 'boolean':
-        return this.typeRegistry.getType('bool');
-      default:
-        return this.typeRegistry.getType('any');
-    }
+    /* Uses inside a generic declaration are instantiated with it */
+    const owner = this.typeParameters.find(
+      (frame) => frame.parameters.length > 0
+    );
+
+    this.templateUses.set(node, {
+      template: decl,
+      typeArguments: decl.templateParameters.map(
+        (parameter, index) =>
+          explicit[index] ||
+          this.toTypeNode(bindings.get(parameter.name)!, node)
+      ),
+      owner: owner ? owner.declaration : null,
+    });
   }
 
   /**
-   * Analyze binary expression
+   * Build a type node for an inferred type
    */
-  private analyzeBinaryExpression(binExpr: any): TypeDescriptor | undefined {
-    const leftType = this.analyzeExpression(binExpr.left);
-    const rightType = this.analyzeExpression(binExpr.right);
+  private toTypeNode(type: TypeDescriptor, node: ASTNode): TypeNode {
+    const location = node.location;
 
-    if (!leftType || !rightType) {
-      return undefined;
+    if (type.templateName && type.templateArguments) {
+      return new GenericType(
+        type.templateName,
+        type.templateArguments.map((argument) =>
+          this.toTypeNode(argument, node)
+        ),
+        location
+      );
+    }
+    if (type.kind === TypeKind.ARRAY && type.elementType) {
+      return new ArrayType(
+        this.toTypeNode(type.elementType, node),
+        null,
+        location
+      );
+    }
+    if (type.kind === TypeKind.POINTER && type.pointeeType) {
+      return new PointerType(this.toTypeNode(type.pointeeType, node), location);
+    }
+    if (type.kind === TypeKind.REFERENCE && type.referenceType) {
+      return new ReferenceType(
+        this.toTypeNode(type.referenceType, node),
+        location
+      );
+    }
+    if (type.kind === TypeKind.FUNCTION) {
+      return new FunctionType(
+        (type.parameterTypes || []).map((parameter) =>
+          this.toTypeNode(parameter, node)
+        ),
+        this.toTypeNode(type.returnType || this.builtin('void'), node),
+        location
+      );
+    }
+    if (type.kind === TypeKind.UNION && type.unionTypes) {
+      return new UnionType(
+        type.unionTypes.map((member) => this.toTypeNode(member, node)),
+        location
+      );
     }
 
-    /* Basic operator validation */
-    const operator = binExpr.operator;
-    if (!operator) {
-      return leftType;
+    return new PrimitiveType(type.name, location);
+  }
+
+  /**
+   * Get a type stored by name in the symbol table
+   */
+  private lookupType(name: string): TypeDescriptor {
+    return this.typeChecker.convertTypeInfo(
+      this.toTypeInfo({ name } as TypeDescriptor)
+    );
+  }
+
+  /**
+   * Helper methods
+   */
+
+  /**
+   * Create a function signature from a declaration
+   */
+  private createSignature(funcDecl: FunctionDeclaration): FunctionSignature {
+    /* Async results are Promises, which are not typed yet */
+    const returnType = funcDecl.isAsync
+      ? this.builtin('any')
+      : this.resolveType(funcDecl.returnType);
+
+    return {
+      returnType: this.toTypeInfo(returnType),
+      templateParameters: this.getTemplateParameters(funcDecl),
+      parameters: funcDecl.parameters.map((param) => ({
+        name: param.name,
+        type: this.toTypeInfo(this.resolveType(param.type)),
+        isOptional: param.isOptional || !!param.defaultValue,
+        isRest: param.isRest,
+      })),
+      isVirtual: funcDecl.isVirtual,
+      isOverride: false,
+      isFinal: false,
+      isAsync: funcDecl.isAsync,
+    };
+  }
+
+  /**
+   * Resolve a signature's parameter and return types
+   */
+  private toCallSignature(signature: FunctionSignature): CallSignature {
+    return {
+      parameters: signature.parameters.map((parameter) => ({
+        name: parameter.name,
+        type: this.typeChecker.convertTypeInfo(parameter.type),
+        isOptional: !!parameter.isOptional,
+        isRest: !!parameter.isRest,
+      })),
+      returnType: this.typeChecker.convertTypeInfo(signature.returnType),
+      isVariadic: !!signature.isVariadic,
+    };
+  }
+
+  /**
+   * Create the function type of a signature
+   */
+  private createFunctionType(signature: FunctionSignature): TypeDescriptor {
+    const resolved = this.toCallSignature(signature);
+
+    return this.typeRegistry.createFunctionType(
+      resolved.returnType,
+      resolved.parameters.map((parameter) => parameter.type),
+      resolved.isVariadic
+    );
+  }
+
+  /**
+   * Create a variable symbol from its declaration
+   */
+  private createVariableSymbol(varDecl: VariableDeclaration): Symbol {
+    const type = this.isInferredType(varDecl.type)
+      ? this.builtin('any')
+      : this.resolveType(varDecl.type);
+
+    const symbol = this.symbolTable.createSymbol(
+      varDecl.name,
+      SymbolKind.VARIABLE,
+      this.toTypeInfo(type, varDecl.isConst),
+      this.getLocation(varDecl)
+    );
+
+    if (varDecl.isStatic) {
+      symbol.storageClass = StorageClass.STATIC;
+    } else if (varDecl.isExtern) {
+      symbol.storageClass = StorageClass.EXTERN;
     }
 
-    /* Comparison operators return boolean */
-    const comparisonOps = ['==', '!=', '<', '>', '<=', '>=', '&&', '||'];
-    if (comparisonOps.includes(operator)) {
-      return this.typeRegistry.getType('bool');
+    return symbol;
+  }
+
+  /**
+   * Create a class, interface, struct or enum member symbol
+   */
+  private createMemberSymbol(
+    name: string,
+    kind: SymbolKind,
+    type: TypeInfo,
+    visibility: SymbolVisibility,
+    node: ASTNode
+  ): Symbol {
+    return {
+      name,
+      kind,
+      type,
+      visibility,
+      location: this.getLocation(node),
+      scope: this.symbolTable.getCurrentScope(),
+    };
+  }
+
+  /**
+   * Add a symbol to the current scope, reporting redeclarations
+   */
+  private addSymbol(symbol: Symbol, node: ASTNode): boolean {
+    if (this.symbolTable.addSymbol(symbol)) {
+      this.symbolsFound++;
+      return true;
     }
 
-    /* Arithmetic operators return the wider type */
-    const arithmeticOps = ['+', '-', '*', '/', '%'];
-    if (arithmeticOps.includes(operator)) {
-      return this.getWiderType(leftType, rightType);
+    globalErrorHandler.reportSemanticError(
+      `Symbol '${symbol.name}' is already declared`,
+      this.getLocation(node)
+    );
+    return false;
+  }
+
+  /**
+   * Exit the current scope, warning about variables that were never read
+   */
+  private exitScope(): void {
+    const scope = this.symbolTable.getCurrentScope();
+
+    for (const symbol of scope.symbols.values()) {
+      if (
+        symbol.kind === SymbolKind.VARIABLE &&
+        !symbol.usageCount &&
+        !symbol.name.startsWith('_')
+      ) {
+        globalErrorHandler.reportWarning(
+          `Variable '${symbol.name}' is declared but never used`,
+          symbol.location
+        );
+      }
     }
 
-    return leftType;
+    this.symbolTable.exitScope();
   }
 
   /**
-   * Analyze unary expression
+   * Get the type symbol declared by a declaration, if it was registered
    */
-  private analyzeUnaryExpression(unaryExpr: any): TypeDescriptor | undefined {
-    const operandType = this.analyzeExpression(unaryExpr.argument);
-    if (!operandType) {
+  private getTypeSymbol(
+    decl: { name: string },
+    kind: SymbolKind
+  ): Symbol | undefined {
+    const symbol = this.typeSymbols.get(decl.name);
+    return symbol && symbol.kind === kind ? symbol : undefined;
+  }
+
+  /**
+   * Find a member in a type or its base types
+   */
+  private findMember(
+    typeSymbol: Symbol,
+    name: string,
+    includeInterfaces = true,
+    visited = new Set<Symbol>(),
+    bindings = new Map<string, TypeDescriptor>()
+  ): MemberLookup | undefined {
+    if (visited.has(typeSymbol)) {
       return undefined;
     }
+    visited.add(typeSymbol);
 
-    /* Logical NOT returns boolean */
-    if (unaryExpr.operator === '!') {
-      return this.typeRegistry.getType('bool');
+    const own = typeSymbol.members?.get(name);
+    if (own) {
+      return { symbol: own, owner: typeSymbol, bindings };
     }
 
-    /* Other unary operators return same type */
-    return operandType;
+    const bases = [
+      ...(typeSymbol.baseClasses || []),
+      ...(includeInterfaces ? typeSymbol.interfaces || [] : []),
+    ];
+
+    /* Generic bases ('extends Box<T>') bind their parameters */
+    const baseTypes =
+      this.typeRegistry.getType(typeSymbol.name)?.baseTypes || [];
+
+    for (const baseName of bases) {
+      const base = this.typeSymbols.get(baseName);
+      const baseType = baseTypes.find(
+        (type) => (type.templateName || type.name) === baseName
+      );
+      const baseBindings = baseType
+        ? this.typeRegistry.getTemplateBindings(
+            this.typeRegistry.substituteType(baseType, bindings)
+          )
+        : new Map<string, TypeDescriptor>();
+
+      const found =
+        base &&
+        this.findMember(base, name, includeInterfaces, visited, baseBindings);
+      if (found) {
+        return found;
+      }
+    }
+
+    return undefined;
   }
 
   /**
-   * Analyze call expression
+   * Get the names of all members of a type and its base types
    */
-  private analyzeCallExpression(callExpr: any): TypeDescriptor | undefined {
-    /* Get function symbol */
-    let functionSymbol: Symbol | undefined;
-    if (callExpr.callee && callExpr.callee.constructor.name === 'Identifier') {
-      functionSymbol = this.symbolTable.lookup(callExpr.callee.name);
+  private getAllMemberNames(
+    typeSymbol: Symbol,
+    visited = new Set<Symbol>()
+  ): Set<string> {
+    const names = new Set<string>();
+    if (visited.has(typeSymbol)) {
+      return names;
     }
+    visited.add(typeSymbol);
 
-    if (!functionSymbol || functionSymbol.kind !== SymbolKind.FUNCTION) {
-      globalErrorHandler.reportSemanticError(
-        `Cannot call non-function`,
-        this.getLocation(callExpr)
-      );
-      return undefined;
+    for (const name of typeSymbol.members?.keys() || []) {
+      names.add(name);
     }
 
-    /* Analyze arguments */
-    if (callExpr.args || callExpr.arguments) {
-      const args = callExpr.args || callExpr.arguments;
-      if (Array.isArray(args)) {
-        for (const arg of args) {
-          this.analyzeExpression(arg);
-        }
+    for (const baseName of typeSymbol.baseClasses || []) {
+      const base = this.typeSymbols.get(baseName);
+      if (base) {
+        this.getAllMemberNames(base, visited).forEach((name) =>
+          names.add(name)
+        );
       }
     }
 
-    /* Return function return type */
-    return this.typeChecker.convertTypeInfo(functionSymbol.type);
+    return names;
   }
 
   /**
-   * Analyze member expression
+   * Get the base class of a class
    */
-  private analyzeMemberExpression(memberExpr: any): TypeDescriptor | undefined {
-    const objectType = this.analyzeExpression(memberExpr.object);
-    if (!objectType) {
-      return undefined;
+  private getBaseClass(symbol: Symbol): Symbol | undefined {
+    const baseName = symbol.baseClasses?.[0];
+    return baseName ? this.typeSymbols.get(baseName) : undefined;
+  }
+
+  /**
+   * Get the base class 'super' refers to, reporting invalid uses
+   */
+  private getSuperClass(node: SuperExpression): Symbol | undefined {
+    const base = this.currentClass && this.getBaseClass(this.currentClass);
+
+    if (!base) {
+      globalErrorHandler.reportSemanticError(
+        `'super' can only be used in a class with a base class`,
+        this.getLocation(node)
+      );
     }
 
-    /* For now, just return the object type */
-    /* A full implementation would check member access */
-    return objectType;
+    return base;
   }
 
   /**
-   * Analyze assignment expression
+   * Check if a class is, or derives from, another class
    */
-  private analyzeAssignmentExpression(
-    assignExpr: any
-  ): TypeDescriptor | undefined {
-    const leftType = this.analyzeExpression(assignExpr.left);
-    const rightType = this.analyzeExpression(assignExpr.right);
+  private isSubclassOf(symbol: Symbol, base: Symbol, strict = false): boolean {
+    const visited = new Set<Symbol>();
+    let current = strict ? this.getBaseClass(symbol) : symbol;
 
-    if (leftType && rightType) {
-      this.validateTypeCompatibility(leftType, rightType, 'assignment');
+    while (current && !visited.has(current)) {
+      if (current === base) {
+        return true;
+      }
+      visited.add(current);
+      current = this.getBaseClass(current);
     }
 
-    return leftType;
+    return false;
   }
 
   /**
-   * Helper methods
+   * Get a function symbol and its overloads
    */
+  private getOverloads(symbol: Symbol): Symbol[] {
+    return [symbol, ...(symbol.overloads || [])];
+  }
 
   /**
-   * Extract type information from AST node
+   * Get the value type of a symbol
    */
-  private extractTypeInfo(node: any): TypeInfo {
-    let typeName = 'unknown';
+  private getSymbolType(symbol: Symbol): TypeDescriptor {
+    if (symbol.signature) {
+      return this.createFunctionType(symbol.signature);
+    }
 
-    if (node.type && node.type.name) {
-      typeName = node.type.name;
-    } else if (node.returnType && node.returnType.name) {
-      typeName = node.returnType.name;
-    } else if (node.constructor.name === 'FunctionDeclaration') {
-      typeName = 'function';
-    } else if (node.constructor.name === 'ClassDeclaration') {
-      typeName = node.name || 'class';
+    /* Type and namespace names used as values are not typed */
+    if (
+      symbol.kind === SymbolKind.CLASS ||
+      symbol.kind === SymbolKind.INTERFACE ||
+      symbol.kind === SymbolKind.STRUCT ||
+      symbol.kind === SymbolKind.ENUM ||
+      symbol.kind === SymbolKind.NAMESPACE ||
+      symbol.kind === SymbolKind.TYPEDEF
+    ) {
+      return this.builtin('any');
+    }
+
+    return this.typeChecker.convertTypeInfo(symbol.type);
+  }
+
+  /**
+   * Get the element type of an indexed or iterated value
+   */
+  private getElementType(type: TypeDescriptor): TypeDescriptor {
+    if (type.kind === TypeKind.ARRAY && type.elementType) {
+      return type.elementType;
+    }
+    if (type.kind === TypeKind.POINTER && type.pointeeType) {
+      return type.pointeeType;
     }
+    if (type.name === 'string') {
+      return type;
+    }
+
+    return this.builtin('any');
+  }
 
+  /**
+   * Convert a type descriptor to the symbol table's type information
+   */
+  private toTypeInfo(type: TypeDescriptor, isConst = false): TypeInfo {
     return {
-      name: typeName,
-      isPointer: node.type?.isPointer || false,
-      isReference: node.type?.isReference || false,
-      isArray: node.type?.isArray || false,
-      isConst: node.isConst || false,
+      name: type.name,
+      isPointer: false,
+      isReference: false,
+      isArray: false,
+      isConst,
       isVolatile: false,
     };
   }
 
   /**
-   * Validate that a type exists
+   * Get a built-in type
    */
-  private validateType(typeNode: any): boolean {
-    if (!typeNode || !typeNode.name) {
-      return false;
-    }
+  private builtin(name: string): TypeDescriptor {
+    return this.typeRegistry.getType(name)!;
+  }
 
-    const type = this.typeRegistry.getType(typeNode.name);
-    if (!type) {
-      globalErrorHandler.reportSemanticError(
-        `Unknown type '${typeNode.name}'`,
-        this.getLocation(typeNode)
-      );
-      return false;
+  /**
+   * Run a callback with template parameters in scope
+   */
+  private withTypeParameters<T>(
+    declaration: Declaration & { templateParameters: TypeParameter[] },
+    callback: () => T
+  ): T {
+    this.typeParameters.push({
+      declaration,
+      parameters: declaration.templateParameters,
+    });
+    try {
+      return callback();
+    } finally {
+      this.typeParameters.pop();
     }
+  }
 
-    return true;
+  /**
+   * Check if a method name declares a constructor
+   */
+  private isConstructorName(name: string, className: string): boolean {
+    return name === 'constructor' || name === className;
   }
 
   /**
-   * Validate type compatibility
+   * Check if a function name declares an operator overload ('operator+')
    */
-  private validateTypeCompatibility(
-    targetType: TypeDescriptor | TypeInfo,
-    sourceType: TypeDescriptor | TypeInfo,
-    context: string
-  ): boolean {
-    const target =
-      'kind' in targetType
-        ? targetType
-        : this.typeChecker.convertTypeInfo(targetType);
-    const source =
-      'kind' in sourceType
-        ? sourceType
-        : this.typeChecker.convertTypeInfo(sourceType);
+  private isOperatorName(name: string): boolean {
+    return /^operator\W/.test(name);
+  }
 
-    if (!this.typeChecker.isAssignable(source, target)) {
-      globalErrorHandler.reportSemanticError(
-        `Type mismatch in ${context}: cannot assign '${source.name}' to '${target.name}'`,
-        { line: 0, column: 0, file: '<analysis>' }
-      );
-      return false;
+  /**
+   * Map an access modifier to symbol visibility
+   */
+  private getVisibility(modifier: AccessModifier): SymbolVisibility {
+    switch (modifier) {
+      case AccessModifier.Private:
+        return SymbolVisibility.PRIVATE;
+      case AccessModifier.Protected:
+        return SymbolVisibility.PROTECTED;
+      default:
+        return SymbolVisibility.PUBLIC;
     }
+  }
 
-    return true;
+  /**
+   * Check if a function must return a value of its declared type
+   */
+  private requiresReturnValue(type: TypeDescriptor): boolean {
+    return (
+      type.kind !== TypeKind.VOID &&
+      !this.typeChecker.isDynamicType(type) &&
+      !['undefined', 'never'].includes(type.name)
+    );
+  }
+
+  /**
+   * Describe a function in diagnostics
+   */
+  private describeFunction(name: string | null, capitalize = true): string {
+    if (name) {
+      return `${capitalize ? 'Function' : 'function'} '${name}'`;
+    }
+    return `${capitalize ? 'Anonymous' : 'anonymous'} function`;
+  }
+
+  /**
+   * Check if a numeric literal is written as a floating point value
+   */
+  private isFloatLiteral(literal: Literal): boolean {
+    const raw = literal.raw || String(literal.value);
+    return !/^0[xb]/i.test(raw) && (/[.eE]/.test(raw) || /[fF]$/.test(raw));
+  }
+
+  /**
+   * Check if a type is numeric (enums count as integers)
+   */
+  private isNumeric(type: TypeDescriptor): boolean {
+    return NUMERIC_TYPES.includes(type.name) || type.kind === TypeKind.ENUM;
+  }
+
+  /**
+   * Check if a type is an integer type
+   */
+  private isIntegral(type: TypeDescriptor): boolean {
+    return (
+      ['char', 'int', 'bool', 'number'].includes(type.name) ||
+      type.kind === TypeKind.ENUM
+    );
+  }
+
+  /**
+   * Check if a type is a class, interface or struct
+   */
+  private isAggregate(type: TypeDescriptor): boolean {
+    return (
+      type.kind === TypeKind.CLASS ||
+      type.kind === TypeKind.INTERFACE ||
+      type.kind === TypeKind.STRUCT
+    );
   }
 
   /**
@@ -798,28 +4280,41 @@ export class SimpleSemanticAnalyzer {
     type1: TypeDescriptor,
     type2: TypeDescriptor
   ): TypeDescriptor {
-    const hierarchy = ['char', 'int', 'float', 'double'];
-
-    const index1 = hierarchy.indexOf(type1.name);
-    const index2 = hierarchy.indexOf(type2.name);
+    const index1 = NUMERIC_TYPES.indexOf(type1.name);
+    const index2 = NUMERIC_TYPES.indexOf(type2.name);
 
-    if (index1 >= 0 && index2 >= 0) {
-      return index1 > index2 ? type1 : type2;
+    /* Enums promote to int */
+    if (index1 < 0 || index2 < 0) {
+      const widest = Math.max(index1, index2, NUMERIC_TYPES.indexOf('int'));
+      return this.builtin(NUMERIC_TYPES[widest]);
     }
 
-    return type1;
+    return index1 >= index2 ? type1 : type2;
   }
 
   /**
    * Get source location from AST node
    */
-  private getLocation(node: any): SourceLocation {
+  private getLocation(node: ASTNode): SourceLocation {
     if (node && node.location) {
-      return {
-        line: node.location.start?.line || 0,
-        column: node.location.start?.column || 0,
-        file: node.location.filename || '<input>',
+      const { start, end } = node.location;
+      const location: SourceLocation = {
+        line: start?.line || 0,
+        column: start?.column || 0,
+        file: this.linker ? this.linker.file : '<input>',
       };
+
+      /* Span of the node on its first line */
+      if (
+        start &&
+        end &&
+        end.line === start.line &&
+        end.column > start.column
+      ) {
+        location.length = end.column - start.column;
+      }
+
+      return location;
     }
 
     return {
@@ -836,6 +4331,24 @@ export class SimpleSemanticAnalyzer {
     this.symbolsFound = 0;
     this.typesChecked = 0;
     this.symbolTable.clear();
+    this.typeRegistry.clear();
+    this.typeSymbols.clear();
+    this.abstractClasses.clear();
+    this.abstractMembers.clear();
+    this.namespaceScopes.clear();
+    this.typeParameters = [];
+    this.templateDeclarations.clear();
+    this.resolvedTypeParameters.clear();
+    this.templateUses = new Map(); /* the last result keeps its uses */
+    this.operatorUses = new Map();
+    this.swizzles = new Map();
+    this.memberReferences = new Map();
+    this.structCopies = new Set();
+    this.linker = null;
+    this.imports = new Map();
+    this.exports = new Map();
+    this.currentClass = undefined;
+    this.currentFunction = undefined;
   }
 
   /**
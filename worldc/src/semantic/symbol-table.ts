@@ -110,11 +110,13 @@ export interface FunctionSignature {
     type: TypeInfo;
     defaultValue?: string;
     isOptional?: boolean;
+    isRest?: boolean;
   }>;
   isVirtual: boolean;
   isOverride: boolean;
   isFinal: boolean;
   isAsync: boolean;
+  isVariadic?: boolean /* accepts extra untyped arguments (C '...') */;
   templateParameters?: TemplateParameter[];
 }
 
@@ -129,6 +131,7 @@ export interface Symbol {
 
   /* Function-specific properties */
   signature?: FunctionSignature;
+  overloads?: Symbol[] /* further signatures declared under the same name */;
   isForwardDeclaration?: boolean;
   isDefinition?: boolean;
 
@@ -183,14 +186,7 @@ export class Scope {
     /* Check for redefinition */
     const existing = this.symbols.get(symbol.name);
     if (existing) {
-      /* Allow forward declarations */
-      if (existing.isForwardDeclaration && !symbol.isForwardDeclaration) {
-        /* Replace forward declaration with definition */
-        this.symbols.set(symbol.name, symbol);
-        return true;
-      }
-
-      /* Allow function overloading */
+      /* Allow function overloading and prototypes */
       if (
         existing.kind === SymbolKind.FUNCTION &&
         symbol.kind === SymbolKind.FUNCTION
@@ -198,6 +194,14 @@ export class Scope {
         return this.addOverloadedFunction(existing, symbol);
       }
 
+      /* Allow forward declarations */
+      if (existing.isForwardDeclaration && !symbol.isForwardDeclaration) {
+        /* Replace forward declaration with definition */
+        symbol.scope = this;
+        this.symbols.set(symbol.name, symbol);
+        return true;
+      }
+
       /* Redefinition error */
       return false;
     }
@@ -211,25 +215,43 @@ export class Scope {
    * Handle function overloading
    */
   private addOverloadedFunction(existing: Symbol, newSymbol: Symbol): boolean {
-    /* Create overload set if needed */
-    if (!existing.attributes) {
-      existing.attributes = new Map();
+    const overloads = existing.overloads || [];
+
+    /* Find a declaration with the same signature */
+    const duplicate = [existing, ...overloads].find(
+      (overload) =>
+        !this.areFunctionSignaturesDifferent(
+          overload.signature!,
+          newSymbol.signature!
+        )
+    );
+
+    if (!duplicate) {
+      newSymbol.scope = this;
+      existing.overloads = [...overloads, newSymbol];
+      return true;
     }
 
-    /* Check if signatures are different */
-    if (
-      this.areFunctionSignaturesDifferent(
-        existing.signature!,
-        newSymbol.signature!
-      )
-    ) {
-      /* Store overloads in attributes */
-      const overloadKey = `overload_${this.symbols.size}`;
-      existing.attributes.set(overloadKey, JSON.stringify(newSymbol));
+    /* Repeating a prototype is allowed, defining twice is not */
+    if (newSymbol.isForwardDeclaration) {
       return true;
     }
+    if (!duplicate.isForwardDeclaration) {
+      return false;
+    }
+
+    /* Replace the prototype with its definition */
+    newSymbol.scope = this;
+    if (duplicate === existing) {
+      newSymbol.overloads = existing.overloads;
+      this.symbols.set(newSymbol.name, newSymbol);
+    } else {
+      existing.overloads = overloads.map((overload) =>
+        overload === duplicate ? newSymbol : overload
+      );
+    }
 
-    return false; /* Identical signatures */
+    return true;
   }
 
   /**
@@ -483,19 +505,25 @@ export class SymbolTable {
     }
 
     /* Standard library functions */
-    this.addBuiltinFunction('printf', 'int', [
-      {
-        name: 'format',
-        type: {
-          name: 'char',
-          isPointer: true,
-          isReference: false,
-          isArray: false,
-          isConst: true,
-          isVolatile: false,
+    this.addBuiltinFunction(
+      'printf',
+      'int',
+      [
+        {
+          name: 'format',
+          type: {
+            name: 'char',
+            isPointer: true,
+            isReference: false,
+            isArray: false,
+            isConst: true,
+            isVolatile: false,
+          },
         },
-      },
-    ]);
+      ],
+      false,
+      true
+    );
 
     this.addBuiltinFunction(
       'malloc',
@@ -529,6 +557,45 @@ export class SymbolTable {
         },
       },
     ]);
+
+    /* TypeScript runtime globals, untyped until declarations exist */
+    const runtimeGlobals = [
+      'console',
+      'Math',
+      'JSON',
+      'Object',
+      'Array',
+      'Map',
+      'Set',
+      'Promise',
+      'Error',
+      'String',
+      'Number',
+      'Boolean',
+      'Date',
+      'NaN',
+      'Infinity',
+      'parseInt',
+      'parseFloat',
+      'isNaN',
+    ];
+    for (const name of runtimeGlobals) {
+      this.globalScope.addSymbol({
+        name,
+        kind: SymbolKind.VARIABLE,
+        type: {
+          name: 'any',
+          isPointer: false,
+          isReference: false,
+          isArray: false,
+          isConst: true,
+          isVolatile: false,
+        },
+        visibility: SymbolVisibility.PUBLIC,
+        location: { line: 0, column: 0, file: '<builtin>' },
+        scope: this.globalScope,
+      });
+    }
   }
 
   /**
@@ -554,7 +621,8 @@ export class SymbolTable {
     name: string,
     returnType: string,
     parameters: Array<{ name: string; type: TypeInfo }>,
-    returnsPointer = false
+    returnsPointer = false,
+    isVariadic = false
   ): void {
     const signature: FunctionSignature = {
       returnType: {
@@ -570,6 +638,7 @@ export class SymbolTable {
       isOverride: false,
       isFinal: false,
       isAsync: false,
+      isVariadic,
     };
 
     const symbol: Symbol = {
@@ -613,6 +682,15 @@ export class SymbolTable {
     return exitedScope;
   }
 
+  /**
+   * Re-enter a scope created earlier (namespaces are collected before
+   * their bodies are analyzed)
+   */
+  public reenterScope(scope: Scope): Scope {
+    this.currentScope = scope;
+    return scope;
+  }
+
   /**
    * Get current scope
    */
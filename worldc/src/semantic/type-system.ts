@@ -27,6 +27,7 @@ export enum TypeKind {
   ENUM = 'ENUM',
   TEMPLATE = 'TEMPLATE',
   UNION = 'UNION',
+  VECTOR = 'VECTOR' /* vectors, quaternions and square matrices */,
   VOID = 'VOID',
   AUTO = 'AUTO',
   UNKNOWN = 'UNKNOWN'
@@ -60,6 +61,27 @@ export enum VectorType {
   MAT4 = 'mat4'
 }
 
+/* Component names usable in swizzles, by position ('xyzw' or 'rgba') */
+const SWIZZLE_COMPONENTS = ['xyzw', 'rgba'];
+
+/**
+ * Get the component positions named by a swizzle, or undefined if it is not one
+ */
+export function getSwizzleIndices(name: string): number[] | undefined {
+  if (name.length < 1 || name.length > 4) {
+    return undefined;
+  }
+
+  for (const components of SWIZZLE_COMPONENTS) {
+    const indices = [...name].map((component) => components.indexOf(component));
+    if (indices.every((index) => index >= 0)) {
+      return indices;
+    }
+  }
+
+  return undefined;
+}
+
 export interface TypeDescriptor {
   kind: TypeKind;
   name: string;
@@ -87,9 +109,16 @@ export interface TypeDescriptor {
   members?: Map<string, TypeDescriptor>;
   baseTypes?: TypeDescriptor[];
 
+  /* Vector/Quaternion/Matrix specific */
+  componentType?: TypeDescriptor;
+  componentCount?: number /* vector components, or columns of a matrix */;
+  isQuaternion?: boolean;
+  isMatrix?: boolean;
+
   /* Template specific */
   templateParameters?: TemplateParameter[];
   templateArguments?: TypeDescriptor[];
+  templateName?: string /* template an instantiation was created from */;
 
   /* Union types (TypeScript) */
   unionTypes?: TypeDescriptor[];
@@ -220,6 +249,19 @@ export class TypeRegistry {
       isUnsigned: false
     });
 
+    /* TypeScript special types */
+    for (const name of ['unknown', 'never', 'object', 'symbol', 'bigint', 'null', 'undefined']) {
+      this.registerType(name, {
+        kind: TypeKind.PRIMITIVE,
+        name,
+        size: 8,
+        alignment: 8,
+        isConst: false,
+        isVolatile: false,
+        isUnsigned: false
+      });
+    }
+
     /* WORLDSRC vector types */
     this.registerVectorTypes();
   }
@@ -236,35 +278,70 @@ export class TypeRegistry {
       { name: 'ivec3', components: 3, componentType: 'int' },
       { name: 'ivec4', components: 4, componentType: 'int' },
       { name: 'quat', components: 4, componentType: 'float' },
-      { name: 'mat3', components: 9, componentType: 'float' },
-      { name: 'mat4', components: 16, componentType: 'float' }
+      { name: 'mat3', components: 3, componentType: 'float', isMatrix: true },
+      { name: 'mat4', components: 4, componentType: 'float', isMatrix: true }
     ];
 
     for (const vectorType of vectorTypes) {
-      const componentSize = vectorType.componentType === 'float' ? 4 : 4;
+      const componentType = this.getType(vectorType.componentType)!;
+      const elements = vectorType.isMatrix
+        ? vectorType.components * vectorType.components
+        : vectorType.components;
+
+      /* Matrices expose their columns by index rather than named components */
+      const members = new Map<string, TypeDescriptor>();
+      if (!vectorType.isMatrix) {
+        for (const component of SWIZZLE_COMPONENTS[0].slice(0, vectorType.components)) {
+          members.set(component, componentType);
+        }
+      }
 
       this.registerType(vectorType.name, {
-        kind: TypeKind.STRUCT,
+        kind: TypeKind.VECTOR,
         name: vectorType.name,
-        size: vectorType.components * componentSize,
-        alignment: componentSize,
+        size: elements * componentType.size,
+        alignment: componentType.alignment,
         isConst: false,
         isVolatile: false,
         isUnsigned: false,
-        members: new Map<string, TypeDescriptor>([
-          ['x', this.getType(vectorType.componentType)!],
-          ['y', this.getType(vectorType.componentType)!],
-          ...(vectorType.components > 2
-            ? [['z', this.getType(vectorType.componentType)!] as [string, TypeDescriptor]]
-            : []),
-          ...(vectorType.components > 3
-            ? [['w', this.getType(vectorType.componentType)!] as [string, TypeDescriptor]]
-            : [])
-        ])
+        members,
+        componentType,
+        componentCount: vectorType.components,
+        isQuaternion: vectorType.name === 'quat',
+        isMatrix: !!vectorType.isMatrix
       });
     }
   }
 
+  /**
+   * Get the vector type with the given component type and count
+   */
+  public getVectorType(componentType: TypeDescriptor, count: number): TypeDescriptor | undefined {
+    if (count < 2 || count > 4) {
+      return undefined;
+    }
+
+    return this.types.get(`${componentType.name === 'int' ? 'ivec' : 'vec'}${count}`);
+  }
+
+  /**
+   * Get the type of a component or swizzle of a vector ('v.x', 'v.xy', 'c.rgb')
+   */
+  public getSwizzleType(type: TypeDescriptor, name: string): TypeDescriptor | undefined {
+    if (type.kind !== TypeKind.VECTOR || type.isMatrix || !type.componentType) {
+      return undefined;
+    }
+
+    const indices = getSwizzleIndices(name);
+    if (!indices || indices.some((index) => index >= type.componentCount!)) {
+      return undefined;
+    }
+
+    return indices.length === 1
+      ? type.componentType
+      : this.getVectorType(type.componentType, indices.length);
+  }
+
   /**
    * Register a type
    */
@@ -282,7 +359,7 @@ export class TypeRegistry {
       return alias;
     }
 
-    return this.types.get(name);
+    return this.types.get(name) || this.templateInstantiations.get(name);
   }
 
   /**
@@ -446,6 +523,7 @@ export class TypeRegistry {
     const instantiation: TypeDescriptor = {
       ...templateType,
       name: typeName,
+      templateName: templateType.name,
       templateArguments
     };
 
@@ -453,6 +531,88 @@ export class TypeRegistry {
     return instantiation;
   }
 
+  /**
+   * Get the arguments bound to the template parameters of an instantiation
+   */
+  public getTemplateBindings(type: TypeDescriptor): Map<string, TypeDescriptor> {
+    const bindings = new Map<string, TypeDescriptor>();
+
+    if (type.templateParameters && type.templateArguments) {
+      type.templateParameters.forEach((parameter, index) => {
+        const argument = type.templateArguments![index];
+        if (argument) {
+          bindings.set(parameter.name, argument);
+        }
+      });
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Substitute bound template parameters throughout a type
+   */
+  public substituteType(
+    type: TypeDescriptor,
+    bindings: Map<string, TypeDescriptor>
+  ): TypeDescriptor {
+    if (bindings.size === 0) {
+      return type;
+    }
+
+    /* Template parameters resolve to UNKNOWN outside their declaration */
+    if (
+      (type.kind === TypeKind.TEMPLATE || type.kind === TypeKind.UNKNOWN) &&
+      bindings.has(type.name)
+    ) {
+      return bindings.get(type.name)!;
+    }
+
+    switch (type.kind) {
+      case TypeKind.POINTER:
+        return type.pointeeType
+          ? this.createPointerType(this.substituteType(type.pointeeType, bindings))
+          : type;
+
+      case TypeKind.REFERENCE:
+        return type.referenceType
+          ? this.createReferenceType(this.substituteType(type.referenceType, bindings))
+          : type;
+
+      case TypeKind.ARRAY:
+        return type.elementType
+          ? this.createArrayType(this.substituteType(type.elementType, bindings), type.arrayLength)
+          : type;
+
+      case TypeKind.FUNCTION:
+        return this.createFunctionType(
+          this.substituteType(type.returnType || this.types.get('void')!, bindings),
+          (type.parameterTypes || []).map((parameter) => this.substituteType(parameter, bindings)),
+          type.isVariadic
+        );
+
+      case TypeKind.UNION:
+        return type.unionTypes
+          ? this.createUnionType(
+              type.unionTypes.map((member) => this.substituteType(member, bindings))
+            )
+          : type;
+    }
+
+    /* Instantiations substitute through their arguments */
+    if (type.templateName && type.templateArguments) {
+      const templateType = this.types.get(type.templateName);
+      if (templateType) {
+        return this.createTemplateInstantiation(
+          templateType,
+          type.templateArguments.map((argument) => this.substituteType(argument, bindings))
+        );
+      }
+    }
+
+    return type;
+  }
+
   /**
    * Register type alias
    */
@@ -478,6 +638,16 @@ export class TypeRegistry {
   }
 }
 
+/**
+ * Built-in operation an operator on vector, quaternion or matrix values lowers to
+ */
+export interface VectorOperation {
+  name: string /* math runtime function, e.g. 'add', 'scale' or 'transform' */;
+  owner: TypeDescriptor /* type whose runtime provides the function */;
+  resultType: TypeDescriptor;
+  reversed: boolean /* operands are passed right to left ('2.0 * v') */;
+}
+
 export class TypeChecker {
   private typeRegistry: TypeRegistry;
   private conversionRules = new Map<string, Map<string, number>>();
@@ -498,11 +668,28 @@ export class TypeChecker {
       { from: 'int', to: 'float', cost: 2 },
       { from: 'float', to: 'double', cost: 1 },
       { from: 'int', to: 'double', cost: 3 },
+      { from: 'char', to: 'float', cost: 3 },
+      { from: 'char', to: 'double', cost: 4 },
+      { from: 'bool', to: 'int', cost: 3 },
+
+      /* C narrowing conversions (implicit, but may lose precision) */
+      { from: 'int', to: 'char', cost: 3 },
+      { from: 'double', to: 'float', cost: 2 },
+      { from: 'float', to: 'int', cost: 4 },
+      { from: 'double', to: 'int', cost: 5 },
 
       /* TypeScript conversions */
       { from: 'number', to: 'int', cost: 2 },
       { from: 'number', to: 'float', cost: 1 },
+      { from: 'number', to: 'double', cost: 1 },
+      { from: 'number', to: 'char', cost: 3 },
+      { from: 'char', to: 'number', cost: 2 },
+      { from: 'int', to: 'number', cost: 1 },
+      { from: 'float', to: 'number', cost: 1 },
+      { from: 'double', to: 'number', cost: 1 },
       { from: 'boolean', to: 'int', cost: 3 },
+      { from: 'bool', to: 'boolean', cost: 1 },
+      { from: 'boolean', to: 'bool', cost: 1 },
       { from: 'string', to: 'char*', cost: 1 },
 
       /* Any type conversions */
@@ -607,10 +794,28 @@ export class TypeChecker {
     return cost !== undefined && cost < 10; /* Arbitrary threshold */
   }
 
+  /**
+   * Check if a type is untyped and converts to and from every type
+   */
+  public isDynamicType(type: TypeDescriptor): boolean {
+    return (
+      type.name === 'any' ||
+      type.name === 'unknown' ||
+      type.name === 'object' ||
+      type.kind === TypeKind.UNKNOWN ||
+      type.kind === TypeKind.TEMPLATE
+    );
+  }
+
   /**
    * Get conversion cost between types
    */
   public getConversionCost(fromType: TypeDescriptor, toType: TypeDescriptor): number | undefined {
+    /* Identical types need no conversion */
+    if (this.areTypesEqual(fromType, toType)) {
+      return 0;
+    }
+
     /* Direct conversion rule */
     const fromRules = this.conversionRules.get(fromType.name);
     if (fromRules) {
@@ -620,10 +825,60 @@ export class TypeChecker {
       }
     }
 
+    /* Untyped values convert to and from every type */
+    if (this.isDynamicType(fromType) || this.isDynamicType(toType)) {
+      return 4;
+    }
+
+    /* null and undefined convert to every value type except void */
+    if (['null', 'undefined', 'never'].includes(fromType.name)) {
+      return toType.kind === TypeKind.VOID ? undefined : 1;
+    }
+
+    /* References bind to and read through their referenced type */
+    if (toType.kind === TypeKind.REFERENCE && toType.referenceType) {
+      return this.getConversionCost(fromType, toType.referenceType);
+    }
+    if (fromType.kind === TypeKind.REFERENCE && fromType.referenceType) {
+      return this.getConversionCost(fromType.referenceType, toType);
+    }
+
+    /* Enums convert through their underlying integer type */
+    const intType = this.typeRegistry.getType('int')!;
+    if (fromType.kind === TypeKind.ENUM && toType.kind !== TypeKind.ENUM) {
+      const cost = this.getConversionCost(intType, toType);
+      return cost === undefined ? undefined : cost + 1;
+    }
+    if (toType.kind === TypeKind.ENUM && fromType.kind !== TypeKind.ENUM) {
+      const cost = this.getConversionCost(fromType, intType);
+      return cost === undefined ? undefined : cost + 1;
+    }
+
+    /* A union accepts any of its members */
+    if (toType.kind === TypeKind.UNION && toType.unionTypes) {
+      const costs = toType.unionTypes
+        .map((member) => this.getConversionCost(fromType, member))
+        .filter((cost): cost is number => cost !== undefined);
+      return costs.length > 0 ? Math.min(...costs) : undefined;
+    }
+
+    /* A union converts only if every member does */
+    if (fromType.kind === TypeKind.UNION && fromType.unionTypes) {
+      let maxCost = 0;
+      for (const member of fromType.unionTypes) {
+        const cost = this.getConversionCost(member, toType);
+        if (cost === undefined) {
+          return undefined;
+        }
+        maxCost = Math.max(maxCost, cost);
+      }
+      return maxCost;
+    }
+
     /* Pointer compatibility */
     if (fromType.kind === TypeKind.POINTER && toType.kind === TypeKind.POINTER) {
       if (fromType.pointeeType && toType.pointeeType) {
-        if (toType.pointeeType.name === 'void') {
+        if (toType.pointeeType.name === 'void' || fromType.pointeeType.name === 'void') {
           return 1; /* void* conversion */
         }
         return this.getConversionCost(fromType.pointeeType, toType.pointeeType);
@@ -637,35 +892,142 @@ export class TypeChecker {
       }
     }
 
-    /* Inheritance (would need class hierarchy analysis) */
-    if (fromType.kind === TypeKind.CLASS && toType.kind === TypeKind.CLASS) {
+    /* Arrays convert when their elements are identical or untyped */
+    if (fromType.kind === TypeKind.ARRAY && toType.kind === TypeKind.ARRAY) {
+      if (fromType.elementType && toType.elementType) {
+        if (this.areTypesEqual(fromType.elementType, toType.elementType)) {
+          return 0;
+        }
+        return this.isDynamicType(fromType.elementType) || this.isDynamicType(toType.elementType)
+          ? 1
+          : undefined;
+      }
+    }
+
+    /* Functions convert when parameters and return type are compatible */
+    if (fromType.kind === TypeKind.FUNCTION && toType.kind === TypeKind.FUNCTION) {
+      return this.checkFunctionConversion(fromType, toType);
+    }
+
+    /* Instantiations of one template convert when their arguments agree */
+    const instantiationCost = this.checkInstantiationConversion(fromType, toType);
+    if (instantiationCost !== undefined) {
+      return instantiationCost;
+    }
+
+    /* Inheritance and interface implementation */
+    if (this.isClassLike(fromType) && this.isClassLike(toType)) {
       return this.checkInheritanceConversion(fromType, toType);
     }
 
     return undefined;
   }
 
+  /**
+   * Check if a type has members and base types
+   */
+  private isClassLike(type: TypeDescriptor): boolean {
+    return (
+      type.kind === TypeKind.CLASS ||
+      type.kind === TypeKind.INTERFACE ||
+      type.kind === TypeKind.STRUCT
+    );
+  }
+
+  /**
+   * Check conversion between instantiations of the same template
+   */
+  private checkInstantiationConversion(
+    fromType: TypeDescriptor,
+    toType: TypeDescriptor
+  ): number | undefined {
+    if (!fromType.templateName && !toType.templateName) {
+      return undefined;
+    }
+
+    if ((fromType.templateName || fromType.name) !== (toType.templateName || toType.name)) {
+      return undefined;
+    }
+
+    /* The raw template stands for any of its instantiations */
+    if (!fromType.templateArguments || !toType.templateArguments) {
+      return 1;
+    }
+
+    const compatible = fromType.templateArguments.every((argument, index) => {
+      const other = toType.templateArguments![index];
+      return (
+        !!other &&
+        (this.areTypesEqual(argument, other) ||
+          this.isDynamicType(argument) ||
+          this.isDynamicType(other))
+      );
+    });
+
+    return compatible ? 1 : undefined;
+  }
+
+  /**
+   * Check function type conversion
+   */
+  private checkFunctionConversion(
+    fromType: TypeDescriptor,
+    toType: TypeDescriptor
+  ): number | undefined {
+    const fromParameters = fromType.parameterTypes || [];
+    const toParameters = toType.parameterTypes || [];
+
+    /* A function may ignore trailing arguments */
+    if (fromParameters.length > toParameters.length) {
+      return undefined;
+    }
+
+    /* Parameters accept the arguments the target type passes */
+    for (let i = 0; i < fromParameters.length; i++) {
+      if (this.getConversionCost(toParameters[i], fromParameters[i]) === undefined) {
+        return undefined;
+      }
+    }
+
+    /* A void function type discards any result */
+    if (fromType.returnType && toType.returnType && toType.returnType.kind !== TypeKind.VOID) {
+      if (this.getConversionCost(fromType.returnType, toType.returnType) === undefined) {
+        return undefined;
+      }
+    }
+
+    return 1;
+  }
+
   /**
    * Check inheritance-based conversion
    */
   private checkInheritanceConversion(
     derived: TypeDescriptor,
-    base: TypeDescriptor
+    base: TypeDescriptor,
+    visited = new Set<string>()
   ): number | undefined {
-    if (!derived.baseTypes) {
+    if (!derived.baseTypes || visited.has(derived.name)) {
       return undefined;
     }
+    visited.add(derived.name);
+
+    /* Bases of an instantiation see its template arguments */
+    const bindings = this.typeRegistry.getTemplateBindings(derived);
+    const baseTypes = derived.baseTypes.map((baseType) =>
+      this.typeRegistry.substituteType(baseType, bindings)
+    );
 
     /* Direct base class */
-    for (const baseType of derived.baseTypes) {
+    for (const baseType of baseTypes) {
       if (this.areTypesEqual(baseType, base)) {
         return 1;
       }
     }
 
     /* Indirect inheritance (recursive check) */
-    for (const baseType of derived.baseTypes) {
-      const cost = this.checkInheritanceConversion(baseType, base);
+    for (const baseType of baseTypes) {
+      const cost = this.checkInheritanceConversion(baseType, base, visited);
       if (cost !== undefined) {
         return cost + 1;
       }
@@ -718,6 +1080,120 @@ export class TypeChecker {
     return this.isAssignable(argument, constraintType);
   }
 
+  /**
+   * Infer template arguments by matching a parameter type against an argument type
+   */
+  public inferTemplateArguments(
+    parameterType: TypeDescriptor,
+    argumentType: TypeDescriptor,
+    parameterNames: Set<string>,
+    bindings: Map<string, TypeDescriptor>
+  ): void {
+    /* A bare template parameter binds to the argument */
+    if (
+      (parameterType.kind === TypeKind.TEMPLATE || parameterType.kind === TypeKind.UNKNOWN) &&
+      parameterNames.has(parameterType.name)
+    ) {
+      if (['null', 'undefined', 'never', 'void'].includes(argumentType.name)) {
+        return; /* Says nothing about the parameter */
+      }
+
+      const bound = bindings.get(parameterType.name);
+      if (!bound) {
+        bindings.set(parameterType.name, argumentType);
+        return;
+      }
+
+      /* Widen to the argument when only the bound type converts cheaply (int then float) */
+      const widen = this.getConversionCost(bound, argumentType);
+      const narrow = this.getConversionCost(argumentType, bound);
+      if (widen !== undefined && (narrow === undefined || widen < narrow)) {
+        bindings.set(parameterType.name, argumentType);
+      }
+      return;
+    }
+
+    /* References bind through their referenced type */
+    if (argumentType.kind === TypeKind.REFERENCE && argumentType.referenceType) {
+      this.inferTemplateArguments(
+        parameterType,
+        argumentType.referenceType,
+        parameterNames,
+        bindings
+      );
+      return;
+    }
+    if (parameterType.kind === TypeKind.REFERENCE && parameterType.referenceType) {
+      this.inferTemplateArguments(
+        parameterType.referenceType,
+        argumentType,
+        parameterNames,
+        bindings
+      );
+      return;
+    }
+
+    /* Pointers match pointers and decayed arrays */
+    if (parameterType.kind === TypeKind.POINTER && parameterType.pointeeType) {
+      const pointee =
+        argumentType.kind === TypeKind.POINTER
+          ? argumentType.pointeeType
+          : argumentType.kind === TypeKind.ARRAY
+            ? argumentType.elementType
+            : undefined;
+      if (pointee) {
+        this.inferTemplateArguments(parameterType.pointeeType, pointee, parameterNames, bindings);
+      }
+      return;
+    }
+
+    if (parameterType.kind === TypeKind.ARRAY && parameterType.elementType) {
+      if (argumentType.kind === TypeKind.ARRAY && argumentType.elementType) {
+        this.inferTemplateArguments(
+          parameterType.elementType,
+          argumentType.elementType,
+          parameterNames,
+          bindings
+        );
+      }
+      return;
+    }
+
+    if (parameterType.kind === TypeKind.FUNCTION && argumentType.kind === TypeKind.FUNCTION) {
+      const parameters = parameterType.parameterTypes || [];
+      const arguments_ = argumentType.parameterTypes || [];
+      parameters.forEach((parameter, index) => {
+        if (arguments_[index]) {
+          this.inferTemplateArguments(parameter, arguments_[index], parameterNames, bindings);
+        }
+      });
+      if (parameterType.returnType && argumentType.returnType) {
+        this.inferTemplateArguments(
+          parameterType.returnType,
+          argumentType.returnType,
+          parameterNames,
+          bindings
+        );
+      }
+      return;
+    }
+
+    /* Instantiations of one template match argument by argument */
+    if (
+      parameterType.templateName &&
+      parameterType.templateArguments &&
+      parameterType.templateName === argumentType.templateName &&
+      argumentType.templateArguments
+    ) {
+      parameterType.templateArguments.forEach((parameter, index) => {
+        const argument = argumentType.templateArguments![index];
+        if (argument) {
+          this.inferTemplateArguments(parameter, argument, parameterNames, bindings);
+        }
+      });
+    }
+  }
+
   /**
    * Resolve function overload
    */
@@ -729,7 +1205,16 @@ export class TypeChecker {
     let bestCost = Infinity;
 
     for (const candidate of candidates) {
-      if (!candidate.signature || candidate.signature.parameters.length !== argumentTypes.length) {
+      if (!candidate.signature) {
+        continue;
+      }
+
+      /* Optional, rest and variadic parameters widen the accepted arity */
+      const parameters = candidate.signature.parameters;
+      const rest = parameters.find((parameter) => parameter.isRest);
+      const required = parameters.filter((p) => !p.isOptional && !p.isRest).length;
+      const maximum = rest || candidate.signature.isVariadic ? Infinity : parameters.length;
+      if (argumentTypes.length < required || argumentTypes.length > maximum) {
         continue;
       }
 
@@ -737,10 +1222,14 @@ export class TypeChecker {
       let validMatch = true;
 
       for (let i = 0; i < argumentTypes.length; i++) {
-        const paramType = this.typeRegistry.getType(candidate.signature.parameters[i].type.name);
-        if (!paramType) {
-          validMatch = false;
-          break;
+        const parameter = i < parameters.length && !parameters[i].isRest ? parameters[i] : rest;
+        if (!parameter) {
+          continue; /* Variadic arguments are not checked */
+        }
+
+        let paramType = this.convertTypeInfo(parameter.type);
+        if (parameter.isRest && paramType.elementType) {
+          paramType = paramType.elementType;
         }
 
         const cost = this.getConversionCost(argumentTypes[i], paramType);
@@ -787,6 +1276,112 @@ export class TypeChecker {
     return true;
   }
 
+  /**
+   * Resolve an operator applied to vector, quaternion or matrix operands
+   */
+  public getVectorOperation(
+    operatorSymbol: string,
+    operandTypes: TypeDescriptor[]
+  ): VectorOperation | undefined {
+    const operands = operandTypes.map((type) =>
+      type.kind === TypeKind.REFERENCE && type.referenceType ? type.referenceType : type
+    );
+    const operation = (
+      name: string,
+      owner: TypeDescriptor,
+      resultType: TypeDescriptor = owner,
+      reversed = false
+    ): VectorOperation => ({ name, owner, resultType, reversed });
+
+    /* Unary operators keep the operand type */
+    if (operands.length === 1) {
+      const [operand] = operands;
+      if (operand.kind !== TypeKind.VECTOR) {
+        return undefined;
+      }
+      if (operatorSymbol === '-') {
+        return operation('negate', operand);
+      }
+      return operatorSymbol === '+' ? operation('clone', operand) : undefined;
+    }
+
+    const [left, right] = operands;
+    const leftVector = left.kind === TypeKind.VECTOR;
+    const rightVector = right.kind === TypeKind.VECTOR;
+    if (!leftVector && !rightVector) {
+      return undefined;
+    }
+
+    const sameType = leftVector && rightVector && left.name === right.name;
+
+    switch (operatorSymbol) {
+      case '==':
+      case '!=':
+        return sameType
+          ? operation('equals', left, this.typeRegistry.getType('bool')!)
+          : undefined;
+
+      case '+':
+      case '-':
+        return sameType ? operation(operatorSymbol === '+' ? 'add' : 'sub', left) : undefined;
+
+      case '*':
+        /* Component-wise, Hamilton or matrix product of equal types */
+        if (sameType) {
+          return operation('mul', left);
+        }
+        if (left.isMatrix && rightVector && this.isColumnVector(left, right)) {
+          return operation('transform', left, right);
+        }
+        if (left.isQuaternion && right.name === 'vec3') {
+          return operation('rotate', left, right);
+        }
+        if (leftVector && this.isScalarOf(right, left)) {
+          return operation('scale', left);
+        }
+        if (rightVector && this.isScalarOf(left, right)) {
+          return operation('scale', right, right, true);
+        }
+        return undefined;
+
+      case '/':
+        if (sameType && !left.isQuaternion && !left.isMatrix) {
+          return operation('div', left);
+        }
+        if (leftVector && this.isScalarOf(right, left)) {
+          return operation('divScalar', left);
+        }
+        return undefined;
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Check if a vector has one component per column of a matrix
+   */
+  private isColumnVector(matrix: TypeDescriptor, vector: TypeDescriptor): boolean {
+    return (
+      !vector.isMatrix &&
+      !vector.isQuaternion &&
+      vector.componentType?.name === 'float' &&
+      vector.componentCount === matrix.componentCount
+    );
+  }
+
+  /**
+   * Check if a type scales the components of a vector type
+   */
+  private isScalarOf(scalar: TypeDescriptor, vector: TypeDescriptor): boolean {
+    const integral = ['char', 'int'];
+    if (vector.componentType?.name === 'int') {
+      return integral.includes(scalar.name);
+    }
+
+    return [...integral, 'float', 'double', 'number'].includes(scalar.name);
+  }
+
   /**
    * Convert TypeInfo to TypeDescriptor
    */
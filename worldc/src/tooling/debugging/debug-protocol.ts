@@ -27,8 +27,19 @@
 */
 
 import { EventEmitter } from 'events';
-import * as fs from 'fs';
 import * as path from 'path';
+import { Readable, Writable } from 'stream';
+
+import {
+  DebugRuntime,
+  InspectorRuntime,
+  RemoteRuntime
+} from './debug-runtime';
+import {
+  MappedLocation,
+  MappedScript,
+  SourceMapLocator
+} from './mapped-script';
 
 /*
 	====================================================================
@@ -303,29 +314,87 @@ export interface Vector3 {
 	====================================================================
 */
 
+type StepCommand = 'Debugger.stepOver' | 'Debugger.stepInto' | 'Debugger.stepOut';
+
+interface PendingStep {
+  command: StepCommand;            /* the CDP step being repeated */
+  reason:  'step' | 'entry';       /* stop reason once it lands */
+  origin:  MappedLocation | null;  /* where the step started */
+  depth:   number;                 /* stack depth it started at */
+}
+
+/* names of CDP scope types as a client shows them */
+const SCOPE_NAMES: { [type: string]: string } = {
+  local:   'Locals',
+  closure: 'Closure',
+  block:   'Block',
+  catch:   'Catch',
+  script:  'Script',
+  module:  'Module',
+  with:    'With',
+  eval:    'Eval',
+  global:  'Globals'
+};
+
+const THREAD_ID = 1;
+
 export class WorldSrcDebugSession extends EventEmitter {
 
   private nextSeq:           number;
+  private nextBreakpointId:  number;
+  private nextHandle:        number;
+  private runtime:           DebugRuntime | null;
+  private providedRuntime:   DebugRuntime | null;
+  private launched:          boolean;
+  private configured:        boolean;
+  private program:           string | null;
+  private stopOnEntry:       boolean;
+  private locateSourceMap:   SourceMapLocator;
+  private scripts:           Map<string, MappedScript>;   /* CDP scriptId -> script */
+  private loading:           Set<Promise<void>>;          /* scripts still being mapped */
+  private requested:         Map<string, SourceBreakpoint[]>;
   private breakpoints:       Map<string, Breakpoint[]>;
-  private sourceMap:         SourceMapData | null;
+  private cdpBreakpoints:    Map<string, string[]>;       /* source path -> CDP ids */
+  private breakpointIds:     Map<string, number>;         /* CDP id -> DAP id */
+  private exceptionState:    string;
   private threads:           Map<number, Thread>;
-  private stackFrames:       Map<number, StackFrame[]>;
-  private variables:         Map<number, Variable[]>;
-  private isRunning:         boolean;
+  private callFrames:        any[];                       /* CDP frames of the current stop */
+  private handles:           Map<number, string>;         /* variablesReference -> objectId */
+  private step:              PendingStep | null;
+  private isPaused:          boolean;
+  private pauseRequested:    boolean;
+  private resumeOnConfigure: boolean;
   private currentContext:    WorldSrcDebugContext | null;
 
-  constructor() {
+  constructor(runtime?: DebugRuntime) {
 
     super();
 
-    this.nextSeq      = 1;
-    this.breakpoints  = new Map();
-    this.sourceMap    = null;
-    this.threads      = new Map();
-    this.stackFrames  = new Map();
-    this.variables    = new Map();
-    this.isRunning    = false;
-    this.currentContext = null;
+    this.nextSeq          = 1;
+    this.nextBreakpointId = 1;
+    this.nextHandle       = 1;
+    this.runtime          = null;
+    this.providedRuntime  = runtime || null;
+    this.launched         = false;
+    this.configured       = false;
+    this.program          = null;
+    this.stopOnEntry      = false;
+    this.locateSourceMap  = (file) => file + '.map';
+    this.scripts          = new Map();
+    this.loading          = new Set();
+    this.requested        = new Map();
+    this.breakpoints      = new Map();
+    this.cdpBreakpoints   = new Map();
+    this.breakpointIds    = new Map();
+    this.exceptionState   = 'none';
+    this.threads          = new Map();
+    this.callFrames       = [];
+    this.handles          = new Map();
+    this.step             = null;
+    this.isPaused         = false;
+    this.pauseRequested   = false;
+    this.resumeOnConfigure = false;
+    this.currentContext   = null;
 
   }
 
@@ -368,13 +437,23 @@ export class WorldSrcDebugSession extends EventEmitter {
           response.success = true;
           break;
 
+        case 'configurationDone':
+          await this.handleConfigurationDone();
+          response.success = true;
+          break;
+
         case 'setBreakpoints':
           response.body = await this.handleSetBreakpoints(request.arguments);
           response.success = true;
           break;
 
+        case 'setExceptionBreakpoints':
+          await this.handleSetExceptionBreakpoints(request.arguments);
+          response.success = true;
+          break;
+
         case 'continue':
-          await this.handleContinue(request.arguments);
+          response.body = await this.handleContinue(request.arguments);
           response.success = true;
           break;
 
@@ -423,6 +502,11 @@ export class WorldSrcDebugSession extends EventEmitter {
           response.success = true;
           break;
 
+        case 'terminate':
+          await this.handleTerminate();
+          response.success = true;
+          break;
+
         case 'disconnect':
           await this.handleDisconnect(request.arguments);
           response.success = true;
@@ -450,8 +534,8 @@ export class WorldSrcDebugSession extends EventEmitter {
            handleInitialize()
   	       ---
   	       initializes the debug session and returns adapter
-  	       capabilities. sets up the debugging environment
-  	       and prepares for debugging operations.
+  	       capabilities. only what the session really does is
+  	       claimed; a client hides the rest.
 
   */
 
@@ -459,29 +543,29 @@ export class WorldSrcDebugSession extends EventEmitter {
 
     return {
       supportsConfigurationDoneRequest:   true,
-      supportsFunctionBreakpoints:        true,
+      supportsFunctionBreakpoints:        false,
       supportsConditionalBreakpoints:     true,
-      supportsHitConditionalBreakpoints:  true,
+      supportsHitConditionalBreakpoints:  false,
       supportsEvaluateForHovers:          true,
-      exceptionBreakpointFilters:         [],
+      exceptionBreakpointFilters:         [
+        { filter: 'all',      label: 'All Exceptions',      default: false },
+        { filter: 'uncaught', label: 'Uncaught Exceptions', default: false }
+      ],
       supportsStepBack:                   false,
-      supportsSetVariable:                true,
+      supportsSetVariable:                false,
       supportsRestartFrame:               false,
       supportsGotoTargetsRequest:         false,
       supportsStepInTargetsRequest:       false,
-      supportsCompletionsRequest:         true,
-      completionTriggerCharacters:        ['.', '['],
-      supportsModulesRequest:             true,
-      additionalModuleColumns:            [],
-      supportedChecksumAlgorithms:        [ChecksumAlgorithm.MD5, ChecksumAlgorithm.SHA1],
-      supportsRestartRequest:             true,
-      supportsExceptionOptions:           true,
-      supportsValueFormattingOptions:     true,
-      supportsExceptionInfoRequest:       true,
+      supportsCompletionsRequest:         false,
+      supportsModulesRequest:             false,
+      supportsRestartRequest:             false,
+      supportsExceptionOptions:           false,
+      supportsValueFormattingOptions:     false,
+      supportsExceptionInfoRequest:       false,
       supportTerminateDebuggee:           true,
-      supportSuspendDebuggee:             true,
+      supportSuspendDebuggee:             false,
       supportsDelayedStackTraceLoading:   true,
-      supportsLoadedSourcesRequest:       true,
+      supportsLoadedSourcesRequest:       false,
       supportsLogPoints:                  true,
       supportsTerminateThreadsRequest:    false,
       supportsSetExpression:              false,
@@ -491,11 +575,11 @@ export class WorldSrcDebugSession extends EventEmitter {
       supportsWriteMemoryRequest:         false,
       supportsDisassembleRequest:         false,
       supportsCancelRequest:              false,
-      supportsBreakpointLocationsRequest: true,
-      supportsClipboardContext:           true,
+      supportsBreakpointLocationsRequest: false,
+      supportsClipboardContext:           false,
       supportsSteppingGranularity:        false,
       supportsInstructionBreakpoints:     false,
-      supportsExceptionFilterOptions:     true
+      supportsExceptionFilterOptions:     false
     };
 
   }
@@ -504,79 +588,296 @@ export class WorldSrcDebugSession extends EventEmitter {
 
            handleLaunch()
   	       ---
-  	       launches the debug target and begins debugging session.
-  	       configures the runtime environment and establishes
-  	       communication with the target process.
+  	       runs the program under the debugger. the program is
+  	       compiled output: generated TypeScript, or JavaScript
+  	       with source maps. a sourceMapPath names the map of the
+  	       program when it does not sit beside it.
 
   */
 
   private async handleLaunch(args: any): Promise<void> {
 
+    if  (!args || !args.program) {
+      throw new Error('Launch needs a program to run');
+    }
+
+    const cwd     = args.cwd || process.cwd();
+    const program = path.resolve(cwd, args.program);
+
     this.currentContext = {
       languageMode:      args.languageMode || WorldSrcLanguageMode.MIXED_MODE,
       compilationTarget: args.target || WorldSrcCompilationTarget.TYPESCRIPT
     };
 
-    /* load source maps if available */
+    this.program     = program;
+    this.stopOnEntry = !!args.stopOnEntry;
+    this.launched    = true;
+
     if  (args.sourceMapPath) {
-      this.sourceMap = await this.loadSourceMap(args.sourceMapPath);
+      const mapFile = path.resolve(cwd, args.sourceMapPath);
+      this.locateSourceMap = (file) => file === program ? mapFile : file + '.map';
     }
 
-    /* create main thread */
-    const mainThread: Thread = {
-      id:   1,
-      name: 'Main Thread'
+    await this.connect(
+      this.providedRuntime || new InspectorRuntime(),
+      runtime => runtime.launch({ program, args: args.args, env: args.env })
+    );
+
+  }
+
+  /*
+
+           handleAttach()
+  	       ---
+  	       attaches to a program already running with --inspect,
+  	       such as the editor's play-mode runtime. its scripts are
+  	       mapped as they are reported, so breakpoints bind to
+  	       code that was loaded before the attach.
+
+  */
+
+  private async handleAttach(args: any): Promise<void> {
+
+    if  (!args || !args.port) {
+      throw new Error('Attach needs the port of an inspector');
+    }
+
+    this.currentContext = {
+      languageMode:      args.languageMode || WorldSrcLanguageMode.MIXED_MODE,
+      compilationTarget: args.target || WorldSrcCompilationTarget.TYPESCRIPT
     };
 
-    this.threads.set(1, mainThread);
+    this.launched = false;
+
+    await this.connect(
+      this.providedRuntime || new RemoteRuntime(),
+      runtime => runtime.attach({
+        host:   args.host || args.address,
+        port:   args.port,
+        target: args.targetId
+      })
+    );
+
+  }
+
+  /*
+
+           connect()
+  	       ---
+  	       starts a runtime and enables the CDP domains the session
+  	       relies on. node's internals are blackboxed so stepping
+  	       never stops in them.
+
+  */
+
+  private async connect(
+    runtime: DebugRuntime,
+    start:   (runtime: DebugRuntime) => Promise<void>
+  ): Promise<void> {
+
+    if  (this.runtime) {
+      throw new Error('A program is already being debugged');
+    }
+
+    this.runtime    = runtime;
+    this.configured = false;
+
+    runtime.on('event', (method: string, params: any) => this.handleRuntimeEvent(method, params));
+    runtime.on('exit', (code: number | null) => this.handleExit(code));
+    runtime.on('output', (category: string, text: string) => {
+      this.sendEvent('output', { category, output: text });
+    });
+
+    try {
+
+      await start(runtime);
+
+      await runtime.send('Runtime.enable');
+      await runtime.send('Debugger.enable');
+      await runtime.send('Debugger.setBlackboxPatterns', { patterns: ['^node:'] });
+      await runtime.send('Debugger.setPauseOnExceptions', { state: this.exceptionState });
+
+      /* not every runtime can pause before a script runs */
+      await runtime.send('Debugger.setInstrumentationBreakpoint', {
+        instrumentation: 'beforeScriptWithSourceMapExecution'
+      }).catch(() => undefined);
+
+    } catch (error) {
+
+      this.runtime = null;
+      runtime.removeAllListeners();
+      await runtime.close(this.launched).catch(() => undefined);
+      throw error;
 
-    /* emit initialized event */
+    }
+
+    this.threads.set(THREAD_ID, { id: THREAD_ID, name: 'Main Thread' });
     this.sendEvent('initialized');
 
   }
 
+  /* breakpoints are set; a debuggee waiting for us may now start */
+  private async handleConfigurationDone(): Promise<void> {
+
+    this.configured = true;
+
+    if  (!this.runtime) {
+      return;
+    }
+
+    await this.runtime.send('Runtime.runIfWaitingForDebugger');
+
+    if  (this.resumeOnConfigure) {
+      this.resumeOnConfigure = false;
+      await this.runtime.send('Debugger.resume');
+    }
+
+  }
+
   /*
 
            handleSetBreakpoints()
   	       ---
-  	       sets breakpoints in the specified source file.
-  	       verifies breakpoint locations and maps them to
-  	       generated code if necessary.
+  	       replaces the breakpoints of a source file. each one is
+  	       set in every loaded script compiled from the file; the
+  	       rest are verified later, when their code is loaded.
 
   */
 
   private async handleSetBreakpoints(args: any): Promise<any> {
 
     const { source, breakpoints: requestedBreakpoints } = args;
-    const actualBreakpoints: Breakpoint[] = [];
+    const file      = path.resolve(source.path || source.name);
+    const requested = (requestedBreakpoints || []) as SourceBreakpoint[];
+
+    await this.removeBreakpoints(file);
+
+    const actualBreakpoints: Breakpoint[] = requested.map(bp => ({
+      id:       this.nextBreakpointId++,
+      verified: false,
+      message:  'The code of this line has not been loaded',
+      line:     bp.line,
+      column:   bp.column,
+      source:   source
+    }));
+
+    this.requested.set(file, requested);
+    this.breakpoints.set(file, actualBreakpoints);
+
+    for  (const script of this.scripts.values()) {
+      if  (script.getSources().includes(file)) {
+        await this.resolveBreakpoints(script, file, false);
+      }
+    }
 
-    for  (const bp of requestedBreakpoints || []) {
+    return {
+      breakpoints: actualBreakpoints
+    };
 
-      const breakpoint: Breakpoint = {
-        verified: true,
-        line:     bp.line,
-        column:   bp.column,
-        source:   source
-      };
+  }
 
-      /* verify breakpoint location */
-      if  (this.sourceMap) {
-        const mappedLocation = this.mapSourceLocation(source.path, bp.line, bp.column || 0);
-        if  (mappedLocation) {
-          breakpoint.line   = mappedLocation.line;
-          breakpoint.column = mappedLocation.column;
-        }
+  /*
+
+           resolveBreakpoints()
+  	       ---
+  	       sets the requested breakpoints of a source file in one
+  	       script. a breakpoint moves to where the debuggee put
+  	       it; when notify is set the client hears of each one
+  	       verified, since its setBreakpoints has been answered.
+
+  */
+
+  private async resolveBreakpoints(
+    script: MappedScript,
+    file:   string,
+    notify: boolean
+  ): Promise<void> {
+
+    const runtime     = this.runtime;
+    const requested   = this.requested.get(file) || [];
+    const breakpoints = this.breakpoints.get(file) || [];
+
+    if  (!runtime) {
+      return;
+    }
+
+    for  (let i = 0; i < requested.length; i++) {
+
+      const position = script.toScript(file, requested[i].line);
+      if  (!position) {
+        continue;
       }
 
-      actualBreakpoints.push(breakpoint);
+      const result = await runtime.send('Debugger.setBreakpoint', {
+        location: {
+          scriptId:     script.scriptId,
+          lineNumber:   position.line - 1,
+          columnNumber: position.column - 1
+        },
+        condition: breakpointCondition(requested[i])
+      }).catch(() => null);
+
+      if  (!result) {
+        continue;
+      }
+
+      const ids = this.cdpBreakpoints.get(file) || [];
+      ids.push(result.breakpointId);
+      this.cdpBreakpoints.set(file, ids);
+
+      const breakpoint = breakpoints[i];
+      const actual     = script.toSource(
+        result.actualLocation.lineNumber + 1,
+        (result.actualLocation.columnNumber || 0) + 1
+      );
+
+      this.breakpointIds.set(result.breakpointId, breakpoint.id as number);
+
+      if  (breakpoint.verified) {
+        continue;
+      }
+
+      breakpoint.verified = true;
+      breakpoint.line     = actual && actual.path === file ? actual.line : requested[i].line;
+      delete breakpoint.message;
+
+      if  (notify) {
+        this.sendEvent('breakpoint', { reason: 'changed', breakpoint });
+      }
 
     }
 
-    this.breakpoints.set(source.path || source.name, actualBreakpoints);
+  }
 
-    return {
-      breakpoints: actualBreakpoints
-    };
+  private async removeBreakpoints(file: string): Promise<void> {
+
+    const ids = this.cdpBreakpoints.get(file) || [];
+    this.cdpBreakpoints.delete(file);
+
+    for  (const id of ids) {
+
+      this.breakpointIds.delete(id);
+
+      if  (this.runtime) {
+        await this.runtime.send('Debugger.removeBreakpoint', { breakpointId: id })
+          .catch(() => undefined);
+      }
+
+    }
+
+  }
+
+  private async handleSetExceptionBreakpoints(args: any): Promise<void> {
+
+    const filters: string[] = (args && args.filters) || [];
+
+    this.exceptionState = filters.includes('all')
+      ? 'all'
+      : filters.includes('uncaught') ? 'uncaught' : 'none';
+
+    if  (this.runtime) {
+      await this.runtime.send('Debugger.setPauseOnExceptions', { state: this.exceptionState });
+    }
 
   }
 
@@ -584,16 +885,20 @@ export class WorldSrcDebugSession extends EventEmitter {
 
            handleContinue()
   	       ---
-  	       continues execution from the current stopping point.
-  	       resumes all threads and continues until the next
-  	       breakpoint or completion.
+  	       continues execution from the current stopping point
+  	       until the next breakpoint or completion.
 
   */
 
-  private async handleContinue(args: any): Promise<void> {
+  private async handleContinue(args: any): Promise<any> {
+
+    const runtime = this.requireRuntime();
 
-    this.isRunning = true;
-    this.sendEvent('continued', { threadId: args.threadId || 1 });
+    this.step = null;
+    this.resume();
+    await runtime.send('Debugger.resume');
+
+    return { allThreadsContinued: true };
 
   }
 
@@ -601,18 +906,67 @@ export class WorldSrcDebugSession extends EventEmitter {
 
            handlePause()
   	       ---
-  	       pauses execution at the current location.
-  	       interrupts running code and prepares for inspection.
+  	       pauses execution at the current location. the stop is
+  	       reported once the debuggee has paused.
 
   */
 
   private async handlePause(): Promise<void> {
 
-    this.isRunning = false;
-    this.sendEvent('stopped', {
-      reason:   'pause',
-      threadId: 1
-    });
+    const runtime = this.requireRuntime();
+
+    this.step           = null;
+    this.pauseRequested = true;
+    await runtime.send('Debugger.pause');
+
+  }
+
+  private async handleNext(args: any): Promise<void> {
+
+    await this.startStep('Debugger.stepOver');
+
+  }
+
+  private async handleStepIn(args: any): Promise<void> {
+
+    await this.startStep('Debugger.stepInto');
+
+  }
+
+  private async handleStepOut(args: any): Promise<void> {
+
+    await this.startStep('Debugger.stepOut');
+
+  }
+
+  /*
+
+           startStep()
+  	       ---
+  	       steps from the current stop. a WORLDC line compiles to
+  	       one or more generated statements, so the CDP step is
+  	       repeated until execution leaves the line it started on;
+  	       see handlePaused().
+
+  */
+
+  private async startStep(command: StepCommand): Promise<void> {
+
+    const runtime = this.requireRuntime();
+
+    if  (!this.isPaused) {
+      throw new Error('The program is not paused');
+    }
+
+    this.step = {
+      command: command,
+      reason:  'step',
+      origin:  this.locateFrame(this.callFrames[0]),
+      depth:   this.callFrames.length
+    };
+
+    this.resume();
+    await runtime.send(command);
 
   }
 
@@ -621,7 +975,7 @@ export class WorldSrcDebugSession extends EventEmitter {
            handleThreads()
   	       ---
   	       returns list of active threads in the debug target.
-  	       provides thread information for multi-threaded debugging.
+  	       a JavaScript debuggee has the one.
 
   */
 
@@ -637,52 +991,82 @@ export class WorldSrcDebugSession extends EventEmitter {
 
            handleStackTrace()
   	       ---
-  	       provides call stack information for the specified thread.
-  	       maps generated code locations back to source locations
-  	       when source maps are available.
+  	       provides the call stack of the current stop, mapped back
+  	       to the sources the code was compiled from. frames in
+  	       code with no source are shown, but de-emphasized.
 
   */
 
   private async handleStackTrace(args: any): Promise<any> {
 
-    const threadId = args.threadId;
-    const frames   = this.stackFrames.get(threadId) || [];
+    const frames = this.isPaused
+      ? this.callFrames.map((frame, i) => this.toStackFrame(frame, i + 1))
+      : [];
+
+    const start  = (args && args.startFrame) || 0;
+    const levels = (args && args.levels) || frames.length;
 
     return {
-      stackFrames: frames,
+      stackFrames: frames.slice(start, start + levels),
       totalFrames: frames.length
     };
 
   }
 
+  private toStackFrame(frame: any, id: number): StackFrame {
+
+    const name     = frame.functionName || '(module)';
+    const script   = this.scripts.get(frame.location.scriptId);
+    const location = this.locateFrame(frame);
+
+    if  (location) {
+      return {
+        id:     id,
+        name:   name,
+        source: { name: path.basename(location.path), path: location.path },
+        line:   location.line,
+        column: location.column
+      };
+    }
+
+    return {
+      id:               id,
+      name:             name,
+      source:           {
+        name:             (script && script.url) || '<internal>',
+        presentationHint: SourcePresentationHint.DEEMPHASIZE
+      },
+      line:             frame.location.lineNumber + 1,
+      column:           (frame.location.columnNumber || 0) + 1,
+      presentationHint: StackFramePresentationHint.SUBTLE
+    };
+
+  }
+
   /*
 
            handleScopes()
   	       ---
-  	       returns available scopes for the specified stack frame.
-  	       provides access to local variables, parameters, and
-  	       closure variables.
+  	       returns the scopes of a stack frame, innermost first,
+  	       as the debuggee reports them. globals are marked
+  	       expensive so clients do not expand them unasked.
 
   */
 
   private async handleScopes(args: any): Promise<any> {
 
-    const frameId = args.frameId;
+    const frame = this.callFrames[args.frameId - 1];
 
-    const scopes: Scope[] = [
-      {
-        name:               'Locals',
-        presentationHint:   ScopePresentationHint.LOCALS,
-        variablesReference: frameId * 1000 + 1,
-        expensive:          false
-      },
-      {
-        name:               'Arguments',
-        presentationHint:   ScopePresentationHint.ARGUMENTS,
-        variablesReference: frameId * 1000 + 2,
-        expensive:          false
-      }
-    ];
+    if  (!this.isPaused || !frame) {
+      throw new Error(`Unknown stack frame: ${args.frameId}`);
+    }
+
+    const scopes: Scope[] = frame.scopeChain.map((scope: any) => ({
+      name:               SCOPE_NAMES[scope.type] || scope.type,
+      presentationHint:   scope.type === 'local' ? ScopePresentationHint.LOCALS : undefined,
+      variablesReference: this.createHandle(scope.object.objectId),
+      expensive:          scope.type === 'global'
+    }));
 
     return { scopes };
 
@@ -692,16 +1076,29 @@ export class WorldSrcDebugSession extends EventEmitter {
 
            handleVariables()
   	       ---
-  	       returns variables for the specified scope reference.
-  	       provides variable names, values, types, and nested
-  	       object information.
+  	       returns the own properties of a scope or object. each
+  	       object among them gets a reference of its own for the
+  	       client to expand.
 
   */
 
   private async handleVariables(args: any): Promise<any> {
 
-    const variablesReference = args.variablesReference;
-    const variables = this.variables.get(variablesReference) || [];
+    const runtime  = this.requireRuntime();
+    const objectId = this.handles.get(args.variablesReference);
+
+    if  (!objectId) {
+      return { variables: [] };
+    }
+
+    const { result } = await runtime.send('Runtime.getProperties', {
+      objectId:      objectId,
+      ownProperties: true
+    });
+
+    const variables: Variable[] = (result as any[])
+      .filter(property => property.value !== undefined && property.name !== '__proto__')
+      .map(property => this.toVariable(property.name, property.value));
 
     return { variables };
 
@@ -711,124 +1108,443 @@ export class WorldSrcDebugSession extends EventEmitter {
 
            handleEvaluate()
   	       ---
-  	       evaluates expressions in the current debug context.
-  	       supports watch expressions, immediate evaluation,
-  	       and hover evaluations.
+  	       evaluates expressions in the selected frame, or
+  	       globally while the program runs. WORLDC names are kept
+  	       by the compiler, so source expressions mostly work.
 
   */
 
   private async handleEvaluate(args: any): Promise<any> {
 
+    const runtime = this.requireRuntime();
     const { expression, frameId, context } = args;
+    const frame   = this.isPaused ? this.callFrames[(frameId || 1) - 1] : undefined;
+
+    const reply = frame
+      ? await runtime.send('Debugger.evaluateOnCallFrame', {
+          callFrameId: frame.callFrameId,
+          expression:  expression,
+          silent:      context === 'hover'
+        })
+      : await runtime.send('Runtime.evaluate', {
+          expression: expression,
+          silent:     context === 'hover'
+        });
+
+    if  (reply.exceptionDetails) {
+      const exception = reply.exceptionDetails.exception;
+      throw new Error(exception ? exception.description : reply.exceptionDetails.text);
+    }
+
+    const variable = this.toVariable(expression, reply.result);
 
-    /* simplified evaluation */
     return {
-      result:             `<evaluation of "${expression}">`,
-      type:               'string',
-      variablesReference: 0
+      result:             variable.value,
+      type:               variable.type,
+      variablesReference: variable.variablesReference
     };
 
   }
 
+  private async handleTerminate(): Promise<void> {
+
+    const runtime = this.requireRuntime();
+
+    if  (!this.launched) {
+      throw new Error('An attached program is not ours to terminate; disconnect instead');
+    }
+
+    await runtime.close(true);
+
+  }
+
   /*
 
-           sendEvent()
+           handleDisconnect()
   	       ---
-  	       sends debug events to the client. used for
-  	       notifications about execution state changes,
-  	       breakpoint hits, and other debug events.
+  	       ends the session. a launched program is terminated
+  	       unless the client asks otherwise; one that keeps
+  	       running loses its breakpoints and is resumed first.
 
   */
 
-  private sendEvent(event: string, body?: any): void {
+  private async handleDisconnect(args: any): Promise<void> {
 
-    const debugEvent: DebugEvent = {
-      seq:   this.nextSeq++,
-      type:  'event',
-      event: event,
-      body:  body
-    };
+    const runtime = this.runtime;
 
-    this.emit('event', debugEvent);
+    if  (!runtime) {
+      return;
+    }
+
+    const terminate = args && args.terminateDebuggee !== undefined
+      ? !!args.terminateDebuggee
+      : this.launched;
+
+    if  (!terminate) {
+
+      for  (const file of Array.from(this.cdpBreakpoints.keys())) {
+        await this.removeBreakpoints(file);
+      }
+
+      await runtime.send('Debugger.setPauseOnExceptions', { state: 'none' }).catch(() => undefined);
+
+      if  (this.isPaused) {
+        await runtime.send('Debugger.resume').catch(() => undefined);
+      }
+
+    }
+
+    this.runtime = null;
+    runtime.removeAllListeners();
+    this.reset();
+
+    await runtime.close(terminate);
 
   }
 
-  /*
+  private handleRuntimeEvent(method: string, params: any): void {
 
-           loadSourceMap()
-  	       ---
-  	       loads source map data from the specified file.
-  	       parses the source map and prepares it for
-  	       location mapping operations.
+    switch (method) {
 
-  */
+      case 'Debugger.scriptParsed':
+        this.trackLoad(this.loadScript(params));
+        break;
 
-  private async loadSourceMap(sourceMapPath: string): Promise<SourceMapData | null> {
+      case 'Debugger.paused':
+        this.handlePaused(params).catch(error => {
+          this.sendEvent('output', { category: 'console', output: `${error.message}\n` });
+        });
+        break;
 
-    try {
+      case 'Debugger.resumed':
+        this.resume();
+        break;
 
-      const content = fs.readFileSync(sourceMapPath, 'utf8');
-      return JSON.parse(content) as SourceMapData;
+      default:
+        break;
 
-    } catch (error) {
+    }
 
-      return null;
+  }
+
+  /* maps a script and binds the breakpoints of its sources */
+  private async loadScript(params: any): Promise<void> {
+
+    const script = MappedScript.load(
+      params.scriptId,
+      params.url,
+      params.sourceMapURL,
+      this.locateSourceMap
+    );
+
+    this.scripts.set(script.scriptId, script);
 
+    for  (const file of script.getSources()) {
+      if  (this.requested.has(file)) {
+        await this.resolveBreakpoints(script, file, true);
+      }
     }
 
   }
 
+  private trackLoad(load: Promise<void>): void {
+
+    const tracked = load.catch(() => undefined);
+
+    this.loading.add(tracked);
+    tracked.then(() => this.loading.delete(tracked));
+
+  }
+
   /*
 
-           mapSourceLocation()
+           handlePaused()
   	       ---
-  	       maps source file locations to generated code locations
-  	       using source map data. enables accurate debugging
-  	       of transpiled code.
+  	       decides what a pause of the debuggee means. pauses
+  	       before a script runs only wait for its breakpoints. a
+  	       pending step goes on while it is still on the source
+  	       line it started from, or in code without a source;
+  	       anything else is a stop the client is told about.
 
   */
 
-  private mapSourceLocation(
-    sourcePath: string,
-    line:       number,
-    column:     number
-  ): { line: number; column: number } | null {
+  private async handlePaused(params: any): Promise<void> {
+
+    const runtime = this.requireRuntime();
+
+    this.callFrames = params.callFrames;
+
+    if  (params.reason === 'instrumentation') {
+
+      await Promise.all(Array.from(this.loading));
+
+      const script = this.scripts.get(params.data && params.data.scriptId);
+
+      if  (this.stopOnEntry && script && script.path === this.program) {
+        this.stopOnEntry = false;
+        this.step = { command: 'Debugger.stepInto', reason: 'entry', origin: null, depth: 0 };
+        await runtime.send('Debugger.stepInto');
+      } else {
+        await runtime.send('Debugger.resume');
+      }
+
+      return;
+
+    }
+
+    if  (params.reason === 'Break on start') {
+
+      /* held until the client has set its breakpoints */
+      if  (this.configured) {
+        await Promise.all(Array.from(this.loading));
+        await runtime.send('Debugger.resume');
+      } else {
+        this.resumeOnConfigure = true;
+      }
+
+      return;
+
+    }
+
+    const hit = (params.hitBreakpoints || [])
+      .map((id: string) => this.breakpointIds.get(id))
+      .filter((id: number | undefined) => id !== undefined);
+
+    if  (this.step && hit.length === 0) {
+
+      const step     = this.step;
+      const frame    = this.callFrames[0];
+      const location = this.locateFrame(frame);
+
+      if  (!location) {
+
+        /* compiler-added code is stepped through; code of no file is left */
+        const script = this.scripts.get(frame.location.scriptId);
+        const next   = step.reason === 'entry'
+          ? 'Debugger.stepInto'
+          : script && script.path ? step.command : 'Debugger.stepOut';
+
+        await runtime.send(next);
+        return;
+
+      }
+
+      if  (step.origin
+        && location.path === step.origin.path
+        && location.line === step.origin.line
+        && this.callFrames.length === step.depth) {
+
+        await runtime.send(step.command);
+        return;
+
+      }
+
+      this.step = null;
+      this.stop(step.reason);
+      return;
+
+    }
+
+    this.step = null;
+
+    if  (hit.length > 0) {
+      this.stop('breakpoint', { hitBreakpointIds: hit });
+    } else if  (params.reason === 'exception' || params.reason === 'promiseRejection') {
+      this.stop('exception', { text: params.data && params.data.description });
+    } else if  (this.pauseRequested) {
+      this.stop('pause');
+    } else {
+      this.stop('breakpoint');
+    }
+
+  }
+
+  private handleExit(code: number | null): void {
 
-    if  (!this.sourceMap) {
+    const runtime = this.runtime;
+
+    if  (!runtime) {
+      return;
+    }
+
+    this.runtime = null;
+    runtime.removeAllListeners();
+    runtime.close(false).catch(() => undefined);
+    this.reset();
+
+    if  (code !== null) {
+      this.sendEvent('exited', { exitCode: code });
+    }
+
+    this.sendEvent('terminated');
+
+  }
+
+  private stop(reason: string, details?: any): void {
+
+    this.isPaused       = true;
+    this.pauseRequested = false;
+
+    this.sendEvent('stopped', {
+      reason:            reason,
+      threadId:          THREAD_ID,
+      allThreadsStopped: true,
+      ...details
+    });
+
+  }
+
+  /* frames and variable references only live until the program moves */
+  private resume(): void {
+
+    this.isPaused = false;
+    this.handles.clear();
+
+  }
+
+  private reset(): void {
+
+    this.resume();
+
+    this.scripts.clear();
+    this.loading.clear();
+    this.cdpBreakpoints.clear();
+    this.breakpointIds.clear();
+    this.threads.clear();
+    this.callFrames        = [];
+    this.step              = null;
+    this.pauseRequested    = false;
+    this.resumeOnConfigure = false;
+
+    for  (const breakpoints of this.breakpoints.values()) {
+      breakpoints.forEach(breakpoint => breakpoint.verified = false);
+    }
+
+  }
+
+  private requireRuntime(): DebugRuntime {
+
+    if  (!this.runtime) {
+      throw new Error('No program is being debugged');
+    }
+
+    return this.runtime;
+
+  }
+
+  /* the source position of a CDP frame, if it has one */
+  private locateFrame(frame: any): MappedLocation | null {
+
+    const script = frame && this.scripts.get(frame.location.scriptId);
+
+    if  (!script) {
       return null;
     }
 
-    /* simplified source map lookup */
-    /* in a real implementation, this would parse the mappings */
+    return script.toSource(
+      frame.location.lineNumber + 1,
+      (frame.location.columnNumber || 0) + 1
+    );
+
+  }
+
+  private createHandle(objectId: string): number {
+
+    const handle = this.nextHandle++;
+    this.handles.set(handle, objectId);
+
+    return handle;
+
+  }
+
+  private toVariable(name: string, value: any): Variable {
+
+    const expandable = value.type === 'object' && value.subtype !== 'null' && value.objectId;
+
     return {
-      line:   line,
-      column: column
+      name:               name,
+      value:              formatValue(value),
+      type:               value.className || value.subtype || value.type,
+      variablesReference: expandable ? this.createHandle(value.objectId) : 0
     };
 
   }
 
-  /* additional handlers for other debug commands */
+  /*
+
+           sendEvent()
+  	       ---
+  	       sends debug events to the client. used for
+  	       notifications about execution state changes,
+  	       breakpoint hits, and other debug events.
+
+  */
+
+  private sendEvent(event: string, body?: any): void {
+
+    const debugEvent: DebugEvent = {
+      seq:   this.nextSeq++,
+      type:  'event',
+      event: event,
+      body:  body
+    };
+
+    this.emit('event', debugEvent);
 
-  private async handleAttach(args: any): Promise<void> {
-    /* attach to running process */
   }
 
-  private async handleNext(args: any): Promise<void> {
-    /* step over */
+}
+
+/*
+
+         breakpointCondition()
+	       ---
+	       the CDP condition of a DAP breakpoint. a log point is a
+	       condition that logs its message, with {expressions}
+	       filled in, and never stops.
+
+*/
+
+function breakpointCondition(breakpoint: SourceBreakpoint): string | undefined {
+
+  if  (!breakpoint.logMessage) {
+    return breakpoint.condition || undefined;
   }
 
-  private async handleStepIn(args: any): Promise<void> {
-    /* step into */
+  const template = breakpoint.logMessage
+    .split(/(\{[^}]*\})/)
+    .map(part => part.startsWith('{') && part.endsWith('}')
+      ? '${' + part.slice(1, -1) + '}'
+      : part.replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${'))
+    .join('');
+
+  const log = `(console.log(\`${template}\`), false)`;
+
+  return breakpoint.condition ? `(${breakpoint.condition}) && ${log}` : log;
+
+}
+
+/* how a value is shown to the user */
+function formatValue(value: any): string {
+
+  if  (value.type === 'string') {
+    return JSON.stringify(value.value);
   }
 
-  private async handleStepOut(args: any): Promise<void> {
-    /* step out */
+  if  (value.type === 'undefined') {
+    return 'undefined';
   }
 
-  private async handleDisconnect(args: any): Promise<void> {
-    /* disconnect from target */
+  if  (value.unserializableValue !== undefined) {
+    return value.unserializableValue;
   }
 
+  if  (value.value !== undefined && value.type !== 'object') {
+    return String(value.value);
+  }
+
+  return value.description || value.type;
+
 }
 
 /*
@@ -837,13 +1553,30 @@ export class WorldSrcDebugSession extends EventEmitter {
 	====================================================================
 */
 
-export class WorldSrcDebugAdapter {
+/*
+
+         WorldSrcDebugAdapter
+	       ---
+	       speaks DAP over a pair of streams, stdio by default.
+	       messages are framed by a Content-Length header and
+	       requests are handled one at a time, in order. emits
+	       'message' for everything sent and 'event' for events.
+
+*/
+
+export class WorldSrcDebugAdapter extends EventEmitter {
 
   private session: WorldSrcDebugSession;
+  private output:  Writable | null;
+  private queue:   Promise<void>;
 
-  constructor() {
+  constructor(runtime?: DebugRuntime) {
 
-    this.session = new WorldSrcDebugSession();
+    super();
+
+    this.session = new WorldSrcDebugSession(runtime);
+    this.output  = null;
+    this.queue   = Promise.resolve();
     this.setupEventHandlers();
 
   }
@@ -861,11 +1594,81 @@ export class WorldSrcDebugAdapter {
   private setupEventHandlers(): void {
 
     this.session.on('event', (event: DebugEvent) => {
+      this.emit('event', event);
       this.sendMessage(event);
     });
 
   }
 
+  /*
+
+           start()
+  	       ---
+  	       serves a client over the given streams. resolves when
+  	       the client disconnects or its input ends.
+
+  */
+
+  start(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+
+    this.output = output;
+
+    return new Promise(resolve => {
+
+      let buffer = Buffer.alloc(0);
+
+      const finish = () => {
+        input.removeListener('data', onData);
+        input.removeListener('end', finish);
+        this.queue.then(() => resolve());
+      };
+
+      const onData = (chunk: Buffer | string) => {
+
+        buffer = Buffer.concat([buffer, Buffer.from(chunk)]);
+
+        for  (;;) {
+
+          const headerEnd = buffer.indexOf('\r\n\r\n');
+          if  (headerEnd < 0) {
+            return;
+          }
+
+          const header = /Content-Length:\s*(\d+)/i.exec(buffer.subarray(0, headerEnd).toString('ascii'));
+          if  (!header) {
+            /* not a message we can frame; drop the header */
+            buffer = buffer.subarray(headerEnd + 4);
+            continue;
+          }
+
+          const start = headerEnd + 4;
+          const end   = start + parseInt(header[1], 10);
+          if  (buffer.length < end) {
+            return;
+          }
+
+          const message = JSON.parse(buffer.subarray(start, end).toString('utf8'));
+          buffer = buffer.subarray(end);
+
+          this.queue = this.queue
+            .then(() => this.processMessage(message))
+            .then(() => {
+              if  (message.command === 'disconnect') {
+                finish();
+              }
+            });
+
+        }
+
+      };
+
+      input.on('data', onData);
+      input.on('end', finish);
+
+    });
+
+  }
+
   /*
 
            processMessage()
@@ -877,24 +1680,39 @@ export class WorldSrcDebugAdapter {
 
   async processMessage(message: DebugRequest): Promise<void> {
 
+    if  (message.type !== 'request') {
+      return;
+    }
+
     const response = await this.session.handleRequest(message);
     this.sendMessage(response);
 
   }
 
+  /* ends any session still running, as a client disconnecting would */
+  async shutdown(): Promise<void> {
+
+    await this.session.handleRequest({ seq: 0, type: 'request', command: 'disconnect' });
+
+  }
+
   /*
 
            sendMessage()
   	       ---
-  	       sends debug protocol messages to the client.
-  	       handles message serialization and communication.
+  	       sends debug protocol messages to the client, framed
+  	       with their length in bytes.
 
   */
 
   private sendMessage(message: DebugProtocolMessage): void {
 
-    /* in a real implementation, this would send via stdio or socket */
-    console.log(JSON.stringify(message));
+    this.emit('message', message);
+
+    if  (this.output) {
+      const json = JSON.stringify(message);
+      this.output.write(`Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`);
+    }
 
   }
 
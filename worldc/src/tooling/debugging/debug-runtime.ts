@@ -0,0 +1,774 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	====================================================================
+             --- WORLDSRC DEBUG RUNTIMES ---
+	====================================================================
+*/
+
+/*
+
+         debug-runtime.ts
+	       ---
+	       this file connects the debug session to the program being
+	       debugged. a runtime carries Chrome DevTools Protocol (CDP)
+	       commands to the debuggee and its events back; the session
+	       never needs to know how the debuggee was started.
+
+	       the inspector runtime runs a program in a worker of this
+	       process under node's own inspector. the remote runtime
+	       attaches to anything listening with --inspect, such as
+	       the editor's play-mode runtime.
+
+*/
+
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as inspector from 'inspector';
+import * as net from 'net';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+
+/*
+	====================================================================
+             --- RUNTIME TYPES ---
+	====================================================================
+*/
+
+export interface DebugLaunchOptions {
+  program: string;                       /* absolute path of the entry module */
+  args?:   string[];                     /* program arguments */
+  env?:    { [name: string]: string };   /* extra environment variables */
+}
+
+export interface DebugAttachOptions {
+  host?:   string;                       /* inspector host */
+  port:    number;                       /* inspector port */
+  target?: string;                       /* target id or url, else the first */
+}
+
+/*
+
+         DebugRuntime
+	       ---
+	       emits 'event' (method, params) for every CDP event,
+	       'output' (category, text) for what the debuggee prints
+	       and 'exit' (code) once the debuggee is gone.
+
+	       a runtime pauses each module it loads itself right after
+	       the module is parsed, reporting it as an 'instrumentation'
+	       pause on that script, so breakpoints can be set before
+	       any of its code runs.
+
+*/
+
+export interface DebugRuntime extends EventEmitter {
+  launch(options: DebugLaunchOptions): Promise<void>;
+  attach(options: DebugAttachOptions): Promise<void>;
+  send(method: string, params?: any): Promise<any>;
+  close(terminate: boolean): Promise<void>;
+}
+
+interface PendingCommand {
+  resolve: (result: any) => void;
+  reject:  (error: Error) => void;
+}
+
+/*
+	====================================================================
+             --- PROTOCOL RUNTIME ---
+	====================================================================
+*/
+
+export abstract class ProtocolRuntime extends EventEmitter implements DebugRuntime {
+
+  private nextId:   number;
+  private pending:  Map<number, PendingCommand>;
+  private exited:   boolean;
+
+  constructor() {
+
+    super();
+
+    this.nextId  = 1;
+    this.pending = new Map();
+    this.exited  = false;
+
+  }
+
+  abstract launch(options: DebugLaunchOptions): Promise<void>;
+  abstract attach(options: DebugAttachOptions): Promise<void>;
+  abstract close(terminate: boolean): Promise<void>;
+
+  /* carries one serialized CDP message to the debuggee */
+  protected abstract transmit(message: string): void;
+
+  send(method: string, params?: any): Promise<any> {
+
+    if  (this.exited) {
+      return Promise.reject(new Error('The debuggee is not running'));
+    }
+
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.transmit(JSON.stringify({ id, method, params: params || {} }));
+    });
+
+  }
+
+  /*
+
+           receive()
+  	       ---
+  	       takes one serialized CDP message from the debuggee,
+  	       settling the command it answers or passing the event
+  	       on.
+
+  */
+
+  protected receive(message: string): void {
+
+    const data = JSON.parse(message);
+
+    if  (data.id === undefined) {
+      this.dispatch(data.method, data.params || {});
+      return;
+    }
+
+    const command = this.pending.get(data.id);
+    if  (!command) {
+      return;
+    }
+
+    this.pending.delete(data.id);
+
+    if  (data.error) {
+      command.reject(new Error(data.error.message));
+    } else {
+      command.resolve(data.result || {});
+    }
+
+  }
+
+  protected dispatch(method: string, params: any): void {
+
+    this.emit('event', method, params);
+
+  }
+
+  /* fails whatever is still waiting and reports the exit, once */
+  protected finish(code: number | null): void {
+
+    if  (this.exited) {
+      return;
+    }
+
+    this.exited = true;
+
+    for  (const command of this.pending.values()) {
+      command.reject(new Error('The debuggee is not running'));
+    }
+
+    this.pending.clear();
+    this.emit('exit', code);
+
+  }
+
+}
+
+/*
+	====================================================================
+             --- INSPECTOR RUNTIME ---
+	====================================================================
+*/
+
+/*
+	       the worker's entry. it loads modules through loadScript(),
+	       which compiles a module without running it and stops on
+	       the debugger statement, so the module is parsed but none
+	       of it has run. TypeScript, as the compiler generates it,
+	       is transpiled on the way with an inline map.
+*/
+
+const WORKER_BOOTSTRAP = `
+const { workerData } = require('worker_threads');
+const fs = require('fs');
+const path = require('path');
+const vm = require('vm');
+const Module = require('module');
+
+const ts = require(workerData.typescript);
+const loadJavaScript = require.extensions['.js'];
+
+function loadScript(module, filename, code) {
+  const compiled = vm.compileFunction(code, ['exports', 'require', 'module', '__filename', '__dirname'], { filename });
+  debugger;
+  compiled.call(module.exports, module.exports, Module.createRequire(filename), module, filename, path.dirname(filename));
+}
+
+require.extensions['.ts'] = function (module, filename) {
+  const output = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, inlineSourceMap: true }
+  });
+  loadScript(module, filename, output.outputText);
+};
+
+require.extensions['.js'] = function (module, filename) {
+  if (filename.split(path.sep).includes('node_modules')) {
+    return loadJavaScript(module, filename);
+  }
+  loadScript(module, filename, fs.readFileSync(filename, 'utf8').replace(/^#!.*/, ''));
+};
+
+process.argv = [process.execPath, workerData.program, ...workerData.args];
+require(workerData.program);
+`;
+
+/* steps through loadScript() pause there too, but not on this line */
+const LOADER_PAUSE_LINE = WORKER_BOOTSTRAP.split('\n').indexOf('  debugger;');
+
+/*
+
+         InspectorRuntime
+	       ---
+	       runs the program in a worker thread and debugs it through
+	       the inspector of this process. the worker waits for the
+	       debugger before it starts; the session lets it go with
+	       Runtime.runIfWaitingForDebugger.
+
+*/
+
+export class InspectorRuntime extends ProtocolRuntime {
+
+  private session:    inspector.Session | null;
+  private worker:     Worker | null;
+  private sessionId:  string | null;
+  private lastScript: string | null;   /* the module loadScript() just compiled */
+  private bootstrap:  Set<string>;     /* scripts of the worker's entry */
+
+  constructor() {
+
+    super();
+
+    this.session    = null;
+    this.worker     = null;
+    this.sessionId  = null;
+    this.lastScript = null;
+    this.bootstrap  = new Set();
+
+  }
+
+  async launch(options: DebugLaunchOptions): Promise<void> {
+
+    const session = new inspector.Session();
+    session.connect();
+    this.session = session;
+
+    const attached = new Promise<void>(resolve => {
+      session.on('NodeWorker.attachedToWorker', (message: any) => {
+        if  (this.sessionId === null) {
+          this.sessionId = message.params.sessionId;
+          resolve();
+        }
+      });
+    });
+
+    session.on('NodeWorker.receivedMessageFromWorker', (message: any) => {
+      if  (message.params.sessionId === this.sessionId) {
+        this.receive(message.params.message);
+      }
+    });
+
+    await this.post('NodeWorker.enable', { waitForDebuggerOnStart: true });
+
+    const worker = new Worker(WORKER_BOOTSTRAP, {
+      eval:       true,
+      stdout:     true,
+      stderr:     true,
+      env:        { ...process.env, ...options.env },
+      workerData: {
+        program:    path.resolve(options.program),
+        args:       options.args || [],
+        typescript: require.resolve('typescript')
+      }
+    });
+
+    this.worker = worker;
+
+    worker.stdout.on('data', (data: Buffer) => this.emit('output', 'stdout', data.toString()));
+    worker.stderr.on('data', (data: Buffer) => this.emit('output', 'stderr', data.toString()));
+
+    worker.on('error', (error: Error) => {
+      this.emit('output', 'stderr', `${error.stack || error.message}\n`);
+    });
+
+    worker.on('exit', (code: number) => {
+      this.worker = null;
+      this.finish(code);
+    });
+
+    await attached;
+
+  }
+
+  async attach(options: DebugAttachOptions): Promise<void> {
+
+    throw new Error('The inspector runtime only launches programs; attach through a remote runtime');
+
+  }
+
+  async close(terminate: boolean): Promise<void> {
+
+    if  (this.worker && terminate) {
+      await this.worker.terminate();
+    }
+
+    if  (this.session) {
+      this.session.disconnect();
+      this.session = null;
+    }
+
+  }
+
+  protected transmit(message: string): void {
+
+    this.post('NodeWorker.sendMessageToWorker', { sessionId: this.sessionId, message })
+      .catch(() => this.finish(null));
+
+  }
+
+  /*
+
+           dispatch()
+  	       ---
+  	       reports a stop on loadScript()'s debugger statement as
+  	       the instrumentation pause of the module it compiled.
+
+  */
+
+  protected dispatch(method: string, params: any): void {
+
+    if  (method === 'Debugger.scriptParsed') {
+      if  (params.url === '[worker eval]') {
+        this.bootstrap.add(params.scriptId);
+      } else if  (params.url.startsWith('file:')) {
+        this.lastScript = params.scriptId;
+      }
+    }
+
+    if  (method === 'Debugger.paused' && this.isLoaderPause(params)) {
+      params = {
+        ...params,
+        reason: 'instrumentation',
+        data:   { scriptId: this.lastScript }
+      };
+    }
+
+    super.dispatch(method, params);
+
+  }
+
+  private isLoaderPause(params: any): boolean {
+
+    const frame = params.callFrames[0];
+
+    return params.reason === 'other'
+      && frame !== undefined
+      && frame.functionName === 'loadScript'
+      && frame.location.lineNumber === LOADER_PAUSE_LINE
+      && this.bootstrap.has(frame.location.scriptId);
+
+  }
+
+  private post(method: string, params: any): Promise<any> {
+
+    return new Promise((resolve, reject) => {
+
+      if  (!this.session) {
+        reject(new Error('The inspector session is closed'));
+        return;
+      }
+
+      this.session.post(method, params, (error, result) => {
+        error ? reject(error) : resolve(result);
+      });
+
+    });
+
+  }
+
+}
+
+/*
+	====================================================================
+             --- REMOTE RUNTIME ---
+	====================================================================
+*/
+
+/*
+
+         RemoteRuntime
+	       ---
+	       attaches to a process listening with --inspect. the
+	       target comes from the inspector's /json/list and is
+	       talked to over its WebSocket. console output arrives
+	       as Runtime.consoleAPICalled events.
+
+*/
+
+export class RemoteRuntime extends ProtocolRuntime {
+
+  private socket: CdpSocket | null;
+
+  constructor() {
+
+    super();
+
+    this.socket = null;
+
+  }
+
+  async launch(options: DebugLaunchOptions): Promise<void> {
+
+    throw new Error('The remote runtime only attaches; launch through the inspector runtime');
+
+  }
+
+  async attach(options: DebugAttachOptions): Promise<void> {
+
+    const host    = options.host || '127.0.0.1';
+    const targets = await fetchJSON(`http://${host}:${options.port}/json/list`);
+
+    const target = (targets as any[]).find(candidate =>
+      candidate.webSocketDebuggerUrl
+        && (!options.target || candidate.id === options.target || candidate.url === options.target));
+
+    if  (!target) {
+      throw new Error(`No debug target at ${host}:${options.port}`);
+    }
+
+    this.socket = await CdpSocket.connect(target.webSocketDebuggerUrl);
+    this.socket.on('message', (message: string) => this.receive(message));
+    this.socket.on('close', () => this.finish(null));
+
+  }
+
+  /* the debuggee is someone else's process; it is left running */
+  async close(terminate: boolean): Promise<void> {
+
+    if  (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+
+  }
+
+  protected transmit(message: string): void {
+
+    if  (this.socket) {
+      this.socket.send(message);
+    }
+
+  }
+
+  protected dispatch(method: string, params: any): void {
+
+    if  (method === 'Runtime.consoleAPICalled') {
+
+      const text = (params.args || [])
+        .map((arg: any) => arg.value !== undefined ? String(arg.value) : arg.description || arg.type)
+        .join(' ');
+
+      const category = params.type === 'error' || params.type === 'warning' ? 'stderr' : 'stdout';
+      this.emit('output', category, `${text}\n`);
+
+    }
+
+    super.dispatch(method, params);
+
+  }
+
+}
+
+function fetchJSON(url: string): Promise<any> {
+
+  return new Promise((resolve, reject) => {
+
+    http.get(url, response => {
+
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => body += chunk);
+      response.on('end', () => {
+        try {
+          resolve(JSON.parse(body));
+        } catch (error) {
+          reject(new Error(`Invalid reply from ${url}`));
+        }
+      });
+
+    }).on('error', reject);
+
+  });
+
+}
+
+/*
+	====================================================================
+             --- CDP SOCKET ---
+	====================================================================
+*/
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+enum Opcode {
+  CONTINUATION = 0x0,   /* later fragment of a message */
+  TEXT         = 0x1,   /* text message */
+  BINARY       = 0x2,   /* binary message */
+  CLOSE        = 0x8,   /* closing handshake */
+  PING         = 0x9,   /* ping */
+  PONG         = 0xA    /* pong */
+}
+
+/*
+
+         CdpSocket
+	       ---
+	       the client side of a WebSocket, as much of RFC 6455 as
+	       the inspector needs: text messages in either direction,
+	       fragments, pings and the closing handshake. emits
+	       'message' (text) and 'close'.
+
+*/
+
+class CdpSocket extends EventEmitter {
+
+  private socket:    net.Socket;
+  private buffer:    Buffer;
+  private fragments: Buffer[];
+  private closing:   boolean;
+
+  private constructor(socket: net.Socket, head: Buffer) {
+
+    super();
+
+    this.socket    = socket;
+    this.buffer    = Buffer.alloc(0);
+    this.fragments = [];
+    this.closing   = false;
+
+    socket.on('data', (chunk: Buffer) => this.read(chunk));
+    socket.on('close', () => this.emit('close'));
+    socket.on('error', () => socket.destroy());
+
+    if  (head.length > 0) {
+      this.read(head);
+    }
+
+  }
+
+  static connect(url: string): Promise<CdpSocket> {
+
+    const target = new URL(url);
+    const key    = crypto.randomBytes(16).toString('base64');
+    const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+
+    return new Promise((resolve, reject) => {
+
+      const request = http.request({
+        host:    target.hostname,
+        port:    target.port,
+        path:    target.pathname + target.search,
+        headers: {
+          'Connection':            'Upgrade',
+          'Upgrade':               'websocket',
+          'Sec-WebSocket-Key':     key,
+          'Sec-WebSocket-Version': '13'
+        }
+      });
+
+      request.on('upgrade', (response, socket, head) => {
+
+        if  (response.headers['sec-websocket-accept'] !== accept) {
+          socket.destroy();
+          reject(new Error(`Bad WebSocket handshake from ${url}`));
+          return;
+        }
+
+        resolve(new CdpSocket(socket, head));
+
+      });
+
+      request.on('response', response => {
+        reject(new Error(`${url} refused the WebSocket (${response.statusCode})`));
+      });
+
+      request.on('error', reject);
+      request.end();
+
+    });
+
+  }
+
+  send(text: string): void {
+
+    this.write(Opcode.TEXT, Buffer.from(text, 'utf8'));
+
+  }
+
+  close(): void {
+
+    if  (this.closing) {
+      return;
+    }
+
+    const status = Buffer.alloc(2);
+    status.writeUInt16BE(1000);
+
+    this.write(Opcode.CLOSE, status);
+    this.closing = true;
+    this.socket.end();
+
+  }
+
+  /* client frames are always masked */
+  private write(opcode: Opcode, payload: Buffer): void {
+
+    if  (this.closing || this.socket.destroyed) {
+      return;
+    }
+
+    let header: Buffer;
+
+    if  (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, 0x80 | payload.length]);
+    } else if  (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 0x80 | 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 0x80 | 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    const mask   = crypto.randomBytes(4);
+    const masked = Buffer.alloc(payload.length);
+
+    for  (let i = 0; i < payload.length; i++) {
+      masked[i] = payload[i] ^ mask[i & 3];
+    }
+
+    this.socket.write(Buffer.concat([header, mask, masked]));
+
+  }
+
+  /*
+
+           read()
+  	       ---
+  	       takes in bytes from the server and handles every frame
+  	       completed by them; a partial frame waits for more.
+
+  */
+
+  private read(chunk: Buffer): void {
+
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while  (this.buffer.length >= 2) {
+
+      const final  = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if  (length === 126) {
+        if  (this.buffer.length < 4) {
+          return;
+        }
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if  (length === 127) {
+        if  (this.buffer.length < 10) {
+          return;
+        }
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const maskOffset = offset;
+      if  (masked) {
+        offset += 4;
+      }
+
+      if  (this.buffer.length < offset + length) {
+        return;
+      }
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if  (masked) {
+        for  (let i = 0; i < payload.length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i & 3)];
+        }
+      }
+
+      this.buffer = this.buffer.subarray(offset + length);
+      this.handleFrame(opcode, final, payload);
+
+    }
+
+  }
+
+  private handleFrame(opcode: number, final: boolean, payload: Buffer): void {
+
+    switch (opcode) {
+
+      case Opcode.CONTINUATION:
+      case Opcode.TEXT:
+      case Opcode.BINARY:
+        this.fragments.push(payload);
+        if  (final) {
+          const message = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.emit('message', message);
+        }
+        break;
+
+      case Opcode.PING:
+        this.write(Opcode.PONG, payload);
+        break;
+
+      case Opcode.CLOSE:
+        /* answer the server's close with its own status */
+        this.write(Opcode.CLOSE, payload.subarray(0, 2));
+        this.closing = true;
+        this.socket.end();
+        break;
+
+      default:
+        break;
+
+    }
+
+  }
+
+}
+
+/*
+	====================================================================
+             --- EOF ---
+	====================================================================
+*/
@@ -0,0 +1,309 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	====================================================================
+             --- WORLDSRC MAPPED SCRIPTS ---
+	====================================================================
+*/
+
+/*
+
+         mapped-script.ts
+	       ---
+	       this file relates scripts running in a debuggee to the
+	       sources they were compiled from. a script may be mapped
+	       more than once: JavaScript transpiled from generated
+	       TypeScript maps to the TypeScript, whose own map points
+	       back to the WORLDC source.
+
+	       positions are 1-based in lines and columns, as in DAP
+	       and the compiler; CDP positions are converted by the
+	       caller.
+
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+import { SourceMap, SourceMapReader } from '../../codegen/source-map';
+
+/*
+	====================================================================
+             --- MAPPING TYPES ---
+	====================================================================
+*/
+
+export interface ScriptPosition {
+  line:   number;       /* 1-based line */
+  column: number;       /* 1-based column */
+}
+
+export interface MappedLocation extends ScriptPosition {
+  path:   string;       /* absolute source path */
+}
+
+/* finds the map file of a generated file, if it has one */
+export type SourceMapLocator = (file: string) => string;
+
+interface MapLayer {
+  reader:  SourceMapReader;       /* the map of this layer */
+  sources: string[];              /* absolute paths of its sources */
+  inner:   (MapLayer | null)[];   /* the map of each source, if generated too */
+}
+
+/* generated code is mapped through at most this many maps */
+const MAX_MAP_DEPTH = 3;
+
+/*
+	====================================================================
+             --- MAPPED SCRIPT ---
+	====================================================================
+*/
+
+export class MappedScript {
+
+  public readonly scriptId: string;
+  public readonly url:      string;
+  public readonly path:     string | null;   /* null for scripts without a file */
+
+  private layer:            MapLayer | null;
+
+  private constructor(scriptId: string, url: string, file: string | null, layer: MapLayer | null) {
+
+    this.scriptId = scriptId;
+    this.url      = url;
+    this.path     = file;
+    this.layer    = layer;
+
+  }
+
+  /*
+
+           load()
+  	       ---
+  	       creates the mapping of a parsed script. the script's
+  	       own source map comes from its sourceMappingURL, else
+  	       from the map file beside it. packages are left
+  	       unmapped; their maps are not ours to read.
+
+  */
+
+  public static load(
+    scriptId:      string,
+    url:           string,
+    sourceMapURL?: string,
+    locate:        SourceMapLocator = (file) => file + '.map'
+  ): MappedScript {
+
+    const file = toFilePath(url);
+
+    if  (!file || file.split(path.sep).includes('node_modules')) {
+      return new MappedScript(scriptId, url, file, null);
+    }
+
+    let layer: MapLayer | null = null;
+
+    try {
+
+      if  (sourceMapURL) {
+        layer = readLayer(sourceMapURL, path.dirname(file), locate, 1);
+      } else {
+        layer = readLayer(locate(file), null, locate, 1);
+      }
+
+    } catch (error) {
+
+      /* an unreadable map leaves the script unmapped */
+      layer = null;
+
+    }
+
+    return new MappedScript(scriptId, url, file, layer);
+
+  }
+
+  /* the files this script was compiled from; itself when unmapped */
+  public getSources(): string[] {
+
+    if  (!this.layer) {
+      return this.path ? [this.path] : [];
+    }
+
+    return collectSources(this.layer);
+
+  }
+
+  /*
+
+           toSource()
+  	       ---
+  	       maps a position in the script to its source. returns
+  	       null when the script has no file or the position is
+  	       code the compiler added, like a module prelude.
+
+  */
+
+  public toSource(line: number, column: number): MappedLocation | null {
+
+    if  (!this.path) {
+      return null;
+    }
+
+    if  (!this.layer) {
+      return { path: this.path, line, column };
+    }
+
+    return mapToSource(this.layer, line, column);
+
+  }
+
+  /*
+
+           toScript()
+  	       ---
+  	       where the code of a source line starts in the script.
+  	       a line without code of its own moves to the next one
+  	       that has.
+
+  */
+
+  public toScript(sourcePath: string, line: number): ScriptPosition | null {
+
+    const file = path.resolve(sourcePath);
+
+    if  (!this.layer) {
+      return this.path === file ? { line, column: 1 } : null;
+    }
+
+    return mapToScript(this.layer, file, line);
+
+  }
+
+}
+
+/*
+	====================================================================
+             --- MAP LAYERS ---
+	====================================================================
+*/
+
+function readLayer(
+  location:  string,
+  directory: string | null,
+  locate:    SourceMapLocator,
+  depth:     number
+): MapLayer | null {
+
+  let content: string;
+  let base:    string;
+
+  if  (location.startsWith('data:')) {
+
+    /* inline maps name their sources relative to the script */
+    const comma   = location.indexOf(',');
+    const payload = location.slice(comma + 1);
+
+    content = location.slice(0, comma).endsWith(';base64')
+      ? Buffer.from(payload, 'base64').toString('utf8')
+      : decodeURIComponent(payload);
+    base    = directory || process.cwd();
+
+  } else {
+
+    const file = toFilePath(location) || path.resolve(directory || '', location);
+    if  (!fs.existsSync(file)) {
+      return null;
+    }
+
+    content = fs.readFileSync(file, 'utf8');
+    base    = path.dirname(file);
+
+  }
+
+  const map     = JSON.parse(content) as SourceMap;
+  const sources = map.sources.map(source =>
+    toFilePath(source) || path.resolve(base, map.sourceRoot || '', source));
+
+  return {
+    reader:  new SourceMapReader(map),
+    sources: sources,
+    inner:   sources.map(source =>
+      depth < MAX_MAP_DEPTH ? readLayer(locate(source), null, locate, depth + 1) : null)
+  };
+
+}
+
+function collectSources(layer: MapLayer): string[] {
+
+  const sources: string[] = [];
+
+  layer.sources.forEach((source, i) => {
+    const inner = layer.inner[i];
+    sources.push(...(inner ? collectSources(inner) : [source]));
+  });
+
+  return sources;
+
+}
+
+function mapToSource(layer: MapLayer, line: number, column: number): MappedLocation | null {
+
+  /* a position before the first mapping of its line takes the line's first */
+  const original = layer.reader.getOriginalPosition(line, column)
+    || layer.reader.getOriginalPosition(line);
+
+  if  (!original) {
+    return null;
+  }
+
+  const index = layer.reader.map.sources.indexOf(original.source);
+  const inner = layer.inner[index];
+
+  return inner
+    ? mapToSource(inner, original.line, original.column)
+    : { path: layer.sources[index], line: original.line, column: original.column };
+
+}
+
+function mapToScript(layer: MapLayer, file: string, line: number): ScriptPosition | null {
+
+  for  (let i = 0; i < layer.sources.length; i++) {
+
+    const inner = layer.inner[i];
+
+    if  (inner) {
+      const position = mapToScript(inner, file, line);
+      if  (position) {
+        return layer.reader.getGeneratedPosition(i, position.line);
+      }
+    } else if  (layer.sources[i] === file) {
+      return layer.reader.getGeneratedPosition(i, line);
+    }
+
+  }
+
+  return null;
+
+}
+
+/* script urls are file URLs or paths; anything else has no file */
+function toFilePath(url: string): string | null {
+
+  if  (url.startsWith('file:')) {
+    return fileURLToPath(url);
+  }
+
+  return path.isAbsolute(url) ? url : null;
+
+}
+
+/*
+	====================================================================
+             --- EOF ---
+	====================================================================
+*/
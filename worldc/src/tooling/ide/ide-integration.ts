@@ -34,6 +34,7 @@ import { WorldSrcLanguageServer } from '../lsp/language-server';
 import { WorldSrcDebugAdapter } from '../debugging/debug-protocol';
 import { RealtimeCompiler } from '../realtime/realtime-compiler';
 import { CompilationTarget, OptimizationLevel } from '../../codegen';
+import { BraceStyle, format } from '../../formatter/formatter';
 
 /*
 	====================================================================
@@ -96,6 +97,8 @@ export interface FormattingConfig {
   formatter:         FormatterType;            /* formatter type */
   indentSize:        number;                   /* indent size */
   tabSize:           number;                   /* tab size */
+  braceStyle:        BraceStyle;               /* brace placement */
+  maxLineLength:     number;                   /* line length to wrap at */
   insertFinalNewline: boolean;                 /* insert final newline */
   trimTrailingWhitespace: boolean;             /* trim trailing whitespace */
   customRules:       Record<string, any>;     /* custom rules */
@@ -327,6 +330,29 @@ export class WorkspaceManager extends EventEmitter {
 
   }
 
+  /*
+
+           formatSource()
+  	       ---
+  	       formats WORLDSRC source with the workspace formatting
+  	       settings. the source is returned as it is when
+  	       formatting is off or another formatter is configured;
+  	       source that does not parse throws a FormatError.
+
+  */
+
+  formatSource(content: string): string {
+
+    const formatting = this.configuration.formatting;
+
+    if  (!formatting.enabled || formatting.formatter !== FormatterType.BUILTIN) {
+      return content;
+    }
+
+    return format(content, formatting);
+
+  }
+
   /*
 
            getDependencyGraph()
@@ -418,6 +444,8 @@ export class WorkspaceManager extends EventEmitter {
         formatter:             FormatterType.BUILTIN,
         indentSize:            2,
         tabSize:               2,
+        braceStyle:            BraceStyle.SAME_LINE,
+        maxLineLength:         80,
         insertFinalNewline:    true,
         trimTrailingWhitespace: true,
         customRules:           {}
@@ -925,6 +953,8 @@ export class IDEIntegrationManager extends EventEmitter {
       "worldsrc.languageServer.enabled": config.languageServer.enabled,
       "worldsrc.compilation.targets": config.compilation.targets,
       "worldsrc.formatting.indentSize": config.formatting.indentSize,
+      "worldsrc.formatting.braceStyle": config.formatting.braceStyle,
+      "worldsrc.formatting.maxLineLength": config.formatting.maxLineLength,
       "worldsrc.debugging.sourceMaps": config.debugging.sourceMaps
     };
 
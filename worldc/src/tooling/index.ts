@@ -30,6 +30,7 @@ import { EventEmitter } from 'events';
 
 /* LSP components */
 export { WorldSrcLanguageServer } from './lsp/language-server';
+export { LSPConnection } from './lsp/lsp-connection';
 export {
   WorldSrcLanguageMode,
   WorldSrcServerCapabilities,
@@ -40,6 +41,7 @@ export {
   MarkupKind,
   CompletionItemKind,
   DiagnosticSeverity,
+  LSPErrorCode,
 } from './lsp/lsp-types';
 
 /* debugging components */
@@ -72,6 +74,7 @@ export {
   CompilationError,
   CompilationWarning,
   GeneratedFile,
+  FileMetrics,
   ErrorCategory,
   ErrorSeverity,
   WarningCategory,
@@ -702,6 +705,33 @@ export class ToolingConnection extends EventEmitter {
       case 'textDocument/definition':
         return languageServer.definition(params);
 
+      case 'textDocument/prepareRename':
+        return languageServer.prepareRename(params);
+
+      case 'textDocument/rename':
+        return languageServer.rename(params);
+
+      case 'textDocument/formatting':
+        return languageServer.formatting(params);
+
+      case 'textDocument/rangeFormatting':
+        return languageServer.rangeFormatting(params);
+
+      case 'textDocument/codeAction':
+        return languageServer.codeAction(params);
+
+      case 'textDocument/semanticTokens/full':
+        return languageServer.semanticTokensFull(params);
+
+      case 'textDocument/semanticTokens/full/delta':
+        return languageServer.semanticTokensDelta(params);
+
+      case 'textDocument/foldingRange':
+        return languageServer.foldingRange(params);
+
+      case 'workspace/symbol':
+        return languageServer.workspaceSymbol(params);
+
       default:
         throw new Error(`Unsupported LSP method: ${method}`);
     }
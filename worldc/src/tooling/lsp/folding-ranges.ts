@@ -0,0 +1,179 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	====================================================================
+             --- WORLDSRC FOLDING RANGES ---
+	====================================================================
+*/
+
+/*
+
+         folding-ranges.ts
+	       ---
+	       this file finds the ranges of a document an editor can
+	       fold: blocks between braces, which covers namespaces,
+	       classes and function bodies, and comments that span
+	       lines.
+
+	       ranges come from the tokens alone, so a document that
+	       does not parse still folds. a block ends on the line
+	       before its closing brace, which stays visible.
+
+*/
+
+import { Lexer } from '../../lexer/lexer';
+import { Token, TokenType } from '../../lexer/tokens';
+import { FoldingRange, FoldingRangeKind } from './lsp-types';
+
+const OPENING = new Set([
+  TokenType.LEFT_BRACE,
+  TokenType.LEFT_BRACKET,
+  TokenType.LEFT_PAREN,
+]);
+
+const CLOSING = new Set([
+  TokenType.RIGHT_BRACE,
+  TokenType.RIGHT_BRACKET,
+  TokenType.RIGHT_PAREN,
+]);
+
+/* tokens after which a brace opens a block of its own */
+const STATEMENT_ENDS = new Set([
+  TokenType.SEMICOLON,
+  TokenType.LEFT_BRACE,
+  TokenType.RIGHT_BRACE,
+]);
+
+const COMMENTS = new Set([
+  TokenType.SINGLE_LINE_COMMENT,
+  TokenType.MULTI_LINE_COMMENT,
+  TokenType.DOC_COMMENT,
+]);
+
+/*
+
+         buildFoldingRanges()
+	       ---
+	       the folding ranges of a document, in order of their
+	       first line. a document that does not lex has none.
+
+*/
+
+export function buildFoldingRanges(content: string): FoldingRange[] {
+  let tokens: Token[];
+
+  try {
+    tokens = new Lexer(content, { skipComments: false }).tokenize();
+  } catch (error) {
+    return [];
+  }
+
+  /* lines come from offsets; a token spanning lines has the rest wrong */
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  const lineOf = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  };
+
+  const ranges: FoldingRange[] = [];
+  const open: number[] = [];
+  let comments: { start: number; end: number } | null = null;
+
+  const endComments = () => {
+    if (comments && comments.end > comments.start) {
+      ranges.push({
+        startLine: comments.start,
+        endLine: comments.end,
+        kind: FoldingRangeKind.COMMENT,
+      });
+    }
+    comments = null;
+  };
+
+  tokens.forEach((token, i) => {
+    const startLine = lineOf(token.start.offset);
+    const previous = tokens[i - 1];
+    const previousLine = previous ? lineOf(previous.end.offset) : -1;
+
+    if (COMMENTS.has(token.type)) {
+      const endLine = lineOf(
+        Math.max(token.start.offset, token.end.offset - 1)
+      );
+
+      /* a comment after code on its line belongs to that code */
+      if (previousLine === startLine && !COMMENTS.has(previous.type)) {
+        return;
+      }
+
+      if (
+        token.type === TokenType.SINGLE_LINE_COMMENT &&
+        comments &&
+        comments.end === startLine - 1
+      ) {
+        comments.end = startLine;
+      } else {
+        endComments();
+        comments = { start: startLine, end: endLine };
+      }
+      if (token.type !== TokenType.SINGLE_LINE_COMMENT) {
+        endComments();
+      }
+      return;
+    }
+
+    endComments();
+
+    if (OPENING.has(token.type)) {
+      /* a brace on a line of its own folds with the line before it */
+      const continues =
+        !!previous &&
+        previousLine < startLine &&
+        !COMMENTS.has(previous.type) &&
+        !STATEMENT_ENDS.has(previous.type);
+
+      open.push(continues ? previousLine : startLine);
+    } else if (CLOSING.has(token.type) && open.length > 0) {
+      const first = open.pop()!;
+      const last = startLine - 1;
+
+      if (last > first) {
+        ranges.push({ startLine: first, endLine: last });
+      }
+    }
+  });
+
+  /* editors fold one range per line; the outermost is kept */
+  const byLine = new Map<number, FoldingRange>();
+  for (const range of ranges) {
+    const kept = byLine.get(range.startLine);
+    if (!kept || kept.endLine < range.endLine) {
+      byLine.set(range.startLine, range);
+    }
+  }
+
+  return [...byLine.values()].sort((a, b) => a.startLine - b.startLine);
+}
+
+/*
+	====================================================================
+             --- EOF ---
+	====================================================================
+*/
@@ -0,0 +1,185 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	====================================================================
+             --- WORLDSRC FORMATTER ---
+	====================================================================
+*/
+
+/*
+
+         formatter.ts
+	       ---
+	       this file formats WORLDSRC documents for the language
+	       server with the built-in formatter, and turns the
+	       formatted text into the edit a client applies.
+
+	       indentation comes from the client's options. brace
+	       style and line length are not part of the protocol, so
+	       they come from the server's initialization options.
+
+	       a document that does not parse is not formatted.
+
+*/
+
+import {
+  BraceStyle,
+  FormatError,
+  FormatOptions,
+  format,
+  formatRange,
+} from '../../formatter/formatter';
+import { FormattingOptions, Position, Range, TextEdit } from './lsp-types';
+
+/*
+	====================================================================
+             --- FORMATTING ---
+	====================================================================
+*/
+
+/*
+
+         FormattingStyle
+	       ---
+	       the style a client sets in its initialization options
+	       under 'formatting'.
+
+*/
+
+export interface FormattingStyle {
+  braceStyle?: BraceStyle;
+  maxLineLength?: number;
+}
+
+/*
+
+         formatDocument()
+	       ---
+	       the edits that format a document.
+
+*/
+
+export function formatDocument(
+  content: string,
+  options: FormattingOptions,
+  style: FormattingStyle = {}
+): TextEdit[] {
+  return formatWith(content, () =>
+    format(content, toFormatOptions(content, options, style))
+  );
+}
+
+/*
+
+         formatDocumentRange()
+	       ---
+	       the edits that format the lines of a range. the edits
+	       may reach past the range to complete a statement the
+	       range cuts through.
+
+*/
+
+export function formatDocumentRange(
+  content: string,
+  range: Range,
+  options: FormattingOptions,
+  style: FormattingStyle = {}
+): TextEdit[] {
+  /* a range ending at the start of a line leaves that line out */
+  const endLine =
+    range.end.character === 0 && range.end.line > range.start.line
+      ? range.end.line - 1
+      : range.end.line;
+
+  return formatWith(content, () =>
+    formatRange(
+      content,
+      { startLine: range.start.line, endLine },
+      toFormatOptions(content, options, style)
+    )
+  );
+}
+
+function toFormatOptions(
+  content: string,
+  options: FormattingOptions,
+  style: FormattingStyle
+): FormatOptions {
+  return {
+    indentSize: options.tabSize,
+    useTabs: !options.insertSpaces,
+    braceStyle: style.braceStyle,
+    maxLineLength: style.maxLineLength,
+    /* without a preference the document keeps its last line as it is */
+    insertFinalNewline: options.insertFinalNewline ?? content.endsWith('\n'),
+  };
+}
+
+function formatWith(content: string, run: () => string): TextEdit[] {
+  try {
+    return diff(content, run());
+  } catch (error) {
+    if (error instanceof FormatError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/*
+	====================================================================
+             --- EDITS ---
+	====================================================================
+*/
+
+/* one edit replacing the text between the common start and end */
+function diff(before: string, after: string): TextEdit[] {
+  if (before === after) {
+    return [];
+  }
+
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return [
+    {
+      range: {
+        start: positionAt(before, start),
+        end: positionAt(before, before.length - end),
+      },
+      newText: after.slice(start, after.length - end),
+    },
+  ];
+}
+
+function positionAt(text: string, offset: number): Position {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length - 1;
+
+  return { line, character: offset - (before.lastIndexOf('\n') + 1) };
+}
+
+/*
+	====================================================================
+             --- EOF ---
+	====================================================================
+*/
@@ -29,6 +29,7 @@
 import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
 
 import {
   LSPRequest,
@@ -56,13 +57,51 @@ import {
   WorldSrcErrorCategory,
   TextDocumentSyncKind,
   MarkupKind,
+  TextEdit,
+  WorkspaceEdit,
+  PrepareRenameResult,
+  CodeAction,
+  CodeActionKind,
+  SymbolKind,
+  SemanticTokens,
+  SemanticTokensDelta,
+  FoldingRange,
 } from './lsp-types';
 
-import { Lexer } from '../../lexer/lexer';
-import { Parser } from '../../parser/parser';
+import { Lexer, LexerError } from '../../lexer/lexer';
+import { TokenType } from '../../lexer/tokens';
+import { ImportDeclaration } from '../../parser/ast';
+import { Parser, ParseError } from '../../parser/parser';
 import { SimpleSemanticAnalyzer } from '../../semantic/simple-analyzer';
 import { SymbolTable } from '../../semantic/symbol-table';
-import { WorldCErrorHandler } from '../../error/error-handler';
+import { TypeRegistry } from '../../semantic/type-system';
+import { stripPositionPrefix } from '../../semantic/compile-unit';
+import {
+  ModuleHost,
+  ModuleKind,
+  ModuleResolver,
+  SOURCE_EXTENSIONS,
+  fileSystemHost,
+} from '../../semantic/module-resolver';
+import {
+  ErrorType,
+  WorldCError,
+  WorldCErrorHandler,
+  globalErrorHandler,
+} from '../../error/error-handler';
+
+import {
+  FormattingStyle,
+  formatDocument,
+  formatDocumentRange,
+} from './formatter';
+import { buildFoldingRanges } from './folding-ranges';
+import {
+  SEMANTIC_TOKENS_LEGEND,
+  buildSemanticTokens,
+  diffSemanticTokens,
+} from './semantic-tokens';
+import { IndexedSymbol, SymbolIndex } from './symbol-index';
 
 /*
 	====================================================================
@@ -78,9 +117,17 @@ interface DocumentInfo {
   lastParsed: Date /* last parse time */;
   ast?: any /* parsed AST */;
   symbols?: SymbolTable /* symbol table */;
+  index?: SymbolIndex /* names and where they occur */;
+  foldingRanges?: FoldingRange[] /* foldable ranges */;
+  semanticTokens?: SemanticTokens /* tokens last sent, kept for deltas */;
   diagnostics: Diagnostic[] /* current diagnostics */;
 }
 
+interface FileIndex {
+  modified: number /* modification time of the indexed file */;
+  index: SymbolIndex /* its symbol index */;
+}
+
 class DocumentManager {
   private documents: Map<string, DocumentInfo>;
 
@@ -138,6 +185,8 @@ class DocumentManager {
     /* clear previous analysis results */
     doc.ast = undefined;
     doc.symbols = undefined;
+    doc.index = undefined;
+    doc.foldingRanges = undefined;
     doc.diagnostics = [];
 
     this.documents.set(uri, doc);
@@ -262,6 +311,10 @@ export class WorldSrcLanguageServer extends EventEmitter {
   private isInitialized: boolean;
   private capabilities: WorldSrcServerCapabilities =
     {} as WorldSrcServerCapabilities;
+  private workspaceRoots: string[] = [];
+  private fileIndexes: Map<string, FileIndex> = new Map();
+  private formattingStyle: FormattingStyle = {};
+  private semanticTokensId = 0;
 
   constructor() {
     super();
@@ -313,12 +366,19 @@ export class WorldSrcLanguageServer extends EventEmitter {
       workspaceSymbolProvider: true,
 
       codeActionProvider: {
-        codeActionKinds: ['quickfix' as any, 'refactor' as any],
+        codeActionKinds: [CodeActionKind.QUICK_FIX],
       },
 
       documentFormattingProvider: true,
+      documentRangeFormattingProvider: true,
       renameProvider: { prepareProvider: true },
 
+      semanticTokensProvider: {
+        legend: SEMANTIC_TOKENS_LEGEND,
+        full: { delta: true },
+      },
+      foldingRangeProvider: true,
+
       worldSrcExtensions: {
         multiLanguageSupport: true,
         realtimeCompilation: true,
@@ -337,13 +397,24 @@ export class WorldSrcLanguageServer extends EventEmitter {
   	       ---
   	       handles LSP initialize request. sets up the server
   	       and returns capabilities to the client. this is the
-  	       first step in the LSP handshake process.
+  	       first step in the LSP handshake process. the folders
+  	       of the workspace are searched for sources to rename
+  	       in and symbols to find. 'formatting' in the
+  	       initialization options sets the brace style and line
+  	       length used by formatting requests.
 
   */
 
   async initialize(params: any): Promise<any> {
     this.isInitialized = true;
 
+    const roots: (string | null)[] = params?.workspaceFolders
+      ? params.workspaceFolders.map((folder: any) => toFilePath(folder.uri))
+      : [params?.rootUri ? toFilePath(params.rootUri) : params?.rootPath];
+
+    this.workspaceRoots = roots.filter((root): root is string => !!root);
+    this.formattingStyle = params?.initializationOptions?.formatting ?? {};
+
     return {
       capabilities: this.capabilities,
       serverInfo: {
@@ -642,13 +713,293 @@ export class WorldSrcLanguageServer extends EventEmitter {
     return this.buildDocumentSymbols(doc);
   }
 
+  /*
+
+           prepareRename()
+  	       ---
+  	       checks that the cursor is on a name that can be
+  	       renamed and returns its range. keywords, literals and
+  	       names declared outside the workspace cannot be.
+
+  */
+
+  async prepareRename(params: any): Promise<PrepareRenameResult | null> {
+    const { textDocument, position } = params;
+
+    const doc = this.documentManager.get(textDocument.uri);
+
+    if (!doc) {
+      return null;
+    }
+
+    const occurrence = this.getIndex(doc).occurrenceAt(position);
+
+    if (!occurrence) {
+      return null;
+    }
+
+    return {
+      range: occurrence.range,
+      placeholder: getText(doc.content, occurrence.range),
+    };
+  }
+
+  /*
+
+           rename()
+  	       ---
+  	       renames the symbol under the cursor everywhere it is
+  	       named. locals are renamed in their own document only;
+  	       other symbols in every open document and every source
+  	       of the workspace, following imports between them.
+
+  */
+
+  async rename(params: any): Promise<WorkspaceEdit | null> {
+    const { textDocument, position, newName } = params;
+
+    const doc = this.documentManager.get(textDocument.uri);
+
+    if (!doc) {
+      return null;
+    }
+
+    const index = this.getIndex(doc);
+    const occurrence = index.occurrenceAt(position);
+
+    if (!occurrence) {
+      throw new Error('No symbol to rename at this position');
+    }
+
+    if (!isIdentifier(newName)) {
+      throw new Error(`'${newName}' is not a valid name`);
+    }
+
+    const symbol = index.getSymbol(occurrence.key);
+    const indexes = symbol?.isLocal ? [index] : this.getWorkspaceIndexes();
+    const changes: { [uri: string]: TextEdit[] } = {};
+
+    for (const candidate of indexes) {
+      const edits = candidate
+        .occurrencesOf(occurrence.key)
+        .map((found) => ({ range: found.range, newText: newName }));
+
+      if (edits.length > 0) {
+        changes[candidate.uri] = edits;
+      }
+    }
+
+    return { changes };
+  }
+
+  /*
+
+           workspaceSymbol()
+  	       ---
+  	       finds the symbols of the workspace whose names contain
+  	       the letters of the query in order, ignoring case.
+  	       locals are not listed.
+
+  */
+
+  async workspaceSymbol(params: any): Promise<SymbolInformation[]> {
+    const query = (params?.query || '').toLowerCase();
+    const results: SymbolInformation[] = [];
+
+    for (const index of this.getWorkspaceIndexes()) {
+      for (const symbol of index.symbols) {
+        if (symbol.isLocal || !matchesQuery(symbol.name, query)) {
+          continue;
+        }
+
+        results.push({
+          name: symbol.name,
+          kind: symbol.kind,
+          location: { uri: symbol.uri, range: symbol.range },
+          containerName: symbol.containerName,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /*
+
+           formatting()
+  	       ---
+  	       formats a whole document with the client's options.
+
+  */
+
+  async formatting(params: any): Promise<TextEdit[]> {
+    const { textDocument, options } = params;
+
+    const doc = this.documentManager.get(textDocument.uri);
+
+    if (!doc) {
+      return [];
+    }
+
+    return formatDocument(doc.content, options, this.formattingStyle);
+  }
+
+  /*
+
+           rangeFormatting()
+  	       ---
+  	       formats the lines of a range with the client's options.
+
+  */
+
+  async rangeFormatting(params: any): Promise<TextEdit[]> {
+    const { textDocument, range, options } = params;
+
+    const doc = this.documentManager.get(textDocument.uri);
+
+    if (!doc) {
+      return [];
+    }
+
+    return formatDocumentRange(
+      doc.content,
+      range,
+      options,
+      this.formattingStyle
+    );
+  }
+
+  /*
+
+           semanticTokensFull()
+  	       ---
+  	       classifies the names of a document: symbols by their
+  	       kind, wherever they are declared, and built-in and
+  	       engine names as the default library. the result is
+  	       kept so the next request can ask for a delta.
+
+  */
+
+  async semanticTokensFull(params: any): Promise<SemanticTokens> {
+    const doc = this.documentManager.get(params.textDocument.uri);
+
+    if (!doc) {
+      return { data: [] };
+    }
+
+    doc.semanticTokens = {
+      resultId: String(++this.semanticTokensId),
+      data: this.getSemanticTokens(doc),
+    };
+    return doc.semanticTokens;
+  }
+
+  /*
+
+           semanticTokensDelta()
+  	       ---
+  	       the edits from the tokens sent before to the tokens of
+  	       now. tokens the server no longer holds are sent whole.
+
+  */
+
+  async semanticTokensDelta(
+    params: any
+  ): Promise<SemanticTokens | SemanticTokensDelta> {
+    const doc = this.documentManager.get(params.textDocument.uri);
+
+    if (!doc) {
+      return { edits: [] };
+    }
+
+    const previous = doc.semanticTokens;
+    if (!previous || previous.resultId !== params.previousResultId) {
+      return this.semanticTokensFull(params);
+    }
+
+    const data = this.getSemanticTokens(doc);
+    doc.semanticTokens = {
+      resultId: String(++this.semanticTokensId),
+      data,
+    };
+
+    return {
+      resultId: doc.semanticTokens.resultId,
+      edits: diffSemanticTokens(previous.data, data),
+    };
+  }
+
+  /*
+
+           foldingRange()
+  	       ---
+  	       the blocks, namespaces and comments of a document that
+  	       can be folded, found once after each change.
+
+  */
+
+  async foldingRange(params: any): Promise<FoldingRange[]> {
+    const doc = this.documentManager.get(params.textDocument.uri);
+
+    if (!doc) {
+      return [];
+    }
+
+    if (!doc.foldingRanges) {
+      doc.foldingRanges = buildFoldingRanges(doc.content);
+    }
+    return doc.foldingRanges;
+  }
+
+  /*
+
+           codeAction()
+  	       ---
+  	       offers quick fixes for the diagnostics in the
+  	       requested range: a missing semicolon is inserted, an
+  	       undeclared identifier is declared and an unknown type
+  	       is replaced with the known types closest to it.
+
+  */
+
+  async codeAction(params: any): Promise<CodeAction[]> {
+    const { textDocument, context } = params;
+
+    const doc = this.documentManager.get(textDocument.uri);
+
+    if (!doc) {
+      return [];
+    }
+
+    /* the empty kind asks for actions of every kind */
+    const only: CodeActionKind[] | undefined = context?.only;
+    if (
+      only &&
+      !only.some(
+        (kind) =>
+          kind === CodeActionKind.EMPTY || kind === CodeActionKind.QUICK_FIX
+      )
+    ) {
+      return [];
+    }
+
+    const actions: CodeAction[] = [];
+
+    for (const diagnostic of context?.diagnostics || []) {
+      actions.push(...this.getQuickFixes(doc, diagnostic));
+    }
+
+    return actions;
+  }
+
   /*
 
            analyzeDocument()
   	       ---
   	       performs complete analysis of a document including
   	       lexing, parsing, and semantic analysis. generates
-  	       diagnostics and updates symbol information.
+  	       diagnostics from the errors the analysis reports and
+  	       updates symbol information.
 
   */
 
@@ -659,6 +1010,9 @@ export class WorldSrcLanguageServer extends EventEmitter {
       return;
     }
 
+    const errorsBefore = globalErrorHandler.getErrors().length;
+    const warningsBefore = globalErrorHandler.getWarnings().length;
+
     try {
       /* tokenize the source code */
       this.lexer = new Lexer(doc.content, {});
@@ -670,35 +1024,58 @@ export class WorldSrcLanguageServer extends EventEmitter {
 
       /* perform semantic analysis */
       doc.symbols = new SymbolTable();
-      const analysisResult = this.analyzer.analyze(doc.ast);
-
-      /* generate diagnostics */
-      doc.diagnostics = this.generateDiagnostics(analysisResult, doc);
-
-      /* publish diagnostics to client */
-      this.emit('publishDiagnostics', {
-        uri: doc.uri,
-        diagnostics: doc.diagnostics,
-      });
+      this.analyzer.analyze(doc.ast);
     } catch (error: any) {
-      /* handle analysis errors */
-      const diagnostic: Diagnostic = {
-        range: {
-          start: { line: 0, character: 0 },
-          end: { line: 0, character: 0 },
-        },
-        severity: DiagnosticSeverity.ERROR,
-        message: `Analysis failed: ${error.message}`,
-        source: 'worldsrc-lsp',
-      };
+      if (error instanceof LexerError) {
+        globalErrorHandler.reportLexicalError(
+          stripPositionPrefix(error.message),
+          { line: error.position.line, column: error.position.column }
+        );
+      } else if (error instanceof ParseError) {
+        globalErrorHandler.reportSyntaxError(
+          stripPositionPrefix(error.message),
+          {
+            line: error.token.start.line,
+            column: error.token.start.column,
+            length: Math.max(
+              1,
+              error.token.end.offset - error.token.start.offset
+            ),
+          }
+        );
+      } else {
+        /* handle analysis errors */
+        const diagnostic: Diagnostic = {
+          range: {
+            start: { line: 0, character: 0 },
+            end: { line: 0, character: 0 },
+          },
+          severity: DiagnosticSeverity.ERROR,
+          message: `Analysis failed: ${error.message}`,
+          source: 'worldsrc-lsp',
+        };
 
-      doc.diagnostics = [diagnostic];
+        doc.diagnostics = [diagnostic];
 
-      this.emit('publishDiagnostics', {
-        uri: doc.uri,
-        diagnostics: doc.diagnostics,
-      });
+        this.emit('publishDiagnostics', {
+          uri: doc.uri,
+          diagnostics: doc.diagnostics,
+        });
+        return;
+      }
     }
+
+    /* generate diagnostics */
+    doc.diagnostics = this.generateDiagnostics(
+      globalErrorHandler.getErrors().slice(errorsBefore),
+      globalErrorHandler.getWarnings().slice(warningsBefore)
+    );
+
+    /* publish diagnostics to client */
+    this.emit('publishDiagnostics', {
+      uri: doc.uri,
+      diagnostics: doc.diagnostics,
+    });
   }
 
   /*
@@ -803,46 +1180,42 @@ export class WorldSrcLanguageServer extends EventEmitter {
 
            generateDiagnostics()
   	       ---
-  	       converts analysis results into LSP diagnostic format.
-  	       creates comprehensive error and warning information
-  	       with actionable suggestions.
+  	       converts the errors and warnings of an analysis into
+  	       LSP diagnostic format, keeping the suggestion of each
+  	       as an actionable hint.
 
   */
 
   private generateDiagnostics(
-    analysisResult: any,
-    doc: DocumentInfo
+    errors: WorldCError[],
+    warnings: WorldCError[]
   ): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
 
-    if (analysisResult.errors) {
-      for (const error of analysisResult.errors) {
-        diagnostics.push({
-          range: this.convertToLSPRange(error.location),
-          severity: DiagnosticSeverity.ERROR,
-          message: error.message,
-          source: 'worldsrc-lsp',
-          data: {
-            errorCategory: WorldSrcErrorCategory.SEMANTIC_ERROR,
-            suggestions: error.suggestions || [],
-          } as WorldSrcDiagnosticData,
-        });
-      }
+    for (const error of errors) {
+      diagnostics.push({
+        range: this.convertToLSPRange(error.location),
+        severity: DiagnosticSeverity.ERROR,
+        message: error.message,
+        source: 'worldsrc-lsp',
+        data: {
+          errorCategory: getErrorCategory(error),
+          suggestions: error.suggestion ? [error.suggestion] : [],
+        } as WorldSrcDiagnosticData,
+      });
     }
 
-    if (analysisResult.warnings) {
-      for (const warning of analysisResult.warnings) {
-        diagnostics.push({
-          range: this.convertToLSPRange(warning.location),
-          severity: DiagnosticSeverity.WARNING,
-          message: warning.message,
-          source: 'worldsrc-lsp',
-          data: {
-            errorCategory: WorldSrcErrorCategory.PERFORMANCE_WARNING,
-            suggestions: warning.suggestions || [],
-          } as WorldSrcDiagnosticData,
-        });
-      }
+    for (const warning of warnings) {
+      diagnostics.push({
+        range: this.convertToLSPRange(warning.location),
+        severity: DiagnosticSeverity.WARNING,
+        message: warning.message,
+        source: 'worldsrc-lsp',
+        data: {
+          errorCategory: WorldSrcErrorCategory.PERFORMANCE_WARNING,
+          suggestions: warning.suggestion ? [warning.suggestion] : [],
+        } as WorldSrcDiagnosticData,
+      });
     }
 
     return diagnostics;
@@ -873,11 +1246,344 @@ export class WorldSrcLanguageServer extends EventEmitter {
     return resultLines.join('\n');
   }
 
+  /* compiler locations are 1-based and span one line */
   private convertToLSPRange(location: any): Range {
+    const line = Math.max(0, (location?.line || 1) - 1);
+    const character = Math.max(0, (location?.column || 1) - 1);
+
+    return {
+      start: { line, character },
+      end: { line, character: character + (location?.length || 1) },
+    };
+  }
+
+  /*
+
+           getIndex()
+  	       ---
+  	       the symbol index of an open document, built when first
+  	       needed after each change.
+
+  */
+
+  private getIndex(doc: DocumentInfo): SymbolIndex {
+    if (!doc.index) {
+      doc.index = SymbolIndex.build(doc.uri, doc.content, (source) =>
+        this.resolveImport(doc.uri, source)
+      );
+    }
+
+    return doc.index;
+  }
+
+  /*
+
+           getWorkspaceIndexes()
+  	       ---
+  	       indexes of every open document and of every source in
+  	       the workspace folders. an open document stands for its
+  	       file; files are indexed again once they change on disk.
+
+  */
+
+  private getWorkspaceIndexes(): SymbolIndex[] {
+    const documents = this.documentManager.getAllDocuments();
+    const openFiles = new Set(documents.map((doc) => toFilePath(doc.uri)));
+    const indexes = documents.map((doc) => this.getIndex(doc));
+
+    for (const file of this.findWorkspaceSources()) {
+      if (!openFiles.has(file)) {
+        indexes.push(this.getFileIndex(file));
+      }
+    }
+
+    return indexes;
+  }
+
+  private getFileIndex(file: string): SymbolIndex {
+    const modified = fs.statSync(file).mtimeMs;
+    const cached = this.fileIndexes.get(file);
+
+    if (cached && cached.modified === modified) {
+      return cached.index;
+    }
+
+    const uri = pathToFileURL(file).href;
+    const index = SymbolIndex.build(
+      uri,
+      fs.readFileSync(file, 'utf8'),
+      (source) => this.resolveImport(uri, source)
+    );
+
+    this.fileIndexes.set(file, { modified, index });
+    return index;
+  }
+
+  /*
+
+           findIndexedSymbol()
+  	       ---
+  	       a symbol by its key, from the index of the document
+  	       that declares it: the open document, or else the file
+  	       on disk.
+
+  */
+
+  private findIndexedSymbol(key: string): IndexedSymbol | undefined {
+    const separator = key.search(/[#@]/);
+    if (separator < 0) {
+      return undefined;
+    }
+
+    const uri = key.slice(0, separator);
+    const doc = this.documentManager.get(uri);
+
+    if (doc) {
+      return this.getIndex(doc).getSymbol(key);
+    }
+
+    const file = toFilePath(uri);
+    if (!file || !fs.existsSync(file)) {
+      return undefined;
+    }
+    return this.getFileIndex(file).getSymbol(key);
+  }
+
+  private getSemanticTokens(doc: DocumentInfo): number[] {
+    /* a document that does not parse still highlights built-in names */
+    return buildSemanticTokens(
+      this.getIndex(doc),
+      doc.symbols ?? new SymbolTable(),
+      (key) => this.findIndexedSymbol(key)
+    );
+  }
+
+  private findWorkspaceSources(): string[] {
+    const sources: string[] = [];
+
+    const visit = (directory: string): void => {
+      let entries: fs.Dirent[];
+
+      try {
+        entries = fs.readdirSync(directory, { withFileTypes: true });
+      } catch (error) {
+        return;
+      }
+
+      for (const entry of entries) {
+        const file = path.join(directory, entry.name);
+
+        if (entry.isDirectory()) {
+          /* packages and hidden directories are not the workspace's */
+          if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+            visit(file);
+          }
+        } else if (SOURCE_EXTENSIONS.includes(path.extname(entry.name))) {
+          sources.push(file);
+        }
+      }
+    };
+
+    this.workspaceRoots.forEach(visit);
+    return [...new Set(sources)];
+  }
+
+  /*
+
+           resolveImport()
+  	       ---
+  	       the URI of the project source an import names, read
+  	       through the open documents. packages and external
+  	       modules are not the workspace's to rename.
+
+  */
+
+  private resolveImport(fromUri: string, source: string): string | null {
+    const file = toFilePath(fromUri);
+
+    if (!file) {
+      return null;
+    }
+
+    const host = this.getModuleHost();
+    const resolver = new ModuleResolver(
+      ModuleResolver.findProjectRoot(file, host),
+      host
+    );
+    const module = resolver.resolve(source, file);
+
+    if (!module || module.kind !== ModuleKind.PROJECT || !module.path) {
+      return null;
+    }
+
+    const open = this.findOpenDocument(module.path);
+    return open ? open.uri : pathToFileURL(module.path).href;
+  }
+
+  private getModuleHost(): ModuleHost {
     return {
-      start: { line: location.line || 0, character: location.column || 0 },
-      end: { line: location.endLine || 0, character: location.endColumn || 0 },
+      fileExists: (file) =>
+        !!this.findOpenDocument(file) || fileSystemHost.fileExists(file),
+      readFile: (file) =>
+        this.findOpenDocument(file)?.content ?? fileSystemHost.readFile(file),
+    };
+  }
+
+  private findOpenDocument(file: string): DocumentInfo | undefined {
+    const resolved = path.resolve(file);
+
+    return this.documentManager
+      .getAllDocuments()
+      .find((doc) => toFilePath(doc.uri) === resolved);
+  }
+
+  /*
+
+           getQuickFixes()
+  	       ---
+  	       the fixes for one diagnostic, recognized by its
+  	       message.
+
+  */
+
+  private getQuickFixes(
+    doc: DocumentInfo,
+    diagnostic: Diagnostic
+  ): CodeAction[] {
+    if (/^Expected ';'/.test(diagnostic.message)) {
+      return this.getSemicolonFixes(doc, diagnostic);
+    }
+
+    const undefinedName = /^Undefined identifier '(.+)'$/.exec(
+      diagnostic.message
+    );
+    if (undefinedName) {
+      return this.getDeclarationFixes(doc, diagnostic, undefinedName[1]);
+    }
+
+    const unknownType = /^Unknown type '(.+)'$/.exec(diagnostic.message);
+    if (unknownType) {
+      return this.getTypeFixes(doc, diagnostic, unknownType[1]);
+    }
+
+    return [];
+  }
+
+  /* the semicolon goes after the token before the one found instead */
+  private getSemicolonFixes(
+    doc: DocumentInfo,
+    diagnostic: Diagnostic
+  ): CodeAction[] {
+    const { start } = diagnostic.range;
+    const previous = this.getIndex(doc)
+      .tokens.filter(
+        (token) =>
+          token.type !== TokenType.EOF &&
+          (token.end.line - 1 < start.line ||
+            (token.end.line - 1 === start.line &&
+              token.end.column - 1 <= start.character))
+      )
+      .pop();
+
+    if (!previous) {
+      return [];
+    }
+
+    const position = {
+      line: previous.end.line - 1,
+      character: previous.end.column - 1,
     };
+
+    return [
+      createQuickFix(doc.uri, "Insert missing ';'", diagnostic, true, {
+        range: { start: position, end: position },
+        newText: ';',
+      }),
+    ];
+  }
+
+  /* a declaration on the line before the statement using the name */
+  private getDeclarationFixes(
+    doc: DocumentInfo,
+    diagnostic: Diagnostic,
+    name: string
+  ): CodeAction[] {
+    const line = diagnostic.range.start.line;
+    const text = doc.content.split('\n')[line] || '';
+    const indent = /^\s*/.exec(text)![0];
+    const keyword =
+      doc.languageMode === WorldSrcLanguageMode.TYPESCRIPT_MODE
+        ? 'let'
+        : 'auto';
+    const position = { line, character: 0 };
+
+    return [
+      createQuickFix(doc.uri, `Declare '${name}'`, diagnostic, true, {
+        range: { start: position, end: position },
+        newText: `${indent}${keyword} ${name};\n`,
+      }),
+    ];
+  }
+
+  /*
+
+           getTypeFixes()
+  	       ---
+  	       replaces an unknown type with the closest names among
+  	       the built-in types and the types the document declares
+  	       or imports, nearest first.
+
+  */
+
+  private getTypeFixes(
+    doc: DocumentInfo,
+    diagnostic: Diagnostic,
+    name: string
+  ): CodeAction[] {
+    const index = this.getIndex(doc);
+    const candidates = new Set(new TypeRegistry().getAllTypes().keys());
+
+    for (const symbol of index.symbols) {
+      if (TYPE_SYMBOL_KINDS.includes(symbol.kind)) {
+        candidates.add(symbol.name);
+      }
+    }
+    for (const decl of index.ast?.declarations || []) {
+      if (decl instanceof ImportDeclaration) {
+        decl.specifiers.forEach((specifier) => candidates.add(specifier.local));
+      }
+    }
+
+    const limit = Math.max(1, Math.floor(name.length / 3));
+    const { start } = diagnostic.range;
+    const range = {
+      start,
+      end: { line: start.line, character: start.character + name.length },
+    };
+
+    return [...candidates]
+      .map((candidate) => ({
+        candidate,
+        distance: editDistance(name, candidate),
+      }))
+      .filter(({ distance }) => distance > 0 && distance <= limit)
+      .sort(
+        (a, b) =>
+          a.distance - b.distance || a.candidate.localeCompare(b.candidate)
+      )
+      .slice(0, MAX_TYPE_SUGGESTIONS)
+      .map(({ candidate }, i) =>
+        createQuickFix(
+          doc.uri,
+          `Change to '${candidate}'`,
+          diagnostic,
+          i === 0,
+          {
+            range,
+            newText: candidate,
+          }
+        )
+      );
   }
 
   private getSemanticContext(
@@ -952,6 +1658,129 @@ export class WorldSrcLanguageServer extends EventEmitter {
   }
 }
 
+/*
+	====================================================================
+             --- HELPERS ---
+	====================================================================
+*/
+
+/* types offered in place of an unknown one */
+const TYPE_SYMBOL_KINDS = [
+  SymbolKind.CLASS,
+  SymbolKind.STRUCT,
+  SymbolKind.INTERFACE,
+  SymbolKind.ENUM,
+  SymbolKind.TYPE_PARAMETER,
+];
+
+const MAX_TYPE_SUGGESTIONS = 3;
+
+function toFilePath(uri: string): string | null {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : null;
+}
+
+function getText(content: string, range: Range): string {
+  const line = content.split('\n')[range.start.line] || '';
+  return line.slice(range.start.character, range.end.character);
+}
+
+/* a name is valid when it lexes as a single identifier */
+function isIdentifier(name: string): boolean {
+  try {
+    const tokens = new Lexer(name, {}).tokenize();
+    return (
+      tokens.length === 2 &&
+      tokens[0].type === TokenType.IDENTIFIER &&
+      tokens[0].value === name
+    );
+  } catch (error) {
+    return false;
+  }
+}
+
+/* the letters of the query appear in the name in order */
+function matchesQuery(name: string, query: string): boolean {
+  const lower = name.toLowerCase();
+  let from = 0;
+
+  for (const char of query) {
+    from = lower.indexOf(char, from) + 1;
+    if (from === 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function getErrorCategory(error: WorldCError): WorldSrcErrorCategory {
+  switch (error.type) {
+    case ErrorType.LEXICAL_ERROR:
+    case ErrorType.SYNTAX_ERROR:
+      return WorldSrcErrorCategory.SYNTAX_ERROR;
+    case ErrorType.TYPE_ERROR:
+      return WorldSrcErrorCategory.TYPE_ERROR;
+    case ErrorType.COMPILATION_ERROR:
+      return WorldSrcErrorCategory.COMPILATION_ERROR;
+    default:
+      return WorldSrcErrorCategory.SEMANTIC_ERROR;
+  }
+}
+
+function createQuickFix(
+  uri: string,
+  title: string,
+  diagnostic: Diagnostic,
+  isPreferred: boolean,
+  edit: TextEdit
+): CodeAction {
+  return {
+    title,
+    kind: CodeActionKind.QUICK_FIX,
+    diagnostics: [diagnostic],
+    isPreferred,
+    edit: { changes: { [uri]: [edit] } },
+  };
+}
+
+/*
+
+         editDistance()
+	       ---
+	       edits between two names, where swapping two adjacent
+	       letters counts as one edit: 'flaot' is one edit from
+	       'float', as 'point' is from 'Point'.
+
+*/
+
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i].push(j);
+        continue;
+      }
+
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, rows[i - 2][j - 2] + 1);
+      }
+
+      rows[i].push(distance);
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
 /*
 	====================================================================
              --- EOF ---
@@ -0,0 +1,353 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	====================================================================
+             --- WORLDSRC LSP CONNECTION ---
+	====================================================================
+*/
+
+/*
+
+         lsp-connection.ts
+	       ---
+	       this file connects the language server to a client over
+	       a pair of streams. messages are JSON-RPC 2.0, framed by
+	       a Content-Length header as the protocol requires.
+
+	       requests and notifications are handled one at a time in
+	       the order they arrive, so a document change is always
+	       applied before the requests sent after it. cancellation
+	       is handled as soon as it arrives: a cancelled request
+	       that has not answered yet answers with an error.
+
+*/
+
+import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
+
+import {
+  LSPErrorCode,
+  LSPNotification,
+  LSPRequest,
+  LSPResponse,
+} from './lsp-types';
+import { WorldSrcLanguageServer } from './language-server';
+
+/*
+	====================================================================
+             --- METHODS ---
+	====================================================================
+*/
+
+type Handler = (server: WorldSrcLanguageServer, params: any) => any;
+
+const REQUESTS: { [method: string]: Handler } = {
+  initialize: (server, params) => server.initialize(params),
+  shutdown: (server) => server.shutdown().then(() => null),
+  'textDocument/completion': (server, params) => server.completion(params),
+  /* completion items are sent complete, so resolving returns them as is */
+  'completionItem/resolve': (_server, item) => item,
+  'textDocument/hover': (server, params) => server.hover(params),
+  'textDocument/signatureHelp': (server, params) =>
+    server.signatureHelp(params),
+  'textDocument/definition': (server, params) => server.definition(params),
+  'textDocument/references': (server, params) => server.references(params),
+  'textDocument/documentSymbol': (server, params) =>
+    server.documentSymbol(params),
+  'textDocument/prepareRename': (server, params) =>
+    server.prepareRename(params),
+  'textDocument/rename': (server, params) => server.rename(params),
+  'textDocument/formatting': (server, params) => server.formatting(params),
+  'textDocument/rangeFormatting': (server, params) =>
+    server.rangeFormatting(params),
+  'textDocument/codeAction': (server, params) => server.codeAction(params),
+  'textDocument/semanticTokens/full': (server, params) =>
+    server.semanticTokensFull(params),
+  'textDocument/semanticTokens/full/delta': (server, params) =>
+    server.semanticTokensDelta(params),
+  'textDocument/foldingRange': (server, params) => server.foldingRange(params),
+  'workspace/symbol': (server, params) => server.workspaceSymbol(params),
+};
+
+const NOTIFICATIONS: { [method: string]: Handler } = {
+  initialized: (server) => server.initialized(),
+  'textDocument/didOpen': (server, params) =>
+    server.textDocumentDidOpen(params),
+  'textDocument/didChange': (server, params) =>
+    server.textDocumentDidChange(params),
+  'textDocument/didClose': (server, params) =>
+    server.textDocumentDidClose(params),
+};
+
+/*
+	====================================================================
+             --- CONNECTION ---
+	====================================================================
+*/
+
+export class LSPConnection extends EventEmitter {
+  private server: WorldSrcLanguageServer;
+  private output: Writable | null;
+  private queue: Promise<void>;
+  private pending: Set<number | string> /* requests not answered yet */;
+  private cancelled: Set<number | string> /* pending requests cancelled */;
+  private isInitialized: boolean;
+  private isShutdown: boolean;
+
+  constructor(server: WorldSrcLanguageServer = new WorldSrcLanguageServer()) {
+    super();
+
+    this.server = server;
+    this.output = null;
+    this.queue = Promise.resolve();
+    this.pending = new Set();
+    this.cancelled = new Set();
+    this.isInitialized = false;
+    this.isShutdown = false;
+
+    this.server.on('publishDiagnostics', (params) =>
+      this.sendNotification('textDocument/publishDiagnostics', params)
+    );
+  }
+
+  /*
+
+           listen()
+  	       ---
+  	       serves a client over the given streams. resolves with
+  	       the exit code the process should end with: 0 when the
+  	       client exits after a shutdown request, 1 when it exits
+  	       or its input ends without one.
+
+  */
+
+  listen(input: Readable, output: Writable): Promise<number> {
+    this.output = output;
+
+    return new Promise((resolve) => {
+      let buffer = Buffer.alloc(0);
+      let finished = false;
+
+      const finish = () => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+
+        input.removeListener('data', onData);
+        input.removeListener('end', finish);
+        input.removeListener('close', finish);
+        this.queue.then(() => resolve(this.isShutdown ? 0 : 1));
+      };
+
+      const onData = (chunk: Buffer | string) => {
+        buffer = Buffer.concat([buffer, Buffer.from(chunk)]);
+
+        for (;;) {
+          const headerEnd = buffer.indexOf('\r\n\r\n');
+          if (headerEnd < 0) {
+            return;
+          }
+
+          const header = /Content-Length:\s*(\d+)/i.exec(
+            buffer.subarray(0, headerEnd).toString('ascii')
+          );
+          if (!header) {
+            /* not a message we can frame; drop the header */
+            buffer = buffer.subarray(headerEnd + 4);
+            continue;
+          }
+
+          const start = headerEnd + 4;
+          const end = start + parseInt(header[1], 10);
+          if (buffer.length < end) {
+            return;
+          }
+
+          const body = buffer.subarray(start, end).toString('utf8');
+          buffer = buffer.subarray(end);
+
+          let message: any;
+          try {
+            message = JSON.parse(body);
+          } catch (error) {
+            this.sendError(null, LSPErrorCode.PARSE_ERROR, 'Invalid JSON');
+            continue;
+          }
+
+          if (message.method === 'exit') {
+            this.queue.then(finish);
+            return;
+          }
+
+          this.receive(message);
+        }
+      };
+
+      input.on('data', onData);
+      input.on('end', finish);
+      input.on('close', finish);
+    });
+  }
+
+  /*
+
+           receive()
+  	       ---
+  	       takes one message from the client. cancellations act
+  	       at once; everything else waits for the messages before
+  	       it.
+
+  */
+
+  private receive(message: any): void {
+    if (message.method === '$/cancelRequest') {
+      const id = message.params?.id;
+      if (this.pending.has(id)) {
+        this.cancelled.add(id);
+      }
+      return;
+    }
+
+    const isRequest = message.id !== undefined && message.id !== null;
+
+    if (isRequest) {
+      this.pending.add(message.id);
+    }
+
+    this.queue = this.queue.then(() =>
+      isRequest
+        ? this.handleRequest(message as LSPRequest)
+        : this.handleNotification(message as LSPNotification)
+    );
+  }
+
+  private async handleRequest(request: LSPRequest): Promise<void> {
+    const { id, method } = request;
+
+    try {
+      if (this.cancelled.has(id)) {
+        this.sendError(id, LSPErrorCode.REQUEST_CANCELLED, 'Request cancelled');
+        return;
+      }
+
+      if (typeof method !== 'string') {
+        this.sendError(id, LSPErrorCode.INVALID_REQUEST, 'Missing method');
+        return;
+      }
+
+      if (!this.isInitialized && method !== 'initialize') {
+        this.sendError(
+          id,
+          LSPErrorCode.SERVER_NOT_INITIALIZED,
+          'Server not initialized'
+        );
+        return;
+      }
+
+      if (this.isShutdown) {
+        this.sendError(id, LSPErrorCode.INVALID_REQUEST, 'Server is shut down');
+        return;
+      }
+
+      const handler = REQUESTS[method];
+      if (!handler) {
+        this.sendError(
+          id,
+          LSPErrorCode.METHOD_NOT_FOUND,
+          `Unsupported method: ${method}`
+        );
+        return;
+      }
+
+      let result: any;
+      try {
+        result = await handler(this.server, request.params);
+      } catch (error) {
+        this.sendError(
+          id,
+          LSPErrorCode.REQUEST_FAILED,
+          (error as Error).message
+        );
+        return;
+      }
+
+      if (method === 'initialize') {
+        this.isInitialized = true;
+      } else if (method === 'shutdown') {
+        this.isShutdown = true;
+      }
+
+      /* a request cancelled while it ran has its result dropped */
+      if (this.cancelled.has(id)) {
+        this.sendError(id, LSPErrorCode.REQUEST_CANCELLED, 'Request cancelled');
+        return;
+      }
+
+      this.send({ jsonrpc: '2.0', id, result: result ?? null });
+    } finally {
+      this.pending.delete(id);
+      this.cancelled.delete(id);
+    }
+  }
+
+  /* notifications before initialize and unknown ones are dropped */
+  private async handleNotification(
+    notification: LSPNotification
+  ): Promise<void> {
+    const handler = NOTIFICATIONS[notification.method];
+
+    if (!handler || !this.isInitialized) {
+      return;
+    }
+
+    try {
+      await handler(this.server, notification.params);
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+
+  /*
+
+           sendNotification()
+  	       ---
+  	       sends a notification to the client, such as the
+  	       diagnostics the server publishes after each analysis.
+
+  */
+
+  sendNotification(method: string, params: any): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private sendError(
+    id: number | string | null,
+    code: LSPErrorCode,
+    message: string
+  ): void {
+    this.send({ jsonrpc: '2.0', id, error: { code, message } });
+  }
+
+  /* sends a message framed with its length in bytes */
+  private send(message: LSPResponse | LSPNotification): void {
+    this.emit('message', message);
+
+    if (this.output) {
+      const json = JSON.stringify(message);
+      this.output.write(
+        `Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`
+      );
+    }
+  }
+}
+
+/*
+	====================================================================
+             --- EOF ---
+	====================================================================
+*/
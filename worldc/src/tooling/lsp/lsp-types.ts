@@ -298,6 +298,93 @@ export enum SymbolTag {
   DEPRECATED = 1        /* deprecated symbol */
 }
 
+export interface WorkspaceSymbolParams {
+  query: string;                  /* filter for symbol names */
+}
+
+/*
+	====================================================================
+             --- EDIT TYPES ---
+	====================================================================
+*/
+
+export interface WorkspaceEdit {
+  changes: { [uri: string]: TextEdit[] };   /* edits by document */
+}
+
+export interface PrepareRenameResult {
+  range:       Range;             /* range of the renamed name */
+  placeholder: string;            /* the current name */
+}
+
+export interface FormattingOptions {
+  tabSize:                 number;   /* spaces per indentation level */
+  insertSpaces:            boolean;  /* indent with spaces */
+  trimTrailingWhitespace?: boolean;  /* trim trailing whitespace */
+  insertFinalNewline?:     boolean;  /* end with a newline */
+}
+
+export interface CodeActionContext {
+  diagnostics: Diagnostic[];        /* diagnostics in the range */
+  only?:       CodeActionKind[];    /* requested kinds */
+}
+
+export interface CodeAction {
+  title:        string;             /* action title */
+  kind?:        CodeActionKind;     /* action kind */
+  diagnostics?: Diagnostic[];       /* diagnostics it resolves */
+  isPreferred?: boolean;            /* preferred fix */
+  edit?:        WorkspaceEdit;      /* edit to apply */
+  command?:     Command;            /* command to run */
+}
+
+/*
+	====================================================================
+             --- SEMANTIC TOKEN TYPES ---
+	====================================================================
+*/
+
+export interface SemanticTokensLegend {
+  tokenTypes:     string[];         /* token type names by index */
+  tokenModifiers: string[];         /* modifier names by bit */
+}
+
+export interface SemanticTokens {
+  resultId?: string;                /* id a later delta refers to */
+  data:      number[];              /* five integers per token */
+}
+
+export interface SemanticTokensEdit {
+  start:       number;              /* index into the previous data */
+  deleteCount: number;              /* integers removed */
+  data?:       number[];            /* integers inserted */
+}
+
+export interface SemanticTokensDelta {
+  resultId?: string;                /* id a later delta refers to */
+  edits:     SemanticTokensEdit[];  /* edits to the previous data */
+}
+
+/*
+	====================================================================
+             --- FOLDING RANGE TYPES ---
+	====================================================================
+*/
+
+export enum FoldingRangeKind {
+  COMMENT = "comment",              /* comment block */
+  IMPORTS = "imports",              /* run of imports */
+  REGION  = "region"                /* marked region */
+}
+
+export interface FoldingRange {
+  startLine:       number;          /* first folded line */
+  startCharacter?: number;          /* where the fold starts */
+  endLine:         number;          /* last folded line */
+  endCharacter?:   number;          /* where the fold ends */
+  kind?:           FoldingRangeKind; /* what is folded */
+}
+
 /*
 	====================================================================
              --- WORLDSRC EXTENSIONS ---
@@ -388,7 +475,10 @@ export interface WorldSrcServerCapabilities {
   workspaceSymbolProvider?:    boolean | WorkspaceSymbolOptions; /* workspace symbols */
   codeActionProvider?:         boolean | CodeActionOptions; /* code actions */
   documentFormattingProvider?: boolean | DocumentFormattingOptions; /* formatting */
+  documentRangeFormattingProvider?: boolean | DocumentFormattingOptions; /* range formatting */
   renameProvider?:             boolean | RenameOptions;     /* rename support */
+  semanticTokensProvider?:     SemanticTokensOptions;       /* semantic tokens */
+  foldingRangeProvider?:       boolean;                     /* folding ranges */
   worldSrcExtensions?:         WorldSrcExtensionCapabilities; /* WORLDSRC extensions */
 }
 
@@ -468,6 +558,12 @@ export interface DocumentFormattingOptions {
   workDoneProgress?: boolean;              /* work done progress */
 }
 
+export interface SemanticTokensOptions {
+  legend: SemanticTokensLegend;            /* token types and modifiers */
+  range?: boolean;                         /* range requests */
+  full?:  boolean | { delta?: boolean };   /* full and delta requests */
+}
+
 export interface RenameOptions {
   prepareProvider?:  boolean;              /* prepare support */
   workDoneProgress?: boolean;              /* work done progress */
@@ -515,6 +611,17 @@ export interface LSPError {
   data?:   any;            /* additional data */
 }
 
+export enum LSPErrorCode {
+  PARSE_ERROR            = -32700,   /* invalid JSON */
+  INVALID_REQUEST        = -32600,   /* not a valid request */
+  METHOD_NOT_FOUND       = -32601,   /* unknown method */
+  INVALID_PARAMS         = -32602,   /* invalid parameters */
+  INTERNAL_ERROR         = -32603,   /* internal server error */
+  SERVER_NOT_INITIALIZED = -32002,   /* request before initialize */
+  REQUEST_FAILED         = -32803,   /* valid request that failed */
+  REQUEST_CANCELLED      = -32800    /* cancelled by the client */
+}
+
 /*
 	====================================================================
              --- EOF ---
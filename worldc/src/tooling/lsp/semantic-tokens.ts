@@ -0,0 +1,360 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	====================================================================
+             --- WORLDSRC SEMANTIC TOKENS ---
+	====================================================================
+*/
+
+/*
+
+         semantic-tokens.ts
+	       ---
+	       this file classifies the names of a document for
+	       semantic highlighting. a name bound by the symbol index
+	       takes the kind of the symbol it names, wherever that
+	       symbol is declared, so a parameter, a field or an
+	       '@asmjs' function looks the same at every use.
+
+	       names the workspace does not declare are looked up in
+	       the built-in scope of the symbol table and among the
+	       engine's APIs, and are marked as the default library.
+	       the 'edict', 'invoke' and 'pass' keywords are tokens of
+	       their own, since grammars cannot tell them from names.
+
+*/
+
+import { Token, TokenType } from '../../lexer/tokens';
+import {
+  SymbolKind as SemanticSymbolKind,
+  SymbolTable,
+} from '../../semantic/symbol-table';
+import {
+  SemanticTokensEdit,
+  SemanticTokensLegend,
+  SymbolKind,
+} from './lsp-types';
+import { IndexedSymbol, SymbolIndex, SymbolOccurrence } from './symbol-index';
+
+/*
+	====================================================================
+             --- LEGEND ---
+	====================================================================
+*/
+
+export enum SemanticTokenType {
+  NAMESPACE = 'namespace',
+  TYPE = 'type',
+  CLASS = 'class',
+  STRUCT = 'struct',
+  INTERFACE = 'interface',
+  ENUM = 'enum',
+  ENUM_MEMBER = 'enumMember',
+  TYPE_PARAMETER = 'typeParameter',
+  PARAMETER = 'parameter',
+  VARIABLE = 'variable',
+  PROPERTY = 'property',
+  FUNCTION = 'function',
+  METHOD = 'method',
+  KEYWORD = 'keyword',
+}
+
+export enum SemanticTokenModifier {
+  DECLARATION = 'declaration',
+  READONLY = 'readonly',
+  DEFAULT_LIBRARY = 'defaultLibrary',
+  ASMJS = 'asmjs',
+}
+
+const TOKEN_TYPES = Object.values(SemanticTokenType);
+const TOKEN_MODIFIERS = Object.values(SemanticTokenModifier);
+
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+  tokenTypes: TOKEN_TYPES,
+  tokenModifiers: TOKEN_MODIFIERS,
+};
+
+/*
+
+         ENGINE_APIS
+	       ---
+	       the engine's scripting APIs, which scripts use without
+	       declaring or importing them.
+
+*/
+
+export const ENGINE_APIS: { [name: string]: SemanticTokenType } = {
+  Engine: SemanticTokenType.NAMESPACE,
+  Input: SemanticTokenType.NAMESPACE,
+  KeyCode: SemanticTokenType.ENUM,
+  SceneManager: SemanticTokenType.CLASS,
+  Scene: SemanticTokenType.CLASS,
+  Entity: SemanticTokenType.CLASS,
+  Component: SemanticTokenType.CLASS,
+  Transform: SemanticTokenType.CLASS,
+  RigidBody: SemanticTokenType.CLASS,
+  SpriteRenderer: SemanticTokenType.CLASS,
+  TextRenderer: SemanticTokenType.CLASS,
+  Vector3: SemanticTokenType.CLASS,
+};
+
+const KEYWORDS = new Set([TokenType.EDICT, TokenType.INVOKE, TokenType.PASS]);
+
+const MEMBER_ACCESS = new Set([
+  TokenType.DOT,
+  TokenType.ARROW,
+  TokenType.SCOPE,
+  TokenType.OPTIONAL_CHAINING,
+]);
+
+/*
+	====================================================================
+             --- CLASSIFICATION ---
+	====================================================================
+*/
+
+/* finds a symbol declared in another document by its key */
+export type SymbolLookup = (key: string) => IndexedSymbol | undefined;
+
+interface Classification {
+  type: SemanticTokenType;
+  modifiers: SemanticTokenModifier[];
+}
+
+/*
+
+         buildSemanticTokens()
+	       ---
+	       the semantic tokens of an indexed document, encoded as
+	       the protocol sends them: five integers per token, with
+	       each position relative to the token before it.
+
+*/
+
+export function buildSemanticTokens(
+  index: SymbolIndex,
+  builtins: SymbolTable,
+  lookup: SymbolLookup = () => undefined
+): number[] {
+  const symbols = new Map(index.symbols.map((symbol) => [symbol.key, symbol]));
+  const occurrences = new Map<string, SymbolOccurrence>();
+
+  for (const occurrence of index.occurrences) {
+    const { line, character } = occurrence.range.start;
+    occurrences.set(`${line}:${character}`, occurrence);
+  }
+
+  const data: number[] = [];
+  let previousLine = 0;
+  let previousCharacter = 0;
+
+  /* the library name whose member the next name may be */
+  let library: SemanticTokenType | null = null;
+
+  index.tokens.forEach((token, i) => {
+    const line = token.start.line - 1;
+    const character = token.start.column - 1;
+    let classification: Classification | null = null;
+    let isLibrary = false;
+
+    if (KEYWORDS.has(token.type)) {
+      classification = { type: SemanticTokenType.KEYWORD, modifiers: [] };
+    } else if (token.type === TokenType.IDENTIFIER) {
+      const occurrence = occurrences.get(`${line}:${character}`);
+      const previous = index.tokens[i - 1];
+      const isMember = !!previous && MEMBER_ACCESS.has(previous.type);
+
+      if (occurrence) {
+        const symbol =
+          symbols.get(occurrence.key) ?? lookup(occurrence.key) ?? null;
+        classification = symbol && classifySymbol(symbol, occurrence);
+      } else if (isMember) {
+        classification =
+          library && classifyLibraryMember(library, index.tokens[i + 1]);
+      } else {
+        classification = classifyLibraryName(token.value, builtins);
+        isLibrary = !!classification;
+      }
+    }
+
+    if (isLibrary) {
+      library = classification!.type;
+    } else if (!MEMBER_ACCESS.has(token.type)) {
+      library = null;
+    }
+
+    if (!classification) {
+      return;
+    }
+
+    data.push(
+      line - previousLine,
+      line === previousLine ? character - previousCharacter : character,
+      token.end.offset - token.start.offset,
+      TOKEN_TYPES.indexOf(classification.type),
+      classification.modifiers.reduce(
+        (bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)),
+        0
+      )
+    );
+    previousLine = line;
+    previousCharacter = character;
+  });
+
+  return data;
+}
+
+function classifySymbol(
+  symbol: IndexedSymbol,
+  occurrence: SymbolOccurrence
+): Classification {
+  const modifiers: SemanticTokenModifier[] = [];
+
+  if (occurrence.isDeclaration) {
+    modifiers.push(SemanticTokenModifier.DECLARATION);
+  }
+  if (symbol.kind === SymbolKind.CONSTANT) {
+    modifiers.push(SemanticTokenModifier.READONLY);
+  }
+  if (symbol.annotations?.includes('asmjs')) {
+    modifiers.push(SemanticTokenModifier.ASMJS);
+  }
+
+  return { type: tokenTypeOf(symbol), modifiers };
+}
+
+function tokenTypeOf(symbol: IndexedSymbol): SemanticTokenType {
+  switch (symbol.kind) {
+    case SymbolKind.NAMESPACE:
+      return SemanticTokenType.NAMESPACE;
+    case SymbolKind.CLASS:
+      return SemanticTokenType.CLASS;
+    case SymbolKind.STRUCT:
+      return SemanticTokenType.STRUCT;
+    case SymbolKind.INTERFACE:
+      return SemanticTokenType.INTERFACE;
+    case SymbolKind.ENUM:
+      return SemanticTokenType.ENUM;
+    case SymbolKind.ENUM_MEMBER:
+      return SemanticTokenType.ENUM_MEMBER;
+    case SymbolKind.TYPE_PARAMETER:
+      return SemanticTokenType.TYPE_PARAMETER;
+    case SymbolKind.FIELD:
+    case SymbolKind.PROPERTY:
+      return SemanticTokenType.PROPERTY;
+    case SymbolKind.FUNCTION:
+      return SemanticTokenType.FUNCTION;
+    case SymbolKind.METHOD:
+      return SemanticTokenType.METHOD;
+    case SymbolKind.VARIABLE:
+      return symbol.isParameter
+        ? SemanticTokenType.PARAMETER
+        : SemanticTokenType.VARIABLE;
+    case SymbolKind.CONSTANT:
+      return SemanticTokenType.VARIABLE;
+    default:
+      /* type aliases */
+      return SemanticTokenType.TYPE;
+  }
+}
+
+/* a name the workspace does not declare */
+function classifyLibraryName(
+  name: string,
+  builtins: SymbolTable
+): Classification | null {
+  const modifiers = [SemanticTokenModifier.DEFAULT_LIBRARY];
+
+  const builtin = builtins.getGlobalScope().lookup(name);
+  if (builtin && builtin.location.file === '<builtin>') {
+    switch (builtin.kind) {
+      case SemanticSymbolKind.FUNCTION:
+        return { type: SemanticTokenType.FUNCTION, modifiers };
+      case SemanticSymbolKind.TYPEDEF:
+        return { type: SemanticTokenType.TYPE, modifiers };
+      default:
+        return { type: SemanticTokenType.VARIABLE, modifiers };
+    }
+  }
+
+  if (Object.prototype.hasOwnProperty.call(ENGINE_APIS, name)) {
+    return { type: ENGINE_APIS[name], modifiers };
+  }
+  return null;
+}
+
+/* a member of a library name; a member that is called is a method */
+function classifyLibraryMember(
+  library: SemanticTokenType,
+  next: Token | undefined
+): Classification {
+  const modifiers = [SemanticTokenModifier.DEFAULT_LIBRARY];
+
+  if (library === SemanticTokenType.ENUM) {
+    return { type: SemanticTokenType.ENUM_MEMBER, modifiers };
+  }
+  return next?.type === TokenType.LEFT_PAREN
+    ? { type: SemanticTokenType.METHOD, modifiers }
+    : { type: SemanticTokenType.PROPERTY, modifiers };
+}
+
+/*
+	====================================================================
+             --- DELTAS ---
+	====================================================================
+*/
+
+/*
+
+         diffSemanticTokens()
+	       ---
+	       the edits that turn the tokens sent before into the
+	       tokens of now: one edit replacing whatever lies between
+	       the integers they start and end with.
+
+*/
+
+export function diffSemanticTokens(
+  previous: number[],
+  next: number[]
+): SemanticTokensEdit[] {
+  let start = 0;
+  while (
+    start < previous.length &&
+    start < next.length &&
+    previous[start] === next[start]
+  ) {
+    start++;
+  }
+
+  if (start === previous.length && start === next.length) {
+    return [];
+  }
+
+  let end = 0;
+  while (
+    end < previous.length - start &&
+    end < next.length - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return [
+    {
+      start,
+      deleteCount: previous.length - start - end,
+      data: next.slice(start, next.length - end),
+    },
+  ];
+}
+
+/*
+	====================================================================
+             --- EOF ---
+	====================================================================
+*/
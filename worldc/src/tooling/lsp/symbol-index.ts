@@ -0,0 +1,1053 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+	====================================================================
+             --- WORLDSRC SYMBOL INDEX ---
+	====================================================================
+*/
+
+/*
+
+         symbol-index.ts
+	       ---
+	       this file indexes the declarations of a document and every
+	       place their names occur. names are bound through the
+	       scopes of the program, so a local that shadows a global
+	       is a different symbol from it, and a member is found
+	       through the declared type of the expression before the
+	       '.' or '->'.
+
+	       every symbol has a key. module-level symbols are keyed by
+	       their document and name, members by the key of their
+	       container, so an import or a member access in another
+	       document produces the same key as the declaration. keys
+	       of locals hold their position and never leave their
+	       document.
+
+*/
+
+import {
+  ArrowFunctionExpression,
+  ASTNode,
+  BlockStatement,
+  CallExpression,
+  CatchClause,
+  ClassDeclaration,
+  Declaration,
+  EnumDeclaration,
+  ExportDeclaration,
+  Expression,
+  ForInStatement,
+  ForOfStatement,
+  ForStatement,
+  FunctionDeclaration,
+  FunctionExpression,
+  GenericType,
+  Identifier,
+  ImportDeclaration,
+  InterfaceDeclaration,
+  LambdaExpression,
+  MemberExpression,
+  NamespaceDeclaration,
+  NewExpression,
+  ObjectProperty,
+  OptionalType,
+  Parameter,
+  PointerType,
+  PrimitiveType,
+  Program,
+  ReferenceType,
+  StructDeclaration,
+  ThisExpression,
+  TypeAliasDeclaration,
+  TypeNode,
+  TypeParameter,
+  VariableDeclaration,
+} from '../../parser/ast';
+import { Lexer } from '../../lexer/lexer';
+import { SourcePosition, Token, TokenType } from '../../lexer/tokens';
+import { Parser } from '../../parser/parser';
+
+import { Position, Range, SymbolKind } from './lsp-types';
+
+/*
+	====================================================================
+             --- INDEX TYPES ---
+	====================================================================
+*/
+
+export interface IndexedSymbol {
+  key: string /* identity of the symbol across documents */;
+  name: string /* declared name */;
+  kind: SymbolKind /* symbol kind */;
+  uri: string /* declaring document */;
+  range: Range /* the name in its declaration */;
+  containerName?: string /* class, struct, enum or namespace */;
+  isLocal: boolean /* a local or an import alias, never named elsewhere */;
+  isParameter?: boolean /* a parameter of a function */;
+  annotations?: string[] /* a function's annotations, such as 'asmjs' */;
+}
+
+export interface SymbolOccurrence {
+  key: string /* key of the symbol named */;
+  range: Range /* the name */;
+  isDeclaration: boolean /* the name declares the symbol */;
+}
+
+/* maps the source of an import to the URI of the imported document */
+export type ImportResolver = (source: string) => string | null;
+
+interface Binding {
+  key: string | null /* null for names from outside the workspace */;
+  typeKey: string | null /* container of the members of its values */;
+}
+
+interface ContainerInfo {
+  members: Set<string> /* names declared in the container */;
+  superKey: string | null /* the class it extends */;
+}
+
+class Scope {
+  public bindings = new Map<string, Binding>();
+
+  constructor(
+    public parent: Scope | null,
+    public owner: string | null = null /* key of the class for 'this' */
+  ) {}
+
+  thisKey(): string | null {
+    for (let scope: Scope | null = this; scope; scope = scope.parent) {
+      if (scope.owner) {
+        return scope.owner;
+      }
+    }
+    return null;
+  }
+}
+
+/* inheritance chains longer than this are taken to be cycles */
+const MAX_BASE_DEPTH = 32;
+
+/*
+	====================================================================
+             --- SYMBOL INDEX ---
+	====================================================================
+*/
+
+export class SymbolIndex {
+  public readonly uri: string;
+  public readonly symbols: IndexedSymbol[];
+  public readonly occurrences: SymbolOccurrence[];
+  public readonly tokens: Token[];
+  public readonly ast: Program | null;
+
+  private constructor(
+    uri: string,
+    symbols: IndexedSymbol[],
+    occurrences: SymbolOccurrence[],
+    tokens: Token[],
+    ast: Program | null
+  ) {
+    this.uri = uri;
+    this.symbols = symbols;
+    this.occurrences = occurrences;
+    this.tokens = tokens;
+    this.ast = ast;
+  }
+
+  /*
+
+           build()
+  	       ---
+  	       indexes a document. a document that does not lex or
+  	       parse gives an empty index; its names are found again
+  	       once it does.
+
+  */
+
+  static build(
+    uri: string,
+    content: string,
+    resolveImport: ImportResolver = () => null
+  ): SymbolIndex {
+    let tokens: Token[];
+    let ast: Program;
+
+    try {
+      tokens = new Lexer(content, {}).tokenize();
+    } catch (error) {
+      return new SymbolIndex(uri, [], [], [], null);
+    }
+
+    try {
+      ast = new Parser(tokens, {}).parse();
+    } catch (error) {
+      return new SymbolIndex(uri, [], [], tokens, null);
+    }
+
+    const builder = new IndexBuilder(uri, tokens, resolveImport);
+    builder.visitProgram(ast);
+
+    return new SymbolIndex(
+      uri,
+      builder.symbols,
+      builder.occurrences,
+      tokens,
+      ast
+    );
+  }
+
+  /*
+
+           occurrenceAt()
+  	       ---
+  	       the occurrence of a name under the cursor. a cursor
+  	       just past the end of a name still counts as on it.
+
+  */
+
+  occurrenceAt(position: Position): SymbolOccurrence | null {
+    return (
+      this.occurrences.find((occurrence) =>
+        containsPosition(occurrence.range, position)
+      ) || null
+    );
+  }
+
+  occurrencesOf(key: string): SymbolOccurrence[] {
+    return this.occurrences.filter((occurrence) => occurrence.key === key);
+  }
+
+  getSymbol(key: string): IndexedSymbol | undefined {
+    return this.symbols.find((symbol) => symbol.key === key);
+  }
+}
+
+/*
+	====================================================================
+             --- INDEX BUILDER ---
+	====================================================================
+*/
+
+class IndexBuilder {
+  public symbols: IndexedSymbol[] = [];
+  public occurrences: SymbolOccurrence[] = [];
+
+  private bindings = new Map<string, Binding>();
+  private containers = new Map<string, ContainerInfo>();
+
+  constructor(
+    private uri: string,
+    private tokens: Token[],
+    private resolveImport: ImportResolver
+  ) {}
+
+  /*
+
+           visitProgram()
+  	       ---
+  	       module-level names are declared before any body is
+  	       walked, since functions may use what follows them.
+
+  */
+
+  visitProgram(program: Program): void {
+    const scope = new Scope(null);
+
+    for (const decl of program.declarations) {
+      this.declare(decl, scope, null, false);
+    }
+    for (const decl of program.declarations) {
+      this.walkDeclaration(decl, scope);
+    }
+  }
+
+  /*
+
+           declare()
+  	       ---
+  	       binds the name of a declaration in a scope. with a
+  	       container the symbol is a member of it; without one at
+  	       module level it belongs to the document.
+
+  */
+
+  private declare(
+    decl: Declaration,
+    scope: Scope,
+    container: IndexedSymbol | null,
+    isLocal: boolean
+  ): void {
+    if (decl instanceof ExportDeclaration) {
+      if (decl.declaration) {
+        this.declare(decl.declaration, scope, container, isLocal);
+      }
+      return;
+    }
+
+    if (decl instanceof ImportDeclaration) {
+      this.declareImport(decl, scope);
+      return;
+    }
+
+    if (decl instanceof VariableDeclaration) {
+      const kind = container
+        ? SymbolKind.FIELD
+        : decl.isConst
+          ? SymbolKind.CONSTANT
+          : SymbolKind.VARIABLE;
+      this.addSymbol(decl.name, kind, decl, scope, container, isLocal, {
+        skip: [decl.type, decl.initializer],
+        typeKey: this.resolveType(decl.type, scope),
+      });
+      return;
+    }
+
+    if (decl instanceof FunctionDeclaration) {
+      this.addSymbol(
+        decl.name,
+        container ? SymbolKind.METHOD : SymbolKind.FUNCTION,
+        decl,
+        scope,
+        container,
+        isLocal,
+        {
+          skip: [decl.returnType, decl.body],
+          typeKey: this.resolveType(decl.returnType, scope),
+          annotations: decl.annotations,
+        }
+      );
+      return;
+    }
+
+    if (
+      decl instanceof ClassDeclaration ||
+      decl instanceof StructDeclaration ||
+      decl instanceof InterfaceDeclaration ||
+      decl instanceof EnumDeclaration ||
+      decl instanceof NamespaceDeclaration ||
+      decl instanceof TypeAliasDeclaration
+    ) {
+      const symbol = this.addSymbol(
+        decl.name,
+        containerKind(decl),
+        decl,
+        scope,
+        container,
+        isLocal,
+        { skip: [], typeKey: null, isContainer: true }
+      );
+      this.containers.set(symbol.key, { members: new Set(), superKey: null });
+    }
+  }
+
+  /* imported names take the key of their declaration */
+  private declareImport(decl: ImportDeclaration, scope: Scope): void {
+    const target = this.resolveImport(decl.source);
+
+    for (const specifier of decl.specifiers) {
+      const key =
+        target && specifier.imported !== '*'
+          ? `${target}#${specifier.imported}`
+          : null;
+      const imported = this.findName(specifier.imported, specifier);
+
+      if (key && imported) {
+        this.occurrences.push({ key, range: imported, isDeclaration: false });
+      }
+
+      if (specifier.local === specifier.imported) {
+        scope.bindings.set(specifier.local, { key, typeKey: key });
+        continue;
+      }
+
+      /* an alias is a name of this document */
+      const alias = this.findName(specifier.local, specifier, [imported]);
+      const aliasKey = key && alias ? `${this.uri}#${specifier.local}` : null;
+      if (aliasKey && alias) {
+        this.record(
+          {
+            key: aliasKey,
+            name: specifier.local,
+            kind: SymbolKind.VARIABLE,
+            uri: this.uri,
+            range: alias,
+            isLocal: true,
+          },
+          { key: aliasKey, typeKey: key }
+        );
+      }
+      scope.bindings.set(specifier.local, { key: aliasKey, typeKey: key });
+    }
+  }
+
+  private walkDeclaration(decl: Declaration, scope: Scope): void {
+    if (decl instanceof ExportDeclaration) {
+      if (decl.declaration) {
+        this.walkDeclaration(decl.declaration, scope);
+      }
+      for (const specifier of decl.specifiers) {
+        if (!decl.source) {
+          this.reference(specifier.local, specifier, scope);
+        }
+      }
+      return;
+    }
+
+    if (decl instanceof VariableDeclaration) {
+      this.walk(decl.type, scope);
+      this.walk(decl.initializer, scope);
+    } else if (decl instanceof FunctionDeclaration) {
+      this.walkFunction(decl, scope);
+    } else if (decl instanceof ClassDeclaration) {
+      this.walkClass(decl, scope);
+    } else if (decl instanceof StructDeclaration) {
+      this.walkStruct(decl, scope);
+    } else if (decl instanceof InterfaceDeclaration) {
+      this.walkInterface(decl, scope);
+    } else if (decl instanceof EnumDeclaration) {
+      this.walkEnum(decl, scope);
+    } else if (decl instanceof NamespaceDeclaration) {
+      this.walkNamespace(decl, scope);
+    } else if (decl instanceof TypeAliasDeclaration) {
+      const inner = this.declareTypeParameters(decl.templateParameters, scope);
+      this.walk(decl.type, inner);
+    }
+  }
+
+  private walkFunction(
+    decl: FunctionDeclaration | FunctionExpression | ArrowFunctionExpression,
+    scope: Scope,
+    templateParameters: TypeParameter[] = []
+  ): void {
+    const inner = this.declareTypeParameters(templateParameters, scope);
+
+    this.walk(decl.returnType, inner);
+    this.declareParameters(decl.parameters, inner);
+
+    /* the body block opens its own scope below the parameters */
+    this.walk(decl.body, inner);
+  }
+
+  private walkClass(decl: ClassDeclaration, scope: Scope): void {
+    const key = this.keyOf(decl.name, scope);
+    const inner = this.declareTypeParameters(decl.templateParameters, scope);
+    const classScope = new Scope(inner, key);
+
+    this.walk(decl.superClass, inner);
+    decl.interfaces.forEach((type) => this.walk(type, inner));
+    if (key) {
+      this.containers.get(key)!.superKey = this.resolveType(
+        decl.superClass,
+        inner
+      );
+    }
+
+    const container = key ? this.getSymbol(key) : null;
+    const members = decl.members.map((member) => member.member);
+
+    for (const member of members) {
+      this.declareMember(member, classScope, container);
+    }
+
+    for (const member of members) {
+      if (member instanceof FunctionDeclaration) {
+        this.walkFunction(member, classScope, member.templateParameters);
+      } else {
+        this.walk(member.type, classScope);
+        this.walk(member.initializer, classScope);
+      }
+    }
+  }
+
+  private walkStruct(decl: StructDeclaration, scope: Scope): void {
+    const key = this.keyOf(decl.name, scope);
+    const inner = this.declareTypeParameters(decl.templateParameters, scope);
+    const structScope = new Scope(inner, key);
+    const container = key ? this.getSymbol(key) : null;
+
+    for (const member of decl.members) {
+      this.walk(member.type, structScope);
+      this.addSymbol(
+        member.name,
+        SymbolKind.FIELD,
+        member,
+        structScope,
+        container,
+        false,
+        { skip: [member.type], typeKey: this.resolveType(member.type, inner) }
+      );
+    }
+    for (const method of decl.methods) {
+      this.declareMember(method, structScope, container);
+    }
+    for (const method of decl.methods) {
+      this.walkFunction(method, structScope, method.templateParameters);
+    }
+  }
+
+  private walkInterface(decl: InterfaceDeclaration, scope: Scope): void {
+    const key = this.keyOf(decl.name, scope);
+    const inner = this.declareTypeParameters(decl.templateParameters, scope);
+    const interfaceScope = new Scope(inner, key);
+    const container = key ? this.getSymbol(key) : null;
+
+    decl.extends_.forEach((type) => this.walk(type, inner));
+
+    for (const { member } of decl.members) {
+      this.declareMember(member, interfaceScope, container);
+      if (member instanceof FunctionDeclaration) {
+        this.walkFunction(member, interfaceScope, member.templateParameters);
+      } else {
+        this.walk(member.type, interfaceScope);
+      }
+    }
+  }
+
+  private walkEnum(decl: EnumDeclaration, scope: Scope): void {
+    const key = this.keyOf(decl.name, scope);
+    const enumScope = new Scope(scope);
+    const container = key ? this.getSymbol(key) : null;
+
+    this.walk(decl.underlyingType, scope);
+
+    for (const member of decl.members) {
+      this.walk(member.value, enumScope);
+      const symbol = this.addSymbol(
+        member.name,
+        SymbolKind.ENUM_MEMBER,
+        member,
+        enumScope,
+        container,
+        false,
+        { skip: [member.value], typeKey: key }
+      );
+
+      /* enumerators are also named without their enum */
+      if (!scope.bindings.has(member.name)) {
+        scope.bindings.set(member.name, { key: symbol.key, typeKey: key });
+      }
+    }
+  }
+
+  private walkNamespace(decl: NamespaceDeclaration, scope: Scope): void {
+    const key = this.keyOf(decl.name, scope);
+    const namespaceScope = new Scope(scope);
+    const container = key ? this.getSymbol(key) : null;
+
+    for (const inner of decl.declarations) {
+      this.declare(inner, namespaceScope, container, false);
+    }
+    for (const inner of decl.declarations) {
+      this.walkDeclaration(inner, namespaceScope);
+    }
+  }
+
+  private declareMember(
+    member: FunctionDeclaration | VariableDeclaration,
+    scope: Scope,
+    container: IndexedSymbol | null
+  ): void {
+    if (container) {
+      this.declare(member, scope, container, false);
+    }
+  }
+
+  private declareTypeParameters(
+    parameters: TypeParameter[],
+    scope: Scope
+  ): Scope {
+    if (parameters.length === 0) {
+      return scope;
+    }
+
+    const inner = new Scope(scope);
+    for (const parameter of parameters) {
+      this.walk(parameter.constraint, inner);
+      this.addSymbol(
+        parameter.name,
+        SymbolKind.TYPE_PARAMETER,
+        parameter,
+        inner,
+        null,
+        true,
+        { skip: [parameter.constraint, parameter.defaultType], typeKey: null }
+      );
+      this.walk(parameter.defaultType, inner);
+    }
+    return inner;
+  }
+
+  private declareParameters(parameters: Parameter[], scope: Scope): void {
+    for (const parameter of parameters) {
+      this.walk(parameter.type, scope);
+      this.walk(parameter.defaultValue, scope);
+      this.addSymbol(
+        parameter.name,
+        SymbolKind.VARIABLE,
+        parameter,
+        scope,
+        null,
+        true,
+        {
+          skip: [parameter.type, parameter.defaultValue],
+          typeKey: this.resolveType(parameter.type, scope),
+          isParameter: true,
+        }
+      );
+    }
+  }
+
+  /*
+
+           walk()
+  	       ---
+  	       walks statements, expressions and types, binding each
+  	       name to the innermost scope that declares it. nodes
+  	       without scopes or names of their own are walked
+  	       through their children.
+
+  */
+
+  private walk(node: ASTNode | null | undefined, scope: Scope): void {
+    if (!node) {
+      return;
+    }
+
+    if (node instanceof BlockStatement) {
+      const block = new Scope(scope);
+      node.statements.forEach((statement) => this.walk(statement, block));
+      return;
+    }
+
+    if (node instanceof VariableDeclaration) {
+      this.walk(node.type, scope);
+      this.walk(node.initializer, scope);
+      this.declare(node, scope, null, true);
+      return;
+    }
+
+    if (node instanceof FunctionDeclaration) {
+      this.declare(node, scope, null, true);
+      this.walkFunction(node, scope, node.templateParameters);
+      return;
+    }
+
+    if (node instanceof ForStatement) {
+      const loop = new Scope(scope);
+      this.walk(node.init, loop);
+      this.walk(node.condition, loop);
+      this.walk(node.update, loop);
+      this.walk(node.body, loop);
+      return;
+    }
+
+    if (node instanceof ForInStatement || node instanceof ForOfStatement) {
+      const loop = new Scope(scope);
+      this.walk(node.iterable, scope);
+      this.addSymbol(
+        node.variable,
+        SymbolKind.VARIABLE,
+        node,
+        loop,
+        null,
+        true,
+        { skip: [node.iterable, node.body], typeKey: null }
+      );
+      this.walk(node.body, loop);
+      return;
+    }
+
+    if (node instanceof CatchClause) {
+      const handler = new Scope(scope);
+      if (node.param) {
+        this.addSymbol(
+          node.param,
+          SymbolKind.VARIABLE,
+          node,
+          handler,
+          null,
+          true,
+          { skip: [node.body], typeKey: null }
+        );
+      }
+      this.walk(node.body, handler);
+      return;
+    }
+
+    if (
+      node instanceof FunctionExpression ||
+      node instanceof ArrowFunctionExpression
+    ) {
+      this.walkFunction(node, scope);
+      return;
+    }
+
+    if (node instanceof LambdaExpression) {
+      const inner = new Scope(scope);
+      node.captures.forEach((capture) =>
+        this.reference(capture.name, capture, scope)
+      );
+      this.walk(node.returnType, inner);
+      this.declareParameters(node.parameters, inner);
+      this.walk(node.body, inner);
+      return;
+    }
+
+    if (node instanceof Identifier) {
+      const binding = this.lookup(node.name, scope);
+      if (binding?.key) {
+        this.occurrences.push({
+          key: binding.key,
+          range: toRange(node.location.start, node.location.end),
+          isDeclaration: false,
+        });
+      }
+      return;
+    }
+
+    if (node instanceof MemberExpression) {
+      this.walk(node.object, scope);
+      if (node.computed) {
+        this.walk(node.property, scope);
+      } else if (node.property instanceof Identifier) {
+        const container = this.typeOf(node.object, scope);
+        if (container) {
+          this.occurrences.push({
+            key: this.memberKey(container, node.property.name),
+            range: toRange(
+              node.property.location.start,
+              node.property.location.end
+            ),
+            isDeclaration: false,
+          });
+        }
+      }
+      return;
+    }
+
+    if (node instanceof ObjectProperty) {
+      if (node.computed && typeof node.key !== 'string') {
+        this.walk(node.key, scope);
+      }
+      this.walk(node.value, scope);
+      return;
+    }
+
+    if (node instanceof PrimitiveType || node instanceof GenericType) {
+      this.reference(node.name, node, scope);
+      if (node instanceof GenericType) {
+        node.typeArguments.forEach((type) => this.walk(type, scope));
+      }
+      return;
+    }
+
+    for (const [field, value] of Object.entries(node)) {
+      if (field === 'location') {
+        continue;
+      }
+      if (value instanceof ASTNode) {
+        this.walk(value, scope);
+      } else if (Array.isArray(value)) {
+        value.forEach(
+          (item) => item instanceof ASTNode && this.walk(item, scope)
+        );
+      }
+    }
+  }
+
+  /* an occurrence of a name found by its text within a node */
+  private reference(
+    name: string,
+    node: ASTNode,
+    scope: Scope,
+    skip: (ASTNode | null)[] = []
+  ): void {
+    const binding = this.lookup(name, scope);
+    const range = binding?.key ? this.findName(name, node, skip) : null;
+
+    if (binding?.key && range) {
+      this.occurrences.push({ key: binding.key, range, isDeclaration: false });
+    }
+  }
+
+  /*
+
+           lookup()
+  	       ---
+  	       the binding of a name. inside a class a name may be a
+  	       member inherited from a base class of this document.
+
+  */
+
+  private lookup(name: string, scope: Scope): Binding | null {
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      const binding = current.bindings.get(name);
+      if (binding) {
+        return binding;
+      }
+
+      if (current.owner) {
+        const key = this.memberKey(current.owner, name);
+        if (this.bindings.has(key)) {
+          return this.bindings.get(key)!;
+        }
+      }
+    }
+    return null;
+  }
+
+  /* the container whose members a '.' after an expression names */
+  private typeOf(expr: Expression, scope: Scope): string | null {
+    if (expr instanceof ThisExpression) {
+      return scope.thisKey();
+    }
+
+    if (expr instanceof Identifier) {
+      return this.lookup(expr.name, scope)?.typeKey ?? null;
+    }
+
+    if (expr instanceof MemberExpression && !expr.computed) {
+      const container = this.typeOf(expr.object, scope);
+      const property = expr.property;
+      if (!container || !(property instanceof Identifier)) {
+        return null;
+      }
+      return (
+        this.bindings.get(this.memberKey(container, property.name))?.typeKey ??
+        null
+      );
+    }
+
+    /* a call has the return type of its function */
+    if (expr instanceof CallExpression || expr instanceof NewExpression) {
+      return this.typeOf(expr.callee, scope);
+    }
+
+    return null;
+  }
+
+  /* the key of a member, found in the container or a base of it */
+  private memberKey(container: string, name: string): string {
+    let current: string | null = container;
+
+    for (let depth = 0; current && depth < MAX_BASE_DEPTH; depth++) {
+      const info = this.containers.get(current);
+
+      /* members of containers from other documents are taken as declared */
+      if (!info || info.members.has(name)) {
+        return `${current}.${name}`;
+      }
+      current = info.superKey;
+    }
+    return `${container}.${name}`;
+  }
+
+  private resolveType(
+    type: TypeNode | null | undefined,
+    scope: Scope
+  ): string | null {
+    if (type instanceof PrimitiveType || type instanceof GenericType) {
+      return this.lookup(type.name, scope)?.typeKey ?? null;
+    }
+    if (type instanceof PointerType) {
+      return this.resolveType(type.pointeeType, scope);
+    }
+    if (type instanceof ReferenceType) {
+      return this.resolveType(type.referencedType, scope);
+    }
+    if (type instanceof OptionalType) {
+      return this.resolveType(type.type, scope);
+    }
+    return null;
+  }
+
+  private keyOf(name: string, scope: Scope): string | null {
+    return scope.bindings.get(name)?.key ?? null;
+  }
+
+  private getSymbol(key: string): IndexedSymbol | null {
+    return this.symbols.find((symbol) => symbol.key === key) || null;
+  }
+
+  /*
+
+           addSymbol()
+  	       ---
+  	       declares a symbol whose name is found in the source of
+  	       its node, skipping the parts of the node, like its type,
+  	       that may spell the same name.
+
+  */
+
+  private addSymbol(
+    name: string,
+    kind: SymbolKind,
+    node: ASTNode,
+    scope: Scope,
+    container: IndexedSymbol | null,
+    isLocal: boolean,
+    options: {
+      skip: (ASTNode | null | undefined)[];
+      typeKey: string | null;
+      isContainer?: boolean;
+      isParameter?: boolean;
+      annotations?: string[];
+    }
+  ): IndexedSymbol {
+    const range =
+      this.findName(name, node, options.skip) ||
+      toRange(node.location.start, node.location.start);
+
+    const key = isLocal
+      ? `${this.uri}@${range.start.line}:${range.start.character}`
+      : container
+        ? `${container.key}.${name}`
+        : `${this.uri}#${name}`;
+
+    const symbol: IndexedSymbol = {
+      key,
+      name,
+      kind,
+      uri: this.uri,
+      range,
+      containerName: container?.name,
+      isLocal,
+    };
+    if (options.isParameter) {
+      symbol.isParameter = true;
+    }
+    if (options.annotations && options.annotations.length > 0) {
+      symbol.annotations = options.annotations;
+    }
+
+    /* a container's values have the container as their type */
+    const binding: Binding = {
+      key,
+      typeKey: options.isContainer ? key : options.typeKey,
+    };
+
+    this.record(symbol, binding);
+    scope.bindings.set(name, binding);
+
+    if (container) {
+      this.containers.get(container.key)?.members.add(name);
+    }
+    return symbol;
+  }
+
+  private record(symbol: IndexedSymbol, binding: Binding): void {
+    this.symbols.push(symbol);
+    this.bindings.set(symbol.key, binding);
+    this.occurrences.push({
+      key: symbol.key,
+      range: symbol.range,
+      isDeclaration: true,
+    });
+  }
+
+  /* the first token spelling a name inside a node, outside the skipped */
+  private findName(
+    name: string,
+    node: ASTNode,
+    skip: (ASTNode | Range | null | undefined)[] = []
+  ): Range | null {
+    const { start, end } = node.location;
+    const skipped = skip
+      .filter((item): item is ASTNode | Range => !!item)
+      .map((item) =>
+        item instanceof ASTNode
+          ? [item.location.start.offset, item.location.end.offset]
+          : null
+      );
+
+    for (const token of this.tokens) {
+      if (token.start.offset < start.offset) {
+        continue;
+      }
+      if (token.end.offset > end.offset || token.type === TokenType.EOF) {
+        break;
+      }
+      if (token.value !== name) {
+        continue;
+      }
+
+      const range = toRange(token.start, token.end);
+      const inSkipped =
+        skipped.some(
+          (span) =>
+            span !== null &&
+            token.start.offset >= span[0] &&
+            token.end.offset <= span[1]
+        ) ||
+        skip.some(
+          (item) => item && !(item instanceof ASTNode) && sameRange(item, range)
+        );
+
+      if (!inSkipped) {
+        return range;
+      }
+    }
+    return null;
+  }
+}
+
+/*
+	====================================================================
+             --- HELPERS ---
+	====================================================================
+*/
+
+function containerKind(decl: Declaration): SymbolKind {
+  if (decl instanceof ClassDeclaration) {
+    return SymbolKind.CLASS;
+  }
+  if (decl instanceof StructDeclaration) {
+    return SymbolKind.STRUCT;
+  }
+  if (decl instanceof InterfaceDeclaration) {
+    return SymbolKind.INTERFACE;
+  }
+  if (decl instanceof EnumDeclaration) {
+    return SymbolKind.ENUM;
+  }
+  if (decl instanceof NamespaceDeclaration) {
+    return SymbolKind.NAMESPACE;
+  }
+  return SymbolKind.CLASS;
+}
+
+/* AST positions are 1-based, LSP positions 0-based */
+export function toRange(start: SourcePosition, end: SourcePosition): Range {
+  return {
+    start: { line: start.line - 1, character: start.column - 1 },
+    end: { line: end.line - 1, character: end.column - 1 },
+  };
+}
+
+function containsPosition(range: Range, position: Position): boolean {
+  return (
+    range.start.line === position.line &&
+    range.start.character <= position.character &&
+    position.character <= range.end.character
+  );
+}
+
+function sameRange(a: Range, b: Range): boolean {
+  return (
+    a.start.line === b.start.line &&
+    a.start.character === b.start.character &&
+    a.end.line === b.end.line &&
+    a.end.character === b.end.character
+  );
+}
+
+/*
+	====================================================================
+             --- EOF ---
+	====================================================================
+*/
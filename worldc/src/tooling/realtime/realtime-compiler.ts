@@ -23,23 +23,34 @@
 	       compilation, and provides immediate feedback to the developer
 	       through the IDE integration layer.
 
+	       a file is compiled with the files it imports. parsed files
+	       are cached by the hash of their content, so an edit parses
+	       only what changed, and a change to an imported file
+	       compiles every watched file that depends on it again.
+
 */
 
+import { createHash } from 'crypto';
 import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as path from 'path';
 import { performance } from 'perf_hooks';
 
-import { Lexer } from '../../lexer/lexer';
-import { Parser } from '../../parser/parser';
-import { SimpleSemanticAnalyzer } from '../../semantic/simple-analyzer';
-import { SymbolTable } from '../../semantic/symbol-table';
+import { Program } from '../../parser/ast';
 import {
-  WorldCCodeGenerator,
+  CodeGenerationUtilities,
+  CodegenDiagnostic,
+  CompilationPipeline,
+  CompilationResult,
   CompilationTarget,
   OptimizationLevel,
 } from '../../codegen';
-import { WorldCErrorHandler } from '../../error/error-handler';
+import { ModuleCache, ModuleRecord } from '../../semantic/compile-unit';
+import {
+  ModuleHost,
+  ModuleKind,
+  fileSystemHost,
+} from '../../semantic/module-resolver';
 
 /*
 	====================================================================
@@ -102,6 +113,17 @@ export interface PerformanceMetrics {
   totalTime: number /* total time (ms) */;
   memoryUsage: number /* memory usage (MB) */;
   linesPerSecond: number /* lines processed per second */;
+  files: FileMetrics[] /* each file compiled, imported files first */;
+}
+
+export interface FileMetrics {
+  file: string /* source file path */;
+  lexingTime: number /* lexing time (ms) */;
+  parsingTime: number /* parsing time (ms) */;
+  analysisTime: number /* analysis time (ms) */;
+  codegenTime: number /* code generation time (ms) */;
+  totalTime: number /* total time (ms) */;
+  isCached: boolean /* parsed tree reused from the cache */;
 }
 
 export interface SourceMapData {
@@ -259,26 +281,20 @@ class FileWatcher extends EventEmitter {
 */
 
 export class RealtimeCompiler extends EventEmitter {
-  private lexer: Lexer;
-  private parser: Parser;
-  private analyzer: SimpleSemanticAnalyzer;
-  private codeGenerator: WorldCCodeGenerator;
-  private errorHandler: WorldCErrorHandler;
   private fileWatcher: FileWatcher;
+  private cache: CompilationCache;
   private compilationQueue: Map<string, RealtimeCompilationRequest>;
+  private pendingCompilations: Map<string, RealtimeCompilationRequest>;
   private isCompiling: boolean;
   private lastResults: Map<string, RealtimeCompilationResult>;
 
-  constructor() {
+  constructor(cache: CompilationCache = new CompilationCache()) {
     super();
 
-    this.lexer = new Lexer('', {});
-    this.parser = new Parser([], {});
-    this.analyzer = new SimpleSemanticAnalyzer();
-    this.codeGenerator = new WorldCCodeGenerator();
-    this.errorHandler = new WorldCErrorHandler();
     this.fileWatcher = new FileWatcher();
+    this.cache = cache;
     this.compilationQueue = new Map();
+    this.pendingCompilations = new Map();
     this.isCompiling = false;
     this.lastResults = new Map();
 
@@ -291,7 +307,9 @@ export class RealtimeCompiler extends EventEmitter {
   	       ---
   	       configures event handling for file watching and
   	       compilation queue management. enables automatic
-  	       recompilation on file changes.
+  	       recompilation on file changes. a change to a file
+  	       that is only imported compiles the watched files
+  	       that depend on it.
 
   */
 
@@ -301,7 +319,16 @@ export class RealtimeCompiler extends EventEmitter {
 
       if (request) {
         this.queueCompilation(request);
+        return;
       }
+
+      if (fs.existsSync(filePath)) {
+        this.cache.update(filePath, fs.readFileSync(filePath, 'utf8'));
+      } else {
+        this.cache.invalidate(filePath);
+      }
+
+      this.queueDependents(filePath);
     });
   }
 
@@ -309,10 +336,11 @@ export class RealtimeCompiler extends EventEmitter {
 
            compile()
   	       ---
-  	       performs real-time compilation of WORLDSRC source code.
-  	       provides comprehensive feedback including errors, warnings,
-  	       and performance metrics. supports incremental compilation
-  	       for improved performance.
+  	       performs real-time compilation of WORLDSRC source code
+  	       together with the files it imports. files whose
+  	       content has not changed are not parsed again, and a
+  	       file whose content and imports have not changed since
+  	       it last compiled cleanly returns that result.
 
   */
 
@@ -320,6 +348,7 @@ export class RealtimeCompiler extends EventEmitter {
     request: RealtimeCompilationRequest
   ): Promise<RealtimeCompilationResult> {
     const startTime = performance.now();
+    const filePath = path.resolve(request.filePath);
 
     const result: RealtimeCompilationResult = {
       success: false,
@@ -332,121 +361,124 @@ export class RealtimeCompiler extends EventEmitter {
     };
 
     try {
-      /* stage 1: lexical analysis */
-      const lexStart = performance.now();
-      this.lexer = new Lexer(request.sourceCode, {});
-      const tokens = this.lexer.tokenize();
-      const lexTime = performance.now() - lexStart;
-
-      /* stage 2: parsing */
-      const parseStart = performance.now();
-      this.parser = new Parser(tokens, {});
-      const ast = this.parser.parse();
-      const parseTime = performance.now() - parseStart;
-
-      /* stage 3: semantic analysis */
-      const analysisStart = performance.now();
-      const symbolTable = new SymbolTable();
-      const analysisResult = this.analyzer.analyze(ast);
-      const analysisTime = performance.now() - analysisStart;
-
-      /* collect errors and warnings from analysis */
-      if (analysisResult.errors > 0) {
-        result.errors.push(...this.convertErrors([]));
+      /* unsaved content stands for the file on disk */
+      const host: ModuleHost = {
+        fileExists: (file) =>
+          path.resolve(file) === filePath || fileSystemHost.fileExists(file),
+        readFile: (file) =>
+          path.resolve(file) === filePath
+            ? request.sourceCode
+            : fileSystemHost.readFile(file),
+      };
+
+      /* a change to the file or anything it imports invalidates it */
+      this.cache.update(filePath, request.sourceCode);
+      for (const dependency of this.cache.getDependencies(filePath)) {
+        if (host.fileExists(dependency)) {
+          this.cache.update(dependency, host.readFile(dependency));
+        } else {
+          this.cache.invalidate(dependency);
+        }
       }
 
-      if (analysisResult.warnings > 0) {
-        result.warnings.push(...this.convertWarnings([]));
+      const cached = this.cache.get(filePath, request.sourceCode);
+
+      if (cached) {
+        this.finishCompilation(request, cached);
+        return cached;
       }
 
-      /* stage 4: code generation (if no critical errors) */
-      let codegenTime = 0;
-
-      if (result.errors.length === 0) {
-        const codegenStart = performance.now();
-
-        for (const target of request.targets) {
-          const generatedCode = await this.codeGenerator.compile({
-            sourceCode: request.sourceCode,
-            targets: target,
-            optimizationLevel: request.optimizationLevel,
-            outputDirectory: path.dirname(request.filePath),
-          });
-
-          if (generatedCode.success) {
-            const outputPath = this.generateOutputPath(
-              request.filePath,
-              target
-            );
-
-            const generatedFile: GeneratedFile = {
-              path: outputPath,
-              content: generatedCode.files[0] || '',
-              target: target,
-              size: Buffer.from(generatedCode.files[0] || '').length,
-            };
-
-            if (request.includeSourceMaps) {
-              generatedFile.sourceMap = outputPath + '.map';
-            }
-
-            result.generatedFiles.push(generatedFile);
-          } else {
-            /* add code generation errors */
-            if (generatedCode.errors) {
-              result.errors.push(
-                ...this.convertCodegenErrors(generatedCode.errors)
-              );
-            }
-          }
+      const project = await new CompilationPipeline().compileProject({
+        entries: [filePath],
+        host,
+        cache: this.cache,
+        target: request.targets,
+        options: {
+          ...CodeGenerationUtilities.getDefaultOptions(),
+          target: request.targets[0],
+          optimizationLevel: request.optimizationLevel,
+          sourceMaps: request.includeSourceMaps,
+        },
+        includeSourceMaps: request.includeSourceMaps,
+        includeTypeDeclarations: false,
+      });
+
+      /* stages 1-4 for each file, imported files first */
+      for (const module of project.unit.getModules()) {
+        const dependencies = project.unit.getDependencies(module.path);
+        this.cache.setDependencies(
+          module.path,
+          dependencies.map((dependency) => dependency.path)
+        );
+
+        const moduleResult = project.modules.get(module.path);
+
+        if (!moduleResult) {
+          continue;
         }
 
-        codegenTime = performance.now() - codegenStart;
+        result.errors.push(
+          ...this.convertDiagnostics(moduleResult.diagnostics, module.path)
+        );
+        result.warnings.push(
+          ...this.convertWarnings(moduleResult.warnings, module.path)
+        );
+        result.performance.files.push(
+          this.createFileMetrics(module, moduleResult)
+        );
+
+        if (module.path === filePath) {
+          result.generatedFiles.push(
+            ...this.collectGeneratedFiles(request, moduleResult)
+          );
+        }
+
+        /* imported project files are watched with the file */
+        if (
+          request.watchMode &&
+          module.path !== filePath &&
+          module.kind === ModuleKind.PROJECT
+        ) {
+          this.fileWatcher.watch(module.path);
+        }
       }
 
       /* calculate performance metrics */
       const totalTime = performance.now() - startTime;
+      const files = result.performance.files;
+      const sum = (time: (file: FileMetrics) => number) =>
+        files.reduce((total, file) => total + time(file), 0);
 
       result.performance = {
-        lexingTime: lexTime,
-        parsingTime: parseTime,
-        analysisTime: analysisTime,
-        codegenTime: codegenTime,
+        lexingTime: sum((file) => file.lexingTime),
+        parsingTime: sum((file) => file.parsingTime),
+        analysisTime: sum((file) => file.analysisTime),
+        codegenTime: sum((file) => file.codegenTime),
         totalTime: totalTime,
         memoryUsage: this.getMemoryUsage(),
         linesPerSecond: this.calculateLinesPerSecond(
           request.sourceCode,
           totalTime
         ),
+        files,
       };
 
       result.compilationTime = totalTime;
-      result.success = result.errors.length === 0;
-
-      /* cache result for incremental compilation */
-      this.lastResults.set(request.filePath, result);
-
-      /* start watching file if requested */
-      if (request.watchMode) {
-        this.fileWatcher.watch(request.filePath);
-        this.compilationQueue.set(request.filePath, request);
-      }
-
-      /* emit compilation events */
-      this.emit('compilationComplete', result);
+      result.success = project.success && result.errors.length === 0;
 
+      /* a failure may come from an import that does not exist yet */
       if (result.success) {
-        this.emit('compilationSuccess', result);
-      } else {
-        this.emit('compilationError', result);
+        this.cache.set(filePath, request.sourceCode, result);
       }
+
+      this.finishCompilation(request, result);
     } catch (error) {
       /* handle unexpected compilation errors */
       const compilationError: CompilationError = {
         file: request.filePath,
         line: 0,
         column: 0,
-        message: `Compilation failed: ${error.message}`,
+        message: `Compilation failed: ${(error as Error).message}`,
         category: ErrorCategory.COMPILATION_ERROR,
         severity: ErrorSeverity.ERROR,
         suggestions: ['Check syntax and try again'],
@@ -461,20 +493,48 @@ export class RealtimeCompiler extends EventEmitter {
     return result;
   }
 
+  /* records a result, watches its file if asked and reports it */
+  private finishCompilation(
+    request: RealtimeCompilationRequest,
+    result: RealtimeCompilationResult
+  ): void {
+    const filePath = path.resolve(request.filePath);
+
+    /* cache result for incremental compilation */
+    this.lastResults.set(filePath, result);
+
+    /* start watching file if requested */
+    if (request.watchMode) {
+      this.fileWatcher.watch(filePath);
+      this.compilationQueue.set(filePath, request);
+    }
+
+    /* emit compilation events */
+    this.emit('compilationComplete', result);
+
+    if (result.success) {
+      this.emit('compilationSuccess', result);
+    } else {
+      this.emit('compilationError', result);
+    }
+  }
+
   /*
 
            queueCompilation()
   	       ---
   	       queues a compilation request for batch processing.
-  	       prevents overlapping compilations and manages
-  	       compilation priority.
+  	       prevents overlapping compilations and keeps only the
+  	       latest request for each file. when the file's content
+  	       changed, the watched files that import it are queued
+  	       after it.
 
   */
 
   async queueCompilation(request: RealtimeCompilationRequest): Promise<void> {
     if (this.isCompiling) {
       /* update queue with latest request */
-      this.compilationQueue.set(request.filePath, request);
+      this.pendingCompilations.set(path.resolve(request.filePath), request);
       return;
     }
 
@@ -486,6 +546,11 @@ export class RealtimeCompiler extends EventEmitter {
         request.sourceCode = fs.readFileSync(request.filePath, 'utf8');
       }
 
+      const invalidated = this.cache.update(
+        path.resolve(request.filePath),
+        request.sourceCode
+      );
+
       const result = await this.compile(request);
 
       /* emit real-time feedback */
@@ -493,14 +558,30 @@ export class RealtimeCompiler extends EventEmitter {
         filePath: request.filePath,
         result: result,
       });
+
+      if (invalidated.length > 0) {
+        this.queueDependents(request.filePath);
+      }
     } finally {
       this.isCompiling = false;
 
       /* process next item in queue */
-      const nextRequest = this.compilationQueue.get(request.filePath);
+      const [next] = this.pendingCompilations.values();
 
-      if (nextRequest && nextRequest !== request) {
-        setImmediate(() => this.queueCompilation(nextRequest));
+      if (next) {
+        this.pendingCompilations.delete(path.resolve(next.filePath));
+        setImmediate(() => this.queueCompilation(next));
+      }
+    }
+  }
+
+  /* queues the watched files that import a file, directly or not */
+  private queueDependents(filePath: string): void {
+    for (const dependent of this.cache.getDependents(path.resolve(filePath))) {
+      const request = this.compilationQueue.get(dependent);
+
+      if (request) {
+        this.queueCompilation(request);
       }
     }
   }
@@ -545,8 +626,11 @@ export class RealtimeCompiler extends EventEmitter {
   */
 
   stopWatching(filePath: string): void {
+    filePath = path.resolve(filePath);
+
     this.fileWatcher.unwatch(filePath);
     this.compilationQueue.delete(filePath);
+    this.pendingCompilations.delete(filePath);
     this.lastResults.delete(filePath);
   }
 
@@ -562,6 +646,7 @@ export class RealtimeCompiler extends EventEmitter {
   stopWatchingAll(): void {
     this.fileWatcher.unwatchAll();
     this.compilationQueue.clear();
+    this.pendingCompilations.clear();
     this.lastResults.clear();
   }
 
@@ -575,7 +660,7 @@ export class RealtimeCompiler extends EventEmitter {
   */
 
   getLastResult(filePath: string): RealtimeCompilationResult | undefined {
-    return this.lastResults.get(filePath);
+    return this.lastResults.get(path.resolve(filePath));
   }
 
   /*
@@ -612,7 +697,7 @@ export class RealtimeCompiler extends EventEmitter {
 
     return {
       isCompiling: this.isCompiling,
-      queuedFiles: this.compilationQueue.size,
+      queuedFiles: this.pendingCompilations.size,
       watchedFiles: this.fileWatcher['watchedFiles'].size,
       totalCompilations: results.length,
       averageTime: results.length > 0 ? totalTime / results.length : 0,
@@ -621,50 +706,49 @@ export class RealtimeCompiler extends EventEmitter {
 
   /* utility methods for error conversion and metrics */
 
-  private convertErrors(errors: any[]): CompilationError[] {
-    return errors.map((error) => ({
-      file: error.file || 'unknown',
-      line: error.line || 0,
-      column: error.column || 0,
-      message: error.message || 'Unknown error',
-      category: this.mapErrorCategory(error.type),
+  private convertDiagnostics(
+    diagnostics: CodegenDiagnostic[],
+    file: string
+  ): CompilationError[] {
+    return diagnostics.map((diagnostic) => ({
+      file: diagnostic.location?.filename || file,
+      line: diagnostic.location?.line || 0,
+      column: diagnostic.location?.column || 0,
+      message: diagnostic.message || 'Unknown error',
+      category: this.mapErrorCategory(diagnostic.code),
       severity: ErrorSeverity.ERROR,
-      suggestions: error.suggestions || [],
+      suggestions: diagnostic.suggestion ? [diagnostic.suggestion] : [],
     }));
   }
 
-  private convertWarnings(warnings: any[]): CompilationWarning[] {
+  private convertWarnings(
+    warnings: CodegenDiagnostic[],
+    file: string
+  ): CompilationWarning[] {
     return warnings.map((warning) => ({
-      file: warning.file || 'unknown',
-      line: warning.line || 0,
-      column: warning.column || 0,
+      file: warning.location?.filename || file,
+      line: warning.location?.line || 0,
+      column: warning.location?.column || 0,
       message: warning.message || 'Unknown warning',
-      category: this.mapWarningCategory(warning.type),
-      canIgnore: warning.canIgnore !== false,
-    }));
-  }
-
-  private convertCodegenErrors(errors: any[]): CompilationError[] {
-    return errors.map((error) => ({
-      file: error.file || 'codegen',
-      line: 0,
-      column: 0,
-      message: error.message || 'Code generation error',
-      category: ErrorCategory.COMPILATION_ERROR,
-      severity: ErrorSeverity.ERROR,
-      suggestions: [],
+      category: this.mapWarningCategory(warning.code),
+      canIgnore: true,
     }));
   }
 
   private mapErrorCategory(type: string): ErrorCategory {
     switch (type) {
       case 'syntax':
+      case 'LEXICAL_ERROR':
+      case 'SYNTAX_ERROR':
         return ErrorCategory.SYNTAX_ERROR;
       case 'type':
+      case 'TYPE_ERROR':
         return ErrorCategory.TYPE_ERROR;
       case 'semantic':
+      case 'SEMANTIC_ERROR':
         return ErrorCategory.SEMANTIC_ERROR;
       case 'runtime':
+      case 'RUNTIME_ERROR':
         return ErrorCategory.RUNTIME_ERROR;
       default:
         return ErrorCategory.COMPILATION_ERROR;
@@ -707,6 +791,52 @@ export class RealtimeCompiler extends EventEmitter {
     }
   }
 
+  /* the generated code of a file, with the paths it is written to */
+  private collectGeneratedFiles(
+    request: RealtimeCompilationRequest,
+    moduleResult: CompilationResult
+  ): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    for (const [target, generated] of moduleResult.results) {
+      const outputPath = this.generateOutputPath(request.filePath, target);
+
+      const generatedFile: GeneratedFile = {
+        path: outputPath,
+        content: generated.generatedCode,
+        target: target,
+        size: Buffer.from(generated.generatedCode).length,
+      };
+
+      if (request.includeSourceMaps) {
+        generatedFile.sourceMap = outputPath + '.map';
+      }
+
+      files.push(generatedFile);
+    }
+
+    return files;
+  }
+
+  private createFileMetrics(
+    module: ModuleRecord,
+    moduleResult: CompilationResult
+  ): FileMetrics {
+    const file: FileMetrics = {
+      file: module.path,
+      lexingTime: module.timing.lexingTime,
+      parsingTime: module.timing.parsingTime,
+      analysisTime: module.timing.semanticAnalysisTime,
+      codegenTime: moduleResult.timing.codeGenerationTime,
+      totalTime: 0,
+      isCached: module.isCached,
+    };
+
+    file.totalTime =
+      file.lexingTime + file.parsingTime + file.analysisTime + file.codegenTime;
+    return file;
+  }
+
   private createEmptyMetrics(): PerformanceMetrics {
     return {
       lexingTime: 0,
@@ -716,6 +846,7 @@ export class RealtimeCompiler extends EventEmitter {
       totalTime: 0,
       memoryUsage: 0,
       linesPerSecond: 0,
+      files: [],
     };
   }
 
@@ -737,8 +868,21 @@ export class RealtimeCompiler extends EventEmitter {
 	====================================================================
 */
 
-export class CompilationCache {
+/*
+
+         CompilationCache
+	       ---
+	       keeps what compiling a file produced, keyed by its path
+	       and checked against a hash of its content: the parsed
+	       AST, which compile units reuse, and the last clean
+	       result. the import graph is kept apart from the entries
+	       so that evicting an entry does not lose its edges.
+
+*/
+
+export class CompilationCache implements ModuleCache {
   private cache: Map<string, CacheEntry>;
+  private dependencies: Map<string, Set<string>> /* file -> files it imports */;
   private maxSize: number;
   private maxAge: number;
 
@@ -746,6 +890,7 @@ export class CompilationCache {
     /* 1 hour */
 
     this.cache = new Map();
+    this.dependencies = new Map();
     this.maxSize = maxSize;
     this.maxAge = maxAge;
   }
@@ -754,25 +899,14 @@ export class CompilationCache {
 
            get()
   	       ---
-  	       retrieves cached compilation result if available
-  	       and not expired. returns undefined for cache misses.
+  	       retrieves cached compilation result if available,
+  	       not expired and compiled from the same content.
+  	       returns undefined for cache misses.
 
   */
 
-  get(key: string): RealtimeCompilationResult | undefined {
-    const entry = this.cache.get(key);
-
-    if (!entry) {
-      return undefined;
-    }
-
-    if (Date.now() - entry.timestamp > this.maxAge) {
-      this.cache.delete(key);
-      return undefined;
-    }
-
-    entry.lastAccessed = Date.now();
-    return entry.result;
+  get(file: string, sourceCode: string): RealtimeCompilationResult | undefined {
+    return this.lookup(file, sourceCode)?.result;
   }
 
   /*
@@ -784,31 +918,100 @@ export class CompilationCache {
 
   */
 
-  set(key: string, result: RealtimeCompilationResult): void {
-    if (this.cache.size >= this.maxSize) {
-      this.evictOldest();
-    }
+  set(
+    file: string,
+    sourceCode: string,
+    result: RealtimeCompilationResult
+  ): void {
+    this.entryFor(file, sourceCode).result = result;
+  }
 
-    const entry: CacheEntry = {
-      result: result,
-      timestamp: Date.now(),
-      lastAccessed: Date.now(),
-    };
+  /* the AST parsed from this content of the file, if kept */
+  getAST(file: string, sourceCode: string): Program | undefined {
+    return this.lookup(file, sourceCode)?.ast ?? undefined;
+  }
+
+  setAST(file: string, sourceCode: string, ast: Program): void {
+    this.entryFor(file, sourceCode).ast = ast;
+  }
+
+  /*
+
+           setDependencies()
+  	       ---
+  	       records the files a file imports, as its last
+  	       compilation resolved them.
+
+  */
+
+  setDependencies(file: string, dependencies: string[]): void {
+    this.dependencies.set(file, new Set(dependencies));
+  }
+
+  /* the files a file imports, directly or not */
+  getDependencies(file: string): string[] {
+    return this.walk(file, (next) => this.dependencies.get(next));
+  }
+
+  /* the files that import a file, directly or not */
+  getDependents(file: string): string[] {
+    return this.walk(file, (next) => {
+      const dependents: string[] = [];
+      for (const [dependent, imports] of this.dependencies) {
+        if (imports.has(next)) {
+          dependents.push(dependent);
+        }
+      }
+      return dependents;
+    });
+  }
+
+  /*
+
+           update()
+  	       ---
+  	       records the current content of a file. when it differs
+  	       from what was cached, the file's AST is dropped and the
+  	       results of the file and of every file that imports it
+  	       are invalidated. returns the files invalidated.
+
+  */
+
+  update(file: string, sourceCode: string): string[] {
+    const entry = this.cache.get(file);
+    const hash = contentHash(sourceCode);
 
-    this.cache.set(key, entry);
+    if (entry && entry.hash === hash) {
+      return [];
+    }
+
+    const invalidated = this.invalidate(file);
+    this.entryFor(file, sourceCode);
+    return invalidated;
   }
 
   /*
 
            invalidate()
   	       ---
-  	       removes entry from cache. used when source files
-  	       are modified or dependencies change.
+  	       removes a file from the cache together with the results
+  	       of the files that import it, whose ASTs stay valid.
+  	       returns the files invalidated.
 
   */
 
-  invalidate(key: string): void {
-    this.cache.delete(key);
+  invalidate(file: string): string[] {
+    this.cache.delete(file);
+
+    const dependents = this.getDependents(file);
+    for (const dependent of dependents) {
+      const entry = this.cache.get(dependent);
+      if (entry) {
+        entry.result = undefined;
+      }
+    }
+
+    return [file, ...dependents];
   }
 
   /*
@@ -822,6 +1025,68 @@ export class CompilationCache {
 
   clear(): void {
     this.cache.clear();
+    this.dependencies.clear();
+  }
+
+  /* the live entry for this content of the file */
+  private lookup(file: string, sourceCode: string): CacheEntry | undefined {
+    const entry = this.cache.get(file);
+
+    if (!entry || entry.hash !== contentHash(sourceCode)) {
+      return undefined;
+    }
+
+    if (Date.now() - entry.timestamp > this.maxAge) {
+      this.cache.delete(file);
+      return undefined;
+    }
+
+    entry.lastAccessed = Date.now();
+    return entry;
+  }
+
+  /* the entry for this content of the file, replacing a stale one */
+  private entryFor(file: string, sourceCode: string): CacheEntry {
+    const existing = this.lookup(file, sourceCode);
+
+    if (existing) {
+      return existing;
+    }
+
+    if (!this.cache.has(file) && this.cache.size >= this.maxSize) {
+      this.evictOldest();
+    }
+
+    const entry: CacheEntry = {
+      hash: contentHash(sourceCode),
+      ast: null,
+      timestamp: Date.now(),
+      lastAccessed: Date.now(),
+    };
+
+    this.cache.set(file, entry);
+    return entry;
+  }
+
+  /* the files reached from a file, breadth first, without it */
+  private walk(
+    file: string,
+    next: (file: string) => Iterable<string> | undefined
+  ): string[] {
+    const reached = new Set<string>([file]);
+    const queue = [file];
+
+    while (queue.length > 0) {
+      for (const found of next(queue.shift()!) || []) {
+        if (!reached.has(found)) {
+          reached.add(found);
+          queue.push(found);
+        }
+      }
+    }
+
+    reached.delete(file);
+    return [...reached];
   }
 
   /*
@@ -838,7 +1103,7 @@ export class CompilationCache {
     let oldestTime: number = Date.now();
 
     for (const [key, entry] of this.cache) {
-      if (entry.lastAccessed < oldestTime) {
+      if (entry.lastAccessed <= oldestTime) {
         oldestTime = entry.lastAccessed;
         oldestKey = key;
       }
@@ -851,11 +1116,17 @@ export class CompilationCache {
 }
 
 interface CacheEntry {
-  result: RealtimeCompilationResult;
+  hash: string /* hash of the content the entry was made from */;
+  ast: Program | null /* null until the content is parsed */;
+  result?: RealtimeCompilationResult /* last clean compilation */;
   timestamp: number;
   lastAccessed: number;
 }
 
+function contentHash(sourceCode: string): string {
+  return createHash('sha1').update(sourceCode).digest('hex');
+}
+
 /*
 	====================================================================
              --- EOF ---
@@ -0,0 +1,250 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         cli.test.ts
+           ---
+           tests for the worldc command line entry point.
+
+           drives runCli() in-process against temporary source
+           files and checks exit codes, written outputs and
+           the diagnostic formats consumed by the editor.
+
+*/
+
+/// <reference types="jest" />
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { runCli, ExitCode, CliIO } from '../src/cli/worldc';
+
+function createIO(): CliIO & { out: string; err: string } {
+  const io = {
+    out: '',
+    err: '',
+    stdout: (text: string) => {
+      io.out += text;
+    },
+    stderr: (text: string) => {
+      io.err += text;
+    },
+  };
+  return io;
+}
+
+describe('worldc CLI', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worldc-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function writeSource(name: string, source: string): string {
+    const file = path.join(workDir, name);
+    fs.writeFileSync(file, source, 'utf8');
+    return file;
+  }
+
+  test('compiles with the flags used by the editor', async () => {
+    const file = writeSource(
+      'game.wc',
+      'int add(int a, int b) {\n  int sum = a + b;\n  return sum;\n}\n'
+    );
+    const io = createIO();
+
+    const code = await runCli(
+      [
+        'compile',
+        file,
+        '--target',
+        'both',
+        '--optimization',
+        'aggressive',
+        '--format',
+        'esm',
+        '--source-maps',
+        '--declarations',
+        '--strict',
+      ],
+      io
+    );
+
+    expect(code).toBe(ExitCode.SUCCESS);
+    expect(fs.existsSync(path.join(workDir, 'game.ts'))).toBe(true);
+    expect(fs.existsSync(path.join(workDir, 'game.as.ts'))).toBe(true);
+    expect(fs.readFileSync(path.join(workDir, 'game.d.ts'), 'utf8')).toContain(
+      'declare function add(a: number, b: number): number;'
+    );
+    expect(fs.existsSync(path.join(workDir, 'game.as.d.ts'))).toBe(false);
+  });
+
+  test('minifies generated code and declares its exports', async () => {
+    const file = writeSource(
+      'game.wc',
+      '// adds two numbers\nexport int add(int a, int b) {\n  return a + b;\n}\n'
+    );
+
+    const code = await runCli(
+      ['compile', file, '--minify', '--declarations'],
+      createIO()
+    );
+    const output = fs.readFileSync(path.join(workDir, 'game.ts'), 'utf8');
+
+    expect(code).toBe(ExitCode.SUCCESS);
+    expect(output).toContain(
+      'export function add(a:number,b:number):number{return a+b;}'
+    );
+    expect(output).not.toMatch(/\/\/|\n {2}/);
+    expect(fs.readFileSync(path.join(workDir, 'game.d.ts'), 'utf8')).toContain(
+      'export declare function add(a: number, b: number): number;'
+    );
+  });
+
+  test('reports located syntax errors in the editor format', async () => {
+    const file = writeSource('bad.wc', 'int f() {\n  return 1 +;\n}\n');
+    const io = createIO();
+
+    const code = await runCli(['check', file], io);
+
+    expect(code).toBe(ExitCode.COMPILATION_ERROR);
+    expect(io.err).toMatch(/^error: .+ at .*bad\.wc:2:\d+$/m);
+  });
+
+  test('prints a JSON report with semantic diagnostics', async () => {
+    const file = writeSource('undefined.wc', 'void f() {\n  int x = y;\n}\n');
+    const io = createIO();
+
+    const code = await runCli(['validate', file, '--json'], io);
+    const report = JSON.parse(io.out);
+
+    expect(code).toBe(ExitCode.COMPILATION_ERROR);
+    expect(report.success).toBe(false);
+    expect(report.diagnostics[0]).toMatchObject({
+      severity: 'error',
+      line: 2,
+      filename: file,
+    });
+    expect(report.timing).toHaveProperty('parsingTime');
+  });
+
+  test('compiles the modules an input imports', async () => {
+    fs.mkdirSync(path.join(workDir, 'scripts', 'util'), { recursive: true });
+    writeSource(
+      'scripts/util/math.wc',
+      'export int square(int v) {\n  return v * v;\n}\n'
+    );
+    const file = writeSource(
+      'scripts/main.wc',
+      'import { square } from "util/math";\nint area() {\n  return square(3);\n}\n'
+    );
+    const outDir = path.join(workDir, 'out');
+
+    const code = await runCli(
+      ['compile', file, '--output', outDir],
+      createIO()
+    );
+
+    expect(code).toBe(ExitCode.SUCCESS);
+    expect(fs.existsSync(path.join(outDir, 'util', 'math.ts'))).toBe(true);
+    expect(fs.readFileSync(path.join(outDir, 'main.ts'), 'utf8')).toContain(
+      'import { square } from "./util/math";'
+    );
+  });
+
+  test('verifies a release against the checksums in its manifest', async () => {
+    const game = writeSource('game.zip', 'release bytes');
+    const checksum = `sha256:${crypto
+      .createHash('sha256')
+      .update('release bytes')
+      .digest('hex')}`;
+    writeSource(
+      'release-manifest.json',
+      JSON.stringify({ checksums: { 'game.zip': checksum } })
+    );
+    const io = createIO();
+
+    expect(await runCli(['verify', workDir], io)).toBe(ExitCode.SUCCESS);
+    expect(io.out).toContain('verified 1 file(s)');
+
+    fs.appendFileSync(game, 'tampered');
+    const tampered = createIO();
+    expect(await runCli(['verify', workDir], tampered)).toBe(
+      ExitCode.COMPILATION_ERROR
+    );
+    expect(tampered.err).toContain('game.zip');
+
+    expect(
+      await runCli(['verify', path.join(workDir, 'missing.json')], createIO())
+    ).toBe(ExitCode.USAGE_ERROR);
+  });
+
+  test('diffs the build manifests of two builds', async () => {
+    const entry = (name: string, hash: string, size: number) => ({
+      name,
+      path: name,
+      type: 'javascript',
+      hash,
+      size,
+    });
+    const before = writeSource(
+      'before.json',
+      JSON.stringify({
+        version: 1,
+        platform: 'web',
+        artifacts: [entry('main.js', 'sha256:1', 100)],
+        totalSize: 100,
+      })
+    );
+    const after = writeSource(
+      'after.json',
+      JSON.stringify({
+        version: 1,
+        platform: 'web',
+        artifacts: [entry('main.js', 'sha256:2', 120), entry('a.js', 'x', 5)],
+        totalSize: 125,
+      })
+    );
+    const io = createIO();
+
+    expect(await runCli(['diff', before, after], io)).toBe(ExitCode.SUCCESS);
+    expect(io.out).toContain('added    a.js (+5 bytes)');
+    expect(io.out).toContain('changed  main.js (100 -> 120, +20 bytes)');
+
+    expect(await runCli(['diff', before], createIO())).toBe(
+      ExitCode.USAGE_ERROR
+    );
+    expect(
+      await runCli(['diff', before, path.join(workDir, 'none')], createIO())
+    ).toBe(ExitCode.USAGE_ERROR);
+  });
+
+  test('rejects unknown commands and options as usage errors', async () => {
+    expect(await runCli(['frobnicate', 'x.wc'], createIO())).toBe(
+      ExitCode.USAGE_ERROR
+    );
+    expect(await runCli(['compile', 'x.wc', '--bogus'], createIO())).toBe(
+      ExitCode.USAGE_ERROR
+    );
+    expect(await runCli(['lsp', '--socket', 'http'], createIO())).toBe(
+      ExitCode.USAGE_ERROR
+    );
+    expect(
+      await runCli(['compile', 'x.wc', '--format', 'cjs'], createIO())
+    ).toBe(ExitCode.USAGE_ERROR);
+    expect(
+      await runCli(['compile', 'x.wc', '--minify', '--source-maps'], createIO())
+    ).toBe(ExitCode.USAGE_ERROR);
+  });
+});
@@ -0,0 +1,1860 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         codegen.test.ts
+           ---
+           tests for the WORLDSRC code generators.
+
+           builds ASTs directly from the node classes in ast.ts
+           so every node type is covered, including those the
+           parser cannot produce yet, and checks the emitted code.
+
+*/
+
+/// <reference types="jest" />
+/// <reference types="node" />
+
+import * as ts from 'typescript';
+import * as ast from '../src/parser/ast';
+import { Lexer } from '../src/lexer/lexer';
+import { Parser } from '../src/parser/parser';
+import { TypeScriptGenerator } from '../src/codegen/typescript-generator';
+import { AssemblyScriptGenerator } from '../src/codegen/assemblyscript-generator';
+import { CodeGenerationResult } from '../src/codegen/base-generator';
+import {
+  SourceMap,
+  decodeMappings,
+  getGeneratedPosition,
+  getOriginalPosition,
+} from '../src/codegen/source-map';
+import { CompileUnit } from '../src/semantic/compile-unit';
+import { ModuleResolver } from '../src/semantic/module-resolver';
+import { globalErrorHandler } from '../src/error/error-handler';
+
+const L: ast.SourceLocation = {
+  start: { line: 1, column: 1, offset: 0 },
+  end: { line: 1, column: 1, offset: 0 },
+};
+
+/* node builders */
+
+const id = (name: string) => new ast.Identifier(name, L);
+const num = (value: number) => new ast.Literal(value, String(value), L);
+const str = (value: string) => new ast.Literal(value, `"${value}"`, L);
+const type = (name: string) => new ast.PrimitiveType(name, L);
+const param = (name: string, typeName = 'int') =>
+  new ast.Parameter(name, type(typeName), null, false, false, L);
+const expr = (expression: ast.Expression) =>
+  new ast.ExpressionStatement(expression, L);
+const block = (...statements: ast.Statement[]) =>
+  new ast.BlockStatement(statements, L);
+const ret = (argument: ast.Expression | null) =>
+  new ast.ReturnStatement(argument, L);
+const binary = (
+  operator: string,
+  left: ast.Expression,
+  right: ast.Expression
+) => new ast.BinaryExpression(operator, left, right, L);
+
+/* wraps statements in '<returnType> f(int a, int b, any items)' */
+const fnReturning = (returnType: string, ...statements: ast.Statement[]) =>
+  new ast.FunctionDeclaration(
+    'f',
+    [param('a'), param('b'), param('items', 'any')],
+    type(returnType),
+    block(...statements),
+    false,
+    false,
+    false,
+    false,
+    [],
+    L
+  );
+const fn = (...statements: ast.Statement[]) =>
+  fnReturning('void', ...statements);
+
+/* empty declarations for types the fixtures refer to */
+const classDecl = (name: string) =>
+  new ast.ClassDeclaration(
+    name,
+    null,
+    [],
+    [],
+    false,
+    [],
+    ast.AccessModifier.Public,
+    L
+  );
+const interfaceDecl = (name: string) =>
+  new ast.InterfaceDeclaration(name, [], [], [], L);
+
+/* copies a struct on init, assignment, argument and return; probe()
+   returns 1 only when every copy holds its own value */
+const STRUCT_COPIES = [
+  'struct P { int x; int y; };',
+  'P identity(P p) { return p; }',
+  'int probe() {',
+  '  P a;',
+  '  a.x = 1;',
+  '  P b = a;',
+  '  b.x = 2;',
+  '  P c;',
+  '  c = a;',
+  '  c.x = 3;',
+  '  P d = identity(a);',
+  '  d.x = 4;',
+  '  return a.x;',
+  '}',
+].join('\n');
+
+async function generateTS(
+  ...declarations: ast.Declaration[]
+): Promise<CodeGenerationResult> {
+  const generator = new TypeScriptGenerator();
+  return generator.generate(
+    new ast.Program(declarations, L),
+    generator.getDefaultOptions()
+  );
+}
+
+async function emitTS(...declarations: ast.Declaration[]): Promise<string> {
+  const result = await generateTS(...declarations);
+
+  expect(globalErrorHandler.getErrors().map((e) => e.message)).toEqual([]);
+  expect(result.diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+  expect(result.warnings).toEqual([]);
+
+  return result.generatedCode;
+}
+
+/* emits statements inside f() and returns the body lines */
+async function emitStatements(...statements: ast.Statement[]): Promise<string> {
+  return emitTS(fn(...statements));
+}
+
+/* emits 'return <expression>;' inside f() and returns the expression */
+async function emitExpression(
+  expression: ast.Expression,
+  ...declarations: ast.Declaration[]
+): Promise<string> {
+  const code = await emitTS(
+    ...declarations,
+    fnReturning('any', ret(expression))
+  );
+  const match = code.match(/^ {2}return ([\s\S]*);\n\}/m);
+  return match ? match[1] : code;
+}
+
+async function generateAS(
+  source: string | ast.Declaration[]
+): Promise<CodeGenerationResult> {
+  const declarations =
+    typeof source === 'string'
+      ? new Parser(new Lexer(source).tokenize()).parse().declarations
+      : source;
+  const generator = new AssemblyScriptGenerator();
+  return generator.generate(
+    new ast.Program(declarations, L),
+    generator.getDefaultOptions()
+  );
+}
+
+async function emitAS(source: string | ast.Declaration[]): Promise<string> {
+  const result = await generateAS(source);
+
+  expect(globalErrorHandler.getErrors().map((e) => e.message)).toEqual([]);
+  expect(result.diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+  expect(result.warnings).toEqual([]);
+
+  return result.generatedCode;
+}
+
+/* error messages reported by the AssemblyScript generator */
+async function errorsAS(source: string | ast.Declaration[]): Promise<string[]> {
+  const result = await generateAS(source);
+
+  expect(result.success).toBe(false);
+  return result.diagnostics
+    .filter((d) => d.severity === 'error')
+    .map((d) => d.message);
+}
+
+beforeAll(() => {
+  globalErrorHandler.configure({ logToConsole: false, logToFile: false });
+});
+
+beforeEach(() => {
+  globalErrorHandler.clear();
+});
+
+describe('TypeScriptGenerator', () => {
+  describe('declarations', () => {
+    test('FunctionDeclaration', async () => {
+      const code = await emitTS(
+        new ast.FunctionDeclaration(
+          'add',
+          [param('a'), param('b')],
+          type('int'),
+          block(ret(binary('+', id('a'), id('b')))),
+          false,
+          false,
+          false,
+          true,
+          [new ast.TypeParameter('T', null, null, L)],
+          L
+        )
+      );
+
+      expect(code).toContain(
+        'async function add<T>(a: number, b: number): Promise<number> {\n' +
+          '  return a + b;\n' +
+          '}'
+      );
+    });
+
+    test('VariableDeclaration', async () => {
+      const code = await emitStatements(
+        new ast.VariableDeclaration(
+          'sum',
+          type('int'),
+          binary('+', id('a'), id('b')),
+          false,
+          false,
+          false,
+          L
+        ),
+        new ast.VariableDeclaration('k', null, num(3), true, false, false, L)
+      );
+
+      expect(code).toContain('  let sum: number = a + b;\n  const k = 3;\n');
+    });
+
+    test('ClassDeclaration', async () => {
+      const member = (
+        access: ast.AccessModifier,
+        isStatic: boolean,
+        declaration: ast.FunctionDeclaration | ast.VariableDeclaration
+      ) => new ast.ClassMember(access, isStatic, false, declaration, L);
+
+      const code = await emitTS(
+        classDecl('Entity'),
+        interfaceDecl('Drawable'),
+        new ast.ClassDeclaration(
+          'Player',
+          type('Entity'),
+          [type('Drawable')],
+          [
+            member(
+              ast.AccessModifier.Private,
+              false,
+              new ast.VariableDeclaration(
+                'health',
+                type('int'),
+                num(100),
+                false,
+                false,
+                false,
+                L
+              )
+            ),
+            member(
+              ast.AccessModifier.Public,
+              true,
+              new ast.VariableDeclaration(
+                'count',
+                type('int'),
+                null,
+                false,
+                false,
+                false,
+                L
+              )
+            ),
+            member(
+              ast.AccessModifier.Public,
+              false,
+              new ast.FunctionDeclaration(
+                'Player',
+                [param('hp')],
+                null,
+                block(
+                  expr(
+                    new ast.AssignmentExpression(
+                      '=',
+                      new ast.MemberExpression(
+                        new ast.ThisExpression(L),
+                        id('health'),
+                        false,
+                        false,
+                        L
+                      ),
+                      id('hp'),
+                      L
+                    )
+                  )
+                ),
+                false,
+                false,
+                false,
+                false,
+                [],
+                L
+              )
+            ),
+            member(
+              ast.AccessModifier.Protected,
+              false,
+              new ast.FunctionDeclaration(
+                'isAlive',
+                [],
+                type('bool'),
+                block(ret(new ast.Literal(true, 'true', L))),
+                false,
+                false,
+                false,
+                false,
+                [],
+                L
+              )
+            ),
+          ],
+          false,
+          [],
+          ast.AccessModifier.Public,
+          L
+        )
+      );
+
+      expect(code).toContain(
+        [
+          'class Player extends Entity implements Drawable {',
+          '  private health: number = 100;',
+          '  static count: number = 0;',
+          '',
+          '  constructor(hp: number) {',
+          '    this.health = hp;',
+          '  }',
+          '',
+          '  protected isAlive(): boolean {',
+          '    return true;',
+          '  }',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    test('InterfaceDeclaration', async () => {
+      const code = await emitTS(
+        interfaceDecl('Named'),
+        new ast.InterfaceDeclaration(
+          'Shape',
+          [type('Named')],
+          [
+            new ast.InterfaceMember(
+              new ast.VariableDeclaration(
+                'label',
+                new ast.OptionalType(type('string'), L),
+                null,
+                false,
+                false,
+                false,
+                L
+              ),
+              L
+            ),
+            new ast.InterfaceMember(
+              new ast.FunctionDeclaration(
+                'area',
+                [],
+                type('float'),
+                null,
+                false,
+                false,
+                false,
+                false,
+                [],
+                L
+              ),
+              L
+            ),
+          ],
+          [],
+          L
+        )
+      );
+
+      expect(code).toContain(
+        'interface Shape extends Named {\n  label?: string;\n  area(): number;\n}'
+      );
+    });
+
+    test('StructDeclaration', async () => {
+      const code = await emitTS(
+        classDecl('Entity'),
+        new ast.StructDeclaration(
+          'Particle',
+          [
+            new ast.StructMember(
+              'x',
+              type('float'),
+              ast.AccessModifier.Public,
+              L
+            ),
+            new ast.StructMember(
+              'alive',
+              type('bool'),
+              ast.AccessModifier.Public,
+              L
+            ),
+            new ast.StructMember(
+              'next',
+              new ast.PointerType(type('Particle'), L),
+              ast.AccessModifier.Public,
+              L
+            ),
+            new ast.StructMember(
+              'owner',
+              type('Entity'),
+              ast.AccessModifier.Public,
+              L
+            ),
+          ],
+          [],
+          [],
+          L
+        )
+      );
+
+      expect(code).toContain(
+        [
+          'class Particle {',
+          '  x: number = 0;',
+          '  alive: boolean = false;',
+          '  next: Particle | null = null;',
+          '  owner!: Entity;',
+          '',
+          '  clone(): Particle {',
+        ].join('\n')
+      );
+    });
+
+    test('EnumDeclaration', async () => {
+      const code = await emitTS(
+        new ast.EnumDeclaration(
+          'State',
+          [
+            new ast.EnumMember('Idle', num(1), L),
+            new ast.EnumMember('Running', null, L),
+          ],
+          type('int'),
+          L
+        )
+      );
+
+      expect(code).toContain('enum State {\n  Idle = 1,\n  Running,\n}');
+    });
+
+    test('NamespaceDeclaration', async () => {
+      const code = await emitTS(
+        new ast.NamespaceDeclaration(
+          'Physics',
+          [
+            new ast.VariableDeclaration(
+              'gravity',
+              type('float'),
+              num(9.8),
+              true,
+              false,
+              false,
+              L
+            ),
+          ],
+          L
+        )
+      );
+
+      expect(code).toContain(
+        'namespace Physics {\n  export const gravity: number = 9.8;\n}'
+      );
+    });
+
+    test('TypeAliasDeclaration', async () => {
+      const code = await emitTS(
+        new ast.TypeAliasDeclaration(
+          'Handler',
+          new ast.FunctionType([type('int')], type('void'), L),
+          [],
+          L
+        )
+      );
+
+      expect(code).toContain('type Handler = (param0: number) => void;');
+    });
+
+    test('ImportDeclaration', async () => {
+      const code = await emitTS(
+        new ast.ImportDeclaration(
+          [
+            new ast.ImportSpecifier('default', 'engine', L),
+            new ast.ImportSpecifier('Vec3', 'Vec3', L),
+            new ast.ImportSpecifier('Quat', 'Rotation', L),
+          ],
+          './math',
+          L
+        )
+      );
+
+      expect(code).toContain(
+        'import engine, { Vec3, Quat as Rotation } from "./math";'
+      );
+    });
+
+    test('ExportDeclaration', async () => {
+      const code = await emitTS(
+        new ast.ExportDeclaration(
+          new ast.VariableDeclaration(
+            'MAX',
+            type('int'),
+            num(8),
+            true,
+            false,
+            false,
+            L
+          ),
+          [],
+          null,
+          L
+        ),
+        new ast.ExportDeclaration(
+          null,
+          [new ast.ExportSpecifier('MAX', 'LIMIT', L)],
+          './limits',
+          L
+        )
+      );
+
+      expect(code).toContain('export const MAX: number = 8;');
+      expect(code).toContain('export { MAX as LIMIT } from "./limits";');
+    });
+  });
+
+  describe('statements', () => {
+    test('BlockStatement', async () => {
+      const code = await emitStatements(block(expr(id('a'))));
+
+      expect(code).toContain('  {\n    a;\n  }\n');
+    });
+
+    test('ExpressionStatement', async () => {
+      const code = await emitStatements(
+        expr(
+          new ast.CallExpression(
+            id('f'),
+            [id('a'), id('b'), id('items')],
+            [],
+            L
+          )
+        )
+      );
+
+      expect(code).toContain('  f(a, b, items);\n');
+    });
+
+    test('IfStatement', async () => {
+      const code = await emitStatements(
+        new ast.IfStatement(
+          binary('==', id('a'), num(0)),
+          block(ret(null)),
+          new ast.IfStatement(
+            binary('>', id('a'), id('b')),
+            expr(id('a')),
+            block(expr(id('b'))),
+            L
+          ),
+          L
+        )
+      );
+
+      expect(code).toContain(
+        [
+          '  if (a === 0) {',
+          '    return;',
+          '  } else if (a > b) {',
+          '    a;',
+          '  } else {',
+          '    b;',
+          '  }',
+        ].join('\n')
+      );
+    });
+
+    test('WhileStatement', async () => {
+      const code = await emitStatements(
+        new ast.WhileStatement(
+          binary('<', id('a'), id('b')),
+          block(expr(new ast.UpdateExpression('++', id('a'), false, L))),
+          L
+        )
+      );
+
+      expect(code).toContain('  while (a < b) {\n    a++;\n  }');
+    });
+
+    test('DoWhileStatement', async () => {
+      const code = await emitStatements(
+        new ast.DoWhileStatement(
+          block(expr(new ast.UpdateExpression('++', id('a'), false, L))),
+          binary('<', id('a'), id('b')),
+          L
+        )
+      );
+
+      expect(code).toContain('  do {\n    a++;\n  } while (a < b);');
+    });
+
+    test('ForStatement', async () => {
+      const code = await emitStatements(
+        new ast.ForStatement(
+          new ast.VariableDeclaration(
+            'i',
+            type('int'),
+            num(0),
+            false,
+            false,
+            false,
+            L
+          ),
+          binary('<', id('i'), id('b')),
+          new ast.UpdateExpression('++', id('i'), false, L),
+          block(new ast.ContinueStatement(null, L)),
+          L
+        )
+      );
+
+      expect(code).toContain(
+        '  for (let i: number = 0; i < b; i++) {\n    continue;\n  }'
+      );
+    });
+
+    test('ForInStatement', async () => {
+      const code = await emitStatements(
+        new ast.ForInStatement('key', id('items'), block(expr(id('key'))), L)
+      );
+
+      expect(code).toContain('  for (const key in items) {\n    key;\n  }');
+    });
+
+    test('ForOfStatement', async () => {
+      const code = await emitStatements(
+        new ast.ForOfStatement(
+          'item',
+          id('items'),
+          block(expr(id('item'))),
+          true,
+          L
+        )
+      );
+
+      expect(code).toContain(
+        '  for await (const item of items) {\n    item;\n  }'
+      );
+    });
+
+    test('SwitchStatement', async () => {
+      const code = await emitStatements(
+        new ast.SwitchStatement(
+          id('a'),
+          [
+            new ast.SwitchCase(
+              num(1),
+              [expr(id('b')), new ast.BreakStatement(null, L)],
+              L
+            ),
+            new ast.SwitchCase(null, [ret(null)], L),
+          ],
+          L
+        )
+      );
+
+      expect(code).toContain(
+        [
+          '  switch (a) {',
+          '    case 1:',
+          '      b;',
+          '      break;',
+          '    default:',
+          '      return;',
+          '  }',
+        ].join('\n')
+      );
+    });
+
+    test('TryStatement', async () => {
+      const code = await emitStatements(
+        new ast.TryStatement(
+          block(expr(id('a'))),
+          new ast.CatchClause('error', block(expr(id('error'))), L),
+          block(expr(id('b'))),
+          L
+        )
+      );
+
+      expect(code).toContain(
+        [
+          '  try {',
+          '    a;',
+          '  } catch (error) {',
+          '    error;',
+          '  } finally {',
+          '    b;',
+          '  }',
+        ].join('\n')
+      );
+    });
+
+    test('ReturnStatement', async () => {
+      const code = await emitTS(fnReturning('int', ret(id('a'))));
+
+      expect(code).toContain('  return a;\n');
+    });
+
+    test('BreakStatement and ContinueStatement', async () => {
+      const code = await emitStatements(
+        new ast.WhileStatement(
+          new ast.Literal(true, 'true', L),
+          block(
+            new ast.BreakStatement('outer', L),
+            new ast.ContinueStatement(null, L)
+          ),
+          L
+        )
+      );
+
+      expect(code).toContain('    break outer;\n    continue;\n');
+    });
+
+    test('ThrowStatement', async () => {
+      const code = await emitStatements(
+        new ast.ThrowStatement(
+          new ast.NewExpression(id('Error'), [str('bad')], [], L),
+          L
+        )
+      );
+
+      expect(code).toContain('  throw new Error("bad");\n');
+    });
+  });
+
+  describe('expressions', () => {
+    test('BinaryExpression restores grouping', async () => {
+      expect(
+        await emitExpression(
+          binary(
+            '*',
+            binary('+', id('a'), id('b')),
+            binary('-', id('a'), id('b'))
+          )
+        )
+      ).toBe('(a + b) * (a - b)');
+      expect(
+        await emitExpression(binary('-', id('a'), binary('-', id('b'), num(1))))
+      ).toBe('a - (b - 1)');
+    });
+
+    test('UnaryExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.UnaryExpression(
+            '-',
+            new ast.UnaryExpression('-', id('a'), true, L),
+            true,
+            L
+          )
+        )
+      ).toBe('-(-a)');
+      expect(
+        await emitExpression(
+          new ast.UnaryExpression('!', binary('&&', id('a'), id('b')), true, L)
+        )
+      ).toBe('!(a && b)');
+    });
+
+    test('AssignmentExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.AssignmentExpression('+=', id('a'), num(2), L)
+        )
+      ).toBe('a += 2');
+    });
+
+    test('UpdateExpression', async () => {
+      expect(
+        await emitExpression(new ast.UpdateExpression('--', id('a'), true, L))
+      ).toBe('--a');
+    });
+
+    test('LogicalExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.LogicalExpression(
+            '??',
+            id('a'),
+            new ast.LogicalExpression('||', id('b'), num(0), L),
+            L
+          )
+        )
+      ).toBe('a ?? (b || 0)');
+    });
+
+    test('ConditionalExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.ConditionalExpression(
+            binary('>', id('a'), id('b')),
+            id('a'),
+            id('b'),
+            L
+          )
+        )
+      ).toBe('a > b ? a : b');
+    });
+
+    test('CallExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.CallExpression(
+            id('clamp'),
+            [id('a'), num(0), num(1)],
+            [type('int')],
+            L
+          ),
+          new ast.FunctionDeclaration(
+            'clamp',
+            [param('x', 'T'), param('lo'), param('hi')],
+            type('int'),
+            null,
+            false,
+            false,
+            false,
+            false,
+            [new ast.TypeParameter('T', null, null, L)],
+            L
+          )
+        )
+      ).toBe('clamp<number>(a, 0, 1)');
+    });
+
+    test('MemberExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.MemberExpression(
+            new ast.MemberExpression(id('items'), num(0), true, false, L),
+            id('position'),
+            false,
+            true,
+            L
+          )
+        )
+      ).toBe('items[0]?.position');
+    });
+
+    test('ArrayExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.ArrayExpression([num(1), null, id('a')], L)
+        )
+      ).toBe('[1, , a]');
+    });
+
+    test('ObjectExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.ObjectExpression(
+            [
+              new ast.ObjectProperty(id('x'), num(1), false, false, L),
+              new ast.ObjectProperty(id('a'), id('a'), false, true, L),
+              new ast.ObjectProperty(
+                str('hit points'),
+                id('b'),
+                false,
+                false,
+                L
+              ),
+              new ast.ObjectProperty(id('b'), num(2), true, false, L),
+            ],
+            L
+          )
+        )
+      ).toBe('{ x: 1, a, "hit points": b, [b]: 2 }');
+    });
+
+    test('ArrowFunctionExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.ArrowFunctionExpression(
+            [param('x')],
+            new ast.ObjectExpression(
+              [new ast.ObjectProperty(id('x'), id('x'), false, true, L)],
+              L
+            ),
+            false,
+            null,
+            L
+          )
+        )
+      ).toBe('(x: number) => ({ x })');
+    });
+
+    test('FunctionExpression', async () => {
+      const code = await emitExpression(
+        new ast.FunctionExpression(
+          'double',
+          [param('x')],
+          block(ret(binary('*', id('x'), num(2)))),
+          false,
+          type('int'),
+          L
+        )
+      );
+
+      expect(code).toBe(
+        'function double(x: number): number {\n    return x * 2;\n  }'
+      );
+    });
+
+    test('LambdaExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.LambdaExpression(
+            [new ast.LambdaCapture('a', true, L)],
+            [param('x')],
+            binary('+', id('x'), id('a')),
+            type('int'),
+            L
+          )
+        )
+      ).toBe('(x: number): number => x + a');
+    });
+
+    test('NewExpression', async () => {
+      expect(
+        await emitExpression(
+          new ast.NewExpression(id('Map'), [], [type('string'), type('int')], L)
+        )
+      ).toBe('new Map<string, number>()');
+    });
+
+    test('ThisExpression and SuperExpression', async () => {
+      const method = (name: string, ...statements: ast.Statement[]) =>
+        new ast.ClassMember(
+          ast.AccessModifier.Public,
+          false,
+          false,
+          new ast.FunctionDeclaration(
+            name,
+            [],
+            type('any'),
+            block(...statements),
+            false,
+            false,
+            false,
+            false,
+            [],
+            L
+          ),
+          L
+        );
+      const unit = new ast.ClassDeclaration(
+        'Unit',
+        type('Entity'),
+        [],
+        [
+          method(
+            'parent',
+            ret(
+              new ast.MemberExpression(
+                new ast.SuperExpression(L),
+                id('update'),
+                false,
+                false,
+                L
+              )
+            )
+          ),
+          method('self', ret(new ast.ThisExpression(L))),
+        ],
+        false,
+        [],
+        ast.AccessModifier.Public,
+        L
+      );
+
+      const code = await emitTS(
+        new ast.ClassDeclaration(
+          'Entity',
+          null,
+          [],
+          [method('update')],
+          false,
+          [],
+          ast.AccessModifier.Public,
+          L
+        ),
+        unit
+      );
+
+      expect(code).toContain('    return super.update;\n');
+      expect(code).toContain('    return this;\n');
+    });
+
+    test('Identifier', async () => {
+      expect(await emitExpression(id('a'))).toBe('a');
+    });
+
+    test('Literal', async () => {
+      expect(await emitExpression(str('line\\n'))).toBe('"line\\n"');
+      expect(await emitExpression(num(2.5))).toBe('2.5');
+      expect(await emitExpression(new ast.Literal(null, 'nullptr', L))).toBe(
+        'null'
+      );
+    });
+
+    test('TemplateLiteral', async () => {
+      expect(
+        await emitExpression(
+          new ast.TemplateLiteral(
+            [
+              new ast.TemplateElement(
+                { raw: 'hp: ', cooked: 'hp: ' },
+                false,
+                L
+              ),
+              new ast.TemplateElement({ raw: '!', cooked: '!' }, true, L),
+            ],
+            [id('a')],
+            L
+          )
+        )
+      ).toBe('`hp: ${a}!`');
+    });
+
+    test('AwaitExpression', async () => {
+      const code = await emitTS(
+        new ast.FunctionDeclaration(
+          'f',
+          [param('load', 'any')],
+          null,
+          block(
+            ret(
+              new ast.AwaitExpression(
+                new ast.CallExpression(id('load'), [], [], L),
+                L
+              )
+            )
+          ),
+          false,
+          false,
+          false,
+          true,
+          [],
+          L
+        )
+      );
+
+      expect(code).toContain('  return await load();\n');
+    });
+
+    test('YieldExpression', async () => {
+      const code = await emitTS(
+        new ast.FunctionDeclaration(
+          'ids',
+          [param('rest', 'any')],
+          type('int'),
+          block(
+            expr(new ast.YieldExpression(num(1), false, L)),
+            expr(new ast.YieldExpression(id('rest'), true, L))
+          ),
+          false,
+          false,
+          false,
+          false,
+          [],
+          L
+        )
+      );
+
+      expect(code).toContain(
+        'function* ids(rest: any) {\n  yield 1;\n  yield* rest;\n}'
+      );
+    });
+  });
+
+  describe('types', () => {
+    const declare = (
+      typeNode: ast.TypeNode,
+      ...declarations: ast.Declaration[]
+    ) =>
+      emitTS(
+        ...declarations,
+        new ast.TypeAliasDeclaration('V', typeNode, [], L)
+      );
+
+    test('PrimitiveType', async () => {
+      expect(await declare(type('double'))).toContain('type V = number;');
+    });
+
+    test('ArrayType', async () => {
+      expect(
+        await declare(
+          new ast.ArrayType(new ast.PointerType(type('Node'), L), num(4), L),
+          classDecl('Node')
+        )
+      ).toContain('type V = (Node | null)[];');
+    });
+
+    test('PointerType', async () => {
+      expect(
+        await declare(new ast.PointerType(type('Node'), L), classDecl('Node'))
+      ).toContain('type V = Node | null;');
+    });
+
+    test('ReferenceType', async () => {
+      expect(await declare(new ast.ReferenceType(type('int'), L))).toContain(
+        'type V = number;'
+      );
+    });
+
+    test('FunctionType', async () => {
+      expect(
+        await declare(
+          new ast.FunctionType([type('int'), type('string')], type('bool'), L)
+        )
+      ).toContain('type V = (param0: number, param1: string) => boolean;');
+    });
+
+    test('GenericType', async () => {
+      expect(
+        await declare(new ast.GenericType('Array', [type('int')], L))
+      ).toContain('type V = Array<number>;');
+    });
+
+    test('UnionType', async () => {
+      expect(
+        await declare(new ast.UnionType([type('int'), type('string')], L))
+      ).toContain('type V = number | string;');
+    });
+
+    test('IntersectionType', async () => {
+      expect(
+        await declare(
+          new ast.IntersectionType([type('A'), type('B')], L),
+          interfaceDecl('A'),
+          interfaceDecl('B')
+        )
+      ).toContain('type V = A & B;');
+    });
+
+    test('TupleType', async () => {
+      expect(
+        await declare(new ast.TupleType([type('float'), type('bool')], L))
+      ).toContain('type V = [number, boolean];');
+    });
+
+    test('OptionalType', async () => {
+      expect(await declare(new ast.OptionalType(type('int'), L))).toContain(
+        'type V = number | undefined;'
+      );
+    });
+  });
+
+  test('keeps templates generic', async () => {
+    const program = new Parser(
+      new Lexer(
+        [
+          'template<typename T> class Box {',
+          '  public T value;',
+          '}',
+          'template<typename T> T pick(T a, T b) {',
+          '  return a;',
+          '}',
+          'void main() {',
+          '  Box<int> a = new Box();',
+          '  int z = pick<int>(1, 2);',
+          '}',
+        ].join('\n')
+      ).tokenize()
+    ).parse();
+    const code = await emitTS(...program.declarations);
+
+    expect(code).toContain('class Box<T> {');
+    expect(code).toContain('function pick<T>(a: T, b: T): T {');
+    expect(code).toContain('  let a: Box<number> = new Box();');
+    expect(code).toContain('  let z: number = pick<number>(1, 2);');
+  });
+
+  test('compiles parsed source end to end', async () => {
+    const source =
+      'int area(int w, int h) {\n  int result = (w + 1) * h;\n  return result;\n}\n';
+    const program = new Parser(new Lexer(source).tokenize()).parse();
+    const code = await emitTS(program.declarations[0]);
+
+    expect(code).toContain(
+      [
+        'function area(w: number, h: number): number {',
+        '  let result: number = (w + 1) * h;',
+        '  return result;',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  test('lowers vector math to the runtime math module', async () => {
+    const source = [
+      'vec3 move(vec3 p, vec3 v, mat4 m, quat q, float dt) {',
+      '  vec3 start = p;',
+      '  p += v * dt;',
+      '  vec2 uv = p.xz;',
+      '  vec4 h = m * vec4(1.0f);',
+      '  bool moved = start != p;',
+      '  return q * -p;',
+      '}',
+    ].join('\n');
+    const program = new Parser(new Lexer(source).tokenize()).parse();
+    const code = await emitTS(...program.declarations);
+
+    expect(code).toContain(
+      'import { Mat4, Quat, Vec2, Vec3, Vec4 } from "@worldenv/worldc/dist/runtime/math";'
+    );
+    expect(code).toContain(
+      [
+        'function move(p: Vec3, v: Vec3, m: Mat4, q: Quat, dt: number): Vec3 {',
+        '  let start: Vec3 = Vec3.clone(p);',
+        '  p = Vec3.add(p, Vec3.scale(v, dt));',
+        '  let uv: Vec2 = Vec2.swizzle(p, 0, 2);',
+        '  let h: Vec4 = Mat4.transform(m, Vec4.splat(1));',
+        '  let moved: boolean = !Vec3.equals(start, p);',
+        '  return Quat.rotate(q, Vec3.negate(p));',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  test('lowers operator members to methods', async () => {
+    const source = [
+      'struct Money {',
+      '  int cents;',
+      '  Money operator+(Money other) {',
+      '    Money sum;',
+      '    sum.cents = this.cents + other.cents;',
+      '    return sum;',
+      '  }',
+      '  Money operator-() {',
+      '    Money negated;',
+      '    negated.cents = -this.cents;',
+      '    return negated;',
+      '  }',
+      '};',
+      'int balance(Money a, Money b) {',
+      '  Money total = a + -b;',
+      '  total += a;',
+      '  return total.cents;',
+      '}',
+    ].join('\n');
+    const program = new Parser(new Lexer(source).tokenize()).parse();
+    const code = await emitTS(...program.declarations);
+
+    expect(code).toContain('  opAdd(other: Money): Money {');
+    expect(code).toContain('  opNeg(): Money {');
+    expect(code).toContain('  let total: Money = a.opAdd(b.opNeg());');
+    expect(code).toContain('  total = total.opAdd(a);');
+    expect(code).not.toContain('runtime/math');
+  });
+
+  test('reaches members named without this through this', async () => {
+    const source = [
+      'class Counter {',
+      '  private int count;',
+      '  public static int total;',
+      '  public void bump() {',
+      '    count = count + 1;',
+      '    total++;',
+      '    reset();',
+      '  }',
+      '  public void reset() {}',
+      '}',
+    ].join('\n');
+    const program = new Parser(new Lexer(source).tokenize()).parse();
+    const code = await emitTS(...program.declarations);
+
+    expect(code).toContain(
+      [
+        '  bump(): void {',
+        '    this.count = this.count + 1;',
+        '    Counter.total++;',
+        '    this.reset();',
+        '  }',
+      ].join('\n')
+    );
+  });
+
+  test('allocates zeroed structs with new', async () => {
+    const program = new Parser(
+      new Lexer(
+        'void f() {\n  Point p;\n  p.x = 1.0;\n}\nstruct Point { float x; };\n'
+      ).tokenize()
+    ).parse();
+    const code = await emitTS(...program.declarations);
+
+    expect(code).toContain('  let p: Point = new Point();\n  p.x = 1;');
+  });
+
+  test('copies structs by value', async () => {
+    const program = new Parser(new Lexer(STRUCT_COPIES).tokenize()).parse();
+    const code = await emitTS(...program.declarations);
+
+    expect(code).toContain(
+      [
+        '  clone(): P {',
+        '    const copy = new P();',
+        '    copy.x = this.x;',
+        '    copy.y = this.y;',
+        '    return copy;',
+        '  }',
+      ].join('\n')
+    );
+    expect(code).toContain('  return p.clone();');
+    expect(code).toContain('  let b: P = a.clone();');
+    expect(code).toContain('  c = a.clone();');
+    expect(code).toContain('  let d: P = identity(a.clone());');
+
+    const { outputText } = ts.transpileModule(code, {
+      compilerOptions: { target: ts.ScriptTarget.ES2020 },
+    });
+    expect(new Function(`${outputText}\nreturn probe();`)()).toBe(1);
+  });
+
+  test('initializes class fields', async () => {
+    const program = new Parser(
+      new Lexer(
+        'class Counter {\n  private int count;\n  public Counter next;\n}\n'
+      ).tokenize()
+    ).parse();
+    const code = await emitTS(...program.declarations);
+
+    expect(code).toContain('  private count: number = 0;');
+    expect(code).toContain('  next!: Counter;');
+  });
+});
+
+describe('AssemblyScriptGenerator', () => {
+  test('lowers structs to fixed-layout unmanaged classes', async () => {
+    const code = await emitAS(
+      'struct Particle {\n  float x;\n  int alive;\n  Particle* next;\n};\n'
+    );
+
+    expect(code).toContain(
+      [
+        '@unmanaged',
+        'class Particle {',
+        '  x: f32 = 0.0;',
+        '  alive: i32 = 0;',
+        '  next: usize = 0;',
+        '',
+        '  clone(): Particle {',
+      ].join('\n')
+    );
+  });
+
+  test('lowers enums to const enums', async () => {
+    const code = await emitAS('enum Mode { Idle, Running = 4, Done };\n');
+
+    expect(code).toContain(
+      'const enum Mode {\n  Idle,\n  Running = 4,\n  Done,\n}'
+    );
+  });
+
+  test('lowers switch, do/while and conditional expressions', async () => {
+    const code = await emitAS(
+      [
+        'int step(int mode) {',
+        '  int n = 0;',
+        '  do {',
+        '    n++;',
+        '  } while (n < 3);',
+        '  switch (mode) {',
+        '    case 0:',
+        '      n = mode > 1 ? 2 : 3;',
+        '      break;',
+        '    default:',
+        '      n = 1;',
+        '  }',
+        '  return n;',
+        '}',
+      ].join('\n')
+    );
+
+    expect(code).toContain(
+      [
+        '  do {',
+        '    n++;',
+        '  } while (n < 3);',
+        '  switch (mode) {',
+        '    case 0:',
+        '      n = mode > 1 ? 2 : 3;',
+        '      break;',
+        '    default:',
+        '      n = 1;',
+        '  }',
+      ].join('\n')
+    );
+  });
+
+  test('allocates zeroed structs with new', async () => {
+    const code = await emitAS(
+      'struct Vec { float x; };\nvoid f() {\n  Vec v;\n  v.x = 1;\n}\n'
+    );
+
+    expect(code).toContain('  let v: Vec = new Vec();\n  v.x = 1;');
+  });
+
+  test('copies structs by value', async () => {
+    const code = await emitAS(
+      `struct Box { P min; P max; };\n${STRUCT_COPIES}`
+    );
+
+    expect(code).toContain(
+      [
+        '  clone(): Box {',
+        '    const copy = new Box();',
+        '    copy.min = this.min.clone();',
+        '    copy.max = this.max.clone();',
+        '    return copy;',
+        '  }',
+      ].join('\n')
+    );
+    expect(code).toContain('  return p.clone();');
+    expect(code).toContain('  let b: P = a.clone();');
+    expect(code).toContain('  c = a.clone();');
+    expect(code).toContain('  let d: P = identity(a.clone());');
+  });
+
+  test('reserves clone in structs', async () => {
+    expect(
+      await errorsAS('struct P {\n  int x;\n  int clone() { return x; }\n};\n')
+    ).toEqual([expect.stringContaining('clone')]);
+  });
+
+  test('reaches members named without this through this', async () => {
+    const code = await emitAS(
+      [
+        'class Counter {',
+        '  private int count;',
+        '  public static int total;',
+        '  public void bump() {',
+        '    count = count + 1;',
+        '    total++;',
+        '  }',
+        '}',
+      ].join('\n')
+    );
+
+    expect(code).toContain('    this.count = this.count + 1;');
+    expect(code).toContain('    Counter.total++;');
+  });
+
+  test('monomorphizes templates per instantiation', async () => {
+    const code = await emitAS(
+      [
+        'template<typename T> class Box {',
+        '  public T value;',
+        '}',
+        'template<typename T, typename U = float> struct Pair {',
+        '  T first;',
+        '  U second;',
+        '};',
+        'template<typename T> T pick(T a, T b) {',
+        '  return a;',
+        '}',
+        'void main() {',
+        '  Box<int> a = new Box<int>();',
+        '  Box<Box<int>> b = new Box<Box<int>>();',
+        '  Pair<int> p;',
+        '  float y = pick(1, 2.5f);',
+        '}',
+      ].join('\n')
+    );
+
+    expect(code).toContain('class Box_i32 {');
+    expect(code).toContain('class Box_Box_i32 {\n  value!: Box_i32;');
+    expect(code).toContain('@unmanaged\nclass Pair_i32_f32 {');
+    expect(code).toContain('function pick_f32(a: f32, b: f32): f32 {');
+    expect(code).not.toContain('class Box<T>');
+    expect(code).toContain(
+      [
+        '  let a: Box_i32 = new Box_i32();',
+        '  let b: Box_Box_i32 = new Box_Box_i32();',
+        '  let p: Pair_i32_f32 = new Pair_i32_f32();',
+        '  let y: f32 = pick_f32(1, 2.5);',
+      ].join('\n')
+    );
+  });
+
+  test('scales pointer arithmetic by the element size', async () => {
+    const code = await emitAS(
+      [
+        'int distance(float* a, float* b) {',
+        '  float* c = a + 2;',
+        '  c++;',
+        '  return b - a;',
+        '}',
+      ].join('\n')
+    );
+
+    expect(code).toContain(
+      [
+        '  let c: usize = a + 2 * sizeof<f32>();',
+        '  c += sizeof<f32>();',
+        '  return <i32>((b - a) / sizeof<f32>());',
+      ].join('\n')
+    );
+  });
+
+  test('lowers dereferencing and indexing to loads and stores', async () => {
+    const code = await emitAS(
+      [
+        'struct Vec { float x; float y; };',
+        'float f(float* p, Vec* v, int i) {',
+        '  *p = 2.5f;',
+        '  p[i] += 1;',
+        '  return v->y + *p;',
+        '}',
+      ].join('\n')
+    );
+
+    expect(code).toContain(
+      [
+        '  store<f32>(p, 2.5);',
+        '  store<f32>(p + <usize>i * sizeof<f32>(), load<f32>(p + <usize>i * sizeof<f32>()) + 1);',
+        '  return changetype<Vec>(v).y + load<f32>(p);',
+      ].join('\n')
+    );
+  });
+
+  test('makes implicit numeric conversions explicit', async () => {
+    const code = await emitAS(
+      [
+        'int round(int v) {',
+        '  return v;',
+        '}',
+        'double mix(int a, float b, double c) {',
+        '  round(b);',
+        '  return a * b + c;',
+        '}',
+      ].join('\n')
+    );
+
+    expect(code).toContain('  round(<i32>b);');
+    expect(code).toContain('  return <f64>(<f32>a * b) + c;');
+  });
+
+  test('runs try/finally bodies in sequence', async () => {
+    const code = await emitAS(
+      'void f(int a) {\n  try {\n    a = 1;\n  } finally {\n    a = 2;\n  }\n}\n'
+    );
+
+    expect(code).toContain('  {\n    a = 1;\n  }\n  {\n    a = 2;\n  }');
+  });
+
+  test('reports unsupported features instead of dropping them', async () => {
+    const errors = await errorsAS(
+      [
+        'struct Named { string label; };',
+        'void run(int[] items) {',
+        '  for (k in items) {',
+        '    k;',
+        '  }',
+        '}',
+      ].join('\n')
+    );
+
+    expect(errors).toEqual([
+      "Field 'label' of struct 'Named' has managed type 'string'; struct fields must be value types or pointers",
+      'for-in loops are not supported by the AssemblyScript target',
+    ]);
+  });
+
+  test('reports closures over enclosing locals', async () => {
+    const closure = new ast.ArrowFunctionExpression(
+      [param('x')],
+      binary('*', id('x'), id('a')),
+      false,
+      type('int'),
+      L
+    );
+
+    const errors = await errorsAS([
+      new ast.FunctionDeclaration(
+        'f',
+        [param('a')],
+        type('void'),
+        block(expr(closure)),
+        false,
+        false,
+        false,
+        false,
+        [],
+        L
+      ),
+    ]);
+
+    expect(errors).toEqual([
+      'Closures are not supported by the AssemblyScript target (captures a)',
+    ]);
+  });
+
+  test('inlines component-wise vector math as f32 operations', async () => {
+    const code = await emitAS(
+      [
+        'vec3 step(vec3 p, vec3 v, int ticks) {',
+        '  vec3 start = p;',
+        '  p += v * ticks;',
+        '  vec2 uv = p.zy;',
+        '  return (p - start) * 0.5f + vec3(uv.x, uv.y, 1);',
+        '}',
+      ].join('\n')
+    );
+
+    expect(code).toContain(
+      [
+        'function step(p: Vec3, v: Vec3, ticks: i32): Vec3 {',
+        '  let start: Vec3 = new Vec3(p.x, p.y, p.z);',
+        '  p = Vec3.add(p, new Vec3(v.x * <f32>ticks, v.y * <f32>ticks, v.z * <f32>ticks));',
+        '  let uv: Vec2 = new Vec2(p.z, p.y);',
+        '  return Vec3.add(Vec3.scale(new Vec3(p.x - start.x, p.y - start.y, p.z - start.z), 0.5), new Vec3(uv.x, uv.y, 1));',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  test('emits only the math classes a program uses', async () => {
+    const code = await emitAS(
+      'vec4 project(mat4 m, quat q, vec3 p) {\n  vec3 r = q * p;\n  return m * vec4(r.x, r.y, r.z, 1.0f);\n}\n'
+    );
+
+    expect(code).toContain('@final\nclass Vec3 {');
+    expect(code).toContain('@final\nclass Vec4 {');
+    expect(code).toContain('@final\nclass Quat {');
+    expect(code).toContain(
+      '  constructor(public m: StaticArray<f32> = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]) {}'
+    );
+    expect(code).not.toContain('class Vec2');
+    expect(code).not.toContain('class Mat3');
+    expect(code.indexOf('class Mat4')).toBeLessThan(
+      code.indexOf('function project')
+    );
+    expect(code).toContain('  let r: Vec3 = Quat.rotate(q, p);');
+    expect(code).toContain(
+      '  return Mat4.transform(m, new Vec4(r.x, r.y, r.z, 1.0));'
+    );
+  });
+
+  test('decorates operator members with @operator', async () => {
+    const code = await emitAS(
+      [
+        'struct Money {',
+        '  int cents;',
+        '  Money operator+(Money other) {',
+        '    Money sum;',
+        '    sum.cents = this.cents + other.cents;',
+        '    return sum;',
+        '  }',
+        '  Money operator-() {',
+        '    Money negated;',
+        '    negated.cents = -this.cents;',
+        '    return negated;',
+        '  }',
+        '};',
+        'Money settle(Money a, Money b) {',
+        '  return a + -b;',
+        '}',
+      ].join('\n')
+    );
+
+    expect(code).toContain('  @operator("+")\n  opAdd(other: Money): Money {');
+    expect(code).toContain('  @operator.prefix("-")\n  opNeg(): Money {');
+    expect(code).toContain('  return a + -b;');
+  });
+});
+
+describe('modules', () => {
+  const files: { [file: string]: string } = {
+    '/project/scripts/util/math.wc': [
+      'export struct Point {',
+      '  float x;',
+      '};',
+      'export float lengthOf(Point p) { return p.x; }',
+    ].join('\n'),
+    '/project/scripts/game/main.wc': [
+      'import { Point, lengthOf } from "util/math";',
+      'import { Engine } from "@worldenv/engine";',
+      'export float measure(Point p) { return lengthOf(p); }',
+      'export float origin() {',
+      '  Point p;',
+      '  return p.x;',
+      '}',
+      'export { Point as Position } from "../util/math.wc";',
+    ].join('\n'),
+  };
+
+  /* code generated for main.wc as part of its compile unit */
+  async function emitMain(
+    generator: TypeScriptGenerator | AssemblyScriptGenerator
+  ): Promise<string> {
+    const unit = new CompileUnit(
+      new ModuleResolver('/project', {
+        fileExists: (file) => file in files,
+        readFile: (file) => files[file],
+      })
+    );
+    expect(unit.build(['/project/scripts/game/main.wc']).success).toBe(true);
+
+    const main = unit.getModule('/project/scripts/game/main.wc')!;
+    const result = await generator.generate(
+      main.ast!,
+      generator.getDefaultOptions(),
+      { analysis: main.analysis!, outputPaths: main.outputPaths }
+    );
+    expect(result.diagnostics).toEqual([]);
+
+    return result.generatedCode;
+  }
+
+  test('imports project modules by their TypeScript output', async () => {
+    const code = await emitMain(new TypeScriptGenerator());
+
+    expect(code).toContain('import { Point, lengthOf } from "../util/math";');
+    expect(code).toContain('import { Engine } from "@worldenv/engine";');
+    expect(code).toContain('export function measure(p: Point): number {');
+    expect(code).toContain('export { Point as Position } from "../util/math";');
+    expect(code).toContain('  let p: Point = new Point();');
+  });
+
+  test('imports project modules by their AssemblyScript output', async () => {
+    const code = await emitMain(new AssemblyScriptGenerator());
+
+    expect(code).toContain(
+      'import { Point, lengthOf } from "../util/math.as";'
+    );
+    expect(code).toContain(
+      'export { Point as Position } from "../util/math.as";'
+    );
+    expect(code).toContain('  let p: Point = new Point();');
+  });
+});
+
+describe('source maps', () => {
+  const source = [
+    '// counts ticks',
+    '',
+    'int add(int a, int b) {',
+    '  int c = a + b;',
+    '  return c;',
+    '}',
+    '',
+    'vec3 up() {',
+    '  return vec3(0.0, 1.0, 0.0);',
+    '}',
+  ].join('\n');
+
+  async function generateMapped(
+    generator: TypeScriptGenerator | AssemblyScriptGenerator,
+    outputPath: string
+  ): Promise<{ code: string; map: SourceMap }> {
+    const program = new Parser(new Lexer(source).tokenize()).parse();
+    const result = await generator.generate(program, {
+      ...generator.getDefaultOptions(),
+      sourceMaps: true,
+      sourceFile: '/project/scripts/main.wc',
+      outputPath,
+    });
+    expect(result.diagnostics).toEqual([]);
+
+    return { code: result.generatedCode, map: JSON.parse(result.sourceMap!) };
+  }
+
+  /* source line of each mapped generated line, by its generated text */
+  function mappedLines(code: string, map: SourceMap): [string, number][] {
+    const lines = code.split('\n');
+    return decodeMappings(map).map((m) => [
+      lines[m.generated.line - 1].trim(),
+      m.original.line,
+    ]);
+  }
+
+  test('maps TypeScript output back to source lines', async () => {
+    const { code, map } = await generateMapped(
+      new TypeScriptGenerator(),
+      '/project/out/main.ts'
+    );
+
+    expect(map).toMatchObject({
+      version: 3,
+      file: 'main.ts',
+      sources: ['../scripts/main.wc'],
+    });
+    expect(code.trimEnd().endsWith('//# sourceMappingURL=main.ts.map')).toBe(
+      true
+    );
+    expect(mappedLines(code, map)).toEqual([
+      ['function add(a: number, b: number): number {', 3],
+      ['let c: number = a + b;', 4],
+      ['return c;', 5],
+      ['function up(): Vec3 {', 8],
+      ['return new Vec3(0, 1, 0);', 9],
+    ]);
+  });
+
+  test('maps AssemblyScript output past the math prelude', async () => {
+    const { code, map } = await generateMapped(
+      new AssemblyScriptGenerator(),
+      '/project/scripts/main.as.ts'
+    );
+
+    expect(map.sources).toEqual(['main.wc']);
+    expect(mappedLines(code, map)).toContainEqual(['return c;', 5]);
+    expect(mappedLines(code, map)).toContainEqual([
+      'return new Vec3(0.0, 1.0, 0.0);',
+      9,
+    ]);
+  });
+
+  test('looks positions up in either direction', async () => {
+    const { code, map } = await generateMapped(
+      new TypeScriptGenerator(),
+      '/project/out/main.ts'
+    );
+    const lines = code.split('\n');
+    const returnLine = lines.indexOf('  return c;') + 1;
+
+    expect(getOriginalPosition(map, returnLine, 10)).toEqual({
+      source: '../scripts/main.wc',
+      line: 5,
+      column: 3,
+    });
+    expect(getGeneratedPosition(map, 0, 5)).toEqual({
+      line: returnLine,
+      column: 3,
+    });
+
+    /* a blank line moves to the code after it */
+    expect(getGeneratedPosition(map, 0, 7)!.line).toBe(
+      lines.indexOf('function up(): Vec3 {') + 1
+    );
+    expect(getGeneratedPosition(map, 0, 11)).toBeNull();
+  });
+});
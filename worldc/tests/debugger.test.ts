@@ -0,0 +1,230 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         debugger.test.ts
+           ---
+           end-to-end tests for the debug adapter.
+
+           compiles a WORLDC source with source maps, runs the
+           output under the adapter through its stdio transport
+           and checks that breakpoints, stepping and inspection
+           all speak in terms of the WORLDC source.
+
+*/
+
+/// <reference types="jest" />
+/// <reference types="node" />
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+
+import { runCli } from '../src/cli/worldc';
+import { WorldSrcDebugAdapter } from '../src/tooling/debugging/debug-protocol';
+
+const SOURCE = [
+  'export int add(int a, int b) {',
+  '  int sum = a + b;',
+  '  return sum;',
+  '}',
+  '',
+  'int total = add(2, 3);',
+  'int doubled = total * 2;',
+  '',
+].join('\n');
+
+/* a DAP client talking to an adapter over in-memory streams */
+class TestClient {
+  private input = new PassThrough();
+  private output = new PassThrough();
+  private buffer = Buffer.alloc(0);
+  private seq = 1;
+  private waiters: ((message: any) => boolean)[] = [];
+  public messages: any[] = [];
+  public done: Promise<void>;
+
+  constructor(adapter: WorldSrcDebugAdapter) {
+    this.done = adapter.start(this.input, this.output);
+    this.output.on('data', (chunk: Buffer) => this.read(chunk));
+  }
+
+  request(command: string, args?: any): Promise<any> {
+    const seq = this.seq++;
+    const json = JSON.stringify({
+      seq,
+      type: 'request',
+      command,
+      arguments: args,
+    });
+
+    this.input.write(
+      `Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`
+    );
+    return this.waitFor(
+      (message) => message.type === 'response' && message.request_seq === seq
+    );
+  }
+
+  event(name: string): Promise<any> {
+    return this.waitFor(
+      (message) => message.type === 'event' && message.event === name
+    );
+  }
+
+  private waitFor(match: (message: any) => boolean): Promise<any> {
+    return new Promise((resolve) => {
+      this.waiters.push((message) => {
+        if (!match(message)) {
+          return false;
+        }
+        resolve(message);
+        return true;
+      });
+    });
+  }
+
+  private read(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) {
+        return;
+      }
+
+      const length = Number(
+        /Content-Length: (\d+)/.exec(
+          this.buffer.subarray(0, headerEnd).toString()
+        )![1]
+      );
+      const end = headerEnd + 4 + length;
+      if (this.buffer.length < end) {
+        return;
+      }
+
+      const message = JSON.parse(
+        this.buffer.subarray(headerEnd + 4, end).toString()
+      );
+      this.buffer = this.buffer.subarray(end);
+      this.messages.push(message);
+      this.waiters = this.waiters.filter((waiter) => !waiter(message));
+    }
+  }
+}
+
+describe('debug adapter', () => {
+  let workDir: string;
+  let source: string;
+  let program: string;
+
+  beforeEach(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worldc-debug-'));
+    source = path.join(workDir, 'game.wc');
+    program = path.join(workDir, 'out', 'game.ts');
+    fs.writeFileSync(source, SOURCE, 'utf8');
+
+    const io = { stdout: () => undefined, stderr: () => undefined };
+    const code = await runCli(
+      ['compile', source, '--source-maps', '-o', path.join(workDir, 'out')],
+      io
+    );
+    expect(code).toBe(0);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('stops at WORLDC breakpoints and inspects the frame', async () => {
+    const client = new TestClient(new WorldSrcDebugAdapter());
+
+    await client.request('initialize', { adapterID: 'worldsrc' });
+    expect((await client.request('launch', { program })).success).toBe(true);
+
+    const set = await client.request('setBreakpoints', {
+      source: { path: source },
+      breakpoints: [{ line: 2 }],
+    });
+    expect(set.body.breakpoints).toHaveLength(1);
+
+    const stopped = client.event('stopped');
+    await client.request('configurationDone');
+    expect((await stopped).body.reason).toBe('breakpoint');
+
+    const trace = await client.request('stackTrace', { threadId: 1 });
+    const [top, caller] = trace.body.stackFrames;
+    expect(top).toMatchObject({ name: 'add', line: 2 });
+    expect(top.source.path).toBe(source);
+    expect(caller.line).toBe(6);
+
+    const scopes = await client.request('scopes', { frameId: top.id });
+    const locals = await client.request('variables', {
+      variablesReference: scopes.body.scopes[0].variablesReference,
+    });
+    expect(locals.body.variables).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'a', value: '2' }),
+        expect.objectContaining({ name: 'b', value: '3' }),
+      ])
+    );
+
+    const sum = await client.request('evaluate', {
+      expression: 'a + b',
+      frameId: top.id,
+    });
+    expect(sum.body.result).toBe('5');
+
+    const stepped = client.event('stopped');
+    await client.request('next', { threadId: 1 });
+    expect((await stepped).body.reason).toBe('step');
+
+    const next = await client.request('stackTrace', { threadId: 1 });
+    expect(next.body.stackFrames[0].line).toBe(3);
+
+    const terminated = client.event('terminated');
+    await client.request('continue', { threadId: 1 });
+    await terminated;
+
+    await client.request('disconnect');
+    await client.done;
+  }, 30000);
+
+  test('logs through log points without stopping', async () => {
+    const client = new TestClient(new WorldSrcDebugAdapter());
+
+    await client.request('initialize', { adapterID: 'worldsrc' });
+    await client.request('launch', { program });
+    await client.request('setBreakpoints', {
+      source: { path: source },
+      breakpoints: [{ line: 3, logMessage: 'sum is {sum}' }],
+    });
+
+    const output = client.event('output');
+    const terminated = client.event('terminated');
+    await client.request('configurationDone');
+
+    expect((await output).body.output).toBe('sum is 5\n');
+    await terminated;
+    expect(client.messages.some((m) => m.event === 'stopped')).toBe(false);
+
+    await client.request('disconnect');
+    await client.done;
+  }, 30000);
+
+  test('refuses to step without a program', async () => {
+    const client = new TestClient(new WorldSrcDebugAdapter());
+
+    const response = await client.request('next', { threadId: 1 });
+    expect(response.success).toBe(false);
+    expect(response.message).toMatch(/No program/);
+
+    await client.request('disconnect');
+    await client.done;
+  });
+});
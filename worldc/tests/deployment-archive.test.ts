@@ -0,0 +1,217 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         deployment-archive.test.ts
+           ---
+           tests for release packaging: the zip, tar.gz and
+           ASAR writers, the Electron packages built with them,
+           and release manifests verified against their
+           SHA-256 checksums.
+
+*/
+
+/// <reference types="jest" />
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+import {
+  ArchiveEntry,
+  ArchiveError,
+  createAsarArchive,
+  createTarGzArchive,
+  createZipArchive,
+  readAsarArchive,
+  readTarGzArchive,
+  readZipArchive,
+  sha256,
+} from '../src/deployment/archive';
+import {
+  DeploymentMode,
+  DeploymentUtils,
+  OptimizationProfile,
+  PlatformTarget,
+} from '../src/deployment/base-deployment';
+import { DistributionManagerFactory } from '../src/deployment/distribution-manager';
+import { ElectronDeployment } from '../src/deployment/electron-deployment';
+
+const ENTRIES: ArchiveEntry[] = [
+  { path: 'main.js', data: 'console.log("main");\n'.repeat(20) },
+  { path: 'assets/logo.svg', data: Buffer.from('<svg/>') },
+  { path: 'bin/game', data: '#!/bin/sh\n', mode: 0o755 },
+];
+
+function contents(entries: ArchiveEntry[]): [string, string, number?][] {
+  return entries.map((entry) => [
+    entry.path,
+    entry.data.toString(),
+    entry.mode,
+  ]);
+}
+
+describe('archives', () => {
+  const expected = contents(ENTRIES).map(
+    ([file, data, mode]) => [file, data, mode ?? 0o644] as const
+  );
+
+  test('zip archives hold their entries and modes', () => {
+    const archive = createZipArchive(ENTRIES);
+
+    expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+    expect(contents(readZipArchive(archive))).toEqual(expected);
+    expect(
+      contents(readZipArchive(createZipArchive(ENTRIES, { level: 0 })))
+    ).toEqual(expected);
+  });
+
+  test('tar.gz archives hold their entries, long paths included', () => {
+    const long = { path: `${'dir/'.repeat(30)}file.txt`, data: 'deep' };
+    const archive = createTarGzArchive([...ENTRIES, long]);
+    const tar = zlib.gunzipSync(archive);
+
+    expect(tar.toString('latin1', 257, 262)).toBe('ustar');
+    expect(contents(readTarGzArchive(archive))).toEqual([
+      ...expected,
+      [long.path, 'deep', 0o644],
+    ]);
+  });
+
+  test('asar archives map each file to its data and hash', () => {
+    const archive = createAsarArchive(ENTRIES);
+    const header = JSON.parse(
+      archive.toString('utf8', 16, 16 + archive.readUInt32LE(12))
+    );
+
+    expect(header.files.assets.files['logo.svg']).toEqual(
+      expect.objectContaining({
+        size: 6,
+        offset: String(Buffer.byteLength(ENTRIES[0].data)),
+      })
+    );
+    expect(header.files.assets.files['logo.svg'].integrity.hash).toBe(
+      sha256('<svg/>').slice('sha256:'.length)
+    );
+    expect(header.files.bin.files.game.executable).toBe(true);
+    expect(contents(readAsarArchive(archive))).toEqual(expected);
+  });
+
+  test('the same entries always make the same archive', () => {
+    expect(sha256(createZipArchive(ENTRIES))).toBe(
+      sha256(createZipArchive(ENTRIES))
+    );
+    expect(sha256(createTarGzArchive(ENTRIES))).toBe(
+      sha256(createTarGzArchive(ENTRIES))
+    );
+  });
+
+  test('checksums name their algorithm and match the manifest hashes', async () => {
+    const archive = createZipArchive(ENTRIES);
+
+    expect(await DeploymentUtils.calculateChecksum(archive)).toBe(
+      sha256(archive)
+    );
+    expect(await DeploymentUtils.calculateChecksum('abc', 'md5')).toBe(
+      'md5:900150983cd24fb0d6963f7d28e17f72'
+    );
+  });
+
+  test('refuses paths that leave the archive', () => {
+    for (const file of ['../escape.js', '/etc/passwd', 'a//b']) {
+      expect(() => createZipArchive([{ path: file, data: '' }])).toThrow(
+        ArchiveError
+      );
+    }
+  });
+});
+
+describe('Electron packages and release manifests', () => {
+  let outputDirectory: string;
+
+  beforeEach(() => {
+    outputDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'worldc-release-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(outputDirectory, { recursive: true, force: true });
+  });
+
+  async function deploy() {
+    return new ElectronDeployment({
+      platform: PlatformTarget.DESKTOP,
+      mode: DeploymentMode.PRODUCTION,
+      sourceDirectory: outputDirectory,
+      outputDirectory,
+      optimization: OptimizationProfile.PRODUCTION,
+      appInfo: {
+        name: 'Game',
+        version: '1.0.0',
+        description: 'A game',
+        author: 'Someone',
+      },
+      targetPlatforms: ['linux', 'win32'],
+      targetArchitectures: ['x64'],
+      packaging: { createZip: true, createPortable: true },
+    } as any).deploy();
+  }
+
+  test('writes each package with its app archive and checksums', async () => {
+    const result = await deploy();
+    const [linux, windows] = result.packages;
+    const asarPath = `${outputDirectory}/packages/linux-x64/resources/app.asar`;
+    const asar = fs.readFileSync(asarPath);
+
+    expect(result.success).toBe(true);
+    expect(readAsarArchive(asar).map((entry) => entry.path)).toEqual(
+      expect.arrayContaining(['main.js', 'index.html', 'package.json'])
+    );
+    expect(linux.size).toBe(asar.length);
+    expect(linux.portable).toMatch(/portable\.tar\.gz$/);
+    expect(windows.portable).toMatch(/portable\.zip$/);
+
+    expect(linux.checksums![asarPath]).toBe(sha256(asar));
+    expect(linux.checksum).toBe(sha256(fs.readFileSync(linux.zip!)));
+    expect(
+      readZipArchive(fs.readFileSync(windows.zip!)).map((e) => e.path)
+    ).toEqual(['resources/app.asar']);
+  });
+
+  test('verifies a release and finds files that changed', async () => {
+    const result = await deploy();
+    const manager = DistributionManagerFactory.createDefault(outputDirectory);
+    const release = await manager.createReleaseManifest({
+      version: '1.0.0',
+      appInfo: { name: 'Game', description: 'A game', author: 'Someone' },
+      packages: result.packages.map((pkg) => ({
+        target: 'electron',
+        platform: pkg.platform,
+        architecture: pkg.architecture,
+        files: Object.keys(pkg.checksums!),
+        size: pkg.size,
+      })),
+      buildNumber: 1,
+      buildTimestamp: new Date(0).toISOString(),
+    });
+
+    expect(release.success).toBe(true);
+    expect(await manager.verifyRelease(release.manifestPath)).toEqual(
+      expect.objectContaining({ success: true, mismatched: [], missing: [] })
+    );
+
+    fs.appendFileSync(result.packages[0].zip!, 'tampered');
+    fs.rmSync(result.packages[1].zip!);
+
+    const verification = await manager.verifyRelease(release.manifestPath);
+    expect(verification.success).toBe(false);
+    expect(verification.mismatched).toEqual(['packages/Game-linux-x64.zip']);
+    expect(verification.missing).toEqual(['packages/Game-win32-x64.zip']);
+  });
+});
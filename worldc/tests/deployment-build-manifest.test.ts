@@ -0,0 +1,194 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         deployment-build-manifest.test.ts
+           ---
+           tests for reproducible production builds: content
+           hashed file names, the build manifest, and the diff
+           of the manifests of two builds.
+
+*/
+
+/// <reference types="jest" />
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  DeploymentMode,
+  OptimizationProfile,
+  PlatformTarget,
+} from '../src/deployment/base-deployment';
+import {
+  BuildManifest,
+  BuildManifestError,
+  contentHashedPath,
+  diffBuildManifests,
+  readBuildManifest,
+} from '../src/deployment/build-manifest';
+import {
+  ProductionPipeline,
+  ProductionRequest,
+} from '../src/deployment/production-pipeline';
+
+describe('production builds', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worldc-build-'));
+    writeSource('main.wc', 'int area() {\n  return 3 * 3;\n}\n');
+    writeSource('theme.css', 'body {\n  color: red;\n}\n');
+    writeSource('assets/logo.svg', '<svg/>');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function writeSource(name: string, source: string): void {
+    const file = path.join(workDir, 'src', name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, source, 'utf8');
+  }
+
+  function build(output: string, request: Partial<ProductionRequest> = {}) {
+    return new ProductionPipeline().build({
+      sourceDirectory: path.join(workDir, 'src'),
+      outputDirectory: path.join(workDir, output),
+      platform: PlatformTarget.WEB,
+      mode: DeploymentMode.PRODUCTION,
+      optimization: {
+        profile: OptimizationProfile.PRODUCTION,
+        bundleSplitting: true,
+      },
+      appInfo: {
+        name: 'Game',
+        version: '1.0.0',
+        description: 'A game',
+        author: 'Someone',
+      },
+      buildNumber: Math.floor(Math.random() * 1000),
+      ...request,
+    });
+  }
+
+  test('the same sources always make the same build', async () => {
+    const first = await build('first');
+    const second = await build('second');
+
+    expect(first.success).toBe(true);
+    expect(second.manifest).toEqual(first.manifest);
+    expect(readBuildManifest(path.join(workDir, 'first'))).toEqual(
+      first.manifest
+    );
+  });
+
+  test('names bundles and stylesheets by their content', async () => {
+    const result = await build('out');
+    const files = result.manifest!.artifacts;
+    const bundle = files.find((f) => f.name === 'main.bundle.js')!;
+    const html = fs.readFileSync(path.join(workDir, 'out/index.html'), 'utf8');
+
+    expect(bundle.path).toMatch(/^main\.bundle\.[0-9a-f]{8}\.js$/);
+    expect(fs.existsSync(path.join(workDir, 'out', bundle.path))).toBe(true);
+    expect(html).toContain(`src="${bundle.path}"`);
+    expect(html).toContain(
+      `href="${files.find((f) => f.name === 'theme.css')!.path}"`
+    );
+
+    /* pages and assets keep their names */
+    expect(files.map((f) => f.path)).toEqual(
+      expect.arrayContaining(['index.html', 'assets/logo.svg'])
+    );
+    expect(result.metrics.buildSize).toBe(result.manifest!.totalSize);
+  });
+
+  test('keeps file names as they are without content hashing', async () => {
+    const result = await build('out', { contentHashing: false });
+
+    expect(result.manifest!.artifacts.every((f) => f.name === f.path)).toBe(
+      true
+    );
+  });
+
+  test('reports what changed from one build to the next', async () => {
+    const before = await build('before');
+    writeSource('main.wc', 'int area() {\n  return 4 * 4 * 4;\n}\n');
+    writeSource('assets/title.svg', '<svg></svg>');
+    fs.rmSync(path.join(workDir, 'src/assets/logo.svg'));
+    const after = await build('after');
+
+    const diff = diffBuildManifests(before.manifest!, after.manifest!);
+    const bundle = diff.changed.find((c) => c.name === 'main.bundle.js')!;
+
+    expect(diff.added.map((f) => f.name)).toEqual(['assets/title.svg']);
+    expect(diff.removed.map((f) => f.name)).toEqual(['assets/logo.svg']);
+    expect(bundle.before.path).not.toBe(bundle.after.path);
+    expect(bundle.sizeDelta).toBe(bundle.after.size - bundle.before.size);
+    expect(diff.changed.map((c) => c.name)).not.toContain('vendor.bundle.js');
+    expect(diff.sizeDelta).toBe(
+      after.manifest!.totalSize - before.manifest!.totalSize
+    );
+  });
+});
+
+describe('build manifests', () => {
+  const manifest = (files: [string, string, number][]): BuildManifest => ({
+    version: 1,
+    platform: 'web',
+    artifacts: files.map(([name, hash, size]) => ({
+      name,
+      path: name,
+      type: 'asset',
+      size,
+      hash,
+    })),
+    totalSize: files.reduce((sum, [, , size]) => sum + size, 0),
+  });
+
+  test('diffs the files of two builds by name', () => {
+    const diff = diffBuildManifests(
+      manifest([
+        ['a.js', 'sha256:1', 10],
+        ['b.js', 'sha256:2', 20],
+        ['c.js', 'sha256:3', 30],
+      ]),
+      manifest([
+        ['a.js', 'sha256:1', 10],
+        ['c.js', 'sha256:4', 25],
+        ['d.js', 'sha256:5', 5],
+      ])
+    );
+
+    expect(diff.added.map((f) => f.name)).toEqual(['d.js']);
+    expect(diff.removed.map((f) => f.name)).toEqual(['b.js']);
+    expect(diff.changed).toEqual([
+      expect.objectContaining({ name: 'c.js', sizeDelta: -5 }),
+    ]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.sizeDelta).toBe(-20);
+  });
+
+  test('puts the content hash before the extension', () => {
+    expect(contentHashedPath('dist/main.js', 'x')).toMatch(
+      /^dist\/main\.[0-9a-f]{8}\.js$/
+    );
+    expect(contentHashedPath('dist/LICENSE', 'x')).toMatch(
+      /^dist\/LICENSE\.[0-9a-f]{8}$/
+    );
+  });
+
+  test('refuses a manifest that cannot be read', () => {
+    expect(() => readBuildManifest('/no/such/build-manifest.json')).toThrow(
+      BuildManifestError
+    );
+  });
+});
@@ -0,0 +1,170 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         deployment-compression.test.ts
+           ---
+           tests for the precompressed .gz and .br copies of
+           build artifacts, and how web and PWA builds and the
+           distribution manifest report them.
+
+*/
+
+/// <reference types="jest" />
+
+import * as zlib from 'zlib';
+import {
+  BuildArtifact,
+  DeploymentMode,
+  OptimizationProfile,
+  PlatformTarget,
+} from '../src/deployment/base-deployment';
+import {
+  compressArtifacts,
+  isCompressible,
+} from '../src/deployment/compression';
+import { DistributionManagerFactory } from '../src/deployment/distribution-manager';
+import { PWADeployment } from '../src/deployment/pwa-deployment';
+
+const SCRIPT = 'function update(state) { return state; }\n'.repeat(40);
+
+function artifact(path: string, content?: string): BuildArtifact {
+  return {
+    id: path,
+    type: path.endsWith('.js') ? 'javascript' : 'asset',
+    path,
+    size: content === undefined ? 1000 : Buffer.byteLength(content),
+    content,
+  };
+}
+
+function pwa(compressionLevel?: number): PWADeployment {
+  return new PWADeployment({
+    platform: PlatformTarget.WEB,
+    mode: DeploymentMode.PRODUCTION,
+    sourceDirectory: 'src',
+    outputDirectory: 'dist',
+    optimization: OptimizationProfile.PRODUCTION,
+    manifest: {
+      name: 'Game',
+      shortName: 'Game',
+      description: 'A game',
+      startUrl: '/',
+      display: 'standalone',
+      themeColor: '#000000',
+      backgroundColor: '#111111',
+      icons: [{ src: 'icon.png', sizes: '192x192', type: 'image/png' }],
+    },
+    serviceWorker: { enabled: true, strategy: 'cache-first' },
+    features: { offlineSupport: true },
+    pwaOptimization:
+      compressionLevel === undefined ? undefined : { compressionLevel },
+  } as any);
+}
+
+describe('compressArtifacts', () => {
+  test('adds gzip and brotli copies that decompress to the original', () => {
+    const [original, gzip, brotli] = compressArtifacts([
+      artifact('dist/main.js', SCRIPT),
+    ]);
+
+    expect(gzip.path).toBe('dist/main.js.gz');
+    expect(gzip.contentEncoding).toBe('gzip');
+    expect(zlib.gunzipSync(gzip.data!).toString()).toBe(SCRIPT);
+
+    expect(brotli.path).toBe('dist/main.js.br');
+    expect(brotli.contentEncoding).toBe('br');
+    expect(zlib.brotliDecompressSync(brotli.data!).toString()).toBe(SCRIPT);
+
+    expect(original.metadata?.gzipSize).toBe(gzip.size);
+    expect(original.metadata?.brotliSize).toBe(brotli.size);
+    expect(gzip.size).toBeLessThan(original.size);
+  });
+
+  test('skips compressed formats and artifacts without content', () => {
+    const image = { ...artifact('dist/logo.png'), data: Buffer.alloc(64) };
+    const unread = artifact('dist/level.json');
+
+    expect(isCompressible(image)).toBe(false);
+    expect(isCompressible(unread)).toBe(false);
+    expect(compressArtifacts([image, unread])).toEqual([image, unread]);
+  });
+
+  test('leaves out copies that are no smaller than the original', () => {
+    const tiny = artifact('dist/a.js', 'a()');
+
+    expect(compressArtifacts([tiny])).toEqual([tiny]);
+  });
+
+  test('compresses nothing at level 0', () => {
+    const script = artifact('dist/main.js', SCRIPT);
+
+    expect(compressArtifacts([script], { level: 0 })).toEqual([script]);
+  });
+});
+
+describe('PWADeployment compression', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('emits precompressed copies next to the build output', async () => {
+    const result = await pwa().deploy();
+    const sw = result.artifacts.find((a) => a.path === 'dist/sw.js')!;
+
+    expect(result.files).toEqual(
+      expect.arrayContaining(['dist/sw.js.gz', 'dist/sw.js.br'])
+    );
+    expect(result.files).not.toContain('dist/icon.png.gz');
+    expect(sw.metadata?.gzipSize).toBeGreaterThan(0);
+    expect(result.metrics.compressionRatio).toBeGreaterThan(0);
+
+    /* the copies do not count towards the build size */
+    expect(result.metrics.buildSize).toBe(
+      result.artifacts
+        .filter((a) => a.contentEncoding === undefined)
+        .reduce((sum, a) => sum + a.size, 0)
+    );
+  });
+
+  test('honours the compression level of the build', async () => {
+    const fast = await pwa(1).deploy();
+    const best = await pwa(9).deploy();
+    const off = await pwa(0).deploy();
+    const size = (result: typeof fast) =>
+      result.artifacts.find((a) => a.path === 'dist/index.html.br')!.size;
+
+    expect(size(best)).toBeLessThan(size(fast));
+    expect(off.artifacts.some((a) => a.contentEncoding)).toBe(false);
+  });
+
+  test('lists the copies of each artifact in the distribution manifest', async () => {
+    const { artifacts } = await pwa().deploy();
+    const distribution = await DistributionManagerFactory.createDefault(
+      'out'
+    ).processCompilationResult({
+      success: true,
+      artifacts,
+      diagnostics: [],
+      warnings: [],
+    });
+    const manifest = JSON.parse(distribution.manifest);
+    const sw = manifest.artifacts.find((a: any) => a.path === 'dist/sw.js');
+    const gzip = artifacts.find((a) => a.path === 'dist/sw.js.gz')!;
+
+    expect(sw.encodings.gzip).toEqual({ path: gzip.path, size: gzip.size });
+    expect(sw.encodings.br.path).toBe('dist/sw.js.br');
+    expect(manifest.artifacts.some((a: any) => a.path.endsWith('.gz'))).toBe(
+      false
+    );
+    expect(distribution.compressedSize).toBeLessThan(distribution.totalSize);
+  });
+});
@@ -0,0 +1,330 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         deployment-optimizer.test.ts
+           ---
+           tests for the deployment optimizers: minifying
+           JavaScript, CSS and HTML, removing dead code and
+           unused exports, and the sizes the optimization
+           engine reports.
+
+*/
+
+/// <reference types="jest" />
+
+import {
+  BuildArtifact,
+  OptimizationProfile,
+} from '../src/deployment/base-deployment';
+import {
+  eliminateDeadCode,
+  minifyCSS,
+  minifyHTML,
+  minifyJavaScript,
+  MinifyError,
+  selectCriticalCSS,
+} from '../src/deployment/minifier';
+import { OptimizationEngineFactory } from '../src/deployment/optimization-engine';
+import { shakeModules } from '../src/deployment/tree-shaker';
+
+/* runs a script and returns what it logged */
+function run(code: string): string[] {
+  const lines: string[] = [];
+  new Function('log', code)((...values: unknown[]) =>
+    lines.push(values.join(' '))
+  );
+  return lines;
+}
+
+function artifact(
+  id: string,
+  type: BuildArtifact['type'],
+  path: string,
+  content?: string
+): BuildArtifact {
+  return {
+    id,
+    type,
+    path,
+    size: content === undefined ? 1000 : Buffer.byteLength(content),
+    content,
+  };
+}
+
+const SCRIPT = [
+  '// totals the scores',
+  'const scores = [3, 1, 2];',
+  'let total = 0',
+  'for (const score of scores) {',
+  '  total += score',
+  '}',
+  'const label = `total: ${total}`;',
+  '/[a-z]+/g.test(label) && log(label)',
+  'const half = total / 2',
+  'log(half.toFixed(1), 1 .toString(), -(-total), typeof total)',
+  'function shout(text) {',
+  '  return text',
+  '    .toUpperCase()',
+  '}',
+  'log(shout("done"))',
+].join('\n');
+
+describe('minifyJavaScript', () => {
+  test('produces a smaller script that runs as the original', () => {
+    const minified = minifyJavaScript(SCRIPT);
+
+    expect(minified.length).toBeLessThan(SCRIPT.length);
+    expect(minified).not.toContain('totals the scores');
+    expect(run(minified)).toEqual(run(SCRIPT));
+  });
+
+  test('keeps line breaks where a statement could otherwise continue', () => {
+    const code = [
+      'let a = 1',
+      'let b = a',
+      '++b',
+      'function f() {',
+      '  return',
+      '  a',
+      '}',
+      'log(a, b, f())',
+    ].join('\n');
+    const minified = minifyJavaScript(code);
+
+    expect(minified).toContain('b=a\n++b');
+    expect(run(minified)).toEqual(run(code));
+  });
+
+  test('keeps licence comments when comments are preserved', () => {
+    const code = '/*! licence */\nconst a = 1; // note\nlog(a)';
+
+    expect(minifyJavaScript(code)).toBe('const a=1;log(a)');
+    expect(minifyJavaScript(code, { preserveComments: true })).toContain(
+      '/*! licence */'
+    );
+  });
+
+  test('rejects a script that does not parse', () => {
+    expect(() => minifyJavaScript('const = 1;', { fileName: 'a.js' })).toThrow(
+      MinifyError
+    );
+  });
+});
+
+describe('eliminateDeadCode', () => {
+  test('removes branches that never run and code after a return', () => {
+    const code = [
+      'if (false) { log("never") } else { log("always") }',
+      'while (false) { log("loop") }',
+      'function f() {',
+      '  return 1;',
+      '  log("unreachable");',
+      '}',
+      'log(true ? f() : 2)',
+    ].join('\n');
+    const result = eliminateDeadCode(code);
+
+    expect(result).not.toContain('never');
+    expect(result).not.toContain('loop');
+    expect(result).not.toContain('unreachable');
+    expect(run(result)).toEqual(run(code));
+  });
+
+  test('keeps declarations hoisted out of dead code', () => {
+    const code = 'log(g());\nif (false) { function g() { return 2; } var x; }';
+    const result = eliminateDeadCode(code);
+
+    expect(result).toContain('function g()');
+    expect(result).toContain('var x');
+  });
+});
+
+describe('minifyCSS', () => {
+  test('removes comments, whitespace and empty rules', () => {
+    const css = [
+      '/* theme */',
+      'body  {  margin: 0 ;  color: red; }',
+      '.empty { }',
+      'a > b ,  c ~ d { content: "a  ;  b" }',
+    ].join('\n');
+
+    expect(minifyCSS(css)).toBe(
+      'body{margin:0;color:red}a>b,c~d{content:"a  ;  b"}'
+    );
+  });
+
+  test('selects the rules the markup uses', () => {
+    const css =
+      'body{margin:0}#game{display:block}.menu{color:red}.unused{top:0}';
+    const html = '<body><canvas id="game"></canvas><div class="a menu">';
+
+    expect(selectCriticalCSS(css, html)).toBe(
+      'body{margin:0}#game{display:block}.menu{color:red}'
+    );
+  });
+});
+
+describe('minifyHTML', () => {
+  test('collapses whitespace and removes comments', () => {
+    const html = [
+      '<!DOCTYPE html>',
+      '<html>',
+      '  <!-- header -->',
+      '  <body   class="main">',
+      '    <p>Hello   <b>world</b></p>',
+      '    <pre>  kept\n  as is</pre>',
+      '  </body>',
+      '</html>',
+    ].join('\n');
+    const minified = minifyHTML(html);
+
+    expect(minified).not.toContain('header');
+    expect(minified).toContain('<body class="main">');
+    expect(minified).toContain('<p>Hello <b>world</b></p>');
+    expect(minified).toContain('<pre>  kept\n  as is</pre>');
+  });
+
+  test('minifies embedded scripts and styles', () => {
+    const html =
+      '<style> body { margin: 0; } </style>\n<script>\n  const a = 1;\n  log(a);\n</script>';
+
+    expect(minifyHTML(html)).toBe(
+      '<style>body{margin:0}</style><script>const a=1;log(a);</script>'
+    );
+  });
+});
+
+describe('shakeModules', () => {
+  const modules = [
+    {
+      path: 'dist/main.js',
+      code: "import { used } from './lib.js';\nused();\n",
+    },
+    {
+      path: 'dist/lib.js',
+      code: [
+        "import { helper } from './helpers.js';",
+        'export function used() { return 1; }',
+        'export function unused() { return helper(); }',
+        'export const effect = register();',
+      ].join('\n'),
+    },
+    {
+      path: 'dist/helpers.js',
+      code: 'export const helper = () => 2;\nexport const other = 3;\n',
+    },
+  ];
+
+  test('removes exports no module imports, across the graph', () => {
+    const [main, lib, helpers] = shakeModules(modules);
+
+    expect(main.code).toBe(modules[0].code);
+    expect(lib.removedExports).toEqual(['unused', 'effect']);
+    expect(lib.code).toContain('export function used()');
+    expect(lib.code).not.toContain('unused');
+
+    /* removing 'unused' leaves 'helper' unused in turn */
+    expect(helpers.removedExports).toEqual(
+      expect.arrayContaining(['helper', 'other'])
+    );
+  });
+
+  test('keeps the side effects of what it removes', () => {
+    const [, lib] = shakeModules(modules);
+
+    expect(lib.code).toContain('const effect = register()');
+    expect(lib.code).toContain("import './helpers.js'");
+  });
+
+  test('keeps everything a namespace import can reach', () => {
+    const [, lib] = shakeModules([
+      { path: 'main.js', code: "import * as lib from './lib';\nlog(lib);" },
+      { path: 'lib.js', code: 'export const a = 1;\nexport const b = 2;\n' },
+    ]);
+
+    expect(lib.removedExports).toEqual([]);
+  });
+});
+
+describe('OptimizationEngine', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('reports the sizes of the content it produces', async () => {
+    const engine = OptimizationEngineFactory.create(
+      OptimizationProfile.PRODUCTION
+    );
+    const artifacts = [
+      artifact('main', 'javascript', 'dist/main.js', SCRIPT),
+      artifact('styles', 'css', 'dist/main.css', 'body {\n  margin: 0;\n}\n'),
+      artifact('image', 'asset', 'dist/logo.png'),
+    ];
+
+    const result = await engine.optimizeForWeb(artifacts, {
+      bundleSplitting: false,
+    });
+    const [js, css, image] = result.optimizedArtifacts;
+
+    expect(js.size).toBe(Buffer.byteLength(js.content!));
+    expect(js.size).toBeLessThan(artifacts[0].size);
+    expect(run(js.content!)).toEqual(run(SCRIPT));
+    expect(css.content).toBe('body{margin:0}');
+    expect(image).toBe(artifacts[2]);
+
+    expect(result.metrics.totalSizeBefore).toBe(
+      artifacts.reduce((sum, a) => sum + a.size, 0)
+    );
+    expect(result.metrics.totalSizeAfter).toBe(js.size + css.size + image.size);
+  });
+
+  test('logs the exports it removes from the bundle graph', async () => {
+    const engine = OptimizationEngineFactory.create(
+      OptimizationProfile.PRODUCTION
+    );
+    const artifacts = [
+      artifact(
+        'main',
+        'javascript',
+        'dist/main.js',
+        "import { a } from './lib.js';\na();\n"
+      ),
+      artifact(
+        'lib',
+        'javascript',
+        'dist/lib.js',
+        'export function a() {}\nexport function b() { return 1; }\n'
+      ),
+    ];
+
+    const result = await engine.optimizeForWeb(artifacts);
+    const lib = result.optimizedArtifacts.find((a) => a.id === 'lib')!;
+
+    expect(lib.metadata?.removedExports).toEqual(['b']);
+    expect(lib.content).not.toContain('function b');
+    expect(result.optimizationLog.map((entry) => entry.optimization)).toEqual(
+      expect.arrayContaining(['tree-shaking'])
+    );
+  });
+
+  test('leaves an artifact that does not parse as it is', async () => {
+    const engine = OptimizationEngineFactory.create(
+      OptimizationProfile.PRODUCTION
+    );
+    const broken = artifact('broken', 'javascript', 'dist/a.js', 'let = ;');
+
+    const result = await engine.optimizeForWeb([broken]);
+
+    expect(result.optimizedArtifacts[0].content).toBe('let = ;');
+    expect(result.warnings.some((w) => w.includes('dist/a.js'))).toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         deployment-size-budget.test.ts
+           ---
+           tests for size budgets: the budget a platform gets,
+           the categories files count towards, and production
+           builds that fail when over budget.
+
+*/
+
+/// <reference types="jest" />
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  DeploymentMode,
+  OptimizationProfile,
+  PlatformTarget,
+} from '../src/deployment/base-deployment';
+import {
+  ProductionPipeline,
+  ProductionRequest,
+} from '../src/deployment/production-pipeline';
+import {
+  checkBudgets,
+  formatBudgetViolation,
+  getBudgetCategory,
+  resolveBudget,
+} from '../src/deployment/size-budget';
+
+describe('size budgets', () => {
+  const files = [
+    { path: 'main.js', size: 600 },
+    { path: 'vendor.js', size: 300 },
+    { path: 'textures/hero.png', size: 2000 },
+    { path: 'textures/sky.KTX2', size: 5000 },
+    { path: 'music/theme.ogg', size: 800 },
+    { path: 'index.html', size: 100 },
+  ];
+
+  test('puts files in a category by extension', () => {
+    expect(getBudgetCategory('dist/app.mjs')).toBe('javascript');
+    expect(getBudgetCategory('textures/sky.KTX2')).toBe('textures');
+    expect(getBudgetCategory('sfx/jump.wav')).toBe('audio');
+    expect(getBudgetCategory('index.html')).toBeUndefined();
+    expect(getBudgetCategory('LICENSE')).toBeUndefined();
+  });
+
+  test('lets a platform override the shared budgets', () => {
+    const budgets = {
+      javascript: 1000,
+      total: 10000,
+      platforms: { web: { javascript: 500 } },
+    };
+
+    expect(resolveBudget(budgets, 'web')).toEqual({
+      javascript: 500,
+      total: 10000,
+    });
+    expect(resolveBudget(budgets, 'desktop')).toEqual({
+      javascript: 1000,
+      total: 10000,
+    });
+    expect(resolveBudget(undefined, 'web')).toEqual({});
+  });
+
+  test('reports each category over budget with its largest files', () => {
+    const violations = checkBudgets(
+      files,
+      { javascript: 800, textures: 10000, audio: 500, total: 8000 },
+      1
+    );
+
+    expect(violations).toEqual([
+      {
+        category: 'javascript',
+        budget: 800,
+        size: 900,
+        offenders: [{ path: 'main.js', size: 600 }],
+      },
+      {
+        category: 'audio',
+        budget: 500,
+        size: 800,
+        offenders: [{ path: 'music/theme.ogg', size: 800 }],
+      },
+      {
+        category: 'total',
+        budget: 8000,
+        size: 8800,
+        offenders: [{ path: 'textures/sky.KTX2', size: 5000 }],
+      },
+    ]);
+    expect(checkBudgets(files, {})).toEqual([]);
+  });
+
+  test('names the offenders in the message', () => {
+    const [violation] = checkBudgets(files, { javascript: 800 });
+
+    expect(formatBudgetViolation(violation)).toBe(
+      'JavaScript is 900.00 B, 100.00 B over its budget of 800.00 B. ' +
+        'Largest: main.js (600.00 B), vendor.js (300.00 B)'
+    );
+  });
+});
+
+describe('production builds with size budgets', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worldc-budget-'));
+    fs.mkdirSync(path.join(workDir, 'src/assets'), { recursive: true });
+    fs.writeFileSync(
+      path.join(workDir, 'src/main.wc'),
+      'int area() {\n  return 3 * 3;\n}\n'
+    );
+    fs.writeFileSync(
+      path.join(workDir, 'src/assets/logo.svg'),
+      `<svg>${' '.repeat(4000)}</svg>`
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function build(request: Partial<ProductionRequest>) {
+    return new ProductionPipeline().build({
+      sourceDirectory: path.join(workDir, 'src'),
+      outputDirectory: path.join(workDir, 'dist'),
+      platform: PlatformTarget.WEB,
+      mode: DeploymentMode.PRODUCTION,
+      optimization: { profile: OptimizationProfile.PRODUCTION },
+      appInfo: {
+        name: 'Game',
+        version: '1.0.0',
+        description: 'A game',
+        author: 'Someone',
+      },
+      buildNumber: 1,
+      ...request,
+    });
+  }
+
+  test('fails a build over budget and names its largest files', async () => {
+    const result = await build({
+      budgets: { textures: 1024, platforms: { desktop: { textures: 0 } } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'BUDGET_EXCEEDED',
+        file: 'assets/logo.svg',
+        message: expect.stringMatching(
+          /^Textures is .* over its budget of 1\.00 KB\. Largest: assets\/logo\.svg/
+        ),
+      }),
+    ]);
+    expect(fs.existsSync(path.join(workDir, 'dist'))).toBe(false);
+  });
+
+  test('passes a build within budget', async () => {
+    const result = await build({
+      budgets: { javascript: 1024 * 1024, total: 1024 * 1024 },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+});
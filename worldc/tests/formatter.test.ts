@@ -0,0 +1,210 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         formatter.test.ts
+           ---
+           tests for the built-in formatter: layout, comments,
+           brace styles, line length, range formatting and that
+           formatting twice changes nothing.
+
+*/
+
+/// <reference types="jest" />
+
+import { globalErrorHandler } from '../src/error/error-handler';
+import {
+  BraceStyle,
+  FormatError,
+  checkFormatted,
+  format,
+  formatRange,
+} from '../src/formatter/formatter';
+
+const MESSY = [
+  '/*',
+  '    ====================================',
+  '             --- SCORE ---',
+  '    ====================================',
+  '*/',
+  '',
+  'import {add,Point} from "./math";',
+  'enum Mode {IDLE, RUNNING=2};',
+  'int score(int a,int b){',
+  'int total=a+b*2;   // weighted',
+  'if(total>10){return -total;}else{total++;}',
+  '',
+  '',
+  'switch(total){',
+  'case 1:',
+  'total=2;',
+  'break;',
+  'default:',
+  'return 0;',
+  '}',
+  'vector<vector<int>> grid;',
+  'auto p = {x: 1, y: [1,2]};',
+  'return total > 0 ? total : 0;',
+  '}',
+].join('\n');
+
+const FORMATTED = [
+  '/*',
+  '    ====================================',
+  '             --- SCORE ---',
+  '    ====================================',
+  '*/',
+  '',
+  'import { add, Point } from "./math";',
+  'enum Mode {',
+  '  IDLE,',
+  '  RUNNING = 2',
+  '};',
+  'int score(int a, int b) {',
+  '  int total = a + b * 2; // weighted',
+  '  if (total > 10) {',
+  '    return -total;',
+  '  } else {',
+  '    total++;',
+  '  }',
+  '',
+  '  switch (total) {',
+  '    case 1:',
+  '      total = 2;',
+  '      break;',
+  '    default:',
+  '      return 0;',
+  '  }',
+  '  vector<vector<int>> grid;',
+  '  auto p = { x: 1, y: [1, 2] };',
+  '  return total > 0 ? total : 0;',
+  '}',
+  '',
+].join('\n');
+
+describe('formatter', () => {
+  beforeAll(() => {
+    globalErrorHandler.configure({ logToConsole: false });
+  });
+
+  test('lays out statements, blocks and operators', () => {
+    expect(format(MESSY)).toBe(FORMATTED);
+  });
+
+  test('changes nothing in formatted source', () => {
+    expect(format(FORMATTED)).toBe(FORMATTED);
+    expect(checkFormatted(FORMATTED)).toBe(true);
+    expect(checkFormatted(MESSY)).toBe(false);
+  });
+
+  test('keeps comments where they were written', () => {
+    const source = [
+      '// leading',
+      'int f() { // opens',
+      '/* block',
+      '   comment   ',
+      '*/',
+      'return 1; /* trailing */',
+      '// closing',
+      '}',
+      '',
+    ].join('\n');
+
+    expect(format(source)).toBe(
+      [
+        '// leading',
+        'int f() { // opens',
+        '  /* block',
+        '   comment',
+        '*/',
+        '  return 1; /* trailing */',
+        '  // closing',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('puts braces on their own line in the next-line style', () => {
+    const options = { braceStyle: BraceStyle.NEXT_LINE, indentSize: 4 };
+
+    const formatted = format(
+      'int f(int a) {\n  if (a) { return 1; } else { return 2; }\n}\n',
+      options
+    );
+
+    expect(formatted).toBe(
+      [
+        'int f(int a)',
+        '{',
+        '    if (a)',
+        '    {',
+        '        return 1;',
+        '    }',
+        '    else',
+        '    {',
+        '        return 2;',
+        '    }',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(format(formatted, options)).toBe(formatted);
+    expect(format(formatted)).toBe(
+      'int f(int a) {\n  if (a) {\n    return 1;\n  } else {\n    return 2;\n  }\n}\n'
+    );
+  });
+
+  test('indents with tabs and leaves the last line open on request', () => {
+    expect(
+      format('int f() {\nreturn 1;\n}\n', {
+        useTabs: true,
+        insertFinalNewline: false,
+      })
+    ).toBe('int f() {\n\treturn 1;\n}');
+  });
+
+  test('breaks long lines after commas and operators', () => {
+    const source =
+      'int total = combine(first, second, third) + combine(fourth, fifth);\n';
+
+    const formatted = format(source, { maxLineLength: 40 });
+
+    expect(formatted).toBe(
+      [
+        'int total = combine(first, second,',
+        '  third) + combine(fourth, fifth);',
+        '',
+      ].join('\n')
+    );
+    expect(format(formatted, { maxLineLength: 40 })).toBe(formatted);
+  });
+
+  test('formats only the lines of a range', () => {
+    const source = 'int a=1;\nint f(){\nint b=2;\n  if(b){\nreturn b;}\n}\n';
+
+    expect(formatRange(source, { startLine: 2, endLine: 2 })).toBe(
+      'int a=1;\nint f(){\n  int b = 2;\n  if(b){\nreturn b;}\n}\n'
+    );
+
+    /* the closing brace moves to a line of its own with the statement */
+    expect(formatRange(source, { startLine: 3, endLine: 4 })).toBe(
+      'int a=1;\nint f(){\nint b=2;\n  if (b) {\n    return b;\n  }\n}\n'
+    );
+  });
+
+  test('refuses source that does not parse', () => {
+    expect.assertions(2);
+    expect(() => format('int a = ;')).toThrow(FormatError);
+
+    try {
+      format('int f() {\n  return 1 +;\n}');
+    } catch (error) {
+      expect((error as FormatError).line).toBe(2);
+    }
+  });
+});
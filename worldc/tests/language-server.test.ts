@@ -0,0 +1,478 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         language-server.test.ts
+           ---
+           tests for the editing features of the language server:
+           rename across a workspace, workspace symbols,
+           formatting, semantic tokens, folding ranges and the
+           quick fixes offered for common diagnostics.
+
+*/
+
+/// <reference types="jest" />
+/// <reference types="node" />
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+import { globalErrorHandler } from '../src/error/error-handler';
+import { WorldSrcLanguageServer } from '../src/tooling/lsp/language-server';
+import {
+  Diagnostic,
+  SemanticTokensDelta,
+  TextEdit,
+} from '../src/tooling/lsp/lsp-types';
+import { SEMANTIC_TOKENS_LEGEND } from '../src/tooling/lsp/semantic-tokens';
+
+const MATH = [
+  'export int add(int a, int b) {',
+  '  return a + b;',
+  '}',
+  '',
+  'export class Point {',
+  '  float x;',
+  '  float y;',
+  '}',
+  '',
+].join('\n');
+
+const MAIN = [
+  'import { add, Point } from "./math";',
+  '',
+  'int x = 1;',
+  '',
+  'int twice(int n) {',
+  '  int x = add(n, n);',
+  '  Point p;',
+  '  p.x = 2.0;',
+  '  return x;',
+  '}',
+  '',
+  'int total = add(x, 2);',
+  '',
+].join('\n');
+
+/* applies edits to a text, last edit first */
+function applyEdits(text: string, edits: TextEdit[]): string {
+  const lines = text.split('\n');
+  const offset = (line: number, character: number) =>
+    lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0) + character;
+
+  return [...edits]
+    .sort(
+      (a, b) =>
+        offset(b.range.start.line, b.range.start.character) -
+        offset(a.range.start.line, a.range.start.character)
+    )
+    .reduce(
+      (result, edit) =>
+        result.slice(
+          0,
+          offset(edit.range.start.line, edit.range.start.character)
+        ) +
+        edit.newText +
+        result.slice(offset(edit.range.end.line, edit.range.end.character)),
+      text
+    );
+}
+
+/* names with their token type and modifiers, from encoded tokens */
+function decodeTokens(text: string, data: number[]): string[][] {
+  const lines = text.split('\n');
+  const tokens: string[][] = [];
+  let line = 0;
+  let character = 0;
+
+  for (let i = 0; i < data.length; i += 5) {
+    line += data[i];
+    character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+
+    tokens.push([
+      lines[line].slice(character, character + data[i + 2]),
+      SEMANTIC_TOKENS_LEGEND.tokenTypes[data[i + 3]],
+      SEMANTIC_TOKENS_LEGEND.tokenModifiers
+        .filter((_, bit) => data[i + 4] & (1 << bit))
+        .join(','),
+    ]);
+  }
+  return tokens;
+}
+
+describe('language server', () => {
+  let workDir: string;
+  let server: WorldSrcLanguageServer;
+  let mathUri: string;
+  let mainUri: string;
+
+  async function open(uri: string, text: string): Promise<Diagnostic[]> {
+    let diagnostics: Diagnostic[] = [];
+    server.once('publishDiagnostics', (params) => {
+      diagnostics = params.diagnostics;
+    });
+
+    await server.textDocumentDidOpen({
+      textDocument: { uri, text, version: 1 },
+    });
+    return diagnostics;
+  }
+
+  beforeAll(() => {
+    globalErrorHandler.configure({ logToConsole: false });
+  });
+
+  beforeEach(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worldc-lsp-'));
+    fs.writeFileSync(path.join(workDir, 'math.wc'), MATH, 'utf8');
+    fs.writeFileSync(path.join(workDir, 'main.wc'), MAIN, 'utf8');
+
+    mathUri = pathToFileURL(path.join(workDir, 'math.wc')).href;
+    mainUri = pathToFileURL(path.join(workDir, 'main.wc')).href;
+
+    server = new WorldSrcLanguageServer();
+    await server.initialize({ rootUri: pathToFileURL(workDir).href });
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('renames an imported function in every workspace file', async () => {
+    await open(mainUri, MAIN);
+
+    const edit = await server.rename({
+      textDocument: { uri: mainUri },
+      position: { line: 11, character: 13 },
+      newName: 'sum',
+    });
+
+    expect(applyEdits(MAIN, edit!.changes[mainUri])).toContain(
+      'import { sum, Point } from "./math";'
+    );
+    expect(applyEdits(MAIN, edit!.changes[mainUri])).toContain(
+      'int total = sum(x, 2);'
+    );
+    expect(applyEdits(MATH, edit!.changes[mathUri])).toContain(
+      'export int sum(int a, int b) {'
+    );
+  });
+
+  test('renames a local without touching the global it shadows', async () => {
+    await open(mainUri, MAIN);
+
+    const edit = await server.rename({
+      textDocument: { uri: mainUri },
+      position: { line: 8, character: 9 },
+      newName: 'result',
+    });
+
+    const renamed = applyEdits(MAIN, edit!.changes[mainUri]);
+    expect(renamed).toContain('int result = add(n, n);');
+    expect(renamed).toContain('return result;');
+    expect(renamed).toContain('int x = 1;');
+    expect(renamed).toContain('int total = add(x, 2);');
+    expect(Object.keys(edit!.changes)).toEqual([mainUri]);
+  });
+
+  test('renames members through the declared type', async () => {
+    await open(mainUri, MAIN);
+
+    const edit = await server.rename({
+      textDocument: { uri: mainUri },
+      position: { line: 7, character: 4 },
+      newName: 'left',
+    });
+
+    expect(applyEdits(MAIN, edit!.changes[mainUri])).toContain('p.left = 2.0;');
+    expect(applyEdits(MATH, edit!.changes[mathUri])).toContain(
+      '  float left;\n  float y;'
+    );
+  });
+
+  test('refuses keywords and invalid names', async () => {
+    await open(mainUri, MAIN);
+
+    expect(
+      await server.prepareRename({
+        textDocument: { uri: mainUri },
+        position: { line: 2, character: 1 },
+      })
+    ).toBeNull();
+
+    expect(
+      await server.prepareRename({
+        textDocument: { uri: mainUri },
+        position: { line: 4, character: 6 },
+      })
+    ).toEqual({
+      range: {
+        start: { line: 4, character: 4 },
+        end: { line: 4, character: 9 },
+      },
+      placeholder: 'twice',
+    });
+
+    await expect(
+      server.rename({
+        textDocument: { uri: mainUri },
+        position: { line: 4, character: 6 },
+        newName: 'return',
+      })
+    ).rejects.toThrow(/not a valid name/);
+  });
+
+  test('finds symbols across the workspace', async () => {
+    const symbols = await server.workspaceSymbol({ query: 'pt' });
+
+    expect(symbols).toEqual([
+      expect.objectContaining({
+        name: 'Point',
+        location: {
+          uri: mathUri,
+          range: {
+            start: { line: 4, character: 13 },
+            end: { line: 4, character: 18 },
+          },
+        },
+      }),
+    ]);
+
+    const members = await server.workspaceSymbol({ query: 'y' });
+    expect(members).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'y', containerName: 'Point' }),
+      ])
+    );
+  });
+
+  test('formats indentation and trailing whitespace', async () => {
+    const source = 'int f() {\nint a = 1;   \nif (a) {\nreturn a;\n}\n}\n';
+    await open(mainUri, source);
+
+    const edits = await server.formatting({
+      textDocument: { uri: mainUri },
+      options: { tabSize: 2, insertSpaces: true },
+    });
+
+    expect(applyEdits(source, edits)).toBe(
+      'int f() {\n  int a = 1;\n  if (a) {\n    return a;\n  }\n}\n'
+    );
+  });
+
+  test('formats a range with the style from the initialization options', async () => {
+    server = new WorldSrcLanguageServer();
+    await server.initialize({
+      rootUri: pathToFileURL(workDir).href,
+      initializationOptions: { formatting: { braceStyle: 'next-line' } },
+    });
+
+    const source = 'int f() {\nint a=1;\nif (a) { return a; }\n}\n';
+    await open(mainUri, source);
+
+    const edits = await server.rangeFormatting({
+      textDocument: { uri: mainUri },
+      range: {
+        start: { line: 2, character: 0 },
+        end: { line: 3, character: 0 },
+      },
+      options: { tabSize: 2, insertSpaces: true },
+    });
+
+    expect(applyEdits(source, edits)).toBe(
+      'int f() {\nint a=1;\n  if (a)\n  {\n    return a;\n  }\n}\n'
+    );
+  });
+
+  test('leaves documents that do not parse unformatted', async () => {
+    await open(mainUri, 'int a = \n');
+
+    expect(
+      await server.formatting({
+        textDocument: { uri: mainUri },
+        options: { tabSize: 2, insertSpaces: true },
+      })
+    ).toEqual([]);
+  });
+
+  test('classifies names by the symbols they resolve to', async () => {
+    await open(mainUri, MAIN);
+
+    const tokens = decodeTokens(
+      MAIN,
+      (await server.semanticTokensFull({ textDocument: { uri: mainUri } })).data
+    );
+
+    /* imported from a file that is not open */
+    expect(tokens).toContainEqual(['add', 'function', '']);
+    expect(tokens).toContainEqual(['Point', 'class', '']);
+    expect(tokens).toContainEqual(['n', 'parameter', 'declaration']);
+    expect(tokens).toContainEqual(['n', 'parameter', '']);
+    expect(tokens).toContainEqual(['x', 'property', '']);
+    expect(tokens).toContainEqual(['twice', 'function', 'declaration']);
+  });
+
+  test('marks the engine, built-ins, asmjs functions and keywords', async () => {
+    const source = [
+      'edict int LIMIT = 3;',
+      '@asmjs float half(float v) {',
+      '  return v / 2.0;',
+      '}',
+      'void update() {',
+      '  printf("%d", LIMIT);',
+      '  if (Input.isKeyPressed(KeyCode.ESCAPE)) {',
+      '    Engine.quit();',
+      '  }',
+      '}',
+      '',
+    ].join('\n');
+    await open(mainUri, source);
+
+    const tokens = decodeTokens(
+      source,
+      (await server.semanticTokensFull({ textDocument: { uri: mainUri } })).data
+    );
+
+    expect(tokens).toEqual(
+      expect.arrayContaining([
+        ['edict', 'keyword', ''],
+        ['LIMIT', 'variable', 'declaration,readonly'],
+        ['half', 'function', 'declaration,asmjs'],
+        ['printf', 'function', 'defaultLibrary'],
+        ['Input', 'namespace', 'defaultLibrary'],
+        ['isKeyPressed', 'method', 'defaultLibrary'],
+        ['KeyCode', 'enum', 'defaultLibrary'],
+        ['ESCAPE', 'enumMember', 'defaultLibrary'],
+        ['quit', 'method', 'defaultLibrary'],
+      ])
+    );
+  });
+
+  test('sends the changes to semantic tokens as a delta', async () => {
+    await open(mainUri, MAIN);
+    const first = await server.semanticTokensFull({
+      textDocument: { uri: mainUri },
+    });
+
+    const changed = MAIN.replace('int x = 1;', 'int x = 1;\nint y = x;');
+    await server.textDocumentDidChange({
+      textDocument: { uri: mainUri, version: 2 },
+      contentChanges: [{ text: changed }],
+    });
+
+    const delta = (await server.semanticTokensDelta({
+      textDocument: { uri: mainUri },
+      previousResultId: first.resultId,
+    })) as SemanticTokensDelta;
+    expect(delta.resultId).not.toBe(first.resultId);
+
+    const data = [...first.data];
+    for (const edit of delta.edits) {
+      data.splice(edit.start, edit.deleteCount, ...(edit.data || []));
+    }
+    expect(data).toEqual(
+      (await server.semanticTokensFull({ textDocument: { uri: mainUri } })).data
+    );
+
+    /* a result the server no longer holds is answered in full */
+    const stale = await server.semanticTokensDelta({
+      textDocument: { uri: mainUri },
+      previousResultId: first.resultId,
+    });
+    expect(stale).toHaveProperty('data');
+  });
+
+  test('folds blocks, namespaces and comments', async () => {
+    const source = [
+      '/* the game',
+      '   rules */',
+      'namespace Rules',
+      '{',
+      '  // limits',
+      '  // and more',
+      '  int check(int a) {',
+      '    if (a) {',
+      '      return 1;',
+      '    }',
+      '    return 0; // none',
+      '  }',
+      '}',
+      '',
+    ].join('\n');
+    await open(mainUri, source);
+
+    expect(
+      await server.foldingRange({ textDocument: { uri: mainUri } })
+    ).toEqual([
+      { startLine: 0, endLine: 1, kind: 'comment' },
+      { startLine: 2, endLine: 11 },
+      { startLine: 4, endLine: 5, kind: 'comment' },
+      { startLine: 6, endLine: 10 },
+      { startLine: 7, endLine: 8 },
+    ]);
+  });
+
+  test('publishes diagnostics and offers quick fixes for them', async () => {
+    const source = [
+      'class Point {',
+      '  float x;',
+      '}',
+      '',
+      'int f() {',
+      '  Pont p;',
+      '  count = 3;',
+      '  return count;',
+      '}',
+      '',
+    ].join('\n');
+    const diagnostics = await open(mainUri, source);
+
+    const unknownType = diagnostics.find((d) =>
+      d.message.startsWith('Unknown type')
+    )!;
+    expect(unknownType.range.start).toEqual({ line: 5, character: 2 });
+
+    const [typeFix] = await server.codeAction({
+      textDocument: { uri: mainUri },
+      range: unknownType.range,
+      context: { diagnostics: [unknownType] },
+    });
+    expect(typeFix.title).toBe("Change to 'Point'");
+    expect(applyEdits(source, typeFix.edit!.changes[mainUri])).toContain(
+      '  Point p;'
+    );
+
+    const undefinedName = diagnostics.find((d) =>
+      d.message.startsWith('Undefined identifier')
+    )!;
+    const [declareFix] = await server.codeAction({
+      textDocument: { uri: mainUri },
+      range: undefinedName.range,
+      context: { diagnostics: [undefinedName] },
+    });
+    expect(applyEdits(source, declareFix.edit!.changes[mainUri])).toContain(
+      '  auto count;\n  count = 3;'
+    );
+  });
+
+  test('inserts a missing semicolon', async () => {
+    const source = 'int a = 1\nint b = 2;\n';
+    const [diagnostic] = await open(mainUri, source);
+    expect(diagnostic.message).toBe("Expected ';' after variable declaration");
+
+    const [fix] = await server.codeAction({
+      textDocument: { uri: mainUri },
+      range: diagnostic.range,
+      context: { diagnostics: [diagnostic] },
+    });
+    expect(applyEdits(source, fix.edit!.changes[mainUri])).toBe(
+      'int a = 1;\nint b = 2;\n'
+    );
+  });
+});
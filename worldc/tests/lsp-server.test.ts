@@ -0,0 +1,233 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         lsp-server.test.ts
+           ---
+           integration tests for the standalone language server.
+
+           runs worldc-lsp as a child process, transpiling its
+           sources on load, and drives it over piped stdio the
+           way an editor does: framed JSON-RPC requests in,
+           responses and published diagnostics out.
+
+*/
+
+/// <reference types="jest" />
+/// <reference types="node" />
+
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const PACKAGE_ROOT = path.join(__dirname, '..');
+const ENTRY = path.join(PACKAGE_ROOT, 'src', 'cli', 'worldc-lsp.ts');
+
+/* lets node require the TypeScript sources without a build */
+const LOADER = `
+const fs = require('fs');
+const ts = require(${JSON.stringify(require.resolve('typescript'))});
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+  });
+  module._compile(outputText, filename);
+};
+`;
+
+const URI = 'file:///workspace/main.wc';
+
+/*
+
+         LSPClient
+           ---
+           the client end of a piped server. collects every
+           framed message the server writes.
+
+*/
+
+class LSPClient {
+  readonly messages: any[] = [];
+  readonly exited: Promise<number | null>;
+  private buffer = Buffer.alloc(0);
+  private waiters: (() => void)[] = [];
+  private nextId = 1;
+
+  constructor(private child: ChildProcess) {
+    child.stdout!.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+
+      for (;;) {
+        const headerEnd = this.buffer.indexOf('\r\n\r\n');
+        if (headerEnd < 0) {
+          break;
+        }
+
+        const length = Number(
+          /Content-Length: (\d+)/.exec(
+            this.buffer.subarray(0, headerEnd).toString()
+          )![1]
+        );
+        const end = headerEnd + 4 + length;
+        if (this.buffer.length < end) {
+          break;
+        }
+
+        this.messages.push(
+          JSON.parse(this.buffer.subarray(headerEnd + 4, end).toString())
+        );
+        this.buffer = this.buffer.subarray(end);
+        this.waiters.splice(0).forEach((wake) => wake());
+      }
+    });
+
+    this.exited = new Promise((resolve) => child.on('exit', resolve));
+  }
+
+  /* messages sent together arrive in one chunk */
+  send(...messages: object[]): void {
+    const frames = messages.map((message) => {
+      const json = JSON.stringify({ jsonrpc: '2.0', ...message });
+      return `Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`;
+    });
+    this.child.stdin!.write(frames.join(''));
+  }
+
+  request(method: string, params?: object): number {
+    const id = this.nextId++;
+    this.send({ id, method, params });
+    return id;
+  }
+
+  notify(method: string, params?: object): void {
+    this.send({ method, params });
+  }
+
+  /* resolves with the first message, old or new, that matches */
+  async waitFor(match: (message: any) => boolean): Promise<any> {
+    for (;;) {
+      const found = this.messages.find(match);
+      if (found) {
+        return found;
+      }
+      await new Promise<void>((wake) => this.waiters.push(wake));
+    }
+  }
+
+  response(id: number): Promise<any> {
+    return this.waitFor((message) => message.id === id && !message.method);
+  }
+}
+
+describe('worldc-lsp', () => {
+  let workDir: string;
+  let child: ChildProcess;
+  let client: LSPClient;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worldc-lsp-server-'));
+    fs.writeFileSync(path.join(workDir, 'loader.js'), LOADER, 'utf8');
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    child = spawn(
+      process.execPath,
+      ['-r', path.join(workDir, 'loader.js'), ENTRY, '--stdio'],
+      { cwd: PACKAGE_ROOT, stdio: ['pipe', 'pipe', 'pipe'] }
+    );
+    client = new LSPClient(child);
+  });
+
+  afterEach(() => {
+    if (child.exitCode === null) {
+      child.kill();
+    }
+  });
+
+  test('serves requests and publishes diagnostics', async () => {
+    const early = client.request('textDocument/hover', {
+      textDocument: { uri: URI },
+      position: { line: 0, character: 0 },
+    });
+    expect((await client.response(early)).error.code).toBe(-32002);
+
+    const init = client.request('initialize', { capabilities: {} });
+    const { result } = await client.response(init);
+    expect(result.capabilities.renameProvider).toBeTruthy();
+    client.notify('initialized', {});
+
+    client.notify('textDocument/didOpen', {
+      textDocument: {
+        uri: URI,
+        languageId: 'worldc',
+        version: 1,
+        text: 'int a = 1\nint b = a;\n',
+      },
+    });
+
+    const published = await client.waitFor(
+      (message) => message.method === 'textDocument/publishDiagnostics'
+    );
+    expect(published.params.uri).toBe(URI);
+    expect(published.params.diagnostics[0].message).toBe(
+      "Expected ';' after variable declaration"
+    );
+
+    const symbols = client.request('textDocument/documentSymbol', {
+      textDocument: { uri: URI },
+    });
+    expect((await client.response(symbols)).result).toEqual(expect.any(Array));
+
+    const unknown = client.request('textDocument/unknownFeature', {});
+    expect((await client.response(unknown)).error.code).toBe(-32601);
+
+    const shutdown = client.request('shutdown');
+    expect((await client.response(shutdown)).result).toBeNull();
+
+    const late = client.request('textDocument/completion', {
+      textDocument: { uri: URI },
+      position: { line: 0, character: 0 },
+    });
+    expect((await client.response(late)).error.code).toBe(-32600);
+
+    client.notify('exit');
+    expect(await client.exited).toBe(0);
+  }, 60000);
+
+  test('answers cancelled requests with an error', async () => {
+    const init = client.request('initialize', { capabilities: {} });
+    expect((await client.response(init)).result).toBeDefined();
+
+    /* the cancel arrives before the hover is handled */
+    client.send(
+      {
+        id: 2,
+        method: 'textDocument/hover',
+        params: {
+          textDocument: { uri: URI },
+          position: { line: 0, character: 0 },
+        },
+      },
+      { method: '$/cancelRequest', params: { id: 2 } }
+    );
+    expect((await client.response(2)).error.code).toBe(-32800);
+
+    client.notify('exit');
+    expect(await client.exited).toBe(1);
+  }, 60000);
+});
@@ -0,0 +1,210 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         realtime-compiler.test.ts
+           ---
+           tests for incremental compilation in the real-time
+           compiler: ASTs reused for unchanged files, results
+           invalidated through the import graph and the timings
+           reported for each file.
+
+*/
+
+/// <reference types="jest" />
+/// <reference types="node" />
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { globalErrorHandler } from '../src/error/error-handler';
+import { CompilationTarget, OptimizationLevel } from '../src/codegen';
+import {
+  CompilationCache,
+  RealtimeCompilationRequest,
+  RealtimeCompiler,
+} from '../src/tooling/realtime/realtime-compiler';
+
+const MATH = 'export int add(int a, int b) {\n  return a + b;\n}\n';
+
+const GAME = [
+  'import { add } from "./math";',
+  'export int score(int a) {',
+  '  return add(a, 2);',
+  '}',
+  '',
+].join('\n');
+
+const MAIN = [
+  'import { score } from "./game";',
+  'int main() {',
+  '  return score(1);',
+  '}',
+  '',
+].join('\n');
+
+describe('RealtimeCompiler', () => {
+  let workDir: string;
+  let compiler: RealtimeCompiler;
+
+  beforeAll(() => {
+    globalErrorHandler.configure({ logToConsole: false });
+  });
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worldc-realtime-'));
+    fs.mkdirSync(path.join(workDir, 'scripts'));
+    writeSource('math.wc', MATH);
+    writeSource('game.wc', GAME);
+    writeSource('main.wc', MAIN);
+    compiler = new RealtimeCompiler();
+  });
+
+  afterEach(() => {
+    compiler.stopWatchingAll();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function writeSource(name: string, source: string): string {
+    const file = path.join(workDir, 'scripts', name);
+    fs.writeFileSync(file, source, 'utf8');
+    return file;
+  }
+
+  function request(name: string): RealtimeCompilationRequest {
+    const filePath = path.join(workDir, 'scripts', name);
+
+    return {
+      sourceCode: fs.readFileSync(filePath, 'utf8'),
+      filePath,
+      targets: [CompilationTarget.TYPESCRIPT],
+      optimizationLevel: OptimizationLevel.BASIC,
+      includeSourceMaps: false,
+      watchMode: false,
+    };
+  }
+
+  test('compiles a file together with the files it imports', async () => {
+    const result = await compiler.compile(request('main.wc'));
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.generatedFiles).toHaveLength(1);
+    expect(result.generatedFiles[0].content).toContain('score(1)');
+
+    /* imported files first, each with its own timings */
+    expect(result.performance.files.map((file) => file.file)).toEqual(
+      ['math.wc', 'game.wc', 'main.wc'].map((name) =>
+        path.join(workDir, 'scripts', name)
+      )
+    );
+    for (const file of result.performance.files) {
+      expect(file.isCached).toBe(false);
+      expect(file.totalTime).toBeCloseTo(
+        file.lexingTime +
+          file.parsingTime +
+          file.analysisTime +
+          file.codegenTime
+      );
+    }
+  });
+
+  test('reuses the ASTs of files that did not change', async () => {
+    await compiler.compile(request('main.wc'));
+
+    /* an edit of the entry parses the entry alone again */
+    const edited = request('main.wc');
+    edited.sourceCode = MAIN.replace('score(1)', 'score(5)');
+    const result = await compiler.compile(edited);
+
+    expect(result.success).toBe(true);
+    expect(result.generatedFiles[0].content).toContain('score(5)');
+    expect(
+      result.performance.files.map((file) => [
+        path.basename(file.file),
+        file.isCached,
+      ])
+    ).toEqual([
+      ['math.wc', true],
+      ['game.wc', true],
+      ['main.wc', false],
+    ]);
+
+    const math = result.performance.files[0];
+    expect(math.lexingTime).toBe(0);
+    expect(math.parsingTime).toBe(0);
+  });
+
+  test('returns the last result while nothing changed', async () => {
+    const first = await compiler.compile(request('main.wc'));
+    const second = await compiler.compile(request('main.wc'));
+
+    expect(second).toBe(first);
+  });
+
+  test('recompiles the dependents of a changed file', async () => {
+    const first = await compiler.compile(request('main.wc'));
+
+    writeSource('math.wc', MATH.replace('a + b', 'a * b'));
+    const second = await compiler.compile(request('main.wc'));
+
+    expect(second).not.toBe(first);
+    expect(
+      second.performance.files.map((file) => [
+        path.basename(file.file),
+        file.isCached,
+      ])
+    ).toEqual([
+      ['math.wc', false],
+      ['game.wc', true],
+      ['main.wc', true],
+    ]);
+
+    /* a header that stops exporting a name breaks its importers */
+    writeSource(
+      'math.wc',
+      'export int sub(int a, int b) {\n  return a - b;\n}\n'
+    );
+    const broken = await compiler.compile(request('main.wc'));
+
+    expect(broken.success).toBe(false);
+    expect(broken.errors.map((error) => path.basename(error.file))).toContain(
+      'game.wc'
+    );
+  });
+});
+
+describe('CompilationCache', () => {
+  test('invalidates the files that import a file, directly or not', () => {
+    const cache = new CompilationCache();
+    cache.setDependencies('/main.wc', ['/game.wc']);
+    cache.setDependencies('/game.wc', ['/math.wc']);
+    cache.setDependencies('/other.wc', []);
+
+    expect(cache.getDependencies('/main.wc')).toEqual(['/game.wc', '/math.wc']);
+    expect(cache.getDependents('/math.wc')).toEqual(['/game.wc', '/main.wc']);
+
+    cache.update('/math.wc', 'a');
+    expect(cache.update('/math.wc', 'a')).toEqual([]);
+    expect(cache.update('/math.wc', 'b')).toEqual([
+      '/math.wc',
+      '/game.wc',
+      '/main.wc',
+    ]);
+  });
+
+  test('keeps an AST only for the content it was parsed from', () => {
+    const cache = new CompilationCache();
+    const ast = {} as any;
+
+    cache.setAST('/math.wc', 'a', ast);
+
+    expect(cache.getAST('/math.wc', 'a')).toBe(ast);
+    expect(cache.getAST('/math.wc', 'b')).toBeUndefined();
+  });
+});
@@ -0,0 +1,676 @@
+/*
+ * SPDX-License-Identifier: ACSL-1.4 OR FAFOL-0.1 OR Hippocratic-3.0
+ * Multi-licensed under ACSL-1.4, FAFOL-0.1, and Hippocratic-3.0
+ * See LICENSE.txt for full license texts
+ */
+
+/*
+
+         semantic.test.ts
+           ---
+           tests for the WORLDC semantic analyzer.
+
+           parses small programs and checks the diagnostics
+           the analyzer reports: calls, overloads, member
+           lookup, return paths and usage warnings.
+
+*/
+
+/// <reference types="jest" />
+/// <reference types="node" />
+
+import { Lexer } from '../src/lexer/lexer';
+import { Parser } from '../src/parser/parser';
+import { SimpleSemanticAnalyzer } from '../src/semantic/simple-analyzer';
+import { CompileUnit } from '../src/semantic/compile-unit';
+import { ModuleKind, ModuleResolver } from '../src/semantic/module-resolver';
+import { globalErrorHandler } from '../src/error/error-handler';
+
+function analyze(source: string) {
+  const program = new Parser(new Lexer(source).tokenize()).parse();
+  expect(globalErrorHandler.getErrors()).toEqual([]);
+
+  return new SimpleSemanticAnalyzer().analyze(program);
+}
+
+/* messages of the errors reported while analyzing 'source' */
+function errorsOf(source: string): string[] {
+  analyze(source);
+  return globalErrorHandler.getErrors().map((e) => e.message);
+}
+
+function warningsOf(source: string): string[] {
+  analyze(source);
+  return globalErrorHandler.getWarnings().map((w) => w.message);
+}
+
+/* resolver over in-memory files of a project at /project */
+function createResolver(files: { [file: string]: string }): ModuleResolver {
+  return new ModuleResolver('/project', {
+    fileExists: (file) => file in files,
+    readFile: (file) => files[file],
+  });
+}
+
+beforeEach(() => {
+  globalErrorHandler.clear();
+});
+
+describe('SimpleSemanticAnalyzer', () => {
+  test('accepts a well-typed program', () => {
+    const result = analyze(
+      [
+        'struct Point {',
+        '  float x;',
+        '  float y;',
+        '};',
+        'class Shape {',
+        '  protected string name;',
+        '  public float area() {',
+        '    return 0.0f;',
+        '  }',
+        '}',
+        'class Circle extends Shape {',
+        '  private float radius;',
+        '  public float area() {',
+        '    return 3.14f * radius * radius;',
+        '  }',
+        '  public string describe() {',
+        '    return name + ": " + this.area();',
+        '  }',
+        '}',
+        'void main() {',
+        '  Circle c = new Circle();',
+        '  Shape s = c;',
+        '  Point p;',
+        '  p.x = s.area();',
+        '  int[] values = [1, 2, 3];',
+        '  for (int i = 0; i < values.length; i++) {',
+        '    p.y += values[i];',
+        '  }',
+        '  printf("%s %f\\n", c.describe(), p.y);',
+        '}',
+      ].join('\n')
+    );
+
+    expect(globalErrorHandler.getErrors().map((e) => e.message)).toEqual([]);
+    expect(globalErrorHandler.getWarnings().map((w) => w.message)).toEqual([]);
+    expect(result.success).toBe(true);
+  });
+
+  describe('calls', () => {
+    test('checks argument count', () => {
+      expect(
+        errorsOf(
+          'int add(int a, int b) {\n  return a + b;\n}\nint x = add(1);\n'
+        )
+      ).toEqual(["Expected 2 arguments for 'add', but got 1"]);
+    });
+
+    test('accepts optional and variadic arguments', () => {
+      expect(
+        errorsOf(
+          [
+            'string greet(string name, string greeting = "hi") {',
+            '  return name;',
+            '}',
+            'void main() {',
+            '  greet("a");',
+            '  greet("a", "b");',
+            '  printf("%d %d\\n", 1, 2);',
+            '}',
+          ].join('\n')
+        )
+      ).toEqual([]);
+    });
+
+    test('checks argument types at the argument', () => {
+      analyze(
+        'void take(int a, string b) {}\nvoid main() {\n  take(1, 2);\n}\n'
+      );
+
+      const [error] = globalErrorHandler.getErrors();
+      expect(error.message).toBe(
+        "Argument of type 'int' is not assignable to parameter 'b' of type 'string'"
+      );
+      expect(error.location).toMatchObject({ line: 3, column: 11 });
+    });
+
+    test('resolves overloads by argument types', () => {
+      const source = [
+        'int scale(int v) {',
+        '  return v * 2;',
+        '}',
+        'string scale(string v) {',
+        '  return v + v;',
+        '}',
+      ].join('\n');
+
+      expect(
+        errorsOf(`${source}\nint a = scale(2);\nstring b = scale("x");\n`)
+      ).toEqual([]);
+
+      globalErrorHandler.clear();
+      expect(errorsOf(`${source}\nint c = scale("x");\n`)).toEqual([
+        "Type mismatch in initialization: cannot assign 'string' to 'int'",
+      ]);
+
+      globalErrorHandler.clear();
+      expect(errorsOf(`${source}\nbool d = scale(true, 1);\n`)).toEqual([
+        "No overload of 'scale' matches arguments (bool, int)",
+      ]);
+    });
+
+    test('rejects calls of non-functions', () => {
+      expect(errorsOf('int n = 1;\nint m = n(2);\n')).toEqual([
+        "Cannot call non-function 'n' of type 'int'",
+      ]);
+    });
+  });
+
+  describe('members', () => {
+    const hierarchy = [
+      'class Base {',
+      '  private int secret;',
+      '  protected int shared;',
+      '  public int visible;',
+      '  public int get() {',
+      '    return secret;',
+      '  }',
+      '}',
+      'class Derived extends Base {',
+      '  public int peek() {',
+      '    return shared + get();',
+      '  }',
+      '}',
+    ].join('\n');
+
+    test('finds members through inheritance', () => {
+      expect(
+        errorsOf(
+          `${hierarchy}\nDerived d = new Derived();\nint v = d.visible + d.get() + d.peek();\n`
+        )
+      ).toEqual([]);
+    });
+
+    test('reports missing members', () => {
+      expect(
+        errorsOf(`${hierarchy}\nDerived d = new Derived();\nint v = d.size;\n`)
+      ).toEqual(["Property 'size' does not exist on type 'Derived'"]);
+    });
+
+    test('checks private and protected access', () => {
+      expect(
+        errorsOf(
+          [
+            hierarchy,
+            'class Spy extends Base {',
+            '  public int steal() {',
+            '    return secret;',
+            '  }',
+            '}',
+            'Derived d = new Derived();',
+            'int v = d.shared;',
+          ].join('\n')
+        )
+      ).toEqual([
+        "Property 'secret' is private and only accessible within class 'Base'",
+        "Property 'shared' is protected and only accessible within class 'Base' and its subclasses",
+      ]);
+    });
+
+    test('checks method arity', () => {
+      expect(
+        errorsOf(
+          `${hierarchy}\nDerived d = new Derived();\nint v = d.get(1);\n`
+        )
+      ).toEqual(["Expected 0 arguments for 'Base.get', but got 1"]);
+    });
+  });
+
+  describe('templates', () => {
+    const box = [
+      'class Item {',
+      '  public int weight;',
+      '}',
+      'class Sword extends Item {',
+      '  public int damage;',
+      '}',
+      'template<typename T> class Box {',
+      '  public T value;',
+      '  public T get() {',
+      '    return value;',
+      '  }',
+      '  public void set(T v) {',
+      '    value = v;',
+      '  }',
+      '}',
+      'template<typename T> T pick(T a, T b) {',
+      '  return a;',
+      '}',
+      'template<typename T extends Item> int weigh(T item) {',
+      '  return item.weight;',
+      '}',
+    ].join('\n');
+
+    test('substitutes type arguments into members', () => {
+      expect(
+        errorsOf(
+          [
+            box,
+            'class SwordBox extends Box<Sword> {',
+            '  public int power() {',
+            '    return get().damage;',
+            '  }',
+            '}',
+            'void main() {',
+            '  Box<int> a = new Box<int>();',
+            '  a.set(3);',
+            '  Box<Sword> b = new Box<Sword>();',
+            '  SwordBox c = new SwordBox();',
+            '  printf("%d %d %d\\n", a.get(), b.get().damage, c.power());',
+            '}',
+          ].join('\n')
+        )
+      ).toEqual([]);
+
+      globalErrorHandler.clear();
+      expect(
+        errorsOf(`${box}\nBox<int> a = new Box<int>();\nstring s = a.get();\n`)
+      ).toEqual([
+        "Type mismatch in initialization: cannot assign 'int' to 'string'",
+      ]);
+    });
+
+    test('infers type arguments at call sites', () => {
+      expect(
+        errorsOf(
+          [
+            box,
+            'void main() {',
+            '  float y = pick(1, 2.5f);',
+            '  string s = pick<string>("a", "b");',
+            '  Box<float> b = new Box();',
+            '  int w = weigh(new Sword());',
+            '  printf("%f %s %f %d\\n", y, s, b.get(), w);',
+            '}',
+          ].join('\n')
+        )
+      ).toEqual([]);
+
+      globalErrorHandler.clear();
+      expect(
+        errorsOf(
+          'template<typename T> T make() {\n  T v;\n  return v;\n}\nint m = make();\n'
+        )
+      ).toEqual([
+        "Cannot infer type argument 'T' for 'make'; specify it explicitly",
+      ]);
+    });
+
+    test('checks type argument counts and constraints', () => {
+      expect(
+        errorsOf(
+          [
+            box,
+            'int plain(int a) {',
+            '  return a;',
+            '}',
+            'Box<int, int> a;',
+            'Box b;',
+            'Item<int> i;',
+            'int n = plain<int>(1);',
+            'int w = weigh(3);',
+          ].join('\n')
+        )
+      ).toEqual([
+        "Expected 1 type argument for 'Box', but got 2",
+        "Generic type 'Box' requires 1 type argument",
+        "Type 'Item' is not generic",
+        "Expected 0 type arguments for 'plain', but got 1",
+        "Type 'int' does not satisfy the constraint 'Item' of type parameter 'T'",
+      ]);
+    });
+
+    test('records instantiations for the generators', () => {
+      const result = analyze(
+        `${box}\nvoid main() {\n  int z = pick(1, 2);\n  printf("%d\\n", z);\n}\n`
+      );
+
+      const uses = [...result.templateUses.values()];
+      expect(uses).toHaveLength(1);
+      expect(uses[0].template.name).toBe('pick');
+      expect(uses[0].typeArguments).toMatchObject([{ name: 'int' }]);
+    });
+  });
+
+  describe('control flow', () => {
+    test('reports missing return paths', () => {
+      const source = [
+        'int sign(int v) {',
+        '  if (v > 0) {',
+        '    return 1;',
+        '  } else if (v < 0) {',
+        '    return -1;',
+        '  }',
+        '}',
+      ].join('\n');
+
+      analyze(source);
+      const [error] = globalErrorHandler.getErrors();
+      expect(error.message).toBe(
+        "Not all code paths in function 'sign' return a value"
+      );
+      expect(error.location).toMatchObject({ line: 1, column: 1 });
+    });
+
+    test('accepts functions that return on every path', () => {
+      expect(
+        errorsOf(
+          [
+            'int sign(int v) {',
+            '  if (v > 0) {',
+            '    return 1;',
+            '  } else {',
+            '    return -1;',
+            '  }',
+            '}',
+            'int spin() {',
+            '  while (true) {',
+            '    return 1;',
+            '  }',
+            '}',
+            'int fail() {',
+            '  throw "fail";',
+            '}',
+          ].join('\n')
+        )
+      ).toEqual([]);
+    });
+
+    test('checks returned values', () => {
+      expect(
+        errorsOf('void log() {\n  return 1;\n}\nint count() {\n  return;\n}\n')
+      ).toEqual([
+        "Function 'log' returns 'void' and cannot return a value",
+        "Function 'count' must return a value of type 'int'",
+      ]);
+    });
+
+    test('warns about unreachable code once per block', () => {
+      analyze('void stop() {\n  return;\n  stop();\n  stop();\n}\n');
+
+      const warnings = globalErrorHandler.getWarnings();
+      expect(warnings.map((w) => w.message)).toEqual([
+        'Unreachable code detected',
+      ]);
+      expect(warnings[0].location).toMatchObject({ line: 3, column: 3 });
+    });
+
+    test('reports break and continue outside loops', () => {
+      expect(
+        errorsOf('void f() {\n  break;\n}\nvoid g() {\n  continue;\n}\n')
+      ).toEqual([
+        "'break' can only be used inside a loop or switch",
+        "'continue' can only be used inside a loop",
+      ]);
+    });
+  });
+
+  describe('vector math', () => {
+    test('accepts vector arithmetic, swizzles and construction', () => {
+      expect(
+        errorsOf(
+          [
+            'vec4 f(vec3 a, vec3 b, mat4 m, quat q, float s) {',
+            '  vec3 c = a * 2.0f + s * b - -a;',
+            '  c += a;',
+            '  c.x = a.y;',
+            '  vec2 uv = c.zx;',
+            '  vec3 color = vec4(1.0f).rgb;',
+            '  vec3 rotated = q * q * a;',
+            '  bool same = a == b && uv != vec2(0.0f, 1.0f);',
+            '  printf("%d %f\\n", same, rotated.x + color.r);',
+            '  return m * vec4(c.x, c.y, c.z, 1.0f);',
+            '}',
+          ].join('\n')
+        )
+      ).toEqual([]);
+    });
+
+    test('reports invalid vector operations', () => {
+      expect(
+        errorsOf(
+          [
+            'void f(vec3 a, vec2 b, ivec2 i) {',
+            '  vec3 c = a * b;',
+            '  a.xy = b;',
+            '  float q = a.q;',
+            '  ivec2 j = i * 2.5f;',
+            '  bool less = a < a;',
+            '  printf("%f %f %d %d\\n", c.x, q, j.x, less);',
+            '}',
+          ].join('\n')
+        )
+      ).toEqual([
+        "Operator '*' cannot be applied to types 'vec3' and 'vec2'",
+        "Cannot assign to swizzle 'xy', assign its components instead",
+        "Property 'q' does not exist on type 'vec3'",
+        "Operator '*' cannot be applied to types 'ivec2' and 'float'",
+        "Operator '<' cannot be applied to types 'vec3' and 'vec3'",
+      ]);
+    });
+
+    test('resolves user-defined operator members', () => {
+      const source = [
+        'struct Money {',
+        '  int cents;',
+        '  Money operator+(Money other) {',
+        '    Money sum;',
+        '    sum.cents = this.cents + other.cents;',
+        '    return sum;',
+        '  }',
+        '  Money operator-() {',
+        '    Money negated;',
+        '    negated.cents = -this.cents;',
+        '    return negated;',
+        '  }',
+        '};',
+        'int f(Money a, Money b) {',
+        '  Money total = a + -b;',
+        '  total += a;',
+        '  return total.cents;',
+        '}',
+      ].join('\n');
+
+      expect(errorsOf(source)).toEqual([]);
+      globalErrorHandler.clear();
+      expect(
+        errorsOf(source.replace('a + -b', 'a * b').replace('+= a', '-= a'))
+      ).toEqual([
+        "Operator '*' cannot be applied to types 'Money' and 'Money'",
+        "Operator '-' cannot be applied to types 'Money' and 'Money'",
+      ]);
+    });
+
+    test('checks operator declarations', () => {
+      expect(
+        errorsOf(
+          [
+            'class Flag {',
+            '  public bool operator!(Flag other) {',
+            '    return true;',
+            '  }',
+            '}',
+            'Flag operator-(Flag a, Flag b) {',
+            '  return a;',
+            '}',
+          ].join('\n')
+        )
+      ).toEqual([
+        "Operator 'operator!' must take 0 parameters",
+        "Operator 'operator-' must be declared as a member of a class or struct",
+      ]);
+    });
+  });
+
+  describe('usage', () => {
+    test('warns about unused variables', () => {
+      expect(
+        warningsOf(
+          [
+            'void f(int a) {',
+            '  int unused = 1;',
+            '  int written = 2;',
+            '  written = a;',
+            '  int _ignored = 3;',
+            '  int used = 4;',
+            '  printf("%d\\n", used);',
+            '}',
+          ].join('\n')
+        )
+      ).toEqual([
+        "Variable 'unused' is declared but never used",
+        "Variable 'written' is declared but never used",
+      ]);
+    });
+
+    test('reports undefined identifiers with their location', () => {
+      analyze('void f() {\n  int total = 1 + missing;\n}\n');
+
+      const [error] = globalErrorHandler.getErrors();
+      expect(error.message).toBe("Undefined identifier 'missing'");
+      expect(error.location).toMatchObject({ line: 2, column: 19, length: 7 });
+    });
+
+    test('rejects assignments to constants', () => {
+      expect(
+        errorsOf('const int LIMIT = 3;\nvoid f() {\n  LIMIT = 4;\n}\n')
+      ).toEqual(["Cannot assign to 'LIMIT' because it is a constant"]);
+    });
+  });
+
+  describe('modules', () => {
+    test('resolves relative, scripts and package imports', () => {
+      const resolver = createResolver({
+        '/project/scripts/game/player.wc': '',
+        '/project/scripts/util/index.wc': '',
+        '/project/node_modules/@studio/physics/package.json':
+          '{ "worldc": "src/main.wc" }',
+        '/project/node_modules/@studio/physics/src/main.wc': '',
+      });
+      const from = '/project/scripts/game/level.wc';
+
+      expect(resolver.resolve('./player', from)).toMatchObject({
+        kind: ModuleKind.PROJECT,
+        path: '/project/scripts/game/player.wc',
+      });
+      expect(resolver.resolve('util', from)).toMatchObject({
+        kind: ModuleKind.PROJECT,
+        path: '/project/scripts/util/index.wc',
+      });
+      expect(resolver.resolve('@studio/physics', from)).toMatchObject({
+        kind: ModuleKind.PACKAGE,
+        path: '/project/node_modules/@studio/physics/src/main.wc',
+      });
+      expect(resolver.resolve('@worldenv/engine', from)).toMatchObject({
+        kind: ModuleKind.EXTERNAL,
+        path: null,
+      });
+      expect(resolver.resolve('./enemy', from)).toBeNull();
+
+      expect(
+        resolver.getOutputPath(from, resolver.resolve('util', from)!)
+      ).toBe('../util/index');
+    });
+
+    test('types names imported from other modules', () => {
+      const unit = new CompileUnit(
+        createResolver({
+          '/project/scripts/lib.wc': [
+            'export class Base {',
+            '  public int id;',
+            '}',
+            'export class Box<T> {',
+            '  public T value;',
+            '}',
+            'export type Id = int;',
+            'export int twice(int v) { return v * 2; }',
+          ].join('\n'),
+          '/project/scripts/main.wc': [
+            'import { Base as Entity, Box, Id, twice } from "./lib";',
+            'class Player extends Entity {',
+            '  public int score() { return this.id + twice(2); }',
+            '}',
+            'int run() {',
+            '  Box<int> box = new Box<int>();',
+            '  Id id = box.value;',
+            '  string name = twice(1, 2);',
+            '  return new Player().score() + id + name.length;',
+            '}',
+          ].join('\n'),
+        })
+      );
+
+      const result = unit.build(['/project/scripts/main.wc']);
+
+      expect(result.modules.map((m) => m.path)).toEqual([
+        '/project/scripts/lib.wc',
+        '/project/scripts/main.wc',
+      ]);
+      expect([...unit.getExports('/project/scripts/lib.wc').keys()]).toEqual([
+        'Base',
+        'Box',
+        'Id',
+        'twice',
+      ]);
+      expect(
+        unit.getModule('/project/scripts/main.wc')!.errors.map((e) => e.message)
+      ).toEqual([
+        "Expected 1 argument for 'twice', but got 2",
+        "Type mismatch in initialization: cannot assign 'int' to 'string'",
+      ]);
+    });
+
+    test('reports missing modules, missing exports and cycles', () => {
+      const unit = new CompileUnit(
+        createResolver({
+          '/project/scripts/a.wc': [
+            'import { b, helper } from "./b";',
+            'import { x } from "./missing";',
+            'export int a() { return b(); }',
+          ].join('\n'),
+          '/project/scripts/b.wc': [
+            'import { a } from "./a";',
+            'export int b() { return 1; }',
+            'int helper() { return 2; }',
+            'export { hidden };',
+          ].join('\n'),
+        })
+      );
+
+      const result = unit.build(['/project/scripts/a.wc']);
+
+      expect(result.success).toBe(false);
+      expect(result.cycles).toEqual([
+        [
+          '/project/scripts/a.wc',
+          '/project/scripts/b.wc',
+          '/project/scripts/a.wc',
+        ],
+      ]);
+      expect(result.modules.map((m) => m.errors.map((e) => e.message))).toEqual(
+        [
+          [
+            'Circular import: scripts/a.wc -> scripts/b.wc -> scripts/a.wc',
+            "Cannot export 'hidden': it is not declared in this module",
+          ],
+          [
+            "Cannot find module './missing'",
+            "Module './b' has no exported member 'helper'",
+          ],
+        ]
+      );
+    });
+  });
+});